@@ -0,0 +1,38 @@
+/**
+ * Service worker for Web Push notifications. The worker sends
+ * { title, body, url, tag } encrypted for this browser's subscription.
+ */
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { title: event.data ? event.data.text() : 'Agent update' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Agent update', {
+      body: data.body || '',
+      tag: data.tag,
+      icon: '/favicon.svg',
+      data: { url: data.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      // Reuse an open tab of the app when there is one
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        return existing.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -4,11 +4,25 @@ import type {
   Task,
   ApiResponse,
   TaskPriority,
+  TaskContext,
   ProjectCredential,
   MCPServer,
   MCPTool,
+  ToolPolicy,
+  ToolPolicyMode,
+  ToolPolicyConstraints,
   WorkflowPlan,
+  WorkflowBranchMode,
+  WorkflowBranchOptions,
+  WorkflowUserMessage,
+  TaskSchedule,
+  TaskScheduleInput,
+  ScheduleRun,
   WorkflowLog,
+  UsageSummary,
+  UserUsageSummary,
+  AgentBudget,
+  SandboxTemplate,
   User,
   Agent,
   RoadmapItem,
@@ -17,6 +31,18 @@ import type {
   BugItem,
   BugColumn,
   BugSeverity,
+  GitHubAuthMode,
+  WebhookConfig,
+  WebhookConfigInput,
+  WebhookDelivery,
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationEventType,
+  NotificationMute,
+  NotificationSettings,
+  SandboxSession,
+  SandboxStepOutput,
+  SandboxFileListing,
 } from '../types';
 
 const API_BASE = '/api';
@@ -97,7 +123,7 @@ export const updateBoard = updateProject;
 
 export async function updateProject(
   id: string,
-  data: { name?: string }
+  data: { name?: string; githubAuth?: GitHubAuthMode }
 ): Promise<ApiResponse<ProjectWithDetails>> {
   return request<ProjectWithDetails>(`/projects/${id}`, {
     method: 'PUT',
@@ -178,6 +204,7 @@ export async function updateTask(
     title?: string;
     description?: string;
     priority?: TaskPriority;
+    context?: TaskContext;
   }
 ): Promise<ApiResponse<Task>> {
   return request<Task>(`/projects/${projectId}/tasks/${id}`, {
@@ -204,6 +231,39 @@ export async function moveTask(
   });
 }
 
+// ============================================
+// TASK SCHEDULES
+// ============================================
+
+export async function getProjectSchedules(projectId: string): Promise<ApiResponse<TaskSchedule[]>> {
+  return request<TaskSchedule[]>(`/projects/${projectId}/schedules`);
+}
+
+export async function getTaskSchedule(projectId: string, taskId: string): Promise<ApiResponse<TaskSchedule | null>> {
+  return request<TaskSchedule | null>(`/projects/${projectId}/tasks/${taskId}/schedule`);
+}
+
+export async function setTaskSchedule(
+  projectId: string,
+  taskId: string,
+  input: TaskScheduleInput
+): Promise<ApiResponse<TaskSchedule>> {
+  return request<TaskSchedule>(`/projects/${projectId}/tasks/${taskId}/schedule`, {
+    method: 'PUT',
+    body: JSON.stringify(input),
+  });
+}
+
+export async function deleteTaskSchedule(projectId: string, taskId: string): Promise<ApiResponse<void>> {
+  return request<void>(`/projects/${projectId}/tasks/${taskId}/schedule`, {
+    method: 'DELETE',
+  });
+}
+
+export async function getScheduleRuns(projectId: string, taskId: string): Promise<ApiResponse<ScheduleRun[]>> {
+  return request<ScheduleRun[]>(`/projects/${projectId}/tasks/${taskId}/schedule/runs`);
+}
+
 // ============================================
 // STANDALONE TASKS (user's personal tasks)
 // ============================================
@@ -233,6 +293,7 @@ export async function updateStandaloneTask(
     title?: string;
     description?: string;
     priority?: TaskPriority;
+    context?: TaskContext;
   }
 ): Promise<ApiResponse<Task>> {
   return request<Task>(`/tasks/${id}`, {
@@ -268,6 +329,7 @@ export async function createAgent(data: {
   systemPrompt: string;
   model?: string;
   icon?: string;
+  budget?: AgentBudget | null;
 }): Promise<ApiResponse<Agent>> {
   return request<Agent>('/agents', {
     method: 'POST',
@@ -284,6 +346,7 @@ export async function updateAgent(
     model?: string;
     icon?: string;
     enabled?: boolean;
+    budget?: AgentBudget | null;
   },
   projectId?: string
 ): Promise<ApiResponse<Agent>> {
@@ -379,7 +442,7 @@ export async function getCredentials(
 export async function createCredential(
   projectId: string,
   data: {
-    type: 'github_oauth' | 'google_oauth' | 'anthropic_api_key';
+    type: 'github_oauth' | 'github_app' | 'google_oauth' | 'anthropic_api_key' | 'sandbox_secret';
     name: string;
     value: string;
     metadata?: Record<string, unknown>;
@@ -567,6 +630,39 @@ export async function createAccountMCP(
   });
 }
 
+// ============================================
+// TOOL POLICIES (omit projectId for user-level policies)
+// ============================================
+
+function toolPoliciesPath(projectId?: string): string {
+  return projectId ? `/projects/${projectId}/tool-policies` : '/tool-policies';
+}
+
+export async function getToolPolicies(projectId?: string): Promise<ApiResponse<ToolPolicy[]>> {
+  return request<ToolPolicy[]>(toolPoliciesPath(projectId));
+}
+
+export async function saveToolPolicy(
+  data: {
+    serverName: string;
+    toolName: string;
+    mode: ToolPolicyMode;
+    constraints?: ToolPolicyConstraints | null;
+  },
+  projectId?: string
+): Promise<ApiResponse<ToolPolicy>> {
+  return request<ToolPolicy>(toolPoliciesPath(projectId), {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function deleteToolPolicy(policyId: string, projectId?: string): Promise<ApiResponse<void>> {
+  return request<void>(`${toolPoliciesPath(projectId)}/${policyId}`, {
+    method: 'DELETE',
+  });
+}
+
 // ============================================
 // MCP OAUTH
 // ============================================
@@ -704,6 +800,22 @@ export async function cancelWorkflow(
   });
 }
 
+/**
+ * Start a new run from a failed one: 'retry' keeps the instructions,
+ * 'fork' replaces them
+ */
+export async function branchWorkflow(
+  projectId: string,
+  planId: string,
+  mode: WorkflowBranchMode,
+  options: WorkflowBranchOptions = {}
+): Promise<ApiResponse<WorkflowPlan>> {
+  return request<WorkflowPlan>(`/projects/${projectId}/plans/${planId}/${mode}`, {
+    method: 'POST',
+    body: JSON.stringify(options),
+  });
+}
+
 export async function resolveWorkflowCheckpoint(
   projectId: string,
   planId: string,
@@ -719,6 +831,18 @@ export async function resolveWorkflowCheckpoint(
   });
 }
 
+export async function sendWorkflowMessage(
+  projectId: string,
+  planId: string,
+  content: string,
+  interrupt = false
+): Promise<ApiResponse<WorkflowUserMessage>> {
+  return request<WorkflowUserMessage>(`/projects/${projectId}/plans/${planId}/messages`, {
+    method: 'POST',
+    body: JSON.stringify({ content, interrupt }),
+  });
+}
+
 export async function getWorkflowLogs(
   projectId: string,
   planId: string,
@@ -731,6 +855,13 @@ export async function getWorkflowLogs(
   return request<WorkflowLog[]>(`/projects/${projectId}/plans/${planId}/logs${query}`);
 }
 
+export async function getSandboxOutput(
+  projectId: string,
+  planId: string
+): Promise<ApiResponse<SandboxStepOutput[]>> {
+  return request<SandboxStepOutput[]>(`/projects/${projectId}/plans/${planId}/output`);
+}
+
 export async function generateWorkflowPlan(
   projectId: string,
   taskId: string,
@@ -742,6 +873,191 @@ export async function generateWorkflowPlan(
   });
 }
 
+/**
+ * Start a task once its dependencies complete. Starts right away (returning
+ * the plan) if they already have, otherwise returns the queued task.
+ */
+export async function startTaskWhenReady(
+  projectId: string,
+  taskId: string,
+  agentId?: string
+): Promise<ApiResponse<WorkflowPlan | Task>> {
+  return request<WorkflowPlan | Task>(`/projects/${projectId}/tasks/${taskId}/start-when-ready`, {
+    method: 'POST',
+    body: JSON.stringify({ agentId }),
+  });
+}
+
+export async function cancelTaskStartWhenReady(projectId: string, taskId: string): Promise<ApiResponse<Task>> {
+  return request<Task>(`/projects/${projectId}/tasks/${taskId}/start-when-ready`, {
+    method: 'DELETE',
+  });
+}
+
+// ============================================
+// BUDGETS (omit projectId for the user-level budget)
+// ============================================
+
+export async function getBudget(projectId?: string): Promise<ApiResponse<AgentBudget | null>> {
+  return request<AgentBudget | null>(projectId ? `/projects/${projectId}/budget` : '/budget');
+}
+
+export async function saveBudget(
+  budget: AgentBudget | null,
+  projectId?: string
+): Promise<ApiResponse<AgentBudget | null>> {
+  return request<AgentBudget | null>(projectId ? `/projects/${projectId}/budget` : '/budget', {
+    method: 'PUT',
+    body: JSON.stringify({ budget }),
+  });
+}
+
+// ============================================
+// SANDBOX TEMPLATES
+// ============================================
+
+export async function getSandboxTemplate(projectId: string): Promise<ApiResponse<SandboxTemplate | null>> {
+  return request<SandboxTemplate | null>(`/projects/${projectId}/sandbox-template`);
+}
+
+export async function saveSandboxTemplate(
+  projectId: string,
+  template: SandboxTemplate | null
+): Promise<ApiResponse<SandboxTemplate | null>> {
+  return request<SandboxTemplate | null>(`/projects/${projectId}/sandbox-template`, {
+    method: 'PUT',
+    body: JSON.stringify({ template }),
+  });
+}
+
+// ============================================
+// WEBHOOKS
+// ============================================
+
+export async function getWebhooks(projectId: string): Promise<ApiResponse<WebhookConfig[]>> {
+  return request<WebhookConfig[]>(`/projects/${projectId}/webhooks`);
+}
+
+export async function createWebhook(projectId: string, input: WebhookConfigInput): Promise<ApiResponse<WebhookConfig>> {
+  return request<WebhookConfig>(`/projects/${projectId}/webhooks`, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+export async function updateWebhook(
+  projectId: string,
+  webhookId: string,
+  update: Partial<WebhookConfigInput> & { regenerateSecret?: boolean }
+): Promise<ApiResponse<WebhookConfig>> {
+  return request<WebhookConfig>(`/projects/${projectId}/webhooks/${webhookId}`, {
+    method: 'PUT',
+    body: JSON.stringify(update),
+  });
+}
+
+export async function deleteWebhook(projectId: string, webhookId: string): Promise<ApiResponse<void>> {
+  return request<void>(`/projects/${projectId}/webhooks/${webhookId}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function getWebhookDeliveries(projectId: string, webhookId: string): Promise<ApiResponse<WebhookDelivery[]>> {
+  return request<WebhookDelivery[]>(`/projects/${projectId}/webhooks/${webhookId}/deliveries`);
+}
+
+// ============================================
+// SANDBOXES
+// ============================================
+
+export async function getSandboxSessions(projectId: string): Promise<ApiResponse<SandboxSession[]>> {
+  return request<SandboxSession[]>(`/projects/${projectId}/sandboxes`);
+}
+
+export async function destroySandboxSession(projectId: string, sessionId: string): Promise<ApiResponse<void>> {
+  return request<void>(`/projects/${projectId}/sandboxes/${sessionId}`, {
+    method: 'DELETE',
+  });
+}
+
+// ============================================
+// NOTIFICATIONS
+// ============================================
+
+export async function getNotificationChannels(): Promise<ApiResponse<NotificationChannel[]>> {
+  return request<NotificationChannel[]>('/notifications/channels');
+}
+
+export async function createNotificationChannel(input: NotificationChannelInput): Promise<ApiResponse<NotificationChannel>> {
+  return request<NotificationChannel>('/notifications/channels', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+export async function updateNotificationChannel(
+  channelId: string,
+  update: Partial<Omit<NotificationChannelInput, 'type'>>
+): Promise<ApiResponse<NotificationChannel>> {
+  return request<NotificationChannel>(`/notifications/channels/${channelId}`, {
+    method: 'PUT',
+    body: JSON.stringify(update),
+  });
+}
+
+export async function deleteNotificationChannel(channelId: string): Promise<ApiResponse<void>> {
+  return request<void>(`/notifications/channels/${channelId}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function testNotificationChannel(channelId: string): Promise<ApiResponse<{ success: boolean; error?: string }>> {
+  return request<{ success: boolean; error?: string }>(`/notifications/channels/${channelId}/test`, {
+    method: 'POST',
+  });
+}
+
+export async function getNotificationSettings(): Promise<ApiResponse<NotificationSettings>> {
+  return request<NotificationSettings>('/notifications/settings');
+}
+
+export async function updateNotificationSettings(
+  update: Partial<Pick<NotificationSettings, 'digest' | 'digestHour' | 'timezone'>>
+): Promise<ApiResponse<NotificationSettings>> {
+  return request<NotificationSettings>('/notifications/settings', {
+    method: 'PUT',
+    body: JSON.stringify(update),
+  });
+}
+
+export async function getNotificationMutes(): Promise<ApiResponse<NotificationMute[]>> {
+  return request<NotificationMute[]>('/notifications/mutes');
+}
+
+export async function setNotificationMute(
+  projectId: string,
+  events: NotificationEventType[] | null
+): Promise<ApiResponse<NotificationMute | null>> {
+  return request<NotificationMute | null>(`/notifications/mutes/${encodeURIComponent(projectId)}`, {
+    method: 'PUT',
+    body: JSON.stringify({ events }),
+  });
+}
+
+// ============================================
+// USAGE
+// ============================================
+
+export async function getProjectUsage(projectId: string, since?: string): Promise<ApiResponse<UsageSummary>> {
+  const query = since ? `?since=${encodeURIComponent(since)}` : '';
+  return request<UsageSummary>(`/projects/${projectId}/usage${query}`);
+}
+
+export async function getUsage(since?: string): Promise<ApiResponse<UserUsageSummary>> {
+  const query = since ? `?since=${encodeURIComponent(since)}` : '';
+  return request<UserUsageSummary>(`/usage${query}`);
+}
+
 // ============================================
 // STANDALONE TASK WORKFLOW
 // ============================================
@@ -787,6 +1103,18 @@ export async function cancelStandaloneWorkflow(
   });
 }
 
+export async function branchStandaloneWorkflow(
+  taskId: string,
+  planId: string,
+  mode: WorkflowBranchMode,
+  options: WorkflowBranchOptions = {}
+): Promise<ApiResponse<WorkflowPlan>> {
+  return request<WorkflowPlan>(`/tasks/${taskId}/plans/${planId}/${mode}`, {
+    method: 'POST',
+    body: JSON.stringify(options),
+  });
+}
+
 export async function resolveStandaloneWorkflowCheckpoint(
   taskId: string,
   planId: string,
@@ -802,6 +1130,18 @@ export async function resolveStandaloneWorkflowCheckpoint(
   });
 }
 
+export async function sendStandaloneWorkflowMessage(
+  taskId: string,
+  planId: string,
+  content: string,
+  interrupt = false
+): Promise<ApiResponse<WorkflowUserMessage>> {
+  return request<WorkflowUserMessage>(`/tasks/${taskId}/plans/${planId}/messages`, {
+    method: 'POST',
+    body: JSON.stringify({ content, interrupt }),
+  });
+}
+
 export async function getStandaloneWorkflowLogs(
   taskId: string,
   planId: string,
@@ -814,12 +1154,60 @@ export async function getStandaloneWorkflowLogs(
   return request<WorkflowLog[]>(`/tasks/${taskId}/plans/${planId}/logs${query}`);
 }
 
+export async function getStandaloneSandboxOutput(
+  taskId: string,
+  planId: string
+): Promise<ApiResponse<SandboxStepOutput[]>> {
+  return request<SandboxStepOutput[]>(`/tasks/${taskId}/plans/${planId}/output`);
+}
+
+/**
+ * Link that downloads a tool step's full sandbox transcript. Plans on a
+ * user's task container belong to standalone tasks.
+ */
+export function sandboxTranscriptUrl(plan: Pick<WorkflowPlan, 'id' | 'projectId' | 'taskId'>, stepId: string): string {
+  return plan.projectId.startsWith('user-tasks-')
+    ? `${API_BASE}/tasks/${plan.taskId}/plans/${plan.id}/output/${encodeURIComponent(stepId)}`
+    : `${API_BASE}/projects/${plan.projectId}/plans/${plan.id}/output/${encodeURIComponent(stepId)}`;
+}
+
+function planPath(plan: Pick<WorkflowPlan, 'id' | 'projectId' | 'taskId'>): string {
+  return plan.projectId.startsWith('user-tasks-')
+    ? `/tasks/${plan.taskId}/plans/${plan.id}`
+    : `/projects/${plan.projectId}/plans/${plan.id}`;
+}
+
+/**
+ * List a directory of a run's live sandbox ('' for the working directory)
+ */
+export async function listSandboxFiles(
+  plan: Pick<WorkflowPlan, 'id' | 'projectId' | 'taskId'>,
+  path = '',
+  sessionId?: string
+): Promise<ApiResponse<SandboxFileListing>> {
+  const params = new URLSearchParams({ path });
+  if (sessionId) params.set('sessionId', sessionId);
+  return request<SandboxFileListing>(`${planPath(plan)}/files?${params.toString()}`);
+}
+
+/**
+ * Link that downloads a file from a run's live sandbox
+ */
+export function sandboxFileDownloadUrl(
+  plan: Pick<WorkflowPlan, 'id' | 'projectId' | 'taskId'>,
+  sessionId: string,
+  path: string
+): string {
+  const params = new URLSearchParams({ sessionId, path });
+  return `${API_BASE}${planPath(plan)}/files/download?${params.toString()}`;
+}
+
 // ============================================
 // LINK METADATA (for link pills)
 // ============================================
 
 export interface LinkMetadata {
-  type: 'google_doc' | 'google_sheet' | 'github_pr' | 'github_issue' | 'github_repo';
+  type: 'google_doc' | 'google_sheet' | 'google_calendar_event' | 'github_pr' | 'github_issue' | 'github_repo';
   title: string;
   id: string;
 }
@@ -7,10 +7,17 @@
 
 import { DefaultApproval } from './DefaultApproval';
 import { EmailApproval } from './EmailApproval';
+import { GmailBulkApproval } from './GmailBulkApproval';
 import { GitHubPRApproval } from './GitHubPRApproval';
+import { GitHubReviewApproval } from './GitHubReviewApproval';
+import { GitHubCommitApproval } from './GitHubCommitApproval';
+import { GitHubIssueApproval } from './GitHubIssueApproval';
 import { GoogleDocsApproval } from './GoogleDocsApproval';
 import { GoogleSheetsApproval } from './GoogleSheetsApproval';
+import { CalendarEventApproval } from './CalendarEventApproval';
+import { DriveShareApproval } from './DriveShareApproval';
 import { AskUserQuestionApproval } from './AskUserQuestionApproval';
+import type { WorkflowArtifact } from '../../types';
 
 /**
  * Props passed to all approval view components
@@ -23,6 +30,8 @@ export interface ApprovalViewProps {
   onRequestChanges: (feedback: string) => void;
   onCancel: () => void;
   isLoading: boolean;
+  /** Dev servers running in the task's sandbox, for trying the change */
+  previews?: WorkflowArtifact[];
 }
 
 type ApprovalViewComponent = React.FC<ApprovalViewProps>;
@@ -32,15 +41,47 @@ type ApprovalViewComponent = React.FC<ApprovalViewProps>;
  */
 const APPROVAL_VIEW_REGISTRY: Record<string, ApprovalViewComponent> = {
   'GitHub__create_pr': GitHubPRApproval,
+  'GitHub__create_review': GitHubReviewApproval,
+  'GitHub__commit_file': GitHubCommitApproval,
+  'GitHub__create_issue': GitHubIssueApproval,
+  'GitHub__add_comment': GitHubIssueApproval,
+  'GitHub__close_issue': GitHubIssueApproval,
+  'GitHub__add_labels': GitHubIssueApproval,
   'Gmail__sendEmail': EmailApproval,
+  'Gmail__replyToMessage': EmailApproval,
+  'Gmail__replyAllToMessage': EmailApproval,
+  'Gmail__forwardMessage': EmailApproval,
   'Gmail__createDraft': EmailApproval,
+  'Gmail__updateDraft': EmailApproval,
+  'Gmail__modifyLabels': GmailBulkApproval,
+  'Gmail__archiveMessages': GmailBulkApproval,
+  'Gmail__markAsRead': GmailBulkApproval,
+  'Gmail__starMessages': GmailBulkApproval,
   'Google_Docs__createDocument': GoogleDocsApproval,
   'Google_Docs__appendToDocument': GoogleDocsApproval,
   'Google_Docs__replaceDocumentContent': GoogleDocsApproval,
+  'Google_Docs__replaceText': GoogleDocsApproval,
+  'Google_Docs__insertAfterHeading': GoogleDocsApproval,
+  'Google_Docs__updateSection': GoogleDocsApproval,
+  'Google_Docs__addComment': GoogleDocsApproval,
+  'Google_Docs__suggestEdit': GoogleDocsApproval,
   'Google_Sheets__createSpreadsheet': GoogleSheetsApproval,
   'Google_Sheets__appendRows': GoogleSheetsApproval,
   'Google_Sheets__updateCells': GoogleSheetsApproval,
   'Google_Sheets__replaceSheetContent': GoogleSheetsApproval,
+  'Google_Sheets__writeFormulas': GoogleSheetsApproval,
+  'Google_Sheets__addSheet': GoogleSheetsApproval,
+  'Google_Sheets__renameSheet': GoogleSheetsApproval,
+  'Google_Sheets__deleteSheet': GoogleSheetsApproval,
+  'Google_Sheets__formatCells': GoogleSheetsApproval,
+  'Google_Sheets__freezeRows': GoogleSheetsApproval,
+  'Google_Sheets__addChart': GoogleSheetsApproval,
+  'Google_Sheets__addPivotTable': GoogleSheetsApproval,
+  'Google_Calendar__createEvent': CalendarEventApproval,
+  'Google_Calendar__updateEvent': CalendarEventApproval,
+  'Google_Calendar__respondToEvent': CalendarEventApproval,
+  'Google_Drive__shareFile': DriveShareApproval,
+  'Google_Drive__unshareFile': DriveShareApproval,
   'AskUser__askQuestions': AskUserQuestionApproval,
 };
 
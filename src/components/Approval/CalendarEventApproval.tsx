@@ -0,0 +1,305 @@
+/**
+ * Calendar Event Approval View
+ *
+ * Approval view for creating, moving and responding to Google Calendar
+ * events. Shows the proposed event as it will appear on the calendar and
+ * warns about any existing events it collides with, so double-bookings are
+ * caught before the invitations go out.
+ */
+
+import { useState } from 'react';
+import { McpIcon } from '../common';
+import { ApprovalFooter } from './ApprovalFooter';
+import { useFieldComments } from '../../hooks';
+import type { ApprovalViewProps } from './ApprovalViewRegistry';
+import './CalendarEventApproval.css';
+
+interface Conflict {
+  start: string;
+  end: string;
+  calendar?: string;
+  title?: string;
+}
+
+interface CalendarEventApprovalData {
+  eventId?: string;
+  title?: string;
+  start?: string;
+  end?: string;
+  timeZone?: string;
+  location?: string;
+  description?: string;
+  attendees?: string[];
+  addVideoCall?: boolean;
+  response?: 'accepted' | 'declined' | 'tentative';
+  comment?: string;
+  /** Display-only: existing events that overlap the proposed time */
+  conflicts?: Conflict[];
+}
+
+const RESPONSE_LABELS: Record<string, string> = {
+  accepted: 'Accept',
+  declined: 'Decline',
+  tentative: 'Maybe',
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** "Tue, Mar 4, 15:00 – 16:00", or just the day(s) for all-day events */
+function formatRange(start?: string, end?: string): string {
+  if (!start) return '—';
+  if (DATE_ONLY.test(start)) {
+    const day = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString(undefined, {
+      weekday: 'short', month: 'short', day: 'numeric',
+    });
+    // All-day end dates are exclusive
+    const lastDay = end && DATE_ONLY.test(end)
+      ? new Date(Date.parse(`${end}T00:00:00`) - 86400000).toISOString().slice(0, 10)
+      : start;
+    return lastDay === start ? `${day(start)} (all day)` : `${day(start)} – ${day(lastDay)} (all day)`;
+  }
+
+  const startDate = new Date(start);
+  const endDate = end ? new Date(end) : undefined;
+  if (Number.isNaN(startDate.getTime())) return start;
+  const date = startDate.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  const time = (d: Date) => d.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  if (!endDate || Number.isNaN(endDate.getTime())) return `${date}, ${time(startDate)}`;
+  if (startDate.toDateString() === endDate.toDateString()) {
+    return `${date}, ${time(startDate)} – ${time(endDate)}`;
+  }
+  const endDay = endDate.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return `${date}, ${time(startDate)} – ${endDay}, ${time(endDate)}`;
+}
+
+export function CalendarEventApproval({
+  tool,
+  action,
+  data,
+  onApprove,
+  onRequestChanges,
+  onCancel,
+  isLoading,
+}: ApprovalViewProps) {
+  const eventData = data as CalendarEventApprovalData;
+  const {
+    start,
+    end,
+    timeZone,
+    description,
+    attendees = [],
+    addVideoCall = false,
+    response,
+    conflicts = [],
+  } = eventData;
+
+  const isRespond = tool.endsWith('__respondToEvent');
+  const isUpdate = tool.endsWith('__updateEvent');
+
+  // Editable fields
+  const [title, setTitle] = useState(eventData.title || '');
+  const [location, setLocation] = useState(eventData.location || '');
+  const [responseComment, setResponseComment] = useState(eventData.comment || '');
+
+  const {
+    fieldComments,
+    commentingField,
+    commentInput,
+    setCommentInput,
+    startFieldComment,
+    submitFieldComment,
+    cancelFieldComment,
+    removeFieldComment,
+    getFieldComment,
+    commentCount,
+  } = useFieldComments();
+
+  const handleApprove = () => {
+    const approve = onApprove as (responseData?: Record<string, unknown>) => void;
+    if (isRespond) {
+      approve({ comment: responseComment.trim() || undefined });
+      return;
+    }
+    approve({
+      ...(title.trim() && { title: title.trim() }),
+      ...((location.trim() || eventData.location) && { location: location.trim() }),
+    });
+  };
+
+  const handleRequestChanges = () => {
+    onRequestChanges(fieldComments.map((fc) => `[${fc.fieldLabel}]: "${fc.content}"`).join('\n\n'));
+  };
+
+  /** Comment controls for a field row */
+  const renderComment = (fieldKey: string, fieldLabel: string) => {
+    const comment = getFieldComment(fieldKey);
+    return (
+      <>
+        {!comment && commentingField !== fieldKey && !isLoading && (
+          <button className="calendar-approval-add-comment" onClick={() => startFieldComment(fieldKey)}>
+            + comment
+          </button>
+        )}
+        {commentingField === fieldKey && (
+          <div className="calendar-approval-comment-input">
+            <input
+              type="text"
+              value={commentInput}
+              onChange={(e) => setCommentInput(e.target.value)}
+              placeholder="Add your feedback..."
+              autoFocus
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && commentInput.trim()) {
+                  submitFieldComment(fieldKey, fieldLabel);
+                } else if (e.key === 'Escape') {
+                  cancelFieldComment();
+                }
+              }}
+            />
+          </div>
+        )}
+        {comment && commentingField !== fieldKey && (
+          <div className="calendar-approval-comment">
+            <span>{comment.content}</span>
+            <button
+              className="calendar-approval-comment-remove"
+              onClick={() => removeFieldComment(fieldKey)}
+              title="Remove comment"
+            >
+              ×
+            </button>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const approveLabel = isRespond
+    ? RESPONSE_LABELS[response || ''] || 'Respond'
+    : isUpdate ? 'Update Event'
+    : attendees.length > 0 ? 'Send Invitations'
+    : 'Create Event';
+
+  return (
+    <div className="calendar-approval">
+      <div className="calendar-approval-header">
+        <McpIcon type="google-calendar" size={20} />
+        <h3>{action || approveLabel}</h3>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="calendar-approval-conflicts">
+          <div className="calendar-approval-conflicts-title">
+            ⚠ Overlaps {conflicts.length} existing {conflicts.length === 1 ? 'event' : 'events'}
+          </div>
+          <ul>
+            {conflicts.map((conflict, i) => (
+              <li key={i}>
+                <span className="calendar-conflict-title">{conflict.title || 'Busy'}</span>
+                {conflict.calendar && conflict.calendar !== 'primary' && (
+                  <span className="calendar-conflict-calendar">{conflict.calendar}</span>
+                )}
+                <span className="calendar-conflict-time">{formatRange(conflict.start, conflict.end)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="calendar-approval-event">
+        <div className="calendar-approval-field">
+          <span className="calendar-approval-label">Title</span>
+          {isRespond ? (
+            <span className="calendar-approval-value">{title || '(no title)'}</span>
+          ) : (
+            <input
+              type="text"
+              className="calendar-approval-input"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={isLoading}
+              placeholder={isUpdate ? 'Unchanged' : 'Event title'}
+            />
+          )}
+          {renderComment('title', 'Title')}
+        </div>
+
+        {(start || !isRespond) && (
+          <div className="calendar-approval-field">
+            <span className="calendar-approval-label">When</span>
+            <span className="calendar-approval-value">
+              {start ? formatRange(start, end) : 'Unchanged'}
+              {timeZone && <span className="calendar-approval-muted"> ({timeZone})</span>}
+            </span>
+            {renderComment('time', 'Time')}
+          </div>
+        )}
+
+        {!isRespond && (
+          <div className="calendar-approval-field">
+            <span className="calendar-approval-label">Where</span>
+            <input
+              type="text"
+              className="calendar-approval-input"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              disabled={isLoading}
+              placeholder={isUpdate ? 'Unchanged' : 'No location'}
+            />
+            {renderComment('location', 'Location')}
+          </div>
+        )}
+
+        {addVideoCall && (
+          <div className="calendar-approval-field">
+            <span className="calendar-approval-label">Video</span>
+            <span className="calendar-approval-value">A Google Meet link will be added</span>
+          </div>
+        )}
+
+        {attendees.length > 0 && (
+          <div className="calendar-approval-field">
+            <span className="calendar-approval-label">Guests</span>
+            <span className="calendar-approval-attendees">
+              {attendees.map((email) => (
+                <span key={email} className="calendar-approval-attendee">{email}</span>
+              ))}
+            </span>
+            {renderComment('attendees', 'Guests')}
+          </div>
+        )}
+
+        {isRespond && (
+          <div className="calendar-approval-field">
+            <span className="calendar-approval-label">Note</span>
+            <input
+              type="text"
+              className="calendar-approval-input"
+              value={responseComment}
+              onChange={(e) => setResponseComment(e.target.value)}
+              disabled={isLoading}
+              placeholder="Optional note to the organizer"
+            />
+          </div>
+        )}
+
+        {description && (
+          <div className="calendar-approval-description">
+            <pre>{description}</pre>
+            {renderComment('description', 'Description')}
+          </div>
+        )}
+      </div>
+
+      <ApprovalFooter
+        onApprove={handleApprove}
+        onRequestChanges={handleRequestChanges}
+        onCancel={onCancel}
+        isLoading={isLoading}
+        approveLabel={approveLabel}
+        approveDisabled={!isRespond && !isUpdate && !title.trim()}
+        commentCount={commentCount}
+      />
+    </div>
+  );
+}
@@ -43,6 +43,27 @@ const TOOL_CONFIG: Record<string, {
     fieldLabels: { to: 'To', subject: 'Subject', body: 'Message', cc: 'CC', bcc: 'BCC' },
     commentableFields: ['body'],
   },
+  'Sandbox__commit': {
+    label: 'Commit Changes',
+    buttonLabel: 'Commit',
+    fieldLabels: { message: 'Commit Message' },
+    editableFields: ['message'],
+  },
+  'Sandbox__push': {
+    label: 'Push Branch',
+    buttonLabel: 'Push',
+    fieldLabels: { branch: 'Branch', diff: 'Changes', stats: 'Stats' },
+  },
+  'Sandbox__exec': {
+    label: 'Run Command',
+    buttonLabel: 'Run Command',
+    fieldLabels: { command: 'Command', cwd: 'Directory' },
+  },
+  'Sandbox__startPreview': {
+    label: 'Start Preview',
+    buttonLabel: 'Start Preview',
+    fieldLabels: { command: 'Command', port: 'Port', cwd: 'Directory' },
+  },
   'Sandbox__runCode': {
     label: 'Run Code',
     buttonLabel: 'Run Code',
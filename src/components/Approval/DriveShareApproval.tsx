@@ -0,0 +1,253 @@
+/**
+ * Drive Share Approval View
+ *
+ * Approval view for sharing a Drive file or taking access away. Lists the
+ * people the change affects next to the file's current access, so it is
+ * clear who gains (or loses) access before anything is sent. People can be
+ * unticked and the access level lowered before approving.
+ */
+
+import { useState } from 'react';
+import { McpIcon } from '../common';
+import { ApprovalFooter } from './ApprovalFooter';
+import { useFieldComments } from '../../hooks';
+import type { ApprovalViewProps } from './ApprovalViewRegistry';
+import './DriveShareApproval.css';
+
+type ShareRole = 'reader' | 'commenter' | 'writer';
+
+interface CurrentAccess {
+  type?: string;
+  role?: string;
+  email?: string;
+  domain?: string;
+  name?: string;
+}
+
+interface DriveShareApprovalData {
+  fileId?: string;
+  emails?: string[];
+  role?: ShareRole;
+  anyoneWithLink?: boolean;
+  notify?: boolean;
+  message?: string;
+  /** Display-only: the file's name */
+  fileName?: string;
+  /** Display-only: permissions from listPermissions */
+  currentAccess?: CurrentAccess[];
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  reader: 'Viewer',
+  commenter: 'Commenter',
+  writer: 'Editor',
+  owner: 'Owner',
+  fileOrganizer: 'Content manager',
+  organizer: 'Manager',
+};
+
+function roleLabel(role?: string): string {
+  return ROLE_LABELS[role || ''] || role || '';
+}
+
+function accessLabel(access: CurrentAccess): string {
+  if (access.type === 'anyone') return 'Anyone with the link';
+  if (access.type === 'domain') return `Everyone at ${access.domain}`;
+  return access.name && access.email ? `${access.name} (${access.email})` : access.email || access.name || 'Unknown';
+}
+
+export function DriveShareApproval({
+  tool,
+  action,
+  data,
+  onApprove,
+  onRequestChanges,
+  onCancel,
+  isLoading,
+}: ApprovalViewProps) {
+  const shareData = data as DriveShareApprovalData;
+  const { emails = [], anyoneWithLink = false, notify = true, message, currentAccess = [] } = shareData;
+  const isUnshare = tool.endsWith('__unshareFile');
+
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(emails));
+  const [role, setRole] = useState<ShareRole>(shareData.role || 'reader');
+  const [linkSharing, setLinkSharing] = useState(anyoneWithLink);
+
+  const {
+    fieldComments,
+    commentingField,
+    commentInput,
+    setCommentInput,
+    startFieldComment,
+    submitFieldComment,
+    cancelFieldComment,
+    removeFieldComment,
+    getFieldComment,
+    commentCount,
+  } = useFieldComments();
+
+  const existingAccess = (email: string) =>
+    currentAccess.find((a) => a.email?.toLowerCase() === email.toLowerCase());
+
+  const toggle = (email: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(email)) next.delete(email);
+      else next.add(email);
+      return next;
+    });
+  };
+
+  const handleApprove = () => {
+    // Only the ticked people are approved
+    (onApprove as (responseData?: Record<string, unknown>) => void)({
+      emails: emails.filter((email) => selected.has(email)),
+      anyoneWithLink: linkSharing,
+      ...(!isUnshare && { role }),
+    });
+  };
+
+  const handleRequestChanges = () => {
+    onRequestChanges(fieldComments.map((fc) => `[${fc.fieldLabel}]: "${fc.content}"`).join('\n\n'));
+  };
+
+  const changeCount = selected.size + (linkSharing ? 1 : 0);
+  const approveLabel = isUnshare ? `Remove Access (${changeCount})` : `Share (${changeCount})`;
+
+  return (
+    <div className="drive-share-approval">
+      <div className="drive-share-header">
+        <McpIcon type="google-drive" size={20} />
+        <div className="drive-share-title">
+          <h3>{action || (isUnshare ? 'Remove Access' : 'Share File')}</h3>
+          <span className="drive-share-file">{shareData.fileName || shareData.fileId}</span>
+        </div>
+      </div>
+
+      {!isUnshare && (
+        <div className="drive-share-role">
+          <label htmlFor="drive-share-role">Access</label>
+          <select
+            id="drive-share-role"
+            value={role}
+            onChange={(e) => setRole(e.target.value as ShareRole)}
+            disabled={isLoading}
+          >
+            <option value="reader">Viewer</option>
+            <option value="commenter">Commenter</option>
+            <option value="writer">Editor</option>
+          </select>
+        </div>
+      )}
+
+      <div className="drive-share-section-label">{isUnshare ? 'Loses access' : 'Gains access'}</div>
+      <ul className="drive-share-list">
+        {emails.map((email) => {
+          const existing = existingAccess(email);
+          const comment = getFieldComment(email);
+          return (
+            <li key={email} className={`drive-share-item ${selected.has(email) ? '' : 'unselected'}`}>
+              <label className="drive-share-row">
+                <input
+                  type="checkbox"
+                  checked={selected.has(email)}
+                  onChange={() => toggle(email)}
+                  disabled={isLoading}
+                />
+                <span className="drive-share-email">{email}</span>
+                {existing && (
+                  <span className="drive-share-note">
+                    {isUnshare ? roleLabel(existing.role) : `already ${roleLabel(existing.role).toLowerCase()}`}
+                  </span>
+                )}
+                {isUnshare && !existing && currentAccess.length > 0 && (
+                  <span className="drive-share-note">no access</span>
+                )}
+              </label>
+              {!comment && commentingField !== email && !isLoading && (
+                <button className="drive-share-add-comment" onClick={() => startFieldComment(email)}>
+                  + comment
+                </button>
+              )}
+              {commentingField === email && (
+                <div className="drive-share-comment-input">
+                  <input
+                    type="text"
+                    value={commentInput}
+                    onChange={(e) => setCommentInput(e.target.value)}
+                    placeholder="Add your feedback..."
+                    autoFocus
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && commentInput.trim()) {
+                        submitFieldComment(email, email);
+                      } else if (e.key === 'Escape') {
+                        cancelFieldComment();
+                      }
+                    }}
+                  />
+                </div>
+              )}
+              {comment && commentingField !== email && (
+                <div className="drive-share-comment">
+                  <span>{comment.content}</span>
+                  <button
+                    className="drive-share-comment-remove"
+                    onClick={() => removeFieldComment(email)}
+                    title="Remove comment"
+                  >
+                    ×
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+        {anyoneWithLink && (
+          <li className={`drive-share-item drive-share-link ${linkSharing ? '' : 'unselected'}`}>
+            <label className="drive-share-row">
+              <input
+                type="checkbox"
+                checked={linkSharing}
+                onChange={() => setLinkSharing(!linkSharing)}
+                disabled={isLoading}
+              />
+              <span className="drive-share-email">Anyone with the link</span>
+              {!isUnshare && <span className="drive-share-warning">Not limited to the people above</span>}
+            </label>
+          </li>
+        )}
+      </ul>
+
+      {!isUnshare && notify && message && (
+        <div className="drive-share-message">
+          <span className="drive-share-section-label">Message</span>
+          <p>{message}</p>
+        </div>
+      )}
+
+      {currentAccess.length > 0 && (
+        <details className="drive-share-current">
+          <summary>Current access ({currentAccess.length})</summary>
+          <ul>
+            {currentAccess.map((access, i) => (
+              <li key={i}>
+                <span>{accessLabel(access)}</span>
+                <span className="drive-share-note">{roleLabel(access.role)}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      <ApprovalFooter
+        onApprove={handleApprove}
+        onRequestChanges={handleRequestChanges}
+        onCancel={onCancel}
+        isLoading={isLoading}
+        approveLabel={approveLabel}
+        approveDisabled={changeCount === 0}
+        commentCount={commentCount}
+      />
+    </div>
+  );
+}
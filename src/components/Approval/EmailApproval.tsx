@@ -1,9 +1,10 @@
 /**
  * Email Approval View
  *
- * Dedicated approval view for Gmail send/draft operations.
+ * Dedicated approval view for Gmail send/reply/forward/draft operations.
  * Displays email in familiar email-client style layout with
- * editable subject and commentable body.
+ * editable subject and commentable body, followed by the attachments and
+ * the thread being replied to or forwarded.
  */
 
 import { useState } from 'react';
@@ -15,15 +16,37 @@ import type { TextComment } from '../../types';
 import type { ApprovalViewProps } from './ApprovalViewRegistry';
 import './EmailApproval.css';
 
+interface QuotedMessage {
+  from?: string;
+  date?: string;
+  body?: string;
+}
+
+interface AttachmentSource {
+  sessionId?: string;
+  path?: string;
+  driveUrl?: string;
+  filename?: string;
+}
+
 interface EmailApprovalData {
   to?: string;
   cc?: string;
   bcc?: string;
   subject?: string;
   body?: string;
+  attachments?: AttachmentSource[];
+  includeAttachments?: boolean;
+  /** Display-only: the messages being replied to or forwarded */
+  quotedThread?: QuotedMessage[];
+}
+
+function attachmentName(attachment: AttachmentSource): string {
+  return attachment.filename || attachment.path?.split('/').pop() || attachment.driveUrl || 'Attachment';
 }
 
 export function EmailApproval({
+  tool,
   action,
   data,
   onApprove,
@@ -49,8 +72,18 @@ export function EmailApproval({
     bcc: proposedBcc = '',
     subject: proposedSubject = '',
     body = '',
+    attachments = [],
+    includeAttachments = true,
+    quotedThread = [],
   } = emailData;
 
+  // Replies derive their recipients and subject from the original message
+  const isReplyAll = tool.endsWith('__replyAllToMessage');
+  const isReply = isReplyAll || tool.endsWith('__replyToMessage');
+  const isForward = tool.endsWith('__forwardMessage');
+  const isDraft = tool.endsWith('Draft');
+  const replyTarget = quotedThread[quotedThread.length - 1]?.from || 'the original sender';
+
   // Editable fields
   const [emailTo, setEmailTo] = useState(proposedTo);
   const [emailCc, setEmailCc] = useState(proposedCc);
@@ -117,11 +150,18 @@ export function EmailApproval({
 
   const handleApprove = () => {
     // Pass back edited fields
-    (onApprove as (responseData?: Record<string, unknown>) => void)({
-      to: emailTo.trim() || proposedTo,
+    const recipients = {
       cc: emailCc.trim() || undefined,
       bcc: emailBcc.trim() || undefined,
-      subject: emailSubject.trim() || proposedSubject,
+    };
+    if (isReply) {
+      (onApprove as (responseData?: Record<string, unknown>) => void)(recipients);
+      return;
+    }
+    (onApprove as (responseData?: Record<string, unknown>) => void)({
+      to: emailTo.trim() || proposedTo,
+      ...recipients,
+      ...(!isForward && { subject: emailSubject.trim() || proposedSubject }),
     });
   };
 
@@ -131,35 +171,51 @@ export function EmailApproval({
   };
 
   // Determine action label
-  const isSend = action?.toLowerCase().includes('send');
-  const approveLabel = isSend ? 'Send Email' : 'Save Draft';
+  const approveLabel = isDraft ? 'Save Draft'
+    : isReply ? 'Send Reply'
+    : isForward ? 'Forward'
+    : 'Send Email';
+  const approveDisabled = isReply ? false
+    : isForward ? !emailTo.trim()
+    : !emailSubject.trim();
 
   return (
     <div className="email-approval-view">
       {/* Header */}
       <div className="email-approval-header">
         <McpIcon type="gmail" size={20} />
-        <h3>{action || (isSend ? 'Send Email' : 'Create Draft')}</h3>
+        <h3>{action || approveLabel}</h3>
       </div>
 
       {/* Recipients Section */}
       <div className="email-approval-recipients">
-        <RecipientField
-          label="To"
-          value={emailTo}
-          onChange={setEmailTo}
-          fieldKey="to"
-          isCommenting={commentingField === 'to'}
-          existingComment={getFieldComment('to')}
-          commentInput={commentInput}
-          onStartComment={() => handleStartFieldComment('to')}
-          onCommentChange={setCommentInput}
-          onSubmitComment={() => handleSubmitFieldComment('to', 'To')}
-          onCancelComment={handleCancelFieldComment}
-          onEditComment={(content) => handleEditFieldComment('to', content)}
-          onRemoveComment={() => handleRemoveFieldComment('to')}
-          disabled={isLoading}
-        />
+        {isReply ? (
+          <div className="email-recipient-field">
+            <div className="email-recipient-row">
+              <span className="email-recipient-label">To:</span>
+              <span className="email-recipient-fixed">
+                {isReplyAll ? `${replyTarget} and everyone else on the thread` : replyTarget}
+              </span>
+            </div>
+          </div>
+        ) : (
+          <RecipientField
+            label="To"
+            value={emailTo}
+            onChange={setEmailTo}
+            fieldKey="to"
+            isCommenting={commentingField === 'to'}
+            existingComment={getFieldComment('to')}
+            commentInput={commentInput}
+            onStartComment={() => handleStartFieldComment('to')}
+            onCommentChange={setCommentInput}
+            onSubmitComment={() => handleSubmitFieldComment('to', 'To')}
+            onCancelComment={handleCancelFieldComment}
+            onEditComment={(content) => handleEditFieldComment('to', content)}
+            onRemoveComment={() => handleRemoveFieldComment('to')}
+            disabled={isLoading}
+          />
+        )}
         {(emailCc || proposedCc) && (
           <RecipientField
             label="CC"
@@ -198,25 +254,27 @@ export function EmailApproval({
         )}
       </div>
 
-      {/* Subject (editable with comment) */}
-      <div className="email-approval-subject">
-        <RecipientField
-          label="Subject"
-          value={emailSubject}
-          onChange={setEmailSubject}
-          fieldKey="subject"
-          isCommenting={commentingField === 'subject'}
-          existingComment={getFieldComment('subject')}
-          commentInput={commentInput}
-          onStartComment={() => handleStartFieldComment('subject')}
-          onCommentChange={setCommentInput}
-          onSubmitComment={() => handleSubmitFieldComment('subject', 'Subject')}
-          onCancelComment={handleCancelFieldComment}
-          onEditComment={(content) => handleEditFieldComment('subject', content)}
-          onRemoveComment={() => handleRemoveFieldComment('subject')}
-          disabled={isLoading}
-        />
-      </div>
+      {/* Subject (editable with comment) - replies and forwards reuse the original's */}
+      {!isReply && !isForward && (
+        <div className="email-approval-subject">
+          <RecipientField
+            label="Subject"
+            value={emailSubject}
+            onChange={setEmailSubject}
+            fieldKey="subject"
+            isCommenting={commentingField === 'subject'}
+            existingComment={getFieldComment('subject')}
+            commentInput={commentInput}
+            onStartComment={() => handleStartFieldComment('subject')}
+            onCommentChange={setCommentInput}
+            onSubmitComment={() => handleSubmitFieldComment('subject', 'Subject')}
+            onCancelComment={handleCancelFieldComment}
+            onEditComment={(content) => handleEditFieldComment('subject', content)}
+            onRemoveComment={() => handleRemoveFieldComment('subject')}
+            disabled={isLoading}
+          />
+        </div>
+      )}
 
       {/* Body (commentable) */}
       <div className="email-approval-body">
@@ -231,6 +289,39 @@ export function EmailApproval({
         />
       </div>
 
+      {/* Attachments */}
+      {(attachments.length > 0 || (isForward && includeAttachments)) && (
+        <div className="email-approval-attachments">
+          {attachments.map((attachment, i) => (
+            <span key={i} className="email-attachment-chip" title={attachment.driveUrl || attachment.path}>
+              📎 {attachmentName(attachment)}
+              <span className="email-attachment-source">{attachment.driveUrl ? 'Drive' : 'Sandbox'}</span>
+            </span>
+          ))}
+          {isForward && includeAttachments && (
+            <span className="email-attachment-note">Original attachments are included</span>
+          )}
+        </div>
+      )}
+
+      {/* Thread being replied to or forwarded */}
+      {quotedThread.length > 0 && (
+        <details className="email-approval-thread" open={quotedThread.length === 1}>
+          <summary>
+            {isForward ? 'Forwarded message' : `Earlier in the thread (${quotedThread.length})`}
+          </summary>
+          {quotedThread.map((message, i) => (
+            <div key={i} className="email-thread-message">
+              <div className="email-thread-meta">
+                <span className="email-thread-from">{message.from}</span>
+                {message.date && <span className="email-thread-date">{message.date}</span>}
+              </div>
+              <pre className="email-thread-body">{message.body}</pre>
+            </div>
+          ))}
+        </details>
+      )}
+
       {/* Footer */}
       <ApprovalFooter
         onApprove={handleApprove}
@@ -238,7 +329,7 @@ export function EmailApproval({
         onCancel={onCancel}
         isLoading={isLoading}
         approveLabel={approveLabel}
-        approveDisabled={!emailSubject.trim()}
+        approveDisabled={approveDisabled}
         commentCount={totalComments}
       />
     </div>
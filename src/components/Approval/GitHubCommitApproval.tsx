@@ -0,0 +1,144 @@
+/**
+ * GitHub Commit Approval View
+ *
+ * Approval view for committing a single file straight to a branch. The
+ * tool replaces the whole file, so the diff is worked out here from the
+ * file's current contents (supplied by the agent) and the new contents.
+ * The commit message can be edited before approving.
+ */
+
+import { useState, useMemo } from 'react';
+import { McpIcon } from '../common';
+import { ApprovalFooter } from './ApprovalFooter';
+import { DiffViewer } from '../DiffViewer/DiffViewer';
+import { diffContents } from '../../utils/diffParser';
+import type { ApprovalViewProps } from './ApprovalViewRegistry';
+import type { DiffComment } from '../../types';
+import './GitHubPRApproval.css';
+
+interface CommitApprovalData {
+  owner?: string;
+  repo?: string;
+  path?: string;
+  content?: string;
+  message?: string;
+  branch?: string;
+  /** Display-only: the file's contents on the branch, from read_file; absent for a new file */
+  currentContent?: string;
+}
+
+export function GitHubCommitApproval({
+  action,
+  data,
+  onApprove,
+  onRequestChanges,
+  onCancel,
+  isLoading,
+}: ApprovalViewProps) {
+  const commitData = data as CommitApprovalData;
+  const { owner = '', repo = '', path = '', content = '', branch = '', currentContent } = commitData;
+
+  const file = useMemo(() => diffContents(path, currentContent, content), [path, currentContent, content]);
+  const [message, setMessage] = useState(commitData.message || '');
+  const [comments, setComments] = useState<DiffComment[]>([]);
+
+  const handleAddComment = (comment: Omit<DiffComment, 'id'>) => {
+    setComments((prev) => [
+      ...prev,
+      { ...comment, id: `comment-${Date.now()}-${Math.random().toString(36).slice(2, 9)}` },
+    ]);
+  };
+
+  const handleApprove = () => {
+    (onApprove as (responseData?: Record<string, unknown>) => void)({
+      message: message.trim(),
+    });
+  };
+
+  const handleRequestChanges = () => {
+    const lines = comments.map((c) => {
+      const lineRef = c.endLine && c.endLine !== c.lineNumber
+        ? `Lines ${c.lineNumber}-${c.endLine}`
+        : `Line ${c.lineNumber}`;
+      return `  ${lineRef}: "${c.content}"`;
+    });
+    onRequestChanges(['DIFF COMMENTS:', `\nFile: ${path}`, ...lines].join('\n'));
+  };
+
+  return (
+    <div className="pr-approval-view">
+      {/* Header */}
+      <div className="pr-approval-header">
+        <div className="pr-approval-title">
+          <div className="pr-approval-title-row">
+            <McpIcon type="github" size={20} />
+            <h3>{action || (currentContent === undefined ? 'Create File' : 'Commit File')}</h3>
+          </div>
+          <div className="pr-approval-repo">
+            <code>{owner}/{repo}</code>
+            <span className="pr-approval-branch-into">on</span>
+            <code className="pr-approval-branch">{branch}</code>
+          </div>
+        </div>
+        <div className="pr-approval-stats">
+          <span className="stat-additions">+{file.additions}</span>
+          <span className="stat-deletions">-{file.deletions}</span>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className={`pr-approval-content ${file.hunks.length === 0 ? 'pr-approval-content-empty' : ''}`}>
+        {file.hunks.length === 0 ? (
+          <div className="pr-approval-empty">
+            <div className="pr-approval-empty-icon">!</div>
+            <div className="pr-approval-empty-title">No changes</div>
+            <div className="pr-approval-empty-message">
+              The new contents are the same as the current file.
+            </div>
+          </div>
+        ) : (
+          <div className="pr-approval-diff">
+            {currentContent === undefined && (
+              <div className="pr-approval-empty-message">
+                No current contents were provided, so the whole file is shown as new.
+              </div>
+            )}
+            <DiffViewer
+              files={[file]}
+              selectedFile={path}
+              comments={comments}
+              onAddComment={handleAddComment}
+              onRemoveComment={(id) => setComments((prev) => prev.filter((c) => c.id !== id))}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Footer with commit message */}
+      <div className="pr-approval-footer">
+        <div className="pr-approval-form">
+          <div className="pr-approval-form-body">
+            <label className="input-label">Commit message</label>
+            <textarea
+              className="pr-approval-textarea"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Describe the change..."
+              rows={2}
+              disabled={isLoading}
+            />
+          </div>
+          <ApprovalFooter
+            onApprove={handleApprove}
+            onRequestChanges={handleRequestChanges}
+            onCancel={onCancel}
+            isLoading={isLoading}
+            approveLabel="Commit"
+            approveDisabled={!message.trim() || file.hunks.length === 0}
+            commentCount={comments.length}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+/**
+ * GitHub Issue Approval View
+ *
+ * Approval view for the issue write tools: creating an issue, commenting on
+ * an issue or pull request, closing an issue and adding labels. Text fields
+ * can be edited and labels unticked before approving; comments on a field
+ * go back to the agent as feedback.
+ */
+
+import { useState } from 'react';
+import { McpIcon } from '../common';
+import { ApprovalFooter } from './ApprovalFooter';
+import { useFieldComments } from '../../hooks';
+import type { ApprovalViewProps } from './ApprovalViewRegistry';
+import './GitHubIssueApproval.css';
+
+interface IssueApprovalData {
+  owner?: string;
+  repo?: string;
+  issue_number?: number;
+  title?: string;
+  body?: string;
+  labels?: string[];
+  assignees?: string[];
+  reason?: 'completed' | 'not_planned';
+  comment?: string;
+  /** Display-only: labels the issue already has */
+  currentLabels?: string[];
+}
+
+const TOOL_LABELS: Record<string, { action: string; approve: string }> = {
+  create_issue: { action: 'Create Issue', approve: 'Create Issue' },
+  add_comment: { action: 'Add Comment', approve: 'Post Comment' },
+  close_issue: { action: 'Close Issue', approve: 'Close Issue' },
+  add_labels: { action: 'Add Labels', approve: 'Add Labels' },
+};
+
+export function GitHubIssueApproval({
+  tool,
+  action,
+  data,
+  onApprove,
+  onRequestChanges,
+  onCancel,
+  isLoading,
+}: ApprovalViewProps) {
+  const toolName = tool.split('__').pop() || '';
+  const labels = TOOL_LABELS[toolName] || TOOL_LABELS.add_comment;
+  const issueData = data as IssueApprovalData;
+  const { owner = '', repo = '', issue_number: issueNumber, assignees = [], currentLabels = [] } = issueData;
+  const proposedLabels = issueData.labels || [];
+
+  const [title, setTitle] = useState(issueData.title || '');
+  const [body, setBody] = useState(issueData.body || '');
+  const [closingComment, setClosingComment] = useState(issueData.comment || '');
+  const [reason, setReason] = useState(issueData.reason || 'completed');
+  const [selectedLabels, setSelectedLabels] = useState<Set<string>>(() => new Set(proposedLabels));
+
+  const {
+    fieldComments,
+    commentingField,
+    commentInput,
+    setCommentInput,
+    startFieldComment,
+    submitFieldComment,
+    cancelFieldComment,
+    removeFieldComment,
+    getFieldComment,
+    commentCount,
+  } = useFieldComments();
+
+  const toggleLabel = (label: string) => {
+    setSelectedLabels((prev) => {
+      const next = new Set(prev);
+      if (next.has(label)) next.delete(label);
+      else next.add(label);
+      return next;
+    });
+  };
+
+  const handleApprove = () => {
+    const keptLabels = proposedLabels.filter((label) => selectedLabels.has(label));
+    let responseData: Record<string, unknown>;
+    switch (toolName) {
+      case 'create_issue':
+        responseData = { title: title.trim(), body, labels: keptLabels };
+        break;
+      case 'close_issue':
+        responseData = { reason, comment: closingComment.trim() || undefined };
+        break;
+      case 'add_labels':
+        responseData = { labels: keptLabels };
+        break;
+      default:
+        responseData = { body };
+    }
+    (onApprove as (responseData?: Record<string, unknown>) => void)(responseData);
+  };
+
+  const handleRequestChanges = () => {
+    onRequestChanges(fieldComments.map((fc) => `[${fc.fieldLabel}]: "${fc.content}"`).join('\n\n'));
+  };
+
+  const renderFieldComment = (fieldKey: string, fieldLabel: string) => {
+    const comment = getFieldComment(fieldKey);
+    if (commentingField === fieldKey) {
+      return (
+        <div className="issue-approval-comment-input">
+          <input
+            type="text"
+            value={commentInput}
+            onChange={(e) => setCommentInput(e.target.value)}
+            placeholder="Add your feedback..."
+            autoFocus
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && commentInput.trim()) {
+                submitFieldComment(fieldKey, fieldLabel);
+              } else if (e.key === 'Escape') {
+                cancelFieldComment();
+              }
+            }}
+          />
+        </div>
+      );
+    }
+    if (comment) {
+      return (
+        <div className="issue-approval-comment">
+          <span>{comment.content}</span>
+          <button
+            className="issue-approval-comment-remove"
+            onClick={() => removeFieldComment(fieldKey)}
+            title="Remove comment"
+          >
+            ×
+          </button>
+        </div>
+      );
+    }
+    return isLoading ? null : (
+      <button className="issue-approval-add-comment" onClick={() => startFieldComment(fieldKey)}>
+        + comment
+      </button>
+    );
+  };
+
+  const textField = (fieldKey: string, fieldLabel: string, value: string, onChange: (value: string) => void, rows: number) => (
+    <div className="issue-approval-field">
+      <label htmlFor={`issue-approval-${fieldKey}`}>{fieldLabel}</label>
+      {rows === 1 ? (
+        <input
+          id={`issue-approval-${fieldKey}`}
+          className="issue-approval-input"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={isLoading}
+        />
+      ) : (
+        <textarea
+          id={`issue-approval-${fieldKey}`}
+          className="issue-approval-textarea"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={rows}
+          disabled={isLoading}
+        />
+      )}
+      {renderFieldComment(fieldKey, fieldLabel)}
+    </div>
+  );
+
+  const isCreate = toolName === 'create_issue';
+  let approveDisabled = false;
+  if (isCreate) approveDisabled = !title.trim();
+  else if (toolName === 'add_comment') approveDisabled = !body.trim();
+  else if (toolName === 'add_labels') approveDisabled = selectedLabels.size === 0;
+
+  return (
+    <div className="issue-approval">
+      <div className="issue-approval-header">
+        <McpIcon type="github" size={20} />
+        <div className="issue-approval-title">
+          <h3>{action || labels.action}</h3>
+          <span className="issue-approval-ref">
+            {owner}/{repo}{issueNumber !== undefined && `#${issueNumber}`}
+            {!isCreate && issueData.title && <span className="issue-approval-issue-title">{issueData.title}</span>}
+          </span>
+        </div>
+      </div>
+
+      <div className="issue-approval-body">
+        {isCreate && textField('title', 'Title', title, setTitle, 1)}
+        {(isCreate || toolName === 'add_comment') && textField('body', isCreate ? 'Description' : 'Comment', body, setBody, 8)}
+
+        {toolName === 'close_issue' && (
+          <>
+            <div className="issue-approval-field">
+              <label htmlFor="issue-approval-reason">Reason</label>
+              <select
+                id="issue-approval-reason"
+                className="issue-approval-input"
+                value={reason}
+                onChange={(e) => setReason(e.target.value as 'completed' | 'not_planned')}
+                disabled={isLoading}
+              >
+                <option value="completed">Completed</option>
+                <option value="not_planned">Not planned</option>
+              </select>
+            </div>
+            {textField('comment', 'Closing comment', closingComment, setClosingComment, 4)}
+          </>
+        )}
+
+        {proposedLabels.length > 0 && (
+          <div className="issue-approval-field">
+            <label>Labels to add</label>
+            <div className="issue-approval-labels">
+              {proposedLabels.map((label) => (
+                <label
+                  key={label}
+                  className={`issue-approval-label ${selectedLabels.has(label) ? '' : 'unselected'}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedLabels.has(label)}
+                    onChange={() => toggleLabel(label)}
+                    disabled={isLoading}
+                  />
+                  {label}
+                  {currentLabels.includes(label) && <span className="issue-approval-note">already added</span>}
+                </label>
+              ))}
+            </div>
+            {renderFieldComment('labels', 'Labels')}
+          </div>
+        )}
+
+        {currentLabels.length > 0 && (
+          <div className="issue-approval-current">
+            Current labels: {currentLabels.join(', ')}
+          </div>
+        )}
+
+        {assignees.length > 0 && (
+          <div className="issue-approval-current">
+            Assignees: {assignees.join(', ')}
+          </div>
+        )}
+      </div>
+
+      <ApprovalFooter
+        onApprove={handleApprove}
+        onRequestChanges={handleRequestChanges}
+        onCancel={onCancel}
+        isLoading={isLoading}
+        approveLabel={labels.approve}
+        approveDisabled={approveDisabled}
+        commentCount={commentCount}
+      />
+    </div>
+  );
+}
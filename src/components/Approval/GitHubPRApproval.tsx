@@ -2,7 +2,8 @@
  * GitHub PR Approval View
  *
  * Full diff viewer for approving pull request creation.
- * Shows the complete diff with file tree, editable PR title/body.
+ * Shows the complete diff with file tree, editable PR title/body,
+ * and links to any previews of the change running in the sandbox.
  */
 
 import { useState, useRef, useMemo } from 'react';
@@ -19,6 +20,9 @@ interface PRApprovalData {
   repo?: string;
   baseBranch?: string;
   headBranch?: string;
+  // Tool argument names, used when the approval data is the create_pr payload
+  base?: string;
+  head?: string;
   title?: string;
   body?: string;
   diff?: string;
@@ -36,6 +40,7 @@ export function GitHubPRApproval({
   onRequestChanges,
   onCancel,
   isLoading,
+  previews = [],
 }: ApprovalViewProps) {
   const diffViewerRef = useRef<HTMLDivElement>(null);
   const [comments, setComments] = useState<DiffComment[]>([]);
@@ -55,8 +60,8 @@ export function GitHubPRApproval({
   const {
     owner = '',
     repo = '',
-    baseBranch = 'main',
-    headBranch = '',
+    baseBranch = prData.base || 'main',
+    headBranch = prData.head || '',
     title: proposedTitle = '',
     body: proposedBody = '',
     diff = '',
@@ -157,6 +162,22 @@ export function GitHubPRApproval({
             <span className="pr-approval-branch-into">into</span>
             <code className="pr-approval-branch">{baseBranch}</code>
           </div>
+          {previews.length > 0 && (
+            <div className="pr-approval-previews">
+              <span className="pr-approval-previews-label">Try it:</span>
+              {previews.map((preview) => (
+                <a
+                  key={preview.url}
+                  href={preview.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="pr-approval-preview-link"
+                >
+                  {preview.title || 'Preview'} ↗
+                </a>
+              ))}
+            </div>
+          )}
         </div>
         <div className="pr-approval-stats">
           <span className="stat-files">{totalFiles} files</span>
@@ -0,0 +1,278 @@
+/**
+ * GitHub Review Approval View
+ *
+ * Approval view for posting a pull request review. The agent's inline
+ * comments are shown on the PR diff where they will land; any of them can be
+ * dropped before posting, and the verdict and summary can be changed.
+ * Comments the user adds on the diff go back to the agent as feedback.
+ */
+
+import { useState, useRef, useMemo } from 'react';
+import { McpIcon } from '../common';
+import { ApprovalFooter } from './ApprovalFooter';
+import { DiffViewer, FileTree } from '../DiffViewer/DiffViewer';
+import { parseDiff, type DiffFile } from '../../utils/diffParser';
+import type { ApprovalViewProps } from './ApprovalViewRegistry';
+import type { DiffComment } from '../../types';
+import './GitHubPRApproval.css';
+import './GitHubReviewApproval.css';
+
+type ReviewEvent = 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
+
+interface ReviewComment {
+  path: string;
+  line: number;
+  start_line?: number;
+  side?: 'LEFT' | 'RIGHT';
+  body: string;
+}
+
+interface ReviewApprovalData {
+  owner?: string;
+  repo?: string;
+  pull_number?: number;
+  event?: ReviewEvent;
+  body?: string;
+  comments?: ReviewComment[];
+  /** Display-only: the PR diff from get_pr_diff */
+  diff?: string;
+  /** Display-only: the PR title */
+  title?: string;
+}
+
+const EVENT_LABELS: Record<ReviewEvent, string> = {
+  COMMENT: 'Comment',
+  APPROVE: 'Approve',
+  REQUEST_CHANGES: 'Request changes',
+};
+
+const PROPOSED_PREFIX = 'review-';
+
+/** Where a review comment lands in the diff, or null when its line is not in the diff */
+function toDiffComment(comment: ReviewComment, index: number, files: DiffFile[]): DiffComment | null {
+  const file = files.find((f) => f.path === comment.path);
+  const lines = file?.hunks.flatMap((hunk) => hunk.lines) || [];
+  const line = comment.side === 'LEFT'
+    ? lines.find((l) => l.type === 'deletion' && l.oldLineNumber === comment.line)
+    : lines.find((l) => l.type !== 'deletion' && l.newLineNumber === comment.line);
+  if (!line || line.type === 'header') return null;
+
+  return {
+    id: `${PROPOSED_PREFIX}${index}`,
+    filePath: comment.path,
+    lineNumber: comment.start_line ?? comment.line,
+    endLine: comment.line,
+    lineType: line.type,
+    content: comment.body,
+    label: 'Review comment',
+  };
+}
+
+function lineRef(comment: Pick<DiffComment, 'lineNumber' | 'endLine'>): string {
+  return comment.endLine && comment.endLine !== comment.lineNumber
+    ? `Lines ${comment.lineNumber}-${comment.endLine}`
+    : `Line ${comment.lineNumber}`;
+}
+
+export function GitHubReviewApproval({
+  action,
+  data,
+  onApprove,
+  onRequestChanges,
+  onCancel,
+  isLoading,
+}: ApprovalViewProps) {
+  const diffViewerRef = useRef<HTMLDivElement>(null);
+  const reviewData = data as ReviewApprovalData;
+  const { owner = '', repo = '', pull_number: pullNumber, diff = '' } = reviewData;
+  const proposed = useMemo(() => reviewData.comments || [], [reviewData.comments]);
+
+  const files = useMemo(() => parseDiff(diff), [diff]);
+  const placed = useMemo(
+    () => proposed.map((comment, index) => toDiffComment(comment, index, files)),
+    [proposed, files]
+  );
+
+  const [event, setEvent] = useState<ReviewEvent>(reviewData.event || 'COMMENT');
+  const [body, setBody] = useState(reviewData.body || '');
+  const [removed, setRemoved] = useState<Set<number>>(new Set());
+  const [feedback, setFeedback] = useState<DiffComment[]>([]);
+  const [selectedFile, setSelectedFile] = useState<string | undefined>(files[0]?.path);
+
+  const keptComments = proposed.filter((_, index) => !removed.has(index));
+  const offDiff = proposed.filter((_, index) => !placed[index] && !removed.has(index));
+  const diffComments = [
+    ...placed.filter((c, index): c is DiffComment => c !== null && !removed.has(index)),
+    ...feedback,
+  ];
+
+  const handleFileSelect = (path: string) => {
+    setSelectedFile(path);
+    const fileElement = diffViewerRef.current?.querySelector(`[data-file-path="${CSS.escape(path)}"]`);
+    fileElement?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const handleAddComment = (comment: Omit<DiffComment, 'id'>) => {
+    setFeedback((prev) => [
+      ...prev,
+      { ...comment, id: `comment-${Date.now()}-${Math.random().toString(36).slice(2, 9)}` },
+    ]);
+  };
+
+  const handleRemoveComment = (id: string) => {
+    if (id.startsWith(PROPOSED_PREFIX)) {
+      const index = Number(id.slice(PROPOSED_PREFIX.length));
+      setRemoved((prev) => new Set(prev).add(index));
+    } else {
+      setFeedback((prev) => prev.filter((c) => c.id !== id));
+    }
+  };
+
+  const handleApprove = () => {
+    (onApprove as (responseData?: Record<string, unknown>) => void)({
+      event,
+      body: body.trim(),
+      comments: keptComments,
+    });
+  };
+
+  const handleRequestChanges = () => {
+    const lines: string[] = ['DIFF COMMENTS:'];
+    const byFile = feedback.reduce((acc, c) => {
+      if (!acc[c.filePath]) acc[c.filePath] = [];
+      acc[c.filePath].push(c);
+      return acc;
+    }, {} as Record<string, DiffComment[]>);
+    for (const [filePath, fileComments] of Object.entries(byFile)) {
+      lines.push(`\nFile: ${filePath}`);
+      for (const c of fileComments) {
+        lines.push(`  ${lineRef(c)}: "${c.content}"`);
+      }
+    }
+    onRequestChanges(lines.join('\n'));
+  };
+
+  const needsBody = event === 'REQUEST_CHANGES' || keptComments.length === 0;
+  const totalAdditions = files.reduce((sum, f) => sum + f.additions, 0);
+  const totalDeletions = files.reduce((sum, f) => sum + f.deletions, 0);
+
+  return (
+    <div className="pr-approval-view">
+      {/* Header */}
+      <div className="pr-approval-header">
+        <div className="pr-approval-title">
+          <div className="pr-approval-title-row">
+            <McpIcon type="github" size={20} />
+            <h3>{action || 'Review Pull Request'}</h3>
+          </div>
+          <div className="pr-approval-repo">
+            <code>{owner}/{repo}#{pullNumber}</code>
+            {reviewData.title && <span className="review-approval-pr-title">{reviewData.title}</span>}
+          </div>
+        </div>
+        <div className="pr-approval-stats">
+          <span className="stat-files">{keptComments.length} inline comments</span>
+          <span className="stat-additions">+{totalAdditions}</span>
+          <span className="stat-deletions">-{totalDeletions}</span>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className={`pr-approval-content ${files.length === 0 ? 'pr-approval-content-empty' : ''}`}>
+        {files.length === 0 ? (
+          <div className="pr-approval-empty">
+            <div className="pr-approval-empty-icon">!</div>
+            <div className="pr-approval-empty-title">No diff provided</div>
+            <div className="pr-approval-empty-message">
+              The agent should include the output of get_pr_diff so inline comments can be shown in place.
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="pr-approval-sidebar">
+              <FileTree files={files} selectedFile={selectedFile} onSelect={handleFileSelect} />
+            </div>
+            <div className="pr-approval-diff" ref={diffViewerRef}>
+              <DiffViewer
+                files={files}
+                selectedFile={selectedFile}
+                onFileSelect={setSelectedFile}
+                comments={diffComments}
+                onAddComment={handleAddComment}
+                onRemoveComment={handleRemoveComment}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {offDiff.length > 0 && (
+        <div className="review-approval-off-diff">
+          <div className="review-approval-warning">
+            {offDiff.length === 1 ? '1 comment is' : `${offDiff.length} comments are`} not on a line of the diff.
+            GitHub will reject the review unless {offDiff.length === 1 ? 'it is' : 'they are'} removed.
+          </div>
+          <ul>
+            {proposed.map((comment, index) => (placed[index] || removed.has(index) ? null : (
+              <li key={index}>
+                <code>{comment.path}:{comment.line}</code>
+                <span>{comment.body}</span>
+                <button
+                  className="review-approval-remove"
+                  onClick={() => handleRemoveComment(`${PROPOSED_PREFIX}${index}`)}
+                  disabled={isLoading}
+                  title="Remove comment"
+                >
+                  ×
+                </button>
+              </li>
+            )))}
+          </ul>
+        </div>
+      )}
+
+      {/* Footer with review form */}
+      <div className="pr-approval-footer">
+        <div className="pr-approval-form">
+          <div className="pr-approval-form-fields">
+            <div className="review-approval-events">
+              {(Object.keys(EVENT_LABELS) as ReviewEvent[]).map((value) => (
+                <label key={value} className={`review-approval-event ${event === value ? 'selected' : ''}`}>
+                  <input
+                    type="radio"
+                    name="review-event"
+                    value={value}
+                    checked={event === value}
+                    onChange={() => setEvent(value)}
+                    disabled={isLoading}
+                  />
+                  {EVENT_LABELS[value]}
+                </label>
+              ))}
+            </div>
+            <div className="pr-approval-form-body">
+              <label className="input-label">Summary</label>
+              <textarea
+                className="pr-approval-textarea"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                placeholder={needsBody ? 'Required for this review...' : 'Optional summary...'}
+                rows={3}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+          <ApprovalFooter
+            onApprove={handleApprove}
+            onRequestChanges={handleRequestChanges}
+            onCancel={onCancel}
+            isLoading={isLoading}
+            approveLabel={`Post Review (${EVENT_LABELS[event]})`}
+            approveDisabled={needsBody && !body.trim()}
+            commentCount={feedback.length}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
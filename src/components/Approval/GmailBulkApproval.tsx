@@ -0,0 +1,234 @@
+/**
+ * Gmail Bulk Approval View
+ *
+ * Approval view for mailbox changes that touch many messages at once
+ * (archive, mark read/unread, star, add/remove labels). Lists every
+ * affected message with a checkbox so the user can untick the ones that
+ * should be left alone - only the ticked IDs are approved.
+ */
+
+import { useState } from 'react';
+import { McpIcon } from '../common';
+import { ApprovalFooter } from './ApprovalFooter';
+import { useFieldComments } from '../../hooks';
+import type { ApprovalViewProps } from './ApprovalViewRegistry';
+import './GmailBulkApproval.css';
+
+interface MessageSummary {
+  id?: string;
+  threadId?: string;
+  from?: string;
+  subject?: string;
+  date?: string;
+  snippet?: string;
+}
+
+interface GmailBulkApprovalData {
+  messageIds?: string[];
+  threadIds?: string[];
+  addLabels?: string[];
+  removeLabels?: string[];
+  read?: boolean;
+  starred?: boolean;
+  /** Display-only summaries of the affected messages */
+  messages?: MessageSummary[];
+}
+
+interface BulkItem {
+  key: string;
+  id: string;
+  kind: 'message' | 'thread';
+  summary?: MessageSummary;
+}
+
+/** What the approved change does, as a verb and a short description */
+function describeChange(tool: string, data: GmailBulkApprovalData): { verb: string; description: string } {
+  if (tool.endsWith('__archiveMessages')) {
+    return { verb: 'Archive', description: 'Remove from the inbox (messages stay in All Mail)' };
+  }
+  if (tool.endsWith('__markAsRead')) {
+    return data.read === false
+      ? { verb: 'Mark Unread', description: 'Mark as unread' }
+      : { verb: 'Mark Read', description: 'Mark as read' };
+  }
+  if (tool.endsWith('__starMessages')) {
+    return data.starred === false
+      ? { verb: 'Unstar', description: 'Remove the star' }
+      : { verb: 'Star', description: 'Add a star' };
+  }
+  return { verb: 'Update Labels', description: 'Change labels' };
+}
+
+export function GmailBulkApproval({
+  tool,
+  action,
+  data,
+  onApprove,
+  onRequestChanges,
+  onCancel,
+  isLoading,
+}: ApprovalViewProps) {
+  const bulkData = data as GmailBulkApprovalData;
+  const { addLabels = [], removeLabels = [], messages = [] } = bulkData;
+
+  const items: BulkItem[] = [
+    ...(bulkData.messageIds || []).map((id) => ({
+      key: `message-${id}`,
+      id,
+      kind: 'message' as const,
+      summary: messages.find((m) => m.id === id),
+    })),
+    ...(bulkData.threadIds || []).map((id) => ({
+      key: `thread-${id}`,
+      id,
+      kind: 'thread' as const,
+      summary: messages.find((m) => m.threadId === id || m.id === id),
+    })),
+  ];
+
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(items.map((item) => item.key)));
+
+  const {
+    fieldComments,
+    commentingField,
+    commentInput,
+    setCommentInput,
+    startFieldComment,
+    submitFieldComment,
+    cancelFieldComment,
+    removeFieldComment,
+    getFieldComment,
+    commentCount,
+  } = useFieldComments();
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const allSelected = selected.size === items.length;
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(items.map((item) => item.key)));
+  };
+
+  const { verb, description } = describeChange(tool, bulkData);
+
+  const handleApprove = () => {
+    // Only the ticked messages and threads are approved
+    const ids = (kind: BulkItem['kind']) =>
+      items.filter((item) => item.kind === kind && selected.has(item.key)).map((item) => item.id);
+    (onApprove as (responseData?: Record<string, unknown>) => void)({
+      messageIds: ids('message'),
+      threadIds: ids('thread'),
+    });
+  };
+
+  const handleRequestChanges = () => {
+    onRequestChanges(fieldComments.map((fc) => `[${fc.fieldLabel}]: "${fc.content}"`).join('\n\n'));
+  };
+
+  return (
+    <div className="gmail-bulk-approval">
+      <div className="gmail-bulk-header">
+        <McpIcon type="gmail" size={20} />
+        <div className="gmail-bulk-title">
+          <h3>{action || verb}</h3>
+          <span className="gmail-bulk-description">{description}</span>
+        </div>
+      </div>
+
+      {(addLabels.length > 0 || removeLabels.length > 0) && (
+        <div className="gmail-bulk-labels">
+          {addLabels.map((label) => (
+            <span key={`add-${label}`} className="gmail-bulk-label add">+ {label}</span>
+          ))}
+          {removeLabels.map((label) => (
+            <span key={`remove-${label}`} className="gmail-bulk-label remove">− {label}</span>
+          ))}
+        </div>
+      )}
+
+      <div className="gmail-bulk-toolbar">
+        <label className="gmail-bulk-select-all">
+          <input type="checkbox" checked={allSelected} onChange={toggleAll} disabled={isLoading} />
+          {selected.size} of {items.length} selected
+        </label>
+      </div>
+
+      <ul className="gmail-bulk-list">
+        {items.map((item) => {
+          const comment = getFieldComment(item.key);
+          const label = item.summary?.subject || `${item.kind === 'thread' ? 'Thread' : 'Message'} ${item.id}`;
+          return (
+            <li key={item.key} className={`gmail-bulk-item ${selected.has(item.key) ? '' : 'unselected'}`}>
+              <label className="gmail-bulk-row">
+                <input
+                  type="checkbox"
+                  checked={selected.has(item.key)}
+                  onChange={() => toggle(item.key)}
+                  disabled={isLoading}
+                />
+                <span className="gmail-bulk-from">{item.summary?.from || '—'}</span>
+                <span className="gmail-bulk-subject">
+                  {label}
+                  {item.summary?.snippet && <span className="gmail-bulk-snippet"> — {item.summary.snippet}</span>}
+                </span>
+                {item.kind === 'thread' && <span className="gmail-bulk-kind">Thread</span>}
+                {item.summary?.date && <span className="gmail-bulk-date">{item.summary.date}</span>}
+              </label>
+              {!comment && commentingField !== item.key && !isLoading && (
+                <button className="gmail-bulk-add-comment" onClick={() => startFieldComment(item.key)}>
+                  + comment
+                </button>
+              )}
+              {commentingField === item.key && (
+                <div className="gmail-bulk-comment-input">
+                  <input
+                    type="text"
+                    value={commentInput}
+                    onChange={(e) => setCommentInput(e.target.value)}
+                    placeholder="Add your feedback..."
+                    autoFocus
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && commentInput.trim()) {
+                        submitFieldComment(item.key, label);
+                      } else if (e.key === 'Escape') {
+                        cancelFieldComment();
+                      }
+                    }}
+                  />
+                </div>
+              )}
+              {comment && commentingField !== item.key && (
+                <div className="gmail-bulk-comment">
+                  <span>{comment.content}</span>
+                  <button
+                    className="gmail-bulk-comment-remove"
+                    onClick={() => removeFieldComment(item.key)}
+                    title="Remove comment"
+                  >
+                    ×
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <ApprovalFooter
+        onApprove={handleApprove}
+        onRequestChanges={handleRequestChanges}
+        onCancel={onCancel}
+        isLoading={isLoading}
+        approveLabel={`${verb} (${selected.size})`}
+        approveDisabled={selected.size === 0}
+        commentCount={commentCount}
+      />
+    </div>
+  );
+}
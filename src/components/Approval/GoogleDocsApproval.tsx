@@ -2,15 +2,19 @@
  * Google Docs Approval View
  *
  * For createDocument: Single-panel document preview with commenting support.
- * For append/replace: Side-by-side document diff with paragraph-level diff highlighting.
+ * For edits: Side-by-side diff of only the sections the edit changes, with
+ * paragraph-level diff highlighting. addComment and suggestEdit show the
+ * comment that will be posted.
  *
- * Used for: createDocument, appendToDocument, replaceDocumentContent
+ * Used for: createDocument, appendToDocument, replaceDocumentContent,
+ * replaceText, insertAfterHeading, updateSection, addComment, suggestEdit
  */
 
 import { useState, useCallback, useRef } from 'react';
 import { McpIcon } from '../common';
 import { ApprovalFooter } from './ApprovalFooter';
 import { useTitleEdit } from '../../hooks';
+import { applyDocEdit, changedSections, splitParagraphs, type SectionChange } from '../../utils/docSections';
 import type { ApprovalViewProps } from './ApprovalViewRegistry';
 import './GoogleDocsApproval.css';
 
@@ -22,10 +26,18 @@ interface GoogleDocsApprovalData {
   content?: string;
   action?: 'append' | 'replace';
   url?: string;
+  find?: string;
+  replaceWith?: string;
+  matchCase?: boolean;
+  heading?: string;
+  quote?: string;
+  comment?: string;
+  reason?: string;
 }
 
 interface TextComment {
   id: string;
+  section: number;
   paragraphStart: number;
   paragraphEnd: number;
   side: 'left' | 'right';
@@ -33,12 +45,25 @@ interface TextComment {
 }
 
 interface ParagraphSelection {
+  section: number;
   startIndex: number;
   endIndex: number;
   side: 'left' | 'right';
 }
 
+const TOOL_LABELS: Record<string, { action: string; approve: string }> = {
+  createDocument: { action: 'Create Document', approve: 'Create Document' },
+  appendToDocument: { action: 'Append to Document', approve: 'Append Content' },
+  replaceDocumentContent: { action: 'Replace Document Content', approve: 'Replace Content' },
+  replaceText: { action: 'Find and Replace', approve: 'Replace Text' },
+  insertAfterHeading: { action: 'Insert Content', approve: 'Insert Content' },
+  updateSection: { action: 'Update Section', approve: 'Update Section' },
+  addComment: { action: 'Add Comment', approve: 'Add Comment' },
+  suggestEdit: { action: 'Suggest Edit', approve: 'Post Suggestion' },
+};
+
 export function GoogleDocsApproval({
+  tool,
   action,
   data,
   onApprove,
@@ -51,7 +76,7 @@ export function GoogleDocsApproval({
   const [isDragging, setIsDragging] = useState(false);
   const [showCommentInput, setShowCommentInput] = useState(false);
   const [commentText, setCommentText] = useState('');
-  const dragStartRef = useRef<{ index: number; side: 'left' | 'right' } | null>(null);
+  const dragStartRef = useRef<{ section: number; index: number; side: 'left' | 'right' } | null>(null);
 
   // Editable title (for create document) - using shared hook
   const {
@@ -87,56 +112,65 @@ export function GoogleDocsApproval({
     action: docAction,
   } = docData;
 
-  // Detect mode: create (no currentContent), append, or replace
-  const isCreate = !currentContent && !docAction;
-  const isAppend = docAction === 'append';
-  const actionLabel = isCreate
-    ? 'Create Document'
-    : isAppend
-      ? 'Append to Document'
-      : 'Replace Document Content';
-
-  // Split content into paragraphs for diff display
-  const currentParagraphs = currentContent.split(/\n\n+/).filter(p => p.trim());
-  const newParagraphs = newContent.split(/\n\n+/).filter(p => p.trim());
-
-  // For append, combine current + new
-  const afterParagraphs = isAppend
-    ? [...currentParagraphs, ...newParagraphs]
-    : newParagraphs;
-
-  // Simple diff: mark paragraphs as added, removed, or unchanged
-  const getDiffStatus = (para: string, side: 'left' | 'right'): 'added' | 'removed' | 'unchanged' => {
-    if (side === 'left') {
-      if (isAppend) return 'unchanged';
-      const existsInNew = newParagraphs.some(p => p.trim() === para.trim());
-      return existsInNew ? 'unchanged' : 'removed';
-    } else {
-      if (isAppend) {
-        const isFromCurrent = currentParagraphs.some(p => p.trim() === para.trim());
-        return isFromCurrent ? 'unchanged' : 'added';
-      }
-      const existsInCurrent = currentParagraphs.some(p => p.trim() === para.trim());
-      return existsInCurrent ? 'unchanged' : 'added';
-    }
+  // Detect mode from the tool, falling back to the data for older requests
+  const toolName = tool.split('__').pop() || '';
+  const mode = TOOL_LABELS[toolName]
+    ? toolName
+    : !currentContent && !docAction
+      ? 'createDocument'
+      : docAction === 'append' ? 'appendToDocument' : 'replaceDocumentContent';
+  const isCreate = mode === 'createDocument';
+  const isComment = mode === 'addComment' || mode === 'suggestEdit';
+  const labels = TOOL_LABELS[mode];
+
+  // Work out the document after the edit and keep only the sections it changes
+  const afterContent = isCreate ? newContent : applyDocEdit(mode, currentContent, { ...docData, content: newContent });
+  const { changes, unchanged } = isCreate || afterContent === null
+    ? { changes: [], unchanged: 0 }
+    : changedSections(currentContent, afterContent);
+  const sections: SectionChange[] = isCreate ? [{ heading: null, before: '', after: newContent }] : changes;
+
+  const notFoundMessage = afterContent !== null
+    ? null
+    : docData.heading !== undefined && !docData.find
+      ? `No heading "${docData.heading}" in the current content - this edit will fail as it stands.`
+      : `"${docData.find}" does not appear in the current content - this edit will fail as it stands.`;
+
+  // Simple diff within a section: mark paragraphs as added, removed, or unchanged
+  const getDiffStatus = (
+    para: string,
+    side: 'left' | 'right',
+    section: SectionChange
+  ): 'added' | 'removed' | 'unchanged' => {
+    const otherSide = splitParagraphs(side === 'left' ? section.after : section.before);
+    const existsOnOtherSide = otherSide.some(p => p.trim() === para.trim());
+    if (existsOnOtherSide) return 'unchanged';
+    return side === 'left' ? 'removed' : 'added';
   };
 
   // Selection handlers (like CommentableText) - only for right side
-  const handleParagraphMouseDown = useCallback((index: number, side: 'left' | 'right', e: React.MouseEvent) => {
+  const handleParagraphMouseDown = useCallback((
+    section: number,
+    index: number,
+    side: 'left' | 'right',
+    e: React.MouseEvent
+  ) => {
     if (isLoading || side === 'left') return; // Only allow comments on "After Changes" side
     e.preventDefault();
 
-    dragStartRef.current = { index, side };
+    dragStartRef.current = { section, index, side };
     setIsDragging(true);
-    setSelection({ startIndex: index, endIndex: index, side });
+    setSelection({ section, startIndex: index, endIndex: index, side });
     setShowCommentInput(false);
   }, [isLoading]);
 
-  const handleParagraphMouseEnter = useCallback((index: number, side: 'left' | 'right') => {
-    if (!isDragging || !dragStartRef.current || dragStartRef.current.side !== side) return;
+  const handleParagraphMouseEnter = useCallback((section: number, index: number, side: 'left' | 'right') => {
+    const dragStart = dragStartRef.current;
+    if (!isDragging || !dragStart || dragStart.side !== side || dragStart.section !== section) return;
 
-    const start = dragStartRef.current.index;
+    const start = dragStart.index;
     setSelection({
+      section,
       startIndex: Math.min(start, index),
       endIndex: Math.max(start, index),
       side,
@@ -156,6 +190,7 @@ export function GoogleDocsApproval({
 
     const newComment: TextComment = {
       id: `comment-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      section: selection.section,
       paragraphStart: selection.startIndex,
       paragraphEnd: selection.endIndex,
       side: selection.side,
@@ -178,21 +213,21 @@ export function GoogleDocsApproval({
   };
 
   // Check if paragraph is in selection
-  const isParagraphSelected = (index: number, side: 'left' | 'right') => {
-    if (!selection || selection.side !== side) return false;
+  const isParagraphSelected = (section: number, index: number, side: 'left' | 'right') => {
+    if (!selection || selection.side !== side || selection.section !== section) return false;
     return index >= selection.startIndex && index <= selection.endIndex;
   };
 
   // Check if paragraph has a comment
-  const hasComment = useCallback((index: number, side: 'left' | 'right') => {
+  const hasComment = useCallback((section: number, index: number, side: 'left' | 'right') => {
     return comments.some(c =>
-      c.side === side && index >= c.paragraphStart && index <= c.paragraphEnd
+      c.section === section && c.side === side && index >= c.paragraphStart && index <= c.paragraphEnd
     );
   }, [comments]);
 
   // Get comments that end on a specific paragraph
-  const getCommentsEndingAt = (index: number, side: 'left' | 'right') => {
-    return comments.filter(c => c.paragraphEnd === index && c.side === side);
+  const getCommentsEndingAt = (section: number, index: number, side: 'left' | 'right') => {
+    return comments.filter(c => c.section === section && c.paragraphEnd === index && c.side === side);
   };
 
   // Format comments as feedback
@@ -215,7 +250,8 @@ export function GoogleDocsApproval({
       const paraRef = c.paragraphEnd !== c.paragraphStart
         ? `Paragraphs ${c.paragraphStart + 1}-${c.paragraphEnd + 1}`
         : `Paragraph ${c.paragraphStart + 1}`;
-      lines.push(`\n[${sideLabel} - ${paraRef}]: "${c.content}"`);
+      const sectionLabel = isCreate ? '' : `${sectionTitle(sections[c.section])} - `;
+      lines.push(`\n[${sideLabel} - ${sectionLabel}${paraRef}]: "${c.content}"`);
     }
     return lines.join('\n');
   };
@@ -235,103 +271,112 @@ export function GoogleDocsApproval({
   };
 
   // Render a single panel
-  const renderPanel = (paragraphs: string[], side: 'left' | 'right', emptyMessage: string) => (
-    <div
-      className={`docs-approval-panel docs-approval-panel-${side === 'left' ? 'current' : 'after'}`}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
-    >
-      {!isCreate && (
-        <div className="docs-approval-panel-header">
-          <span className="docs-approval-panel-label">
-            {side === 'left' ? 'Current' : 'After Changes'}
-          </span>
-        </div>
-      )}
-      <div className="docs-approval-panel-body">
-        {paragraphs.length === 0 ? (
-          <div className="docs-approval-empty-panel">{emptyMessage}</div>
-        ) : (
-          paragraphs.map((para, idx) => {
-            const status = getDiffStatus(para, side);
-            const isSelected = isParagraphSelected(idx, side);
-            const paragraphHasComment = hasComment(idx, side);
-            const paragraphComments = getCommentsEndingAt(idx, side);
-            const showInputAfterPara = showCommentInput && selection?.endIndex === idx && selection?.side === side;
-
-            return (
-              <div key={idx} className="docs-paragraph-wrapper">
-                <div
-                  className={`docs-paragraph docs-paragraph-${status} ${isSelected ? 'selected' : ''}`}
-                  onMouseDown={(e) => handleParagraphMouseDown(idx, side, e)}
-                  onMouseEnter={() => handleParagraphMouseEnter(idx, side)}
-                >
-                  <span className="docs-paragraph-content">{para}</span>
-                  {side === 'right' && (
-                    <span className={`docs-comment-indicator ${paragraphHasComment ? 'has-comment' : ''} ${!isLoading ? 'can-comment' : ''}`}>
-                      {status === 'added' ? '+' : '+'}
-                    </span>
-                  )}
-                  {side === 'left' && status === 'removed' && (
-                    <span className="docs-diff-marker">−</span>
+  const sectionTitle = (section: SectionChange) => section.heading ?? 'Start of document';
+
+  const renderPanel = (sectionIndex: number, side: 'left' | 'right', emptyMessage: string) => {
+    const section = sections[sectionIndex];
+    const paragraphs = splitParagraphs(side === 'left' ? section.before : section.after);
+    return (
+      <div
+        className={`docs-approval-panel docs-approval-panel-${side === 'left' ? 'current' : 'after'}`}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+      >
+        {!isCreate && (
+          <div className="docs-approval-panel-header">
+            <span className="docs-approval-panel-label">
+              {side === 'left' ? 'Current' : 'After Changes'}
+            </span>
+          </div>
+        )}
+        <div className="docs-approval-panel-body">
+          {paragraphs.length === 0 ? (
+            <div className="docs-approval-empty-panel">{emptyMessage}</div>
+          ) : (
+            paragraphs.map((para, idx) => {
+              const status = getDiffStatus(para, side, section);
+              const isSelected = isParagraphSelected(sectionIndex, idx, side);
+              const paragraphHasComment = hasComment(sectionIndex, idx, side);
+              const paragraphComments = getCommentsEndingAt(sectionIndex, idx, side);
+              const showInputAfterPara = showCommentInput
+                && selection?.section === sectionIndex
+                && selection?.endIndex === idx
+                && selection?.side === side;
+
+              return (
+                <div key={idx} className="docs-paragraph-wrapper">
+                  <div
+                    className={`docs-paragraph docs-paragraph-${status} ${isSelected ? 'selected' : ''}`}
+                    onMouseDown={(e) => handleParagraphMouseDown(sectionIndex, idx, side, e)}
+                    onMouseEnter={() => handleParagraphMouseEnter(sectionIndex, idx, side)}
+                  >
+                    <span className="docs-paragraph-content">{para}</span>
+                    {side === 'right' && (
+                      <span className={`docs-comment-indicator ${paragraphHasComment ? 'has-comment' : ''} ${!isLoading ? 'can-comment' : ''}`}>
+                        {status === 'added' ? '+' : '+'}
+                      </span>
+                    )}
+                    {side === 'left' && status === 'removed' && (
+                      <span className="docs-diff-marker">−</span>
+                    )}
+                  </div>
+
+                  {/* Comment input */}
+                  {showInputAfterPara && (
+                    <div className="docs-comment-input">
+                      <textarea
+                        value={commentText}
+                        onChange={(e) => setCommentText(e.target.value)}
+                        placeholder={selection && selection.startIndex !== selection.endIndex
+                          ? `Add feedback on paragraphs ${selection.startIndex + 1}-${selection.endIndex + 1}...`
+                          : 'Add your feedback on this paragraph...'
+                        }
+                        autoFocus
+                        onMouseDown={(e) => e.stopPropagation()}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && e.metaKey) handleAddComment();
+                          if (e.key === 'Escape') handleCancelComment();
+                        }}
+                      />
+                      <div className="docs-comment-actions">
+                        <button onClick={handleCancelComment}>Cancel</button>
+                        <button
+                          className="primary"
+                          onClick={handleAddComment}
+                          disabled={!commentText.trim()}
+                        >
+                          Add Comment
+                        </button>
+                      </div>
+                    </div>
                   )}
-                </div>
 
-                {/* Comment input */}
-                {showInputAfterPara && (
-                  <div className="docs-comment-input">
-                    <textarea
-                      value={commentText}
-                      onChange={(e) => setCommentText(e.target.value)}
-                      placeholder={selection && selection.startIndex !== selection.endIndex
-                        ? `Add feedback on paragraphs ${selection.startIndex + 1}-${selection.endIndex + 1}...`
-                        : 'Add your feedback on this paragraph...'
-                      }
-                      autoFocus
-                      onMouseDown={(e) => e.stopPropagation()}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter' && e.metaKey) handleAddComment();
-                        if (e.key === 'Escape') handleCancelComment();
-                      }}
-                    />
-                    <div className="docs-comment-actions">
-                      <button onClick={handleCancelComment}>Cancel</button>
+                  {/* Existing comments that end on this paragraph */}
+                  {paragraphComments.map(comment => (
+                    <div key={comment.id} className="docs-comment">
+                      {comment.paragraphEnd !== comment.paragraphStart && (
+                        <span className="docs-comment-paras">
+                          Paragraphs {comment.paragraphStart + 1}-{comment.paragraphEnd + 1}
+                        </span>
+                      )}
+                      <span className="docs-comment-content">{comment.content}</span>
                       <button
-                        className="primary"
-                        onClick={handleAddComment}
-                        disabled={!commentText.trim()}
+                        className="docs-comment-remove"
+                        onClick={(e) => { e.stopPropagation(); handleRemoveComment(comment.id); }}
+                        title="Remove comment"
                       >
-                        Add Comment
+                        ×
                       </button>
                     </div>
-                  </div>
-                )}
-
-                {/* Existing comments that end on this paragraph */}
-                {paragraphComments.map(comment => (
-                  <div key={comment.id} className="docs-comment">
-                    {comment.paragraphEnd !== comment.paragraphStart && (
-                      <span className="docs-comment-paras">
-                        Paragraphs {comment.paragraphStart + 1}-{comment.paragraphEnd + 1}
-                      </span>
-                    )}
-                    <span className="docs-comment-content">{comment.content}</span>
-                    <button
-                      className="docs-comment-remove"
-                      onClick={(e) => { e.stopPropagation(); handleRemoveComment(comment.id); }}
-                      title="Remove comment"
-                    >
-                      ×
-                    </button>
-                  </div>
-                ))}
-              </div>
-            );
-          })
-        )}
+                  ))}
+                </div>
+              );
+            })
+          )}
+        </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <div className="docs-approval-view">
@@ -340,7 +385,7 @@ export function GoogleDocsApproval({
         <div className="docs-approval-title">
           <div className="docs-approval-title-row">
             <McpIcon type="google-docs" size={20} />
-            <h3>{action || actionLabel}</h3>
+            <h3>{action || labels.action}</h3>
           </div>
           {isCreate ? (
             /* Editable title for create document */
@@ -422,24 +467,71 @@ export function GoogleDocsApproval({
           )}
         </div>
         <div className="docs-approval-stats">
-          {!isCreate && currentParagraphs.length > 0 && (
-            <span className="stat-current">{currentParagraphs.length} current</span>
-          )}
           {isCreate ? (
-            <span className="stat-additions">{newParagraphs.length} paragraphs</span>
-          ) : isAppend ? (
-            <span className="stat-additions">+{newParagraphs.length} new</span>
+            <span className="stat-additions">{splitParagraphs(newContent).length} paragraphs</span>
           ) : (
-            <span className="stat-additions">{afterParagraphs.length} after</span>
+            <>
+              {changes.length > 0 && (
+                <span className="stat-additions">
+                  {changes.length} section{changes.length === 1 ? '' : 's'} changed
+                </span>
+              )}
+              {unchanged > 0 && <span className="stat-current">{unchanged} unchanged</span>}
+            </>
           )}
         </div>
       </div>
 
-      {/* Content - single panel for create, side by side for diff */}
-      <div className={`docs-approval-content ${isCreate ? 'docs-approval-content-single' : ''}`}>
-        {!isCreate && renderPanel(currentParagraphs, 'left', 'Empty document')}
-        {renderPanel(isCreate ? newParagraphs : afterParagraphs, 'right', 'No content')}
-      </div>
+      {notFoundMessage && <div className="docs-approval-warning">{notFoundMessage}</div>}
+
+      {/* What gets posted for comments and suggestions */}
+      {isComment && (
+        <div className="docs-approval-note">
+          <span className="docs-approval-note-label">
+            {mode === 'suggestEdit' ? 'Suggestion comment on' : 'Comment on'}
+          </span>
+          <blockquote>{docData.quote || docData.find}</blockquote>
+          {(mode === 'suggestEdit' ? docData.reason : docData.comment) && (
+            <p>{mode === 'suggestEdit' ? docData.reason : docData.comment}</p>
+          )}
+          {mode === 'suggestEdit' && (
+            <span className="docs-approval-note-hint">
+              Posted as a comment for the document owner to apply - the document itself is not changed.
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Content - single panel for create, side by side per changed section for edits */}
+      {isCreate ? (
+        <div className="docs-approval-content docs-approval-content-single">
+          {renderPanel(0, 'right', 'No content')}
+        </div>
+      ) : (sections.length > 0 || !isComment) && (
+        <div className="docs-approval-sections">
+          {sections.length === 0 && !notFoundMessage && (
+            <div className="docs-approval-empty-panel">No changes to the document text</div>
+          )}
+          {sections.map((section, idx) => (
+            <div key={idx} className="docs-approval-section">
+              <div className="docs-approval-section-header">
+                <span className="docs-approval-section-title">{sectionTitle(section)}</span>
+                {!section.before && <span className="docs-approval-section-status">new section</span>}
+                {!section.after && <span className="docs-approval-section-status">removed</span>}
+              </div>
+              <div className="docs-approval-content">
+                {renderPanel(idx, 'left', 'Empty')}
+                {renderPanel(idx, 'right', 'Removed')}
+              </div>
+            </div>
+          ))}
+          {unchanged > 0 && sections.length > 0 && (
+            <div className="docs-approval-hidden">
+              {unchanged} unchanged section{unchanged === 1 ? '' : 's'} hidden
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Footer */}
       <ApprovalFooter
@@ -447,7 +539,7 @@ export function GoogleDocsApproval({
         onRequestChanges={handleRequestChanges}
         onCancel={onCancel}
         isLoading={isLoading}
-        approveLabel={isCreate ? 'Create Document' : isAppend ? 'Append Content' : 'Replace Content'}
+        approveLabel={labels.approve}
         commentCount={comments.length + (titleComment ? 1 : 0)}
       />
     </div>
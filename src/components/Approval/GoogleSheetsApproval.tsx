@@ -1,37 +1,42 @@
 /**
  * Google Sheets Approval View
  *
- * Row-based diff for approving Google Sheets changes.
- * Shows current rows vs new rows with diff highlighting.
+ * Cell-level before and after grid for each sheet a change touches.
+ * Only changed rows (with a row of context) are shown for large sheets;
+ * formatting, charts and pivot tables highlight the cells they use.
  *
- * Used for: appendRows, updateCells, replaceSheetContent
+ * Used for: appendRows, updateCells, replaceSheetContent, writeFormulas,
+ * addSheet, renameSheet, deleteSheet, formatCells, freezeRows, addChart,
+ * addPivotTable
  * Note: createSpreadsheet shows new content only (no diff)
  */
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { Fragment, useState, useCallback, useRef } from 'react';
 import { McpIcon } from '../common';
 import { ApprovalFooter } from './ApprovalFooter';
 import { useTitleEdit } from '../../hooks';
+import {
+  applySheetEdit,
+  cellStatus,
+  columnLetter,
+  isHighlighted,
+  visibleRows,
+  type SheetChange,
+  type SheetEditData,
+} from '../../utils/sheetGrid';
 import type { ApprovalViewProps } from './ApprovalViewRegistry';
 import './GoogleSheetsApproval.css';
 
-interface GoogleSheetsApprovalData {
+interface GoogleSheetsApprovalData extends SheetEditData {
   spreadsheetId?: string;
   title?: string;
-  sheetName?: string;
-  currentData?: string[][];
-  currentRows?: string[][];  // Alternative name for currentData
-  newData?: string[][];
-  newRows?: string[][];      // Alternative name for newData
-  data?: string[][];
-  rows?: string[][];
-  range?: string;
   action?: 'create' | 'append' | 'update' | 'replace';
   url?: string;
 }
 
 interface RowComment {
   id: string;
+  sheet: number;
   rowStart: number;
   rowEnd: number;
   side: 'left' | 'right';
@@ -39,11 +44,35 @@ interface RowComment {
 }
 
 interface RowSelection {
+  sheet: number;
   startIndex: number;
   endIndex: number;
   side: 'left' | 'right';
 }
 
+const TOOL_LABELS: Record<string, { action: string; approve: string }> = {
+  createSpreadsheet: { action: 'Create Spreadsheet', approve: 'Create Spreadsheet' },
+  appendRows: { action: 'Append Rows', approve: 'Append Rows' },
+  updateCells: { action: 'Update Cells', approve: 'Update Sheet' },
+  replaceSheetContent: { action: 'Replace Sheet Content', approve: 'Update Sheet' },
+  writeFormulas: { action: 'Write Formulas', approve: 'Write Formulas' },
+  addSheet: { action: 'Add Sheet', approve: 'Add Sheet' },
+  renameSheet: { action: 'Rename Sheet', approve: 'Rename Sheet' },
+  deleteSheet: { action: 'Delete Sheet', approve: 'Delete Sheet' },
+  formatCells: { action: 'Format Cells', approve: 'Apply Formatting' },
+  freezeRows: { action: 'Freeze Rows', approve: 'Freeze Rows' },
+  addChart: { action: 'Add Chart', approve: 'Add Chart' },
+  addPivotTable: { action: 'Add Pivot Table', approve: 'Add Pivot Table' },
+};
+
+/** Tools for the older `action` field */
+const ACTION_TOOLS: Record<string, string> = {
+  create: 'createSpreadsheet',
+  append: 'appendRows',
+  update: 'updateCells',
+  replace: 'replaceSheetContent',
+};
+
 export function GoogleSheetsApproval({
   tool,
   action,
@@ -58,7 +87,7 @@ export function GoogleSheetsApproval({
   const [isDragging, setIsDragging] = useState(false);
   const [showCommentInput, setShowCommentInput] = useState(false);
   const [commentText, setCommentText] = useState('');
-  const dragStartRef = useRef<{ index: number; side: 'left' | 'right' } | null>(null);
+  const dragStartRef = useRef<{ sheet: number; index: number; side: 'left' | 'right' } | null>(null);
 
   // Editable title (for create spreadsheet) - using shared hook
   const {
@@ -75,46 +104,6 @@ export function GoogleSheetsApproval({
     setTitleCommentText,
   } = useTitleEdit();
 
-  // Refs for synchronized scrolling
-  const leftPanelRef = useRef<HTMLDivElement>(null);
-  const rightPanelRef = useRef<HTMLDivElement>(null);
-  const isScrollingRef = useRef(false);
-
-  // Synchronized scroll handler
-  const handleScroll = useCallback((source: 'left' | 'right') => {
-    if (isScrollingRef.current) return;
-
-    const sourcePanel = source === 'left' ? leftPanelRef.current : rightPanelRef.current;
-    const targetPanel = source === 'left' ? rightPanelRef.current : leftPanelRef.current;
-
-    if (!sourcePanel || !targetPanel) return;
-
-    isScrollingRef.current = true;
-    targetPanel.scrollTop = sourcePanel.scrollTop;
-
-    // Reset flag after scroll completes
-    requestAnimationFrame(() => {
-      isScrollingRef.current = false;
-    });
-  }, []);
-
-  // Attach scroll listeners
-  useEffect(() => {
-    const leftPanel = leftPanelRef.current;
-    const rightPanel = rightPanelRef.current;
-
-    const onLeftScroll = () => handleScroll('left');
-    const onRightScroll = () => handleScroll('right');
-
-    leftPanel?.addEventListener('scroll', onLeftScroll);
-    rightPanel?.addEventListener('scroll', onRightScroll);
-
-    return () => {
-      leftPanel?.removeEventListener('scroll', onLeftScroll);
-      rightPanel?.removeEventListener('scroll', onRightScroll);
-    };
-  }, [handleScroll]);
-
   // Parse data
   let sheetData: GoogleSheetsApprovalData = {};
   if (typeof data === 'string') {
@@ -127,101 +116,51 @@ export function GoogleSheetsApproval({
     sheetData = data as GoogleSheetsApprovalData;
   }
 
-  const {
-    title = 'Untitled Spreadsheet',
-    sheetName = 'Sheet1',
-    action: sheetAction,
-  } = sheetData;
-
-  // Accept multiple field names for current/new data
-  const currentData = sheetData.currentData || sheetData.currentRows || [];
-  const newData = sheetData.newData || sheetData.newRows || sheetData.data || sheetData.rows || [];
-
-  // Infer action from tool name if not explicitly provided
-  const inferredAction = sheetAction || (
-    tool.includes('createSpreadsheet') ? 'create' :
-    tool.includes('appendRows') ? 'append' :
-    tool.includes('updateCells') ? 'update' :
-    'replace'
-  );
+  const { title = 'Untitled Spreadsheet', action: sheetAction } = sheetData;
 
-  const isCreate = inferredAction === 'create';
-  const isAppend = inferredAction === 'append';
-  const isUpdate = inferredAction === 'update';
-  const showSinglePanel = isCreate || (isAppend && currentData.length === 0);
-
-  const actionLabel = isCreate
-    ? 'Create Spreadsheet'
-    : isAppend
-      ? 'Append Rows'
-      : isUpdate
-        ? 'Update Cells'
-        : 'Replace Sheet Content';
-
-  // For append, combine current + new rows
-  const afterRows = isAppend ? [...currentData, ...newData] : newData;
-
-  // Get max columns for consistent table width
-  const maxCols = Math.max(
-    ...currentData.map(r => r.length),
-    ...afterRows.map(r => r.length),
+  // Detect mode from the tool, falling back to the action field
+  const toolName = tool.split('__').pop() || '';
+  const mode = TOOL_LABELS[toolName] ? toolName : ACTION_TOOLS[sheetAction || ''] || 'replaceSheetContent';
+  const isCreate = mode === 'createSpreadsheet';
+  const labels = TOOL_LABELS[mode];
+
+  const changes = applySheetEdit(mode, sheetData);
+
+  const columnCount = (change: SheetChange) => Math.max(
+    ...change.before.map(r => r.length),
+    ...change.after.map(r => r.length),
+    change.highlight?.endColumn ?? 0,
     1
   );
 
-  // Normalize row to have consistent column count
-  const normalizeRow = (row: string[]): string[] => {
-    const normalized = [...row];
-    while (normalized.length < maxCols) {
-      normalized.push('');
-    }
-    return normalized;
-  };
-
-  // Compare two rows for equality
-  const rowsEqual = (a: string[], b: string[]): boolean => {
-    const normA = normalizeRow(a);
-    const normB = normalizeRow(b);
-    return normA.every((cell, i) => cell === normB[i]);
-  };
+  // Comments go on the new content, or on the old when there is no new content
+  const canComment = (change: SheetChange, side: 'left' | 'right') =>
+    side === 'right' || change.status === 'removed';
 
-  // Get diff status for a row
-  const getDiffStatus = (row: string[], rowIndex: number, side: 'left' | 'right'): 'added' | 'removed' | 'unchanged' => {
-    if (side === 'left') {
-      if (isAppend || isCreate) return 'unchanged';
-      // Check if this row exists in new data
-      const existsInNew = newData.some(newRow => rowsEqual(row, newRow));
-      return existsInNew ? 'unchanged' : 'removed';
-    } else {
-      if (isAppend) {
-        // In append mode, rows from current are unchanged, new rows are added
-        if (rowIndex < currentData.length) return 'unchanged';
-        return 'added';
-      }
-      if (isCreate) {
-        return 'added';
-      }
-      // For replace/update, check if row exists in current
-      const existsInCurrent = currentData.some(currRow => rowsEqual(row, currRow));
-      return existsInCurrent ? 'unchanged' : 'added';
-    }
-  };
-
-  // Selection handlers - only for right side
-  const handleRowMouseDown = useCallback((index: number, side: 'left' | 'right', e: React.MouseEvent) => {
-    if (isLoading || side === 'left') return;
+  // Selection handlers
+  const handleRowMouseDown = useCallback((
+    sheet: number,
+    index: number,
+    side: 'left' | 'right',
+    commentable: boolean,
+    e: React.MouseEvent
+  ) => {
+    if (isLoading || !commentable) return;
     e.preventDefault();
 
-    dragStartRef.current = { index, side };
+    dragStartRef.current = { sheet, index, side };
     setIsDragging(true);
-    setSelection({ startIndex: index, endIndex: index, side });
+    setSelection({ sheet, startIndex: index, endIndex: index, side });
     setShowCommentInput(false);
   }, [isLoading]);
 
-  const handleRowMouseEnter = useCallback((index: number, side: 'left' | 'right') => {
-    if (!isDragging || !dragStartRef.current || dragStartRef.current.side !== side) return;
+  const handleRowMouseEnter = useCallback((sheet: number, index: number, side: 'left' | 'right') => {
+    const dragStart = dragStartRef.current;
+    if (!isDragging || !dragStart || dragStart.side !== side || dragStart.sheet !== sheet) return;
 
-    const start = dragStartRef.current.index;
+    const start = dragStart.index;
     setSelection({
+      sheet,
       startIndex: Math.min(start, index),
       endIndex: Math.max(start, index),
       side,
@@ -241,6 +180,7 @@ export function GoogleSheetsApproval({
 
     const newComment: RowComment = {
       id: `comment-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      sheet: selection.sheet,
       rowStart: selection.startIndex,
       rowEnd: selection.endIndex,
       side: selection.side,
@@ -262,19 +202,19 @@ export function GoogleSheetsApproval({
     setCommentText('');
   };
 
-  const isRowSelected = (index: number, side: 'left' | 'right') => {
-    if (!selection || selection.side !== side) return false;
+  const isRowSelected = (sheet: number, index: number, side: 'left' | 'right') => {
+    if (!selection || selection.side !== side || selection.sheet !== sheet) return false;
     return index >= selection.startIndex && index <= selection.endIndex;
   };
 
-  const hasComment = useCallback((index: number, side: 'left' | 'right') => {
+  const hasComment = useCallback((sheet: number, index: number, side: 'left' | 'right') => {
     return comments.some(c =>
-      c.side === side && index >= c.rowStart && index <= c.rowEnd
+      c.sheet === sheet && c.side === side && index >= c.rowStart && index <= c.rowEnd
     );
   }, [comments]);
 
-  const getCommentsEndingAt = (index: number, side: 'left' | 'right') => {
-    return comments.filter(c => c.rowEnd === index && c.side === side);
+  const getCommentsEndingAt = (sheet: number, index: number, side: 'left' | 'right') => {
+    return comments.filter(c => c.sheet === sheet && c.rowEnd === index && c.side === side);
   };
 
   const formatCommentsFeedback = (): string => {
@@ -296,7 +236,7 @@ export function GoogleSheetsApproval({
       const rowRef = c.rowEnd !== c.rowStart
         ? `Rows ${c.rowStart + 1}-${c.rowEnd + 1}`
         : `Row ${c.rowStart + 1}`;
-      lines.push(`\n[${sideLabel} - ${rowRef}]: "${c.content}"`);
+      lines.push(`\n[${sideLabel} - ${changes[c.sheet]?.sheetName} - ${rowRef}]: "${c.content}"`);
     }
     return lines.join('\n');
   };
@@ -315,36 +255,70 @@ export function GoogleSheetsApproval({
     onRequestChanges(feedback);
   };
 
-  // Render a single row
-  const renderRow = (row: string[], rowIndex: number, side: 'left' | 'right') => {
-    const status = getDiffStatus(row, rowIndex, side);
-    const isSelected = isRowSelected(rowIndex, side);
-    const rowHasComment = hasComment(rowIndex, side);
-    const rowComments = getCommentsEndingAt(rowIndex, side);
-    const showInputAfterRow = showCommentInput && selection?.endIndex === rowIndex && selection?.side === side;
-    const normalizedRow = normalizeRow(row);
+  // Render a single row of one side of a sheet
+  const renderRow = (sheetIndex: number, rowIndex: number, side: 'left' | 'right') => {
+    const change = changes[sheetIndex];
+    const grid = side === 'left' ? change.before : change.after;
+    const commentable = canComment(change, side);
+    const cols = columnCount(change);
+
+    if (rowIndex >= grid.length) {
+      return (
+        <div key={rowIndex} className="sheets-row-wrapper">
+          <div className="sheets-row sheets-row-placeholder">
+            <span className="sheets-row-number">{rowIndex + 1}</span>
+            <div className="sheets-row-cells">
+              {Array.from({ length: cols }, (_, i) => (
+                <span key={i} className="sheets-cell">{'\u00A0'}</span>
+              ))}
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    // Whole rows that only exist on one side
+    const rowStatus = side === 'right' && rowIndex >= change.before.length
+      ? 'added'
+      : side === 'left' && rowIndex >= change.after.length ? 'removed' : 'unchanged';
+    const isSelected = isRowSelected(sheetIndex, rowIndex, side);
+    const rowHasComment = hasComment(sheetIndex, rowIndex, side);
+    const rowComments = getCommentsEndingAt(sheetIndex, rowIndex, side);
+    const showInputAfterRow = showCommentInput
+      && selection?.sheet === sheetIndex
+      && selection?.endIndex === rowIndex
+      && selection?.side === side;
 
     return (
       <div key={rowIndex} className="sheets-row-wrapper">
         <div
-          className={`sheets-row sheets-row-${status} ${isSelected ? 'selected' : ''}`}
-          onMouseDown={(e) => handleRowMouseDown(rowIndex, side, e)}
-          onMouseEnter={() => handleRowMouseEnter(rowIndex, side)}
+          className={`sheets-row sheets-row-${rowStatus} ${isSelected ? 'selected' : ''}`}
+          onMouseDown={(e) => handleRowMouseDown(sheetIndex, rowIndex, side, commentable, e)}
+          onMouseEnter={() => handleRowMouseEnter(sheetIndex, rowIndex, side)}
         >
           <span className="sheets-row-number">{rowIndex + 1}</span>
           <div className="sheets-row-cells">
-            {normalizedRow.map((cell, cellIndex) => (
-              <span key={cellIndex} className="sheets-cell">
-                {cell || '\u00A0'}
-              </span>
-            ))}
+            {Array.from({ length: cols }, (_, cellIndex) => {
+              const cell = grid[rowIndex][cellIndex] || '';
+              const status = rowStatus === 'unchanged' ? cellStatus(change, rowIndex, cellIndex) : 'unchanged';
+              const highlighted = isHighlighted(change, rowIndex, cellIndex);
+              return (
+                <span
+                  key={cellIndex}
+                  className={`sheets-cell sheets-cell-${status} ${highlighted ? 'sheets-cell-highlight' : ''}`}
+                  title={cell || undefined}
+                >
+                  {cell || '\u00A0'}
+                </span>
+              );
+            })}
           </div>
-          {side === 'right' && (
+          {commentable && (
             <span className={`sheets-comment-indicator ${rowHasComment ? 'has-comment' : ''} ${!isLoading ? 'can-comment' : ''}`}>
               +
             </span>
           )}
-          {side === 'left' && status === 'removed' && (
+          {side === 'left' && rowStatus === 'removed' && (
             <span className="sheets-diff-marker">−</span>
           )}
         </div>
@@ -401,32 +375,16 @@ export function GoogleSheetsApproval({
     );
   };
 
-  // Calculate max rows for padding (so both sides have same height in diff view)
-  const maxRows = Math.max(currentData.length, afterRows.length);
-
-  // Render placeholder row for padding
-  const renderPlaceholderRow = (rowIndex: number) => (
-    <div key={`placeholder-${rowIndex}`} className="sheets-row-wrapper">
-      <div className="sheets-row sheets-row-placeholder">
-        <span className="sheets-row-number">{rowIndex + 1}</span>
-        <div className="sheets-row-cells">
-          {Array.from({ length: maxCols }, (_, i) => (
-            <span key={i} className="sheets-cell">{'\u00A0'}</span>
-          ))}
-        </div>
-      </div>
-    </div>
-  );
-
-  // Render a panel
-  const renderPanel = (
-    rows: string[][],
-    side: 'left' | 'right',
-    emptyMessage: string,
-    panelRef?: React.RefObject<HTMLDivElement | null>
-  ) => {
-    // Calculate how many placeholder rows to add
-    const placeholderCount = !showSinglePanel ? maxRows - rows.length : 0;
+  // Render one side of a sheet: column letters, then the visible rows with gaps marked
+  const renderPanel = (sheetIndex: number, side: 'left' | 'right') => {
+    const change = changes[sheetIndex];
+    const rows = visibleRows(change);
+    const rowCount = Math.max(change.before.length, change.after.length);
+    const hiddenAfter = rowCount - (rows.length > 0 ? rows[rows.length - 1] + 1 : 0);
+    const single = change.status !== 'changed';
+    const label = side === 'left'
+      ? (change.status === 'removed' ? 'Deleted' : 'Current')
+      : single ? 'New Content' : 'After Changes';
 
     return (
       <div
@@ -435,20 +393,30 @@ export function GoogleSheetsApproval({
         onMouseLeave={handleMouseUp}
       >
         <div className="sheets-approval-panel-header">
-          <span className="sheets-approval-panel-label">
-            {side === 'left' ? 'Current' : showSinglePanel ? 'New Content' : 'After Changes'}
-          </span>
+          <span className="sheets-approval-panel-label">{label}</span>
         </div>
-        <div className="sheets-approval-panel-body" ref={panelRef}>
-          {rows.length === 0 && placeholderCount === 0 ? (
-            <div className="sheets-approval-empty-panel">{emptyMessage}</div>
+        <div className="sheets-approval-panel-body">
+          {rows.length === 0 ? (
+            <div className="sheets-approval-empty-panel">{side === 'left' ? 'Empty sheet' : 'No data'}</div>
           ) : (
             <div className="sheets-table">
-              {rows.map((row, idx) => renderRow(row, idx, side))}
-              {/* Add placeholder rows to match the other side's height */}
-              {placeholderCount > 0 && Array.from({ length: placeholderCount }, (_, i) =>
-                renderPlaceholderRow(rows.length + i)
-              )}
+              <div className="sheets-row sheets-column-header">
+                <span className="sheets-row-number" />
+                <div className="sheets-row-cells">
+                  {Array.from({ length: columnCount(change) }, (_, i) => (
+                    <span key={i} className="sheets-cell">{columnLetter(i)}</span>
+                  ))}
+                </div>
+              </div>
+              {rows.map((rowIndex, i) => (
+                <Fragment key={rowIndex}>
+                  {i > 0 && rowIndex > rows[i - 1] + 1 && (
+                    <div className="sheets-row-gap">{rowIndex - rows[i - 1] - 1} unchanged rows</div>
+                  )}
+                  {renderRow(sheetIndex, rowIndex, side)}
+                </Fragment>
+              ))}
+              {hiddenAfter > 0 && <div className="sheets-row-gap">{hiddenAfter} more rows</div>}
             </div>
           )}
         </div>
@@ -457,8 +425,27 @@ export function GoogleSheetsApproval({
   };
 
   // Count stats
-  const addedRows = afterRows.filter((row, idx) => getDiffStatus(row, idx, 'right') === 'added').length;
-  const removedRows = currentData.filter((row, idx) => getDiffStatus(row, idx, 'left') === 'removed').length;
+  let changedCells = 0;
+  let addedRows = 0;
+  let removedRows = 0;
+  for (const change of changes) {
+    if (change.status === 'added') {
+      addedRows += change.after.length;
+      continue;
+    }
+    if (change.status === 'removed') {
+      removedRows += change.before.length;
+      continue;
+    }
+    addedRows += Math.max(0, change.after.length - change.before.length);
+    removedRows += Math.max(0, change.before.length - change.after.length);
+    const rows = Math.min(change.before.length, change.after.length);
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < columnCount(change); c++) {
+        if (cellStatus(change, r, c) !== 'unchanged') changedCells++;
+      }
+    }
+  }
 
   return (
     <div className="sheets-approval-view">
@@ -467,7 +454,7 @@ export function GoogleSheetsApproval({
         <div className="sheets-approval-title">
           <div className="sheets-approval-title-row">
             <McpIcon type="google-sheets" size={20} />
-            <h3>{action || actionLabel}</h3>
+            <h3>{action || labels.action}</h3>
           </div>
           {isCreate ? (
             /* Editable title for create spreadsheet */
@@ -545,15 +532,15 @@ export function GoogleSheetsApproval({
             /* Read-only title for mutate operations */
             <div className="sheets-approval-doc-info">
               <span className="sheets-approval-doc-name">{title}</span>
-              {sheetName && sheetName !== 'Sheet1' && (
-                <span className="sheets-approval-sheet-name">/ {sheetName}</span>
-              )}
             </div>
           )}
         </div>
         <div className="sheets-approval-stats">
-          {!showSinglePanel && currentData.length > 0 && (
-            <span className="stat-current">{currentData.length} rows</span>
+          {changes.length > 1 && (
+            <span className="stat-current">{changes.length} sheets</span>
+          )}
+          {changedCells > 0 && (
+            <span className="stat-changes">{changedCells} cells changed</span>
           )}
           {addedRows > 0 && (
             <span className="stat-additions">+{addedRows} rows</span>
@@ -564,10 +551,33 @@ export function GoogleSheetsApproval({
         </div>
       </div>
 
-      {/* Content */}
-      <div className={`sheets-approval-content ${showSinglePanel ? 'single-panel' : ''}`}>
-        {!showSinglePanel && renderPanel(currentData, 'left', 'Empty sheet', leftPanelRef)}
-        {renderPanel(afterRows, 'right', 'No data', rightPanelRef)}
+      {/* Content - one before/after grid per sheet */}
+      <div className="sheets-approval-sheets">
+        {changes.length === 0 && (
+          <div className="sheets-approval-empty-panel">No changes to show</div>
+        )}
+        {changes.map((change, sheetIndex) => (
+          <div key={sheetIndex} className="sheets-approval-sheet">
+            {!isCreate && (
+              <div className="sheets-approval-sheet-header">
+                <span className="sheets-approval-sheet-title">
+                  {change.sheetName}
+                  {change.renamedTo && <> → {change.renamedTo}</>}
+                </span>
+                {change.status !== 'changed' && (
+                  <span className={`sheets-approval-sheet-status ${change.status}`}>
+                    {change.status === 'added' ? 'new sheet' : 'deleted'}
+                  </span>
+                )}
+                {change.note && <span className="sheets-approval-sheet-note">{change.note}</span>}
+              </div>
+            )}
+            <div className={`sheets-approval-content ${change.status !== 'changed' ? 'single-panel' : ''}`}>
+              {change.status !== 'added' && renderPanel(sheetIndex, 'left')}
+              {change.status !== 'removed' && renderPanel(sheetIndex, 'right')}
+            </div>
+          </div>
+        ))}
       </div>
 
       {/* Footer */}
@@ -576,7 +586,7 @@ export function GoogleSheetsApproval({
         onRequestChanges={handleRequestChanges}
         onCancel={onCancel}
         isLoading={isLoading}
-        approveLabel={isCreate ? 'Create Spreadsheet' : isAppend ? 'Append Rows' : 'Update Sheet'}
+        approveLabel={labels.approve}
         commentCount={comments.length + (titleComment ? 1 : 0)}
       />
     </div>
@@ -1,15 +1,18 @@
 import { useEffect, useState, useCallback, type DragEvent } from 'react';
-import { useParams } from 'react-router-dom';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { useProject } from '../../context/ProjectContext';
 import { Column } from '../Column/Column';
+import { DependencyGraph } from './DependencyGraph';
 import './Board.css';
 
 export function Board() {
   // Support both project and board URL params for backward compatibility
   const { projectId } = useParams<{ projectId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { activeProject, loading, loadProject, createColumn, columnDragState, setColumnDragState, moveColumn } = useProject();
   const [newColumnId, setNewColumnId] = useState<string | null>(null);
   const [dropTargetIndex, setDropTargetIndex] = useState<number | null>(null);
+  const [showDependencies, setShowDependencies] = useState(false);
 
   // Load project from URL param on mount or when projectId changes
   useEffect(() => {
@@ -18,6 +21,16 @@ export function Board() {
     }
   }, [projectId, activeProject?.id, loadProject]);
 
+  // Open the task linked from a notification (?task=<id>) once the board renders
+  useEffect(() => {
+    const linkedTaskId = searchParams.get('task');
+    if (!linkedTaskId || loading || activeProject?.id !== projectId) return;
+
+    window.dispatchEvent(new CustomEvent('open-task', { detail: { taskId: linkedTaskId } }));
+    searchParams.delete('task');
+    setSearchParams(searchParams, { replace: true });
+  }, [searchParams, setSearchParams, loading, activeProject?.id, projectId]);
+
   // Clear newColumnId after it's been used to trigger edit mode
   useEffect(() => {
     if (newColumnId) {
@@ -58,6 +71,7 @@ export function Board() {
   const sortedColumns = [...activeProject.columns].sort(
     (a, b) => a.position - b.position
   );
+  const hasDependencies = activeProject.tasks.some((t) => (t.context?.dependsOn?.length ?? 0) > 0);
 
   const handleColumnDragStart = (columnId: string) => {
     setColumnDragState({ isDragging: true, columnId });
@@ -114,6 +128,15 @@ export function Board() {
           <span className="add-column-icon">+</span>
         </button>
       </div>
+
+      {hasDependencies && !showDependencies && (
+        <button className="board-dependencies-btn" onClick={() => setShowDependencies(true)}>
+          Dependencies
+        </button>
+      )}
+      {showDependencies && (
+        <DependencyGraph tasks={activeProject.tasks} onClose={() => setShowDependencies(false)} />
+      )}
     </div>
   );
 }
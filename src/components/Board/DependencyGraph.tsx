@@ -0,0 +1,104 @@
+/**
+ * DependencyGraph - Which tasks wait on which
+ *
+ * Lays the tasks that have dependencies out left to right, with an arrow
+ * from each dependency to the task waiting on it. Clicking a task opens it.
+ */
+
+import type { Task } from '../../types';
+import { useProject } from '../../context/ProjectContext';
+import { layoutDependencyGraph } from '../../utils/dependencies';
+import './DependencyGraph.css';
+
+const NODE_WIDTH = 160;
+const NODE_HEIGHT = 36;
+const LAYER_GAP = 56;
+const ROW_GAP = 12;
+
+interface DependencyGraphProps {
+  tasks: Task[];
+  onClose: () => void;
+}
+
+export function DependencyGraph({ tasks, onClose }: DependencyGraphProps) {
+  const { getTaskWorkflowPlan, getBlockingTasks } = useProject();
+  const { nodes, edges } = layoutDependencyGraph(tasks);
+
+  const position = (layer: number, row: number) => ({
+    x: layer * (NODE_WIDTH + LAYER_GAP),
+    y: row * (NODE_HEIGHT + ROW_GAP),
+  });
+  const positions = new Map(nodes.map((n) => [n.task.id, position(n.layer, n.row)]));
+  const width = Math.max(0, ...nodes.map((n) => position(n.layer, n.row).x + NODE_WIDTH));
+  const height = Math.max(0, ...nodes.map((n) => position(n.layer, n.row).y + NODE_HEIGHT));
+
+  const nodeState = (task: Task): string => {
+    const status = getTaskWorkflowPlan(task.id)?.status;
+    if (status === 'completed') return 'done';
+    if (status && status !== 'failed') return 'running';
+    if (getBlockingTasks(task).length > 0) return task.queuedStart ? 'queued' : 'blocked';
+    return 'ready';
+  };
+
+  return (
+    <div className="dependency-graph">
+      <div className="dependency-graph-header">
+        <span className="dependency-graph-title">Dependencies</span>
+        <button type="button" className="dependency-graph-close" onClick={onClose} aria-label="Close">
+          ×
+        </button>
+      </div>
+      {nodes.length === 0 ? (
+        <span className="dependency-graph-empty">No tasks depend on each other yet.</span>
+      ) : (
+        <div className="dependency-graph-canvas" style={{ width, height }}>
+          <svg className="dependency-graph-edges" width={width} height={height}>
+            <defs>
+              <marker id="dependency-arrow" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+                <path d="M0,0 L8,4 L0,8 z" />
+              </marker>
+            </defs>
+            {edges.map((edge) => {
+              const from = positions.get(edge.from)!;
+              const to = positions.get(edge.to)!;
+              const x1 = from.x + NODE_WIDTH;
+              const y1 = from.y + NODE_HEIGHT / 2;
+              const x2 = to.x;
+              const y2 = to.y + NODE_HEIGHT / 2;
+              const mid = (x1 + x2) / 2;
+              return (
+                <path
+                  key={`${edge.from}-${edge.to}`}
+                  d={`M${x1},${y1} C${mid},${y1} ${mid},${y2} ${x2 - 2},${y2}`}
+                  markerEnd="url(#dependency-arrow)"
+                />
+              );
+            })}
+          </svg>
+          {nodes.map(({ task }) => {
+            const { x, y } = positions.get(task.id)!;
+            return (
+              <button
+                key={task.id}
+                type="button"
+                className={`dependency-graph-node ${nodeState(task)}`}
+                style={{ left: x, top: y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                title={task.title}
+                onClick={() => window.dispatchEvent(new CustomEvent('open-task', { detail: { taskId: task.id } }))}
+              >
+                {task.title}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      <div className="dependency-graph-legend">
+        <span className="legend-item done">Done</span>
+        <span className="legend-item running">Running</span>
+        <span className="legend-item ready">Ready</span>
+        <span className="legend-item queued">Queued</span>
+        <span className="legend-item blocked">Blocked</span>
+      </div>
+    </div>
+  );
+}
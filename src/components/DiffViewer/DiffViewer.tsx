@@ -411,6 +411,7 @@ function DiffLineView({
       {/* Existing comments that end on this line */}
       {comments.map((comment) => (
         <div key={comment.id} className="diff-comment">
+          {comment.label && <span className="diff-comment-label">{comment.label}</span>}
           {comment.endLine && comment.endLine !== comment.lineNumber && (
             <span className="diff-comment-lines">
               Lines {comment.lineNumber}-{comment.endLine}
@@ -4,6 +4,7 @@ import { useProject } from '../../context/ProjectContext';
 import { useAuth } from '../../context/AuthContext';
 import { Modal, Input, Button } from '../common';
 import { BoardSettings, UserSettings } from '../Settings';
+import { UsageModal } from '../Usage';
 import { WeftLogo } from './WeftLogo';
 import * as api from '../../api/client';
 import './Header.css';
@@ -18,6 +19,7 @@ export function Header() {
   const [showSelector, setShowSelector] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showUserSettings, setShowUserSettings] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
   const [showExecutions, setShowExecutions] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [newProjectName, setNewProjectName] = useState('');
@@ -198,8 +200,11 @@ export function Header() {
 
                     // Build secondary text
                     let secondaryText = '';
+                    const isPaused = workflow.status === 'checkpoint' || workflow.status === 'budget_exceeded';
                     if (workflow.status === 'checkpoint') {
                       secondaryText = 'Awaiting approval';
+                    } else if (workflow.status === 'budget_exceeded') {
+                      secondaryText = 'Budget reached';
                     } else if (workflow.status === 'executing' && stepName) {
                       secondaryText = stepName;
                     } else if (workflow.status === 'planning') {
@@ -215,8 +220,8 @@ export function Header() {
                             window.dispatchEvent(new CustomEvent('open-task', { detail: { taskId: workflow.taskId } }));
                           }}
                         >
-                          <span className={`executions-item-status ${workflow.status === 'checkpoint' ? 'status-checkpoint' : ''}`}>
-                            {workflow.status === 'checkpoint' ? '⏸' : '●'}
+                          <span className={`executions-item-status ${isPaused ? 'status-checkpoint' : ''}`}>
+                            {isPaused ? '⏸' : '●'}
                           </span>
                           <div className="executions-item-info">
                             <span className="executions-item-title">{taskTitle}</span>
@@ -293,6 +298,15 @@ export function Header() {
                 >
                   Settings
                 </button>
+                <button
+                  className="user-menu-item"
+                  onClick={() => {
+                    setShowUserMenu(false);
+                    setShowUsage(true);
+                  }}
+                >
+                  Usage
+                </button>
                 <button
                   className="user-menu-item user-menu-signout"
                   onClick={() => {
@@ -353,6 +367,11 @@ export function Header() {
         isOpen={showUserSettings}
         onClose={() => setShowUserSettings(false)}
       />
+
+      <UsageModal
+        isOpen={showUsage}
+        onClose={() => setShowUsage(false)}
+      />
     </header>
   );
 }
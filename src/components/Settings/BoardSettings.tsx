@@ -3,6 +3,13 @@ import { useSearchParams } from 'react-router-dom';
 import { Modal } from '../common';
 import { AccountsSection } from './AccountsSection';
 import { MCPSection } from './MCPSection';
+import { ToolPoliciesSection } from './ToolPoliciesSection';
+import { BudgetSection } from './BudgetSection';
+import { GitHubAppSection } from './GitHubAppSection';
+import { WebhooksSection } from './WebhooksSection';
+import { NotificationMuteSection } from './NotificationMuteSection';
+import { SandboxTemplateSection } from './SandboxTemplateSection';
+import { SandboxesSection } from './SandboxesSection';
 import { useProject } from '../../context/ProjectContext';
 import { useAuth } from '../../context/AuthContext';
 import { type BoardCredential } from '../../types';
@@ -160,6 +167,21 @@ export function BoardSettings({ isOpen, onClose }: BoardSettingsProps) {
           />
         </section>
 
+        {/* GitHub Access Section */}
+        <section className="settings-section">
+          <div className="settings-section-header">
+            <h3 className="settings-section-title">GitHub Access</h3>
+            <span className="settings-section-hint">Who agents act as on GitHub</span>
+          </div>
+
+          <GitHubAppSection
+            projectId={activeProject.id}
+            credentials={credentials}
+            onCredentialsChange={loadCredentials}
+            onDeleteCredential={handleDeleteCredential}
+          />
+        </section>
+
         {/* MCP Servers Section */}
         <section className="settings-section">
           <div className="settings-section-header">
@@ -174,6 +196,66 @@ export function BoardSettings({ isOpen, onClose }: BoardSettingsProps) {
             connectingGitHub={connecting === 'github'}
           />
         </section>
+
+        {/* Tool Permissions Section */}
+        <section className="settings-section">
+          <div className="settings-section-header">
+            <h3 className="settings-section-title">Tool Permissions</h3>
+            <span className="settings-section-hint">Allow, ask before, or deny individual tools</span>
+          </div>
+
+          <ToolPoliciesSection projectId={activeProject.id} />
+        </section>
+
+        {/* Run Budget Section */}
+        <section className="settings-section">
+          <div className="settings-section-header">
+            <h3 className="settings-section-title">Run Budget</h3>
+            <span className="settings-section-hint">Agents pause for approval when a limit is reached</span>
+          </div>
+
+          <BudgetSection projectId={activeProject.id} />
+        </section>
+
+        {/* Inbound Webhooks Section */}
+        <section className="settings-section">
+          <div className="settings-section-header">
+            <h3 className="settings-section-title">Webhooks</h3>
+            <span className="settings-section-hint">Create and start tasks from GitHub events, email or other services</span>
+          </div>
+
+          <WebhooksSection projectId={activeProject.id} columns={activeProject.columns} />
+        </section>
+
+        {/* Project Notifications Section */}
+        <section className="settings-section">
+          <div className="settings-section-header">
+            <h3 className="settings-section-title">Notifications</h3>
+            <span className="settings-section-hint">Events from this project that reach your channels</span>
+          </div>
+
+          <NotificationMuteSection projectId={activeProject.id} />
+        </section>
+
+        {/* Sandbox Template Section */}
+        <section className="settings-section">
+          <div className="settings-section-header">
+            <h3 className="settings-section-title">Sandbox Template</h3>
+            <span className="settings-section-hint">Setup, cached dependencies, secrets and limits for every sandbox</span>
+          </div>
+
+          <SandboxTemplateSection projectId={activeProject.id} />
+        </section>
+
+        {/* Live Sandboxes Section */}
+        <section className="settings-section">
+          <div className="settings-section-header">
+            <h3 className="settings-section-title">Sandboxes</h3>
+            <span className="settings-section-hint">Idle sandboxes are destroyed after an hour</span>
+          </div>
+
+          <SandboxesSection projectId={activeProject.id} />
+        </section>
       </div>
     </Modal>
   );
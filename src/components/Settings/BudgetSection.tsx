@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '../common';
+import type { AgentBudget } from '../../types';
+import * as api from '../../api/client';
+import './MCPSection.css';
+import './BudgetSection.css';
+
+type ScalarLimit = 'maxTurns' | 'maxTokens' | 'maxCostUsd' | 'maxDurationMinutes';
+
+const LIMIT_FIELDS: Array<{ key: ScalarLimit; label: string; placeholder: string; step: string }> = [
+  { key: 'maxTurns', label: 'Max turns', placeholder: '50', step: '1' },
+  { key: 'maxTokens', label: 'Max tokens', placeholder: 'No limit', step: '1000' },
+  { key: 'maxCostUsd', label: 'Max cost ($)', placeholder: 'No limit', step: '0.01' },
+  { key: 'maxDurationMinutes', label: 'Max run time (min)', placeholder: 'No limit', step: '1' },
+];
+
+interface ToolLimitRow {
+  toolName: string;
+  max: string;
+}
+
+interface BudgetSectionProps {
+  /** Omit for the user-level budget that applies to every project */
+  projectId?: string;
+}
+
+export function BudgetSection({ projectId }: BudgetSectionProps) {
+  const [limits, setLimits] = useState<Record<ScalarLimit, string>>({
+    maxTurns: '',
+    maxTokens: '',
+    maxCostUsd: '',
+    maxDurationMinutes: '',
+  });
+  const [toolLimits, setToolLimits] = useState<ToolLimitRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyBudget = (budget: AgentBudget | null) => {
+    setLimits({
+      maxTurns: budget?.maxTurns?.toString() ?? '',
+      maxTokens: budget?.maxTokens?.toString() ?? '',
+      maxCostUsd: budget?.maxCostUsd?.toString() ?? '',
+      maxDurationMinutes: budget?.maxDurationMinutes?.toString() ?? '',
+    });
+    setToolLimits(
+      Object.entries(budget?.maxToolCalls || {}).map(([toolName, max]) => ({ toolName, max: String(max) }))
+    );
+  };
+
+  const loadBudget = useCallback(async () => {
+    const result = await api.getBudget(projectId);
+    if (result.success) {
+      applyBudget(result.data ?? null);
+    } else {
+      setError(result.error?.message || 'Failed to load budget');
+    }
+    setLoading(false);
+  }, [projectId]);
+
+  useEffect(() => {
+    loadBudget();
+  }, [loadBudget]);
+
+  const buildBudget = (): AgentBudget | null => {
+    const budget: AgentBudget = {};
+    for (const { key } of LIMIT_FIELDS) {
+      if (limits[key].trim()) {
+        budget[key] = Number(limits[key]);
+      }
+    }
+    const toolCalls = toolLimits.filter((row) => row.toolName.trim() && row.max.trim());
+    if (toolCalls.length > 0) {
+      budget.maxToolCalls = Object.fromEntries(toolCalls.map((row) => [row.toolName.trim(), Number(row.max)]));
+    }
+    return Object.keys(budget).length > 0 ? budget : null;
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+
+    try {
+      const result = await api.saveBudget(buildBudget(), projectId);
+      if (result.success) {
+        applyBudget(result.data ?? null);
+        setSaved(true);
+      } else {
+        setError(result.error?.message || 'Failed to save budget');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="mcp-loading">Loading...</div>;
+  }
+
+  return (
+    <form className="budget-form" onSubmit={handleSave}>
+      {error && <div className="mcp-error">{error}</div>}
+
+      <div className="budget-grid">
+        {LIMIT_FIELDS.map(({ key, label, placeholder, step }) => (
+          <div key={key} className="mcp-form-field">
+            <label>{label}</label>
+            <input
+              type="number"
+              min="0"
+              step={step}
+              value={limits[key]}
+              onChange={(e) => {
+                setLimits((prev) => ({ ...prev, [key]: e.target.value }));
+                setSaved(false);
+              }}
+              placeholder={placeholder}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="mcp-form-field">
+        <label>Max calls per tool</label>
+        {toolLimits.map((row, index) => (
+          <div key={index} className="budget-tool-row">
+            <input
+              type="text"
+              value={row.toolName}
+              onChange={(e) => {
+                setToolLimits((prev) => prev.map((r, i) => (i === index ? { ...r, toolName: e.target.value } : r)));
+                setSaved(false);
+              }}
+              placeholder="Gmail__sendEmail or * for all tools"
+            />
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={row.max}
+              onChange={(e) => {
+                setToolLimits((prev) => prev.map((r, i) => (i === index ? { ...r, max: e.target.value } : r)));
+                setSaved(false);
+              }}
+              placeholder="10"
+            />
+            <button
+              type="button"
+              className="mcp-item-delete"
+              onClick={() => {
+                setToolLimits((prev) => prev.filter((_, i) => i !== index));
+                setSaved(false);
+              }}
+              title="Remove"
+            >
+              &times;
+            </button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="mcp-add-btn"
+          onClick={() => setToolLimits((prev) => [...prev, { toolName: '', max: '' }])}
+        >
+          + Add Tool Limit
+        </Button>
+      </div>
+
+      <div className="mcp-add-form-actions">
+        {saved && <span className="budget-saved">Saved</span>}
+        <Button type="submit" variant="primary" size="sm" disabled={saving}>
+          {saving ? 'Saving...' : 'Save Budget'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -52,6 +52,8 @@ const ACCOUNT_MCPS = [
       { id: 'gmail', name: 'Gmail', description: 'Read, send, and search emails' },
       { id: 'google-docs', name: 'Google Docs', description: 'Create and edit documents' },
       { id: 'google-sheets', name: 'Google Sheets', description: 'Create and edit spreadsheets' },
+      { id: 'google-calendar', name: 'Google Calendar', description: 'Check schedules and manage events' },
+      { id: 'google-drive', name: 'Google Drive', description: 'Find, read, organise, share and export files' },
     ],
   },
 ];
@@ -153,6 +155,9 @@ export function MCPSection({
       const login = cred.metadata?.login as string | undefined;
       return login ? `@${login}` : null;
     }
+    if (cred?.type === CREDENTIAL_TYPES.GITHUB_APP) {
+      return 'GitHub App';
+    }
     return null;
   };
 
@@ -243,7 +248,9 @@ export function MCPSection({
             const toolNames = tools.map((t) => t.name);
             const accountInfo = getAccountInfo(server);
             const isGitHub = server.name === 'GitHub';
-            const isGoogle = server.name === 'Gmail' || server.name === 'Google Docs' || server.name === 'Google Sheets';
+            const isGoogle = server.name === 'Gmail' || server.name === 'Google Docs' ||
+              server.name === 'Google Sheets' || server.name === 'Google Calendar' ||
+              server.name === 'Google Drive';
 
             return (
               <div key={server.id} className="mcp-item">
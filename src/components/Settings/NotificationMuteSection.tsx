@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { NotificationEventType, NotificationMute } from '../../types';
+import * as api from '../../api/client';
+import { NOTIFICATION_EVENTS, NOTIFICATION_EVENT_LABELS } from '../../utils/notifications';
+import './MCPSection.css';
+import './NotificationsSection.css';
+
+interface NotificationMuteSectionProps {
+  projectId: string;
+}
+
+/**
+ * Which of this project's events reach the user's notification channels
+ */
+export function NotificationMuteSection({ projectId }: NotificationMuteSectionProps) {
+  const [mute, setMute] = useState<NotificationMute | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMute = useCallback(async () => {
+    const result = await api.getNotificationMutes();
+    if (result.success && result.data) {
+      setMute(result.data.find((m) => m.projectId === projectId) ?? null);
+    } else {
+      setError(result.error?.message || 'Failed to load notification settings');
+    }
+    setLoading(false);
+  }, [projectId]);
+
+  useEffect(() => {
+    loadMute();
+  }, [loadMute]);
+
+  const isNotified = (event: NotificationEventType) =>
+    !mute || (mute.events.length > 0 && !mute.events.includes(event));
+
+  const handleToggle = async (event: NotificationEventType) => {
+    const notified = NOTIFICATION_EVENTS.filter((e) => (e === event ? !isNotified(e) : isNotified(e)));
+    const muted = NOTIFICATION_EVENTS.filter((e) => !notified.includes(e));
+    // No mute when everything is on; an empty mute silences the whole project
+    const events = muted.length === 0 ? null : notified.length === 0 ? [] : muted;
+
+    setError(null);
+    const result = await api.setNotificationMute(projectId, events);
+    if (result.success) {
+      setMute(result.data ?? null);
+    } else {
+      setError(result.error?.message || 'Failed to save notification settings');
+    }
+  };
+
+  if (loading) {
+    return <div className="mcp-loading">Loading...</div>;
+  }
+
+  return (
+    <div className="notifications-section">
+      {error && <div className="mcp-error">{error}</div>}
+      <div className="notification-events">
+        {NOTIFICATION_EVENTS.map((event) => (
+          <label key={event} className="notification-check">
+            <input type="checkbox" checked={isNotified(event)} onChange={() => handleToggle(event)} />
+            {NOTIFICATION_EVENT_LABELS[event]}
+          </label>
+        ))}
+      </div>
+      <span className="mcp-form-hint">Channels and digest timing are set in your user settings</span>
+    </div>
+  );
+}
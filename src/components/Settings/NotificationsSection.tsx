@@ -0,0 +1,418 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '../common';
+import type {
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationDigestMode,
+  NotificationEventType,
+  NotificationSettings,
+  NotificationWebhookFormat,
+} from '../../types';
+import * as api from '../../api/client';
+import { useAuth } from '../../context/AuthContext';
+import { localTimezone } from '../../utils/schedule';
+import {
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_EVENT_LABELS,
+  browserName,
+  isPushSupported,
+  subscribeToPush,
+} from '../../utils/notifications';
+import './MCPSection.css';
+import './NotificationsSection.css';
+
+const CHANNEL_LABELS: Record<NotificationChannelType, string> = {
+  web_push: 'Browser push',
+  email: 'Email',
+  webhook: 'Webhook',
+};
+
+const FORMAT_LABELS: Record<NotificationWebhookFormat, string> = {
+  slack: 'Slack',
+  discord: 'Discord',
+  json: 'JSON',
+};
+
+const DIGEST_LABELS: Record<NotificationDigestMode, string> = {
+  off: 'Send right away',
+  hourly: 'Hourly digest',
+  daily: 'Daily digest',
+};
+
+export function NotificationsSection() {
+  const { user } = useAuth();
+  const vapidPublicKey = user?.config?.vapidPublicKey ?? null;
+
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [subscribing, setSubscribing] = useState(false);
+
+  // Form state
+  const [type, setType] = useState<Exclude<NotificationChannelType, 'web_push'>>('email');
+  const [name, setName] = useState('');
+  const [to, setTo] = useState(user?.email ?? '');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [format, setFormat] = useState<NotificationWebhookFormat>('slack');
+  const [events, setEvents] = useState<NotificationEventType[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadNotifications = useCallback(async () => {
+    const [channelsResult, settingsResult] = await Promise.all([
+      api.getNotificationChannels(),
+      api.getNotificationSettings(),
+    ]);
+    if (channelsResult.success && channelsResult.data) {
+      setChannels(channelsResult.data);
+    } else {
+      setError(channelsResult.error?.message || 'Failed to load notification channels');
+    }
+    if (settingsResult.success && settingsResult.data) {
+      setSettings(settingsResult.data);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  const resetForm = () => {
+    setType('email');
+    setName('');
+    setTo(user?.email ?? '');
+    setWebhookUrl('');
+    setFormat('slack');
+    setEvents([]);
+    setShowAddForm(false);
+  };
+
+  const toggleEvent = (list: NotificationEventType[], event: NotificationEventType) =>
+    list.includes(event) ? list.filter((e) => e !== event) : [...list, event];
+
+  const handleEnablePush = async () => {
+    if (!vapidPublicKey) return;
+    setSubscribing(true);
+    setError(null);
+    try {
+      const subscription = await subscribeToPush(vapidPublicKey);
+      const existing = channels.find((c) => c.type === 'web_push' && c.config.subscription?.endpoint === subscription.endpoint);
+      if (existing) {
+        setNotice('Push notifications are already on for this browser');
+        return;
+      }
+      const result = await api.createNotificationChannel({
+        type: 'web_push',
+        name: browserName(),
+        config: { subscription },
+      });
+      if (result.success && result.data) {
+        const created = result.data;
+        setChannels((prev) => [...prev, created]);
+      } else {
+        setError(result.error?.message || 'Failed to save push subscription');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to enable push notifications');
+    } finally {
+      setSubscribing(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const result = await api.createNotificationChannel({
+        type,
+        name: name.trim(),
+        events,
+        config: type === 'email' ? { to: to.trim() } : { url: webhookUrl.trim(), format },
+      });
+      if (result.success && result.data) {
+        const created = result.data;
+        setChannels((prev) => [...prev, created]);
+        resetForm();
+      } else {
+        setError(result.error?.message || 'Failed to add channel');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateChannel = async (channel: NotificationChannel, update: { enabled?: boolean; events?: NotificationEventType[] }) => {
+    const result = await api.updateNotificationChannel(channel.id, update);
+    if (result.success && result.data) {
+      const updated = result.data;
+      setChannels((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+    } else {
+      setError(result.error?.message || 'Failed to update channel');
+    }
+  };
+
+  const handleTest = async (channel: NotificationChannel) => {
+    setError(null);
+    setNotice(null);
+    const result = await api.testNotificationChannel(channel.id);
+    if (result.success && result.data?.success) {
+      setNotice(`Test sent to ${channel.name}`);
+    } else {
+      setError(result.data?.error || result.error?.message || 'Test failed');
+    }
+    // Pick up the channel's last sent time or error
+    const refreshed = await api.getNotificationChannels();
+    if (refreshed.success && refreshed.data) {
+      setChannels(refreshed.data);
+    }
+  };
+
+  const handleDelete = async (channelId: string) => {
+    const result = await api.deleteNotificationChannel(channelId);
+    if (result.success) {
+      setChannels((prev) => prev.filter((c) => c.id !== channelId));
+    } else {
+      setError(result.error?.message || 'Failed to remove channel');
+    }
+  };
+
+  const handleDigestChange = async (update: Partial<Pick<NotificationSettings, 'digest' | 'digestHour' | 'timezone'>>) => {
+    const result = await api.updateNotificationSettings({
+      // Daily digests go out at the browser's local hour
+      ...(update.digest && update.digest !== 'off' && settings?.digest === 'off' && { timezone: localTimezone() }),
+      ...update,
+    });
+    if (result.success && result.data) {
+      setSettings(result.data);
+    } else {
+      setError(result.error?.message || 'Failed to save digest settings');
+    }
+  };
+
+  const describeChannel = (channel: NotificationChannel) => {
+    const parts = [CHANNEL_LABELS[channel.type]];
+    if (channel.type === 'email' && channel.config.to) parts.push(channel.config.to);
+    if (channel.type === 'webhook' && channel.config.format) parts.push(FORMAT_LABELS[channel.config.format]);
+    if (channel.lastError) {
+      parts.push(`Error: ${channel.lastError}`);
+    } else if (channel.lastSentAt) {
+      parts.push(`Last sent ${new Date(channel.lastSentAt).toLocaleString()}`);
+    }
+    return parts.join(' · ');
+  };
+
+  if (loading) {
+    return <div className="mcp-loading">Loading...</div>;
+  }
+
+  const hasChannels = channels.length > 0;
+  const canPush = !!vapidPublicKey && isPushSupported();
+
+  return (
+    <div className="notifications-section">
+      {error && <div className="mcp-error">{error}</div>}
+      {notice && <div className="notifications-notice">{notice}</div>}
+
+      {!hasChannels && !showAddForm && (
+        <div className="mcp-empty">
+          <p>No channels. Get told when a run needs approval, finishes or fails, even with the board closed.</p>
+        </div>
+      )}
+
+      {hasChannels && (
+        <div className="mcp-list">
+          {channels.map((channel) => (
+            <div key={channel.id} className="notification-channel">
+              <div className="mcp-item">
+                <div className="mcp-item-left">
+                  <div className="mcp-item-info">
+                    <span className="mcp-item-name">{channel.name}</span>
+                    <span className={`mcp-item-meta ${channel.lastError ? 'notification-channel-error' : ''}`}>
+                      {describeChannel(channel)}
+                    </span>
+                  </div>
+                </div>
+                <div className="mcp-item-actions">
+                  <label className="notification-check">
+                    <input
+                      type="checkbox"
+                      checked={channel.enabled}
+                      onChange={() => updateChannel(channel, { enabled: !channel.enabled })}
+                    />
+                    Enabled
+                  </label>
+                  <Button variant="ghost" size="sm" onClick={() => handleTest(channel)}>
+                    Test
+                  </Button>
+                  <button
+                    className="mcp-item-delete"
+                    onClick={() => handleDelete(channel.id)}
+                    title="Remove"
+                  >
+                    &times;
+                  </button>
+                </div>
+              </div>
+              <div className="notification-events">
+                {NOTIFICATION_EVENTS.map((event) => (
+                  <label key={event} className="notification-check">
+                    <input
+                      type="checkbox"
+                      checked={channel.events.length === 0 || channel.events.includes(event)}
+                      onChange={() => {
+                        const current = channel.events.length === 0 ? NOTIFICATION_EVENTS : channel.events;
+                        const next = toggleEvent(current, event);
+                        if (next.length === 0) return;
+                        updateChannel(channel, { events: next.length === NOTIFICATION_EVENTS.length ? [] : next });
+                      }}
+                    />
+                    {NOTIFICATION_EVENT_LABELS[event]}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!showAddForm && (
+        <div className="notifications-actions">
+          {canPush && (
+            <Button variant="primary" size="sm" onClick={handleEnablePush} disabled={subscribing}>
+              {subscribing ? 'Enabling...' : 'Enable push in this browser'}
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => setShowAddForm(true)}>
+            + Add Email or Webhook
+          </Button>
+        </div>
+      )}
+      {!vapidPublicKey && (
+        <span className="mcp-form-hint">Browser push needs VAPID keys configured on the server</span>
+      )}
+
+      {showAddForm && (
+        <form className="mcp-add-form" onSubmit={handleSave}>
+          <div className="mcp-add-form-header">Add Channel</div>
+          <div className="mcp-type-toggle">
+            {(['email', 'webhook'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                className={`mcp-type-option ${type === option ? 'active' : ''}`}
+                onClick={() => setType(option)}
+              >
+                {CHANNEL_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          <div className="mcp-form-field">
+            <label>Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={type === 'email' ? 'My inbox' : '#agents channel'}
+              autoFocus
+            />
+          </div>
+
+          {type === 'email' ? (
+            <div className="mcp-form-field">
+              <label>Send to</label>
+              <input type="email" value={to} onChange={(e) => setTo(e.target.value)} placeholder="you@example.com" />
+              <span className="mcp-form-hint">Sent from your connected Google account</span>
+            </div>
+          ) : (
+            <div className="notifications-row">
+              <div className="mcp-form-field">
+                <label>Webhook URL</label>
+                <input
+                  type="url"
+                  value={webhookUrl}
+                  onChange={(e) => setWebhookUrl(e.target.value)}
+                  placeholder="https://hooks.slack.com/services/..."
+                />
+              </div>
+              <div className="mcp-form-field">
+                <label>Format</label>
+                <select value={format} onChange={(e) => setFormat(e.target.value as NotificationWebhookFormat)}>
+                  {(Object.keys(FORMAT_LABELS) as NotificationWebhookFormat[]).map((f) => (
+                    <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          <div className="mcp-form-field">
+            <label>Events</label>
+            <div className="notification-events">
+              {NOTIFICATION_EVENTS.map((event) => (
+                <label key={event} className="notification-check">
+                  <input
+                    type="checkbox"
+                    checked={events.length === 0 || events.includes(event)}
+                    onChange={() => {
+                      const next = toggleEvent(events.length === 0 ? NOTIFICATION_EVENTS : events, event);
+                      if (next.length === 0) return;
+                      setEvents(next.length === NOTIFICATION_EVENTS.length ? [] : next);
+                    }}
+                  />
+                  {NOTIFICATION_EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="mcp-add-form-actions">
+            <Button type="button" variant="ghost" size="sm" onClick={resetForm} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" size="sm" disabled={saving || !name.trim()}>
+              {saving ? 'Saving...' : 'Add Channel'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {settings && (
+        <div className="notifications-row">
+          <div className="mcp-form-field">
+            <label>Delivery</label>
+            <select
+              value={settings.digest}
+              onChange={(e) => handleDigestChange({ digest: e.target.value as NotificationDigestMode })}
+            >
+              {(Object.keys(DIGEST_LABELS) as NotificationDigestMode[]).map((mode) => (
+                <option key={mode} value={mode}>{DIGEST_LABELS[mode]}</option>
+              ))}
+            </select>
+          </div>
+          {settings.digest === 'daily' && (
+            <div className="mcp-form-field">
+              <label>Daily at</label>
+              <select
+                value={settings.digestHour}
+                onChange={(e) => handleDigestChange({ digestHour: Number(e.target.value) })}
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>{`${String(hour).padStart(2, '0')}:00`}</option>
+                ))}
+              </select>
+              <span className="mcp-form-hint">{settings.timezone}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
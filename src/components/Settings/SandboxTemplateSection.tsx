@@ -0,0 +1,255 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '../common';
+import type { ProjectCredential, SandboxTemplate } from '../../types';
+import { CREDENTIAL_TYPES } from '../../constants';
+import * as api from '../../api/client';
+import './MCPSection.css';
+import './BudgetSection.css';
+import './SandboxTemplateSection.css';
+
+type ListField = 'setupCommands' | 'cacheDirectories' | 'cacheKeyFiles';
+
+const LIST_FIELDS: Array<{ key: ListField; label: string; placeholder: string; hint: string }> = [
+  {
+    key: 'setupCommands',
+    label: 'Setup commands',
+    placeholder: 'npm ci\nnpx playwright install chromium',
+    hint: 'One per line, run in the repository after it is cloned',
+  },
+  {
+    key: 'cacheDirectories',
+    label: 'Cached directories',
+    placeholder: 'node_modules',
+    hint: 'Kept between sessions, relative to the repository',
+  },
+  {
+    key: 'cacheKeyFiles',
+    label: 'Cache key files',
+    placeholder: 'package-lock.json',
+    hint: 'When these change, setup starts from an empty cache',
+  },
+];
+
+interface SandboxTemplateSectionProps {
+  projectId: string;
+}
+
+export function SandboxTemplateSection({ projectId }: SandboxTemplateSectionProps) {
+  const [lists, setLists] = useState<Record<ListField, string>>({
+    setupCommands: '',
+    cacheDirectories: '',
+    cacheKeyFiles: '',
+  });
+  const [memoryLimitMb, setMemoryLimitMb] = useState('');
+  const [timeoutMinutes, setTimeoutMinutes] = useState('');
+  const [secrets, setSecrets] = useState<ProjectCredential[]>([]);
+  const [secretName, setSecretName] = useState('');
+  const [secretValue, setSecretValue] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyTemplate = (template: SandboxTemplate | null) => {
+    setLists({
+      setupCommands: (template?.setupCommands || []).join('\n'),
+      cacheDirectories: (template?.cacheDirectories || []).join('\n'),
+      cacheKeyFiles: (template?.cacheKeyFiles || []).join('\n'),
+    });
+    setMemoryLimitMb(template?.memoryLimitMb?.toString() ?? '');
+    setTimeoutMinutes(template?.timeoutMs ? String(template.timeoutMs / 60_000) : '');
+  };
+
+  const loadSecrets = useCallback(async () => {
+    const result = await api.getCredentials(projectId);
+    if (result.success && result.data) {
+      setSecrets(result.data.filter((credential) => credential.type === CREDENTIAL_TYPES.SANDBOX_SECRET));
+    }
+  }, [projectId]);
+
+  const loadTemplate = useCallback(async () => {
+    const [result] = await Promise.all([api.getSandboxTemplate(projectId), loadSecrets()]);
+    if (result.success) {
+      applyTemplate(result.data ?? null);
+    } else {
+      setError(result.error?.message || 'Failed to load sandbox template');
+    }
+    setLoading(false);
+  }, [projectId, loadSecrets]);
+
+  useEffect(() => {
+    loadTemplate();
+  }, [loadTemplate]);
+
+  const buildTemplate = (): SandboxTemplate | null => {
+    const lines = (value: string) => value.split('\n').map((line) => line.trim()).filter(Boolean);
+    const template: SandboxTemplate = {};
+    for (const { key } of LIST_FIELDS) {
+      const values = lines(lists[key]);
+      if (values.length > 0) {
+        template[key] = values;
+      }
+    }
+    if (memoryLimitMb.trim()) {
+      template.memoryLimitMb = Number(memoryLimitMb);
+    }
+    if (timeoutMinutes.trim()) {
+      template.timeoutMs = Math.round(Number(timeoutMinutes) * 60_000);
+    }
+    return Object.keys(template).length > 0 ? template : null;
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+
+    try {
+      const result = await api.saveSandboxTemplate(projectId, buildTemplate());
+      if (result.success) {
+        applyTemplate(result.data ?? null);
+        setSaved(true);
+      } else {
+        setError(result.error?.message || 'Failed to save sandbox template');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddSecret = async () => {
+    if (!secretName.trim() || !secretValue) return;
+    setError(null);
+    const result = await api.createCredential(projectId, {
+      type: CREDENTIAL_TYPES.SANDBOX_SECRET,
+      name: secretName.trim(),
+      value: secretValue,
+    });
+    if (result.success) {
+      setSecretName('');
+      setSecretValue('');
+      await loadSecrets();
+    } else {
+      setError(result.error?.message || 'Failed to save secret');
+    }
+  };
+
+  const handleDeleteSecret = async (secret: ProjectCredential) => {
+    if (!confirm(`Remove the secret ${secret.name}?`)) return;
+    const result = await api.deleteCredential(projectId, secret.id);
+    if (result.success) {
+      setSecrets((prev) => prev.filter((s) => s.id !== secret.id));
+    } else {
+      setError(result.error?.message || 'Failed to remove secret');
+    }
+  };
+
+  if (loading) {
+    return <div className="mcp-loading">Loading...</div>;
+  }
+
+  return (
+    <form className="budget-form" onSubmit={handleSave}>
+      {error && <div className="mcp-error">{error}</div>}
+
+      {LIST_FIELDS.map(({ key, label, placeholder, hint }) => (
+        <div key={key} className="mcp-form-field">
+          <label>{label}</label>
+          <textarea
+            className="sandbox-template-lines"
+            rows={key === 'setupCommands' ? 4 : 2}
+            value={lists[key]}
+            onChange={(e) => {
+              setLists((prev) => ({ ...prev, [key]: e.target.value }));
+              setSaved(false);
+            }}
+            placeholder={placeholder}
+          />
+          <span className="mcp-form-hint">{hint}</span>
+        </div>
+      ))}
+
+      <div className="budget-grid">
+        <div className="mcp-form-field">
+          <label>Memory limit (MB)</label>
+          <input
+            type="number"
+            min="1024"
+            step="256"
+            value={memoryLimitMb}
+            onChange={(e) => {
+              setMemoryLimitMb(e.target.value);
+              setSaved(false);
+            }}
+            placeholder="No limit"
+          />
+        </div>
+        <div className="mcp-form-field">
+          <label>Command time limit (min)</label>
+          <input
+            type="number"
+            min="1"
+            max="60"
+            step="1"
+            value={timeoutMinutes}
+            onChange={(e) => {
+              setTimeoutMinutes(e.target.value);
+              setSaved(false);
+            }}
+            placeholder="No limit"
+          />
+        </div>
+      </div>
+
+      <div className="mcp-add-form-actions">
+        {saved && <span className="budget-saved">Saved</span>}
+        <Button type="submit" variant="primary" size="sm" disabled={saving}>
+          {saving ? 'Saving...' : 'Save Template'}
+        </Button>
+      </div>
+
+      <div className="mcp-form-field">
+        <label>Secrets</label>
+        <span className="mcp-form-hint">Set as environment variables in every session; values are stored encrypted</span>
+        {secrets.map((secret) => (
+          <div key={secret.id} className="sandbox-template-secret">
+            <code>{secret.name}</code>
+            <button
+              type="button"
+              className="mcp-item-delete"
+              onClick={() => handleDeleteSecret(secret)}
+              title="Remove"
+            >
+              &times;
+            </button>
+          </div>
+        ))}
+        <div className="sandbox-template-secret-row">
+          <input
+            type="text"
+            value={secretName}
+            onChange={(e) => setSecretName(e.target.value)}
+            placeholder="NPM_TOKEN"
+          />
+          <input
+            type="password"
+            value={secretValue}
+            onChange={(e) => setSecretValue(e.target.value)}
+            placeholder="Value"
+            autoComplete="off"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={handleAddSecret}
+            disabled={!secretName.trim() || !secretValue}
+          >
+            Add
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '../common';
+import type { SandboxSession } from '../../types';
+import * as api from '../../api/client';
+import './MCPSection.css';
+
+/** Repository name from its URL ("owner/repo") */
+function repoName(repoUrl: string): string {
+  return repoUrl.replace(/^https?:\/\/[^/]+\//, '').replace(/\.git$/, '');
+}
+
+interface SandboxesSectionProps {
+  projectId: string;
+}
+
+export function SandboxesSection({ projectId }: SandboxesSectionProps) {
+  const [sessions, setSessions] = useState<SandboxSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [destroyingId, setDestroyingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    const result = await api.getSandboxSessions(projectId);
+    if (result.success && result.data) {
+      setSessions(result.data);
+    } else {
+      setError(result.error?.message || 'Failed to load sandboxes');
+    }
+    setLoading(false);
+  }, [projectId]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleDestroy = async (sessionId: string) => {
+    if (!confirm('Destroy this sandbox? Uncommitted changes in it are lost.')) return;
+    setDestroyingId(sessionId);
+    setError(null);
+    try {
+      const result = await api.destroySandboxSession(projectId, sessionId);
+      if (result.success) {
+        setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+      } else {
+        setError(result.error?.message || 'Failed to destroy sandbox');
+      }
+    } finally {
+      setDestroyingId(null);
+    }
+  };
+
+  const describeSession = (session: SandboxSession) => {
+    const parts = [session.repoUrl ? repoName(session.repoUrl) : session.workDir];
+    if (session.branch) parts.push(session.branch);
+    parts.push(`Last used ${new Date(session.lastActivityAt).toLocaleString()}`);
+    return parts.join(' · ');
+  };
+
+  if (loading) {
+    return <div className="mcp-loading">Loading...</div>;
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <>
+        {error && <div className="mcp-error">{error}</div>}
+        <div className="mcp-empty">
+          <p>No live sandboxes. Agents start one when they clone a repository.</p>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      {error && <div className="mcp-error">{error}</div>}
+      <div className="mcp-list">
+        {sessions.map((session) => (
+          <div key={session.id} className="mcp-item">
+            <div className="mcp-item-left">
+              <div className="mcp-item-info">
+                <span className="mcp-item-name">{session.id}</span>
+                <span className="mcp-item-meta">{describeSession(session)}</span>
+              </div>
+            </div>
+            <div className="mcp-item-actions">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDestroy(session.id)}
+                disabled={destroyingId === session.id}
+              >
+                {destroyingId === session.id ? 'Destroying...' : 'Destroy'}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '../common';
+import type { ToolPolicy, ToolPolicyMode } from '../../types';
+import * as api from '../../api/client';
+import './MCPSection.css';
+import './ToolPoliciesSection.css';
+
+// Built-in servers that every agent has, regardless of configured MCPs
+const BUILTIN_SERVERS = ['Sandbox', 'Exa', 'AskUser'];
+
+const MODE_LABELS: Record<ToolPolicyMode, string> = {
+  allow: 'Allow',
+  ask: 'Ask first',
+  deny: 'Deny',
+};
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+interface ToolPoliciesSectionProps {
+  /** Omit for user-level policies that apply to every project */
+  projectId?: string;
+}
+
+export function ToolPoliciesSection({ projectId }: ToolPoliciesSectionProps) {
+  const [policies, setPolicies] = useState<ToolPolicy[]>([]);
+  const [serverTools, setServerTools] = useState<Record<string, string[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [serverName, setServerName] = useState('');
+  const [toolName, setToolName] = useState('*');
+  const [mode, setMode] = useState<ToolPolicyMode>('ask');
+  const [recipientDomains, setRecipientDomains] = useState('');
+  const [repoOwners, setRepoOwners] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadPolicies = useCallback(async () => {
+    const result = await api.getToolPolicies(projectId);
+    if (result.success && result.data) {
+      setPolicies(result.data);
+    } else {
+      setError(result.error?.message || 'Failed to load tool policies');
+    }
+    setLoading(false);
+  }, [projectId]);
+
+  // Server and tool names for the form suggestions
+  const loadServerTools = useCallback(async () => {
+    const serversResult = projectId
+      ? await api.getMCPServers(projectId)
+      : await api.getGlobalMCPServers();
+    if (!serversResult.success || !serversResult.data) return;
+
+    for (const server of serversResult.data) {
+      const toolsResult = projectId
+        ? await api.getMCPServerTools(projectId, server.id)
+        : await api.getGlobalMCPServerTools(server.id);
+      const name = server.name.replace(/\s+/g, '_');
+      const tools = toolsResult.success && toolsResult.data ? toolsResult.data.map((t) => t.name) : [];
+      setServerTools((prev) => ({ ...prev, [name]: tools }));
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadPolicies();
+    loadServerTools();
+  }, [loadPolicies, loadServerTools]);
+
+  const resetForm = () => {
+    setServerName('');
+    setToolName('*');
+    setMode('ask');
+    setRecipientDomains('');
+    setRepoOwners('');
+    setShowAddForm(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!serverName.trim() || !toolName.trim()) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const domains = splitList(recipientDomains);
+      const owners = splitList(repoOwners);
+      const constraints = domains.length > 0 || owners.length > 0
+        ? {
+            ...(domains.length > 0 && { recipientDomains: domains }),
+            ...(owners.length > 0 && { repoOwners: owners }),
+          }
+        : null;
+
+      const result = await api.saveToolPolicy(
+        { serverName: serverName.trim(), toolName: toolName.trim(), mode, constraints },
+        projectId
+      );
+
+      if (result.success && result.data) {
+        const saved = result.data;
+        setPolicies((prev) => [...prev.filter((p) => p.id !== saved.id), saved]);
+        resetForm();
+      } else {
+        setError(result.error?.message || 'Failed to save tool policy');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleModeChange = async (policy: ToolPolicy, newMode: ToolPolicyMode) => {
+    const result = await api.saveToolPolicy(
+      { serverName: policy.serverName, toolName: policy.toolName, mode: newMode, constraints: policy.constraints },
+      projectId
+    );
+    if (result.success && result.data) {
+      const saved = result.data;
+      setPolicies((prev) => prev.map((p) => (p.id === saved.id ? saved : p)));
+    } else {
+      setError(result.error?.message || 'Failed to update tool policy');
+    }
+  };
+
+  const handleDelete = async (policyId: string) => {
+    const result = await api.deleteToolPolicy(policyId, projectId);
+    if (result.success) {
+      setPolicies((prev) => prev.filter((p) => p.id !== policyId));
+    } else {
+      setError(result.error?.message || 'Failed to delete tool policy');
+    }
+  };
+
+  const describeConstraints = (policy: ToolPolicy) => {
+    const parts: string[] = [];
+    if (policy.constraints?.recipientDomains?.length) {
+      parts.push(`Recipients: ${policy.constraints.recipientDomains.join(', ')}`);
+    }
+    if (policy.constraints?.repoOwners?.length) {
+      parts.push(`Repos: ${policy.constraints.repoOwners.join(', ')}`);
+    }
+    return parts.join(' · ');
+  };
+
+  const serverOptions = [...new Set([...Object.keys(serverTools), ...BUILTIN_SERVERS])];
+  const toolOptions = ['*', ...(serverTools[serverName.trim().replace(/\s+/g, '_')] || [])];
+  const hasPolicies = policies.length > 0;
+
+  if (loading) {
+    return <div className="mcp-loading">Loading...</div>;
+  }
+
+  return (
+    <>
+      {error && <div className="mcp-error">{error}</div>}
+
+      {!hasPolicies && !showAddForm && (
+        <div className="mcp-empty">
+          <p>No tool policies. Tools that change external state ask for approval first.</p>
+          <Button variant="primary" size="sm" onClick={() => setShowAddForm(true)}>
+            + Add Policy
+          </Button>
+        </div>
+      )}
+
+      {hasPolicies && (
+        <div className="mcp-list">
+          {policies.map((policy) => {
+            const constraints = describeConstraints(policy);
+            return (
+              <div key={policy.id} className="mcp-item">
+                <div className="mcp-item-left">
+                  <div className="mcp-item-info">
+                    <span className="mcp-item-name">
+                      {policy.serverName}
+                      {' / '}
+                      {policy.toolName === '*' ? 'All tools' : policy.toolName}
+                    </span>
+                    {constraints && <span className="mcp-item-meta">{constraints}</span>}
+                  </div>
+                </div>
+                <div className="mcp-item-actions">
+                  <select
+                    className={`tool-policy-mode tool-policy-mode-${policy.mode}`}
+                    value={policy.mode}
+                    onChange={(e) => handleModeChange(policy, e.target.value as ToolPolicyMode)}
+                  >
+                    {(Object.keys(MODE_LABELS) as ToolPolicyMode[]).map((m) => (
+                      <option key={m} value={m}>{MODE_LABELS[m]}</option>
+                    ))}
+                  </select>
+                  <button
+                    className="mcp-item-delete"
+                    onClick={() => handleDelete(policy.id)}
+                    title="Remove"
+                  >
+                    &times;
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {hasPolicies && !showAddForm && (
+        <Button variant="ghost" size="sm" onClick={() => setShowAddForm(true)} className="mcp-add-btn">
+          + Add Policy
+        </Button>
+      )}
+
+      {showAddForm && (
+        <form className="mcp-add-form" onSubmit={handleSave}>
+          <div className="mcp-add-form-header">Add Tool Policy</div>
+          <div className="tool-policy-row">
+            <div className="mcp-form-field">
+              <label>Server</label>
+              <input
+                type="text"
+                list="tool-policy-servers"
+                value={serverName}
+                onChange={(e) => setServerName(e.target.value)}
+                placeholder="Gmail"
+                autoFocus
+              />
+              <datalist id="tool-policy-servers">
+                {serverOptions.map((name) => <option key={name} value={name} />)}
+              </datalist>
+            </div>
+            <div className="mcp-form-field">
+              <label>Tool</label>
+              <input
+                type="text"
+                list="tool-policy-tools"
+                value={toolName}
+                onChange={(e) => setToolName(e.target.value)}
+                placeholder="* for all tools"
+              />
+              <datalist id="tool-policy-tools">
+                {toolOptions.map((name) => <option key={name} value={name} />)}
+              </datalist>
+            </div>
+            <div className="mcp-form-field">
+              <label>Mode</label>
+              <select value={mode} onChange={(e) => setMode(e.target.value as ToolPolicyMode)}>
+                {(Object.keys(MODE_LABELS) as ToolPolicyMode[]).map((m) => (
+                  <option key={m} value={m}>{MODE_LABELS[m]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {mode !== 'deny' && (
+            <>
+              <div className="mcp-form-field">
+                <label>Allowed recipient domains</label>
+                <input
+                  type="text"
+                  value={recipientDomains}
+                  onChange={(e) => setRecipientDomains(e.target.value)}
+                  placeholder="example.com, partner.org"
+                />
+                <span className="mcp-form-hint">Email tools only. Leave empty to allow any recipient.</span>
+              </div>
+              <div className="mcp-form-field">
+                <label>Allowed repository owners</label>
+                <input
+                  type="text"
+                  value={repoOwners}
+                  onChange={(e) => setRepoOwners(e.target.value)}
+                  placeholder="my-org"
+                />
+                <span className="mcp-form-hint">GitHub and Sandbox tools only. Leave empty to allow any repository.</span>
+              </div>
+            </>
+          )}
+          <div className="mcp-add-form-actions">
+            <Button type="button" variant="ghost" size="sm" onClick={resetForm}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="primary"
+              size="sm"
+              disabled={!serverName.trim() || !toolName.trim() || saving}
+            >
+              {saving ? 'Saving...' : 'Save Policy'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </>
+  );
+}
@@ -1,6 +1,9 @@
 import { Modal } from '../common';
 import { GlobalAccountsSection } from './GlobalAccountsSection';
 import { GlobalMCPSection } from './GlobalMCPSection';
+import { ToolPoliciesSection } from './ToolPoliciesSection';
+import { BudgetSection } from './BudgetSection';
+import { NotificationsSection } from './NotificationsSection';
 import './BoardSettings.css';
 
 interface UserSettingsProps {
@@ -31,6 +34,36 @@ export function UserSettings({ isOpen, onClose }: UserSettingsProps) {
 
           <GlobalMCPSection />
         </section>
+
+        {/* Global Tool Permissions Section */}
+        <section className="settings-section">
+          <div className="settings-section-header">
+            <h3 className="settings-section-title">Global Tool Permissions</h3>
+            <span className="settings-section-hint">Project policies override these for the same tool</span>
+          </div>
+
+          <ToolPoliciesSection />
+        </section>
+
+        {/* Default Run Budget Section */}
+        <section className="settings-section">
+          <div className="settings-section-header">
+            <h3 className="settings-section-title">Default Run Budget</h3>
+            <span className="settings-section-hint">Project and agent budgets override these limits</span>
+          </div>
+
+          <BudgetSection />
+        </section>
+
+        {/* Notifications Section */}
+        <section className="settings-section">
+          <div className="settings-section-header">
+            <h3 className="settings-section-title">Notifications</h3>
+            <span className="settings-section-hint">Where to hear about runs that need approval, finish or fail</span>
+          </div>
+
+          <NotificationsSection />
+        </section>
       </div>
     </Modal>
   );
@@ -0,0 +1,464 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '../common';
+import type {
+  Agent,
+  Column,
+  WebhookCondition,
+  WebhookConditionOp,
+  WebhookConfig,
+  WebhookDelivery,
+  WebhookSource,
+} from '../../types';
+import * as api from '../../api/client';
+import './MCPSection.css';
+import './WebhooksSection.css';
+
+const SOURCE_LABELS: Record<WebhookSource, string> = {
+  github: 'GitHub',
+  gmail: 'Gmail push',
+  generic: 'Generic',
+};
+
+// Starting templates per source, using fields each sender includes
+const DEFAULT_TEMPLATES: Record<WebhookSource, { title: string; description: string }> = {
+  github: {
+    title: '{{payload.issue.title}}',
+    description: '{{payload.issue.html_url}}\n\n{{payload.issue.body}}',
+  },
+  gmail: {
+    title: '{{payload.message.subject}}',
+    description: 'From: {{payload.message.from}}\n\n{{payload.message.snippet}}',
+  },
+  generic: {
+    title: '{{payload.title}}',
+    description: '{{payload.description}}',
+  },
+};
+
+const OP_LABELS: Record<WebhookConditionOp, string> = {
+  equals: 'equals',
+  contains: 'contains',
+  exists: 'exists',
+};
+
+const DELIVERY_STATUS_LABELS: Record<WebhookDelivery['status'], string> = {
+  started: 'Started',
+  created: 'Created',
+  ignored: 'Ignored',
+  rejected: 'Rejected',
+  failed: 'Failed',
+};
+
+function webhookUrl(webhook: WebhookConfig): string {
+  const url = `${window.location.origin}/api/webhooks/${webhook.projectId}/${webhook.id}`;
+  // Pub/Sub push cannot sign requests, so Gmail webhooks carry the secret in the URL
+  return webhook.source === 'gmail' ? `${url}?token=${webhook.secret}` : url;
+}
+
+interface WebhooksSectionProps {
+  projectId: string;
+  columns: Column[];
+}
+
+export function WebhooksSection({ projectId, columns }: WebhooksSectionProps) {
+  const [webhooks, setWebhooks] = useState<WebhookConfig[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [source, setSource] = useState<WebhookSource>('github');
+  const [title, setTitle] = useState(DEFAULT_TEMPLATES.github.title);
+  const [description, setDescription] = useState(DEFAULT_TEMPLATES.github.description);
+  const [conditions, setConditions] = useState<WebhookCondition[]>([]);
+  const [columnId, setColumnId] = useState('');
+  const [agentId, setAgentId] = useState('');
+  const [autoStart, setAutoStart] = useState(false);
+  const [gmailQuery, setGmailQuery] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const sortedColumns = [...columns].sort((a, b) => a.position - b.position);
+
+  const loadWebhooks = useCallback(async () => {
+    const result = await api.getWebhooks(projectId);
+    if (result.success && result.data) {
+      setWebhooks(result.data);
+    } else {
+      setError(result.error?.message || 'Failed to load webhooks');
+    }
+    setLoading(false);
+  }, [projectId]);
+
+  useEffect(() => {
+    loadWebhooks();
+    api.getAgents(projectId).then((result) => {
+      if (result.success && result.data) {
+        setAgents(result.data.filter((a) => a.enabled));
+      }
+    });
+  }, [loadWebhooks, projectId]);
+
+  const resetForm = () => {
+    setName('');
+    setSource('github');
+    setTitle(DEFAULT_TEMPLATES.github.title);
+    setDescription(DEFAULT_TEMPLATES.github.description);
+    setConditions([]);
+    setColumnId('');
+    setAgentId('');
+    setAutoStart(false);
+    setGmailQuery('');
+    setShowAddForm(false);
+  };
+
+  const handleSourceChange = (next: WebhookSource) => {
+    // Swap in the new source's templates unless they were edited
+    if (title === DEFAULT_TEMPLATES[source].title && description === DEFAULT_TEMPLATES[source].description) {
+      setTitle(DEFAULT_TEMPLATES[next].title);
+      setDescription(DEFAULT_TEMPLATES[next].description);
+    }
+    setSource(next);
+  };
+
+  const updateCondition = (index: number, changes: Partial<WebhookCondition>) => {
+    setConditions((prev) => prev.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !title.trim()) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const result = await api.createWebhook(projectId, {
+        name: name.trim(),
+        source,
+        conditions: conditions
+          .filter((c) => c.path.trim())
+          .map((c) => ({ path: c.path.trim(), op: c.op, ...(c.op !== 'exists' && { value: c.value ?? '' }) })),
+        template: { title, description, agentId: agentId || null },
+        columnId: columnId || null,
+        autoStart,
+        gmailQuery: source === 'gmail' ? gmailQuery.trim() || null : null,
+      });
+
+      if (result.success && result.data) {
+        const created = result.data;
+        setWebhooks((prev) => [...prev, created]);
+        setExpandedId(created.id);
+        setDeliveries([]);
+        resetForm();
+      } else {
+        setError(result.error?.message || 'Failed to create webhook');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const replaceWebhook = (updated: WebhookConfig) => {
+    setWebhooks((prev) => prev.map((w) => (w.id === updated.id ? updated : w)));
+  };
+
+  const handleToggleEnabled = async (webhook: WebhookConfig) => {
+    const result = await api.updateWebhook(projectId, webhook.id, { enabled: !webhook.enabled });
+    if (result.success && result.data) {
+      replaceWebhook(result.data);
+    } else {
+      setError(result.error?.message || 'Failed to update webhook');
+    }
+  };
+
+  const handleRegenerateSecret = async (webhook: WebhookConfig) => {
+    if (!confirm('Regenerate the secret? The sender must be updated with the new one.')) return;
+    const result = await api.updateWebhook(projectId, webhook.id, { regenerateSecret: true });
+    if (result.success && result.data) {
+      replaceWebhook(result.data);
+    } else {
+      setError(result.error?.message || 'Failed to regenerate secret');
+    }
+  };
+
+  const handleDelete = async (webhookId: string) => {
+    const result = await api.deleteWebhook(projectId, webhookId);
+    if (result.success) {
+      setWebhooks((prev) => prev.filter((w) => w.id !== webhookId));
+      if (expandedId === webhookId) setExpandedId(null);
+    } else {
+      setError(result.error?.message || 'Failed to delete webhook');
+    }
+  };
+
+  const handleExpand = async (webhookId: string) => {
+    if (expandedId === webhookId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(webhookId);
+    setDeliveries([]);
+    const result = await api.getWebhookDeliveries(projectId, webhookId);
+    if (result.success && result.data) {
+      setDeliveries(result.data);
+    }
+  };
+
+  const describeWebhook = (webhook: WebhookConfig) => {
+    const parts = [SOURCE_LABELS[webhook.source], webhook.autoStart ? 'Starts an agent' : 'Creates a task'];
+    if (webhook.conditions.length > 0) {
+      parts.push(`${webhook.conditions.length} condition${webhook.conditions.length === 1 ? '' : 's'}`);
+    }
+    if (webhook.lastDeliveryAt) {
+      parts.push(`Last delivery ${new Date(webhook.lastDeliveryAt).toLocaleString()}`);
+    }
+    return parts.join(' · ');
+  };
+
+  if (loading) {
+    return <div className="mcp-loading">Loading...</div>;
+  }
+
+  const hasWebhooks = webhooks.length > 0;
+
+  return (
+    <>
+      {error && <div className="mcp-error">{error}</div>}
+
+      {!hasWebhooks && !showAddForm && (
+        <div className="mcp-empty">
+          <p>No webhooks. Add one to create tasks from GitHub events, new email or any service that can POST.</p>
+          <Button variant="primary" size="sm" onClick={() => setShowAddForm(true)}>
+            + Add Webhook
+          </Button>
+        </div>
+      )}
+
+      {hasWebhooks && (
+        <div className="mcp-list">
+          {webhooks.map((webhook) => (
+            <div key={webhook.id} className="webhook-entry">
+              <div className="mcp-item">
+                <div className="mcp-item-left">
+                  <div className="mcp-item-info">
+                    <span className="mcp-item-name">{webhook.name}</span>
+                    <span className="mcp-item-meta">{describeWebhook(webhook)}</span>
+                  </div>
+                </div>
+                <div className="mcp-item-actions">
+                  <label className="webhook-enabled">
+                    <input
+                      type="checkbox"
+                      checked={webhook.enabled}
+                      onChange={() => handleToggleEnabled(webhook)}
+                    />
+                    Enabled
+                  </label>
+                  <Button variant="ghost" size="sm" onClick={() => handleExpand(webhook.id)}>
+                    {expandedId === webhook.id ? 'Hide' : 'Details'}
+                  </Button>
+                  <button
+                    className="mcp-item-delete"
+                    onClick={() => handleDelete(webhook.id)}
+                    title="Remove"
+                  >
+                    &times;
+                  </button>
+                </div>
+              </div>
+
+              {expandedId === webhook.id && (
+                <div className="webhook-details">
+                  <div className="mcp-form-field">
+                    <label>{webhook.source === 'gmail' ? 'Pub/Sub push endpoint' : 'Payload URL'}</label>
+                    <input readOnly value={webhookUrl(webhook)} onFocus={(e) => e.target.select()} />
+                  </div>
+                  {webhook.source !== 'gmail' && (
+                    <div className="mcp-form-field">
+                      <label>Secret</label>
+                      <input readOnly value={webhook.secret} onFocus={(e) => e.target.select()} />
+                      <span className="mcp-form-hint">
+                        {webhook.source === 'github'
+                          ? 'Use as the webhook secret with content type application/json'
+                          : 'Sign the body with HMAC-SHA256 and send it as X-Webhook-Signature: sha256=<hex>'}
+                      </span>
+                    </div>
+                  )}
+                  <div>
+                    <Button variant="ghost" size="sm" onClick={() => handleRegenerateSecret(webhook)}>
+                      Regenerate secret
+                    </Button>
+                  </div>
+
+                  {deliveries.length === 0 ? (
+                    <span className="mcp-form-hint">No deliveries yet</span>
+                  ) : (
+                    <ul className="webhook-deliveries">
+                      {deliveries.map((delivery) => (
+                        <li key={delivery.id} className={`webhook-delivery webhook-delivery-${delivery.status}`}>
+                          <span className="webhook-delivery-status">{DELIVERY_STATUS_LABELS[delivery.status]}</span>
+                          <span className="webhook-delivery-time">{new Date(delivery.receivedAt).toLocaleString()}</span>
+                          <span className="webhook-delivery-event">{delivery.event}</span>
+                          {delivery.message && <span className="webhook-delivery-message">{delivery.message}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hasWebhooks && !showAddForm && (
+        <Button variant="ghost" size="sm" onClick={() => setShowAddForm(true)} className="mcp-add-btn">
+          + Add Webhook
+        </Button>
+      )}
+
+      {showAddForm && (
+        <form className="mcp-add-form" onSubmit={handleSave}>
+          <div className="mcp-add-form-header">Add Webhook</div>
+          <div className="webhook-row">
+            <div className="mcp-form-field">
+              <label>Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Bug reports"
+                autoFocus
+              />
+            </div>
+            <div className="mcp-form-field">
+              <label>Source</label>
+              <select value={source} onChange={(e) => handleSourceChange(e.target.value as WebhookSource)}>
+                {(Object.keys(SOURCE_LABELS) as WebhookSource[]).map((s) => (
+                  <option key={s} value={s}>{SOURCE_LABELS[s]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {source === 'gmail' && (
+            <div className="mcp-form-field">
+              <label>Gmail query</label>
+              <input
+                type="text"
+                value={gmailQuery}
+                onChange={(e) => setGmailQuery(e.target.value)}
+                placeholder="is:unread"
+              />
+              <span className="mcp-form-hint">New messages matching this search become tasks. Uses the connected Google account.</span>
+            </div>
+          )}
+
+          <div className="mcp-form-field">
+            <label>Task title</label>
+            <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="mcp-form-field">
+            <label>Task description</label>
+            <textarea
+              className="webhook-template"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+            <span className="mcp-form-hint">
+              {'Use {{path}} for values from the event, e.g. {{event}} or {{payload.repository.full_name}}'}
+            </span>
+          </div>
+
+          <div className="mcp-form-field">
+            <label>Conditions</label>
+            {conditions.map((condition, index) => (
+              <div key={index} className="webhook-condition">
+                <input
+                  type="text"
+                  value={condition.path}
+                  onChange={(e) => updateCondition(index, { path: e.target.value })}
+                  placeholder="payload.action"
+                />
+                <select
+                  value={condition.op}
+                  onChange={(e) => updateCondition(index, { op: e.target.value as WebhookConditionOp })}
+                >
+                  {(Object.keys(OP_LABELS) as WebhookConditionOp[]).map((op) => (
+                    <option key={op} value={op}>{OP_LABELS[op]}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={condition.value ?? ''}
+                  onChange={(e) => updateCondition(index, { value: e.target.value })}
+                  placeholder="opened"
+                  disabled={condition.op === 'exists'}
+                />
+                <button
+                  type="button"
+                  className="mcp-item-delete"
+                  onClick={() => setConditions((prev) => prev.filter((_, i) => i !== index))}
+                  title="Remove"
+                >
+                  &times;
+                </button>
+              </div>
+            ))}
+            <div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setConditions((prev) => [...prev, { path: '', op: 'equals', value: '' }])}
+              >
+                + Add condition
+              </Button>
+            </div>
+            <span className="mcp-form-hint">Every condition must hold; without any, every event creates a task</span>
+          </div>
+
+          <div className="webhook-row">
+            <div className="mcp-form-field">
+              <label>Column</label>
+              <select value={columnId} onChange={(e) => setColumnId(e.target.value)}>
+                <option value="">First column</option>
+                {sortedColumns.map((column) => (
+                  <option key={column.id} value={column.id}>{column.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="mcp-form-field">
+              <label>Agent</label>
+              <select value={agentId} onChange={(e) => setAgentId(e.target.value)}>
+                <option value="">Default Agent</option>
+                {agents.map((agent) => (
+                  <option key={agent.id} value={agent.id}>{agent.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label className="webhook-enabled">
+            <input type="checkbox" checked={autoStart} onChange={(e) => setAutoStart(e.target.checked)} />
+            Start the agent as soon as the task is created
+          </label>
+
+          <div className="mcp-add-form-actions">
+            <Button type="button" variant="ghost" size="sm" onClick={resetForm} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" size="sm" disabled={saving || !name.trim() || !title.trim()}>
+              {saving ? 'Saving...' : 'Add Webhook'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </>
+  );
+}
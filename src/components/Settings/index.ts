@@ -2,3 +2,5 @@ export { BoardSettings } from './BoardSettings';
 export { UserSettings } from './UserSettings';
 export { GlobalMCPSection } from './GlobalMCPSection';
 export { GlobalAccountsSection } from './GlobalAccountsSection';
+export { ToolPoliciesSection } from './ToolPoliciesSection';
+export { BudgetSection } from './BudgetSection';
@@ -3,9 +3,12 @@
  *
  * Shows a polished section for starting the AI agent with
  * visual indication of available/connected tools and agent selection.
+ * While the task waits on unfinished dependencies, Run queues the task
+ * to start when they complete instead.
+ * AgentMessageInput lets the user message the agent while it runs.
  */
 
-import { useState, useEffect, useMemo, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef, type ComponentProps, type KeyboardEvent } from 'react';
 import { Button, AgentIcon, McpIcon } from '../common';
 import type { MCPServer, Agent } from '../../types';
 import * as api from '../../api/client';
@@ -16,6 +19,17 @@ interface AgentSectionProps {
   onRun: (agentId?: string) => void;
   disabled?: boolean;
   isRunning?: boolean;
+  /** Titles of unfinished tasks this task depends on */
+  blockedBy?: string[];
+  /** The task is queued to start when its dependencies complete */
+  queued?: boolean;
+  onCancelQueued?: () => void;
+}
+
+interface AgentMessageInputProps {
+  /** Resolves to whether the message was queued */
+  onSend: (content: string, interrupt: boolean) => Promise<boolean>;
+  disabled?: boolean;
 }
 
 // Playful sentences about available tools - randomly selected on mount
@@ -29,11 +43,13 @@ const PLAYFUL_SENTENCES = [
 ];
 
 // Map MCP server names to icon types
-function getIconType(name: string): 'gmail' | 'google-docs' | 'google-sheets' | 'github' | 'sandbox' | 'claude-code' | 'exa' | 'generic' {
+function getIconType(name: string): ComponentProps<typeof McpIcon>['type'] {
   const lower = name.toLowerCase();
   if (lower === 'gmail') return 'gmail';
   if (lower === 'google docs' || lower === 'google-docs') return 'google-docs';
   if (lower === 'google sheets' || lower === 'google-sheets') return 'google-sheets';
+  if (lower === 'google calendar' || lower === 'google-calendar') return 'google-calendar';
+  if (lower === 'google drive' || lower === 'google-drive') return 'google-drive';
   if (lower === 'github') return 'github';
   if (lower === 'claude code' || lower === 'claude-code') return 'claude-code';
   if (lower === 'sandbox') return 'sandbox';
@@ -48,7 +64,15 @@ const BUILTIN_TOOLS = [
   { id: 'exa', name: 'Exa Search' },
 ];
 
-export function AgentSection({ projectId, onRun, disabled, isRunning }: AgentSectionProps) {
+export function AgentSection({
+  projectId,
+  onRun,
+  disabled,
+  isRunning,
+  blockedBy = [],
+  queued,
+  onCancelQueued,
+}: AgentSectionProps) {
   const [mcpServers, setMcpServers] = useState<MCPServer[]>([]);
   const [globalMcpServers, setGlobalMcpServers] = useState<MCPServer[]>([]);
   const [agents, setAgents] = useState<Agent[]>([]);
@@ -140,28 +164,42 @@ export function AgentSection({ projectId, onRun, disabled, isRunning }: AgentSec
     onRun(selectedAgentId);
   };
 
+  const isBlocked = blockedBy.length > 0;
+
   return (
     <div className="agent-section">
+      {isBlocked && (
+        <div className="agent-blocked">
+          Waiting on {blockedBy.join(', ')}
+          {queued && <span className="agent-blocked-queued"> · starts automatically when done</span>}
+        </div>
+      )}
       <div className="agent-section-content">
         <div className="agent-run-area">
-          <Button
-            variant="agent"
-            onClick={handleRun}
-            disabled={disabled || isRunning}
-            className="agent-run-button"
-          >
-            {isRunning ? (
-              <>
-                <span className="agent-spinner" />
-                Starting...
-              </>
-            ) : (
-              <>
-                <AgentIcon size={16} />
-                Run Agent
-              </>
-            )}
-          </Button>
+          {isBlocked && queued ? (
+            <Button variant="ghost" onClick={onCancelQueued} className="agent-run-button">
+              Cancel Auto-Start
+            </Button>
+          ) : (
+            <Button
+              variant="agent"
+              onClick={handleRun}
+              disabled={disabled || isRunning}
+              className="agent-run-button"
+            >
+              {isRunning ? (
+                <>
+                  <span className="agent-spinner" />
+                  Starting...
+                </>
+              ) : (
+                <>
+                  <AgentIcon size={16} />
+                  {isBlocked ? 'Start When Ready' : 'Run Agent'}
+                </>
+              )}
+            </Button>
+          )}
 
           {/* Agent selector - only show if there are custom agents */}
           {agents.length > 0 && (
@@ -271,3 +309,73 @@ export function AgentSection({ projectId, onRun, disabled, isRunning }: AgentSec
     </div>
   );
 }
+
+/**
+ * Chat input for a running agent. Messages are read at the end of the
+ * agent's current turn; "Interrupt" also skips the tool calls it hasn't
+ * started yet.
+ */
+export function AgentMessageInput({ onSend, disabled }: AgentMessageInputProps) {
+  const [content, setContent] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sentNote, setSentNote] = useState<string | null>(null);
+
+  const send = async (interrupt: boolean) => {
+    const text = content.trim();
+    if (!text || isSending) return;
+
+    setIsSending(true);
+    const sent = await onSend(text, interrupt);
+    setIsSending(false);
+    if (sent) {
+      setContent('');
+      setSentNote(interrupt
+        ? 'Sent. The agent will stop its remaining tool calls and read it.'
+        : 'Sent. The agent will read it after its current step.');
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      send(false);
+    }
+  };
+
+  return (
+    <div className="agent-message-input">
+      <textarea
+        className="agent-message-text"
+        value={content}
+        onChange={(e) => {
+          setContent(e.target.value);
+          setSentNote(null);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder="Message the agent, e.g. &quot;also CC Sari&quot;..."
+        rows={2}
+        disabled={disabled || isSending}
+      />
+      <div className="agent-message-actions">
+        {sentNote && <span className="agent-message-note">{sentNote}</span>}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => send(true)}
+          disabled={disabled || isSending || !content.trim()}
+          title="Send and skip the tool calls the agent hasn't started yet"
+        >
+          Interrupt
+        </Button>
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={() => send(false)}
+          disabled={disabled || isSending || !content.trim()}
+        >
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * DependencyEditor - Tasks that must complete before this one runs
+ *
+ * Edits context.dependsOn. Tasks that already depend on this one aren't
+ * offered, so the list can't form a cycle.
+ */
+
+import { useState } from 'react';
+import type { Task } from '../../types';
+import { useProject } from '../../context/ProjectContext';
+import { dependencyIds, getDependentTaskIds } from '../../utils/dependencies';
+import './DependencyEditor.css';
+
+interface DependencyEditorProps {
+  task: Task;
+}
+
+export function DependencyEditor({ task }: DependencyEditorProps) {
+  const { activeProject, updateTask, getBlockingTasks } = useProject();
+  const [saving, setSaving] = useState(false);
+
+  const tasks = activeProject?.tasks ?? [];
+  const selectedIds = dependencyIds(task);
+  const selected = tasks.filter((t) => selectedIds.includes(t.id));
+  const blockingIds = new Set(getBlockingTasks(task).map((t) => t.id));
+  const dependents = getDependentTaskIds(task.id, tasks);
+  const candidates = tasks.filter(
+    (t) => t.id !== task.id && !selectedIds.includes(t.id) && !dependents.has(t.id)
+  );
+
+  const saveDependencies = async (dependsOn: string[]) => {
+    setSaving(true);
+    await updateTask(task.id, { context: { ...task.context, dependsOn } });
+    setSaving(false);
+  };
+
+  return (
+    <div className="dependency-editor">
+      <span className="dependency-title">Depends on</span>
+      <div className="dependency-list">
+        {selected.length === 0 && (
+          <span className="dependency-empty">No dependencies</span>
+        )}
+        {selected.map((dep) => (
+          <span
+            key={dep.id}
+            className={`dependency-chip ${blockingIds.has(dep.id) ? 'waiting' : 'done'}`}
+            title={blockingIds.has(dep.id) ? 'Not completed yet' : 'Completed'}
+          >
+            {blockingIds.has(dep.id) ? '○' : '✓'} {dep.title}
+            <button
+              type="button"
+              className="dependency-remove"
+              onClick={() => saveDependencies(selectedIds.filter((id) => id !== dep.id))}
+              disabled={saving}
+              aria-label={`Remove dependency on ${dep.title}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {candidates.length > 0 && (
+          <select
+            className="dependency-add"
+            value=""
+            onChange={(e) => e.target.value && saveDependencies([...selectedIds, e.target.value])}
+            disabled={saving}
+          >
+            <option value="">+ Add</option>
+            {candidates.map((t) => (
+              <option key={t.id} value={t.id}>{t.title}</option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+}
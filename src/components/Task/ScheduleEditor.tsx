@@ -0,0 +1,309 @@
+/**
+ * ScheduleEditor - Recurring agent runs for a task
+ *
+ * Edits a task's schedule as a simple repeat rule or a cron expression,
+ * and lists the history of scheduled runs (started, skipped or failed).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '../common';
+import type { Agent, ScheduleRepeatFrequency, ScheduleRun, TaskSchedule, TaskScheduleInput } from '../../types';
+import { useProject } from '../../context/ProjectContext';
+import { describeSchedule, formatNextRun, localTimezone, WEEKDAY_NAMES } from '../../utils/schedule';
+import * as api from '../../api/client';
+import './ScheduleEditor.css';
+
+const FREQUENCIES: Array<{ value: ScheduleRepeatFrequency; label: string }> = [
+  { value: 'hourly', label: 'Every hour' },
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekdays', label: 'Every weekday' },
+  { value: 'weekly', label: 'Every week' },
+  { value: 'monthly', label: 'Every month' },
+];
+
+const RUN_STATUS_LABELS: Record<ScheduleRun['status'], string> = {
+  started: 'Started',
+  skipped: 'Skipped',
+  failed: 'Failed',
+};
+
+interface ScheduleEditorProps {
+  projectId: string;
+  taskId: string;
+}
+
+interface ScheduleForm {
+  mode: 'repeat' | 'cron';
+  frequency: ScheduleRepeatFrequency;
+  time: string;
+  daysOfWeek: number[];
+  dayOfMonth: string;
+  cron: string;
+  timezone: string;
+  agentId: string;
+  enabled: boolean;
+}
+
+function formFromSchedule(schedule: TaskSchedule | null): ScheduleForm {
+  return {
+    mode: schedule && !schedule.repeat ? 'cron' : 'repeat',
+    frequency: schedule?.repeat?.frequency ?? 'weekly',
+    time: schedule?.repeat?.time ?? '09:00',
+    daysOfWeek: schedule?.repeat?.daysOfWeek ?? [1],
+    dayOfMonth: String(schedule?.repeat?.dayOfMonth ?? 1),
+    cron: schedule?.cron ?? '0 9 * * 1',
+    timezone: schedule?.timezone ?? localTimezone(),
+    agentId: schedule?.agentId ?? '',
+    enabled: schedule?.enabled ?? true,
+  };
+}
+
+export function ScheduleEditor({ projectId, taskId }: ScheduleEditorProps) {
+  const { getTaskSchedule, updateTaskSchedule, removeTaskSchedule } = useProject();
+  const schedule = getTaskSchedule(taskId);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<ScheduleForm>(() => formFromSchedule(schedule));
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRuns = useCallback(async () => {
+    const result = await api.getScheduleRuns(projectId, taskId);
+    if (result.success && result.data) {
+      setRuns(result.data);
+    }
+  }, [projectId, taskId]);
+
+  // Refresh the history whenever the schedule advances
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns, schedule?.lastRunAt]);
+
+  useEffect(() => {
+    if (!isEditing) return;
+    api.getAgents(projectId).then((result) => {
+      if (result.success && result.data) {
+        setAgents(result.data.filter((a) => a.enabled));
+      }
+    });
+  }, [isEditing, projectId]);
+
+  const updateForm = (changes: Partial<ScheduleForm>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+  };
+
+  const toggleDay = (day: number) => {
+    updateForm({
+      daysOfWeek: form.daysOfWeek.includes(day)
+        ? form.daysOfWeek.filter((d) => d !== day)
+        : [...form.daysOfWeek, day].sort((a, b) => a - b),
+    });
+  };
+
+  const buildInput = (): TaskScheduleInput => ({
+    cron: form.mode === 'cron' ? form.cron : null,
+    repeat: form.mode === 'repeat'
+      ? {
+          frequency: form.frequency,
+          time: form.time,
+          ...(form.frequency === 'weekly' && { daysOfWeek: form.daysOfWeek }),
+          ...(form.frequency === 'monthly' && { dayOfMonth: Number(form.dayOfMonth) }),
+        }
+      : null,
+    timezone: form.timezone.trim(),
+    agentId: form.agentId || null,
+    enabled: form.enabled,
+  });
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    const result = await api.setTaskSchedule(projectId, taskId, buildInput());
+    setSaving(false);
+    if (result.success && result.data) {
+      updateTaskSchedule(result.data);
+      setIsEditing(false);
+    } else {
+      setError(result.error?.message || 'Failed to save schedule');
+    }
+  };
+
+  const handleRemove = async () => {
+    setSaving(true);
+    setError(null);
+    const result = await api.deleteTaskSchedule(projectId, taskId);
+    setSaving(false);
+    if (result.success) {
+      removeTaskSchedule(taskId);
+      setForm(formFromSchedule(null));
+      setIsEditing(false);
+    } else {
+      setError(result.error?.message || 'Failed to remove schedule');
+    }
+  };
+
+  return (
+    <div className="schedule-editor">
+      <div className="schedule-header">
+        <span className="schedule-title">Schedule</span>
+        {schedule ? (
+          <span className="schedule-summary">
+            {describeSchedule(schedule)}
+            {schedule.enabled && schedule.nextRunAt
+              ? ` · next run ${formatNextRun(schedule.nextRunAt)}`
+              : ' · paused'}
+          </span>
+        ) : (
+          <span className="schedule-summary">Runs only when started manually</span>
+        )}
+        {!isEditing && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setForm(formFromSchedule(schedule));
+              setIsEditing(true);
+            }}
+          >
+            {schedule ? 'Edit' : 'Add schedule'}
+          </Button>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="schedule-form">
+          <div className="schedule-mode">
+            <label>
+              <input
+                type="radio"
+                checked={form.mode === 'repeat'}
+                onChange={() => updateForm({ mode: 'repeat' })}
+              />
+              Repeat
+            </label>
+            <label>
+              <input
+                type="radio"
+                checked={form.mode === 'cron'}
+                onChange={() => updateForm({ mode: 'cron' })}
+              />
+              Cron
+            </label>
+          </div>
+
+          {form.mode === 'repeat' ? (
+            <div className="schedule-row">
+              <select
+                value={form.frequency}
+                onChange={(e) => updateForm({ frequency: e.target.value as ScheduleRepeatFrequency })}
+              >
+                {FREQUENCIES.map((f) => (
+                  <option key={f.value} value={f.value}>{f.label}</option>
+                ))}
+              </select>
+              {form.frequency === 'monthly' && (
+                <label className="schedule-inline">
+                  on day
+                  <input
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={form.dayOfMonth}
+                    onChange={(e) => updateForm({ dayOfMonth: e.target.value })}
+                  />
+                </label>
+              )}
+              <label className="schedule-inline">
+                at
+                <input
+                  type="time"
+                  value={form.time}
+                  onChange={(e) => updateForm({ time: e.target.value })}
+                />
+              </label>
+            </div>
+          ) : (
+            <input
+              className="schedule-cron"
+              value={form.cron}
+              onChange={(e) => updateForm({ cron: e.target.value })}
+              placeholder="minute hour day-of-month month day-of-week"
+            />
+          )}
+
+          {form.mode === 'repeat' && form.frequency === 'weekly' && (
+            <div className="schedule-days">
+              {WEEKDAY_NAMES.map((name, day) => (
+                <button
+                  key={name}
+                  type="button"
+                  className={`schedule-day ${form.daysOfWeek.includes(day) ? 'selected' : ''}`}
+                  onClick={() => toggleDay(day)}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="schedule-row">
+            <label className="schedule-inline">
+              Timezone
+              <input
+                value={form.timezone}
+                onChange={(e) => updateForm({ timezone: e.target.value })}
+                placeholder="Europe/Berlin"
+              />
+            </label>
+            {agents.length > 0 && (
+              <select value={form.agentId} onChange={(e) => updateForm({ agentId: e.target.value })}>
+                <option value="">Default Agent</option>
+                {agents.map((agent) => (
+                  <option key={agent.id} value={agent.id}>{agent.name}</option>
+                ))}
+              </select>
+            )}
+            <label className="schedule-inline">
+              <input
+                type="checkbox"
+                checked={form.enabled}
+                onChange={(e) => updateForm({ enabled: e.target.checked })}
+              />
+              Enabled
+            </label>
+          </div>
+
+          {error && <div className="schedule-error">{error}</div>}
+
+          <div className="schedule-actions">
+            {schedule && (
+              <Button variant="danger" size="sm" onClick={handleRemove} disabled={saving}>
+                Remove
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="primary" size="sm" onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Schedule'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {runs.length > 0 && (
+        <ul className="schedule-runs">
+          {runs.slice(0, 5).map((run) => (
+            <li key={run.id} className={`schedule-run schedule-run-${run.status}`}>
+              <span className="schedule-run-status">{RUN_STATUS_LABELS[run.status]}</span>
+              <span className="schedule-run-time">{new Date(run.scheduledFor).toLocaleString()}</span>
+              {run.message && <span className="schedule-run-message">{run.message}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
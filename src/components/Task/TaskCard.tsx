@@ -3,6 +3,7 @@ import type { Task } from '../../types';
 import { useProject } from '../../context/ProjectContext';
 import { TaskModal } from './TaskModal';
 import { WorkflowBadge } from '../Workflow';
+import { describeSchedule, formatNextRun } from '../../utils/schedule';
 import './TaskCard.css';
 
 /** Strip markdown syntax (pills and links) to plain text for card preview */
@@ -26,7 +27,7 @@ interface ContextMenuState {
 }
 
 export function TaskCard({ task }: TaskCardProps) {
-  const { setDragState, moveTask, getTasksByColumn, deleteTask, activeProject, getTaskWorkflowPlan } = useProject();
+  const { setDragState, moveTask, getTasksByColumn, deleteTask, activeProject, getTaskWorkflowPlan, getTaskSchedule, getBlockingTasks } = useProject();
   const [isDragging, setIsDragging] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [contextMenu, setContextMenu] = useState<ContextMenuState>({ isOpen: false, x: 0, y: 0 });
@@ -34,6 +35,8 @@ export function TaskCard({ task }: TaskCardProps) {
 
   // Get workflow from context (single source of truth)
   const workflowPlan = getTaskWorkflowPlan(task.id);
+  const schedule = getTaskSchedule(task.id);
+  const blockingTasks = getBlockingTasks(task);
 
   // Listen for open-task events from header executions dropdown
   useEffect(() => {
@@ -156,6 +159,19 @@ export function TaskCard({ task }: TaskCardProps) {
         {task.description && (
           <span className="task-description">{stripMarkdownToText(task.description)}</span>
         )}
+        {blockingTasks.length > 0 && (
+          <span
+            className={`task-blocked-badge ${task.queuedStart ? 'queued' : ''}`}
+            title={`Waiting on: ${blockingTasks.map((t) => t.title).join(', ')}`}
+          >
+            {task.queuedStart ? '⏳ Starts after' : '⛔ Blocked by'} {blockingTasks.length} task{blockingTasks.length === 1 ? '' : 's'}
+          </span>
+        )}
+        {schedule?.enabled && schedule.nextRunAt && (
+          <span className="task-schedule-badge" title={describeSchedule(schedule)}>
+            ⏱ Next run {formatNextRun(schedule.nextRunAt)}
+          </span>
+        )}
       </div>
 
       {contextMenu.isOpen && (
@@ -1,15 +1,18 @@
 import { useState, useEffect, useCallback, useRef, type ClipboardEvent } from 'react';
-import type { Task, WorkflowPlan, WorkflowArtifact } from '../../types';
+import type { Task, WorkflowPlan, WorkflowArtifact, WorkflowBranchMode, WorkflowBranchOptions } from '../../types';
 import { useProject } from '../../context/ProjectContext';
 import { Modal, Button, Input, RichTextEditor } from '../common';
-import { PlanReviewView, WorkflowProgress, EmailViewer } from '../Workflow';
+import { PlanReviewView, WorkflowProgress, EmailViewer, SandboxFileBrowser } from '../Workflow';
 import { getApprovalView } from '../Approval';
-import { AgentSection } from './AgentSection';
+import { AgentSection, AgentMessageInput } from './AgentSection';
+import { ScheduleEditor } from './ScheduleEditor';
+import { DependencyEditor } from './DependencyEditor';
 import { useUrlDetection, extractUrl } from '../../hooks';
 import * as api from '../../api/client';
+import { canMessageAgent } from '../../utils/workflow';
 import './TaskModal.css';
 
-type TaskModalView = 'main' | 'plan-review' | 'checkpoint-review' | 'email-view';
+type TaskModalView = 'main' | 'plan-review' | 'checkpoint-review' | 'email-view' | 'files';
 
 interface TaskModalProps {
   task: Task;
@@ -21,8 +24,11 @@ export function TaskModal({ task, isOpen, onClose }: TaskModalProps) {
   const {
     activeProject,
     updateTask,
+    applyTaskUpdate,
     deleteTask,
+    getBlockingTasks,
     getWorkflowPlan: getWorkflowPlanFromContext,
+    getTaskWorkflowPlan: getTaskWorkflowPlanFromContext,
     updateWorkflowPlan: updateWorkflowPlanInContext,
     removeWorkflowPlan: removeWorkflowPlanFromContext,
   } = useProject();
@@ -45,6 +51,7 @@ export function TaskModal({ task, isOpen, onClose }: TaskModalProps) {
   const [pastedUrlEndIndex, setPastedUrlEndIndex] = useState<number | null>(null);
 
   const wasOpenRef = useRef(false);
+  const blockingTasks = getBlockingTasks(task);
 
   useEffect(() => {
     if (isOpen) {
@@ -91,6 +98,14 @@ export function TaskModal({ task, isOpen, onClose }: TaskModalProps) {
     }
   }, [workflowPlan?.id, workflowPlan?.updatedAt, getWorkflowPlanFromContext]);
 
+  // Pick up runs that started while the modal was open (queued tasks whose dependencies completed)
+  const contextTaskPlan = getTaskWorkflowPlanFromContext(task.id);
+  useEffect(() => {
+    if (isOpen && !workflowPlan && contextTaskPlan?.status === 'executing') {
+      setWorkflowPlan(contextTaskPlan);
+    }
+  }, [isOpen, workflowPlan, contextTaskPlan]);
+
   const getModalTitle = () => {
     switch (currentView) {
       case 'plan-review':
@@ -99,12 +114,15 @@ export function TaskModal({ task, isOpen, onClose }: TaskModalProps) {
         return 'Approval Required';
       case 'email-view':
         return selectedEmailArtifact?.title || 'Sent Email';
+      case 'files':
+        return 'Sandbox Files';
       default:
         return 'Edit Task';
     }
   };
 
-  const showBackButton = currentView === 'plan-review' || currentView === 'checkpoint-review' || currentView === 'email-view';
+  const showBackButton = currentView === 'plan-review' || currentView === 'checkpoint-review' ||
+    currentView === 'email-view' || currentView === 'files';
 
   const handleBack = () => {
     setCurrentView('main');
@@ -197,6 +215,24 @@ export function TaskModal({ task, isOpen, onClose }: TaskModalProps) {
 
     if (!activeProject) return;
 
+    // Blocked tasks are queued, and start as soon as their dependencies complete
+    if (blockingTasks.length > 0) {
+      const queued = await api.startTaskWhenReady(activeProject.id, task.id, agentId);
+      const data = queued.data;
+      if (!queued.success || !data) {
+        setWorkflowError(queued.error?.message || 'Failed to queue agent');
+        setIsGeneratingPlan(false);
+      } else if ('taskId' in data) {
+        // The dependencies completed in the meantime, so the agent started
+        setWorkflowPlan(data);
+        updateWorkflowPlanInContext(data);
+      } else {
+        applyTaskUpdate(data);
+        setIsGeneratingPlan(false);
+      }
+      return;
+    }
+
     const result = await api.generateWorkflowPlan(activeProject.id, task.id, agentId);
 
     if (result.success && result.data) {
@@ -208,6 +244,16 @@ export function TaskModal({ task, isOpen, onClose }: TaskModalProps) {
     }
   };
 
+  const handleCancelQueuedStart = async () => {
+    if (!activeProject) return;
+    const result = await api.cancelTaskStartWhenReady(activeProject.id, task.id);
+    if (result.success && result.data) {
+      applyTaskUpdate(result.data);
+    } else {
+      setWorkflowError(result.error?.message || 'Failed to cancel auto-start');
+    }
+  };
+
   const handleApprovePlan = async () => {
     if (!workflowPlan || !activeProject) return;
 
@@ -239,6 +285,30 @@ export function TaskModal({ task, isOpen, onClose }: TaskModalProps) {
     }
   };
 
+  const handleBranchWorkflow = async (mode: WorkflowBranchMode, options: WorkflowBranchOptions) => {
+    if (!workflowPlan || !activeProject) return;
+    setIsGeneratingPlan(true);
+    setWorkflowError(null);
+    const result = await api.branchWorkflow(activeProject.id, workflowPlan.id, mode, options);
+    if (result.success && result.data) {
+      setWorkflowPlan(result.data);
+      updateWorkflowPlanInContext(result.data);
+    } else {
+      setWorkflowError(result.error?.message || `Failed to ${mode} agent run`);
+      setIsGeneratingPlan(false);
+    }
+  };
+
+  const handleSendMessage = async (content: string, interrupt: boolean) => {
+    if (!workflowPlan || !activeProject) return false;
+    setWorkflowError(null);
+    const result = await api.sendWorkflowMessage(activeProject.id, workflowPlan.id, content, interrupt);
+    if (!result.success) {
+      setWorkflowError(result.error?.message || 'Failed to send message');
+    }
+    return result.success;
+  };
+
   const handleApproveCheckpoint = async (responseData?: Record<string, unknown>) => {
     if (!workflowPlan || !activeProject) return;
     setIsRespondingToCheckpoint(true);
@@ -311,6 +381,7 @@ export function TaskModal({ task, isOpen, onClose }: TaskModalProps) {
         tool?: string;
         action?: string;
         data?: Record<string, unknown>;
+        previews?: WorkflowArtifact[];
       } | undefined;
 
       const toolName = checkpointData?.tool || '';
@@ -339,6 +410,7 @@ export function TaskModal({ task, isOpen, onClose }: TaskModalProps) {
           onRequestChanges={handleRequestChanges}
           onCancel={handleCancelCheckpoint}
           isLoading={isRespondingToCheckpoint}
+          previews={checkpointData?.previews}
         />
       );
     }
@@ -348,6 +420,11 @@ export function TaskModal({ task, isOpen, onClose }: TaskModalProps) {
       return <EmailViewer content={selectedEmailArtifact.content} />;
     }
 
+    // Sandbox file browser (from the workflow progress)
+    if (currentView === 'files' && workflowPlan) {
+      return <SandboxFileBrowser plan={workflowPlan} />;
+    }
+
     // Main view (default)
     return (
       <>
@@ -376,6 +453,8 @@ export function TaskModal({ task, isOpen, onClose }: TaskModalProps) {
 
         {/* Agent Section */}
         <div className="task-modal-agent">
+          <DependencyEditor task={task} />
+
           {workflowError && (
             <div className="task-modal-error">{workflowError}</div>
           )}
@@ -387,16 +466,25 @@ export function TaskModal({ task, isOpen, onClose }: TaskModalProps) {
                 const contextPlan = getWorkflowPlanFromContext(workflowPlan.id);
                 const plan = contextPlan || workflowPlan;
                 return (
-                  <WorkflowProgress
-                    plan={plan}
-                    onCancel={handleCancelWorkflow}
-                    onDismiss={handleDismissWorkflow}
-                    onReviewCheckpoint={() => setCurrentView('checkpoint-review')}
-                    onViewEmail={(artifact) => {
-                      setSelectedEmailArtifact(artifact);
-                      setCurrentView('email-view');
-                    }}
-                  />
+                  <>
+                    <WorkflowProgress
+                      plan={plan}
+                      onCancel={handleCancelWorkflow}
+                      onDismiss={handleDismissWorkflow}
+                      onReviewCheckpoint={() => setCurrentView('checkpoint-review')}
+                      onResolveBudget={(budget) => (budget ? handleApproveCheckpoint({ budget }) : handleCancelCheckpoint())}
+                      onRetry={(fromTurn) => handleBranchWorkflow('retry', { fromTurn })}
+                      onFork={(instructions, fromTurn) => handleBranchWorkflow('fork', { instructions, fromTurn })}
+                      onViewEmail={(artifact) => {
+                        setSelectedEmailArtifact(artifact);
+                        setCurrentView('email-view');
+                      }}
+                      onBrowseFiles={() => setCurrentView('files')}
+                    />
+                    {canMessageAgent(plan) && (
+                      <AgentMessageInput onSend={handleSendMessage} />
+                    )}
+                  </>
                 );
               })()}
             </div>
@@ -406,8 +494,15 @@ export function TaskModal({ task, isOpen, onClose }: TaskModalProps) {
               onRun={handleStartAgent}
               disabled={!description.trim()}
               isRunning={isGeneratingPlan}
+              blockedBy={blockingTasks.map((t) => t.title)}
+              queued={!!task.queuedStart}
+              onCancelQueued={handleCancelQueuedStart}
             />
           )}
+
+          {activeProject && (
+            <ScheduleEditor projectId={activeProject.id} taskId={task.id} />
+          )}
         </div>
 
         <div className="task-modal-footer">
@@ -447,15 +542,41 @@ export function TaskModal({ task, isOpen, onClose }: TaskModalProps) {
   // Use full width for approval views with rich content (PR diffs, Google Docs, Sheets, Emails)
   const FULL_WIDTH_TOOLS = [
     'GitHub__create_pr',
+    'GitHub__create_review',
+    'GitHub__commit_file',
     'Google_Docs__createDocument',
     'Google_Docs__appendToDocument',
     'Google_Docs__replaceDocumentContent',
+    'Google_Docs__replaceText',
+    'Google_Docs__insertAfterHeading',
+    'Google_Docs__updateSection',
+    'Google_Docs__addComment',
+    'Google_Docs__suggestEdit',
     'Google_Sheets__createSpreadsheet',
     'Google_Sheets__appendRows',
     'Google_Sheets__updateCells',
     'Google_Sheets__replaceSheetContent',
+    'Google_Sheets__writeFormulas',
+    'Google_Sheets__addSheet',
+    'Google_Sheets__renameSheet',
+    'Google_Sheets__deleteSheet',
+    'Google_Sheets__formatCells',
+    'Google_Sheets__freezeRows',
+    'Google_Sheets__addChart',
+    'Google_Sheets__addPivotTable',
+    'Google_Calendar__createEvent',
+    'Google_Calendar__updateEvent',
+    'Google_Calendar__respondToEvent',
     'Gmail__sendEmail',
+    'Gmail__replyToMessage',
+    'Gmail__replyAllToMessage',
+    'Gmail__forwardMessage',
     'Gmail__createDraft',
+    'Gmail__updateDraft',
+    'Gmail__modifyLabels',
+    'Gmail__archiveMessages',
+    'Gmail__markAsRead',
+    'Gmail__starMessages',
   ];
   const checkpointTool = (workflowPlan?.checkpointData as { tool?: string } | undefined)?.tool;
   const needsFullWidth = currentView === 'checkpoint-review' &&
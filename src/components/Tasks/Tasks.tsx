@@ -1,16 +1,17 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { Button, Modal, Input, RichTextEditor, AgentIcon } from '../common';
-import { AgentSection } from '../Task/AgentSection';
-import { WorkflowProgress } from '../Workflow';
+import { AgentSection, AgentMessageInput } from '../Task/AgentSection';
+import { WorkflowProgress, SandboxFileBrowser } from '../Workflow';
 import { getApprovalView } from '../Approval';
 import { useTaskWorkflow } from '../../hooks/useTaskWorkflow';
 import { useToast } from '../../context/ToastContext';
 import type { Task, TaskPriority, WorkflowArtifact } from '../../types';
 import * as api from '../../api/client';
+import { canMessageAgent } from '../../utils/workflow';
 import './Tasks.css';
 
-type TaskModalView = 'main' | 'checkpoint-review' | 'email-view';
+type TaskModalView = 'main' | 'checkpoint-review' | 'email-view' | 'files';
 type ModalMode = 'create' | 'edit';
 
 export function Tasks() {
@@ -75,6 +76,34 @@ export function Tasks() {
     loadTasks();
   }, []);
 
+  const { clearError: clearWorkflowError } = workflow;
+  const openEditModal = useCallback((task: Task) => {
+    setEditingTask({ ...task });
+    setTaskTitle(task.title);
+    setTaskDescription(task.description || '');
+    setTaskPriority(task.priority);
+    setModalMode('edit');
+    setShowModal(true);
+    setMenuOpenId(null);
+    setCurrentView('main');
+    setConfirmingDelete(false);
+    setSelectedEmailArtifact(null);
+    clearWorkflowError();
+  }, [clearWorkflowError]);
+
+  // Open the task linked from a notification (?task=<id>) once tasks load
+  useEffect(() => {
+    const linkedTaskId = searchParams.get('task');
+    if (!linkedTaskId || loading) return;
+
+    const task = tasks.find((t) => t.id === linkedTaskId);
+    if (task) {
+      openEditModal(task);
+    }
+    searchParams.delete('task');
+    setSearchParams(searchParams, { replace: true });
+  }, [searchParams, setSearchParams, loading, tasks, openEditModal]);
+
   // Close menu when clicking outside
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -120,20 +149,6 @@ export function Tasks() {
     workflow.clearError();
   };
 
-  const openEditModal = (task: Task) => {
-    setEditingTask({ ...task });
-    setTaskTitle(task.title);
-    setTaskDescription(task.description || '');
-    setTaskPriority(task.priority);
-    setModalMode('edit');
-    setShowModal(true);
-    setMenuOpenId(null);
-    setCurrentView('main');
-    setConfirmingDelete(false);
-    setSelectedEmailArtifact(null);
-    workflow.clearError();
-  };
-
   const closeModal = () => {
     setShowModal(false);
     resetForm();
@@ -249,10 +264,11 @@ export function Tasks() {
   const getModalTitle = () => {
     if (currentView === 'checkpoint-review') return 'Approval Required';
     if (currentView === 'email-view') return selectedEmailArtifact?.title || 'Sent Email';
+    if (currentView === 'files') return 'Sandbox Files';
     return modalMode === 'create' ? 'New Task' : 'Edit Task';
   };
 
-  const showBackButton = currentView === 'checkpoint-review' || currentView === 'email-view';
+  const showBackButton = currentView === 'checkpoint-review' || currentView === 'email-view' || currentView === 'files';
 
   const renderModalContent = () => {
     // Checkpoint Review
@@ -261,6 +277,7 @@ export function Tasks() {
         tool?: string;
         action?: string;
         data?: Record<string, unknown>;
+        previews?: WorkflowArtifact[];
       } | undefined;
 
       const toolName = checkpointData?.tool || '';
@@ -288,13 +305,14 @@ export function Tasks() {
           onRequestChanges={handleRequestChanges}
           onCancel={handleCancelCheckpoint}
           isLoading={workflow.isRespondingToCheckpoint}
+          previews={checkpointData?.previews}
         />
       );
     }
 
     // Email View
     if (currentView === 'email-view' && selectedEmailArtifact?.content) {
-      const { to, cc, bcc, subject, body, sentAt } = selectedEmailArtifact.content;
+      const { to, cc, bcc, subject, body, attachments, sentAt } = selectedEmailArtifact.content;
       return (
         <div className="email-viewer-content">
           {to && <div><strong>To:</strong> {to}</div>}
@@ -302,6 +320,9 @@ export function Tasks() {
           {bcc && <div><strong>BCC:</strong> {bcc}</div>}
           {subject && <div><strong>Subject:</strong> {subject}</div>}
           {sentAt && <div><strong>Sent:</strong> {new Date(sentAt).toLocaleString()}</div>}
+          {attachments && attachments.length > 0 && (
+            <div><strong>Attachments:</strong> {attachments.join(', ')}</div>
+          )}
           {body && (
             <pre style={{ whiteSpace: 'pre-wrap', fontFamily: 'inherit', marginTop: 'var(--spacing-md)' }}>
               {body}
@@ -311,6 +332,11 @@ export function Tasks() {
       );
     }
 
+    // Sandbox file browser
+    if (currentView === 'files' && workflow.workflowPlan) {
+      return <SandboxFileBrowser plan={workflow.workflowPlan} />;
+    }
+
     // Main view (create or edit)
     const isRunning = workflow.isGeneratingPlan;
     const hasWorkflow = modalMode === 'edit' && workflow.workflowPlan;
@@ -360,15 +386,23 @@ export function Tasks() {
                 onCancel={workflow.cancelWorkflow}
                 onDismiss={workflow.dismissWorkflow}
                 onReviewCheckpoint={() => setCurrentView('checkpoint-review')}
+                onResolveBudget={(budget) => (budget ? handleApproveCheckpoint({ budget }) : handleCancelCheckpoint())}
+                onRetry={workflow.retryWorkflow}
+                onFork={workflow.forkWorkflow}
                 onViewEmail={(artifact) => {
                   setSelectedEmailArtifact(artifact);
                   setCurrentView('email-view');
                 }}
+                onBrowseFiles={() => setCurrentView('files')}
                 customLogs={{
                   logs: workflow.workflowLogs,
                   fetchLogs: workflow.loadWorkflowPlan,
                 }}
+                customSandboxOutput={workflow.sandboxOutput}
               />
+              {canMessageAgent(workflow.workflowPlan!) && (
+                <AgentMessageInput onSend={workflow.sendMessage} />
+              )}
             </div>
           ) : (
             <AgentSection
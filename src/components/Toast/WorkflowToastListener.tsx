@@ -51,6 +51,12 @@ export function WorkflowToastListener() {
           message: `"${taskTitle}" needs approval`,
           taskId: plan.taskId,
         });
+      } else if (currentStatus === 'budget_exceeded') {
+        addToast({
+          type: 'warning',
+          message: `"${taskTitle}" reached its budget`,
+          taskId: plan.taskId,
+        });
       }
     }
 
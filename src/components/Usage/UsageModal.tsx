@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import { Modal } from '../common';
+import type { UserUsageSummary } from '../../types';
+import { formatCost, formatTokens } from '../../utils/usage';
+import * as api from '../../api/client';
+import './Usage.css';
+
+interface UsageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type UsageRange = '7d' | '30d' | 'all';
+
+const RANGE_LABELS: Record<UsageRange, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  all: 'All time',
+};
+
+const RANGE_DAYS: Record<UsageRange, number | null> = {
+  '7d': 7,
+  '30d': 30,
+  all: null,
+};
+
+interface UsageBar {
+  key: string;
+  label: string;
+  costUsd: number;
+  runs: number;
+  tokens: number;
+}
+
+function UsageChart({ title, bars }: { title: string; bars: UsageBar[] }) {
+  const maxCost = Math.max(...bars.map((b) => b.costUsd), 0);
+
+  return (
+    <section className="usage-chart">
+      <h4 className="usage-chart-title">{title}</h4>
+      {bars.length === 0 ? (
+        <div className="usage-empty">No runs in this period</div>
+      ) : (
+        <div className="usage-bars">
+          {bars.map((bar) => (
+            <div key={bar.key} className="usage-bar-row">
+              <span className="usage-bar-label" title={bar.label}>{bar.label}</span>
+              <div className="usage-bar-track">
+                <div
+                  className="usage-bar-fill"
+                  style={{ width: maxCost > 0 ? `${(bar.costUsd / maxCost) * 100}%` : '0%' }}
+                />
+              </div>
+              <span className="usage-bar-value">{formatCost(bar.costUsd)}</span>
+              <span className="usage-bar-meta">
+                {bar.runs} {bar.runs === 1 ? 'run' : 'runs'} · {formatTokens(bar.tokens)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+export function UsageModal({ isOpen, onClose }: UsageModalProps) {
+  const [range, setRange] = useState<UsageRange>('30d');
+  const [usage, setUsage] = useState<UserUsageSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const days = RANGE_DAYS[range];
+    const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined;
+
+    setLoading(true);
+    setError(null);
+    api.getUsage(since).then((result) => {
+      if (result.success && result.data) {
+        setUsage(result.data);
+      } else {
+        setError(result.error?.message || 'Failed to load usage');
+      }
+      setLoading(false);
+    });
+  }, [isOpen, range]);
+
+  const totalTokens = (u: { inputTokens: number; outputTokens: number; cacheCreationTokens: number; cacheReadTokens: number }) =>
+    u.inputTokens + u.outputTokens + u.cacheCreationTokens + u.cacheReadTokens;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Usage" width="lg">
+      <div className="usage-content">
+        <div className="usage-ranges">
+          {(Object.keys(RANGE_LABELS) as UsageRange[]).map((r) => (
+            <button
+              key={r}
+              className={`usage-range ${range === r ? 'active' : ''}`}
+              onClick={() => setRange(r)}
+            >
+              {RANGE_LABELS[r]}
+            </button>
+          ))}
+        </div>
+
+        {error && <div className="usage-error">{error}</div>}
+
+        {loading && !usage ? (
+          <div className="usage-empty">Loading...</div>
+        ) : usage && (
+          <>
+            <div className="usage-totals">
+              <div className="usage-total">
+                <span className="usage-total-value">{formatCost(usage.totals.costUsd)}</span>
+                <span className="usage-total-label">Spend</span>
+              </div>
+              <div className="usage-total">
+                <span className="usage-total-value">{usage.totals.runs}</span>
+                <span className="usage-total-label">Runs</span>
+              </div>
+              <div className="usage-total">
+                <span className="usage-total-value">{formatTokens(usage.totals.inputTokens)}</span>
+                <span className="usage-total-label">Input tokens</span>
+              </div>
+              <div className="usage-total">
+                <span className="usage-total-value">{formatTokens(usage.totals.outputTokens)}</span>
+                <span className="usage-total-label">Output tokens</span>
+              </div>
+              <div className="usage-total">
+                <span className="usage-total-value">{formatTokens(usage.totals.cacheReadTokens)}</span>
+                <span className="usage-total-label">Cache reads</span>
+              </div>
+            </div>
+
+            <UsageChart
+              title="Spend by project"
+              bars={usage.byProject.map((p) => ({
+                key: p.projectId,
+                label: p.projectName,
+                costUsd: p.costUsd,
+                runs: p.runs,
+                tokens: totalTokens(p),
+              }))}
+            />
+
+            <UsageChart
+              title="Spend by agent"
+              bars={usage.byAgent.map((a) => ({
+                key: a.agentId || 'default',
+                label: a.agentName,
+                costUsd: a.costUsd,
+                runs: a.runs,
+                tokens: totalTokens(a),
+              }))}
+            />
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
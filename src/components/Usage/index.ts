@@ -0,0 +1 @@
+export { UsageModal } from './UsageModal';
@@ -1,7 +1,7 @@
 /**
  * Email Viewer
  *
- * Displays sent email content.
+ * Displays sent email content and attachment names.
  * Used for viewing email artifacts.
  */
 
@@ -71,6 +71,14 @@ export function EmailViewer({ content }: EmailViewerProps) {
       <div className="email-viewer-body">
         <pre className="email-viewer-body-text">{content.body}</pre>
       </div>
+
+      {content.attachments && content.attachments.length > 0 && (
+        <div className="email-viewer-attachments">
+          {content.attachments.map((name) => (
+            <span key={name} className="email-viewer-attachment">📎 {name}</span>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,129 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '../common';
+import type { WorkflowPlan, SandboxFileEntry } from '../../types';
+import { listSandboxFiles, sandboxFileDownloadUrl } from '../../api/client';
+import { formatOutputSize } from '../../utils/sandboxOutput';
+import './Workflow.css';
+
+interface SandboxFileBrowserProps {
+  plan: Pick<WorkflowPlan, 'id' | 'projectId' | 'taskId'>;
+}
+
+/**
+ * Tree of the files in a run's live sandbox. Directories load when opened;
+ * clicking a file downloads it.
+ */
+export function SandboxFileBrowser({ plan }: SandboxFileBrowserProps) {
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [workDir, setWorkDir] = useState('');
+  // Loaded directory contents, keyed by path relative to the working directory
+  const [directories, setDirectories] = useState<Record<string, SandboxFileEntry[]>>({});
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [loadingPath, setLoadingPath] = useState<string | null>(null);
+  const [noSession, setNoSession] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDirectory = useCallback(async (path: string, session?: string) => {
+    setLoadingPath(path);
+    setError(null);
+    const result = await listSandboxFiles(plan, path, session);
+    setLoadingPath(null);
+    if (!result.success || !result.data) {
+      if (result.error?.code === 'NOT_FOUND' && !path) {
+        setNoSession(true);
+      } else {
+        setError(result.error?.message || 'Failed to list files');
+      }
+      return;
+    }
+    const listing = result.data;
+    setSessionId(listing.sessionId);
+    setWorkDir(listing.workDir);
+    setDirectories((prev) => ({ ...prev, [path]: listing.entries }));
+  }, [plan]);
+
+  useEffect(() => {
+    loadDirectory('');
+  }, [loadDirectory]);
+
+  const handleRefresh = () => {
+    setDirectories({});
+    setExpanded({});
+    setNoSession(false);
+    loadDirectory('', sessionId || undefined);
+  };
+
+  const toggleDirectory = (path: string) => {
+    const open = !expanded[path];
+    setExpanded((prev) => ({ ...prev, [path]: open }));
+    if (open && !directories[path]) {
+      loadDirectory(path, sessionId || undefined);
+    }
+  };
+
+  const renderEntries = (path: string, depth: number) => {
+    const entries = directories[path];
+    if (!entries) {
+      return loadingPath === path ? (
+        <div className="sandbox-files-note" style={{ paddingLeft: depth * 16 }}>Loading...</div>
+      ) : null;
+    }
+    if (entries.length === 0) {
+      return <div className="sandbox-files-note" style={{ paddingLeft: depth * 16 }}>Empty</div>;
+    }
+    return entries.map((entry) => {
+      const isDirectory = entry.type === 'directory';
+      return (
+        <div key={entry.path}>
+          {isDirectory ? (
+            <button
+              className="sandbox-files-row"
+              style={{ paddingLeft: depth * 16 }}
+              onClick={() => toggleDirectory(entry.path)}
+            >
+              <span className="sandbox-files-toggle">{expanded[entry.path] ? '▾' : '▸'}</span>
+              <span className="sandbox-files-name directory">{entry.name}/</span>
+            </button>
+          ) : (
+            <a
+              className="sandbox-files-row"
+              style={{ paddingLeft: depth * 16 }}
+              href={sessionId ? sandboxFileDownloadUrl(plan, sessionId, entry.path) : undefined}
+              download={entry.name}
+              title={`Download ${entry.path}`}
+            >
+              <span className="sandbox-files-toggle" />
+              <span className="sandbox-files-name">{entry.name}</span>
+              <span className="sandbox-files-size">{formatOutputSize(entry.size)}</span>
+            </a>
+          )}
+          {isDirectory && expanded[entry.path] && renderEntries(entry.path, depth + 1)}
+        </div>
+      );
+    });
+  };
+
+  if (noSession) {
+    return (
+      <div className="sandbox-files">
+        <div className="sandbox-files-empty">
+          No live sandbox for this run. Sandboxes are removed when they sit idle or the run destroys them;
+          files the agent published stay in the run's artifacts.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="sandbox-files">
+      <div className="sandbox-files-header">
+        <span className="sandbox-files-root">{workDir || '/workspace'}</span>
+        <Button variant="ghost" size="sm" onClick={handleRefresh} disabled={loadingPath !== null}>
+          Refresh
+        </Button>
+      </div>
+      {error && <div className="sandbox-files-error">{error}</div>}
+      <div className="sandbox-files-tree">{renderEntries('', 0)}</div>
+    </div>
+  );
+}
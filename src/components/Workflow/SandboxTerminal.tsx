@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react';
+import type { SandboxStepOutput } from '../../types';
+import { formatOutputSize } from '../../utils/sandboxOutput';
+
+interface SandboxTerminalProps {
+  output: SandboxStepOutput;
+  /** Link to the step's full transcript */
+  downloadUrl: string;
+}
+
+/**
+ * Terminal pane showing a tool step's sandbox output, following it live
+ */
+export function SandboxTerminal({ output, downloadUrl }: SandboxTerminalProps) {
+  const bodyRef = useRef<HTMLPreElement>(null);
+  const followRef = useRef(true);
+
+  // Stay pinned to the bottom unless the user has scrolled up to read
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (body && followRef.current) {
+      body.scrollTop = body.scrollHeight;
+    }
+  }, [output.chunks]);
+
+  const handleScroll = () => {
+    const body = bodyRef.current;
+    if (body) {
+      followRef.current = body.scrollHeight - body.scrollTop - body.clientHeight < 24;
+    }
+  };
+
+  const shown = output.chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+
+  return (
+    <div className="sandbox-terminal">
+      <pre className="sandbox-terminal-body" ref={bodyRef} onScroll={handleScroll}>
+        {shown < output.size && (
+          <span className="sandbox-terminal-system">{'… earlier output in the full transcript\n'}</span>
+        )}
+        {output.chunks.map((chunk, i) => (
+          <span key={i} className={`sandbox-terminal-${chunk.stream}`}>{chunk.text}</span>
+        ))}
+      </pre>
+      <div className="sandbox-terminal-footer">
+        <span>
+          {formatOutputSize(output.size)}
+          {output.truncated && ' (limit reached)'}
+        </span>
+        <a href={downloadUrl} download>
+          Download transcript
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,18 @@
 import { useState, useEffect, useRef } from 'react';
 import { Button } from '../common';
-import type { WorkflowPlan, WorkflowStep as WorkflowStepType, WorkflowArtifact } from '../../types';
+import type {
+  WorkflowPlan,
+  WorkflowStep as WorkflowStepType,
+  WorkflowArtifact,
+  AgentBudget,
+  BudgetCheckpointData,
+  SandboxStepOutput,
+} from '../../types';
 import { useProject } from '../../context/ProjectContext';
+import { sandboxTranscriptUrl } from '../../api/client';
+import { formatCost, formatTokens } from '../../utils/usage';
+import { formatToolName, turnFromStepId } from '../../utils/workflow';
+import { SandboxTerminal } from './SandboxTerminal';
 import './Workflow.css';
 
 interface WorkflowProgressProps {
@@ -9,12 +20,22 @@ interface WorkflowProgressProps {
   onCancel?: () => void;
   onDismiss?: () => void;
   onReviewCheckpoint?: () => void;
+  /** Continue a run paused on its budget with raised limits, or stop it (null) */
+  onResolveBudget?: (budget: AgentBudget | null) => void;
+  /** Start a new run from this failed one, picking up at a turn (default: where it stopped) */
+  onRetry?: (fromTurn?: number) => void;
+  /** Start a new run from this failed one with edited instructions */
+  onFork?: (instructions: string, fromTurn?: number) => void;
   onViewEmail?: (artifact: WorkflowArtifact) => void;
+  /** Open the file browser on the run's sandbox */
+  onBrowseFiles?: () => void;
   /** Optional custom logs fetching for standalone tasks */
   customLogs?: {
     logs: import('../../types').WorkflowLog[];
     fetchLogs: () => Promise<void>;
   };
+  /** Sandbox output for standalone tasks; project tasks read it from context */
+  customSandboxOutput?: SandboxStepOutput[];
 }
 
 export function WorkflowProgress({
@@ -22,8 +43,13 @@ export function WorkflowProgress({
   onCancel,
   onDismiss,
   onReviewCheckpoint,
+  onResolveBudget,
+  onRetry,
+  onFork,
   onViewEmail,
+  onBrowseFiles,
   customLogs,
+  customSandboxOutput,
 }: WorkflowProgressProps) {
   const projectContext = useProject();
   const [expanded, setExpanded] = useState(false);
@@ -31,6 +57,9 @@ export function WorkflowProgress({
   const [logsLoading, setLogsLoading] = useState(true);
   const [artifactsDropdownOpen, setArtifactsDropdownOpen] = useState(false);
   const [confirmingClear, setConfirmingClear] = useState(false);
+  const [forking, setForking] = useState(false);
+  // Terminal panes the user opened or closed; running steps start open
+  const [openTerminals, setOpenTerminals] = useState<Record<string, boolean>>({});
   const clearButtonRef = useRef<HTMLButtonElement>(null);
   const logsEndRef = useRef<HTMLDivElement>(null);
   const stepsEndRef = useRef<HTMLDivElement>(null);
@@ -38,6 +67,14 @@ export function WorkflowProgress({
   // Use customLogs if provided (standalone tasks), otherwise fall back to project context
   const logs = customLogs ? customLogs.logs : (projectContext?.getWorkflowLogs(plan.id) || []);
 
+  const sandboxOutput = customSandboxOutput ?? (projectContext?.getSandboxOutput(plan.id) || []);
+  const fetchSandboxOutput = customSandboxOutput ? undefined : projectContext?.fetchSandboxOutput;
+
+  // Output written before the panel opened arrives with the plan's transcripts
+  useEffect(() => {
+    fetchSandboxOutput?.(plan.projectId, plan.id);
+  }, [fetchSandboxOutput, plan.projectId, plan.id]);
+
   // Set loading to false immediately - parent handles fetching
   // For project workflows: logs come via WebSocket
   // For standalone tasks: logs are fetched by parent and passed via customLogs
@@ -76,6 +113,7 @@ export function WorkflowProgress({
       case 'executing':
         return '\u25D4'; // Circle with right half
       case 'checkpoint':
+      case 'budget_exceeded':
         return '\u23F8'; // Pause
       case 'completed':
         return '\u25CF'; // Filled circle (matches execution)
@@ -98,6 +136,8 @@ export function WorkflowProgress({
         return 'Working';
       case 'checkpoint':
         return 'Paused';
+      case 'budget_exceeded':
+        return 'Budget';
       case 'completed':
         return 'Done';
       case 'failed':
@@ -111,6 +151,20 @@ export function WorkflowProgress({
   const isComplete = plan.status === 'completed';
   const hasFailed = plan.status === 'failed';
   const isPaused = plan.status === 'checkpoint';
+  const budgetCheckpoint = plan.status === 'budget_exceeded' && plan.checkpointData?.type === 'budget'
+    ? (plan.checkpointData as unknown as BudgetCheckpointData)
+    : null;
+
+  const canBranch = hasFailed && (onRetry || onFork);
+  const usesSandbox = plan.steps?.some((step) => step.toolName?.startsWith('Sandbox__')) ?? false;
+  const stepTurns = (plan.steps || [])
+    .map((step) => turnFromStepId(step.id))
+    .filter((turn): turn is number => turn !== null);
+  const lastTurn = stepTurns.length > 0 ? Math.max(...stepTurns) : (plan.parentTurn ?? 0);
+
+  const costUsd = plan.costUsd || 0;
+  const totalTokens = (plan.inputTokens || 0) + (plan.outputTokens || 0) +
+    (plan.cacheCreationTokens || 0) + (plan.cacheReadTokens || 0);
 
   const latestLog = logs[logs.length - 1];
   const currentStep = plan.steps?.[plan.currentStepIndex || 0];
@@ -132,6 +186,28 @@ export function WorkflowProgress({
     return true;
   });
 
+  // Tool steps only join plan.steps once they finish, so output from a
+  // running tool gets a row of its own until then
+  const runningOutput = isRunning
+    ? sandboxOutput.filter((output) => !(plan.steps || []).some((step) => step.id === output.stepId))
+    : [];
+
+  const isTerminalOpen = (stepId: string, running: boolean) => openTerminals[stepId] ?? running;
+
+  const toggleTerminal = (stepId: string, running: boolean) => {
+    setOpenTerminals((prev) => ({ ...prev, [stepId]: !isTerminalOpen(stepId, running) }));
+  };
+
+  const renderTerminalToggle = (stepId: string, running: boolean) => (
+    <button
+      className={`step-row-terminal ${isTerminalOpen(stepId, running) ? 'open' : ''}`}
+      onClick={() => toggleTerminal(stepId, running)}
+      title={isTerminalOpen(stepId, running) ? 'Hide output' : 'Show output'}
+    >
+      {'>_'}
+    </button>
+  );
+
   const getStepDuration = (step: WorkflowStepType): string | null => {
     if (step.durationMs) {
       return `${(step.durationMs / 1000).toFixed(1)}s`;
@@ -146,6 +222,12 @@ export function WorkflowProgress({
   return (
     <div className={`workflow-progress ${expanded ? 'expanded' : ''}`}>
       {/* Compact status bar */}
+      {plan.parentPlanId && (
+        <div className="workflow-progress-branch">
+          <span className="workflow-progress-branch-icon">{'\u21B3'}</span>
+          {plan.branchMode === 'fork' ? 'Forked' : 'Retried'} from turn {(plan.parentTurn ?? 0) + 1} of an earlier run
+        </div>
+      )}
       <div className="workflow-progress-compact">
         <div className={`workflow-progress-indicator status-${plan.status}`}>
           <span className="workflow-progress-icon">{getStatusIcon()}</span>
@@ -167,6 +249,15 @@ export function WorkflowProgress({
           <span className="preview-expand">{expanded ? '\u25BC' : '\u25C0'}</span>
         </div>
 
+        {costUsd > 0 && (
+          <span
+            className="workflow-progress-cost"
+            title={`${totalTokens.toLocaleString()} tokens`}
+          >
+            {formatCost(costUsd)}
+          </span>
+        )}
+
         <div className="workflow-progress-actions">
           {isRunning && onCancel && (
             <Button variant="ghost" size="sm" onClick={onCancel}>
@@ -178,6 +269,11 @@ export function WorkflowProgress({
               Review
             </Button>
           )}
+          {usesSandbox && onBrowseFiles && (
+            <Button variant="ghost" size="sm" onClick={onBrowseFiles}>
+              Files
+            </Button>
+          )}
           {/* Artifact button/dropdown */}
           {isComplete && plan.result?.artifacts && plan.result.artifacts.length > 0 && (
             <ArtifactButton
@@ -188,6 +284,16 @@ export function WorkflowProgress({
               onSelectEmail={onViewEmail}
             />
           )}
+          {canBranch && onRetry && (
+            <Button variant="primary" size="sm" onClick={() => onRetry()}>
+              Retry
+            </Button>
+          )}
+          {canBranch && onFork && (
+            <Button variant="ghost" size="sm" onClick={() => setForking(!forking)}>
+              Fork
+            </Button>
+          )}
           {(isComplete || hasFailed) && onDismiss && (
             <Button
               ref={clearButtonRef}
@@ -208,6 +314,23 @@ export function WorkflowProgress({
         </div>
       </div>
 
+      {budgetCheckpoint && onResolveBudget && (
+        <BudgetExceededPanel checkpoint={budgetCheckpoint} onResolve={onResolveBudget} />
+      )}
+
+      {forking && canBranch && onFork && (
+        <ForkRunPanel
+          instructions={plan.instructions || ''}
+          startTurn={plan.parentTurn ?? 0}
+          lastTurn={lastTurn}
+          onFork={(instructions, fromTurn) => {
+            setForking(false);
+            onFork(instructions, fromTurn);
+          }}
+          onCancel={() => setForking(false)}
+        />
+      )}
+
       {/* Expanded panel with steps and logs */}
       {expanded && (
         <div className="workflow-progress-panel">
@@ -216,7 +339,7 @@ export function WorkflowProgress({
             <div className="workflow-progress-steps">
               <div className="steps-header">Steps</div>
               <div className="steps-list">
-                {filteredSteps.length === 0 && isRunning ? (
+                {filteredSteps.length === 0 && runningOutput.length === 0 && isRunning ? (
                   <div className="step-row status-running">
                     <span className="step-row-icon">{'\u25D4'}</span>
                     <span className="step-row-name">Starting...</span>
@@ -225,28 +348,67 @@ export function WorkflowProgress({
                   filteredSteps.map((step) => {
                     const isToolStep = step.type === 'tool' || step.type === 'checkpoint' || step.type === 'tool_call';
                     const stepIcon = getStepIcon(step.status);
+                    const stepTurn = turnFromStepId(step.id);
+                    const output = sandboxOutput.find((o) => o.stepId === step.id);
                     return (
-                      <div
-                        key={step.id}
-                        className={`step-row status-${step.status} ${isToolStep ? 'tool-step' : ''}`}
-                      >
-                        <span className="step-row-icon">{stepIcon}</span>
-                        <span className="step-row-name">{step.name}</span>
-                        {step.mcpServer && (
-                          <span className="step-row-server">{step.mcpServer}</span>
+                      <div key={step.id}>
+                        <div className={`step-row status-${step.status} ${isToolStep ? 'tool-step' : ''}`}>
+                          <span className="step-row-icon">{stepIcon}</span>
+                          <span className="step-row-name">{step.name}</span>
+                          {step.mcpServer && (
+                            <span className="step-row-server">{step.mcpServer}</span>
+                          )}
+                          <span className="step-row-duration">
+                            {getStepDuration(step) || ''}
+                          </span>
+                          {output && renderTerminalToggle(step.id, false)}
+                          {canBranch && onRetry && stepTurn !== null && (
+                            <button
+                              className="step-row-retry"
+                              onClick={() => onRetry(stepTurn)}
+                              title={`Retry from turn ${stepTurn + 1}`}
+                            >
+                              {'\u21BB'}
+                            </button>
+                          )}
+                        </div>
+                        {output && isTerminalOpen(step.id, false) && (
+                          <SandboxTerminal output={output} downloadUrl={sandboxTranscriptUrl(plan, step.id)} />
                         )}
-                        <span className="step-row-duration">
-                          {getStepDuration(step) || ''}
-                        </span>
                       </div>
                     );
                   })
                 )}
+                {runningOutput.map((output) => (
+                  <div key={output.stepId}>
+                    <div className="step-row status-running tool-step">
+                      <span className="step-row-icon">{'\u25D4'}</span>
+                      <span className="step-row-name">{formatToolName(output.toolName)}</span>
+                      <span className="step-row-duration" />
+                      {renderTerminalToggle(output.stepId, true)}
+                    </div>
+                    {isTerminalOpen(output.stepId, true) && (
+                      <SandboxTerminal output={output} downloadUrl={sandboxTranscriptUrl(plan, output.stepId)} />
+                    )}
+                  </div>
+                ))}
                 <div ref={stepsEndRef} />
               </div>
             </div>
           )}
 
+          {/* Usage summary */}
+          {totalTokens > 0 && (
+            <div className="workflow-progress-usage">
+              <span>{formatTokens(plan.inputTokens || 0)} in</span>
+              <span>{formatTokens(plan.outputTokens || 0)} out</span>
+              {(plan.cacheReadTokens || 0) > 0 && (
+                <span>{formatTokens(plan.cacheReadTokens || 0)} cached</span>
+              )}
+              <span className="workflow-progress-usage-cost">{formatCost(costUsd)}</span>
+            </div>
+          )}
+
           {/* Logs section - collapsible, starts collapsed */}
           <div className="workflow-progress-logs">
             <button
@@ -344,6 +506,14 @@ const ArtifactIcons = {
       <line x1="15" y1="3" x2="15" y2="21"/>
     </svg>
   ),
+  google_calendar_event: (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <rect x="3" y="4" width="18" height="18" rx="2"/>
+      <line x1="16" y1="2" x2="16" y2="6"/>
+      <line x1="8" y1="2" x2="8" y2="6"/>
+      <line x1="3" y1="10" x2="21" y2="10"/>
+    </svg>
+  ),
   gmail_message: (
     <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
       <path d="M20 4H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2zm0 4l-8 5-8-5V6l8 5 8-5v2z"/>
@@ -359,6 +529,13 @@ const ArtifactIcons = {
       <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8l-6-6zm4 18H6V4h7v5h5v11z"/>
     </svg>
   ),
+  preview: (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <rect x="2" y="3" width="20" height="14" rx="2"/>
+      <line x1="8" y1="21" x2="16" y2="21"/>
+      <line x1="12" y1="17" x2="12" y2="21"/>
+    </svg>
+  ),
   other: (
     <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
       <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8l-6-6zm4 18H6V4h7v5h5v11z"/>
@@ -527,6 +704,18 @@ export function WorkflowBadge({
         </span>
       );
     }
+    if (artifactType === 'google_calendar_event') {
+      return (
+        <span className="workflow-badge badge-artifact" title="Calendar event scheduled">
+          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="3" y="4" width="18" height="18" rx="2"/>
+            <line x1="16" y1="2" x2="16" y2="6"/>
+            <line x1="8" y1="2" x2="8" y2="6"/>
+            <line x1="3" y1="10" x2="21" y2="10"/>
+          </svg>
+        </span>
+      );
+    }
   }
 
   const getIcon = () => {
@@ -553,3 +742,123 @@ export function WorkflowBadge({
     </span>
   );
 }
+
+/**
+ * Inline editor for forking a failed run: edit the instructions and pick
+ * the turn the new run picks up at.
+ */
+function ForkRunPanel({
+  instructions: initialInstructions,
+  startTurn,
+  lastTurn,
+  onFork,
+  onCancel,
+}: {
+  instructions: string;
+  /** First turn this run made itself (0 unless it is a branch) */
+  startTurn: number;
+  lastTurn: number;
+  onFork: (instructions: string, fromTurn: number) => void;
+  onCancel: () => void;
+}) {
+  const [instructions, setInstructions] = useState(initialInstructions);
+  const [fromTurn, setFromTurn] = useState(0);
+
+  const turnOptions = Array.from({ length: lastTurn + 1 }, (_, turn) => turn);
+
+  return (
+    <div className="workflow-fork-panel">
+      <textarea
+        className="workflow-fork-instructions"
+        value={instructions}
+        onChange={(e) => setInstructions(e.target.value)}
+        rows={4}
+        placeholder="Instructions for the new run"
+      />
+      <div className="workflow-fork-actions">
+        <label className="workflow-budget-input">
+          Start from
+          <select value={fromTurn} onChange={(e) => setFromTurn(Number(e.target.value))}>
+            {turnOptions.map((turn) => (
+              <option key={turn} value={turn}>
+                {turn === 0 ? 'the beginning' : `turn ${turn + 1}`}
+                {turn > 0 && turn < startTurn ? ' (earlier run)' : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={() => onFork(instructions.trim(), fromTurn)}
+          disabled={!instructions.trim()}
+        >
+          Start Fork
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Inline prompt shown when a run pauses on its budget: raise the limit that
+ * was hit and continue, or stop the run.
+ */
+function BudgetExceededPanel({
+  checkpoint,
+  onResolve,
+}: {
+  checkpoint: BudgetCheckpointData;
+  onResolve: (budget: AgentBudget | null) => void;
+}) {
+  const { exceeded } = checkpoint;
+  const isCost = exceeded.limit === 'maxCostUsd';
+  const suggested = isCost
+    ? Math.round(exceeded.max * 2 * 100) / 100
+    : Math.ceil(exceeded.max * 2);
+  const [value, setValue] = useState(String(suggested));
+  const [submitting, setSubmitting] = useState(false);
+
+  const newMax = Number(value);
+  const canContinue = Number.isFinite(newMax) && newMax > exceeded.max;
+
+  const handleContinue = () => {
+    if (!canContinue) return;
+    setSubmitting(true);
+    const raised: AgentBudget = exceeded.limit === 'maxToolCalls'
+      ? { maxToolCalls: { [exceeded.toolName || '*']: Math.ceil(newMax) } }
+      : { [exceeded.limit]: newMax };
+    onResolve(raised);
+  };
+
+  const handleStop = () => {
+    setSubmitting(true);
+    onResolve(null);
+  };
+
+  return (
+    <div className="workflow-budget-panel">
+      <span className="workflow-budget-message">{exceeded.message}</span>
+      <label className="workflow-budget-input">
+        Raise to
+        <input
+          type="number"
+          min={exceeded.max}
+          step={isCost ? '0.01' : '1'}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          disabled={submitting}
+        />
+      </label>
+      <Button variant="primary" size="sm" onClick={handleContinue} disabled={!canContinue || submitting}>
+        Continue
+      </Button>
+      <Button variant="ghost" size="sm" onClick={handleStop} disabled={submitting}>
+        Stop
+      </Button>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
 export { PlanReviewView } from './PlanReviewView';
 export { WorkflowProgress, WorkflowBadge } from './WorkflowProgress';
 export { EmailViewer } from './EmailViewerModal';
+export { SandboxFileBrowser } from './SandboxFileBrowser';
@@ -3,7 +3,18 @@
  */
 
 interface McpIconProps {
-  type: 'google-docs' | 'google-sheets' | 'gmail' | 'github' | 'sandbox' | 'claude-code' | 'exa' | 'askuser' | 'generic';
+  type:
+    | 'google-docs'
+    | 'google-sheets'
+    | 'google-calendar'
+    | 'google-drive'
+    | 'gmail'
+    | 'github'
+    | 'sandbox'
+    | 'claude-code'
+    | 'exa'
+    | 'askuser'
+    | 'generic';
   size?: number;
   className?: string;
 }
@@ -53,6 +64,46 @@ export function McpIcon({ type, size = 20, className = '' }: McpIconProps) {
         </svg>
       );
 
+    case 'google-calendar':
+      return (
+        <svg
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          style={style}
+          className={className}
+        >
+          {/* Calendar page with binding rings */}
+          <rect x="3" y="4" width="18" height="18" rx="2" />
+          <line x1="16" y1="2" x2="16" y2="6" />
+          <line x1="8" y1="2" x2="8" y2="6" />
+          <line x1="3" y1="10" x2="21" y2="10" />
+        </svg>
+      );
+
+    case 'google-drive':
+      return (
+        <svg
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          style={style}
+          className={className}
+        >
+          {/* Drive triangle */}
+          <path d="M8 3h8l6 10-4 7H6l-4-7z" />
+          <line x1="8" y1="3" x2="14" y2="13" />
+          <line x1="2" y1="13" x2="14" y2="13" />
+          <line x1="18" y1="20" x2="14" y2="13" />
+        </svg>
+      );
+
     case 'gmail':
       return (
         <svg
@@ -238,6 +289,12 @@ export function getIconTypeFromTool(toolName: string): McpIconProps['type'] {
   if (toolName.startsWith('Google_Sheets__') || toolName.startsWith('GoogleSheets__')) {
     return 'google-sheets';
   }
+  if (toolName.startsWith('Google_Calendar__')) {
+    return 'google-calendar';
+  }
+  if (toolName.startsWith('Google_Drive__')) {
+    return 'google-drive';
+  }
   if (toolName.startsWith('Gmail__')) {
     return 'gmail';
   }
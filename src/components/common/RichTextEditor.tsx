@@ -33,6 +33,7 @@ const URL_REGEX = /https?:\/\/[^\s<>")\]]+(?<![.,;:!?)\]])/g;
 const ENRICHABLE_URL_PATTERNS = [
   /^https?:\/\/(www\.)?docs\.google\.com\/document\//,
   /^https?:\/\/(www\.)?docs\.google\.com\/spreadsheets\//,
+  /^https?:\/\/(calendar|www)\.google\.com\/calendar\//,
   /^https?:\/\/(www\.)?github\.com\//,
 ];
 
@@ -269,12 +270,14 @@ function htmlToMarkdown(element: HTMLElement): string {
 /**
  * Get icon type for pill type
  */
-function getIconType(type: LinkPillType): 'google-docs' | 'google-sheets' | 'github' {
+function getIconType(type: LinkPillType): 'google-docs' | 'google-sheets' | 'google-calendar' | 'github' {
   switch (type) {
     case 'google_doc':
       return 'google-docs';
     case 'google_sheet':
       return 'google-sheets';
+    case 'google_calendar_event':
+      return 'google-calendar';
     case 'github_pr':
     case 'github_issue':
     case 'github_repo':
@@ -5,8 +5,11 @@
 // Credential types - must match worker/constants.ts
 export const CREDENTIAL_TYPES = {
   GITHUB_OAUTH: 'github_oauth',
+  GITHUB_APP: 'github_app',
   GOOGLE_OAUTH: 'google_oauth',
   ANTHROPIC_API_KEY: 'anthropic_api_key',
+  // Environment variables for the project's sandboxes (one credential per variable)
+  SANDBOX_SECRET: 'sandbox_secret',
 } as const;
 
 export type CredentialType = typeof CREDENTIAL_TYPES[keyof typeof CREDENTIAL_TYPES];
@@ -6,17 +6,31 @@ import {
   useEffect,
   useState,
   useRef,
+  useMemo,
   type ReactNode,
 } from 'react';
-import type { Column, Task, DragState, ColumnDragState, TaskPriority, WorkflowPlan, WorkflowLog } from '../types';
+import type {
+  Column,
+  Task,
+  TaskContext,
+  DragState,
+  ColumnDragState,
+  TaskPriority,
+  WorkflowPlan,
+  WorkflowLog,
+  TaskSchedule,
+  SandboxOutputEvent,
+  SandboxStepOutput,
+} from '../types';
 import * as api from '../api/client';
+import { getBlockingTasks as findBlockingTasks, latestPlansByTask } from '../utils/dependencies';
 import { projectReducer, initialProjectState, type ProjectState } from './projectReducer';
 
 // ============================================
 // CONTEXT
 // ============================================
 
-interface ProjectContextValue extends Omit<ProjectState, 'workflowLogs'> {
+interface ProjectContextValue extends Omit<ProjectState, 'workflowLogs' | 'sandboxOutput'> {
   loadProjects: () => Promise<void>;
   loadProject: (id: string) => Promise<void>;
   clearActiveProject: () => void;
@@ -27,7 +41,11 @@ interface ProjectContextValue extends Omit<ProjectState, 'workflowLogs'> {
   updateColumn: (id: string, data: { name?: string; position?: number }) => Promise<void>;
   deleteColumn: (id: string) => Promise<void>;
   createTask: (columnId: string, title: string, description?: string, priority?: TaskPriority) => Promise<void>;
-  updateTask: (id: string, data: { title?: string; description?: string; priority?: TaskPriority }) => Promise<void>;
+  updateTask: (
+    id: string,
+    data: { title?: string; description?: string; priority?: TaskPriority; context?: TaskContext }
+  ) => Promise<void>;
+  applyTaskUpdate: (task: Task) => void;
   deleteTask: (id: string) => Promise<void>;
   moveTask: (taskId: string, columnId: string, position: number) => Promise<void>;
   moveColumn: (columnId: string, newPosition: number) => Promise<void>;
@@ -45,6 +63,14 @@ interface ProjectContextValue extends Omit<ProjectState, 'workflowLogs'> {
   removeWorkflowPlan: (planId: string) => void;
   getWorkflowLogs: (planId: string) => WorkflowLog[];
   fetchWorkflowLogs: (projectId: string, planId: string) => Promise<void>;
+  getSandboxOutput: (planId: string) => SandboxStepOutput[];
+  fetchSandboxOutput: (projectId: string, planId: string) => Promise<void>;
+  // Schedule state and methods
+  getTaskSchedule: (taskId: string) => TaskSchedule | null;
+  updateTaskSchedule: (schedule: TaskSchedule) => void;
+  removeTaskSchedule: (taskId: string) => void;
+  // Dependency state
+  getBlockingTasks: (task: Task) => Task[];
 }
 
 /** @deprecated Use ProjectContextValue instead */
@@ -72,6 +98,14 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Fetch all task schedules for the project
+  const fetchProjectSchedules = useCallback(async (projectId: string) => {
+    const result = await api.getProjectSchedules(projectId);
+    if (result.success && result.data) {
+      dispatch({ type: 'SET_TASK_SCHEDULES', payload: result.data });
+    }
+  }, []);
+
   // WebSocket connection for real-time updates
   const connectWebSocket = useCallback((projectId: string) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) return;
@@ -132,6 +166,22 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
             const log = message.data as WorkflowLog;
             dispatch({ type: 'ADD_WORKFLOW_LOG', payload: log });
           }
+
+          if (message.type === 'sandbox_output') {
+            dispatch({ type: 'ADD_SANDBOX_OUTPUT', payload: message.data as SandboxOutputEvent });
+          }
+
+          if (message.type === 'task_update') {
+            dispatch({ type: 'UPDATE_TASK', payload: message.data as Task });
+          }
+
+          if (message.type === 'task_schedule_update') {
+            dispatch({ type: 'UPDATE_TASK_SCHEDULE', payload: message.data as TaskSchedule });
+          }
+
+          if (message.type === 'task_schedule_removed') {
+            dispatch({ type: 'REMOVE_TASK_SCHEDULE', payload: (message.data as { taskId: string }).taskId });
+          }
         } catch {
           // Silently ignore malformed messages
         }
@@ -148,6 +198,7 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
     if (state.activeProject?.id) {
       dispatch({ type: 'CLEAR_WORKFLOW_STATE' });
       fetchProjectWorkflowPlans(state.activeProject.id);
+      fetchProjectSchedules(state.activeProject.id);
       connectWebSocket(state.activeProject.id);
     }
 
@@ -163,11 +214,11 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
         wsRef.current = null;
       }
     };
-  }, [state.activeProject?.id, fetchProjectWorkflowPlans, connectWebSocket]);
+  }, [state.activeProject?.id, fetchProjectWorkflowPlans, fetchProjectSchedules, connectWebSocket]);
 
-  // Derived: active workflows (executing, checkpoint, or planning)
+  // Derived: active workflows (executing, paused, or planning)
   const activeWorkflows = Object.values(state.workflowPlans).filter(
-    (p) => p.status === 'executing' || p.status === 'checkpoint' || p.status === 'planning'
+    (p) => p.status === 'executing' || p.status === 'checkpoint' || p.status === 'budget_exceeded' || p.status === 'planning'
   );
 
   // Get a workflow plan from state by plan ID
@@ -204,6 +255,45 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Get sandbox output of a plan's tool steps from state
+  const getSandboxOutputFromState = useCallback((planId: string): SandboxStepOutput[] => {
+    return state.sandboxOutput[planId] || [];
+  }, [state.sandboxOutput]);
+
+  // Fetch sandbox output from API (the end of each step's transcript)
+  const fetchSandboxOutput = useCallback(async (projectId: string, planId: string): Promise<void> => {
+    const result = await api.getSandboxOutput(projectId, planId);
+    if (result.success && result.data) {
+      dispatch({ type: 'SET_SANDBOX_OUTPUT', payload: { planId, output: result.data } });
+    }
+  }, []);
+
+  // Get the schedule of a task from state
+  const getTaskSchedule = useCallback((taskId: string): TaskSchedule | null => {
+    return state.taskSchedules[taskId] || null;
+  }, [state.taskSchedules]);
+
+  // Update a task schedule in state
+  const updateTaskScheduleAction = useCallback((schedule: TaskSchedule) => {
+    dispatch({ type: 'UPDATE_TASK_SCHEDULE', payload: schedule });
+  }, []);
+
+  // Remove a task schedule from state
+  const removeTaskScheduleAction = useCallback((taskId: string) => {
+    dispatch({ type: 'REMOVE_TASK_SCHEDULE', payload: taskId });
+  }, []);
+
+  // Dependencies of a task that haven't completed yet
+  const latestPlans = useMemo(() => latestPlansByTask(Object.values(state.workflowPlans)), [state.workflowPlans]);
+  const getBlockingTasks = useCallback((task: Task): Task[] => {
+    return findBlockingTasks(task, state.activeProject?.tasks ?? [], latestPlans);
+  }, [state.activeProject?.tasks, latestPlans]);
+
+  // Replace a task in state (e.g. after queueing it to start)
+  const applyTaskUpdate = useCallback((task: Task) => {
+    dispatch({ type: 'UPDATE_TASK', payload: task });
+  }, []);
+
   const loadProjects = useCallback(async () => {
     dispatch({ type: 'SET_LOADING', payload: true });
     const result = await api.getProjects();
@@ -316,7 +406,7 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
 
   const updateTaskAction = useCallback(async (
     id: string,
-    data: { title?: string; description?: string; priority?: TaskPriority }
+    data: { title?: string; description?: string; priority?: TaskPriority; context?: TaskContext }
   ) => {
     if (!state.activeProject) return;
     const result = await api.updateTask(state.activeProject.id, id, data);
@@ -425,6 +515,7 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
     dragState: state.dragState,
     columnDragState: state.columnDragState,
     workflowPlans: state.workflowPlans,
+    taskSchedules: state.taskSchedules,
     loadProjects,
     loadProject,
     clearActiveProject,
@@ -436,6 +527,7 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
     deleteColumn: deleteColumnAction,
     createTask: createTaskAction,
     updateTask: updateTaskAction,
+    applyTaskUpdate,
     deleteTask: deleteTaskAction,
     moveTask: moveTaskAction,
     moveColumn: moveColumnAction,
@@ -452,6 +544,12 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
     removeWorkflowPlan: removeWorkflowPlanAction,
     getWorkflowLogs: getWorkflowLogsFromState,
     fetchWorkflowLogs,
+    getSandboxOutput: getSandboxOutputFromState,
+    fetchSandboxOutput,
+    getTaskSchedule,
+    updateTaskSchedule: updateTaskScheduleAction,
+    removeTaskSchedule: removeTaskScheduleAction,
+    getBlockingTasks,
   };
 
   return (
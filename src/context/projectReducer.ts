@@ -4,8 +4,20 @@
  * Extracted from ProjectContext.tsx for better maintainability.
  */
 
-import type { Project, Column, Task, DragState, ColumnDragState, WorkflowPlan, WorkflowLog } from '../types';
+import type {
+  Project,
+  Column,
+  Task,
+  DragState,
+  ColumnDragState,
+  WorkflowPlan,
+  WorkflowLog,
+  TaskSchedule,
+  SandboxOutputEvent,
+  SandboxStepOutput,
+} from '../types';
 import type { ProjectWithDetails } from '../api/client';
+import { appendSandboxOutput } from '../utils/sandboxOutput';
 
 // ============================================
 // STATE
@@ -21,6 +33,9 @@ export interface ProjectState {
   // Workflow state - keyed by plan ID
   workflowPlans: Record<string, WorkflowPlan>;
   workflowLogs: Record<string, WorkflowLog[]>;
+  sandboxOutput: Record<string, SandboxStepOutput[]>;
+  // Task schedules - keyed by task ID
+  taskSchedules: Record<string, TaskSchedule>;
 }
 
 /** @deprecated Use ProjectState instead */
@@ -42,6 +57,8 @@ export const initialProjectState: ProjectState = {
   },
   workflowPlans: {},
   workflowLogs: {},
+  sandboxOutput: {},
+  taskSchedules: {},
 };
 
 /** @deprecated Use initialProjectState instead */
@@ -74,7 +91,13 @@ export type ProjectAction =
   | { type: 'REMOVE_WORKFLOW_PLAN'; payload: string }
   | { type: 'ADD_WORKFLOW_LOG'; payload: WorkflowLog }
   | { type: 'SET_WORKFLOW_LOGS'; payload: { planId: string; logs: WorkflowLog[] } }
-  | { type: 'CLEAR_WORKFLOW_STATE' };
+  | { type: 'ADD_SANDBOX_OUTPUT'; payload: SandboxOutputEvent }
+  | { type: 'SET_SANDBOX_OUTPUT'; payload: { planId: string; output: SandboxStepOutput[] } }
+  | { type: 'CLEAR_WORKFLOW_STATE' }
+  // Schedule actions
+  | { type: 'SET_TASK_SCHEDULES'; payload: TaskSchedule[] }
+  | { type: 'UPDATE_TASK_SCHEDULE'; payload: TaskSchedule }
+  | { type: 'REMOVE_TASK_SCHEDULE'; payload: string };
 
 /** @deprecated Use ProjectAction instead */
 export type BoardAction = ProjectAction;
@@ -265,10 +288,12 @@ export function projectReducer(state: ProjectState, action: ProjectAction): Proj
     case 'REMOVE_WORKFLOW_PLAN': {
       const { [action.payload]: _, ...remainingPlans } = state.workflowPlans;
       const { [action.payload]: __, ...remainingLogs } = state.workflowLogs;
+      const { [action.payload]: ___, ...remainingOutput } = state.sandboxOutput;
       return {
         ...state,
         workflowPlans: remainingPlans,
         workflowLogs: remainingLogs,
+        sandboxOutput: remainingOutput,
       };
     }
 
@@ -292,8 +317,51 @@ export function projectReducer(state: ProjectState, action: ProjectAction): Proj
         },
       };
 
+    case 'ADD_SANDBOX_OUTPUT': {
+      const { planId } = action.payload;
+      return {
+        ...state,
+        sandboxOutput: {
+          ...state.sandboxOutput,
+          [planId]: appendSandboxOutput(state.sandboxOutput[planId] || [], action.payload),
+        },
+      };
+    }
+
+    case 'SET_SANDBOX_OUTPUT':
+      return {
+        ...state,
+        sandboxOutput: {
+          ...state.sandboxOutput,
+          [action.payload.planId]: action.payload.output,
+        },
+      };
+
     case 'CLEAR_WORKFLOW_STATE':
-      return { ...state, workflowPlans: {}, workflowLogs: {} };
+      return { ...state, workflowPlans: {}, workflowLogs: {}, sandboxOutput: {}, taskSchedules: {} };
+
+    // Schedule reducers
+    case 'SET_TASK_SCHEDULES': {
+      const schedules: Record<string, TaskSchedule> = {};
+      for (const schedule of action.payload) {
+        schedules[schedule.taskId] = schedule;
+      }
+      return { ...state, taskSchedules: schedules };
+    }
+
+    case 'UPDATE_TASK_SCHEDULE':
+      return {
+        ...state,
+        taskSchedules: {
+          ...state.taskSchedules,
+          [action.payload.taskId]: action.payload,
+        },
+      };
+
+    case 'REMOVE_TASK_SCHEDULE': {
+      const { [action.payload]: _, ...remainingSchedules } = state.taskSchedules;
+      return { ...state, taskSchedules: remainingSchedules };
+    }
 
     default:
       return state;
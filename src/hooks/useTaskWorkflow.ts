@@ -9,8 +9,16 @@
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { WorkflowPlan, WorkflowLog } from '../types';
+import type {
+  WorkflowPlan,
+  WorkflowLog,
+  WorkflowBranchMode,
+  WorkflowBranchOptions,
+  SandboxOutputEvent,
+  SandboxStepOutput,
+} from '../types';
 import * as api from '../api/client';
+import { appendSandboxOutput } from '../utils/sandboxOutput';
 
 export type TaskMode = 'project' | 'standalone';
 
@@ -29,6 +37,8 @@ interface UseTaskWorkflowReturn {
   // State
   workflowPlan: WorkflowPlan | null;
   workflowLogs: WorkflowLog[];
+  /** Live output of the plan's sandbox tool steps */
+  sandboxOutput: SandboxStepOutput[];
   isLoading: boolean;
   isGeneratingPlan: boolean;
   isRespondingToCheckpoint: boolean;
@@ -40,6 +50,12 @@ interface UseTaskWorkflowReturn {
   startWorkflow: (agentId?: string) => Promise<void>;
   cancelWorkflow: () => Promise<void>;
   dismissWorkflow: () => Promise<void>;
+  /** Start a new run from a failed one, picking up at a turn */
+  retryWorkflow: (fromTurn?: number) => Promise<void>;
+  /** Start a new run from a failed one with edited instructions */
+  forkWorkflow: (instructions: string, fromTurn?: number) => Promise<void>;
+  /** Message the running agent; resolves to whether the message was queued */
+  sendMessage: (content: string, interrupt?: boolean) => Promise<boolean>;
   resolveCheckpoint: (
     action: 'approve' | 'request_changes' | 'cancel',
     options?: { feedback?: string; data?: Record<string, unknown> }
@@ -55,6 +71,7 @@ export function useTaskWorkflow({
 }: UseTaskWorkflowOptions): UseTaskWorkflowReturn {
   const [workflowPlan, setWorkflowPlan] = useState<WorkflowPlan | null>(null);
   const [workflowLogs, setWorkflowLogs] = useState<WorkflowLog[]>([]);
+  const [sandboxOutput, setSandboxOutput] = useState<SandboxStepOutput[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isGeneratingPlan, setIsGeneratingPlan] = useState(false);
   const [isRespondingToCheckpoint, setIsRespondingToCheckpoint] = useState(false);
@@ -83,6 +100,7 @@ export function useTaskWorkflow({
   useEffect(() => {
     setWorkflowPlan(null);
     setWorkflowLogs([]);
+    setSandboxOutput([]);
     setError(null);
     setIsGeneratingPlan(false);
     setIsRespondingToCheckpoint(false);
@@ -177,6 +195,15 @@ export function useTaskWorkflow({
                 });
               }
             }
+
+            // Handle live sandbox output
+            if (message.type === 'sandbox_output') {
+              const output = message.data as SandboxOutputEvent;
+              const currentPlan = workflowPlanRef.current;
+              if (currentPlan && output.planId === currentPlan.id) {
+                setSandboxOutput((prev) => appendSandboxOutput(prev, output));
+              }
+            }
           } catch {
             // Silently ignore malformed messages
           }
@@ -234,9 +261,18 @@ export function useTaskWorkflow({
         if (logsResult.success && logsResult.data) {
           setWorkflowLogs(logsResult.data);
         }
+
+        const outputResult = mode === 'standalone'
+          ? await api.getStandaloneSandboxOutput(taskId, planResult.data.id)
+          : await api.getSandboxOutput(projectId!, planResult.data.id);
+
+        if (outputResult.success && outputResult.data) {
+          setSandboxOutput(outputResult.data);
+        }
       } else {
         setWorkflowPlan(null);
         setWorkflowLogs([]);
+        setSandboxOutput([]);
       }
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to load workflow');
@@ -252,6 +288,7 @@ export function useTaskWorkflow({
     setIsGeneratingPlan(true);
     setError(null);
     setWorkflowLogs([]); // Clear logs when starting new workflow
+    setSandboxOutput([]);
 
     try {
       const result = mode === 'standalone'
@@ -300,12 +337,71 @@ export function useTaskWorkflow({
       if (result.success) {
         setWorkflowPlan(null);
         setWorkflowLogs([]);
+        setSandboxOutput([]);
       }
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to dismiss workflow');
     }
   }, [workflowPlan, taskId, projectId, mode]);
 
+  // Retry or fork a failed workflow into a new, linked run
+  const branchWorkflow = useCallback(async (branchMode: WorkflowBranchMode, options: WorkflowBranchOptions) => {
+    if (!workflowPlan) return;
+
+    setIsGeneratingPlan(true);
+    setError(null);
+    setWorkflowLogs([]);
+    setSandboxOutput([]);
+
+    try {
+      const result = mode === 'standalone'
+        ? await api.branchStandaloneWorkflow(taskId, workflowPlan.id, branchMode, options)
+        : await api.branchWorkflow(projectId!, workflowPlan.id, branchMode, options);
+
+      if (result.success && result.data) {
+        setWorkflowPlan(result.data);
+        // Don't set isGeneratingPlan to false - wait for WebSocket update
+      } else {
+        setError(result.error?.message || `Failed to ${branchMode} workflow`);
+        setIsGeneratingPlan(false);
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : `Failed to ${branchMode} workflow`);
+      setIsGeneratingPlan(false);
+    }
+  }, [workflowPlan, taskId, projectId, mode]);
+
+  const retryWorkflow = useCallback(
+    (fromTurn?: number) => branchWorkflow('retry', { fromTurn }),
+    [branchWorkflow]
+  );
+
+  const forkWorkflow = useCallback(
+    (instructions: string, fromTurn?: number) => branchWorkflow('fork', { fromTurn, instructions }),
+    [branchWorkflow]
+  );
+
+  // Send a message to the running agent; it's read at the end of the current turn
+  const sendMessage = useCallback(async (content: string, interrupt = false) => {
+    if (!workflowPlan) return false;
+
+    setError(null);
+
+    try {
+      const result = mode === 'standalone'
+        ? await api.sendStandaloneWorkflowMessage(taskId, workflowPlan.id, content, interrupt)
+        : await api.sendWorkflowMessage(projectId!, workflowPlan.id, content, interrupt);
+
+      if (!result.success) {
+        setError(result.error?.message || 'Failed to send message');
+      }
+      return result.success;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to send message');
+      return false;
+    }
+  }, [workflowPlan, taskId, projectId, mode]);
+
   // Resolve checkpoint (approve, request changes, or cancel)
   const resolveCheckpoint = useCallback(async (
     action: 'approve' | 'request_changes' | 'cancel',
@@ -348,6 +444,7 @@ export function useTaskWorkflow({
   return {
     workflowPlan,
     workflowLogs,
+    sandboxOutput,
     isLoading,
     isGeneratingPlan,
     isRespondingToCheckpoint,
@@ -357,6 +454,9 @@ export function useTaskWorkflow({
     startWorkflow,
     cancelWorkflow,
     dismissWorkflow,
+    retryWorkflow,
+    forkWorkflow,
+    sendMessage,
     resolveCheckpoint,
     clearError,
   };
@@ -10,6 +10,8 @@ export interface User {
   logoutUrl?: string | null;
   config?: {
     anthropicApiKeyConfigured?: boolean;
+    /** VAPID public key; web push is unavailable when null */
+    vapidPublicKey?: string | null;
   };
 }
 
@@ -19,10 +21,14 @@ export interface Project {
   ownerId?: string;
   columns: Column[];
   toolConfig?: ProjectToolConfig;
+  /** Whether agents use GitHub as the connected user or as the GitHub App */
+  githubAuth?: GitHubAuthMode;
   createdAt: string;
   updatedAt: string;
 }
 
+export type GitHubAuthMode = 'oauth' | 'app';
+
 /** @deprecated Use Project instead */
 export type Board = Project;
 
@@ -43,12 +49,231 @@ export interface Task {
   priority: TaskPriority;
   position: number;
   context?: TaskContext;
+  /** Set while the task waits to start once its dependencies complete */
+  queuedStart?: TaskQueuedStart | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface TaskQueuedStart {
+  boardId: string;
+  userId: string;
+  agentId: string | null;
+  queuedAt: string;
+}
+
 export type TaskPriority = 'low' | 'medium' | 'high' | 'critical';
 
+// ============================================
+// TASK SCHEDULES
+// ============================================
+
+export type ScheduleRepeatFrequency = 'hourly' | 'daily' | 'weekdays' | 'weekly' | 'monthly';
+
+/** Simple repeat rule, stored alongside the cron expression built from it */
+export interface ScheduleRepeatRule {
+  frequency: ScheduleRepeatFrequency;
+  /** Local time as "HH:MM"; hourly rules only use the minutes */
+  time: string;
+  /** 0 (Sunday) to 6, for weekly rules */
+  daysOfWeek?: number[];
+  /** 1 to 31, for monthly rules */
+  dayOfMonth?: number;
+}
+
+export interface TaskScheduleInput {
+  /** Cron expression; takes precedence over repeat */
+  cron?: string | null;
+  repeat?: ScheduleRepeatRule | null;
+  timezone: string;
+  agentId?: string | null;
+  enabled?: boolean;
+}
+
+export interface TaskSchedule {
+  taskId: string;
+  projectId: string;
+  userId: string;
+  cron: string;
+  repeat: ScheduleRepeatRule | null;
+  timezone: string;
+  agentId: string | null;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduleRun {
+  id: string;
+  taskId: string;
+  scheduledFor: string;
+  ranAt: string;
+  status: 'started' | 'skipped' | 'failed';
+  planId: string | null;
+  message: string | null;
+}
+
+// ============================================
+// INBOUND WEBHOOKS
+// ============================================
+
+export type WebhookSource = 'github' | 'gmail' | 'generic';
+
+export type WebhookConditionOp = 'equals' | 'contains' | 'exists';
+
+/** A filter on the event. All conditions must hold for a task to be created. */
+export interface WebhookCondition {
+  /** Dotted path into `{ event, payload }`, e.g. "payload.issue.labels.name" */
+  path: string;
+  op: WebhookConditionOp;
+  value?: string;
+}
+
+/** How an event becomes a task. Fields use {{path}} placeholders. */
+export interface WebhookTemplate {
+  title: string;
+  description: string;
+  /** Agent to run when auto-starting; the default agent when null */
+  agentId: string | null;
+}
+
+export interface WebhookConfigInput {
+  name: string;
+  source: WebhookSource;
+  enabled?: boolean;
+  conditions?: WebhookCondition[];
+  template: WebhookTemplate;
+  columnId?: string | null;
+  autoStart?: boolean;
+  gmailQuery?: string | null;
+}
+
+export interface WebhookConfig {
+  id: string;
+  projectId: string;
+  userId: string;
+  name: string;
+  source: WebhookSource;
+  secret: string;
+  enabled: boolean;
+  conditions: WebhookCondition[];
+  template: WebhookTemplate;
+  columnId: string | null;
+  autoStart: boolean;
+  gmailQuery: string | null;
+  lastDeliveryAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  receivedAt: string;
+  event: string;
+  status: 'started' | 'created' | 'ignored' | 'rejected' | 'failed';
+  dedupeKey: string | null;
+  taskId: string | null;
+  planId: string | null;
+  message: string | null;
+  payload: string | null;
+}
+
+// ============================================
+// NOTIFICATIONS
+// ============================================
+
+export type NotificationEventType = 'checkpoint' | 'completed' | 'failed' | 'budget_exceeded';
+
+export type NotificationChannelType = 'web_push' | 'email' | 'webhook';
+
+export type NotificationWebhookFormat = 'slack' | 'discord' | 'json';
+
+export interface NotificationChannelConfig {
+  /** web_push: the browser's PushSubscription JSON */
+  subscription?: { endpoint: string; keys: { p256dh: string; auth: string } };
+  /** email: recipient address */
+  to?: string;
+  /** webhook */
+  url?: string;
+  format?: NotificationWebhookFormat;
+}
+
+export interface NotificationChannelInput {
+  type: NotificationChannelType;
+  name: string;
+  enabled?: boolean;
+  /** Events to send; every event when empty */
+  events?: NotificationEventType[];
+  config: NotificationChannelConfig;
+}
+
+export interface NotificationChannel {
+  id: string;
+  type: NotificationChannelType;
+  name: string;
+  enabled: boolean;
+  events: NotificationEventType[];
+  config: NotificationChannelConfig;
+  appUrl: string | null;
+  lastSentAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NotificationDigestMode = 'off' | 'hourly' | 'daily';
+
+export interface NotificationSettings {
+  digest: NotificationDigestMode;
+  /** Local hour (0-23) daily digests go out */
+  digestHour: number;
+  timezone: string;
+  nextDigestAt: string | null;
+}
+
+export interface NotificationMute {
+  projectId: string;
+  /** Muted events; every event when empty */
+  events: NotificationEventType[];
+}
+
+// ============================================
+// SANDBOXES
+// ============================================
+
+export interface SandboxSession {
+  id: string;
+  sandboxId: string;
+  projectId: string;
+  planId: string | null;
+  taskId: string | null;
+  repoUrl: string | null;
+  branch: string | null;
+  workDir: string;
+  createdAt: string;
+  lastActivityAt: string;
+}
+
+export interface SandboxFileEntry {
+  name: string;
+  /** Path relative to the session's working directory */
+  path: string;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number;
+  modifiedAt: string;
+}
+
+export interface SandboxFileListing {
+  sessionId: string;
+  workDir: string;
+  /** Directory listed, relative to the working directory ('' for the root) */
+  path: string;
+  entries: SandboxFileEntry[];
+}
+
 // ============================================
 // AGENT EXECUTION (Future-Ready)
 // ============================================
@@ -96,9 +321,19 @@ export interface ProjectCredential {
 export type BoardCredential = ProjectCredential;
 
 export interface SandboxSettings {
-  memoryLimitMb?: number;
-  timeoutMs?: number;
-  allowedDomains?: string[];
+  memoryLimitMb?: number | null;
+  timeoutMs?: number | null;
+  allowedDomains?: string[] | null;
+}
+
+/** Prepares every sandbox session of a project */
+export interface SandboxTemplate extends SandboxSettings {
+  /** Run in the working directory after the clone, in order */
+  setupCommands?: string[] | null;
+  /** Kept between sessions, relative to the working directory */
+  cacheDirectories?: string[] | null;
+  /** Files whose contents key the cache, e.g. lockfiles */
+  cacheKeyFiles?: string[] | null;
 }
 
 export interface TaskContext {
@@ -135,6 +370,7 @@ export interface DiffComment {
   endLine?: number;  // For multi-line selections
   lineType: 'addition' | 'deletion' | 'context';
   content: string;
+  label?: string;  // Shown above the comment, e.g. to mark comments proposed by the agent
 }
 
 // ============================================
@@ -196,7 +432,13 @@ export interface MCPServer {
 }
 
 /** Link pill types for enriched URL display */
-export type LinkPillType = 'google_doc' | 'google_sheet' | 'github_pr' | 'github_issue' | 'github_repo';
+export type LinkPillType =
+  | 'google_doc'
+  | 'google_sheet'
+  | 'google_calendar_event'
+  | 'github_pr'
+  | 'github_issue'
+  | 'github_repo';
 
 export interface MCPUrlPattern {
   /** Regex pattern to match URLs */
@@ -213,9 +455,32 @@ export interface MCPTool {
   name: string;
   description?: string;
   inputSchema: JSONSchema;
+  /** Null when the schema was cached before the flag was recorded */
+  mutating?: boolean | null;
   cachedAt: string;
 }
 
+export type ToolPolicyMode = 'allow' | 'ask' | 'deny';
+
+export interface ToolPolicyConstraints {
+  /** Email recipients (to, cc, bcc) must belong to one of these domains */
+  recipientDomains?: string[];
+  /** GitHub repository owner must be one of these users or organizations */
+  repoOwners?: string[];
+}
+
+/** Per-project (or global) permission for an MCP tool. toolName '*' matches every tool on the server */
+export interface ToolPolicy {
+  id: string;
+  projectId: string;
+  serverName: string;
+  toolName: string;
+  mode: ToolPolicyMode;
+  constraints?: ToolPolicyConstraints | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface JSONSchema {
   type: 'object' | 'string' | 'number' | 'boolean' | 'array' | 'integer' | 'null';
   properties?: Record<string, JSONSchema>;
@@ -239,11 +504,44 @@ export interface Agent {
   systemPrompt: string;
   model: string;
   icon: string | null;
+  budget?: AgentBudget | null;
   enabled: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+// ============================================
+// BUDGETS
+// ============================================
+
+/** Limits for a single agent run. Set on the user, project or agent */
+export interface AgentBudget {
+  maxTurns?: number | null;
+  /** Input, output and cache tokens combined */
+  maxTokens?: number | null;
+  maxCostUsd?: number | null;
+  /** Active run time, not counting time waiting for the user */
+  maxDurationMinutes?: number | null;
+  /** Keyed by tool name ("Server__method"); '*' caps all tool calls */
+  maxToolCalls?: Record<string, number> | null;
+}
+
+export type BudgetLimit = 'maxTurns' | 'maxTokens' | 'maxCostUsd' | 'maxDurationMinutes' | 'maxToolCalls';
+
+/** checkpointData of a plan paused in 'budget_exceeded' */
+export interface BudgetCheckpointData {
+  type: 'budget';
+  stepId: string;
+  exceeded: {
+    limit: BudgetLimit;
+    toolName?: string;
+    used: number;
+    max: number;
+    message: string;
+  };
+  budget: AgentBudget;
+}
+
 // ============================================
 // WORKFLOW PLAN TYPES
 // ============================================
@@ -254,14 +552,17 @@ export type WorkflowPlanStatus =
   | 'approved'
   | 'executing'
   | 'checkpoint'
+  | 'budget_exceeded'
   | 'completed'
   | 'failed';
 
 export interface WorkflowArtifact {
-  type: 'google_doc' | 'google_sheet' | 'gmail_message' | 'github_pr' | 'file' | 'other';
+  type: 'google_doc' | 'google_sheet' | 'google_calendar_event' | 'gmail_message' | 'github_pr' | 'file' | 'preview' | 'other';
   url?: string;
   title?: string;
   description?: string;
+  // Sandbox session a preview runs in (preview type)
+  sessionId?: string;
   // Email content for inline viewing (gmail_message type)
   content?: {
     to?: string;
@@ -269,6 +570,7 @@ export interface WorkflowArtifact {
     bcc?: string;
     subject?: string;
     body?: string;
+    attachments?: string[];
     sentAt?: string;
   };
 }
@@ -280,6 +582,28 @@ export interface WorkflowResult {
   error?: string;
 }
 
+export type WorkflowBranchMode = 'retry' | 'fork';
+
+/** Options for retrying or forking a failed run */
+export interface WorkflowBranchOptions {
+  /** Turn to pick up at; defaults to where the earlier run stopped */
+  fromTurn?: number;
+  /** Replacement instructions (forks only) */
+  instructions?: string;
+}
+
+/** A message sent to a running agent */
+export interface WorkflowUserMessage {
+  id: string;
+  planId: string;
+  content: string;
+  /** Skips the tool calls the agent hasn't started yet */
+  interrupt: boolean;
+  createdAt: string;
+  /** Turn the agent read the message in; null while queued */
+  deliveredTurn: number | null;
+}
+
 export interface WorkflowPlan {
   id: string;
   taskId: string;
@@ -291,10 +615,66 @@ export interface WorkflowPlan {
   currentStepIndex?: number;
   checkpointData?: Record<string, unknown>;
   result?: WorkflowResult;
+  /** Custom agent that ran this plan (null for the default agent) */
+  agentId?: string | null;
+  /** Task text the run started with (edited instructions for forks) */
+  instructions?: string | null;
+  /** Earlier run this one was retried or forked from */
+  parentPlanId?: string | null;
+  /** Turn of the earlier run this one picked up at */
+  parentTurn?: number | null;
+  branchMode?: WorkflowBranchMode | null;
+  /** Token usage per agent turn */
+  usage?: TurnUsage[] | null;
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheCreationTokens?: number;
+  cacheReadTokens?: number;
+  costUsd?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+// ============================================
+// USAGE (token and cost accounting)
+// ============================================
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+}
+
+export interface TurnUsage extends UsageTotals {
+  turn: number;
+  model: string;
+}
+
+export interface RunUsage extends UsageTotals {
+  runs: number;
+}
+
+export interface AgentUsage extends RunUsage {
+  agentId: string | null;
+  agentName: string;
+}
+
+export interface ProjectUsage extends RunUsage {
+  projectId: string;
+  projectName: string;
+}
+
+export interface UsageSummary {
+  totals: RunUsage;
+  byAgent: AgentUsage[];
+}
+
+export interface UserUsageSummary extends UsageSummary {
+  byProject: ProjectUsage[];
+}
+
 export type WorkflowStepType = 'tool_call' | 'checkpoint' | 'internal' | 'agent' | 'tool';
 export type WorkflowStepStatus =
   | 'pending'
@@ -347,6 +727,32 @@ export interface WorkflowLog {
   metadata?: WorkflowLogMetadata;
 }
 
+export type SandboxOutputStream = 'stdout' | 'stderr' | 'system';
+
+export interface SandboxOutputChunk {
+  stream: SandboxOutputStream;
+  text: string;
+}
+
+/** Output a sandbox tool step wrote (the end of it, when loaded from the API) */
+export interface SandboxStepOutput {
+  planId: string;
+  stepId: string;
+  toolName: string;
+  chunks: SandboxOutputChunk[];
+  size: number;
+  truncated: boolean;
+  updatedAt: string;
+}
+
+/** A batch of output broadcast while a tool runs */
+export interface SandboxOutputEvent {
+  planId: string;
+  stepId: string;
+  toolName: string;
+  chunks: SandboxOutputChunk[];
+}
+
 // ============================================
 // ROADMAP TYPES
 // ============================================
@@ -0,0 +1,106 @@
+/**
+ * Helpers for task dependencies (context.dependsOn)
+ */
+
+import type { Task, WorkflowPlan } from '../types';
+
+export interface DependencyGraphNode {
+  task: Task;
+  /** Column in the graph: 0 for tasks without dependencies */
+  layer: number;
+  /** Position within the layer */
+  row: number;
+}
+
+export interface DependencyGraphEdge {
+  /** The dependency */
+  from: string;
+  /** The task that waits on it */
+  to: string;
+}
+
+export function dependencyIds(task: Task): string[] {
+  return task.context?.dependsOn ?? [];
+}
+
+/**
+ * The newest plan of each task (retries leave older plans behind)
+ */
+export function latestPlansByTask(plans: WorkflowPlan[]): Record<string, WorkflowPlan> {
+  const latest: Record<string, WorkflowPlan> = {};
+  for (const plan of plans) {
+    const current = latest[plan.taskId];
+    if (!current || plan.createdAt > current.createdAt) {
+      latest[plan.taskId] = plan;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Dependencies of a task whose latest run hasn't completed. Deleted tasks don't block.
+ */
+export function getBlockingTasks(task: Task, tasks: Task[], latestPlans: Record<string, WorkflowPlan>): Task[] {
+  const ids = dependencyIds(task);
+  return tasks.filter((t) => ids.includes(t.id) && latestPlans[t.id]?.status !== 'completed');
+}
+
+/**
+ * Tasks that depend on a task directly or through others. Picking one of them
+ * as a dependency of the task would create a cycle.
+ */
+export function getDependentTaskIds(taskId: string, tasks: Task[]): Set<string> {
+  const dependents = new Set<string>();
+  const pending = [taskId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    for (const t of tasks) {
+      if (!dependents.has(t.id) && dependencyIds(t).includes(id)) {
+        dependents.add(t.id);
+        pending.push(t.id);
+      }
+    }
+  }
+  return dependents;
+}
+
+/**
+ * Lay out the tasks that take part in a dependency in layers, so every edge
+ * points to a later layer
+ */
+export function layoutDependencyGraph(tasks: Task[]): { nodes: DependencyGraphNode[]; edges: DependencyGraphEdge[] } {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const edges: DependencyGraphEdge[] = [];
+  for (const task of tasks) {
+    for (const id of dependencyIds(task)) {
+      if (byId.has(id)) edges.push({ from: id, to: task.id });
+    }
+  }
+
+  const linked = new Set(edges.flatMap((e) => [e.from, e.to]));
+  const layers = new Map<string, number>();
+  const layerOf = (id: string, visiting: Set<string>): number => {
+    const known = layers.get(id);
+    if (known !== undefined) return known;
+    // The server rejects cycles; this only guards against stale data
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+    const deps = dependencyIds(byId.get(id)!).filter((d) => byId.has(d));
+    const layer = deps.length > 0 ? Math.max(...deps.map((d) => layerOf(d, visiting))) + 1 : 0;
+    visiting.delete(id);
+    layers.set(id, layer);
+    return layer;
+  };
+
+  const rows = new Map<number, number>();
+  const nodes = tasks
+    .filter((t) => linked.has(t.id))
+    .map((task) => {
+      const layer = layerOf(task.id, new Set());
+      const row = rows.get(layer) ?? 0;
+      rows.set(layer, row + 1);
+      return { task, layer, row };
+    });
+
+  return { nodes, edges };
+}
@@ -142,6 +142,117 @@ function parseFileDiff(diffText: string): DiffFile | null {
   };
 }
 
+/** Largest changed region (old lines x new lines) compared line by line */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line edit script from `before` to `after`, as unnumbered diff lines.
+ * Lines shared at the start and end are matched directly; the rest uses a
+ * longest-common-subsequence table, or is shown as a full replacement when
+ * it is too large to compare.
+ */
+function editScript(before: string[], after: string[]): Array<Pick<DiffLine, 'type' | 'content'>> {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix
+    && suffix < after.length - prefix
+    && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const context = (content: string) => ({ type: 'context' as const, content });
+  const middle: Array<Pick<DiffLine, 'type' | 'content'>> = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    middle.push(
+      ...a.map((content) => ({ type: 'deletion' as const, content })),
+      ...b.map((content) => ({ type: 'addition' as const, content }))
+    );
+  } else {
+    // lcs[i * width + j] = common lines of a[i..] and b[j..]
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push(context(a[i]));
+        i++;
+        j++;
+      } else if (i < a.length && (j === b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        middle.push({ type: 'deletion', content: a[i++] });
+      } else {
+        middle.push({ type: 'addition', content: b[j++] });
+      }
+    }
+  }
+
+  return [
+    ...before.slice(0, prefix).map(context),
+    ...middle,
+    ...before.slice(before.length - suffix).map(context),
+  ];
+}
+
+/**
+ * Diff two versions of a file, for changes that arrive as whole file
+ * contents rather than a diff. `before` is undefined for a new file.
+ */
+export function diffContents(path: string, before: string | undefined, after: string, contextLines = 3): DiffFile {
+  const toLines = (text: string | undefined) => (text ? text.replace(/\n$/, '').split('\n') : []);
+
+  let oldLineNumber = 1;
+  let newLineNumber = 1;
+  const lines: DiffLine[] = editScript(toLines(before), toLines(after)).map((line) => ({
+    ...line,
+    ...(line.type !== 'addition' && { oldLineNumber: oldLineNumber++ }),
+    ...(line.type !== 'deletion' && { newLineNumber: newLineNumber++ }),
+  }));
+
+  // Group changes that are close enough to share their context lines
+  const changed = lines.flatMap((line, index) => (line.type === 'context' ? [] : [index]));
+  const groups: Array<[number, number]> = [];
+  for (const index of changed) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= contextLines * 2 + 1) last[1] = index;
+    else groups.push([index, index]);
+  }
+
+  const hunks: DiffHunk[] = groups.map(([first, last]) => {
+    const hunkLines = lines.slice(Math.max(0, first - contextLines), last + contextLines + 1);
+    const oldLines = hunkLines.filter((line) => line.type !== 'addition').length;
+    const newLines = hunkLines.filter((line) => line.type !== 'deletion').length;
+    const oldStart = hunkLines.find((line) => line.oldLineNumber !== undefined)?.oldLineNumber ?? 0;
+    const newStart = hunkLines.find((line) => line.newLineNumber !== undefined)?.newLineNumber ?? 0;
+    return {
+      oldStart,
+      oldLines,
+      newStart,
+      newLines,
+      header: `@@ -${oldStart},${oldLines} +${newStart},${newLines} @@`,
+      lines: hunkLines,
+    };
+  });
+
+  return {
+    path,
+    action: before === undefined ? 'added' : 'modified',
+    hunks,
+    additions: lines.filter((line) => line.type === 'addition').length,
+    deletions: lines.filter((line) => line.type === 'deletion').length,
+  };
+}
+
 /**
  * Get file extension from path
  */
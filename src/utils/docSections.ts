@@ -0,0 +1,183 @@
+/**
+ * Google Docs section diff
+ *
+ * Works on document text as Google_Docs__getDocument returns it, with
+ * headings marked up as Markdown ("## Rollout"). Used by the Docs approval
+ * view to work out what a pending edit does to a document and to show only
+ * the sections it changes.
+ */
+
+export interface DocTextSection {
+  /** Heading text without the "#" markers, or null for text before the first heading */
+  heading: string | null;
+  level: number;
+  /** The section's text, heading line included */
+  text: string;
+}
+
+export interface SectionChange {
+  heading: string | null;
+  /** Section text before the edit ('' when the edit adds the section) */
+  before: string;
+  /** Section text after the edit ('' when the edit removes the section) */
+  after: string;
+}
+
+/** Edit fields from the approval data of a Docs tool */
+export interface DocEdit {
+  content?: string;
+  find?: string;
+  replaceWith?: string;
+  matchCase?: boolean;
+  heading?: string;
+}
+
+const HEADING_LINE = /^(#{1,6})\s+(.*)$/;
+
+function normalizeHeading(heading: string): string {
+  return heading.replace(/^#+\s*/, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** One paragraph per line, blank lines dropped */
+export function splitParagraphs(text: string): string[] {
+  return text.split('\n').filter((line) => line.trim());
+}
+
+/**
+ * Split text at every heading line. Subsections are sections of their own,
+ * so an edit deep in a long chapter only shows that subsection.
+ */
+export function splitSections(text: string): DocTextSection[] {
+  const sections: DocTextSection[] = [];
+  let heading: string | null = null;
+  let level = 0;
+  let lines: string[] = [];
+
+  const flush = () => {
+    if (heading !== null || lines.some((line) => line.trim())) {
+      sections.push({ heading, level, text: lines.join('\n').trim() });
+    }
+  };
+
+  for (const line of text.split('\n')) {
+    const match = line.match(HEADING_LINE);
+    if (match) {
+      flush();
+      heading = match[2].trim();
+      level = match[1].length;
+      lines = [];
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+function findHeadingLine(lines: string[], heading: string): number {
+  const wanted = normalizeHeading(heading);
+  return lines.findIndex((line) => {
+    const match = line.match(HEADING_LINE);
+    return match !== null && normalizeHeading(match[2]) === wanted;
+  });
+}
+
+/** Line index where the section starting at `start` ends: the next heading of the same or a higher level */
+function sectionEndLine(lines: string[], start: number): number {
+  const level = lines[start].match(HEADING_LINE)![1].length;
+  for (let i = start + 1; i < lines.length; i++) {
+    const match = lines[i].match(HEADING_LINE);
+    if (match && match[1].length <= level) return i;
+  }
+  return lines.length;
+}
+
+/**
+ * Document text after a Docs tool runs, mirroring what DocsMCPServer does.
+ * suggestEdit shows the document as if the suggestion were accepted.
+ * Returns null when the edit cannot apply (heading or text not found).
+ */
+export function applyDocEdit(toolName: string, currentContent: string, edit: DocEdit): string | null {
+  switch (toolName) {
+    case 'appendToDocument':
+      return currentContent ? `${currentContent.replace(/\n+$/, '')}\n${edit.content || ''}` : edit.content || '';
+    case 'replaceDocumentContent':
+      return edit.content || '';
+    case 'replaceText':
+    case 'suggestEdit': {
+      if (!edit.find) return null;
+      const pattern = new RegExp(escapeRegExp(edit.find), edit.matchCase === false ? 'gi' : 'g');
+      if (currentContent.search(pattern) === -1) return null;
+      return currentContent.replace(pattern, () => edit.replaceWith || '');
+    }
+    case 'insertAfterHeading':
+    case 'updateSection': {
+      const lines = currentContent.split('\n');
+      const start = findHeadingLine(lines, edit.heading || '');
+      if (start === -1) return null;
+      const end = toolName === 'updateSection' ? sectionEndLine(lines, start) : start + 1;
+      return [...lines.slice(0, start + 1), ...(edit.content || '').split('\n'), ...lines.slice(end)].join('\n');
+    }
+    default:
+      // Comments leave the text as it is
+      return currentContent;
+  }
+}
+
+/**
+ * Sections that differ between two versions of a document, in document
+ * order. Sections are matched by heading (the nth "Notes" with the nth
+ * "Notes"), so a renamed heading shows as one section removed and one added.
+ */
+export function changedSections(before: string, after: string): { changes: SectionChange[]; unchanged: number } {
+  const withKeys = (sections: DocTextSection[]) => {
+    const seen = new Map<string, number>();
+    return sections.map((section) => {
+      const base = section.heading === null ? '' : normalizeHeading(section.heading);
+      const occurrence = seen.get(base) || 0;
+      seen.set(base, occurrence + 1);
+      return { ...section, key: `${base}#${occurrence}` };
+    });
+  };
+
+  const beforeSections = withKeys(splitSections(before));
+  const afterSections = withKeys(splitSections(after));
+  const beforeIndex = new Map(beforeSections.map((section, i) => [section.key, i]));
+  const afterKeys = new Set(afterSections.map((section) => section.key));
+
+  const changes: SectionChange[] = [];
+  let unchanged = 0;
+  let nextBefore = 0;
+
+  // Removed sections are listed where they used to be
+  const addRemovedUpTo = (end: number) => {
+    for (; nextBefore < end; nextBefore++) {
+      const section = beforeSections[nextBefore];
+      if (!afterKeys.has(section.key)) {
+        changes.push({ heading: section.heading, before: section.text, after: '' });
+      }
+    }
+  };
+
+  for (const section of afterSections) {
+    const i = beforeIndex.get(section.key);
+    if (i === undefined) {
+      changes.push({ heading: section.heading, before: '', after: section.text });
+      continue;
+    }
+    addRemovedUpTo(i);
+    nextBefore = Math.max(nextBefore, i + 1);
+    if (beforeSections[i].text === section.text) {
+      unchanged++;
+    } else {
+      changes.push({ heading: section.heading, before: beforeSections[i].text, after: section.text });
+    }
+  }
+  addRemovedUpTo(beforeSections.length);
+
+  return { changes, unchanged };
+}
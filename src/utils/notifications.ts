@@ -0,0 +1,75 @@
+/**
+ * Helpers for notification settings, including the browser side of Web
+ * Push: registering the service worker and subscribing with the app's
+ * VAPID key
+ */
+
+import type { NotificationChannelConfig, NotificationEventType } from '../types';
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEventType, string> = {
+  checkpoint: 'Needs approval',
+  completed: 'Completed',
+  failed: 'Failed',
+  budget_exceeded: 'Budget reached',
+};
+
+export const NOTIFICATION_EVENTS = Object.keys(NOTIFICATION_EVENT_LABELS) as NotificationEventType[];
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export function isPushSupported(): boolean {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+/**
+ * Ask for permission and subscribe this browser, returning the subscription
+ * to store on a web_push channel
+ */
+export async function subscribeToPush(vapidPublicKey: string): Promise<NonNullable<NotificationChannelConfig['subscription']>> {
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site');
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToBytes(vapidPublicKey),
+    });
+
+  const json = subscription.toJSON();
+  if (!json.endpoint || !json.keys?.p256dh || !json.keys?.auth) {
+    throw new Error('The browser returned an incomplete push subscription');
+  }
+  return { endpoint: json.endpoint, keys: { p256dh: json.keys.p256dh, auth: json.keys.auth } };
+}
+
+/** A short name for this browser, used as the channel name */
+export function browserName(): string {
+  const ua = navigator.userAgent;
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Firefox\//.test(ua) ? 'Firefox'
+      : /Chrome\//.test(ua) ? 'Chrome'
+        : /Safari\//.test(ua) ? 'Safari'
+          : 'Browser';
+  const os = /Mac OS X/.test(ua) ? 'macOS'
+    : /Windows/.test(ua) ? 'Windows'
+      : /Android/.test(ua) ? 'Android'
+        : /iPhone|iPad/.test(ua) ? 'iOS'
+          : /Linux/.test(ua) ? 'Linux'
+            : '';
+  return os ? `${browser} on ${os}` : browser;
+}
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,56 @@
+/**
+ * Helpers for live sandbox output (the terminal pane of tool steps)
+ */
+
+import type { SandboxOutputChunk, SandboxOutputEvent, SandboxStepOutput } from '../types';
+
+/** Characters of each step's output kept in the browser */
+const MAX_PANE_CHARS = 50_000;
+
+/**
+ * Add a broadcast batch to a plan's step output, keeping only the end of
+ * long transcripts (the full text is downloaded from the server)
+ */
+export function appendSandboxOutput(outputs: SandboxStepOutput[], event: SandboxOutputEvent): SandboxStepOutput[] {
+  const added = event.chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+  const existing = outputs.find((output) => output.stepId === event.stepId);
+  if (!existing) {
+    return [...outputs, {
+      planId: event.planId,
+      stepId: event.stepId,
+      toolName: event.toolName,
+      chunks: trimChunks(event.chunks),
+      size: added,
+      truncated: false,
+      updatedAt: new Date().toISOString(),
+    }];
+  }
+
+  return outputs.map((output) => output === existing
+    ? {
+        ...output,
+        chunks: trimChunks([...output.chunks, ...event.chunks]),
+        size: output.size + added,
+        updatedAt: new Date().toISOString(),
+      }
+    : output);
+}
+
+function trimChunks(chunks: SandboxOutputChunk[]): SandboxOutputChunk[] {
+  let total = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+  let start = 0;
+  while (total > MAX_PANE_CHARS && start < chunks.length - 1) {
+    total -= chunks[start].text.length;
+    start++;
+  }
+  return start > 0 ? chunks.slice(start) : chunks;
+}
+
+/**
+ * Human-readable size of a transcript
+ */
+export function formatOutputSize(chars: number): string {
+  if (chars < 1024) return `${chars} B`;
+  if (chars < 1024 * 1024) return `${(chars / 1024).toFixed(1)} KB`;
+  return `${(chars / (1024 * 1024)).toFixed(1)} MB`;
+}
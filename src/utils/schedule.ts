@@ -0,0 +1,51 @@
+/**
+ * Helpers for task schedules
+ */
+
+import type { ScheduleRepeatRule, TaskSchedule } from '../types';
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** The browser's timezone, used as the default for new schedules */
+export function localTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Short human description of a repeat rule ("Weekdays at 09:00")
+ */
+export function describeRepeatRule(rule: ScheduleRepeatRule): string {
+  switch (rule.frequency) {
+    case 'hourly':
+      return `Hourly at :${rule.time.slice(3)}`;
+    case 'daily':
+      return `Daily at ${rule.time}`;
+    case 'weekdays':
+      return `Weekdays at ${rule.time}`;
+    case 'weekly':
+      return `${(rule.daysOfWeek || []).map((d) => WEEKDAY_NAMES[d]).join(', ')} at ${rule.time}`;
+    case 'monthly':
+      return `Monthly on day ${rule.dayOfMonth} at ${rule.time}`;
+  }
+}
+
+export function describeSchedule(schedule: Pick<TaskSchedule, 'cron' | 'repeat' | 'timezone'>): string {
+  const when = schedule.repeat ? describeRepeatRule(schedule.repeat) : `Cron "${schedule.cron}"`;
+  return `${when} (${schedule.timezone})`;
+}
+
+/**
+ * Compact label for the next run: time today, weekday this week, date after that
+ */
+export function formatNextRun(iso: string, now = new Date()): string {
+  const date = new Date(iso);
+  const time = date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+  if (date.toDateString() === now.toDateString()) {
+    return time;
+  }
+  const daysAway = (date.getTime() - now.getTime()) / 86_400_000;
+  if (daysAway < 6) {
+    return `${date.toLocaleDateString(undefined, { weekday: 'short' })} ${time}`;
+  }
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
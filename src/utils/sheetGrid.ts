@@ -0,0 +1,293 @@
+/**
+ * Google Sheets cell diff
+ *
+ * Works out what a pending Sheets tool call does to each sheet it touches,
+ * from the tool's arguments and the current sheet contents in the approval
+ * data. Used by the Sheets approval view to show a cell-level before and
+ * after grid per sheet.
+ */
+
+export type CellValue = string | number | boolean | null | undefined;
+export type Grid = string[][];
+
+/** Zero-based area with exclusive ends; an unset end runs to the edge of the sheet */
+export interface GridArea {
+  startRow: number;
+  endRow?: number;
+  startColumn: number;
+  endColumn?: number;
+}
+
+export interface SheetChange {
+  sheetName: string;
+  /** New name when the edit renames the sheet */
+  renamedTo?: string;
+  status: 'added' | 'removed' | 'changed';
+  before: Grid;
+  after: Grid;
+  /** Cells the edit touches without changing their values (formatting, chart data) */
+  highlight?: GridArea;
+  /** What happens besides value changes, e.g. "Column chart" */
+  note?: string;
+}
+
+export type CellStatus = 'unchanged' | 'changed' | 'added' | 'removed';
+
+/** Approval data fields the diff reads: the tool's own arguments plus display-only current contents */
+export interface SheetEditData {
+  /** Current rows of each touched sheet, by sheet name */
+  currentSheets?: Record<string, CellValue[][]>;
+  /** Current rows of a single sheet (older approval requests) */
+  currentRows?: CellValue[][];
+  currentData?: CellValue[][];
+  newRows?: CellValue[][];
+  newData?: CellValue[][];
+  sheetName?: string;
+  sheetTitle?: string;
+  newName?: string;
+  range?: string;
+  /** Rows to append, or the number of rows to freeze */
+  rows?: CellValue[][] | number;
+  values?: CellValue[][];
+  data?: CellValue[][];
+  formulas?: Array<{ cell: string; formula: string }>;
+  chartType?: string;
+  dataRange?: string;
+  sourceRange?: string;
+  columns?: number;
+  [key: string]: unknown;
+}
+
+const CELL_REF = /^\$?([A-Z]{0,3})\$?(\d*)$/i;
+
+const FORMAT_LABELS: Record<string, string> = {
+  bold: 'bold',
+  italic: 'italic',
+  fontSize: 'font size',
+  textColor: 'text colour',
+  backgroundColor: 'fill colour',
+  horizontalAlignment: 'alignment',
+  wrap: 'wrapping',
+  numberFormat: 'number format',
+  numberPattern: 'number format',
+};
+
+export function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function columnIndex(letters: string): number {
+  return letters.toUpperCase().split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function parseCellRef(ref: string): { row?: number; column?: number } | null {
+  const match = ref.match(CELL_REF);
+  if (!match || (!match[1] && !match[2])) return null;
+  return {
+    column: match[1] ? columnIndex(match[1]) : undefined,
+    row: match[2] ? Number(match[2]) - 1 : undefined,
+  };
+}
+
+/** Parse an A1 range ("Sheet1", "'Q1 plan'!B2:D10", "A:C", "B2") */
+export function parseA1(range: string): { sheetName?: string; area: GridArea } | null {
+  const unquote = (name: string) => name.replace(/^'(.*)'$/, '$1').replace(/''/g, "'");
+  const bang = range.lastIndexOf('!');
+  const refs = bang === -1 ? range : range.slice(bang + 1);
+  const sheetName = bang === -1 ? undefined : unquote(range.slice(0, bang));
+
+  const [startRef, endRef = startRef] = refs.split(':');
+  const start = parseCellRef(startRef);
+  const end = parseCellRef(endRef);
+  if (!start || !end) {
+    return bang === -1 ? { sheetName: unquote(range), area: { startRow: 0, startColumn: 0 } } : null;
+  }
+
+  return {
+    sheetName,
+    area: {
+      startRow: start.row ?? 0,
+      endRow: end.row !== undefined ? end.row + 1 : undefined,
+      startColumn: start.column ?? 0,
+      endColumn: end.column !== undefined ? end.column + 1 : undefined,
+    },
+  };
+}
+
+export function toGrid(rows: CellValue[][] | undefined): Grid {
+  return (rows || []).map((row) => row.map((cell) => (cell === null || cell === undefined ? '' : String(cell))));
+}
+
+function writeCells(grid: Grid, startRow: number, startColumn: number, values: Grid): Grid {
+  const next = grid.map((row) => [...row]);
+  values.forEach((row, r) => {
+    const target = next[startRow + r] ?? [];
+    while (next.length <= startRow + r) next.push([]);
+    row.forEach((cell, c) => {
+      while (target.length < startColumn + c) target.push('');
+      target[startColumn + c] = cell;
+    });
+    next[startRow + r] = target;
+  });
+  return next;
+}
+
+function inArea(area: GridArea, row: number, column: number): boolean {
+  return row >= area.startRow
+    && (area.endRow === undefined || row < area.endRow)
+    && column >= area.startColumn
+    && (area.endColumn === undefined || column < area.endColumn);
+}
+
+export function isHighlighted(change: SheetChange, row: number, column: number): boolean {
+  return change.highlight !== undefined && inArea(change.highlight, row, column);
+}
+
+export function cellStatus(change: SheetChange, row: number, column: number): CellStatus {
+  const before = change.before[row]?.[column] ?? '';
+  const after = change.after[row]?.[column] ?? '';
+  if (before === after) return 'unchanged';
+  if (!before) return 'added';
+  if (!after) return 'removed';
+  return 'changed';
+}
+
+/**
+ * The changes a Sheets tool call makes, one entry per sheet it touches.
+ * `toolName` is the tool without its server prefix ("updateCells").
+ */
+export function applySheetEdit(toolName: string, data: SheetEditData): SheetChange[] {
+  const legacyRows = data.currentRows || data.currentData;
+  const rowsArg = Array.isArray(data.rows) ? data.rows : undefined;
+  const currentSheets: Record<string, Grid> = Object.fromEntries(
+    Object.entries(data.currentSheets || {}).map(([name, rows]) => [name, toGrid(rows)])
+  );
+  const defaultSheet = data.sheetName || Object.keys(currentSheets)[0] || 'Sheet1';
+  if (legacyRows && !currentSheets[defaultSheet]) currentSheets[defaultSheet] = toGrid(legacyRows);
+
+  const current = (sheetName: string) => currentSheets[sheetName] || [];
+  const unchanged = (sheetName: string, extra: Partial<SheetChange>): SheetChange => ({
+    sheetName,
+    status: 'changed',
+    before: current(sheetName),
+    after: current(sheetName),
+    ...extra,
+  });
+  const sourceArea = (range: string | undefined) => {
+    const parsed = range ? parseA1(range) : null;
+    return parsed ? { sheetName: parsed.sheetName || defaultSheet, area: parsed.area } : null;
+  };
+
+  switch (toolName) {
+    case 'createSpreadsheet':
+      return [{
+        sheetName: data.sheetTitle || 'Sheet1',
+        status: 'added',
+        before: [],
+        after: toGrid(data.data || rowsArg || data.newRows || data.newData),
+      }];
+    case 'appendRows': {
+      const before = current(defaultSheet);
+      const rows = toGrid(rowsArg || data.newRows || data.newData);
+      return [{ sheetName: defaultSheet, status: 'changed', before, after: [...before, ...rows] }];
+    }
+    case 'replaceSheetContent':
+      return [{
+        sheetName: defaultSheet,
+        status: 'changed',
+        before: current(defaultSheet),
+        after: toGrid(data.data || data.newRows || data.newData),
+      }];
+    case 'updateCells': {
+      const target = sourceArea(data.range);
+      if (!target) return [];
+      const before = current(target.sheetName);
+      const after = writeCells(before, target.area.startRow, target.area.startColumn, toGrid(data.values));
+      return [{ sheetName: target.sheetName, status: 'changed', before, after }];
+    }
+    case 'writeFormulas': {
+      const afterSheets = new Map<string, Grid>();
+      for (const { cell, formula } of data.formulas || []) {
+        const target = sourceArea(cell);
+        if (!target) continue;
+        const grid = afterSheets.get(target.sheetName) || current(target.sheetName);
+        afterSheets.set(target.sheetName, writeCells(grid, target.area.startRow, target.area.startColumn, [[formula]]));
+      }
+      return [...afterSheets].map(([sheetName, after]) => ({
+        sheetName,
+        status: 'changed',
+        before: current(sheetName),
+        after,
+      }));
+    }
+    case 'addSheet':
+      return [{ sheetName: defaultSheet, status: 'added', before: [], after: toGrid(data.data) }];
+    case 'renameSheet':
+      return [unchanged(defaultSheet, { renamedTo: data.newName })];
+    case 'deleteSheet':
+      return [{ sheetName: defaultSheet, status: 'removed', before: current(defaultSheet), after: [] }];
+    case 'formatCells': {
+      const target = sourceArea(data.range);
+      if (!target) return [];
+      const options = [...new Set(
+        Object.keys(FORMAT_LABELS).filter((key) => data[key] !== undefined).map((key) => FORMAT_LABELS[key])
+      )];
+      return [unchanged(target.sheetName, {
+        highlight: target.area,
+        note: options.length > 0 ? `Formatting: ${options.join(', ')}` : undefined,
+      })];
+    }
+    case 'freezeRows': {
+      const rows = typeof data.rows === 'number' ? data.rows : 1;
+      const note = `Freeze ${rows} row${rows === 1 ? '' : 's'}${data.columns ? ` and ${data.columns} column${data.columns === 1 ? '' : 's'}` : ''}`;
+      return [unchanged(defaultSheet, {
+        highlight: rows > 0 ? { startRow: 0, endRow: rows, startColumn: 0 } : undefined,
+        note,
+      })];
+    }
+    case 'addChart': {
+      const target = sourceArea(data.dataRange);
+      if (!target) return [];
+      return [unchanged(target.sheetName, { highlight: target.area, note: `New ${data.chartType || ''} chart from the highlighted data` })];
+    }
+    case 'addPivotTable': {
+      const target = sourceArea(data.sourceRange);
+      if (!target) return [];
+      const pivotSheet = data.sheetName || 'Pivot table';
+      return [
+        unchanged(target.sheetName, { highlight: target.area, note: `Pivot table of the highlighted data on "${pivotSheet}"` }),
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Rows worth showing for a change: every row of an added or removed sheet,
+ * otherwise changed and highlighted rows with a row of context either side
+ * and the header row.
+ */
+export function visibleRows(change: SheetChange, maxRows = 200): number[] {
+  const rowCount = Math.max(change.before.length, change.after.length);
+  if (change.status !== 'changed') {
+    return Array.from({ length: Math.min(rowCount, maxRows) }, (_, i) => i);
+  }
+
+  const rows = new Set<number>();
+  const columnCount = Math.max(...[...change.before, ...change.after].map((row) => row.length), 0);
+  for (let r = 0; r < rowCount; r++) {
+    const touched = Array.from({ length: columnCount }, (_, c) => c)
+      .some((c) => cellStatus(change, r, c) !== 'unchanged' || isHighlighted(change, r, c));
+    if (touched) {
+      for (let context = Math.max(0, r - 1); context <= Math.min(rowCount - 1, r + 1); context++) rows.add(context);
+    }
+  }
+  if (rowCount > 0) rows.add(0);
+
+  return [...rows].sort((a, b) => a - b).slice(0, maxRows);
+}
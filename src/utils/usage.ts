@@ -0,0 +1,20 @@
+/**
+ * Formatting helpers for token usage and cost
+ */
+
+export function formatCost(costUsd: number): string {
+  if (costUsd > 0 && costUsd < 0.01) {
+    return '<$0.01';
+  }
+  return `$${costUsd.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+  if (tokens >= 1_000) {
+    return `${(tokens / 1_000).toFixed(1)}k`;
+  }
+  return String(tokens);
+}
@@ -0,0 +1,34 @@
+/**
+ * Helpers for workflow plans and steps
+ */
+
+import type { WorkflowPlan } from '../types';
+
+/**
+ * Agent turn a step belongs to, from its id ("turn-3", "tool-3-toolu_...",
+ * "budget-turn-3-0"). Returns null for steps outside the turn loop.
+ */
+export function turnFromStepId(stepId: string): number | null {
+  const match = stepId.match(/^(?:budget-)?(?:turn|tool)-(\d+)(?:-|$)/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Whether the plan's agent can still receive messages from the user
+ */
+export function canMessageAgent(plan: Pick<WorkflowPlan, 'status'>): boolean {
+  return plan.status === 'executing' || plan.status === 'checkpoint' || plan.status === 'budget_exceeded';
+}
+
+/**
+ * Display name of a tool ("Sandbox__runClaude" -> "Run Claude"), matching
+ * the names the workflow gives tool steps
+ */
+export function formatToolName(toolName: string): string {
+  const parts = toolName.split('__');
+  const method = parts.length > 1 ? parts[1] : toolName;
+  return method
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/^./, (str) => str.toUpperCase())
+    .trim();
+}
@@ -0,0 +1,172 @@
+/**
+ * Approval Gate Tests
+ *
+ * Proves that:
+ * - Write tools are declared as mutating, read tools are not
+ * - Remote tools with an unknown flag are gated and never run in parallel
+ * - A mutating tool call never reaches executeMcpTool without approval
+ * - Approved calls run the exact approved payload with user edits merged in
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildApprovedArgs,
+  cachedRemoteToolFlags,
+  findServerTool,
+  isMutatingToolCall,
+  runGatedToolCall,
+  type ApprovalDecision,
+  type GatedServer,
+} from '../../worker/workflows/approvalGate';
+import { isMutatingToolSchema } from '../../worker/mcp/MCPClient';
+import { toolsToMCPSchemas } from '../../worker/utils/zodTools';
+import { gmailTools } from '../../worker/google/gmailTools';
+import { sandboxTools } from '../../worker/sandbox/sandboxTools';
+
+const servers: GatedServer[] = [
+  {
+    name: 'Gmail',
+    tools: [
+      {
+        name: 'sendEmail',
+        mutating: true,
+        inputSchema: {
+          type: 'object',
+          properties: { to: {}, subject: {}, body: {}, cc: {} },
+        },
+      },
+      { name: 'listMessages', mutating: false, inputSchema: { type: 'object' } },
+    ],
+  },
+  {
+    name: 'Team Wiki',
+    tools: [{ name: 'update_page', mutating: true, inputSchema: { type: 'object' } }],
+  },
+];
+
+const emailRequest = {
+  tool: 'Gmail__sendEmail',
+  action: 'Send Email',
+  data: { to: 'a@example.com', subject: 'Hi', body: 'Draft', diff: 'display only' },
+};
+
+describe('tool declarations', () => {
+  it('marks hosted write tools as mutating and read tools as not', () => {
+    const schemas = toolsToMCPSchemas(gmailTools);
+    const byName = Object.fromEntries(schemas.map((s) => [s.name, s]));
+
+    expect(byName.sendEmail.mutating).toBe(true);
+    expect(byName.listMessages.mutating).toBe(false);
+    expect(byName.getMessage.mutating).toBe(false);
+  });
+
+  it('holds sandbox tools that run commands, change code or reach GitHub for approval', () => {
+    const byName = Object.fromEntries(toolsToMCPSchemas(sandboxTools).map((s) => [s.name, s]));
+
+    for (const name of ['push', 'commit', 'exec', 'writeFile', 'runClaude', 'startPreview']) {
+      expect(byName[name].mutating).toBe(true);
+    }
+    expect(byName.getDiff.mutating).toBe(false);
+    expect(byName.readFile.mutating).toBe(false);
+  });
+
+  it('treats remote tools as mutating unless annotated read-only', () => {
+    expect(isMutatingToolSchema({ annotations: { readOnlyHint: true } })).toBe(false);
+    expect(isMutatingToolSchema({ annotations: { readOnlyHint: false } })).toBe(true);
+    expect(isMutatingToolSchema({})).toBe(true);
+    expect(isMutatingToolSchema({ mutating: false })).toBe(false);
+  });
+});
+
+describe('cachedRemoteToolFlags', () => {
+  it('treats tools cached before the flag was recorded as mutating and not read-only', () => {
+    expect(cachedRemoteToolFlags(null)).toEqual({ mutating: true, readOnly: false });
+    expect(cachedRemoteToolFlags(undefined)).toEqual({ mutating: true, readOnly: false });
+    expect(cachedRemoteToolFlags(true)).toEqual({ mutating: true, readOnly: false });
+    expect(cachedRemoteToolFlags(false)).toEqual({ mutating: false, readOnly: true });
+  });
+});
+
+describe('isMutatingToolCall', () => {
+  it('matches tools by normalized server name', () => {
+    expect(isMutatingToolCall(servers, 'Gmail__sendEmail')).toBe(true);
+    expect(isMutatingToolCall(servers, 'Team_Wiki__update_page')).toBe(true);
+    expect(isMutatingToolCall(servers, 'Gmail__listMessages')).toBe(false);
+    expect(isMutatingToolCall(servers, 'Unknown__tool')).toBe(false);
+  });
+});
+
+describe('runGatedToolCall', () => {
+  const tool = findServerTool(servers, 'Gmail__sendEmail')!;
+
+  it.each<ApprovalDecision['action']>(['request_changes', 'cancel'])(
+    'never executes the tool when the user chooses %s',
+    async (action) => {
+      const executeMcpTool = vi.fn();
+
+      const outcome = await runGatedToolCall(emailRequest, tool, {
+        waitForDecision: async () => ({ action, feedback: 'Not yet' }),
+        execute: executeMcpTool,
+      });
+
+      expect(executeMcpTool).not.toHaveBeenCalled();
+      expect(outcome.execution).toBeUndefined();
+      expect(outcome.decision.feedback).toBe('Not yet');
+    }
+  );
+
+  it('never executes the tool when the approval wait fails', async () => {
+    const executeMcpTool = vi.fn();
+
+    await expect(runGatedToolCall(emailRequest, tool, {
+      waitForDecision: async () => {
+        throw new Error('Approval timed out');
+      },
+      execute: executeMcpTool,
+    })).rejects.toThrow('Approval timed out');
+
+    expect(executeMcpTool).not.toHaveBeenCalled();
+  });
+
+  it('waits for the decision before executing', async () => {
+    const order: string[] = [];
+
+    await runGatedToolCall(emailRequest, tool, {
+      waitForDecision: async () => {
+        order.push('approval');
+        return { action: 'approve' };
+      },
+      execute: async () => {
+        order.push('execute');
+      },
+    });
+
+    expect(order).toEqual(['approval', 'execute']);
+  });
+
+  it('executes the approved payload once with user edits merged in', async () => {
+    const executeMcpTool = vi.fn(async () => ({ success: true }));
+
+    const outcome = await runGatedToolCall(emailRequest, tool, {
+      waitForDecision: async () => ({
+        action: 'approve',
+        userData: { subject: 'Edited subject' },
+      }),
+      execute: executeMcpTool,
+    });
+
+    expect(executeMcpTool).toHaveBeenCalledTimes(1);
+    expect(executeMcpTool).toHaveBeenCalledWith({
+      to: 'a@example.com',
+      subject: 'Edited subject',
+      body: 'Draft',
+    });
+    expect(outcome.execution).toEqual({ success: true });
+  });
+});
+
+describe('buildApprovedArgs', () => {
+  it('passes everything through when the tool declares no properties', () => {
+    expect(buildApprovedArgs({ a: 1 }, { b: 2 }, { type: 'object' })).toEqual({ a: 1, b: 2 });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Retry and Fork Tests
+ *
+ * Proves that:
+ * - Step ids map back to the turn they belong to
+ * - Branches start where the earlier run stopped unless a turn is given
+ * - Turns that never completed can't be branched from
+ * - The seed conversation replays earlier turns in order after the instructions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildSeedConversation,
+  completedTurnCount,
+  resolveBranchTurn,
+  turnFromStepId,
+  type ConversationTurn,
+} from '../../worker/workflows/branching';
+
+const turn = (n: number): ConversationTurn => ({
+  turn: n,
+  messages: [
+    { role: 'assistant', content: `answer ${n}` },
+    { role: 'user', content: `result ${n}` },
+  ],
+});
+
+describe('turnFromStepId', () => {
+  it('reads the turn from turn, tool and budget steps', () => {
+    expect(turnFromStepId('turn-3')).toBe(3);
+    expect(turnFromStepId('tool-12-toolu_abc')).toBe(12);
+    expect(turnFromStepId('budget-turn-4-0')).toBe(4);
+  });
+
+  it('returns null for steps outside the turn loop', () => {
+    expect(turnFromStepId('init')).toBeNull();
+    expect(turnFromStepId('load-conversation')).toBeNull();
+    expect(turnFromStepId('turnover-1')).toBeNull();
+  });
+});
+
+describe('resolveBranchTurn', () => {
+  const turns = [turn(0), turn(1), turn(2)];
+
+  it('defaults to where the earlier run stopped', () => {
+    expect(resolveBranchTurn(turns)).toEqual({ turn: 3 });
+    expect(resolveBranchTurn([], null)).toEqual({ turn: 0 });
+  });
+
+  it('accepts any completed turn', () => {
+    expect(resolveBranchTurn(turns, 0)).toEqual({ turn: 0 });
+    expect(resolveBranchTurn(turns, 3)).toEqual({ turn: 3 });
+  });
+
+  it('rejects turns past the last completed one', () => {
+    expect(resolveBranchTurn(turns, 4)).toHaveProperty('error');
+    expect(resolveBranchTurn(turns, -1)).toHaveProperty('error');
+    expect(resolveBranchTurn(turns, 1.5)).toHaveProperty('error');
+  });
+});
+
+describe('completedTurnCount', () => {
+  it('stops at the first missing turn', () => {
+    expect(completedTurnCount([turn(0), turn(1), turn(3)])).toBe(2);
+    expect(completedTurnCount([turn(1)])).toBe(0);
+  });
+});
+
+describe('buildSeedConversation', () => {
+  it('puts the instructions first and replays earlier turns in order', () => {
+    const seed = buildSeedConversation('New instructions', [turn(2), turn(0), turn(1)], 2);
+    expect(seed.map((m) => m.content)).toEqual([
+      'New instructions',
+      'answer 0',
+      'result 0',
+      'answer 1',
+      'result 1',
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Run Budget Tests
+ *
+ * Proves that:
+ * - Agent budgets override project budgets, which override user budgets
+ * - Runs without any budget keep the default turn limit
+ * - Turn, token, cost and duration limits trip at the limit
+ * - Per-tool and total tool call limits are enforced separately
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkToolBudget,
+  checkTurnBudget,
+  DEFAULT_MAX_TURNS,
+  emptyBudgetUsage,
+  mergeBudgets,
+  resolveBudget,
+  validateBudget,
+} from '../../worker/workflows/budgets';
+
+describe('mergeBudgets', () => {
+  it('lets more specific layers override field by field', () => {
+    const merged = mergeBudgets(
+      { maxTurns: 20, maxCostUsd: 5 },
+      { maxCostUsd: 2 },
+      { maxTokens: 100_000 }
+    );
+    expect(merged).toEqual({ maxTurns: 20, maxCostUsd: 2, maxTokens: 100_000 });
+  });
+
+  it('merges tool call limits per tool', () => {
+    const merged = mergeBudgets(
+      { maxToolCalls: { Gmail__sendEmail: 5, '*': 100 } },
+      null,
+      { maxToolCalls: { Gmail__sendEmail: 1 } }
+    );
+    expect(merged.maxToolCalls).toEqual({ Gmail__sendEmail: 1, '*': 100 });
+  });
+
+  it('ignores null fields', () => {
+    expect(mergeBudgets({ maxTurns: 10 }, { maxTurns: null })).toEqual({ maxTurns: 10 });
+  });
+});
+
+describe('resolveBudget', () => {
+  it('applies the default turn limit when none is set', () => {
+    expect(resolveBudget(undefined)).toEqual({ maxTurns: DEFAULT_MAX_TURNS });
+    expect(resolveBudget({ maxTurns: 5 }).maxTurns).toBe(5);
+  });
+});
+
+describe('validateBudget', () => {
+  it('accepts positive limits', () => {
+    expect(validateBudget({ maxTurns: 10, maxCostUsd: 0.5, maxToolCalls: { '*': 3 } })).toBeNull();
+  });
+
+  it('rejects zero, negative and fractional tool limits', () => {
+    expect(validateBudget({ maxTurns: 0 })).toMatch(/maxTurns/);
+    expect(validateBudget({ maxCostUsd: -1 })).toMatch(/maxCostUsd/);
+    expect(validateBudget({ maxToolCalls: { Gmail__sendEmail: 1.5 } })).toMatch(/Gmail__sendEmail/);
+  });
+});
+
+describe('checkTurnBudget', () => {
+  it('trips once a limit is reached', () => {
+    const usage = { ...emptyBudgetUsage(), turns: 3 };
+    expect(checkTurnBudget({ maxTurns: 4 }, usage)).toBeNull();
+    expect(checkTurnBudget({ maxTurns: 3 }, usage)).toMatchObject({ limit: 'maxTurns', used: 3, max: 3 });
+  });
+
+  it('checks tokens, cost and active duration', () => {
+    const usage = { ...emptyBudgetUsage(), tokens: 5_000, costUsd: 1.2, durationMs: 10 * 60_000 };
+    expect(checkTurnBudget({ maxTokens: 5_000 }, usage)?.limit).toBe('maxTokens');
+    expect(checkTurnBudget({ maxCostUsd: 1 }, usage)?.message).toBe('Budget reached: $1.00');
+    expect(checkTurnBudget({ maxDurationMinutes: 10 }, usage)?.limit).toBe('maxDurationMinutes');
+    expect(checkTurnBudget({ maxDurationMinutes: 11 }, usage)).toBeNull();
+  });
+});
+
+describe('checkToolBudget', () => {
+  const usage = { ...emptyBudgetUsage(), toolCalls: { Gmail__sendEmail: 2, Sandbox__exec: 3 } };
+
+  it('limits calls to a specific tool', () => {
+    const budget = { maxToolCalls: { Gmail__sendEmail: 2 } };
+    expect(checkToolBudget(budget, usage, 'Gmail__sendEmail')).toMatchObject({
+      limit: 'maxToolCalls',
+      toolName: 'Gmail__sendEmail',
+      used: 2,
+    });
+    expect(checkToolBudget(budget, usage, 'Sandbox__exec')).toBeNull();
+  });
+
+  it('limits total tool calls with *', () => {
+    expect(checkToolBudget({ maxToolCalls: { '*': 5 } }, usage, 'Exa__search')).toMatchObject({
+      toolName: '*',
+      used: 5,
+      max: 5,
+    });
+    expect(checkToolBudget({ maxToolCalls: { '*': 6 } }, usage, 'Exa__search')).toBeNull();
+  });
+});
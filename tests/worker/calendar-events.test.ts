@@ -0,0 +1,112 @@
+/**
+ * Google Calendar Event Rule Tests
+ *
+ * Proves that:
+ * - Dates become all-day event times and date-times keep their time zone
+ * - Start/end pairs must parse, match in kind and run forwards
+ * - Conflicts are overlapping busy blocks, touching ends are not conflicts,
+ *   and a moved event never conflicts with itself
+ * - Event link IDs decode to the event and calendar, expanding short domains
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  decodeEventLinkId,
+  eventTimeError,
+  findConflicts,
+  fromEventTime,
+  toEventTime,
+} from '../../worker/google/calendarEvents';
+
+/** Encode "<eventId> <calendar>" the way Calendar links do */
+function eid(value: string): string {
+  return btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+describe('toEventTime / fromEventTime', () => {
+  it('treats a bare date as all-day', () => {
+    expect(toEventTime('2025-03-04', 'Europe/Berlin')).toEqual({ date: '2025-03-04' });
+  });
+
+  it('keeps the time zone for date-times', () => {
+    expect(toEventTime('2025-03-04T15:00:00', 'Europe/Berlin')).toEqual({
+      dateTime: '2025-03-04T15:00:00',
+      timeZone: 'Europe/Berlin',
+    });
+    expect(toEventTime('2025-03-04T15:00:00Z')).toEqual({ dateTime: '2025-03-04T15:00:00Z' });
+  });
+
+  it('reads whichever form the API returned', () => {
+    expect(fromEventTime({ date: '2025-03-04' })).toBe('2025-03-04');
+    expect(fromEventTime({ dateTime: '2025-03-04T15:00:00Z' })).toBe('2025-03-04T15:00:00Z');
+    expect(fromEventTime(undefined)).toBe('');
+  });
+});
+
+describe('eventTimeError', () => {
+  it('accepts a forward range', () => {
+    expect(eventTimeError('2025-03-04T15:00:00Z', '2025-03-04T16:00:00Z')).toBeNull();
+    expect(eventTimeError('2025-03-04', '2025-03-05')).toBeNull();
+  });
+
+  it('rejects unparseable, mixed and backwards ranges', () => {
+    expect(eventTimeError('tomorrow', '2025-03-04T16:00:00Z')).toMatch(/Invalid start/);
+    expect(eventTimeError('2025-03-04', '2025-03-04T16:00:00Z')).toMatch(/both be dates/);
+    expect(eventTimeError('2025-03-04T16:00:00Z', '2025-03-04T16:00:00Z')).toMatch(/after start/);
+  });
+});
+
+describe('findConflicts', () => {
+  const proposed = { start: '2025-03-04T15:00:00Z', end: '2025-03-04T16:00:00Z' };
+
+  it('returns overlapping blocks only', () => {
+    const conflicts = findConflicts(proposed, [
+      { start: '2025-03-04T14:30:00Z', end: '2025-03-04T15:30:00Z', title: 'Standup', calendar: 'primary' },
+      { start: '2025-03-04T16:00:00Z', end: '2025-03-04T17:00:00Z', title: 'Back to back' },
+      { start: '2025-03-04T13:00:00Z', end: '2025-03-04T15:00:00Z', title: 'Ends as it starts' },
+      { start: '2025-03-04T15:15:00Z', end: '2025-03-04T15:45:00Z', calendar: 'alice@example.com' },
+    ]);
+    expect(conflicts).toEqual([
+      { start: '2025-03-04T14:30:00Z', end: '2025-03-04T15:30:00Z', title: 'Standup', calendar: 'primary' },
+      { start: '2025-03-04T15:15:00Z', end: '2025-03-04T15:45:00Z', calendar: 'alice@example.com' },
+    ]);
+  });
+
+  it('compares times across offsets', () => {
+    const conflicts = findConflicts(proposed, [
+      { start: '2025-03-04T16:30:00+01:00', end: '2025-03-04T17:30:00+01:00' },
+    ]);
+    expect(conflicts).toHaveLength(1);
+  });
+
+  it('skips the event being moved', () => {
+    const busy = [{ eventId: 'evt1', start: proposed.start, end: proposed.end, title: 'This meeting' }];
+    expect(findConflicts(proposed, busy, 'evt1')).toEqual([]);
+    expect(findConflicts(proposed, busy)).toHaveLength(1);
+  });
+});
+
+describe('decodeEventLinkId', () => {
+  it('expands abbreviated calendar domains', () => {
+    expect(decodeEventLinkId(eid('abc123 someone@m'))).toEqual({
+      eventId: 'abc123',
+      calendarId: 'someone@gmail.com',
+    });
+    expect(decodeEventLinkId(eid('abc123 team@g'))).toEqual({
+      eventId: 'abc123',
+      calendarId: 'team@group.calendar.google.com',
+    });
+  });
+
+  it('keeps full calendar IDs', () => {
+    expect(decodeEventLinkId(eid('abc123 me@example.com'))).toEqual({
+      eventId: 'abc123',
+      calendarId: 'me@example.com',
+    });
+  });
+
+  it('rejects IDs that are not event links', () => {
+    expect(decodeEventLinkId(eid('no-calendar'))).toBeNull();
+    expect(decodeEventLinkId('!!!')).toBeNull();
+  });
+});
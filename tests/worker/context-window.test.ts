@@ -0,0 +1,108 @@
+/**
+ * Context Window Tests
+ *
+ * Proves that:
+ * - Nothing is shortened while the prompt is under the threshold
+ * - Old tool results are shortened oldest first; recent ones stay intact
+ * - Shortening is stable, so the cached conversation prefix doesn't change
+ * - Cache breakpoints are added to copies, never to the stored conversation
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { MessageParam } from '@anthropic-ai/sdk/resources/messages';
+import {
+  cachedMessages,
+  cachedSystemPrompt,
+  cachedTools,
+  compactToolResults,
+  type ContextWindowOptions,
+} from '../../worker/workflows/contextWindow';
+
+const options: ContextWindowOptions = {
+  maxContextTokens: 1_000,
+  keepRecentToolResults: 1,
+  previewChars: 100,
+};
+
+const toolTurn = (id: string, size: number): MessageParam[] => [
+  { role: 'assistant', content: [{ type: 'tool_use', id, name: 'Gmail__getMessage', input: {} }] },
+  { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content: 'x'.repeat(size) }] },
+];
+
+const resultContent = (message: MessageParam) =>
+  (message.content as Array<{ content: string }>)[0].content;
+
+describe('compactToolResults', () => {
+  it('leaves small conversations alone', () => {
+    const messages: MessageParam[] = [{ role: 'user', content: 'Do it' }, ...toolTurn('a', 500)];
+    const result = compactToolResults(messages, 0, options);
+    expect(result.compacted).toBe(0);
+    expect(result.messages).toBe(messages);
+  });
+
+  it('shortens the oldest results first and keeps the most recent in full', () => {
+    const messages: MessageParam[] = [
+      { role: 'user', content: 'Do it' },
+      ...toolTurn('a', 3_000),
+      ...toolTurn('b', 3_000),
+      ...toolTurn('c', 3_000),
+    ];
+    const result = compactToolResults(messages, 0, options);
+
+    expect(result.compacted).toBe(2);
+    expect(resultContent(result.messages[2])).toContain('[Result shortened: showing 100 of 3000 characters');
+    expect(resultContent(result.messages[4]).length).toBeLessThan(3_000);
+    expect(resultContent(result.messages[6])).toHaveLength(3_000);
+    // The input array isn't modified
+    expect(resultContent(messages[2])).toHaveLength(3_000);
+  });
+
+  it('stops as soon as the prompt fits', () => {
+    const messages: MessageParam[] = [
+      { role: 'user', content: 'Do it' },
+      ...toolTurn('a', 3_000),
+      ...toolTurn('b', 1_000),
+      ...toolTurn('c', 1_000),
+    ];
+    const result = compactToolResults(messages, 0, options);
+    expect(result.compacted).toBe(1);
+    expect(resultContent(result.messages[4])).toHaveLength(1_000);
+  });
+
+  it('does not shorten a result twice', () => {
+    const messages: MessageParam[] = [
+      { role: 'user', content: 'Do it' },
+      ...toolTurn('a', 3_000),
+      ...toolTurn('b', 5_000),
+    ];
+    const first = compactToolResults(messages, 0, options);
+    const second = compactToolResults(first.messages, 2_000, options);
+    expect(second.compacted).toBe(0);
+    expect(resultContent(second.messages[2])).toBe(resultContent(first.messages[2]));
+  });
+});
+
+describe('cache breakpoints', () => {
+  it('marks the system prompt and the last tool', () => {
+    expect(cachedSystemPrompt('You are helpful')[0].cache_control).toEqual({ type: 'ephemeral' });
+
+    const tools = cachedTools([
+      { name: 'a', input_schema: { type: 'object' } },
+      { name: 'b', input_schema: { type: 'object' } },
+    ]);
+    expect(tools[0].cache_control).toBeUndefined();
+    expect(tools[1].cache_control).toEqual({ type: 'ephemeral' });
+  });
+
+  it('marks the end of the conversation without changing the stored messages', () => {
+    const messages: MessageParam[] = [{ role: 'user', content: 'Do it' }, ...toolTurn('a', 10)];
+    const cached = cachedMessages(messages);
+
+    const lastBlock = (cached[2].content as Array<{ cache_control?: unknown }>)[0];
+    expect(lastBlock.cache_control).toEqual({ type: 'ephemeral' });
+    expect((messages[2].content as Array<{ cache_control?: unknown }>)[0].cache_control).toBeUndefined();
+
+    const first = cachedMessages([{ role: 'user', content: 'Do it' }]);
+    expect(first[0].content).toEqual([{ type: 'text', text: 'Do it', cache_control: { type: 'ephemeral' } }]);
+  });
+});
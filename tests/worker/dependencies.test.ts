@@ -0,0 +1,113 @@
+/**
+ * Task Dependency Tests
+ *
+ * Proves that:
+ * - Self-dependencies, unknown tasks and cycles are rejected
+ * - Only dependencies whose latest run completed stop blocking
+ * - The first message carries the task context and the results of its dependencies
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  blockingDependencies,
+  buildTaskPrompt,
+  dependencyIds,
+  parseTaskContext,
+  validateDependencies,
+  type TaskDependency,
+} from '../../worker/workflows/dependencies';
+
+const dependency = (overrides: Partial<TaskDependency> = {}): TaskDependency => ({
+  taskId: 'a',
+  title: 'Research competitors',
+  status: 'completed',
+  summary: null,
+  artifacts: [],
+  ...overrides,
+});
+
+describe('validateDependencies', () => {
+  const graph = { a: [], b: ['a'], c: ['b'], d: [] };
+
+  it('accepts dependencies that keep the graph acyclic', () => {
+    expect(validateDependencies(graph, 'd', ['a', 'c'])).toBeNull();
+    expect(validateDependencies(graph, 'c', [])).toBeNull();
+  });
+
+  it('rejects a task depending on itself', () => {
+    expect(validateDependencies(graph, 'a', ['a'])).toMatch(/itself/);
+  });
+
+  it('rejects unknown tasks', () => {
+    expect(validateDependencies(graph, 'd', ['missing'])).toMatch(/Unknown task/);
+  });
+
+  it('rejects direct and indirect cycles', () => {
+    expect(validateDependencies(graph, 'a', ['b'])).toMatch(/cycle/);
+    expect(validateDependencies(graph, 'a', ['c'])).toMatch(/cycle/);
+  });
+
+  it('allows new tasks that are not in the graph yet', () => {
+    expect(validateDependencies(graph, 'new', ['c'])).toBeNull();
+  });
+});
+
+describe('blockingDependencies', () => {
+  it('keeps dependencies that never ran or did not complete', () => {
+    const deps = [
+      dependency({ taskId: 'a', status: 'completed' }),
+      dependency({ taskId: 'b', status: null }),
+      dependency({ taskId: 'c', status: 'executing' }),
+      dependency({ taskId: 'd', status: 'failed' }),
+    ];
+    expect(blockingDependencies(deps).map((d) => d.taskId)).toEqual(['b', 'c', 'd']);
+  });
+});
+
+describe('task context', () => {
+  it('parses stored JSON and tolerates bad values', () => {
+    expect(parseTaskContext('{"dependsOn":["a"]}')).toEqual({ dependsOn: ['a'] });
+    expect(parseTaskContext('not json')).toEqual({});
+    expect(parseTaskContext(null)).toEqual({});
+  });
+
+  it('dedupes dependency ids', () => {
+    expect(dependencyIds({ dependsOn: ['a', 'b', 'a'] })).toEqual(['a', 'b']);
+    expect(dependencyIds(undefined)).toEqual([]);
+  });
+});
+
+describe('buildTaskPrompt', () => {
+  it('falls back to the title and description alone', () => {
+    expect(buildTaskPrompt({ title: 'Write report', description: 'Quarterly numbers' }))
+      .toBe('Write report\n\nQuarterly numbers');
+    expect(buildTaskPrompt({ title: '', description: null })).toBe('No task description provided');
+  });
+
+  it('includes the task context', () => {
+    const prompt = buildTaskPrompt({
+      title: 'Write report',
+      context: { instructions: 'Keep it short', constraints: ['No tables'], expectedOutputs: [' '] },
+    });
+    expect(prompt).toContain('Instructions:\nKeep it short');
+    expect(prompt).toContain('Constraints:\n- No tables');
+    expect(prompt).not.toContain('Expected outputs');
+  });
+
+  it('passes on the summary and artifacts of completed dependencies', () => {
+    const prompt = buildTaskPrompt({ title: 'Write report' }, [
+      dependency({
+        summary: 'Found three competitors.',
+        artifacts: [{ type: 'google_doc', title: 'Notes', url: 'https://docs.google.com/d/1' }],
+      }),
+      dependency({ taskId: 'b', title: 'Still running', status: 'executing', summary: 'partial' }),
+    ]);
+    expect(prompt).toContain('### Research competitors\nFound three competitors.');
+    expect(prompt).toContain('- Notes: https://docs.google.com/d/1');
+    expect(prompt).not.toContain('Still running');
+  });
+
+  it('notes dependencies that completed without a summary', () => {
+    expect(buildTaskPrompt({ title: 'Next' }, [dependency()])).toContain('Completed without a summary.');
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Google Docs Structure Tests
+ *
+ * Proves that:
+ * - Headings are read from paragraph styles and marked up as Markdown
+ * - A section runs to the next heading of the same or a higher level
+ * - Headings are matched loosely, and missing or ambiguous ones are errors
+ * - Inserts go into a fresh paragraph, including at the end of the document
+ * - Clearing a section never deletes the document's final newline
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  containsText,
+  docParagraphs,
+  documentEndIndex,
+  documentText,
+  findSections,
+  paragraphInsertion,
+  resolveSection,
+  sectionDeleteRange,
+  type DocBodyElement,
+} from '../../worker/google/docsStructure';
+
+/** Build a document body from [style, text] pairs, with indices as the Docs API assigns them */
+function body(...paragraphs: Array<[string, string]>): DocBodyElement[] {
+  const content: DocBodyElement[] = [{ endIndex: 1 }];
+  let index = 1;
+  for (const [style, text] of paragraphs) {
+    content.push({
+      startIndex: index,
+      endIndex: index + text.length,
+      paragraph: {
+        elements: [{ textRun: { content: text } }],
+        paragraphStyle: { namedStyleType: style },
+      },
+    });
+    index += text.length;
+  }
+  return content;
+}
+
+const doc = body(
+  ['TITLE', 'Launch plan\n'],
+  ['HEADING_1', 'Goals\n'],
+  ['NORMAL_TEXT', 'Ship it.\n'],
+  ['HEADING_1', 'Rollout\n'],
+  ['NORMAL_TEXT', 'In stages.\n'],
+  ['HEADING_2', 'Stage one\n'],
+  ['NORMAL_TEXT', 'Staff only.\n'],
+  ['HEADING_1', 'Risks\n'],
+  ['NORMAL_TEXT', 'None yet.\n'],
+);
+const paragraphs = docParagraphs(doc);
+const end = documentEndIndex(doc);
+const sections = findSections(paragraphs, end);
+
+function section(heading: string) {
+  const found = resolveSection(sections, heading);
+  if ('error' in found) throw new Error(found.error);
+  return found;
+}
+
+describe('docParagraphs and documentText', () => {
+  it('skips the section break and reads heading levels', () => {
+    expect(paragraphs).toHaveLength(9);
+    expect(paragraphs[0]).toMatchObject({ startIndex: 1, headingLevel: 0 });
+    expect(paragraphs[5]).toMatchObject({ text: 'Stage one\n', headingLevel: 2 });
+  });
+
+  it('marks headings up as Markdown', () => {
+    expect(documentText(paragraphs)).toBe(
+      'Launch plan\n# Goals\nShip it.\n# Rollout\nIn stages.\n## Stage one\nStaff only.\n# Risks\nNone yet.\n'
+    );
+  });
+
+  it('treats an empty body as ending at index 1', () => {
+    expect(documentEndIndex(undefined)).toBe(1);
+  });
+});
+
+describe('findSections', () => {
+  it('includes subsections in their parent section', () => {
+    const rollout = section('Rollout');
+    expect(rollout.bodyStartIndex).toBe(paragraphs[4].startIndex);
+    expect(rollout.bodyEndIndex).toBe(paragraphs[7].startIndex);
+  });
+
+  it('ends a subsection at the next heading above it', () => {
+    expect(section('Stage one').bodyEndIndex).toBe(paragraphs[7].startIndex);
+  });
+
+  it('runs the last section to the end of the document', () => {
+    expect(section('Risks').bodyEndIndex).toBe(end);
+  });
+});
+
+describe('resolveSection', () => {
+  it('ignores case, spacing and Markdown markers', () => {
+    expect(section('## stage  ONE').heading).toBe('Stage one');
+  });
+
+  it('lists the headings when none match', () => {
+    expect(resolveSection(sections, 'Budget')).toEqual({
+      error: 'No section headed "Budget". Headings in this document: "Goals", "Rollout", "Stage one", "Risks"',
+    });
+  });
+
+  it('refuses to pick between sections with the same heading', () => {
+    const repeated = findSections(docParagraphs(body(['HEADING_2', 'Notes\n'], ['HEADING_2', 'Notes\n'])), 13);
+    expect(resolveSection(repeated, 'Notes')).toEqual({
+      error: '2 sections are headed "Notes" - rename one or edit with replaceText instead',
+    });
+  });
+});
+
+describe('paragraphInsertion', () => {
+  it('opens a new paragraph at the insertion point inside the document', () => {
+    expect(paragraphInsertion(20, end)).toEqual({ newlineIndex: 20, contentIndex: 20 });
+  });
+
+  it('opens the new paragraph after the final newline at the end', () => {
+    expect(paragraphInsertion(end, end)).toEqual({ newlineIndex: end - 1, contentIndex: end });
+  });
+
+  it('reuses a paragraph that is already empty', () => {
+    expect(paragraphInsertion(40, 41, true)).toEqual({ contentIndex: 40 });
+  });
+});
+
+describe('sectionDeleteRange', () => {
+  it('deletes the whole body of a section', () => {
+    const rollout = section('Rollout');
+    expect(sectionDeleteRange(rollout, end)).toEqual({
+      startIndex: rollout.bodyStartIndex,
+      endIndex: rollout.bodyEndIndex,
+    });
+  });
+
+  it('keeps the final newline when clearing the last section', () => {
+    expect(sectionDeleteRange(section('Risks'), end)).toEqual({
+      startIndex: section('Risks').bodyStartIndex,
+      endIndex: end - 1,
+    });
+  });
+
+  it('has nothing to delete for an empty section', () => {
+    const empty = findSections(docParagraphs(body(['HEADING_1', 'A\n'], ['HEADING_1', 'B\n'])), 5);
+    expect(sectionDeleteRange(empty[0], 5)).toBeNull();
+  });
+});
+
+describe('containsText', () => {
+  it('matches case by default', () => {
+    expect(containsText(paragraphs, 'In stages')).toBe(true);
+    expect(containsText(paragraphs, 'in stages')).toBe(false);
+    expect(containsText(paragraphs, 'in stages', false)).toBe(true);
+  });
+});
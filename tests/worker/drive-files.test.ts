@@ -0,0 +1,107 @@
+/**
+ * Google Drive File Rule Tests
+ *
+ * Proves that:
+ * - Search queries escape user text, filter by kind and folder, and skip trash
+ * - Exports only apply to Google-native files, in formats that fit them
+ * - Sharing never lowers access and reports who actually gains it
+ * - Removing access keeps owners and can turn off link sharing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  GOOGLE_DOC_MIME_TYPE,
+  GOOGLE_SHEET_MIME_TYPE,
+  buildSearchQuery,
+  exportFilename,
+  permissionsToRemove,
+  planSharing,
+  resolveExport,
+  textExportMimeType,
+  truncateText,
+  type DrivePermission,
+} from '../../worker/google/driveFiles';
+
+describe('buildSearchQuery', () => {
+  it('always leaves out trashed files', () => {
+    expect(buildSearchQuery({})).toBe('trashed = false');
+  });
+
+  it('searches names and content with escaped text', () => {
+    expect(buildSearchQuery({ query: "Q3 'plan'" })).toBe(
+      "trashed = false and (name contains 'Q3 \\'plan\\'' or fullText contains 'Q3 \\'plan\\'')"
+    );
+  });
+
+  it('filters by kind and folder', () => {
+    const query = buildSearchQuery({ kind: 'pdf', folderId: 'folder123' });
+    expect(query).toBe("trashed = false and mimeType='application/pdf' and 'folder123' in parents");
+  });
+});
+
+describe('resolveExport', () => {
+  it('exports Docs as DOCX and PDF', () => {
+    expect(resolveExport(GOOGLE_DOC_MIME_TYPE, 'pdf')).toEqual({ mimeType: 'application/pdf', extension: 'pdf' });
+    expect(resolveExport(GOOGLE_DOC_MIME_TYPE, 'docx')).toMatchObject({ extension: 'docx' });
+  });
+
+  it('lists the formats that fit when one does not', () => {
+    const result = resolveExport(GOOGLE_SHEET_MIME_TYPE, 'docx');
+    expect(result).toEqual({ error: 'Cannot export this file as docx. Available formats: pdf, xlsx, csv' });
+  });
+
+  it('refuses files that are not Google-native', () => {
+    expect(resolveExport('application/pdf', 'pdf')).toHaveProperty('error');
+    expect(resolveExport('application/vnd.google-apps.folder', 'pdf')).toHaveProperty('error');
+  });
+});
+
+describe('reading helpers', () => {
+  it('reads Docs as Markdown and Sheets as CSV', () => {
+    expect(textExportMimeType(GOOGLE_DOC_MIME_TYPE)).toBe('text/markdown');
+    expect(textExportMimeType(GOOGLE_SHEET_MIME_TYPE)).toBe('text/csv');
+    expect(textExportMimeType('application/pdf')).toBeNull();
+  });
+
+  it('truncates long text and says so', () => {
+    expect(truncateText('abcdef', 3)).toEqual({ content: 'abc', truncated: true });
+    expect(truncateText('abc', 3)).toEqual({ content: 'abc', truncated: false });
+  });
+
+  it('does not double extensions', () => {
+    expect(exportFilename('Report', 'pdf')).toBe('Report.pdf');
+    expect(exportFilename('Report.PDF', 'pdf')).toBe('Report.PDF');
+  });
+});
+
+const permissions: DrivePermission[] = [
+  { id: 'p0', type: 'user', role: 'owner', emailAddress: 'me@example.com' },
+  { id: 'p1', type: 'user', role: 'reader', emailAddress: 'Alice@example.com' },
+  { id: 'p2', type: 'user', role: 'writer', emailAddress: 'bob@example.com' },
+  { id: 'p3', type: 'anyone', role: 'reader' },
+];
+
+describe('planSharing', () => {
+  it('adds new people, raises lower access and leaves the rest', () => {
+    expect(planSharing(permissions, ['carol@example.com', 'alice@example.com', 'bob@example.com'], 'commenter'))
+      .toEqual({
+        add: [{ email: 'carol@example.com', role: 'commenter' }],
+        upgrade: [{ email: 'alice@example.com', permissionId: 'p1', from: 'reader', role: 'commenter' }],
+        unchanged: ['bob@example.com'],
+      });
+  });
+
+  it('ignores duplicates and blank entries', () => {
+    const plan = planSharing([], ['carol@example.com', ' CAROL@example.com', ''], 'reader');
+    expect(plan.add).toEqual([{ email: 'carol@example.com', role: 'reader' }]);
+  });
+});
+
+describe('permissionsToRemove', () => {
+  it('removes people and link sharing but never the owner', () => {
+    const result = permissionsToRemove(permissions, ['alice@example.com', 'me@example.com', 'dan@example.com'], true);
+    expect(result.remove.map((p) => p.id)).toEqual(['p1', 'p3']);
+    expect(result.owners).toEqual(['me@example.com']);
+    expect(result.notShared).toEqual(['dan@example.com']);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * GitHub App Authentication Tests
+ *
+ * Proves that:
+ * - App JWTs are RS256-signed by the App's key with a short, backdated lifetime
+ * - PKCS#1 keys as downloaded from GitHub are accepted as well as PKCS#8
+ * - Installation tokens are cached and minted again near expiry
+ * - Tokens are limited to the chosen repositories and carry the bot identity
+ * - Incomplete credentials are rejected
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import {
+  clearInstallationTokenCache,
+  createAppJwt,
+  getInstallationToken,
+  installationTokenExpiring,
+  parseAppCredential,
+  type GitHubAppCredential,
+} from '../../worker/github/appAuth';
+
+const { privateKey: PKCS1_KEY, publicKey: PUBLIC_KEY } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+
+function decodePart(part: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(part, 'base64url').toString('utf-8'));
+}
+
+async function verifySignature(jwt: string): Promise<boolean> {
+  const [header, payload, signature] = jwt.split('.');
+  const der = Buffer.from(PUBLIC_KEY.replace(/-----(BEGIN|END) PUBLIC KEY-----|\s+/g, ''), 'base64');
+  const key = await crypto.subtle.importKey('spki', der, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+  return crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    Buffer.from(signature, 'base64url'),
+    new TextEncoder().encode(`${header}.${payload}`)
+  );
+}
+
+describe('createAppJwt', () => {
+  it('signs a backdated RS256 token issued by the App', async () => {
+    const jwt = await createAppJwt('12345', PKCS1_KEY, NOW);
+    const [header, payload] = jwt.split('.');
+
+    expect(decodePart(header)).toEqual({ alg: 'RS256', typ: 'JWT' });
+    const claims = decodePart(payload);
+    expect(claims.iss).toBe('12345');
+    expect(claims.iat).toBe(NOW / 1000 - 60);
+    expect((claims.exp as number) - (claims.iat as number)).toBeLessThanOrEqual(600);
+    expect(await verifySignature(jwt)).toBe(true);
+  });
+
+  it('accepts PKCS#8 keys', async () => {
+    const { privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+    const jwt = await createAppJwt('1', privateKey, NOW);
+    expect(jwt.split('.')).toHaveLength(3);
+  });
+});
+
+describe('getInstallationToken', () => {
+  const credential: GitHubAppCredential = {
+    appId: '12345',
+    installationId: '678',
+    privateKey: PKCS1_KEY,
+    repositories: ['weft'],
+  };
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    clearInstallationTokenCache();
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith('/access_tokens')) {
+        const count = fetchMock.mock.calls.filter(([u]) => String(u).endsWith('/access_tokens')).length;
+        return Response.json({ token: `ghs_${count}`, expires_at: new Date(NOW + 60 * 60 * 1000).toISOString() });
+      }
+      if (url.endsWith('/app')) return Response.json({ slug: 'weft-agent' });
+      return Response.json({ id: 987 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('mints a token for the chosen repositories as the bot', async () => {
+    const token = await getInstallationToken(credential, NOW);
+
+    expect(token).toEqual({
+      token: 'ghs_1',
+      expiresAt: '2026-10-19T13:00:00.000Z',
+      botName: 'weft-agent[bot]',
+      botEmail: '987+weft-agent[bot]@users.noreply.github.com',
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.github.com/app/installations/678/access_tokens');
+    expect(JSON.parse(init.body)).toEqual({ repositories: ['weft'] });
+    expect(init.headers.Authorization).toMatch(/^Bearer [\w-]+\.[\w-]+\.[\w-]+$/);
+  });
+
+  it('reuses the cached token until shortly before it expires', async () => {
+    await getInstallationToken(credential, NOW);
+    const reused = await getInstallationToken(credential, NOW + 50 * 60 * 1000);
+    expect(reused.token).toBe('ghs_1');
+
+    const refreshed = await getInstallationToken(credential, NOW + 56 * 60 * 1000);
+    expect(refreshed.token).toBe('ghs_2');
+  });
+
+  it('keeps separate tokens for different repository sets', async () => {
+    await getInstallationToken(credential, NOW);
+    const all = await getInstallationToken({ ...credential, repositories: [] }, NOW);
+    expect(all.token).toBe('ghs_2');
+  });
+
+  it('reports GitHub errors', async () => {
+    fetchMock.mockResolvedValueOnce(Response.json({ message: 'Bad credentials' }, { status: 401 }));
+    await expect(getInstallationToken(credential, NOW)).rejects.toThrow('GitHub App authentication failed: Bad credentials');
+  });
+});
+
+describe('installationTokenExpiring', () => {
+  it('is true for missing or nearly expired tokens', () => {
+    expect(installationTokenExpiring(undefined, NOW)).toBe(true);
+    expect(installationTokenExpiring(new Date(NOW + 4 * 60 * 1000).toISOString(), NOW)).toBe(true);
+    expect(installationTokenExpiring(new Date(NOW + 30 * 60 * 1000).toISOString(), NOW)).toBe(false);
+  });
+});
+
+describe('parseAppCredential', () => {
+  it('reads ids and repositories from metadata', () => {
+    expect(parseAppCredential(PKCS1_KEY, { app_id: 12345, installation_id: '678', repositories: ['a', '', 'b'] })).toEqual({
+      appId: '12345',
+      installationId: '678',
+      privateKey: PKCS1_KEY,
+      repositories: ['a', 'b'],
+    });
+  });
+
+  it('rejects missing ids and keys that are not PEM', () => {
+    expect(() => parseAppCredential(PKCS1_KEY, { app_id: '1' })).toThrow('installation_id');
+    expect(() => parseAppCredential('not a key', { app_id: '1', installation_id: '2' })).toThrow('PEM');
+  });
+});
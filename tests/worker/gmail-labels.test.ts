@@ -0,0 +1,79 @@
+/**
+ * Gmail Mailbox Rule Tests
+ *
+ * Proves that:
+ * - Labels resolve by ID or case-insensitive name, and unknown labels are reported
+ * - Bulk actions need at least one message or thread
+ * - Filters need criteria and an action, and archive/read/star become label changes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildFilter,
+  bulkTargetError,
+  chunk,
+  describeTargets,
+  filterError,
+  resolveLabelIds,
+  type GmailLabel,
+} from '../../worker/google/gmailLabels';
+
+const labels: GmailLabel[] = [
+  { id: 'INBOX', name: 'INBOX', type: 'system' },
+  { id: 'UNREAD', name: 'UNREAD', type: 'system' },
+  { id: 'Label_1', name: 'Newsletters', type: 'user' },
+  { id: 'Label_2', name: 'Newsletters/Tech', type: 'user' },
+];
+
+describe('resolveLabelIds', () => {
+  it('matches IDs exactly and names case-insensitively', () => {
+    expect(resolveLabelIds(labels, ['Label_2', 'newsletters', 'inbox'])).toEqual({
+      ids: ['Label_2', 'Label_1', 'INBOX'],
+      unknown: [],
+    });
+  });
+
+  it('dedupes and reports unknown labels', () => {
+    expect(resolveLabelIds(labels, ['Label_1', 'Newsletters', 'Receipts'])).toEqual({
+      ids: ['Label_1'],
+      unknown: ['Receipts'],
+    });
+    expect(resolveLabelIds(labels, undefined)).toEqual({ ids: [], unknown: [] });
+  });
+});
+
+describe('bulk targets', () => {
+  it('requires at least one message or thread', () => {
+    expect(bulkTargetError(undefined, [])).toMatch(/at least one/);
+    expect(bulkTargetError(['m1'], undefined)).toBeNull();
+    expect(bulkTargetError([], ['t1'])).toBeNull();
+  });
+
+  it('describes what was changed', () => {
+    expect(describeTargets(3, 1)).toBe('3 messages and 1 thread');
+    expect(describeTargets(1, 0)).toBe('1 message');
+  });
+
+  it('splits large batches', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+});
+
+describe('filters', () => {
+  it('rejects filters without criteria or without an action', () => {
+    expect(filterError({ archive: true }, [])).toMatch(/at least one of from/);
+    expect(filterError({ from: 'news@example.com' }, [])).toMatch(/at least one action/);
+    expect(filterError({ from: 'news@example.com' }, ['Label_1'])).toBeNull();
+  });
+
+  it('turns archive, read and star into label changes', () => {
+    expect(buildFilter(
+      { from: 'news@example.com', hasAttachment: false, archive: true, markAsRead: true, star: true },
+      ['Label_1']
+    )).toEqual({
+      criteria: { from: 'news@example.com' },
+      action: { addLabelIds: ['Label_1', 'STARRED'], removeLabelIds: ['INBOX', 'UNREAD'] },
+    });
+  });
+});
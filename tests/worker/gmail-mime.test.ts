@@ -0,0 +1,176 @@
+/**
+ * Gmail MIME Message Tests
+ *
+ * Proves that:
+ * - Plain text, HTML and attachments produce the right MIME structure
+ * - Non-ASCII subjects are encoded and bodies survive the round trip
+ * - Replies thread correctly and reply-all never copies the user
+ * - Reply/forward subjects are not prefixed twice
+ * - Drive links resolve to file IDs and Google-native files export
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildMimeMessage,
+  driveExportFormat,
+  forwardBody,
+  forwardSubject,
+  htmlToText,
+  invalidAddresses,
+  parseAddressList,
+  parseDriveFileId,
+  quoteReply,
+  replyRecipients,
+  replySubject,
+  threadReferences,
+  toBase64Url,
+  utf8ToBase64,
+  type OriginalMessage,
+} from '../../worker/google/mimeMessage';
+
+const original: OriginalMessage = {
+  messageId: '<abc@mail.example.com>',
+  references: '<root@mail.example.com>',
+  from: 'Ana Lopez <ana@example.com>',
+  to: 'Me <me@example.com>, bob@example.com',
+  cc: '"Smith, Carol" <carol@example.com>',
+  subject: 'Planning',
+  date: 'Mon, 3 Mar 2025 09:12:00 +0000',
+};
+
+const decodeParts = (message: string): string[] =>
+  [...message.matchAll(/base64\r\n\r\n([A-Za-z0-9+/=\r\n]+?)(?:\r\n--|$)/g)]
+    .map((m) => new TextDecoder().decode(Uint8Array.from(atob(m[1].replace(/\r\n/g, '')), (c) => c.charCodeAt(0))));
+
+describe('buildMimeMessage', () => {
+  it('builds a single text part for plain messages', () => {
+    const message = buildMimeMessage({ to: 'bob@example.com', subject: 'Hi', text: 'Hello Bob' });
+    expect(message).toContain('To: bob@example.com');
+    expect(message).toContain('Subject: Hi');
+    expect(message).toContain('Content-Type: text/plain; charset="UTF-8"');
+    expect(message).not.toContain('multipart');
+    expect(decodeParts(message)).toEqual(['Hello Bob']);
+  });
+
+  it('adds an HTML alternative and derives the text from it when needed', () => {
+    const message = buildMimeMessage({ to: 'bob@example.com', subject: 'Hi', html: '<p>Hello <b>Bob</b></p>' });
+    expect(message).toContain('multipart/alternative');
+    expect(decodeParts(message)).toEqual(['Hello Bob', '<p>Hello <b>Bob</b></p>']);
+  });
+
+  it('wraps attachments in multipart/mixed', () => {
+    const message = buildMimeMessage({
+      to: 'bob@example.com',
+      subject: 'Report',
+      text: 'Attached',
+      attachments: [{ filename: 'report.csv', mimeType: 'text/csv', data: utf8ToBase64('a,b\n1,2') }],
+    });
+    expect(message).toContain('multipart/mixed');
+    expect(message).toContain('Content-Disposition: attachment; filename="report.csv"');
+    expect(decodeParts(message)).toEqual(['Attached', 'a,b\n1,2']);
+  });
+
+  it('encodes non-ASCII subjects and keeps threading headers', () => {
+    const message = buildMimeMessage({
+      to: 'bob@example.com',
+      subject: 'Café ☕',
+      text: 'Grüße',
+      inReplyTo: original.messageId,
+      references: threadReferences(original),
+    });
+    expect(message).toContain(`Subject: =?UTF-8?B?${utf8ToBase64('Café ☕')}?=`);
+    expect(message).toContain('In-Reply-To: <abc@mail.example.com>');
+    expect(message).toContain('References: <root@mail.example.com> <abc@mail.example.com>');
+    expect(decodeParts(message)).toEqual(['Grüße']);
+  });
+
+  it('encodes the raw message as base64url', () => {
+    expect(toBase64Url('??>')).toBe('Pz8-');
+  });
+});
+
+describe('addresses', () => {
+  it('splits address lists without breaking quoted names', () => {
+    expect(parseAddressList(original.cc + ', dan@example.com')).toEqual([
+      '"Smith, Carol" <carol@example.com>',
+      'dan@example.com',
+    ]);
+  });
+
+  it('reports invalid addresses', () => {
+    expect(invalidAddresses('bob@example.com, Ana <ana@example.com>')).toEqual([]);
+    expect(invalidAddresses('bob@example.com, not-an-address')).toEqual(['not-an-address']);
+  });
+});
+
+describe('replyRecipients', () => {
+  it('replies to the sender, or Reply-To when set', () => {
+    expect(replyRecipients(original, 'me@example.com', false)).toEqual({ to: 'Ana Lopez <ana@example.com>', cc: '' });
+    expect(replyRecipients({ ...original, replyTo: 'list@example.com' }, 'me@example.com', false).to)
+      .toBe('list@example.com');
+  });
+
+  it('copies everyone else on reply-all, without the user', () => {
+    expect(replyRecipients(original, 'ME@example.com', true)).toEqual({
+      to: 'Ana Lopez <ana@example.com>',
+      cc: 'bob@example.com, "Smith, Carol" <carol@example.com>',
+    });
+  });
+
+  it('replies to the original recipients of your own message', () => {
+    const sent = { ...original, from: 'Me <me@example.com>', to: 'ana@example.com', cc: undefined };
+    expect(replyRecipients(sent, 'me@example.com', true)).toEqual({ to: 'ana@example.com', cc: '' });
+  });
+});
+
+describe('replies and forwards', () => {
+  it('prefixes subjects once', () => {
+    expect(replySubject('Planning')).toBe('Re: Planning');
+    expect(replySubject('RE: Planning')).toBe('RE: Planning');
+    expect(forwardSubject('Planning')).toBe('Fwd: Planning');
+    expect(forwardSubject('Fw: Planning')).toBe('Fw: Planning');
+  });
+
+  it('quotes the original below a reply', () => {
+    expect(quoteReply('Sounds good', original, 'Thursday?\nOr Friday?')).toBe(
+      `Sounds good\n\nOn ${original.date}, ${original.from} wrote:\n> Thursday?\n> Or Friday?`
+    );
+  });
+
+  it('includes the original headers when forwarding', () => {
+    const body = forwardBody('FYI', original, 'Thursday?');
+    expect(body).toContain('FYI\n\n---------- Forwarded message ---------');
+    expect(body).toContain('From: Ana Lopez <ana@example.com>');
+    expect(body).toContain('Subject: Planning');
+    expect(body.endsWith('Thursday?')).toBe(true);
+  });
+
+  it('falls back to the Message-ID alone for References', () => {
+    expect(threadReferences({ ...original, references: undefined })).toBe('<abc@mail.example.com>');
+    expect(threadReferences({ from: 'a@example.com', subject: '' })).toBeUndefined();
+  });
+});
+
+describe('htmlToText', () => {
+  it('keeps line structure and decodes entities', () => {
+    expect(htmlToText('<p>Hi&nbsp;Bob,</p><ul><li>One</li><li>Two &amp; three</li></ul>'))
+      .toBe('Hi Bob,\n- One\n- Two & three');
+  });
+});
+
+describe('Drive attachments', () => {
+  it('extracts file IDs from Drive and Docs links', () => {
+    expect(parseDriveFileId('https://drive.google.com/file/d/1AbCdEfGhIjKlMnOp/view?usp=sharing'))
+      .toBe('1AbCdEfGhIjKlMnOp');
+    expect(parseDriveFileId('https://docs.google.com/document/d/1AbCdEfGhIjKlMnOp/edit')).toBe('1AbCdEfGhIjKlMnOp');
+    expect(parseDriveFileId('https://drive.google.com/open?id=1AbCdEfGhIjKlMnOp')).toBe('1AbCdEfGhIjKlMnOp');
+    expect(parseDriveFileId('1AbCdEfGhIjKlMnOp')).toBe('1AbCdEfGhIjKlMnOp');
+    expect(parseDriveFileId('https://example.com/report.pdf')).toBeNull();
+  });
+
+  it('exports Google-native files and downloads everything else', () => {
+    expect(driveExportFormat('application/vnd.google-apps.document')?.extension).toBe('pdf');
+    expect(driveExportFormat('application/vnd.google-apps.spreadsheet')?.extension).toBe('xlsx');
+    expect(driveExportFormat('application/pdf')).toBeNull();
+  });
+});
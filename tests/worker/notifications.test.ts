@@ -0,0 +1,191 @@
+/**
+ * Notification Rule Tests
+ *
+ * Proves that:
+ * - Only checkpoint, completion, budget and working-run failures notify
+ * - Channels and project mutes treat an empty event list as every event
+ * - Plan details come from the checkpoint, summary or error for each event
+ * - Links point at the project board, or the task list for standalone tasks
+ * - Webhook payloads fit Slack, Discord and plain JSON receivers
+ * - Channels and digest settings are validated
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  channelWants,
+  digestCron,
+  emailContent,
+  formatDigest,
+  isMuted,
+  notificationDetail,
+  notificationEventFor,
+  planDetail,
+  taskUrl,
+  validateNotificationChannel,
+  validateNotificationSettings,
+  webhookPayload,
+  type Notification,
+} from '../../worker/workflows/notifications';
+
+const APP_URL = 'https://agents.example.com/';
+
+function notification(overrides: Partial<Notification> = {}): Notification {
+  return {
+    id: 'n1',
+    event: 'checkpoint',
+    projectId: 'proj-1',
+    projectName: 'Website',
+    taskId: 'task-1',
+    taskTitle: 'Reply to <customer>',
+    planId: 'plan-1',
+    detail: 'Send the reply?',
+    createdAt: '2026-10-19T09:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('notificationEventFor', () => {
+  it('maps status changes to events', () => {
+    expect(notificationEventFor('executing', 'checkpoint')).toBe('checkpoint');
+    expect(notificationEventFor('executing', 'completed')).toBe('completed');
+    expect(notificationEventFor('executing', 'budget_exceeded')).toBe('budget_exceeded');
+    expect(notificationEventFor('executing', 'failed')).toBe('failed');
+  });
+
+  it('ignores repeats, other statuses and user-ended runs', () => {
+    expect(notificationEventFor('checkpoint', 'checkpoint')).toBeNull();
+    expect(notificationEventFor('checkpoint', 'executing')).toBeNull();
+    expect(notificationEventFor('checkpoint', 'failed')).toBeNull();
+    expect(notificationEventFor(null, 'failed')).toBeNull();
+  });
+});
+
+describe('channelWants and isMuted', () => {
+  it('sends every event on a channel without a list, unless disabled', () => {
+    expect(channelWants({ enabled: true, events: [] }, 'failed')).toBe(true);
+    expect(channelWants({ enabled: true, events: ['checkpoint'] }, 'failed')).toBe(false);
+    expect(channelWants({ enabled: false, events: [] }, 'failed')).toBe(false);
+  });
+
+  it('mutes every event when the mute lists none', () => {
+    expect(isMuted(null, 'completed')).toBe(false);
+    expect(isMuted({ projectId: 'p', events: [] }, 'completed')).toBe(true);
+    expect(isMuted({ projectId: 'p', events: ['completed'] }, 'completed')).toBe(true);
+    expect(isMuted({ projectId: 'p', events: ['completed'] }, 'checkpoint')).toBe(false);
+  });
+});
+
+describe('planDetail', () => {
+  const plan = {
+    summary: 'Drafted and sent the reply',
+    checkpointData: { action: 'Send email to ana@example.com', exceeded: { message: 'Cost limit of $1.00 reached' } },
+    result: { error: 'Gmail API error: 403' },
+  };
+
+  it('picks the text that matters for each event', () => {
+    expect(planDetail('checkpoint', plan)).toBe('Send email to ana@example.com');
+    expect(planDetail('budget_exceeded', plan)).toBe('Cost limit of $1.00 reached');
+    expect(planDetail('completed', plan)).toBe('Drafted and sent the reply');
+    expect(planDetail('failed', plan)).toBe('Gmail API error: 403');
+    expect(planDetail('failed', { summary: null, checkpointData: null, result: null })).toBeNull();
+  });
+
+  it('collapses whitespace and shortens long text', () => {
+    expect(notificationDetail('  two\n\nlines ')).toBe('two lines');
+    const long = notificationDetail('x'.repeat(1000))!;
+    expect(long).toHaveLength(500);
+    expect(long.endsWith('…')).toBe(true);
+  });
+});
+
+describe('taskUrl', () => {
+  it('links to the board or the standalone task list', () => {
+    expect(taskUrl(APP_URL, notification())).toBe('https://agents.example.com/project/proj-1?task=task-1');
+    expect(taskUrl(APP_URL, notification({ projectId: 'user-tasks-u1' }))).toBe('https://agents.example.com/tasks?task=task-1');
+    expect(taskUrl(null, notification())).toBeNull();
+  });
+});
+
+describe('formatDigest', () => {
+  it('formats one notification on its own', () => {
+    expect(formatDigest([notification()], APP_URL)).toEqual({
+      title: '"Reply to <customer>" needs approval',
+      body: 'Website - Send the reply?',
+      url: 'https://agents.example.com/project/proj-1?task=task-1',
+    });
+  });
+
+  it('lists several notifications with their links', () => {
+    const digest = formatDigest([notification(), notification({ event: 'completed', taskTitle: 'Triage' })], APP_URL);
+    expect(digest.title).toBe('2 agent updates');
+    expect(digest.body.split('\n')).toHaveLength(2);
+    expect(digest.body).toContain('"Triage" completed (Website)');
+    expect(digest.url).toBe('https://agents.example.com');
+  });
+});
+
+describe('webhookPayload', () => {
+  it('links the title for Slack and Discord', () => {
+    expect(webhookPayload('slack', [notification()], APP_URL)).toEqual({
+      text: '<https://agents.example.com/project/proj-1?task=task-1|"Reply to <customer>" needs approval>\nWebsite - Send the reply?',
+    });
+    const discord = webhookPayload('discord', [notification()], APP_URL) as { content: string };
+    expect(discord.content.startsWith('**["Reply to <customer>" needs approval](https://agents.example.com/')).toBe(true);
+  });
+
+  it('keeps Discord messages within its limit', () => {
+    const many = Array.from({ length: 100 }, (_, i) => notification({ id: `n${i}`, taskTitle: 'x'.repeat(50) }));
+    expect((webhookPayload('discord', many, APP_URL) as { content: string }).content.length).toBeLessThanOrEqual(2000);
+  });
+
+  it('includes the notifications with links in plain JSON', () => {
+    const payload = webhookPayload('json', [notification()], APP_URL) as { notifications: Array<{ url: string }> };
+    expect(payload.notifications[0].url).toBe('https://agents.example.com/project/proj-1?task=task-1');
+  });
+});
+
+describe('emailContent', () => {
+  it('escapes the HTML body', () => {
+    const email = emailContent([notification()], APP_URL);
+    expect(email.subject).toBe('"Reply to <customer>" needs approval');
+    expect(email.html).toContain('Reply to &lt;customer&gt;');
+    expect(email.html).not.toContain('<customer>');
+    expect(email.text).toContain('https://agents.example.com/project/proj-1?task=task-1');
+  });
+});
+
+describe('validateNotificationChannel', () => {
+  it('accepts complete channels', () => {
+    expect(validateNotificationChannel({ type: 'email', name: 'Inbox', config: { to: 'me@example.com' } })).toBeNull();
+    expect(validateNotificationChannel({ type: 'webhook', name: 'Slack', config: { url: 'https://hooks.slack.com/x', format: 'slack' } })).toBeNull();
+    expect(validateNotificationChannel({
+      type: 'web_push',
+      name: 'Chrome',
+      config: { subscription: { endpoint: 'https://fcm.googleapis.com/fcm/send/abc', keys: { p256dh: 'a', auth: 'b' } } },
+    })).toBeNull();
+  });
+
+  it('rejects missing or unsafe config', () => {
+    expect(validateNotificationChannel({ type: 'email', name: ' ', config: { to: 'me@example.com' } })).toBe('name is required');
+    expect(validateNotificationChannel({ type: 'email', name: 'Inbox', config: { to: 'nope' } })).toContain('email address');
+    expect(validateNotificationChannel({ type: 'webhook', name: 'Hook', config: { url: 'http://example.com' } })).toContain('https://');
+    expect(validateNotificationChannel({ type: 'web_push', name: 'Push', config: {} })).toContain('push subscription');
+    expect(validateNotificationChannel({ type: 'sms' as never, name: 'Text', config: {} })).toContain('type must be one of');
+    expect(validateNotificationChannel({ type: 'email', name: 'Inbox', events: ['started' as never], config: { to: 'me@example.com' } }))
+      .toBe('Unknown event "started"');
+  });
+});
+
+describe('digest settings', () => {
+  it('validates the mode, hour and timezone', () => {
+    expect(validateNotificationSettings({ digest: 'daily', digestHour: 9, timezone: 'Europe/Berlin' })).toBeNull();
+    expect(validateNotificationSettings({ digest: 'weekly' as never, digestHour: 9, timezone: 'UTC' })).toContain('digest must be one of');
+    expect(validateNotificationSettings({ digest: 'daily', digestHour: 24, timezone: 'UTC' })).toContain('digestHour');
+    expect(validateNotificationSettings({ digest: 'daily', digestHour: 9, timezone: 'Mars/Base' })).toContain('Unknown timezone');
+  });
+
+  it('sends daily digests at the chosen hour and hourly ones on the hour', () => {
+    expect(digestCron({ digest: 'daily', digestHour: 7 })).toBe('0 7 * * *');
+    expect(digestCron({ digest: 'hourly', digestHour: 7 })).toBe('0 * * * *');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * GitHub Pull Request Tests
+ *
+ * Proves that:
+ * - Inline review comments default to the new side of the diff
+ * - Only real multi-line comments carry a start line
+ * - Check runs and commit statuses fold into one overall state
+ * - Code search is scoped to a repository or an owner when given
+ */
+
+import { describe, it, expect } from 'vitest';
+import { codeSearchQuery, reviewCommentPayload, summarizeChecks } from '../../worker/github/pullRequests';
+
+describe('reviewCommentPayload', () => {
+  it('comments on the new side of the diff by default', () => {
+    expect(reviewCommentPayload([{ path: 'src/app.ts', line: 12, body: 'Nit' }])).toEqual([
+      { path: 'src/app.ts', line: 12, side: 'RIGHT', body: 'Nit' },
+    ]);
+  });
+
+  it('keeps the side for removed lines', () => {
+    expect(reviewCommentPayload([{ path: 'a.ts', line: 3, side: 'LEFT', body: 'Why?' }])[0].side).toBe('LEFT');
+  });
+
+  it('adds a start line and side only for ranges', () => {
+    const [range, single] = reviewCommentPayload([
+      { path: 'a.ts', start_line: 4, line: 9, body: 'Extract this' },
+      { path: 'a.ts', start_line: 9, line: 9, body: 'Typo' },
+    ]);
+    expect(range).toEqual({ path: 'a.ts', line: 9, side: 'RIGHT', start_line: 4, start_side: 'RIGHT', body: 'Extract this' });
+    expect(single).not.toHaveProperty('start_line');
+  });
+});
+
+describe('summarizeChecks', () => {
+  const run = (name: string, status: string, conclusion: string | null) => ({ name, status, conclusion, html_url: `https://ci/${name}` });
+
+  it('is none when nothing ran', () => {
+    expect(summarizeChecks([], [])).toEqual({ state: 'none', checks: [] });
+  });
+
+  it('passes when every check passed or was skipped', () => {
+    const summary = summarizeChecks(
+      [run('build', 'completed', 'success'), run('deploy', 'completed', 'skipped')],
+      [{ context: 'lint', state: 'success', description: 'No problems' }]
+    );
+    expect(summary.state).toBe('success');
+    expect(summary.checks.map((check) => check.name)).toEqual(['build', 'deploy', 'lint']);
+  });
+
+  it('fails when anything failed, even with checks still running', () => {
+    const summary = summarizeChecks(
+      [run('build', 'completed', 'timed_out'), run('test', 'in_progress', null)],
+      []
+    );
+    expect(summary.state).toBe('failure');
+    expect(summary.checks[0]).toEqual({ name: 'build', state: 'failure', detail: 'timed_out', url: 'https://ci/build' });
+    expect(summary.checks[1]).toMatchObject({ state: 'pending', detail: 'in_progress' });
+  });
+
+  it('is pending while checks run and none failed', () => {
+    const summary = summarizeChecks(
+      [run('build', 'completed', 'success')],
+      [{ context: 'ci/circleci', state: 'pending', target_url: 'https://circleci/1' }]
+    );
+    expect(summary.state).toBe('pending');
+    expect(summary.checks[1]).toEqual({ name: 'ci/circleci', state: 'pending', detail: 'pending', url: 'https://circleci/1' });
+  });
+
+  it('counts errored commit statuses as failures', () => {
+    expect(summarizeChecks([], [{ context: 'ci', state: 'error' }]).state).toBe('failure');
+  });
+});
+
+describe('codeSearchQuery', () => {
+  it('scopes the query to a repository or owner', () => {
+    expect(codeSearchQuery('useAuth', 'acme', 'web')).toBe('useAuth repo:acme/web');
+    expect(codeSearchQuery('useAuth', 'acme')).toBe('useAuth user:acme');
+    expect(codeSearchQuery('useAuth language:ts')).toBe('useAuth language:ts');
+  });
+});
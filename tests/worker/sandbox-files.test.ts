@@ -0,0 +1,100 @@
+/**
+ * Sandbox File Tests
+ *
+ * Proves that:
+ * - Paths resolve against the working directory and never leave the workspace
+ * - Listings show paths relative to the working directory, directories first
+ * - Small files are kept in the board, larger ones need the R2 bucket, huge ones are refused
+ * - Published files download from their project, or the task for standalone tasks
+ * - Downloads keep the file's name, including non-ASCII names
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  attachmentDisposition,
+  choosePublishedFileStorage,
+  publishedFileUrl,
+  relativeWorkspacePath,
+  resolveWorkspacePath,
+  sortFileEntries,
+  type SandboxFileEntry,
+} from '../../worker/workflows/sandboxFiles';
+
+describe('resolveWorkspacePath', () => {
+  const workDir = '/workspace/repo';
+
+  it('resolves relative paths against the working directory', () => {
+    expect(resolveWorkspacePath(workDir, '')).toBe('/workspace/repo');
+    expect(resolveWorkspacePath(workDir, 'src/./index.ts')).toBe('/workspace/repo/src/index.ts');
+    expect(resolveWorkspacePath(workDir, '../other/file.txt')).toBe('/workspace/other/file.txt');
+  });
+
+  it('accepts absolute paths inside the workspace', () => {
+    expect(resolveWorkspacePath(workDir, '/workspace/notes.md')).toBe('/workspace/notes.md');
+  });
+
+  it('refuses paths outside the workspace', () => {
+    expect(resolveWorkspacePath(workDir, '../../etc/passwd')).toBeNull();
+    expect(resolveWorkspacePath(workDir, '/etc/passwd')).toBeNull();
+    expect(resolveWorkspacePath(workDir, '/workspace-other/file')).toBeNull();
+    expect(resolveWorkspacePath(workDir, '/../../workspace/../root')).toBeNull();
+  });
+});
+
+describe('file listings', () => {
+  it('shows paths relative to the working directory', () => {
+    expect(relativeWorkspacePath('/workspace/repo', '/workspace/repo')).toBe('');
+    expect(relativeWorkspacePath('/workspace/repo', '/workspace/repo/src/a.ts')).toBe('src/a.ts');
+    expect(relativeWorkspacePath('/workspace/repo', '/workspace/repo2/a.ts')).toBe('/workspace/repo2/a.ts');
+  });
+
+  it('lists directories first, then by name', () => {
+    const entry = (name: string, type: SandboxFileEntry['type']): SandboxFileEntry =>
+      ({ name, path: name, type, size: 0, modifiedAt: '' });
+    const sorted = sortFileEntries([
+      entry('b.txt', 'file'),
+      entry('src', 'directory'),
+      entry('a.txt', 'file'),
+      entry('docs', 'directory'),
+    ]);
+    expect(sorted.map((e) => e.name)).toEqual(['docs', 'src', 'a.txt', 'b.txt']);
+  });
+});
+
+describe('choosePublishedFileStorage', () => {
+  const MB = 1024 * 1024;
+
+  it('keeps small files in the board', () => {
+    expect(choosePublishedFileStorage(MB, false)).toEqual({ storage: 'inline' });
+  });
+
+  it('puts larger files in R2 when the bucket is bound', () => {
+    expect(choosePublishedFileStorage(MB + 1, true)).toEqual({ storage: 'r2' });
+    expect(choosePublishedFileStorage(MB + 1, false)).toEqual({
+      error: 'Files over 1 MB need an R2 bucket bound as ARTIFACTS',
+    });
+  });
+
+  it('refuses files over the limit', () => {
+    expect(choosePublishedFileStorage(26 * MB, true)).toEqual({
+      error: 'File is too large to publish (26 MB, limit 25 MB)',
+    });
+  });
+});
+
+describe('published file downloads', () => {
+  it('uses the project route for project boards', () => {
+    expect(publishedFileUrl('proj-1', 'task-1', 'file-1')).toBe('/api/projects/proj-1/files/file-1');
+  });
+
+  it('uses the task route for standalone tasks', () => {
+    expect(publishedFileUrl('user-tasks-u1', 'task-1', 'file-1')).toBe('/api/tasks/task-1/files/file-1');
+  });
+
+  it('keeps the file name', () => {
+    expect(attachmentDisposition('report.pdf')).toBe(`attachment; filename="report.pdf"; filename*=UTF-8''report.pdf`);
+    expect(attachmentDisposition('résumé "v2".txt')).toBe(
+      `attachment; filename="r_sum___v2_.txt"; filename*=UTF-8''r%C3%A9sum%C3%A9%20%22v2%22.txt`
+    );
+  });
+});
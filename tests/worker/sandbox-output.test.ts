@@ -0,0 +1,190 @@
+/**
+ * Sandbox Output Tests
+ *
+ * Proves that:
+ * - Claude Code stream-json events render as readable terminal lines
+ * - The result event carries Claude's final answer, cost and turns
+ * - Streamed text is split into whole lines across chunk boundaries
+ * - Output is batched by time and size, merged per stream and sent in order
+ * - Transcripts stop at the limit with a marker, and tails keep the newest text
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  TRUNCATION_MARKER,
+  capTranscript,
+  createLineSplitter,
+  createOutputBatcher,
+  parseClaudeStreamLine,
+  summarizeToolInput,
+  tailChunks,
+  type SandboxOutputChunk,
+} from '../../worker/workflows/sandboxOutput';
+
+describe('parseClaudeStreamLine', () => {
+  it('announces the session start', () => {
+    const line = JSON.stringify({ type: 'system', subtype: 'init', model: 'claude-sonnet-4-5', tools: [] });
+    expect(parseClaudeStreamLine(line).text).toBe('Claude Code started (claude-sonnet-4-5)\n');
+  });
+
+  it('renders assistant text and tool calls', () => {
+    const line = JSON.stringify({
+      type: 'assistant',
+      message: {
+        content: [
+          { type: 'text', text: 'Let me look at the tests.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'npm test', description: 'Run tests' } },
+          { type: 'thinking', thinking: 'hidden' },
+        ],
+      },
+    });
+    expect(parseClaudeStreamLine(line).text).toBe('Let me look at the tests.\n→ Bash npm test\n');
+  });
+
+  it('shows failed tool results only', () => {
+    const failed = JSON.stringify({
+      type: 'user',
+      message: { content: [{ type: 'tool_result', tool_use_id: 'toolu_1', is_error: true, content: 'ENOENT: no such file\nstack...' }] },
+    });
+    const passed = JSON.stringify({
+      type: 'user',
+      message: { content: [{ type: 'tool_result', tool_use_id: 'toolu_2', content: [{ type: 'text', text: 'ok' }] }] },
+    });
+    expect(parseClaudeStreamLine(failed).text).toBe('  ✗ ENOENT: no such file\n');
+    expect(parseClaudeStreamLine(passed).text).toBeNull();
+  });
+
+  it('reads the final result', () => {
+    const line = JSON.stringify({
+      type: 'result',
+      subtype: 'success',
+      is_error: false,
+      result: 'Fixed the failing test.',
+      num_turns: 6,
+      total_cost_usd: 0.1234,
+    });
+    const parsed = parseClaudeStreamLine(line);
+    expect(parsed.result).toEqual({ text: 'Fixed the failing test.', isError: false, turns: 6, costUsd: 0.1234 });
+    expect(parsed.text).toBe('Claude Code finished (6 turns, $0.12)\n');
+  });
+
+  it('treats error subtypes as failures', () => {
+    const parsed = parseClaudeStreamLine(JSON.stringify({ type: 'result', subtype: 'error_max_turns', num_turns: 1 }));
+    expect(parsed.result?.isError).toBe(true);
+    expect(parsed.text).toBe('Claude Code failed (1 turn)\n');
+  });
+
+  it('passes plain lines through and skips blank ones', () => {
+    expect(parseClaudeStreamLine('Warning: running as root').text).toBe('Warning: running as root\n');
+    expect(parseClaudeStreamLine('   ').text).toBeNull();
+    expect(parseClaudeStreamLine(JSON.stringify({ type: 'stream_event' })).text).toBeNull();
+  });
+});
+
+describe('summarizeToolInput', () => {
+  it('prefers descriptive fields and shortens long input', () => {
+    expect(summarizeToolInput({ file_path: 'src/app.ts', old_string: 'a' })).toBe('src/app.ts');
+    expect(summarizeToolInput({ todos: [] })).toBe('{"todos":[]}');
+    expect(summarizeToolInput({})).toBe('');
+    expect(summarizeToolInput({ command: 'x'.repeat(300) })).toHaveLength(120);
+  });
+});
+
+describe('createLineSplitter', () => {
+  it('holds partial lines until they complete', () => {
+    const lines = createLineSplitter();
+    expect(lines.push('{"a":')).toEqual([]);
+    expect(lines.push('1}\r\n{"b":2}\n{"c"')).toEqual(['{"a":1}', '{"b":2}']);
+    expect(lines.end()).toEqual(['{"c"']);
+    expect(lines.end()).toEqual([]);
+  });
+});
+
+describe('createOutputBatcher', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends merged chunks after the interval', async () => {
+    vi.useFakeTimers();
+    const batches: SandboxOutputChunk[][] = [];
+    const output = createOutputBatcher(async (chunks) => {
+      batches.push(chunks);
+    }, { intervalMs: 250 });
+
+    output.write({ stream: 'stdout', text: 'a' });
+    output.write({ stream: 'stdout', text: 'b' });
+    output.write({ stream: 'stderr', text: 'oops' });
+    expect(batches).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(250);
+    expect(batches).toEqual([[{ stream: 'stdout', text: 'ab' }, { stream: 'stderr', text: 'oops' }]]);
+  });
+
+  it('sends early once a batch is large, in order', async () => {
+    const batches: string[] = [];
+    let release: () => void = () => {};
+    const firstSend = new Promise<void>((resolve) => { release = resolve; });
+    const output = createOutputBatcher(async (chunks) => {
+      if (batches.length === 0) await firstSend;
+      batches.push(chunks.map((c) => c.text).join(''));
+    }, { maxChars: 5 });
+
+    output.write({ stream: 'stdout', text: '12345' });
+    output.write({ stream: 'stdout', text: 'six' });
+    const flushed = output.flush();
+    release();
+    await flushed;
+
+    expect(batches).toEqual(['12345', 'six']);
+  });
+
+  it('keeps sending after a failed batch', async () => {
+    const sent: string[] = [];
+    const output = createOutputBatcher(async (chunks) => {
+      if (chunks[0].text === 'bad') throw new Error('RPC failed');
+      sent.push(chunks[0].text);
+    });
+
+    output.write({ stream: 'stdout', text: 'bad' });
+    await output.flush();
+    output.write({ stream: 'stdout', text: 'good' });
+    await output.flush();
+
+    expect(sent).toEqual(['good']);
+  });
+});
+
+describe('capTranscript', () => {
+  const chunks: SandboxOutputChunk[] = [
+    { stream: 'stdout', text: 'hello ' },
+    { stream: 'stderr', text: 'world' },
+  ];
+
+  it('keeps batches that fit', () => {
+    expect(capTranscript(chunks, 0, 100)).toEqual(chunks);
+  });
+
+  it('cuts the batch that reaches the limit and marks it', () => {
+    expect(capTranscript(chunks, 92, 100)).toEqual([
+      { stream: 'stdout', text: 'hello ' },
+      { stream: 'stderr', text: 'wo' },
+      { stream: 'system', text: TRUNCATION_MARKER },
+    ]);
+  });
+
+  it('drops everything once the limit is reached', () => {
+    expect(capTranscript(chunks, 100, 100)).toEqual([]);
+  });
+});
+
+describe('tailChunks', () => {
+  it('keeps the newest characters', () => {
+    const chunks: SandboxOutputChunk[] = [
+      { stream: 'system', text: '$ ls\n' },
+      { stream: 'stdout', text: 'a.txt\nb.txt\n' },
+    ];
+    expect(tailChunks(chunks, 100)).toEqual(chunks);
+    expect(tailChunks(chunks, 6)).toEqual([{ stream: 'stdout', text: 'b.txt\n' }]);
+  });
+});
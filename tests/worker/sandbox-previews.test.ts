@@ -0,0 +1,121 @@
+/**
+ * Sandbox Preview Tests
+ *
+ * Proves that:
+ * - Previews get a proxy path on their project, or on the task for standalone tasks
+ * - The sandbox's own control port can't be previewed
+ * - Requests reach the dev server from the root unless it keeps the base path
+ * - Reviewer credentials never reach the container, and previews can't set cookies
+ * - Preview pages run in a CSP sandbox, so their scripts get an opaque origin
+ * - Root redirects stay inside the preview
+ * - Destroying a session drops only that session's preview artifacts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  destroyedSessionId,
+  isReservedPreviewPort,
+  previewBasePath,
+  previewRequestHeaders,
+  PREVIEW_CONTENT_SECURITY_POLICY,
+  previewResponseHeaders,
+  previewTargetPath,
+  removeSessionPreviews,
+} from '../../worker/workflows/sandboxPreviews';
+
+describe('previewBasePath', () => {
+  it('uses the project route for project boards', () => {
+    expect(previewBasePath('proj-1', 'task-1', 'preview-1')).toBe('/api/projects/proj-1/previews/preview-1/');
+  });
+
+  it('uses the task route for standalone tasks', () => {
+    expect(previewBasePath('user-tasks-u1', 'task-1', 'preview-1')).toBe('/api/tasks/task-1/previews/preview-1/');
+  });
+});
+
+describe('isReservedPreviewPort', () => {
+  it('rejects the control port only', () => {
+    expect(isReservedPreviewPort(3000)).toBe(true);
+    expect(isReservedPreviewPort(5173)).toBe(false);
+  });
+});
+
+describe('previewTargetPath', () => {
+  const url = '/api/projects/proj-1/previews/preview-1/';
+
+  it('strips the base path by default', () => {
+    const preview = { url, keepBasePath: false };
+    expect(previewTargetPath(preview, `${url}assets/app.js`)).toBe('/assets/app.js');
+    expect(previewTargetPath(preview, url)).toBe('/');
+  });
+
+  it('keeps it for servers configured with it', () => {
+    expect(previewTargetPath({ url, keepBasePath: true }, `${url}docs/`)).toBe(`${url}docs/`);
+  });
+});
+
+describe('preview headers', () => {
+  const preview = { url: '/api/projects/proj-1/previews/preview-1/', keepBasePath: false };
+
+  it('drops the reviewer credentials from requests', () => {
+    const headers = previewRequestHeaders(new Headers({
+      Cookie: 'CF_Authorization=secret',
+      Authorization: 'Bearer token',
+      'Cf-Access-Jwt-Assertion': 'jwt',
+      Accept: 'text/html',
+    }));
+    expect([...headers.keys()]).toEqual(['accept']);
+  });
+
+  it('drops cookies and scope headers from responses', () => {
+    const headers = previewResponseHeaders(new Headers({
+      'Set-Cookie': 'session=x; Path=/',
+      'Service-Worker-Allowed': '/',
+      'Content-Type': 'text/html',
+    }), preview);
+    expect([...headers.keys()]).toEqual(['content-security-policy', 'content-type']);
+  });
+
+  it('sandboxes every preview into an opaque origin', () => {
+    const csp = (headers: Record<string, string>) =>
+      previewResponseHeaders(new Headers(headers), preview).get('content-security-policy');
+
+    expect(csp({ 'Content-Type': 'text/html' })).toBe(PREVIEW_CONTENT_SECURITY_POLICY);
+    expect(PREVIEW_CONTENT_SECURITY_POLICY).toMatch(/^sandbox /);
+    expect(PREVIEW_CONTENT_SECURITY_POLICY).toContain('allow-scripts');
+    expect(PREVIEW_CONTENT_SECURITY_POLICY).not.toContain('allow-same-origin');
+    // The dev server's own policy can't lift the sandbox
+    expect(csp({ 'Content-Security-Policy': "default-src 'self'" }))
+      .toBe(`default-src 'self', ${PREVIEW_CONTENT_SECURITY_POLICY}`);
+  });
+
+  it('keeps root redirects inside the preview', () => {
+    const redirect = (location: string, keepBasePath = false) =>
+      previewResponseHeaders(new Headers({ Location: location }), { ...preview, keepBasePath }).get('location');
+
+    expect(redirect('/login')).toBe(`${preview.url}login`);
+    expect(redirect('https://example.com/')).toBe('https://example.com/');
+    expect(redirect('//cdn.example.com/a.js')).toBe('//cdn.example.com/a.js');
+    expect(redirect(`${preview.url}login`, true)).toBe(`${preview.url}login`);
+  });
+});
+
+describe('session previews', () => {
+  it('reads the destroyed session from destroySession results', () => {
+    const result = { structuredContent: { success: true, sessionId: 'sandbox-1' } };
+    expect(destroyedSessionId('Sandbox__destroySession', result)).toBe('sandbox-1');
+    expect(destroyedSessionId('Sandbox__exec', result)).toBeNull();
+  });
+
+  it('removes only the ended session previews', () => {
+    const artifacts = [
+      { type: 'preview', url: '/a/', sessionId: 'sandbox-1' },
+      { type: 'preview', url: '/b/', sessionId: 'sandbox-2' },
+      { type: 'github_pr', url: 'https://github.com/o/r/pull/1' },
+    ];
+    expect(removeSessionPreviews(artifacts, 'sandbox-1').map((a) => a.url)).toEqual([
+      '/b/',
+      'https://github.com/o/r/pull/1',
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Sandbox Template Tests
+ *
+ * Proves that:
+ * - Templates with bad limits, empty commands or paths outside the repository are refused
+ * - Saved templates drop empty entries, trailing slashes and settings they don't have
+ * - Secrets must be environment variable names the sandbox doesn't set itself
+ * - Commands run under a data memory limit Claude Code fits in, and tool timeouts are lowered to the command limit
+ * - Cache commands quote their paths, and archives are stored under their own project's prefix
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_SETUP_COMMANDS,
+  MIN_MEMORY_LIMIT_MB,
+  CACHE_ARCHIVE_PATH,
+  cacheKeyCommand,
+  cacheObjectKey,
+  cachePackCommand,
+  cacheUnpackCommand,
+  limitCommand,
+  limitTimeoutSeconds,
+  normalizeSandboxTemplate,
+  sessionLimits,
+  shellQuote,
+  validateSandboxTemplate,
+  validateSecretName,
+} from '../../worker/workflows/sandboxTemplates';
+
+describe('validateSandboxTemplate', () => {
+  it('accepts an empty template and a full one', () => {
+    expect(validateSandboxTemplate({})).toBeNull();
+    expect(validateSandboxTemplate({
+      setupCommands: ['npm ci'],
+      cacheDirectories: ['node_modules', 'packages/app/node_modules'],
+      cacheKeyFiles: ['package-lock.json'],
+      memoryLimitMb: 2048,
+      timeoutMs: 600_000,
+    })).toBeNull();
+  });
+
+  it('refuses limits out of range', () => {
+    expect(validateSandboxTemplate({ memoryLimitMb: 64 })).toMatch(/memoryLimitMb/);
+    expect(validateSandboxTemplate({ memoryLimitMb: 512 })).toMatch(/memoryLimitMb/);
+    expect(validateSandboxTemplate({ memoryLimitMb: 1024.5 })).toMatch(/memoryLimitMb/);
+    expect(validateSandboxTemplate({ timeoutMs: 1000 })).toMatch(/timeoutMs/);
+    expect(validateSandboxTemplate({ timeoutMs: 24 * 60 * 60_000 })).toMatch(/timeoutMs/);
+  });
+
+  it('refuses empty or too many setup commands', () => {
+    expect(validateSandboxTemplate({ setupCommands: ['npm ci', '  '] })).toMatch(/empty/);
+    expect(validateSandboxTemplate({
+      setupCommands: Array.from({ length: MAX_SETUP_COMMANDS + 1 }, () => 'true'),
+    })).toMatch(/At most/);
+  });
+
+  it('refuses cached paths outside the repository', () => {
+    expect(validateSandboxTemplate({ cacheDirectories: ['/root/.npm'] })).toMatch(/inside the working directory/);
+    expect(validateSandboxTemplate({ cacheDirectories: ['../shared'] })).toMatch(/inside the working directory/);
+    expect(validateSandboxTemplate({ cacheDirectories: ['node_modules'], cacheKeyFiles: ['a/../../b'] }))
+      .toMatch(/inside the working directory/);
+  });
+
+  it('needs a cached directory for key files', () => {
+    expect(validateSandboxTemplate({ cacheKeyFiles: ['package-lock.json'] })).toMatch(/cached directory/);
+  });
+});
+
+describe('normalizeSandboxTemplate', () => {
+  it('drops empty entries, trailing slashes and unknown settings', () => {
+    expect(normalizeSandboxTemplate({
+      setupCommands: [' npm ci ', ''],
+      cacheDirectories: ['node_modules/'],
+      memoryLimitMb: 1024,
+      ...{ allowedDomains: ['registry.npmjs.org'] },
+    })).toEqual({
+      setupCommands: ['npm ci'],
+      cacheDirectories: ['node_modules'],
+      cacheKeyFiles: [],
+      memoryLimitMb: 1024,
+      timeoutMs: null,
+    });
+  });
+});
+
+describe('validateSecretName', () => {
+  it('accepts environment variable names', () => {
+    expect(validateSecretName('NPM_TOKEN')).toBeNull();
+    expect(validateSecretName('_private')).toBeNull();
+  });
+
+  it('refuses other names and ones the sandbox sets', () => {
+    expect(validateSecretName('1TOKEN')).toMatch(/environment variable/);
+    expect(validateSecretName('MY-TOKEN')).toMatch(/environment variable/);
+    expect(validateSecretName('ANTHROPIC_API_KEY')).toMatch(/set by the sandbox/);
+    expect(validateSecretName('PREVIEW_BASE_PATH')).toMatch(/set by the sandbox/);
+  });
+});
+
+describe('limits', () => {
+  it('keeps no limits for templates without them', () => {
+    expect(sessionLimits(null)).toBeNull();
+    expect(sessionLimits({ setupCommands: ['npm ci'] })).toBeNull();
+    expect(sessionLimits({ memoryLimitMb: 512 })).toEqual({ memoryLimitMb: 512, timeoutMs: null });
+  });
+
+  it('runs commands under the memory limit', () => {
+    expect(limitCommand('npm test', null)).toBe('npm test');
+    expect(limitCommand('npm test', { memoryLimitMb: 2048 })).toBe(
+      'ulimit -d 2097152 && export NODE_OPTIONS="${NODE_OPTIONS:+$NODE_OPTIONS }--max-old-space-size=1536" && npm test'
+    );
+  });
+
+  it('leaves Claude Code room to start under the smallest limit', () => {
+    // ulimit -v stops V8 and Bun reserving their address space, so Claude Code
+    // would crash before doing anything; a data limit of 768 MB or more runs it
+    const command = limitCommand('bash /tmp/run-claude.sh', { memoryLimitMb: MIN_MEMORY_LIMIT_MB });
+    expect(command).not.toContain('ulimit -v');
+    expect(command).toMatch(/^ulimit -d (\d+) && /);
+    expect(Number(command.match(/^ulimit -d (\d+)/)?.[1])).toBeGreaterThanOrEqual(768 * 1024);
+    expect(command).toContain('--max-old-space-size=768');
+    expect(command.endsWith('&& bash /tmp/run-claude.sh')).toBe(true);
+  });
+
+  it('lowers tool timeouts to the command limit', () => {
+    expect(limitTimeoutSeconds(300, null)).toBe(300);
+    expect(limitTimeoutSeconds(300, { timeoutMs: 60_000 })).toBe(60);
+    expect(limitTimeoutSeconds(30, { timeoutMs: 60_000 })).toBe(30);
+  });
+});
+
+describe('cache commands', () => {
+  const template = { cacheDirectories: ['node_modules'], cacheKeyFiles: ["it's.lock"] };
+
+  it('quotes values for the shell', () => {
+    expect(shellQuote("it's")).toBe("'it'\\''s'");
+  });
+
+  it('keys archives by the cached directories and key files', () => {
+    const key = cacheKeyCommand('/workspace/repo', template);
+    expect(key).toContain("cd '/workspace/repo'");
+    expect(key).toContain("printf '%s\\n' 'node_modules'");
+    expect(key).toContain("cat 'it'\\''s.lock'");
+    expect(key).toContain('sha256sum | cut -c1-16');
+  });
+
+  it("stores archives under their own project's prefix", () => {
+    expect(cacheObjectKey('project/1', '0123456789abcdef')).toBe('project_1/0123456789abcdef.tar.gz');
+    expect(cacheObjectKey('project-1', '../other/0123456')).toBeNull();
+    expect(cacheObjectKey('project-1', '')).toBeNull();
+  });
+
+  it('packs and unpacks through a temporary archive', () => {
+    const pack = cachePackCommand('/workspace/repo', template);
+    expect(pack).toContain("for d in 'node_modules'");
+    expect(pack).toContain(`tar -czf ${CACHE_ARCHIVE_PATH}`);
+    expect(pack).toContain('cache-empty');
+
+    const unpack = cacheUnpackCommand('/workspace/repo');
+    expect(unpack).toContain(`tar -xzf ${CACHE_ARCHIVE_PATH}`);
+    expect(unpack).toContain(`rm -f ${CACHE_ARCHIVE_PATH}`);
+  });
+});
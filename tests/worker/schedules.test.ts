@@ -0,0 +1,111 @@
+/**
+ * Task Schedule Tests
+ *
+ * Proves that:
+ * - Cron expressions with lists, ranges and steps parse; bad ones are rejected
+ * - Repeat rules turn into the equivalent cron expression
+ * - Next runs are computed in the schedule's timezone, including across DST
+ * - Day-of-month and day-of-week follow the standard cron "either" rule
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  nextRunTime,
+  parseCron,
+  repeatRuleToCron,
+  scheduleCron,
+  validateSchedule,
+} from '../../worker/workflows/schedules';
+
+const next = (cron: string, timezone: string, after: string) =>
+  nextRunTime(cron, timezone, new Date(after))?.toISOString() ?? null;
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const cron = parseCron('*/15 9-11 1,15 * 1-5');
+    expect(typeof cron).not.toBe('string');
+    if (typeof cron === 'string') return;
+    expect(cron.minutes.values).toEqual([0, 15, 30, 45]);
+    expect(cron.hours.values).toEqual([9, 10, 11]);
+    expect(cron.daysOfMonth.values).toEqual([1, 15]);
+    expect(cron.months.any).toBe(true);
+    expect(cron.daysOfWeek.values).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    const cron = parseCron('0 0 * * 7');
+    expect(typeof cron !== 'string' && cron.daysOfWeek.values).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(parseCron('0 9 * *')).toMatch(/5 fields/);
+    expect(parseCron('60 9 * * *')).toMatch(/minute/);
+    expect(parseCron('0 9 * * MON')).toMatch(/day of week/);
+    expect(parseCron('0 12-9 * * *')).toMatch(/hour/);
+  });
+});
+
+describe('repeat rules', () => {
+  it('turns each frequency into cron', () => {
+    expect(repeatRuleToCron({ frequency: 'hourly', time: '00:30' })).toBe('30 * * * *');
+    expect(repeatRuleToCron({ frequency: 'daily', time: '21:05' })).toBe('5 21 * * *');
+    expect(repeatRuleToCron({ frequency: 'weekdays', time: '09:00' })).toBe('0 9 * * 1-5');
+    expect(repeatRuleToCron({ frequency: 'weekly', time: '09:00', daysOfWeek: [5, 1, 1] })).toBe('0 9 * * 1,5');
+    expect(repeatRuleToCron({ frequency: 'monthly', time: '08:15', dayOfMonth: 1 })).toBe('15 8 1 * *');
+  });
+
+  it('prefers the cron expression when both are given', () => {
+    expect(scheduleCron({ cron: ' 0  9 * * 1 ', repeat: { frequency: 'daily', time: '10:00' }, timezone: 'UTC' }))
+      .toBe('0 9 * * 1');
+  });
+});
+
+describe('validateSchedule', () => {
+  it('accepts valid schedules', () => {
+    expect(validateSchedule({ cron: '0 9 * * 1', timezone: 'Europe/Berlin' })).toBeNull();
+    expect(validateSchedule({ repeat: { frequency: 'weekly', time: '09:00', daysOfWeek: [1] }, timezone: 'UTC' })).toBeNull();
+  });
+
+  it('rejects bad timezones, rules and empty schedules', () => {
+    expect(validateSchedule({ cron: '0 9 * * 1', timezone: 'Mars/Olympus' })).toMatch(/timezone/);
+    expect(validateSchedule({ repeat: { frequency: 'daily', time: '25:00' }, timezone: 'UTC' })).toMatch(/HH:MM/);
+    expect(validateSchedule({ repeat: { frequency: 'weekly', time: '09:00', daysOfWeek: [] }, timezone: 'UTC' }))
+      .toMatch(/day of the week/);
+    expect(validateSchedule({ repeat: { frequency: 'monthly', time: '09:00' }, timezone: 'UTC' }))
+      .toMatch(/day of the month/);
+    expect(validateSchedule({ timezone: 'UTC' })).toMatch(/cron expression or a repeat rule/);
+  });
+});
+
+describe('nextRunTime', () => {
+  it('finds the next weekly run in UTC', () => {
+    // 2026-03-04 is a Wednesday
+    expect(next('0 9 * * 1', 'UTC', '2026-03-04T12:00:00Z')).toBe('2026-03-09T09:00:00.000Z');
+  });
+
+  it('never returns the current minute', () => {
+    expect(next('0 9 * * *', 'UTC', '2026-03-04T09:00:00Z')).toBe('2026-03-05T09:00:00.000Z');
+  });
+
+  it('evaluates the time in the schedule timezone', () => {
+    // 09:00 in New York is 14:00 UTC in winter
+    expect(next('0 9 * * *', 'America/New_York', '2026-01-10T00:00:00Z')).toBe('2026-01-10T14:00:00.000Z');
+    // Just after local midnight in Tokyo, on the previous UTC day
+    expect(next('0 9 * * *', 'Asia/Tokyo', '2026-01-09T16:00:00Z')).toBe('2026-01-10T00:00:00.000Z');
+  });
+
+  it('keeps the local time across daylight saving changes', () => {
+    // US DST starts 2026-03-08; 09:00 local moves from 14:00 to 13:00 UTC
+    expect(next('0 9 * * *', 'America/New_York', '2026-03-07T15:00:00Z')).toBe('2026-03-08T13:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 15th or any Monday, whichever comes first; 2026-03-09 is a Monday
+    expect(next('0 0 15 * 1', 'UTC', '2026-03-04T00:00:00Z')).toBe('2026-03-09T00:00:00.000Z');
+  });
+
+  it('skips months without the day and gives up on impossible dates', () => {
+    expect(next('0 0 31 * *', 'UTC', '2026-04-01T00:00:00Z')).toBe('2026-05-31T00:00:00.000Z');
+    expect(next('0 0 31 2 *', 'UTC', '2026-01-01T00:00:00Z')).toBeNull();
+  });
+});
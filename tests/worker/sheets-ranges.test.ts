@@ -0,0 +1,164 @@
+/**
+ * Google Sheets Range Tests
+ *
+ * Proves that:
+ * - A1 ranges parse to zero-based grid ranges, open where the range is open
+ * - Sheet names are told apart from cell references, quoted or not
+ * - Formatting only touches the options given
+ * - Charts take labels from the first column and series from the rest
+ * - Pivot tables refer to columns relative to their source range
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  cellFormat,
+  chartSpec,
+  columnIndex,
+  columnLetter,
+  parseA1Range,
+  pivotTableSpec,
+  quoteSheetName,
+  toGridRange,
+} from '../../worker/google/sheetsRanges';
+
+describe('columns', () => {
+  it('converts between letters and indices', () => {
+    expect(columnIndex('A')).toBe(0);
+    expect(columnIndex('z')).toBe(25);
+    expect(columnIndex('AA')).toBe(26);
+    expect(columnLetter(0)).toBe('A');
+    expect(columnLetter(27)).toBe('AB');
+    expect(columnLetter(columnIndex('XFD'))).toBe('XFD');
+  });
+});
+
+describe('parseA1Range', () => {
+  it('parses a bounded range on a sheet', () => {
+    expect(parseA1Range('Sales!B2:D10')).toEqual({
+      sheetName: 'Sales',
+      startRowIndex: 1,
+      endRowIndex: 10,
+      startColumnIndex: 1,
+      endColumnIndex: 4,
+    });
+  });
+
+  it('parses a single cell', () => {
+    expect(parseA1Range('$C$5')).toEqual({ startRowIndex: 4, endRowIndex: 5, startColumnIndex: 2, endColumnIndex: 3 });
+  });
+
+  it('leaves whole columns and whole rows open', () => {
+    expect(parseA1Range('A:C')).toEqual({ startColumnIndex: 0, endColumnIndex: 3 });
+    expect(parseA1Range('2:5')).toEqual({ startRowIndex: 1, endRowIndex: 5 });
+  });
+
+  it('reads a bare name as a whole sheet', () => {
+    expect(parseA1Range('Sheet1')).toEqual({ sheetName: 'Sheet1' });
+    expect(parseA1Range("'Q1 plan'")).toEqual({ sheetName: 'Q1 plan' });
+  });
+
+  it('unquotes sheet names', () => {
+    expect(parseA1Range("'Bob''s plan'!A1")?.sheetName).toBe("Bob's plan");
+  });
+
+  it('rejects a cell part that is not A1 notation', () => {
+    expect(parseA1Range('Sales!B2:D10:E4')).toBeNull();
+    expect(parseA1Range('Sales!total')).toBeNull();
+  });
+
+  it('becomes a grid range on the given sheet', () => {
+    expect(toGridRange(parseA1Range('Sales!A1:B2')!, 7)).toEqual({
+      sheetId: 7,
+      startRowIndex: 0,
+      endRowIndex: 2,
+      startColumnIndex: 0,
+      endColumnIndex: 2,
+    });
+  });
+});
+
+describe('quoteSheetName', () => {
+  it('only quotes names that need it', () => {
+    expect(quoteSheetName('Sales')).toBe('Sales');
+    expect(quoteSheetName("Bob's plan")).toBe("'Bob''s plan'");
+  });
+});
+
+describe('cellFormat', () => {
+  it('limits the field mask to the options given', () => {
+    expect(cellFormat({ bold: true, backgroundColor: '#ff0000' })).toEqual({
+      userEnteredFormat: {
+        textFormat: { bold: true },
+        backgroundColor: { red: 1, green: 0, blue: 0 },
+      },
+      fields: ['userEnteredFormat.textFormat.bold', 'userEnteredFormat.backgroundColor'],
+    });
+  });
+
+  it('maps number formats and keeps custom patterns', () => {
+    expect(cellFormat({ numberFormat: 'currency' }).userEnteredFormat.numberFormat).toEqual({ type: 'CURRENCY' });
+    expect(cellFormat({ numberPattern: '0.0%' }).userEnteredFormat.numberFormat).toEqual({
+      type: 'NUMBER',
+      pattern: '0.0%',
+    });
+  });
+
+  it('has nothing to change without options', () => {
+    expect(cellFormat({}).fields).toEqual([]);
+  });
+});
+
+describe('chartSpec', () => {
+  const source = toGridRange(parseA1Range('Sales!A1:C13')!, 3);
+
+  it('uses the first column as labels and the others as series', () => {
+    const spec = chartSpec('line', source, 'Monthly sales') as {
+      title: string;
+      basicChart: { chartType: string; domains: unknown[]; series: Array<{ series: unknown; targetAxis: string }> };
+    };
+    expect(spec.title).toBe('Monthly sales');
+    expect(spec.basicChart.chartType).toBe('LINE');
+    expect(spec.basicChart.domains).toEqual([
+      { domain: { sourceRange: { sources: [{ ...source, startColumnIndex: 0, endColumnIndex: 1 }] } } },
+    ]);
+    expect(spec.basicChart.series.map((s) => s.series)).toEqual([
+      { sourceRange: { sources: [{ ...source, startColumnIndex: 1, endColumnIndex: 2 }] } },
+      { sourceRange: { sources: [{ ...source, startColumnIndex: 2, endColumnIndex: 3 }] } },
+    ]);
+    expect(spec.basicChart.series[0].targetAxis).toBe('LEFT_AXIS');
+  });
+
+  it('puts bar chart values on the bottom axis', () => {
+    const spec = chartSpec('bar', source) as { basicChart: { series: Array<{ targetAxis: string }> } };
+    expect(spec.basicChart.series[0].targetAxis).toBe('BOTTOM_AXIS');
+  });
+
+  it('builds pie charts from the first series', () => {
+    const spec = chartSpec('pie', source) as { pieChart: { series: unknown } };
+    expect(spec.pieChart.series).toEqual({
+      sourceRange: { sources: [{ ...source, startColumnIndex: 1, endColumnIndex: 2 }] },
+    });
+  });
+
+  it('needs a label column and at least one series', () => {
+    expect(() => chartSpec('column', toGridRange(parseA1Range('Sales!A1:A13')!, 3))).toThrow(/at least two columns/);
+  });
+});
+
+describe('pivotTableSpec', () => {
+  const source = toGridRange(parseA1Range('Sales!B1:F500')!, 3);
+
+  it('turns column letters into offsets within the source', () => {
+    const spec = pivotTableSpec(source, ['C'], [{ column: 'F', summarize: 'sum' }, { column: 'B', summarize: 'count' }]);
+    expect(spec.rows).toEqual([{ sourceColumnOffset: 1, showTotals: true, sortOrder: 'ASCENDING' }]);
+    expect(spec.values).toEqual([
+      { sourceColumnOffset: 4, summarizeFunction: 'SUM' },
+      { sourceColumnOffset: 0, summarizeFunction: 'COUNTA' },
+    ]);
+  });
+
+  it('rejects columns outside the source', () => {
+    expect(() => pivotTableSpec(source, ['A'], [{ column: 'F', summarize: 'sum' }])).toThrow('Column A is not in the source range');
+    expect(() => pivotTableSpec(source, ['C'], [{ column: 'G', summarize: 'sum' }])).toThrow('Column G is not in the source range');
+  });
+});
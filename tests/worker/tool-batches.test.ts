@@ -0,0 +1,83 @@
+/**
+ * Parallel Tool Call Tests
+ *
+ * Proves that:
+ * - Consecutive read-only calls are grouped so they can run together
+ * - Writes and approvals split batches and keep their position
+ * - Batches never exceed the concurrency cap
+ * - Only tools marked read-only (and not held by a policy) run in parallel
+ */
+
+import { describe, it, expect } from 'vitest';
+import { batchToolCalls, canRunInParallel, MAX_PARALLEL_TOOL_CALLS } from '../../worker/workflows/toolBatches';
+import { withPendingToolCalls, emptyBudgetUsage } from '../../worker/workflows/budgets';
+
+const servers = [
+  {
+    name: 'Gmail',
+    tools: [
+      { name: 'getMessage', inputSchema: {}, readOnly: true },
+      { name: 'sendEmail', inputSchema: {}, mutating: true },
+    ],
+  },
+  {
+    name: 'Sandbox',
+    tools: [
+      { name: 'readFile', inputSchema: {}, readOnly: true },
+      { name: 'exec', inputSchema: {} },
+    ],
+  },
+];
+
+const isRead = (name: string) => name.startsWith('read');
+
+describe('batchToolCalls', () => {
+  it('groups consecutive parallel-safe calls and keeps order', () => {
+    const batches = batchToolCalls(['read1', 'read2', 'write1', 'read3', 'write2', 'write3'], isRead);
+    expect(batches).toEqual([['read1', 'read2'], ['write1'], ['read3'], ['write2'], ['write3']]);
+    expect(batches.flat()).toEqual(['read1', 'read2', 'write1', 'read3', 'write2', 'write3']);
+  });
+
+  it('caps the size of a parallel batch', () => {
+    const calls = Array.from({ length: MAX_PARALLEL_TOOL_CALLS + 2 }, (_, i) => `read${i}`);
+    const batches = batchToolCalls(calls, isRead);
+    expect(batches.map((b) => b.length)).toEqual([MAX_PARALLEL_TOOL_CALLS, 2]);
+  });
+
+  it('returns no batches for no calls', () => {
+    expect(batchToolCalls([], isRead)).toEqual([]);
+  });
+});
+
+describe('canRunInParallel', () => {
+  it('allows read-only tools', () => {
+    expect(canRunInParallel(servers, [], 'Gmail__getMessage')).toBe(true);
+    expect(canRunInParallel(servers, [], 'Sandbox__readFile')).toBe(true);
+  });
+
+  it('keeps writes, unmarked tools, unknown tools and approvals sequential', () => {
+    expect(canRunInParallel(servers, [], 'Gmail__sendEmail')).toBe(false);
+    expect(canRunInParallel(servers, [], 'Sandbox__exec')).toBe(false);
+    expect(canRunInParallel(servers, [], 'Unknown__tool')).toBe(false);
+    expect(canRunInParallel(servers, [], 'request_approval')).toBe(false);
+  });
+
+  it('keeps read-only tools with argument constraints sequential, so each call is checked', () => {
+    const policies = [{ serverName: 'Gmail', toolName: '*', mode: 'allow' as const, constraints: { recipientDomains: ['example.com'] } }];
+    expect(canRunInParallel(servers, policies, 'Gmail__getMessage')).toBe(false);
+  });
+
+  it('keeps read-only tools a policy holds for approval sequential', () => {
+    const policies = [{ serverName: 'Gmail', toolName: 'getMessage', mode: 'ask' as const }];
+    expect(canRunInParallel(servers, policies, 'Gmail__getMessage')).toBe(false);
+  });
+});
+
+describe('withPendingToolCalls', () => {
+  it('counts calls about to start without changing the original usage', () => {
+    const usage = { ...emptyBudgetUsage(), toolCalls: { Gmail__getMessage: 1 } };
+    const pending = withPendingToolCalls(usage, ['Gmail__getMessage', 'Sandbox__readFile']);
+    expect(pending.toolCalls).toEqual({ Gmail__getMessage: 2, Sandbox__readFile: 1 });
+    expect(usage.toolCalls).toEqual({ Gmail__getMessage: 1 });
+  });
+});
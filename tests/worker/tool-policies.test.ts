@@ -0,0 +1,164 @@
+/**
+ * Tool Policy Tests
+ *
+ * Proves that:
+ * - Project policies override global ones and exact tools beat wildcards
+ * - 'ask' and 'allow' override the tool's own mutating flag
+ * - Sharing files always asks, whatever the policy
+ * - Denied tools and out-of-policy arguments are refused
+ * - Calls whose constraints can't be checked (thread replies, no repository owner) ask for approval
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkToolPolicy,
+  hasUncheckedConstraints,
+  filterDeniedTools,
+  mergeToolPolicies,
+  requiresApproval,
+  resolveToolPolicy,
+  type ToolPolicyRule,
+} from '../../worker/workflows/toolPolicies';
+
+describe('resolveToolPolicy', () => {
+  it('prefers an exact tool rule over the server wildcard', () => {
+    const rules: ToolPolicyRule[] = [
+      { serverName: 'Gmail', toolName: '*', mode: 'deny' },
+      { serverName: 'Gmail', toolName: 'listMessages', mode: 'allow' },
+    ];
+
+    expect(resolveToolPolicy(rules, 'Gmail__listMessages')?.mode).toBe('allow');
+    expect(resolveToolPolicy(rules, 'Gmail__sendEmail')?.mode).toBe('deny');
+    expect(resolveToolPolicy(rules, 'GitHub__create_pr')).toBeUndefined();
+  });
+
+  it('matches server names with spaces against Claude tool names', () => {
+    const rules: ToolPolicyRule[] = [{ serverName: 'Google Docs', toolName: '*', mode: 'ask' }];
+    expect(resolveToolPolicy(rules, 'Google_Docs__readDocument')?.mode).toBe('ask');
+  });
+});
+
+describe('mergeToolPolicies', () => {
+  it('lets project rules replace global rules for the same tool', () => {
+    const merged = mergeToolPolicies(
+      [
+        { serverName: 'Gmail', toolName: 'sendEmail', mode: 'deny' },
+        { serverName: 'Exa', toolName: '*', mode: 'ask' },
+      ],
+      [{ serverName: 'Gmail', toolName: 'sendEmail', mode: 'allow' }]
+    );
+
+    expect(merged).toHaveLength(2);
+    expect(resolveToolPolicy(merged, 'Gmail__sendEmail')?.mode).toBe('allow');
+    expect(resolveToolPolicy(merged, 'Exa__search')?.mode).toBe('ask');
+  });
+});
+
+describe('requiresApproval', () => {
+  const rules: ToolPolicyRule[] = [
+    { serverName: 'Gmail', toolName: 'sendEmail', mode: 'allow' },
+    { serverName: 'Exa', toolName: '*', mode: 'ask' },
+  ];
+
+  it('falls back to the mutating flag without a policy', () => {
+    expect(requiresApproval([], 'Gmail__sendEmail', true)).toBe(true);
+    expect(requiresApproval([], 'Gmail__listMessages', false)).toBe(false);
+  });
+
+  it('applies allow and ask regardless of the mutating flag', () => {
+    expect(requiresApproval(rules, 'Gmail__sendEmail', true)).toBe(false);
+    expect(requiresApproval(rules, 'Exa__search', false)).toBe(true);
+  });
+
+  it('always asks before sharing files, even when allowed', () => {
+    const allowDrive: ToolPolicyRule[] = [{ serverName: 'Google Drive', toolName: '*', mode: 'allow' }];
+    expect(requiresApproval(allowDrive, 'Google_Drive__shareFile', true)).toBe(true);
+    expect(requiresApproval(allowDrive, 'Google_Drive__moveFile', true)).toBe(false);
+  });
+});
+
+describe('checkToolPolicy', () => {
+  it('refuses denied tools', () => {
+    const rules: ToolPolicyRule[] = [{ serverName: 'GitHub', toolName: '*', mode: 'deny' }];
+    expect(checkToolPolicy(rules, 'GitHub__create_pr', {})).toMatch(/denies/);
+  });
+
+  it('restricts email recipients to allowed domains', () => {
+    const rules: ToolPolicyRule[] = [{
+      serverName: 'Gmail',
+      toolName: 'sendEmail',
+      mode: 'allow',
+      constraints: { recipientDomains: ['@example.com'] },
+    }];
+
+    expect(checkToolPolicy(rules, 'Gmail__sendEmail', {
+      to: 'Ann <ann@example.com>',
+      cc: 'bob@EXAMPLE.com',
+    })).toBeNull();
+    expect(checkToolPolicy(rules, 'Gmail__sendEmail', {
+      to: 'ann@example.com, eve@evil.test',
+    })).toContain('eve@evil.test');
+  });
+
+  it('restricts repositories to allowed owners', () => {
+    const rules: ToolPolicyRule[] = [{
+      serverName: 'Sandbox',
+      toolName: '*',
+      mode: 'allow',
+      constraints: { repoOwners: ['acme'] },
+    }];
+
+    expect(checkToolPolicy(rules, 'Sandbox__clone_repo', { repoUrl: 'https://github.com/Acme/app.git' })).toBeNull();
+    expect(checkToolPolicy(rules, 'Sandbox__clone_repo', { repoUrl: 'https://github.com/other/app' })).toContain('other');
+  });
+});
+
+describe('filterDeniedTools', () => {
+  it('hides denied tools from the agent', () => {
+    const servers = [{ name: 'Google Sheets', tools: [{ name: 'readSheet' }, { name: 'updateCells' }] }];
+    const rules: ToolPolicyRule[] = [{ serverName: 'Google_Sheets', toolName: 'updateCells', mode: 'deny' }];
+
+    expect(filterDeniedTools(servers, rules)[0].tools.map((t) => t.name)).toEqual(['readSheet']);
+  });
+});
+
+describe('unchecked constraints', () => {
+  const recipientRule: ToolPolicyRule[] = [{
+    serverName: 'Gmail',
+    toolName: '*',
+    mode: 'allow',
+    constraints: { recipientDomains: ['example.com'] },
+  }];
+  const ownerRule: ToolPolicyRule[] = [
+    { serverName: 'GitHub', toolName: '*', mode: 'allow', constraints: { repoOwners: ['acme'] } },
+    { serverName: 'Sandbox', toolName: '*', mode: 'allow', constraints: { repoOwners: ['acme'] } },
+  ];
+
+  it('asks before replies whose recipients come from the thread', () => {
+    const reply = { messageId: 'm1', body: 'Thanks' };
+    expect(hasUncheckedConstraints(recipientRule, 'Gmail__replyToMessage', reply)).toBe(true);
+    expect(hasUncheckedConstraints(recipientRule, 'Gmail__replyAllToMessage', reply)).toBe(true);
+    expect(hasUncheckedConstraints(recipientRule, 'Gmail__createDraft', { replyToMessageId: 'm1' })).toBe(true);
+    expect(requiresApproval(recipientRule, 'Gmail__replyToMessage', true, reply)).toBe(true);
+  });
+
+  it('checks forwards and sends by their own recipients', () => {
+    const forward = { messageId: 'm1', to: 'ann@example.com' };
+    expect(hasUncheckedConstraints(recipientRule, 'Gmail__forwardMessage', forward)).toBe(false);
+    expect(requiresApproval(recipientRule, 'Gmail__forwardMessage', true, forward)).toBe(false);
+    expect(checkToolPolicy(recipientRule, 'Gmail__forwardMessage', { messageId: 'm1', to: 'eve@evil.test' }))
+      .toContain('eve@evil.test');
+  });
+
+  it('asks when no repository owner can be taken from the arguments', () => {
+    expect(hasUncheckedConstraints(ownerRule, 'Sandbox__push', { sessionId: 's1', branch: 'fix' })).toBe(true);
+    expect(hasUncheckedConstraints(ownerRule, 'GitHub__search_code', { query: 'token' })).toBe(true);
+    expect(requiresApproval(ownerRule, 'GitHub__search_code', false, { query: 'token' })).toBe(true);
+    expect(requiresApproval(ownerRule, 'GitHub__get_file', false, { owner: 'acme', repo: 'app' })).toBe(false);
+  });
+
+  it('ignores tools without constraints', () => {
+    expect(hasUncheckedConstraints([], 'Gmail__replyToMessage', { messageId: 'm1' })).toBe(false);
+    expect(requiresApproval([], 'Gmail__listMessages', false, {})).toBe(false);
+  });
+});
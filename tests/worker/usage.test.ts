@@ -0,0 +1,100 @@
+/**
+ * Usage Accounting Tests
+ *
+ * Proves that:
+ * - Costs come from the per-model price table, including cache tokens
+ * - Recording the same turn twice doesn't double count
+ * - Project summaries merge into user totals by project and by agent
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCost,
+  getModelPricing,
+  mergeUsageSummaries,
+  MODEL_PRICING,
+  sumUsage,
+  toTokenUsage,
+  upsertTurnUsage,
+  type TurnUsage,
+  type UsageSummary,
+} from '../../worker/workflows/usage';
+
+const turn = (n: number, costUsd: number): TurnUsage => ({
+  turn: n,
+  model: 'claude-sonnet-4-5-20250929',
+  inputTokens: 100,
+  outputTokens: 10,
+  cacheCreationTokens: 0,
+  cacheReadTokens: 0,
+  costUsd,
+});
+
+describe('pricing', () => {
+  it('matches dated model ids by the longest prefix', () => {
+    expect(getModelPricing('claude-opus-4-5-20251101')).toBe(MODEL_PRICING['claude-opus-4-5']);
+    expect(getModelPricing('claude-opus-4-20250514')).toBe(MODEL_PRICING['claude-opus-4']);
+  });
+
+  it('prices input, output and cache tokens separately', () => {
+    const usage = toTokenUsage({
+      input_tokens: 1_000_000,
+      output_tokens: 100_000,
+      cache_creation_input_tokens: 200_000,
+      cache_read_input_tokens: 1_000_000,
+    });
+
+    // 3 + 1.5 + 0.75 + 0.3
+    expect(calculateCost('claude-sonnet-4-5-20250929', usage)).toBeCloseTo(5.55, 6);
+  });
+
+  it('treats missing cache counts as zero', () => {
+    expect(toTokenUsage({ input_tokens: 5, output_tokens: 2, cache_read_input_tokens: null })).toEqual({
+      inputTokens: 5,
+      outputTokens: 2,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+    });
+  });
+});
+
+describe('upsertTurnUsage', () => {
+  it('replaces a turn recorded twice', () => {
+    let turns = upsertTurnUsage([], turn(0, 0.01));
+    turns = upsertTurnUsage(turns, turn(1, 0.02));
+    turns = upsertTurnUsage(turns, turn(1, 0.02));
+
+    expect(turns.map((t) => t.turn)).toEqual([0, 1]);
+    expect(sumUsage(turns).costUsd).toBeCloseTo(0.03, 6);
+    expect(sumUsage(turns).inputTokens).toBe(200);
+  });
+});
+
+describe('mergeUsageSummaries', () => {
+  const summary = (agents: Array<[string | null, string, number]>): UsageSummary => {
+    const byAgent = agents.map(([agentId, agentName, costUsd]) => ({
+      agentId,
+      agentName,
+      runs: 1,
+      inputTokens: 10,
+      outputTokens: 1,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      costUsd,
+    }));
+    return { totals: { runs: byAgent.length, ...sumUsage(byAgent) }, byAgent };
+  };
+
+  it('totals spend by project and merges shared agents', () => {
+    const merged = mergeUsageSummaries([
+      { projectId: 'p1', projectName: 'Docs', summary: summary([['a1', 'Writer', 0.5], [null, 'Default agent', 0.1]]) },
+      { projectId: 'p2', projectName: 'Code', summary: summary([['a1', 'Writer', 1]]) },
+    ]);
+
+    expect(merged.totals.runs).toBe(3);
+    expect(merged.totals.costUsd).toBeCloseTo(1.6, 6);
+    expect(merged.byProject.map((p) => p.projectName)).toEqual(['Code', 'Docs']);
+    expect(merged.byAgent[0]).toMatchObject({ agentId: 'a1', runs: 2, costUsd: 1.5 });
+    expect(merged.byAgent[1]).toMatchObject({ agentId: null, runs: 1 });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * User Message Tests
+ *
+ * Proves that:
+ * - Empty and oversized messages are rejected
+ * - Messages join the trailing user message so roles keep alternating
+ * - A message after the agent's final answer starts a new user turn
+ * - Skipped tool calls still get a result the model can read
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { MessageParam } from '@anthropic-ai/sdk/resources/messages';
+import {
+  appendUserMessages,
+  MAX_USER_MESSAGE_LENGTH,
+  skippedToolResult,
+  validateUserMessage,
+  type WorkflowUserMessage,
+} from '../../worker/workflows/userMessages';
+
+const userMessage = (content: string): WorkflowUserMessage => ({
+  id: content,
+  planId: 'plan-1',
+  content,
+  interrupt: false,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  deliveredTurn: 0,
+});
+
+const toolResults: MessageParam = {
+  role: 'user',
+  content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'ok' }],
+};
+
+describe('validateUserMessage', () => {
+  it('rejects empty and oversized messages', () => {
+    expect(validateUserMessage('')).not.toBeNull();
+    expect(validateUserMessage('   ')).not.toBeNull();
+    expect(validateUserMessage(42)).not.toBeNull();
+    expect(validateUserMessage('x'.repeat(MAX_USER_MESSAGE_LENGTH + 1))).not.toBeNull();
+    expect(validateUserMessage('also CC Sari')).toBeNull();
+  });
+});
+
+describe('appendUserMessages', () => {
+  it('adds messages to the trailing tool results without changing the input', () => {
+    const messages: MessageParam[] = [
+      { role: 'user', content: 'Send the report' },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'Gmail__search', input: {} }] },
+      toolResults,
+    ];
+    const result = appendUserMessages(messages, [userMessage('also CC Sari'), userMessage('and Bo')]);
+
+    expect(result).toHaveLength(3);
+    const blocks = result[2].content as Array<{ type: string; text?: string }>;
+    expect(blocks.map((b) => b.type)).toEqual(['tool_result', 'text']);
+    expect(blocks[1].text).toContain('also CC Sari');
+    expect(blocks[1].text).toContain('and Bo');
+    expect(toolResults.content).toHaveLength(1);
+  });
+
+  it('starts a new user turn after an assistant message', () => {
+    const messages: MessageParam[] = [
+      { role: 'user', content: 'Send the report' },
+      { role: 'assistant', content: 'Done.' },
+    ];
+    const result = appendUserMessages(messages, [userMessage('draft it instead')]);
+    expect(result).toHaveLength(3);
+    expect(result[2].role).toBe('user');
+  });
+
+  it('turns plain text content into blocks', () => {
+    const result = appendUserMessages([{ role: 'user', content: 'Send the report' }], [userMessage('to Sari')]);
+    expect(result[0].content).toEqual([
+      { type: 'text', text: 'Send the report' },
+      expect.objectContaining({ type: 'text' }),
+    ]);
+  });
+
+  it('returns the conversation unchanged when nothing was sent', () => {
+    const messages: MessageParam[] = [toolResults];
+    expect(appendUserMessages(messages, [])).toBe(messages);
+  });
+});
+
+describe('skippedToolResult', () => {
+  it('answers the tool call with an error result', () => {
+    expect(skippedToolResult('toolu_2')).toMatchObject({
+      type: 'tool_result',
+      tool_use_id: 'toolu_2',
+      is_error: true,
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Web Push Tests
+ *
+ * Proves that:
+ * - Payloads are encrypted with aes128gcm so the subscribed browser can decrypt them
+ * - VAPID tokens are ES256 JWTs for the push service origin, verifiable with the public key
+ */
+
+import { describe, it, expect } from 'vitest';
+import { base64UrlDecode, createVapidJwt, encryptPushPayload, hkdf } from '../../worker/notifications/webPush';
+
+function toBase64Url(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64url');
+}
+
+async function generateKeys() {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey) as ArrayBuffer);
+  return { pair, publicKey };
+}
+
+describe('encryptPushPayload', () => {
+  it('produces a record the browser can decrypt', async () => {
+    const receiver = await generateKeys();
+    const authSecret = crypto.getRandomValues(new Uint8Array(16));
+    const subscription = {
+      endpoint: 'https://push.example.com/send/abc',
+      keys: { p256dh: toBase64Url(receiver.publicKey), auth: toBase64Url(authSecret) },
+    };
+
+    const body = await encryptPushPayload(subscription, new TextEncoder().encode('{"title":"Hello"}'));
+
+    // Header: salt(16) | record size(4) | key id length(1) | sender key
+    const salt = body.slice(0, 16);
+    expect(new DataView(body.buffer).getUint32(16)).toBe(4096);
+    const keyLength = body[20];
+    const senderPublic = body.slice(21, 21 + keyLength);
+    const ciphertext = body.slice(21 + keyLength);
+
+    // Decrypt as the browser would
+    const senderKey = await crypto.subtle.importKey('raw', senderPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+    const shared = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: senderKey }, receiver.pair.privateKey, 256));
+    const keyInfo = new Uint8Array([...new TextEncoder().encode('WebPush: info\0'), ...receiver.publicKey, ...senderPublic]);
+    const ikm = await hkdf(authSecret, shared, keyInfo, 32);
+    const contentKey = await hkdf(salt, ikm, new TextEncoder().encode('Content-Encoding: aes128gcm\0'), 16);
+    const nonce = await hkdf(salt, ikm, new TextEncoder().encode('Content-Encoding: nonce\0'), 12);
+
+    const aesKey = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['decrypt']);
+    const padded = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce }, aesKey, ciphertext));
+
+    expect(padded[padded.length - 1]).toBe(0x02);
+    expect(new TextDecoder().decode(padded.slice(0, -1))).toBe('{"title":"Hello"}');
+  });
+});
+
+describe('createVapidJwt', () => {
+  it('signs a token the public key verifies', async () => {
+    const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    const jwk = await crypto.subtle.exportKey('jwk', pair.privateKey) as JsonWebKey;
+    const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey) as ArrayBuffer);
+    const vapid = { publicKey: toBase64Url(publicKey), privateKey: jwk.d!, subject: 'mailto:admin@example.com' };
+
+    const now = Date.UTC(2026, 9, 19, 12);
+    const jwt = await createVapidJwt('https://fcm.googleapis.com', vapid, now);
+    const [header, payload, signature] = jwt.split('.');
+
+    expect(JSON.parse(new TextDecoder().decode(base64UrlDecode(header)))).toEqual({ typ: 'JWT', alg: 'ES256' });
+    expect(JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)))).toEqual({
+      aud: 'https://fcm.googleapis.com',
+      exp: now / 1000 + 12 * 60 * 60,
+      sub: 'mailto:admin@example.com',
+    });
+
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      pair.publicKey,
+      base64UrlDecode(signature),
+      new TextEncoder().encode(`${header}.${payload}`)
+    );
+    expect(valid).toBe(true);
+  });
+
+  it('refuses a malformed public key', async () => {
+    await expect(createVapidJwt('https://push.example.com', { publicKey: 'AAAA', privateKey: 'AAAA', subject: 'mailto:a@b.c' }))
+      .rejects.toThrow('uncompressed P-256');
+  });
+});
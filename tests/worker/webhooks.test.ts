@@ -0,0 +1,174 @@
+/**
+ * Inbound Webhook Tests
+ *
+ * Proves that:
+ * - Signatures are HMAC-SHA256 in GitHub's `sha256=<hex>` form and wrong ones are refused
+ * - Conditions read dotted paths through arrays and compare without case
+ * - Templates fill {{path}} placeholders and fall back to a readable title
+ * - Gmail push bodies are decoded and anything else is refused
+ * - Configs without a name, title or valid conditions are rejected
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'node:crypto';
+import {
+  matchesConditions,
+  parseGmailPush,
+  parseWebhookBody,
+  renderTemplate,
+  resolvePath,
+  taskFromEvent,
+  validateWebhookConfig,
+  verifyWebhookSignature,
+  webhookSignature,
+  type WebhookEvent,
+} from '../../worker/workflows/webhooks';
+
+const ISSUE_EVENT: WebhookEvent = {
+  event: 'issues',
+  payload: {
+    action: 'opened',
+    issue: {
+      title: 'Login fails on Safari',
+      body: 'Steps to reproduce...',
+      labels: [{ name: 'bug' }, { name: 'Agent' }],
+    },
+    repository: { full_name: 'acme/web' },
+  },
+};
+
+describe('webhookSignature', () => {
+  it('matches an HMAC-SHA256 computed elsewhere', async () => {
+    const body = JSON.stringify({ zen: 'Keep it logically awesome.' });
+    const expected = `sha256=${createHmac('sha256', 'secret').update(body).digest('hex')}`;
+    expect(await webhookSignature('secret', body)).toBe(expected);
+  });
+
+  it('verifies the header and refuses wrong or missing signatures', async () => {
+    const body = '{"action":"opened"}';
+    const header = await webhookSignature('secret', body);
+
+    expect(await verifyWebhookSignature('secret', body, header)).toBe(true);
+    expect(await verifyWebhookSignature('secret', body, header.toUpperCase().replace('SHA256', 'sha256'))).toBe(true);
+    expect(await verifyWebhookSignature('other', body, header)).toBe(false);
+    expect(await verifyWebhookSignature('secret', `${body} `, header)).toBe(false);
+    expect(await verifyWebhookSignature('secret', body, null)).toBe(false);
+  });
+});
+
+describe('resolvePath', () => {
+  it('flattens arrays along the path', () => {
+    expect(resolvePath(ISSUE_EVENT, 'payload.issue.labels.name')).toEqual(['bug', 'Agent']);
+    expect(resolvePath(ISSUE_EVENT, 'event')).toEqual(['issues']);
+    expect(resolvePath(ISSUE_EVENT, 'payload.issue.assignee.login')).toEqual([]);
+  });
+});
+
+describe('matchesConditions', () => {
+  it('requires every condition to hold', () => {
+    expect(matchesConditions([
+      { path: 'event', op: 'equals', value: 'issues' },
+      { path: 'payload.action', op: 'equals', value: 'opened' },
+    ], ISSUE_EVENT)).toBe(true);
+
+    expect(matchesConditions([
+      { path: 'event', op: 'equals', value: 'issues' },
+      { path: 'payload.action', op: 'equals', value: 'closed' },
+    ], ISSUE_EVENT)).toBe(false);
+  });
+
+  it('matches any array value, ignoring case', () => {
+    expect(matchesConditions([{ path: 'payload.issue.labels.name', op: 'equals', value: 'agent' }], ISSUE_EVENT)).toBe(true);
+    expect(matchesConditions([{ path: 'payload.issue.title', op: 'contains', value: 'SAFARI' }], ISSUE_EVENT)).toBe(true);
+  });
+
+  it('checks that a path exists', () => {
+    expect(matchesConditions([{ path: 'payload.issue.body', op: 'exists' }], ISSUE_EVENT)).toBe(true);
+    expect(matchesConditions([{ path: 'payload.pull_request', op: 'exists' }], ISSUE_EVENT)).toBe(false);
+  });
+
+  it('passes every event when there are no conditions', () => {
+    expect(matchesConditions([], ISSUE_EVENT)).toBe(true);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills placeholders, joining array values', () => {
+    expect(renderTemplate('[{{ payload.repository.full_name }}] {{payload.issue.title}}', ISSUE_EVENT))
+      .toBe('[acme/web] Login fails on Safari');
+    expect(renderTemplate('Labels: {{payload.issue.labels.name}}', ISSUE_EVENT)).toBe('Labels: bug, Agent');
+    expect(renderTemplate('Missing: {{payload.nope}}', ISSUE_EVENT)).toBe('Missing: ');
+  });
+});
+
+describe('taskFromEvent', () => {
+  it('renders the title and description', () => {
+    const task = taskFromEvent(
+      { name: 'Bugs', template: { title: '{{payload.issue.title}}', description: '{{payload.issue.body}}', agentId: null } },
+      ISSUE_EVENT
+    );
+    expect(task).toEqual({ title: 'Login fails on Safari', description: 'Steps to reproduce...' });
+  });
+
+  it('falls back to the webhook and event name for an empty title', () => {
+    const task = taskFromEvent(
+      { name: 'Bugs', template: { title: '{{payload.missing}}', description: '', agentId: null } },
+      ISSUE_EVENT
+    );
+    expect(task.title).toBe('Bugs: issues');
+  });
+
+  it('keeps titles short', () => {
+    const task = taskFromEvent(
+      { name: 'Bugs', template: { title: '{{payload.body}}', description: '', agentId: null } },
+      { event: 'webhook', payload: { body: 'x'.repeat(500) } }
+    );
+    expect(task.title).toHaveLength(200);
+    expect(task.title.endsWith('…')).toBe(true);
+  });
+});
+
+describe('parseGmailPush', () => {
+  it('decodes the Pub/Sub message data', () => {
+    const data = Buffer.from(JSON.stringify({ emailAddress: 'me@example.com', historyId: 9876 })).toString('base64');
+    expect(parseGmailPush(JSON.stringify({ message: { data, messageId: '1' }, subscription: 's' })))
+      .toEqual({ emailAddress: 'me@example.com', historyId: '9876' });
+  });
+
+  it('refuses bodies that are not Gmail pushes', () => {
+    expect(parseGmailPush('not json')).toBeNull();
+    expect(parseGmailPush(JSON.stringify({ message: {} }))).toBeNull();
+    const data = Buffer.from(JSON.stringify({ hello: 'world' })).toString('base64');
+    expect(parseGmailPush(JSON.stringify({ message: { data } }))).toBeNull();
+  });
+});
+
+describe('parseWebhookBody', () => {
+  it('parses JSON and wraps anything else', () => {
+    expect(parseWebhookBody('{"a":1}')).toEqual({ a: 1 });
+    expect(parseWebhookBody('plain text')).toEqual({ body: 'plain text' });
+  });
+});
+
+describe('validateWebhookConfig', () => {
+  const valid = {
+    name: 'Bugs',
+    source: 'github' as const,
+    template: { title: '{{payload.issue.title}}', description: '', agentId: null },
+  };
+
+  it('accepts a complete config', () => {
+    expect(validateWebhookConfig(valid)).toBeNull();
+    expect(validateWebhookConfig({ ...valid, conditions: [{ path: 'payload.issue', op: 'exists' }] })).toBeNull();
+  });
+
+  it('rejects missing fields and bad conditions', () => {
+    expect(validateWebhookConfig({ ...valid, name: ' ' })).toBe('name is required');
+    expect(validateWebhookConfig({ ...valid, source: 'slack' as never })).toContain('source must be one of');
+    expect(validateWebhookConfig({ ...valid, template: { ...valid.template, title: '' } })).toBe('template.title is required');
+    expect(validateWebhookConfig({ ...valid, conditions: [{ path: '', op: 'exists' }] })).toBe('Every condition needs a path');
+    expect(validateWebhookConfig({ ...valid, conditions: [{ path: 'event', op: 'matches' as never, value: 'x' }] }))
+      .toContain('Unknown condition operator');
+    expect(validateWebhookConfig({ ...valid, conditions: [{ path: 'event', op: 'equals' }] })).toContain('needs a value');
+  });
+});
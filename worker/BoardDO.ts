@@ -1,4 +1,5 @@
 import { DurableObject } from 'cloudflare:workers';
+import { getSandbox } from '@cloudflare/sandbox';
 import { initSchema } from './db/schema';
 import {
   BoardService,
@@ -6,7 +7,52 @@ import {
   MCPService,
   MCPOAuthService,
   WorkflowService,
+  ToolPolicyService,
+  BudgetService,
+  ScheduleService,
+  WebhookService,
+  type WebhookUpdate,
+  NotificationService,
+  SandboxSessionService,
+  SandboxOutputService,
+  SandboxFileService,
+  SandboxTemplateService,
 } from './services';
+import { runScheduledTask, startQueuedTask } from './handlers/workflows';
+import { logger } from './utils/logger';
+import { CREDENTIAL_TYPES } from './constants';
+import { deliverToChannel, type ChannelDeliveryDeps } from './notifications';
+import type { GitHubAuthMode } from './constants';
+import type { AgentBudget } from './workflows/budgets';
+import type { ToolPolicyConstraints, ToolPolicyMode } from './workflows/toolPolicies';
+import type { TurnUsage, UsageSummary } from './workflows/usage';
+import type { BranchMode, ConversationTurn } from './workflows/branching';
+import type { WorkflowUserMessage } from './workflows/userMessages';
+import type { ScheduleRun, TaskSchedule, TaskScheduleInput } from './workflows/schedules';
+import type { QueuedStart, TaskDependency } from './workflows/dependencies';
+import type { WebhookConfig, WebhookConfigInput, WebhookDelivery, WebhookDeliveryStatus } from './workflows/webhooks';
+import type { SandboxSession } from './workflows/sandboxSessions';
+import type { SandboxEnvironment, SandboxTemplate } from './workflows/sandboxTemplates';
+import type { SandboxOutputChunk, SandboxStepOutput } from './workflows/sandboxOutput';
+import { previewBasePath, removeSessionPreviews, type SandboxPreview } from './workflows/sandboxPreviews';
+import {
+  choosePublishedFileStorage,
+  publishedFileKey,
+  publishedFileUrl,
+  type PublishedFile,
+} from './workflows/sandboxFiles';
+import {
+  channelWants,
+  isMuted,
+  notificationEventFor,
+  planDetail,
+  type Notification,
+  type NotificationChannel,
+  type NotificationChannelInput,
+  type NotificationEventType,
+  type NotificationMute,
+  type NotificationSettings,
+} from './workflows/notifications';
 
 // ============================================
 // TYPE EXPORTS FOR RPC
@@ -16,6 +62,7 @@ export interface Project {
   id: string;
   name: string;
   ownerId: string;
+  githubAuth: GitHubAuthMode;
   createdAt: string;
   updatedAt: string;
   columns: Column[];
@@ -39,6 +86,8 @@ export interface Task {
   priority: string;
   position: number;
   context: object | null;
+  /** Set while the task waits to start once its dependencies complete */
+  queuedStart: QueuedStart | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -54,6 +103,19 @@ export interface WorkflowPlan {
   currentStepIndex: number | null;
   checkpointData: object | null;
   result: object | null;
+  agentId: string | null;
+  /** Task text the run started with (edited instructions for forks) */
+  instructions: string | null;
+  /** Set when the run was retried or forked from an earlier run */
+  parentPlanId: string | null;
+  parentTurn: number | null;
+  branchMode: BranchMode | null;
+  usage: TurnUsage[] | null;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -90,6 +152,19 @@ export interface MCPTool {
   description: string | null;
   inputSchema: object;
   approvalRequiredFields: string[] | null;
+  /** Null when the schema was cached before the flag was recorded */
+  mutating: boolean | null;
+}
+
+export interface ToolPolicy {
+  id: string;
+  projectId: string;
+  serverName: string;
+  toolName: string;
+  mode: ToolPolicyMode;
+  constraints: ToolPolicyConstraints | null;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface Agent {
@@ -100,6 +175,7 @@ export interface Agent {
   systemPrompt: string;
   model: string;
   icon: string | null;
+  budget: AgentBudget | null;
   enabled: boolean;
   createdAt: string;
   updatedAt: string;
@@ -126,6 +202,15 @@ export class BoardDO extends DurableObject<Env> {
   private mcpService: MCPService;
   private mcpOAuthService: MCPOAuthService;
   private workflowService: WorkflowService;
+  private toolPolicyService: ToolPolicyService;
+  private budgetService: BudgetService;
+  private scheduleService: ScheduleService;
+  private webhookService: WebhookService;
+  private notificationService: NotificationService;
+  private sandboxSessionService: SandboxSessionService;
+  private sandboxOutputService: SandboxOutputService;
+  private sandboxFileService: SandboxFileService;
+  private sandboxTemplateService: SandboxTemplateService;
 
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
@@ -168,6 +253,183 @@ export class BoardDO extends DurableObject<Env> {
       generateId,
       (projectId, type, data) => this.broadcast(projectId, type, data)
     );
+
+    this.toolPolicyService = new ToolPolicyService(this.sql, generateId);
+    this.budgetService = new BudgetService(this.sql);
+    this.scheduleService = new ScheduleService(
+      this.sql,
+      generateId,
+      (projectId, type, data) => this.broadcast(projectId, type, data)
+    );
+    this.webhookService = new WebhookService(this.sql, env.ENCRYPTION_KEY, generateId);
+    this.notificationService = new NotificationService(this.sql, env.ENCRYPTION_KEY, generateId);
+    this.sandboxSessionService = new SandboxSessionService(this.sql);
+    this.sandboxOutputService = new SandboxOutputService(this.sql);
+    this.sandboxFileService = new SandboxFileService(this.sql);
+    this.sandboxTemplateService = new SandboxTemplateService(this.sql);
+  }
+
+  // ============================================
+  // SCHEDULE, DIGEST AND SANDBOX CLEANUP ALARM
+  // ============================================
+
+  /**
+   * Start every scheduled run that is due, send a due notification digest
+   * and destroy idle sandboxes, then re-arm for whichever comes next
+   */
+  async alarm(): Promise<void> {
+    const now = new Date();
+    const stub = this.env.BOARD_DO.get(this.ctx.id) as DurableObjectStub<BoardDO>;
+
+    for (const schedule of this.scheduleService.getDueSchedules(now)) {
+      let outcome: Awaited<ReturnType<typeof runScheduledTask>>;
+      try {
+        outcome = await runScheduledTask(this.env, stub, schedule);
+      } catch (error) {
+        outcome = { status: 'failed', message: error instanceof Error ? error.message : 'Failed to start agent' };
+      }
+      this.scheduleService.completeScheduledRun(schedule, outcome, now);
+    }
+
+    const digest = this.notificationService.takeDueDigest(now);
+    if (digest.length > 0) {
+      await this.sendNotifications(digest);
+    }
+
+    for (const session of this.sandboxSessionService.getIdleSessions(now)) {
+      logger.sandbox.info('Destroying idle sandbox', { sessionId: session.id, lastActivityAt: session.lastActivityAt });
+      await this.destroySandbox(session);
+    }
+
+    await this.syncAlarm();
+  }
+
+  /**
+   * Point the DO alarm at the earliest upcoming scheduled run, digest or
+   * sandbox expiry (or clear it)
+   */
+  private async syncAlarm(): Promise<void> {
+    const times = [
+      this.scheduleService.getEarliestRunAt(),
+      this.notificationService.findSettings().nextDigestAt,
+      this.sandboxSessionService.getNextExpiry(),
+    ].filter((t): t is string => t !== null);
+
+    if (times.length > 0) {
+      await this.ctx.storage.setAlarm(Math.min(...times.map((t) => new Date(t).getTime())));
+    } else {
+      await this.ctx.storage.deleteAlarm();
+    }
+  }
+
+  // ============================================
+  // DEPENDENCY QUEUE
+  // ============================================
+
+  /**
+   * Start the queued tasks that were waiting on a task that just completed
+   */
+  private async startUnblockedTasks(completedTaskId: string): Promise<void> {
+    const stub = this.env.BOARD_DO.get(this.ctx.id) as DurableObjectStub<BoardDO>;
+
+    for (const dependent of this.boardService.getQueuedDependents(completedTaskId)) {
+      try {
+        await startQueuedTask(this.env, stub, dependent.id, dependent.queuedStart);
+      } catch (error) {
+        logger.workflow.error('Failed to start queued task', {
+          taskId: dependent.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  // ============================================
+  // NOTIFICATIONS
+  // ============================================
+
+  /**
+   * Hand a run event to the user's container, which knows their channels.
+   * The user is the task's creator, or the project owner.
+   */
+  private async notifyPlanEvent(plan: WorkflowPlan, event: NotificationEventType): Promise<void> {
+    try {
+      const task = await this.extractData<Task>(this.boardService.getTask(plan.taskId));
+      // Standalone tasks run in the user's own container, which has no project row
+      const standaloneUserId = plan.projectId.startsWith('user-tasks-') ? plan.projectId.slice('user-tasks-'.length) : null;
+      const project = standaloneUserId
+        ? { name: 'My Tasks', ownerId: standaloneUserId }
+        : await this.extractData<{ name: string; ownerId: string }>(this.boardService.getProjectInfo());
+      const userId = task.userId || project.ownerId;
+      if (!userId) return;
+
+      const notification: Notification = {
+        id: crypto.randomUUID(),
+        event,
+        projectId: plan.projectId,
+        projectName: project.name,
+        taskId: task.id,
+        taskTitle: task.title,
+        planId: plan.id,
+        detail: planDetail(event, plan),
+        createdAt: new Date().toISOString(),
+      };
+
+      const userTasksStub = this.env.BOARD_DO.get(this.env.BOARD_DO.idFromName(`user-tasks-${userId}`)) as DurableObjectStub<BoardDO>;
+      await userTasksStub.receiveNotification(notification);
+    } catch (error) {
+      logger.worker.error('Failed to send notification', {
+        planId: plan.id,
+        event,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Send a notification now, or queue it for the digest (user containers)
+   */
+  async receiveNotification(notification: Notification): Promise<void> {
+    if (isMuted(this.notificationService.findMute(notification.projectId), notification.event)) {
+      return;
+    }
+
+    if (this.notificationService.findSettings().digest === 'off') {
+      await this.sendNotifications([notification]);
+      return;
+    }
+
+    this.notificationService.queueNotification(notification, new Date());
+    await this.syncAlarm();
+  }
+
+  /**
+   * Deliver notifications to every channel that wants them. Expired push
+   * subscriptions are removed.
+   */
+  private async sendNotifications(notifications: Notification[], channels?: NotificationChannel[]): Promise<void> {
+    const deps = this.channelDeliveryDeps();
+    for (const channel of channels ?? await this.notificationService.listChannels()) {
+      const wanted = channels ? notifications : notifications.filter((n) => channelWants(channel, n.event));
+      if (wanted.length === 0) continue;
+
+      const result = await deliverToChannel(channel, wanted, deps);
+      if (result.gone) {
+        this.notificationService.deleteChannel(channel.id);
+      } else {
+        this.notificationService.recordChannelResult(channel.id, result.ok ? null : result.error || 'Delivery failed');
+      }
+    }
+  }
+
+  private channelDeliveryDeps(): ChannelDeliveryDeps {
+    const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = this.env;
+    return {
+      vapid: VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY
+        ? { publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY, subject: VAPID_SUBJECT || 'mailto:notifications@localhost' }
+        : null,
+      getGmailToken: () => this.credentialService.getValidAccessToken('__global__', CREDENTIAL_TYPES.GOOGLE_OAUTH),
+    };
   }
 
   // ============================================
@@ -243,13 +505,13 @@ export class BoardDO extends DurableObject<Env> {
     return this.initProject(data);
   }
 
-  async getProjectInfo(): Promise<{ id: string; name: string; ownerId: string }> {
+  async getProjectInfo(): Promise<{ id: string; name: string; ownerId: string; githubAuth: GitHubAuthMode }> {
     const response = this.boardService.getProjectInfo();
     return this.extractData(response);
   }
 
   // Alias for backward compatibility
-  async getBoardInfo(): Promise<{ id: string; name: string; ownerId: string }> {
+  async getBoardInfo(): Promise<{ id: string; name: string; ownerId: string; githubAuth: GitHubAuthMode }> {
     return this.getProjectInfo();
   }
 
@@ -263,13 +525,13 @@ export class BoardDO extends DurableObject<Env> {
     return this.getProject(projectId);
   }
 
-  async updateProject(projectId: string, data: { name?: string }): Promise<Project> {
+  async updateProject(projectId: string, data: { name?: string; githubAuth?: GitHubAuthMode }): Promise<Project> {
     const response = this.boardService.updateProject(projectId, data);
     return this.extractData(response);
   }
 
   // Alias for backward compatibility
-  async updateBoard(projectId: string, data: { name?: string }): Promise<Project> {
+  async updateBoard(projectId: string, data: { name?: string; githubAuth?: GitHubAuthMode }): Promise<Project> {
     return this.updateProject(projectId, data);
   }
 
@@ -349,6 +611,20 @@ export class BoardDO extends DurableObject<Env> {
     return this.extractData(response);
   }
 
+  async setQueuedStart(taskId: string, data: QueuedStart | null): Promise<Task> {
+    const response = this.boardService.setQueuedStart(taskId, data);
+    const task = await this.extractData<Task>(response);
+    if (task.projectId) {
+      this.broadcast(task.projectId, 'task_update', task as unknown as Record<string, unknown>);
+    }
+    return task;
+  }
+
+  async getTaskDependencies(taskId: string): Promise<TaskDependency[]> {
+    const response = this.workflowService.getTaskDependencies(taskId);
+    return this.extractData(response);
+  }
+
   // ============================================
   // CREDENTIAL RPC METHODS
   // ============================================
@@ -377,6 +653,13 @@ export class BoardDO extends DurableObject<Env> {
     return this.credentialService.getCredentialValue(projectId, type);
   }
 
+  /**
+   * Get an OAuth access token, refreshing it first if it has expired
+   */
+  async getValidAccessToken(projectId: string, type: string): Promise<string | null> {
+    return this.credentialService.getValidAccessToken(projectId, type);
+  }
+
   async getCredentialFull(projectId: string, type: string): Promise<{ value: string; metadata: object } | null> {
     const response = await this.credentialService.getCredentialFullResponse(projectId, type);
     const result = await response.json() as { success: boolean; data?: { value: string; metadata: object } };
@@ -425,6 +708,11 @@ export class BoardDO extends DurableObject<Env> {
     summary?: string;
     generatedCode?: string;
     steps?: object[];
+    agentId?: string;
+    instructions?: string;
+    parentPlanId?: string;
+    parentTurn?: number;
+    branchMode?: BranchMode;
   }): Promise<WorkflowPlan> {
     const response = this.workflowService.createWorkflowPlan(taskId, data);
     return this.extractData(response);
@@ -444,8 +732,19 @@ export class BoardDO extends DurableObject<Env> {
     checkpointData?: object;
     result?: object;
   }): Promise<WorkflowPlan> {
+    const previous = data.status
+      ? await this.extractData<WorkflowPlan>(this.workflowService.getWorkflowPlan(planId))
+      : null;
     const response = this.workflowService.updateWorkflowPlan(planId, data);
-    return this.extractData(response);
+    const plan = await this.extractData<WorkflowPlan>(response);
+    if (data.status === 'completed') {
+      this.ctx.waitUntil(this.startUnblockedTasks(plan.taskId));
+    }
+    const event = data.status ? notificationEventFor(previous?.status ?? null, data.status) : null;
+    if (event) {
+      this.ctx.waitUntil(this.notifyPlanEvent(plan, event));
+    }
+    return plan;
   }
 
   async deleteWorkflowPlan(planId: string): Promise<{ success: boolean }> {
@@ -466,6 +765,471 @@ export class BoardDO extends DurableObject<Env> {
     return this.extractData(response);
   }
 
+  // ============================================
+  // CONVERSATION RPC METHODS
+  // ============================================
+
+  async recordTurnMessages(planId: string, turn: number, messages: object[]): Promise<{ success: boolean }> {
+    const response = this.workflowService.recordTurnMessages(planId, turn, messages);
+    return this.extractData(response);
+  }
+
+  async getConversationTurns(planId: string): Promise<ConversationTurn[]> {
+    const response = this.workflowService.getConversationTurns(planId);
+    return this.extractData(response);
+  }
+
+  async copyConversationTurns(fromPlanId: string, toPlanId: string, beforeTurn: number): Promise<{ success: boolean }> {
+    const response = this.workflowService.copyConversationTurns(fromPlanId, toPlanId, beforeTurn);
+    return this.extractData(response);
+  }
+
+  // ============================================
+  // USER MESSAGE RPC METHODS
+  // ============================================
+
+  async queueUserMessage(planId: string, data: { content: unknown; interrupt?: boolean }): Promise<WorkflowUserMessage> {
+    const response = this.workflowService.queueUserMessage(planId, data);
+    return this.extractData(response);
+  }
+
+  async claimUserMessages(planId: string, turn: number): Promise<WorkflowUserMessage[]> {
+    const response = this.workflowService.claimUserMessages(planId, turn);
+    return this.extractData(response);
+  }
+
+  async hasPendingInterrupt(planId: string): Promise<boolean> {
+    const response = this.workflowService.hasPendingInterrupt(planId);
+    return this.extractData(response);
+  }
+
+  // ============================================
+  // SCHEDULE RPC METHODS
+  // ============================================
+
+  async getTaskSchedule(taskId: string): Promise<TaskSchedule | null> {
+    const response = this.scheduleService.getTaskSchedule(taskId);
+    return this.extractData(response);
+  }
+
+  async getProjectSchedules(projectId: string): Promise<TaskSchedule[]> {
+    const response = this.scheduleService.getProjectSchedules(projectId);
+    return this.extractData(response);
+  }
+
+  async setTaskSchedule(projectId: string, taskId: string, userId: string, input: TaskScheduleInput): Promise<TaskSchedule> {
+    const response = this.scheduleService.setTaskSchedule(projectId, taskId, userId, input);
+    const schedule = await this.extractData<TaskSchedule>(response);
+    await this.syncAlarm();
+    return schedule;
+  }
+
+  async deleteTaskSchedule(taskId: string): Promise<{ success: boolean }> {
+    const response = this.scheduleService.deleteTaskSchedule(taskId);
+    const result = await this.extractData<{ success: boolean }>(response);
+    await this.syncAlarm();
+    return result;
+  }
+
+  async getScheduleRuns(taskId: string): Promise<ScheduleRun[]> {
+    const response = this.scheduleService.getScheduleRuns(taskId);
+    return this.extractData(response);
+  }
+
+  // ============================================
+  // WEBHOOK RPC METHODS
+  // ============================================
+
+  async getWebhooks(projectId: string): Promise<WebhookConfig[]> {
+    const response = await this.webhookService.getWebhooks(projectId);
+    return this.extractData(response);
+  }
+
+  async getWebhook(webhookId: string): Promise<WebhookConfig> {
+    const response = await this.webhookService.getWebhook(webhookId);
+    return this.extractData(response);
+  }
+
+  async createWebhook(projectId: string, userId: string, input: WebhookConfigInput): Promise<WebhookConfig> {
+    const response = await this.webhookService.createWebhook(projectId, userId, input);
+    return this.extractData(response);
+  }
+
+  async updateWebhook(webhookId: string, update: WebhookUpdate): Promise<WebhookConfig> {
+    const response = await this.webhookService.updateWebhook(webhookId, update);
+    return this.extractData(response);
+  }
+
+  async deleteWebhook(webhookId: string): Promise<{ success: boolean }> {
+    const response = this.webhookService.deleteWebhook(webhookId);
+    return this.extractData(response);
+  }
+
+  async getWebhookDeliveries(webhookId: string): Promise<WebhookDelivery[]> {
+    const response = this.webhookService.getWebhookDeliveries(webhookId);
+    return this.extractData(response);
+  }
+
+  hasWebhookDelivery(webhookId: string, dedupeKey: string): boolean {
+    return this.webhookService.hasDelivery(webhookId, dedupeKey);
+  }
+
+  getWebhookTargetColumn(webhook: WebhookConfig): string | null {
+    return this.webhookService.getTargetColumn(webhook);
+  }
+
+  recordWebhookDelivery(
+    webhookId: string,
+    outcome: {
+      event: string;
+      status: WebhookDeliveryStatus;
+      dedupeKey?: string | null;
+      taskId?: string | null;
+      planId?: string | null;
+      message?: string | null;
+      payload?: string | null;
+    }
+  ): WebhookDelivery {
+    return this.webhookService.recordDelivery(webhookId, outcome);
+  }
+
+  // ============================================
+  // SANDBOX SESSION RPC METHODS
+  // ============================================
+
+  async getSandboxSessions(projectId: string): Promise<SandboxSession[]> {
+    const response = this.sandboxSessionService.getSessions(projectId);
+    return this.extractData(response);
+  }
+
+  /**
+   * Look up a session for a tool call and mark it as used
+   */
+  async useSandboxSession(sessionId: string): Promise<SandboxSession | null> {
+    return this.sandboxSessionService.touchSession(sessionId, new Date());
+  }
+
+  async registerSandboxSession(session: SandboxSession): Promise<SandboxSession> {
+    const saved = this.sandboxSessionService.saveSession(session);
+    await this.syncAlarm();
+    return saved;
+  }
+
+  /**
+   * Forget a session whose container the caller has already destroyed
+   */
+  async forgetSandboxSession(sessionId: string): Promise<void> {
+    const session = this.sandboxSessionService.findSession(sessionId);
+    if (session) {
+      await this.endSession(session);
+    }
+  }
+
+  /**
+   * Destroy a session's container and forget it
+   */
+  async destroySandboxSession(sessionId: string): Promise<{ success: boolean }> {
+    const session = this.sandboxSessionService.findSession(sessionId);
+    if (!session) {
+      throw new Error('Sandbox session not found');
+    }
+    await this.destroySandbox(session);
+    await this.syncAlarm();
+    return { success: true };
+  }
+
+  private async destroySandbox(session: SandboxSession): Promise<void> {
+    try {
+      await getSandbox(this.env.SANDBOX, session.sandboxId).destroy();
+    } catch (error) {
+      // The container may already be gone; the record is removed either way
+      logger.sandbox.warn('Failed to destroy sandbox', {
+        sessionId: session.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    await this.endSession(session);
+  }
+
+  /**
+   * Forget a session and its previews, dropping the previews from the
+   * results of a run that has already finished
+   */
+  private async endSession(session: SandboxSession): Promise<void> {
+    const previews = this.sandboxSessionService.deleteSession(session.id);
+    if (previews.length === 0 || !session.planId) return;
+
+    const plan = this.workflowService.getWorkflowPlan(session.planId);
+    if (!plan.ok) return;
+    const { result } = await this.extractData<WorkflowPlan>(plan);
+    const artifacts = (result as { artifacts?: { type: string; sessionId?: string }[] } | undefined)?.artifacts;
+    if (!artifacts) return;
+
+    const remaining = removeSessionPreviews(artifacts, session.id);
+    if (remaining.length < artifacts.length) {
+      this.workflowService.updateWorkflowPlan(session.planId, {
+        result: { ...result, artifacts: remaining.length > 0 ? remaining : undefined },
+      });
+    }
+  }
+
+  // ============================================
+  // SANDBOX PREVIEW RPC METHODS
+  // ============================================
+
+  /**
+   * Record a dev server started in a session, giving it its proxy path
+   */
+  async openSandboxPreview(sessionId: string, preview: {
+    id: string;
+    port: number;
+    name: string;
+    command: string;
+    keepBasePath: boolean;
+  }): Promise<SandboxPreview> {
+    const session = this.sandboxSessionService.findSession(sessionId);
+    if (!session) {
+      throw new Error('Sandbox session not found');
+    }
+    const saved = this.sandboxSessionService.savePreview({
+      ...preview,
+      sessionId,
+      url: previewBasePath(session.projectId, session.taskId, preview.id),
+      createdAt: new Date().toISOString(),
+    });
+    return saved!;
+  }
+
+  async closeSandboxPreview(previewId: string): Promise<void> {
+    this.sandboxSessionService.deletePreview(previewId);
+  }
+
+  /**
+   * Look up a preview for a reviewer's request. Browsing a preview counts
+   * as using its session, so it isn't destroyed while someone clicks through.
+   */
+  async useSandboxPreview(previewId: string): Promise<SandboxPreview | null> {
+    const preview = this.sandboxSessionService.findPreview(previewId);
+    if (preview) {
+      this.sandboxSessionService.touchSession(preview.sessionId, new Date());
+    }
+    return preview;
+  }
+
+  // ============================================
+  // SANDBOX FILE RPC METHODS
+  // ============================================
+
+  /**
+   * The live session of a run whose files a reviewer is browsing (a given
+   * one, or the one used last). Browsing counts as using it.
+   */
+  async usePlanSandboxSession(planId: string, sessionId?: string): Promise<SandboxSession | null> {
+    const session = sessionId
+      ? this.sandboxSessionService.findSession(sessionId)
+      : this.sandboxSessionService.getPlanSessions(planId)[0] ?? null;
+    if (!session || session.planId !== planId) return null;
+    return this.sandboxSessionService.touchSession(session.id, new Date());
+  }
+
+  /**
+   * Copy a file out of a session so it outlives it. Small files are kept
+   * in this board's storage, larger ones in the R2 bucket.
+   */
+  async publishSandboxFile(sessionId: string, file: {
+    name: string;
+    path: string;
+    mimeType: string;
+    content: Uint8Array;
+  }): Promise<PublishedFile> {
+    const session = this.sandboxSessionService.findSession(sessionId);
+    if (!session) {
+      throw new Error('Sandbox session not found');
+    }
+
+    const choice = choosePublishedFileStorage(file.content.byteLength, !!this.env.ARTIFACTS);
+    if ('error' in choice) {
+      throw new Error(choice.error);
+    }
+
+    const id = crypto.randomUUID();
+    if (choice.storage === 'r2') {
+      await this.env.ARTIFACTS!.put(publishedFileKey(session.projectId, id), file.content, {
+        httpMetadata: { contentType: file.mimeType },
+      });
+    }
+
+    return this.sandboxFileService.saveFile({
+      id,
+      projectId: session.projectId,
+      planId: session.planId,
+      taskId: session.taskId,
+      sessionId,
+      name: file.name,
+      path: file.path,
+      mimeType: file.mimeType,
+      size: file.content.byteLength,
+      storage: choice.storage,
+      url: publishedFileUrl(session.projectId, session.taskId, id),
+      createdAt: new Date().toISOString(),
+    }, choice.storage === 'inline' ? file.content : null);
+  }
+
+  /**
+   * A published file, with its content when it is kept in this board
+   */
+  async getPublishedFile(fileId: string): Promise<{ file: PublishedFile; content: Uint8Array | null } | null> {
+    const file = this.sandboxFileService.findFile(fileId);
+    if (!file) return null;
+    return { file, content: file.storage === 'inline' ? this.sandboxFileService.getContent(fileId) : null };
+  }
+
+  // ============================================
+  // SANDBOX TEMPLATE RPC METHODS
+  // ============================================
+
+  async getSandboxTemplate(projectId: string): Promise<SandboxTemplate | null> {
+    const response = this.sandboxTemplateService.getTemplate(projectId);
+    return this.extractData(response);
+  }
+
+  async setSandboxTemplate(projectId: string, template: SandboxTemplate | null): Promise<SandboxTemplate | null> {
+    const response = this.sandboxTemplateService.setTemplate(projectId, template);
+    return this.extractData(response);
+  }
+
+  /**
+   * What a new session of the project starts with: its template and its
+   * sandbox secrets, decrypted. Null when it has neither.
+   */
+  async getSandboxEnvironment(projectId: string): Promise<SandboxEnvironment | null> {
+    const template = this.sandboxTemplateService.findTemplate(projectId);
+    const secrets = await this.credentialService.getCredentialValues(projectId, CREDENTIAL_TYPES.SANDBOX_SECRET);
+    if (!template && secrets.length === 0) return null;
+    return {
+      projectId,
+      template: template ?? {},
+      secrets: Object.fromEntries(secrets.map((secret) => [secret.name, secret.value])),
+    };
+  }
+
+  // ============================================
+  // SANDBOX OUTPUT RPC METHODS
+  // ============================================
+
+  async getSandboxOutput(planId: string): Promise<SandboxStepOutput[]> {
+    const response = this.sandboxOutputService.getOutput(planId);
+    return this.extractData(response);
+  }
+
+  /**
+   * Full transcript of a step, or null if it wrote no output
+   */
+  async getSandboxTranscript(planId: string, stepId: string): Promise<string | null> {
+    return this.sandboxOutputService.getTranscript(planId, stepId);
+  }
+
+  /**
+   * Store a batch of a running tool's output and push it to the UI
+   */
+  appendSandboxOutput(
+    projectId: string,
+    planId: string,
+    stepId: string,
+    toolName: string,
+    chunks: SandboxOutputChunk[]
+  ): void {
+    const kept = this.sandboxOutputService.appendOutput(planId, stepId, toolName, chunks, new Date());
+    if (kept.length > 0) {
+      this.broadcast(projectId, 'sandbox_output', { planId, stepId, toolName, chunks: kept });
+    }
+  }
+
+  // ============================================
+  // NOTIFICATION RPC METHODS (user containers)
+  // ============================================
+
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    const response = await this.notificationService.getChannels();
+    return this.extractData(response);
+  }
+
+  async createNotificationChannel(input: NotificationChannelInput, appUrl: string | null): Promise<NotificationChannel> {
+    const response = await this.notificationService.createChannel(input, appUrl);
+    return this.extractData(response);
+  }
+
+  async updateNotificationChannel(channelId: string, update: Partial<Omit<NotificationChannelInput, 'type'>>): Promise<NotificationChannel> {
+    const response = await this.notificationService.updateChannel(channelId, update);
+    return this.extractData(response);
+  }
+
+  async deleteNotificationChannel(channelId: string): Promise<{ success: boolean }> {
+    const response = this.notificationService.deleteChannel(channelId);
+    return this.extractData(response);
+  }
+
+  /**
+   * Send a sample notification to one channel, returning the delivery error if any
+   */
+  async testNotificationChannel(channelId: string): Promise<{ success: boolean; error?: string }> {
+    const channel = await this.notificationService.findChannel(channelId);
+    if (!channel) {
+      throw new Error('Channel not found');
+    }
+
+    const sample: Notification = {
+      id: crypto.randomUUID(),
+      event: 'completed',
+      projectId: 'test',
+      projectName: 'Test notification',
+      taskId: 'test',
+      taskTitle: 'Notifications are working',
+      planId: 'test',
+      detail: `Sent to ${channel.name}`,
+      createdAt: new Date().toISOString(),
+    };
+    const result = await deliverToChannel({ ...channel, appUrl: null }, [sample], this.channelDeliveryDeps());
+    this.notificationService.recordChannelResult(channel.id, result.ok ? null : result.error || 'Delivery failed');
+    return result.ok ? { success: true } : { success: false, error: result.error };
+  }
+
+  async getNotificationSettings(): Promise<NotificationSettings> {
+    const response = this.notificationService.getSettings();
+    return this.extractData(response);
+  }
+
+  async updateNotificationSettings(input: Partial<Pick<NotificationSettings, 'digest' | 'digestHour' | 'timezone'>>): Promise<NotificationSettings> {
+    const response = this.notificationService.updateSettings(input, new Date());
+    const settings = await this.extractData<NotificationSettings>(response);
+    await this.syncAlarm();
+    return settings;
+  }
+
+  async getNotificationMutes(): Promise<NotificationMute[]> {
+    const response = this.notificationService.getMutes();
+    return this.extractData(response);
+  }
+
+  async setNotificationMute(projectId: string, events: NotificationEventType[] | null): Promise<NotificationMute | null> {
+    const response = this.notificationService.setMute(projectId, events);
+    return this.extractData(response);
+  }
+
+  // ============================================
+  // USAGE RPC METHODS
+  // ============================================
+
+  async recordTurnUsage(planId: string, usage: TurnUsage): Promise<WorkflowPlan> {
+    const response = this.workflowService.recordTurnUsage(planId, usage);
+    return this.extractData(response);
+  }
+
+  async getUsageSummary(projectId: string, since?: string): Promise<UsageSummary> {
+    const response = this.workflowService.getUsageSummary(projectId, since);
+    return this.extractData(response);
+  }
+
   // ============================================
   // WORKFLOW LOG RPC METHODS
   // ============================================
@@ -547,6 +1311,11 @@ export class BoardDO extends DurableObject<Env> {
   }
 
   async getMCPServerTools(serverId: string): Promise<MCPTool[]> {
+    // Schemas cached before tools were flagged as mutating are fetched again;
+    // if the server can't be reached they stay unknown (treated as mutating)
+    if (this.mcpService.hasUnknownToolSchemas(serverId)) {
+      await this.mcpService.connectMCPServer(serverId);
+    }
     const response = this.mcpService.getMCPServerTools(serverId);
     return this.extractData(response);
   }
@@ -557,6 +1326,8 @@ export class BoardDO extends DurableObject<Env> {
       description?: string;
       inputSchema: object;
       approvalRequiredFields?: string[];
+      mutating?: boolean;
+      annotations?: Record<string, unknown>;
     }>;
   }): Promise<MCPTool[]> {
     const response = this.mcpService.cacheMCPServerTools(serverId, data);
@@ -645,6 +1416,7 @@ export class BoardDO extends DurableObject<Env> {
     systemPrompt: string;
     model?: string;
     icon?: string;
+    budget?: AgentBudget | null;
   }): Promise<Agent> {
     const response = this.boardService.createAgent(data);
     return this.extractData(response);
@@ -657,6 +1429,7 @@ export class BoardDO extends DurableObject<Env> {
     model?: string;
     icon?: string;
     enabled?: boolean;
+    budget?: AgentBudget | null;
   }): Promise<Agent> {
     const response = this.boardService.updateAgent(agentId, data);
     return this.extractData(response);
@@ -667,14 +1440,52 @@ export class BoardDO extends DurableObject<Env> {
     return this.extractData(response);
   }
 
+  // ============================================
+  // TOOL POLICY RPC METHODS
+  // ============================================
+
+  async getToolPolicies(projectId: string): Promise<ToolPolicy[]> {
+    const response = this.toolPolicyService.getToolPolicies(projectId);
+    return this.extractData(response);
+  }
+
+  async upsertToolPolicy(projectId: string, data: {
+    serverName: string;
+    toolName: string;
+    mode: ToolPolicyMode;
+    constraints?: ToolPolicyConstraints | null;
+  }): Promise<ToolPolicy> {
+    const response = this.toolPolicyService.upsertToolPolicy(projectId, data);
+    return this.extractData(response);
+  }
+
+  async deleteToolPolicy(projectId: string, policyId: string): Promise<{ success: boolean }> {
+    const response = this.toolPolicyService.deleteToolPolicy(projectId, policyId);
+    return this.extractData(response);
+  }
+
+  // ============================================
+  // BUDGET RPC METHODS
+  // ============================================
+
+  async getBudget(projectId: string): Promise<AgentBudget | null> {
+    const response = this.budgetService.getBudget(projectId);
+    return this.extractData(response);
+  }
+
+  async setBudget(projectId: string, budget: AgentBudget | null): Promise<AgentBudget | null> {
+    const response = this.budgetService.setBudget(projectId, budget);
+    return this.extractData(response);
+  }
+
   // ============================================
   // HELPER METHODS
   // ============================================
 
   private async extractData<T>(response: Response): Promise<T> {
-    const result = await response.json() as { success?: boolean; data?: T; error?: string };
+    const result = await response.json() as { success?: boolean; data?: T; error?: string | { code: string; message: string } };
     if (result.error) {
-      throw new Error(result.error);
+      throw new Error(typeof result.error === 'string' ? result.error : result.error.message);
     }
     return result.data as T;
   }
@@ -5,12 +5,21 @@
 // Credential types
 export const CREDENTIAL_TYPES = {
   GITHUB_OAUTH: 'github_oauth',
+  GITHUB_APP: 'github_app',
   GOOGLE_OAUTH: 'google_oauth',
   ANTHROPIC_API_KEY: 'anthropic_api_key',
+  // Environment variables for the project's sandboxes (one credential per variable)
+  SANDBOX_SECRET: 'sandbox_secret',
 } as const;
 
 export type CredentialType = typeof CREDENTIAL_TYPES[keyof typeof CREDENTIAL_TYPES];
 
+// How agents authenticate to GitHub in a project: the connected user's
+// OAuth token, or an installation token for the project's GitHub App
+export const GITHUB_AUTH_MODES = ['oauth', 'app'] as const;
+
+export type GitHubAuthMode = typeof GITHUB_AUTH_MODES[number];
+
 // MCP Server names (for matching)
 export const MCP_SERVER_NAMES = {
   GMAIL: 'gmail',
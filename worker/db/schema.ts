@@ -163,6 +163,224 @@ export function initSchema(sql: SqlStorage): void {
       FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
     );
     CREATE INDEX IF NOT EXISTS idx_agents_project ON agents(project_id);
+
+    -- Tool permission policies (project_id is '__global__' for user-level policies)
+    CREATE TABLE IF NOT EXISTS tool_policies (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      server_name TEXT NOT NULL,
+      tool_name TEXT NOT NULL,
+      mode TEXT NOT NULL DEFAULT 'ask',
+      constraints TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      UNIQUE(project_id, server_name, tool_name)
+    );
+    CREATE INDEX IF NOT EXISTS idx_tool_policies_project ON tool_policies(project_id);
+
+    -- Run budgets (project_id is '__global__' for the user-level budget)
+    CREATE TABLE IF NOT EXISTS budgets (
+      project_id TEXT PRIMARY KEY,
+      budget TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    -- Conversation messages added by each agent turn (for retrying and forking runs)
+    CREATE TABLE IF NOT EXISTS workflow_turns (
+      plan_id TEXT NOT NULL,
+      turn INTEGER NOT NULL,
+      messages TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (plan_id, turn),
+      FOREIGN KEY (plan_id) REFERENCES workflow_plans(id) ON DELETE CASCADE
+    );
+
+    -- Messages sent to a running agent (delivered_turn is null while queued)
+    CREATE TABLE IF NOT EXISTS workflow_messages (
+      id TEXT PRIMARY KEY,
+      plan_id TEXT NOT NULL,
+      content TEXT NOT NULL,
+      interrupt INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL,
+      delivered_turn INTEGER,
+      FOREIGN KEY (plan_id) REFERENCES workflow_plans(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_workflow_messages_plan ON workflow_messages(plan_id);
+
+    -- Task schedules (repeat holds the simple rule the cron was built from, if any)
+    CREATE TABLE IF NOT EXISTS task_schedules (
+      task_id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      cron TEXT NOT NULL,
+      repeat TEXT,
+      timezone TEXT NOT NULL,
+      agent_id TEXT,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      next_run_at TEXT,
+      last_run_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_task_schedules_next_run ON task_schedules(next_run_at);
+
+    -- History of scheduled runs (started, skipped or failed)
+    CREATE TABLE IF NOT EXISTS task_schedule_runs (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL,
+      scheduled_for TEXT NOT NULL,
+      ran_at TEXT NOT NULL,
+      status TEXT NOT NULL,
+      plan_id TEXT,
+      message TEXT,
+      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_task_schedule_runs_task ON task_schedule_runs(task_id);
+
+    -- Inbound webhooks that create tasks (secret is encrypted; JSON in conditions/template)
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      source TEXT NOT NULL,
+      encrypted_secret TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      conditions TEXT NOT NULL DEFAULT '[]',
+      template TEXT NOT NULL,
+      column_id TEXT,
+      auto_start INTEGER NOT NULL DEFAULT 0,
+      gmail_query TEXT,
+      last_delivery_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_webhooks_project ON webhooks(project_id);
+
+    -- Log of webhook deliveries, including ignored and rejected ones
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      webhook_id TEXT NOT NULL,
+      received_at TEXT NOT NULL,
+      event TEXT NOT NULL,
+      status TEXT NOT NULL,
+      dedupe_key TEXT,
+      task_id TEXT,
+      plan_id TEXT,
+      message TEXT,
+      payload TEXT,
+      FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id);
+
+    -- Notification channels, mutes and digest settings (used in user containers;
+    -- channel config is encrypted JSON since it holds push keys and webhook URLs)
+    CREATE TABLE IF NOT EXISTS notification_channels (
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL,
+      name TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      events TEXT NOT NULL DEFAULT '[]',
+      encrypted_config TEXT NOT NULL,
+      app_url TEXT,
+      last_sent_at TEXT,
+      last_error TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS notification_mutes (
+      project_id TEXT PRIMARY KEY,
+      events TEXT NOT NULL DEFAULT '[]',
+      updated_at TEXT NOT NULL
+    );
+
+    -- Single row (id = 1)
+    CREATE TABLE IF NOT EXISTS notification_settings (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      digest TEXT NOT NULL DEFAULT 'off',
+      digest_hour INTEGER NOT NULL DEFAULT 9,
+      timezone TEXT NOT NULL DEFAULT 'UTC',
+      next_digest_at TEXT,
+      updated_at TEXT NOT NULL
+    );
+
+    -- Notifications waiting for the next digest
+    CREATE TABLE IF NOT EXISTS pending_notifications (
+      id TEXT PRIMARY KEY,
+      notification TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    -- Live sandbox sessions, so later tool calls and workflow replays find them
+    CREATE TABLE IF NOT EXISTS sandbox_sessions (
+      id TEXT PRIMARY KEY,
+      sandbox_id TEXT NOT NULL,
+      project_id TEXT NOT NULL,
+      plan_id TEXT,
+      task_id TEXT,
+      repo_url TEXT,
+      branch TEXT,
+      work_dir TEXT NOT NULL,
+      limits TEXT,
+      created_at TEXT NOT NULL,
+      last_activity_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_sandbox_sessions_project ON sandbox_sessions(project_id);
+
+    -- Sandbox template per project, applied to every session its runs create
+    CREATE TABLE IF NOT EXISTS sandbox_templates (
+      project_id TEXT PRIMARY KEY,
+      template TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    -- Dev servers running in sandbox sessions, proxied for reviewers
+    CREATE TABLE IF NOT EXISTS sandbox_previews (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      port INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      command TEXT NOT NULL,
+      keep_base_path INTEGER NOT NULL DEFAULT 0,
+      url TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_sandbox_previews_session ON sandbox_previews(session_id);
+
+    -- Sandbox files published as artifacts, copied out of the container.
+    -- Small files are kept here, larger ones in R2 (content is then NULL).
+    CREATE TABLE IF NOT EXISTS sandbox_files (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      plan_id TEXT,
+      task_id TEXT,
+      session_id TEXT,
+      name TEXT NOT NULL,
+      path TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      storage TEXT NOT NULL,
+      content BLOB,
+      url TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_sandbox_files_plan ON sandbox_files(plan_id);
+
+    -- Sandbox tool output, streamed live and kept as each step's transcript
+    CREATE TABLE IF NOT EXISTS sandbox_output (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      plan_id TEXT NOT NULL,
+      step_id TEXT NOT NULL,
+      tool_name TEXT NOT NULL,
+      stream TEXT NOT NULL,
+      text TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (plan_id) REFERENCES workflow_plans(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_sandbox_output_step ON sandbox_output(plan_id, step_id);
   `);
 
   runMigrations(sql);
@@ -186,6 +404,13 @@ function runMigrations(sql: SqlStorage): void {
     // Column already exists
   }
 
+  // Add github_auth column to projects ('app' makes agents use the GitHub App installation)
+  try {
+    sql.exec("ALTER TABLE projects ADD COLUMN github_auth TEXT NOT NULL DEFAULT 'oauth'");
+  } catch {
+    // Column already exists
+  }
+
   // Add user_id column to tasks if it doesn't exist (for standalone tasks)
   try {
     sql.exec('ALTER TABLE tasks ADD COLUMN user_id TEXT');
@@ -193,12 +418,83 @@ function runMigrations(sql: SqlStorage): void {
     // Column already exists
   }
 
+  // Add queued_start column to tasks (blocked tasks waiting on their dependencies)
+  try {
+    sql.exec('ALTER TABLE tasks ADD COLUMN queued_start TEXT');
+  } catch {
+    // Column already exists
+  }
+
   // Add agent_id column to workflow_plans if it doesn't exist
   try {
     sql.exec('ALTER TABLE workflow_plans ADD COLUMN agent_id TEXT');
   } catch {
     // Column already exists
   }
+
+  // Add mutating column to mcp_tool_schemas if it doesn't exist. NULL means
+  // the tool was cached before the flag was recorded and is treated as
+  // mutating until its schema is fetched again.
+  const mutatingColumn = (sql.exec('PRAGMA table_info(mcp_tool_schemas)').toArray() as Array<{ name: string; notnull: number }>)
+    .find((column) => column.name === 'mutating');
+  if (mutatingColumn?.notnull === 1) {
+    // An earlier version of this migration defaulted existing rows to 0
+    // (read-only), so start those over as unknown
+    sql.exec('ALTER TABLE mcp_tool_schemas DROP COLUMN mutating');
+  }
+  try {
+    sql.exec('ALTER TABLE mcp_tool_schemas ADD COLUMN mutating INTEGER');
+  } catch {
+    // Column already exists
+  }
+
+  // Add budget column to agents if it doesn't exist
+  try {
+    sql.exec('ALTER TABLE agents ADD COLUMN budget TEXT');
+  } catch {
+    // Column already exists
+  }
+
+  // Add limits column to sandbox_sessions (resource limits from the project's sandbox template)
+  try {
+    sql.exec('ALTER TABLE sandbox_sessions ADD COLUMN limits TEXT');
+  } catch {
+    // Column already exists
+  }
+
+  // Add token usage columns to workflow_plans if they don't exist
+  // (usage holds the per-turn breakdown, the rest are running totals)
+  const usageColumns = [
+    'usage TEXT',
+    'input_tokens INTEGER NOT NULL DEFAULT 0',
+    'output_tokens INTEGER NOT NULL DEFAULT 0',
+    'cache_creation_tokens INTEGER NOT NULL DEFAULT 0',
+    'cache_read_tokens INTEGER NOT NULL DEFAULT 0',
+    'cost_usd REAL NOT NULL DEFAULT 0',
+  ];
+  for (const column of usageColumns) {
+    try {
+      sql.exec(`ALTER TABLE workflow_plans ADD COLUMN ${column}`);
+    } catch {
+      // Column already exists
+    }
+  }
+
+  // Add branch columns to workflow_plans if they don't exist
+  // (instructions is the task text the run started with)
+  const branchColumns = [
+    'parent_plan_id TEXT',
+    'parent_turn INTEGER',
+    'branch_mode TEXT',
+    'instructions TEXT',
+  ];
+  for (const column of branchColumns) {
+    try {
+      sql.exec(`ALTER TABLE workflow_plans ADD COLUMN ${column}`);
+    } catch {
+      // Column already exists
+    }
+  }
 }
 
 /**
@@ -9,6 +9,15 @@ declare global {
     ANTHROPIC_API_KEY?: string;
     /** Exa API key for web search. Set in .dev.vars or as Cloudflare secret. */
     EXA_API_KEY?: string;
+    /** VAPID key pair for Web Push notifications (base64url). Set as Cloudflare secrets. */
+    VAPID_PUBLIC_KEY?: string;
+    VAPID_PRIVATE_KEY?: string;
+    /** Contact sent to push services, e.g. "mailto:admin@example.com" */
+    VAPID_SUBJECT?: string;
+    /** R2 bucket for published sandbox files too large for the board's storage */
+    ARTIFACTS?: R2Bucket;
+    /** R2 bucket caching the dependency directories of sandbox templates */
+    SANDBOX_CACHE?: R2Bucket;
   }
 }
 
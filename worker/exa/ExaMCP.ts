@@ -227,6 +227,7 @@ export class ExaMCPServer extends HostedMCPServer {
           },
           required: ['query'],
         },
+        readOnly: true,
       },
       {
         name: 'get_code_context_exa',
@@ -245,6 +246,7 @@ export class ExaMCPServer extends HostedMCPServer {
           },
           required: ['query'],
         },
+        readOnly: true,
       },
     ];
   }
@@ -8,19 +8,41 @@
 import { HostedMCPServer, type MCPToolSchema, type MCPToolCallResult } from '../mcp/MCPClient';
 import { toolsToMCPSchemas, parseToolArgs } from '../utils/zodTools';
 import { githubTools } from './githubTools';
+import { codeSearchQuery, reviewCommentPayload, summarizeChecks, type CheckRun, type CommitStatus } from './pullRequests';
 
 const GITHUB_API_BASE = 'https://api.github.com';
 const DEFAULT_BRANCH = 'main';
+/** Longest pull request diff returned to the agent, in characters */
+const MAX_DIFF_LENGTH = 200000;
+
+interface GitHubIssue {
+  number: number;
+  title: string;
+  state: string;
+  html_url: string;
+  labels: Array<{ name: string }>;
+}
+
+interface GitHubComment {
+  id: number;
+  user: { login: string } | null;
+  body: string | null;
+  created_at: string;
+  html_url: string;
+}
 
 export class GitHubMCPServer extends HostedMCPServer {
   readonly name = 'GitHub';
-  readonly description = 'Read-only access to repositories, issues, and pull requests. Use Sandbox for code changes.';
+  readonly description = 'Repositories, issues, pull requests, reviews and CI checks. Commit single files directly; use Sandbox for larger code changes.';
 
   private accessToken: string;
+  /** The token is a GitHub App installation token rather than a user's */
+  private installation: boolean;
 
-  constructor(accessToken: string) {
+  constructor(accessToken: string, options: { installation?: boolean } = {}) {
     super();
     this.accessToken = accessToken;
+    this.installation = options.installation ?? false;
   }
 
   getTools(): MCPToolSchema[] {
@@ -42,6 +64,28 @@ export class GitHubMCPServer extends HostedMCPServer {
           return await this.getIssue(args);
         case 'get_pull_request':
           return await this.getPullRequest(args);
+        case 'list_pr_files':
+          return await this.listPRFiles(args);
+        case 'get_pr_diff':
+          return await this.getPRDiff(args);
+        case 'get_check_status':
+          return await this.getCheckStatus(args);
+        case 'search_code':
+          return await this.searchCode(args);
+        case 'list_comments':
+          return await this.listComments(args);
+        case 'add_comment':
+          return await this.addComment(args);
+        case 'create_issue':
+          return await this.createIssue(args);
+        case 'close_issue':
+          return await this.closeIssue(args);
+        case 'add_labels':
+          return await this.addLabels(args);
+        case 'create_review':
+          return await this.createReview(args);
+        case 'commit_file':
+          return await this.commitFile(args);
         case 'get_repository':
           return await this.getRepository(args);
         case 'list_repos':
@@ -247,6 +291,267 @@ export class GitHubMCPServer extends HostedMCPServer {
     };
   }
 
+  private async listPRFiles(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { owner, repo, pull_number, per_page: perPage = 100 } = parseToolArgs(githubTools.list_pr_files.input, args);
+
+    const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/pulls/${pull_number}/files?per_page=${perPage}`;
+    const response = await this.githubFetch(url);
+    const data = await response.json() as Array<{
+      filename: string;
+      status: string;
+      previous_filename?: string;
+      additions: number;
+      deletions: number;
+      patch?: string;
+    }>;
+
+    const result = data.map((file) => ({
+      path: file.filename,
+      status: file.status,
+      previous_path: file.previous_filename,
+      additions: file.additions,
+      deletions: file.deletions,
+      patch: file.patch,
+    }));
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+    };
+  }
+
+  private async getPRDiff(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { owner, repo, pull_number } = parseToolArgs(githubTools.get_pr_diff.input, args);
+
+    const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/pulls/${pull_number}`;
+    const response = await this.githubFetch(url, {
+      headers: { 'Accept': 'application/vnd.github.diff' },
+    });
+    const diff = await response.text();
+
+    const result = {
+      diff: diff.slice(0, MAX_DIFF_LENGTH),
+      truncated: diff.length > MAX_DIFF_LENGTH,
+    };
+
+    return {
+      content: [{ type: 'text', text: result.truncated ? `${result.diff}\n\n[Diff truncated - use list_pr_files for per-file patches]` : result.diff }],
+      structuredContent: result,
+    };
+  }
+
+  private async getCheckStatus(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { owner, repo, ref } = parseToolArgs(githubTools.get_check_status.input, args);
+
+    const commitUrl = `${GITHUB_API_BASE}/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`;
+    const [checksResponse, statusResponse] = await Promise.all([
+      this.githubFetch(`${commitUrl}/check-runs?per_page=100`),
+      this.githubFetch(`${commitUrl}/status`),
+    ]);
+    const checkRuns = await checksResponse.json() as { check_runs: CheckRun[] };
+    const combined = await statusResponse.json() as { sha: string; statuses: CommitStatus[] };
+
+    const result = {
+      ref,
+      sha: combined.sha,
+      ...summarizeChecks(checkRuns.check_runs, combined.statuses),
+    };
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+    };
+  }
+
+  private async searchCode(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { query, owner, repo, per_page: perPage = 20 } = parseToolArgs(githubTools.search_code.input, args);
+
+    const params = new URLSearchParams({
+      q: codeSearchQuery(query, owner, repo),
+      per_page: String(perPage),
+    });
+
+    const url = `${GITHUB_API_BASE}/search/code?${params.toString()}`;
+    const response = await this.githubFetch(url, {
+      // Text-match media type adds the matching snippets
+      headers: { 'Accept': 'application/vnd.github.text-match+json' },
+    });
+    const data = await response.json() as {
+      total_count: number;
+      items: Array<{
+        path: string;
+        sha: string;
+        html_url: string;
+        repository: { full_name: string };
+        text_matches?: Array<{ fragment: string }>;
+      }>;
+    };
+
+    const result = data.items.map((item) => ({
+      path: item.path,
+      repository: item.repository.full_name,
+      sha: item.sha,
+      url: item.html_url,
+      fragments: (item.text_matches || []).map((match) => match.fragment),
+    }));
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+    };
+  }
+
+  private async listComments(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { owner, repo, issue_number, per_page: perPage = 30 } = parseToolArgs(githubTools.list_comments.input, args);
+
+    const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/issues/${issue_number}/comments?per_page=${perPage}`;
+    const response = await this.githubFetch(url);
+    const data = await response.json() as GitHubComment[];
+
+    const result = data.map((comment) => this.commentResult(comment));
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+    };
+  }
+
+  private async addComment(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { owner, repo, issue_number, body } = parseToolArgs(githubTools.add_comment.input, args);
+
+    const comment = await this.postComment(owner, repo, issue_number, body);
+    const result = this.commentResult(comment);
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: { ...result, title: `Comment on #${issue_number}` },
+    };
+  }
+
+  private async createIssue(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { owner, repo, title, body = '', labels, assignees } = parseToolArgs(githubTools.create_issue.input, args);
+
+    const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/issues`;
+    const response = await this.githubFetch(url, {
+      method: 'POST',
+      body: JSON.stringify({ title, body, labels, assignees }),
+    });
+    const result = this.issueResult(await response.json() as GitHubIssue);
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+    };
+  }
+
+  private async closeIssue(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { owner, repo, issue_number, reason = 'completed', comment } = parseToolArgs(githubTools.close_issue.input, args);
+
+    if (comment) {
+      await this.postComment(owner, repo, issue_number, comment);
+    }
+
+    const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/issues/${issue_number}`;
+    const response = await this.githubFetch(url, {
+      method: 'PATCH',
+      body: JSON.stringify({ state: 'closed', state_reason: reason }),
+    });
+    const result = this.issueResult(await response.json() as GitHubIssue);
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+    };
+  }
+
+  private async addLabels(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { owner, repo, issue_number, labels } = parseToolArgs(githubTools.add_labels.input, args);
+
+    const issueUrl = `${GITHUB_API_BASE}/repos/${owner}/${repo}/issues/${issue_number}`;
+    await this.githubFetch(`${issueUrl}/labels`, {
+      method: 'POST',
+      body: JSON.stringify({ labels }),
+    });
+    const response = await this.githubFetch(issueUrl);
+    const result = this.issueResult(await response.json() as GitHubIssue);
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+    };
+  }
+
+  private async createReview(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { owner, repo, pull_number, event = 'COMMENT', body = '', comments = [] } = parseToolArgs(githubTools.create_review.input, args);
+
+    if (!body.trim() && (event === 'REQUEST_CHANGES' || comments.length === 0)) {
+      throw new Error(event === 'REQUEST_CHANGES'
+        ? 'A review that requests changes needs a body explaining what to change'
+        : 'A review needs a body or at least one inline comment');
+    }
+
+    const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/pulls/${pull_number}/reviews`;
+    const response = await this.githubFetch(url, {
+      method: 'POST',
+      body: JSON.stringify({
+        event,
+        body,
+        comments: reviewCommentPayload(comments),
+      }),
+    });
+    const data = await response.json() as {
+      id: number;
+      state: string;
+      html_url: string;
+    };
+
+    const result = {
+      id: data.id,
+      state: data.state,
+      comments: comments.length,
+      url: data.html_url,
+    };
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: { ...result, title: `Review of #${pull_number}` },
+    };
+  }
+
+  private async commitFile(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { owner, repo, path, content, message, branch, sha } = parseToolArgs(githubTools.commit_file.input, args);
+
+    const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/contents/${path}`;
+    const currentSha = sha ?? await this.fileSha(url, branch);
+
+    const response = await this.githubFetch(url, {
+      method: 'PUT',
+      body: JSON.stringify({
+        message,
+        content: this.encodeBase64(content),
+        branch,
+        ...(currentSha && { sha: currentSha }),
+      }),
+    });
+    const data = await response.json() as {
+      content: { path: string; sha: string };
+      commit: { sha: string; html_url: string };
+    };
+
+    const result = {
+      path: data.content.path,
+      sha: data.content.sha,
+      commit_sha: data.commit.sha,
+      branch,
+      url: data.commit.html_url,
+    };
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: { ...result, title: message.split('\n')[0] },
+    };
+  }
+
   private async getRepository(args: Record<string, unknown>): Promise<MCPToolCallResult> {
     const { owner, repo } = parseToolArgs(githubTools.get_repository.input, args);
 
@@ -293,16 +598,24 @@ export class GitHubMCPServer extends HostedMCPServer {
       per_page: String(perPage),
     });
 
-    const url = `${GITHUB_API_BASE}/user/repos?${params.toString()}`;
-    const response = await this.githubFetch(url);
-    const data = await response.json() as Array<{
+    type RepoData = {
       full_name: string;
       name: string;
       owner: { login: string };
       description: string | null;
       private: boolean;
       html_url: string;
-    }>;
+    };
+
+    // Installation tokens have no user, so list the repositories the App can reach instead
+    let data: RepoData[];
+    if (this.installation) {
+      const response = await this.githubFetch(`${GITHUB_API_BASE}/installation/repositories?per_page=${perPage}`);
+      data = (await response.json() as { repositories: RepoData[] }).repositories;
+    } else {
+      const response = await this.githubFetch(`${GITHUB_API_BASE}/user/repos?${params.toString()}`);
+      data = await response.json() as RepoData[];
+    }
 
     const result = data.map((repo) => ({
       full_name: repo.full_name,
@@ -319,8 +632,53 @@ export class GitHubMCPServer extends HostedMCPServer {
     };
   }
 
-  private async githubFetch(url: string, options: RequestInit = {}): Promise<Response> {
-    const response = await fetch(url, {
+  /** SHA of a file on a branch, or undefined when the file does not exist yet */
+  private async fileSha(contentsUrl: string, branch: string): Promise<string | undefined> {
+    const response = await this.githubRequest(`${contentsUrl}?ref=${encodeURIComponent(branch)}`);
+    if (response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.status}`);
+    }
+    const data = await response.json() as { sha?: string; type?: string };
+    if (data.type !== 'file') {
+      throw new Error('Path is a directory, not a file');
+    }
+    return data.sha;
+  }
+
+  private async postComment(owner: string, repo: string, issueNumber: number, body: string): Promise<GitHubComment> {
+    const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/issues/${issueNumber}/comments`;
+    const response = await this.githubFetch(url, {
+      method: 'POST',
+      body: JSON.stringify({ body }),
+    });
+    return await response.json() as GitHubComment;
+  }
+
+  private commentResult(comment: GitHubComment) {
+    return {
+      id: comment.id,
+      author: comment.user?.login || '',
+      body: comment.body || '',
+      created_at: comment.created_at,
+      url: comment.html_url,
+    };
+  }
+
+  private issueResult(issue: GitHubIssue) {
+    return {
+      number: issue.number,
+      title: issue.title,
+      state: issue.state,
+      url: issue.html_url,
+      labels: issue.labels.map((l) => l.name),
+    };
+  }
+
+  private async githubRequest(url: string, options: RequestInit = {}): Promise<Response> {
+    return fetch(url, {
       ...options,
       headers: {
         'Authorization': `Bearer ${this.accessToken}`,
@@ -331,6 +689,10 @@ export class GitHubMCPServer extends HostedMCPServer {
         ...options.headers,
       },
     });
+  }
+
+  private async githubFetch(url: string, options: RequestInit = {}): Promise<Response> {
+    const response = await this.githubRequest(url, options);
 
     if (!response.ok) {
       let errorMessage = `GitHub API error: ${response.status}`;
@@ -358,4 +720,13 @@ export class GitHubMCPServer extends HostedMCPServer {
     }
     return new TextDecoder().decode(bytes);
   }
+
+  private encodeBase64(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+  }
 }
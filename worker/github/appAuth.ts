@@ -0,0 +1,234 @@
+/**
+ * GitHub App authentication
+ *
+ * Lets agents act as a GitHub App installation instead of a person. The
+ * App's private key signs a short-lived JWT, which is exchanged for an
+ * installation token scoped to the installation (optionally narrowed to a
+ * list of repositories). Installation tokens last an hour, so they are
+ * cached per isolate and minted again shortly before they expire.
+ */
+
+const GITHUB_API_BASE = 'https://api.github.com';
+
+/** Tokens are reused until this close to expiry */
+export const INSTALLATION_TOKEN_REFRESH_MS = 5 * 60 * 1000;
+
+/** GitHub rejects JWTs that live longer than 10 minutes */
+const JWT_LIFETIME_SECONDS = 9 * 60;
+
+/** Backdate iat to allow for clock drift between us and GitHub */
+const JWT_CLOCK_SKEW_SECONDS = 60;
+
+// DER prefix of an rsaEncryption AlgorithmIdentifier (OID 1.2.840.113549.1.1.1, NULL params)
+const RSA_ALGORITHM_IDENTIFIER = [0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00];
+
+export interface GitHubAppCredential {
+  appId: string;
+  installationId: string;
+  /** PEM private key downloaded from the App settings (PKCS#1 or PKCS#8) */
+  privateKey: string;
+  /** Repository names to limit the token to; all installation repositories when empty */
+  repositories: string[];
+}
+
+export interface InstallationToken {
+  token: string;
+  expiresAt: string;
+  /** Commit identity of the App's bot user */
+  botName: string;
+  botEmail: string;
+}
+
+// Token cache - keyed by app, installation and repositories
+const tokenCache = new Map<string, InstallationToken>();
+
+/**
+ * Read a stored `github_app` credential. The private key is the credential
+ * value; the App and installation ids live in its metadata.
+ */
+export function parseAppCredential(value: string, metadata: Record<string, unknown> | null | undefined): GitHubAppCredential {
+  const appId = metadata?.app_id;
+  const installationId = metadata?.installation_id;
+  if (!appId || !installationId) {
+    throw new Error('GitHub App credential is missing app_id or installation_id');
+  }
+  if (!value.includes('PRIVATE KEY-----')) {
+    throw new Error('GitHub App credential is not a PEM private key');
+  }
+
+  const repositories = Array.isArray(metadata?.repositories)
+    ? (metadata.repositories as unknown[]).filter((r): r is string => typeof r === 'string' && r.length > 0)
+    : [];
+
+  return {
+    appId: String(appId),
+    installationId: String(installationId),
+    privateKey: value,
+    repositories,
+  };
+}
+
+/** True when a token should be minted again before it is used */
+export function installationTokenExpiring(expiresAt: string | undefined, now = Date.now()): boolean {
+  if (!expiresAt) return true;
+  return new Date(expiresAt).getTime() - now < INSTALLATION_TOKEN_REFRESH_MS;
+}
+
+/**
+ * Sign the JWT that authenticates as the App itself (RS256)
+ */
+export async function createAppJwt(appId: string, privateKey: string, now = Date.now()): Promise<string> {
+  const issuedAt = Math.floor(now / 1000) - JWT_CLOCK_SKEW_SECONDS;
+  const header = base64UrlEncode(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const payload = base64UrlEncode(JSON.stringify({
+    iat: issuedAt,
+    exp: issuedAt + JWT_LIFETIME_SECONDS,
+    iss: appId,
+  }));
+
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    pemToPkcs8(privateKey),
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const signingInput = `${header}.${payload}`;
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Get an installation token for the App, minting a new one only when the
+ * cached token is missing or close to expiry
+ */
+export async function getInstallationToken(credential: GitHubAppCredential, now = Date.now()): Promise<InstallationToken> {
+  const cacheKey = `${credential.appId}:${credential.installationId}:${credential.repositories.join(',')}`;
+  const cached = tokenCache.get(cacheKey);
+  if (cached && !installationTokenExpiring(cached.expiresAt, now)) {
+    return cached;
+  }
+
+  const jwt = await createAppJwt(credential.appId, credential.privateKey, now);
+
+  const response = await appFetch(
+    `${GITHUB_API_BASE}/app/installations/${credential.installationId}/access_tokens`,
+    jwt,
+    {
+      method: 'POST',
+      body: JSON.stringify(credential.repositories.length > 0 ? { repositories: credential.repositories } : {}),
+    }
+  );
+  const data = await response.json() as { token: string; expires_at: string };
+
+  const identity = await getBotIdentity(jwt, data.token);
+  const token: InstallationToken = {
+    token: data.token,
+    expiresAt: data.expires_at,
+    ...identity,
+  };
+
+  tokenCache.set(cacheKey, token);
+  return token;
+}
+
+/**
+ * Clear cached installation tokens (tests, or after a credential changes)
+ */
+export function clearInstallationTokenCache(): void {
+  tokenCache.clear();
+}
+
+/**
+ * The `slug[bot]` user GitHub attributes the App's commits to. The email
+ * uses the bot's user id so commits link to the App on GitHub.
+ */
+async function getBotIdentity(jwt: string, installationToken: string): Promise<{ botName: string; botEmail: string }> {
+  const appResponse = await appFetch(`${GITHUB_API_BASE}/app`, jwt);
+  const app = await appResponse.json() as { slug: string };
+  const botName = `${app.slug}[bot]`;
+
+  const userResponse = await appFetch(`${GITHUB_API_BASE}/users/${encodeURIComponent(botName)}`, installationToken);
+  const user = await userResponse.json() as { id: number };
+
+  return {
+    botName,
+    botEmail: `${user.id}+${botName}@users.noreply.github.com`,
+  };
+}
+
+async function appFetch(url: string, token: string, options: RequestInit = {}): Promise<Response> {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+      'Content-Type': 'application/json',
+      'User-Agent': 'Weft-App',
+    },
+  });
+
+  if (!response.ok) {
+    let errorMessage = `GitHub App authentication failed: ${response.status}`;
+    try {
+      const errorData = await response.json() as { message?: string };
+      if (errorData.message) {
+        errorMessage = `GitHub App authentication failed: ${errorData.message}`;
+      }
+    } catch {
+      // Ignore JSON parse errors
+    }
+    throw new Error(errorMessage);
+  }
+
+  return response;
+}
+
+/**
+ * Decode a PEM private key to PKCS#8 DER. GitHub hands out PKCS#1
+ * ("BEGIN RSA PRIVATE KEY") keys, which WebCrypto cannot import, so those
+ * are wrapped in a PKCS#8 PrivateKeyInfo first.
+ */
+export function pemToPkcs8(pem: string): Uint8Array {
+  const isPkcs1 = pem.includes('BEGIN RSA PRIVATE KEY');
+  const base64 = pem
+    .replace(/-----(BEGIN|END) (RSA )?PRIVATE KEY-----/g, '')
+    .replace(/\s+/g, '');
+  const binary = atob(base64);
+  const der = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    der[i] = binary.charCodeAt(i);
+  }
+  if (!isPkcs1) return der;
+
+  // PrivateKeyInfo ::= SEQUENCE { version INTEGER 0, algorithm AlgorithmIdentifier, privateKey OCTET STRING }
+  const body = [
+    0x02, 0x01, 0x00,
+    ...RSA_ALGORITHM_IDENTIFIER,
+    0x04, ...derLength(der.length), ...der,
+  ];
+  return new Uint8Array([0x30, ...derLength(body.length), ...body]);
+}
+
+function derLength(length: number): number[] {
+  if (length < 0x80) return [length];
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n = Math.floor(n / 256)) {
+    bytes.unshift(n & 0xff);
+  }
+  return [0x80 | bytes.length, ...bytes];
+}
+
+function base64UrlEncode(data: string | Uint8Array): string {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
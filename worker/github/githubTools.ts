@@ -69,6 +69,63 @@ const repoOutput = z.object({
   forks: z.number().optional().describe('Number of forks'),
 });
 
+const prFileOutput = z.object({
+  path: z.string().describe('File path'),
+  status: z.string().describe('added, modified, removed or renamed'),
+  previous_path: z.string().optional().describe('Path before a rename'),
+  additions: z.number().describe('Lines added'),
+  deletions: z.number().describe('Lines removed'),
+  patch: z.string().optional().describe('Unified diff of the file (absent for binary or very large files)'),
+});
+
+const prDiffOutput = z.object({
+  diff: z.string().describe('Unified diff of the whole pull request'),
+  truncated: z.boolean().describe('Whether the diff was cut short'),
+});
+
+const checkStatusOutput = z.object({
+  ref: z.string().describe('Ref the checks ran on'),
+  sha: z.string().describe('Commit SHA'),
+  state: z.enum(['success', 'failure', 'pending', 'none']).describe('Overall state: failure if any check failed, pending if any is still running'),
+  checks: z.array(z.object({
+    name: z.string().describe('Check or status name'),
+    state: z.enum(['success', 'failure', 'pending']).describe('Check state'),
+    detail: z.string().describe('GitHub conclusion or status description'),
+    url: z.string().optional().describe('Link to the check details'),
+  })),
+});
+
+const codeSearchResultOutput = z.object({
+  path: z.string().describe('File path'),
+  repository: z.string().describe('Full repo name (owner/repo)'),
+  sha: z.string().describe('File SHA'),
+  url: z.string().describe('URL to the file'),
+  fragments: z.array(z.string()).describe('Matching snippets'),
+});
+
+const commentOutput = z.object({
+  id: z.number().describe('Comment ID'),
+  author: z.string().describe('Comment author login'),
+  body: z.string().describe('Comment text (markdown)'),
+  created_at: z.string().describe('When the comment was posted'),
+  url: z.string().describe('URL to the comment'),
+});
+
+const reviewOutput = z.object({
+  id: z.number().describe('Review ID'),
+  state: z.string().describe('APPROVED, CHANGES_REQUESTED or COMMENTED'),
+  comments: z.number().describe('Number of inline comments'),
+  url: z.string().describe('URL to the review'),
+});
+
+const commitOutput = z.object({
+  path: z.string().describe('File path'),
+  sha: z.string().describe('New file SHA (needed for further updates)'),
+  commit_sha: z.string().describe('Commit SHA'),
+  branch: z.string().describe('Branch committed to'),
+  url: z.string().describe('URL to the commit'),
+});
+
 const repoListItemOutput = z.object({
   full_name: z.string().describe('Full repo name (owner/repo)'),
   name: z.string().describe('Repository name'),
@@ -78,6 +135,31 @@ const repoListItemOutput = z.object({
   url: z.string().describe('URL to the repository'),
 });
 
+// ============================================================================
+// Input Schemas
+// ============================================================================
+
+const issueNumber = z.coerce.number().int().positive()
+  .describe('Issue or pull request number');
+
+const pullNumber = z.coerce.number().int().positive()
+  .describe('Pull request number');
+
+const markdownBody = z.string().max(65000);
+
+const labelNames = z.array(z.string().max(100)).max(50);
+
+const reviewComment = z.object({
+  path: commonSchemas.filePath.describe('File path, as in the diff'),
+  line: z.coerce.number().int().positive()
+    .describe('Line to comment on (last line for a multi-line comment), numbered as in the file on `side`'),
+  start_line: z.coerce.number().int().positive().optional()
+    .describe('First line of a multi-line comment'),
+  side: z.enum(['LEFT', 'RIGHT']).default('RIGHT')
+    .describe('RIGHT for added or unchanged lines (new file), LEFT for removed lines (old file)'),
+  body: markdownBody.describe('Comment text (markdown)'),
+});
+
 // ============================================================================
 // Tool Definitions
 // ============================================================================
@@ -93,6 +175,7 @@ export const githubTools = defineTools({
         .describe('Branch, tag, or commit SHA (default: main)'),
     }),
     output: fileContentOutput,
+    readOnly: true,
   },
 
   create_branch: {
@@ -105,6 +188,7 @@ export const githubTools = defineTools({
         .describe('Source branch to create from (default: main)'),
     }),
     output: branchOutput,
+    mutating: true,
   },
 
   create_pr: {
@@ -121,6 +205,7 @@ export const githubTools = defineTools({
     }),
     output: pullRequestOutput,
     approvalRequiredFields: ['owner', 'repo', 'title', 'body', 'diff'],
+    mutating: true,
   },
 
   list_issues: {
@@ -136,6 +221,7 @@ export const githubTools = defineTools({
         .describe('Number of results per page (default: 30, max: 100)'),
     }),
     output: z.array(issueOutput),
+    readOnly: true,
   },
 
   get_issue: {
@@ -147,6 +233,7 @@ export const githubTools = defineTools({
         .describe('Issue number'),
     }),
     output: issueDetailOutput,
+    readOnly: true,
   },
 
   get_pull_request: {
@@ -158,6 +245,161 @@ export const githubTools = defineTools({
         .describe('Pull request number'),
     }),
     output: prDetailOutput,
+    readOnly: true,
+  },
+
+  list_pr_files: {
+    description: 'List the files a pull request changes, with the patch for each file',
+    input: z.object({
+      owner: commonSchemas.owner,
+      repo: commonSchemas.repo,
+      pull_number: pullNumber,
+      per_page: z.coerce.number().int().min(1).max(100).default(100)
+        .describe('Number of files per page (default: 100, max: 100)'),
+    }),
+    output: z.array(prFileOutput),
+    readOnly: true,
+  },
+
+  get_pr_diff: {
+    description: 'Get the unified diff of a pull request. Pass it as `diff` when requesting approval for create_review.',
+    input: z.object({
+      owner: commonSchemas.owner,
+      repo: commonSchemas.repo,
+      pull_number: pullNumber,
+    }),
+    output: prDiffOutput,
+    readOnly: true,
+  },
+
+  get_check_status: {
+    description: 'Get CI status for a branch, tag or commit: every check run and commit status with one overall state. For a pull request, use its head branch.',
+    input: z.object({
+      owner: commonSchemas.owner,
+      repo: commonSchemas.repo,
+      ref: commonSchemas.gitRef.describe('Branch, tag, or commit SHA'),
+    }),
+    output: checkStatusOutput,
+    readOnly: true,
+  },
+
+  search_code: {
+    description: 'Search code on the default branch of GitHub repositories. Supports GitHub search qualifiers such as language:ts or path:src/.',
+    input: z.object({
+      query: z.string().min(1).max(256).describe('Search terms'),
+      owner: commonSchemas.owner.optional()
+        .describe('Only search repositories of this user or organization'),
+      repo: commonSchemas.repo.optional()
+        .describe('Only search this repository (requires owner)'),
+      per_page: z.coerce.number().int().min(1).max(100).default(20)
+        .describe('Number of results (default: 20, max: 100)'),
+    }),
+    output: z.array(codeSearchResultOutput),
+    readOnly: true,
+  },
+
+  list_comments: {
+    description: 'List the comments on an issue or pull request (not inline review comments)',
+    input: z.object({
+      owner: commonSchemas.owner,
+      repo: commonSchemas.repo,
+      issue_number: issueNumber,
+      per_page: z.coerce.number().int().min(1).max(100).default(30)
+        .describe('Number of results per page (default: 30, max: 100)'),
+    }),
+    output: z.array(commentOutput),
+    readOnly: true,
+  },
+
+  add_comment: {
+    description: 'Comment on an issue or pull request',
+    input: z.object({
+      owner: commonSchemas.owner,
+      repo: commonSchemas.repo,
+      issue_number: issueNumber,
+      body: markdownBody.min(1).describe('Comment text (markdown)'),
+    }),
+    output: commentOutput,
+    approvalRequiredFields: ['owner', 'repo', 'issue_number', 'body'],
+    mutating: true,
+  },
+
+  create_issue: {
+    description: 'Create an issue in a GitHub repository',
+    input: z.object({
+      owner: commonSchemas.owner,
+      repo: commonSchemas.repo,
+      title: z.string().min(1).max(256).describe('Issue title'),
+      body: markdownBody.default('').describe('Issue description (markdown)'),
+      labels: labelNames.optional().describe('Label names to add'),
+      assignees: z.array(z.string().max(100)).max(10).optional()
+        .describe('Logins of people to assign'),
+    }),
+    output: issueOutput,
+    approvalRequiredFields: ['owner', 'repo', 'title', 'body'],
+    mutating: true,
+  },
+
+  close_issue: {
+    description: 'Close an issue, optionally with a closing comment',
+    input: z.object({
+      owner: commonSchemas.owner,
+      repo: commonSchemas.repo,
+      issue_number: issueNumber,
+      reason: z.enum(['completed', 'not_planned']).default('completed')
+        .describe('Why the issue is closed (default: completed)'),
+      comment: markdownBody.optional().describe('Comment to post before closing'),
+    }),
+    output: issueOutput,
+    approvalRequiredFields: ['owner', 'repo', 'issue_number'],
+    mutating: true,
+  },
+
+  add_labels: {
+    description: 'Add labels to an issue or pull request. Labels that do not exist yet are created.',
+    input: z.object({
+      owner: commonSchemas.owner,
+      repo: commonSchemas.repo,
+      issue_number: issueNumber,
+      labels: labelNames.min(1).describe('Label names to add'),
+    }),
+    output: issueOutput,
+    approvalRequiredFields: ['owner', 'repo', 'issue_number', 'labels'],
+    mutating: true,
+  },
+
+  create_review: {
+    description: 'Review a pull request: approve, request changes or comment, with optional inline comments on the diff',
+    input: z.object({
+      owner: commonSchemas.owner,
+      repo: commonSchemas.repo,
+      pull_number: pullNumber,
+      event: z.enum(['APPROVE', 'REQUEST_CHANGES', 'COMMENT']).default('COMMENT')
+        .describe('Review verdict (default: COMMENT)'),
+      body: markdownBody.default('').describe('Review summary (markdown). Required for REQUEST_CHANGES and COMMENT without inline comments.'),
+      comments: z.array(reviewComment).max(100).default([])
+        .describe('Inline comments on lines of the diff'),
+    }),
+    output: reviewOutput,
+    approvalRequiredFields: ['owner', 'repo', 'pull_number', 'event', 'body', 'comments', 'diff'],
+    mutating: true,
+  },
+
+  commit_file: {
+    description: 'Create or update a single file with a commit on a branch, without a Sandbox. Replaces the whole file, so read it first.',
+    input: z.object({
+      owner: commonSchemas.owner,
+      repo: commonSchemas.repo,
+      path: commonSchemas.filePath.describe('Path to the file in the repository'),
+      content: z.string().max(1000000).describe('Complete new file contents'),
+      message: z.string().min(1).max(1000).describe('Commit message'),
+      branch: commonSchemas.branch.describe('Branch to commit to'),
+      sha: z.string().max(100).optional()
+        .describe('SHA of the file being replaced, from read_file. Looked up when omitted.'),
+    }),
+    output: commitOutput,
+    approvalRequiredFields: ['owner', 'repo', 'path', 'content', 'message', 'branch'],
+    mutating: true,
   },
 
   get_repository: {
@@ -167,6 +409,7 @@ export const githubTools = defineTools({
       repo: commonSchemas.repo,
     }),
     output: repoOutput,
+    readOnly: true,
   },
 
   list_repos: {
@@ -180,6 +423,7 @@ export const githubTools = defineTools({
         .describe('Number of results per page (default: 30, max: 100)'),
     }),
     output: z.array(repoListItemOutput),
+    readOnly: true,
   },
 });
 
@@ -1,10 +1,11 @@
 /**
  * GitHub services module
  *
- * Provides OAuth and MCP wrapper for GitHub:
+ * Provides OAuth, GitHub App installation tokens and MCP wrapper for GitHub:
  * - Repository operations
  * - Issues and pull requests
  */
 
 export * from './oauth';
+export * from './appAuth';
 export { GitHubMCPServer } from './GitHubMCP';
@@ -0,0 +1,126 @@
+/**
+ * GitHub pull request reviews and checks
+ *
+ * Turns the inline comments agents write for a review into the payload the
+ * pull request reviews API expects, and folds a commit's check runs and
+ * commit statuses (two separate GitHub APIs) into one overall state.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+export type ReviewSide = 'LEFT' | 'RIGHT';
+
+/** An inline review comment as the create_review tool accepts it */
+export interface ReviewCommentInput {
+  path: string;
+  /** Last line the comment covers, numbered as in the file on `side` */
+  line: number;
+  /** First line of a multi-line comment */
+  start_line?: number;
+  side?: ReviewSide;
+  body: string;
+}
+
+export interface ReviewCommentPayload {
+  path: string;
+  line: number;
+  side: ReviewSide;
+  start_line?: number;
+  start_side?: ReviewSide;
+  body: string;
+}
+
+export interface CheckRun {
+  name: string;
+  status: string;
+  conclusion: string | null;
+  html_url?: string | null;
+  details_url?: string | null;
+}
+
+export interface CommitStatus {
+  context: string;
+  state: string;
+  target_url?: string | null;
+  description?: string | null;
+}
+
+export type CheckState = 'success' | 'failure' | 'pending' | 'none';
+
+export interface CheckSummary {
+  name: string;
+  state: Exclude<CheckState, 'none'>;
+  /** GitHub's own result, e.g. "timed_out" or "in_progress" */
+  detail: string;
+  url?: string;
+}
+
+/** Conclusions that do not count against the commit */
+const PASSING_CONCLUSIONS = ['success', 'neutral', 'skipped'];
+
+/**
+ * Review comments in API form. GitHub rejects a start_line equal to line,
+ * so single-line comments only carry `line`.
+ */
+export function reviewCommentPayload(comments: ReviewCommentInput[]): ReviewCommentPayload[] {
+  return comments.map((comment) => {
+    const side = comment.side ?? 'RIGHT';
+    const multiLine = comment.start_line !== undefined && comment.start_line < comment.line;
+    return {
+      path: comment.path,
+      line: comment.line,
+      side,
+      ...(multiLine && { start_line: comment.start_line, start_side: side }),
+      body: comment.body,
+    };
+  });
+}
+
+function checkRunState(run: CheckRun): CheckSummary['state'] {
+  if (run.status !== 'completed') return 'pending';
+  return PASSING_CONCLUSIONS.includes(run.conclusion ?? '') ? 'success' : 'failure';
+}
+
+function commitStatusState(status: CommitStatus): CheckSummary['state'] {
+  if (status.state === 'success') return 'success';
+  if (status.state === 'pending') return 'pending';
+  return 'failure';
+}
+
+/**
+ * Every check on a commit with one overall state: failure if anything
+ * failed, else pending if anything is still running, else success.
+ */
+export function summarizeChecks(
+  checkRuns: CheckRun[],
+  statuses: CommitStatus[]
+): { state: CheckState; checks: CheckSummary[] } {
+  const checks: CheckSummary[] = [
+    ...checkRuns.map((run) => ({
+      name: run.name,
+      state: checkRunState(run),
+      detail: run.status === 'completed' ? run.conclusion ?? 'completed' : run.status,
+      url: run.html_url ?? run.details_url ?? undefined,
+    })),
+    ...statuses.map((status) => ({
+      name: status.context,
+      state: commitStatusState(status),
+      detail: status.description || status.state,
+      url: status.target_url ?? undefined,
+    })),
+  ];
+
+  let state: CheckState = 'none';
+  if (checks.some((check) => check.state === 'failure')) state = 'failure';
+  else if (checks.some((check) => check.state === 'pending')) state = 'pending';
+  else if (checks.length > 0) state = 'success';
+
+  return { state, checks };
+}
+
+/** Code search query limited to a repository, or to an owner's repositories */
+export function codeSearchQuery(query: string, owner?: string, repo?: string): string {
+  if (owner && repo) return `${query} repo:${owner}/${repo}`;
+  if (owner) return `${query} user:${owner}`;
+  return query;
+}
@@ -0,0 +1,380 @@
+/**
+ * CalendarMCP - Hosted MCP wrapper for Google Calendar API
+ *
+ * Provides MCP-compatible tools for Google Calendar operations:
+ * - listCalendars: List the user's calendars
+ * - listEvents: List events in a time range
+ * - getEvent: Get event details
+ * - checkFreeBusy: Busy times for the user and others
+ * - findConflicts: Events that overlap a proposed time
+ * - createEvent: Create an event and invite attendees
+ * - updateEvent: Change an existing event
+ * - respondToEvent: Accept, decline or tentatively accept an invitation
+ */
+
+import { HostedMCPServer, type MCPToolSchema, type MCPToolCallResult } from '../mcp/MCPClient';
+import { toolsToMCPSchemas, parseToolArgs } from '../utils/zodTools';
+import { calendarTools } from './calendarTools';
+import {
+  eventTimeError,
+  findConflicts,
+  fromEventTime,
+  toEventTime,
+  type BusyInterval,
+  type EventTime,
+} from './calendarEvents';
+
+const CALENDAR_API_BASE = 'https://www.googleapis.com/calendar/v3';
+
+export interface CalendarEvent {
+  id: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  status?: string;
+  htmlLink?: string;
+  hangoutLink?: string;
+  transparency?: string;
+  start?: EventTime;
+  end?: EventTime;
+  organizer?: { email?: string };
+  attendees?: Array<{
+    email: string;
+    self?: boolean;
+    responseStatus?: string;
+    comment?: string;
+  }>;
+}
+
+interface FreeBusyResponse {
+  calendars: Record<string, { busy?: Array<{ start: string; end: string }>; errors?: unknown[] }>;
+}
+
+export class CalendarMCPServer extends HostedMCPServer {
+  readonly name = 'Google Calendar';
+  readonly description = 'Google Calendar API for reading schedules and managing events';
+
+  private accessToken: string;
+
+  constructor(accessToken: string) {
+    super();
+    this.accessToken = accessToken;
+  }
+
+  getTools(): MCPToolSchema[] {
+    return toolsToMCPSchemas(calendarTools);
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    try {
+      switch (name) {
+        case 'listCalendars':
+          return await this.listCalendars();
+        case 'listEvents':
+          return await this.listEvents(args);
+        case 'getEvent':
+          return await this.getEvent(args);
+        case 'checkFreeBusy':
+          return await this.checkFreeBusy(args);
+        case 'findConflicts':
+          return await this.findConflicts(args);
+        case 'createEvent':
+          return await this.createEvent(args);
+        case 'updateEvent':
+          return await this.updateEvent(args);
+        case 'respondToEvent':
+          return await this.respondToEvent(args);
+        default:
+          return this.errorContent(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      return this.errorContent(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async listCalendars(): Promise<MCPToolCallResult> {
+    const data = await this.calendarRequest<{
+      items?: Array<{ id: string; summary: string; primary?: boolean; accessRole: string }>;
+    }>('/users/me/calendarList');
+
+    const results = (data.items || []).map((calendar) => ({
+      id: calendar.id,
+      title: calendar.summary,
+      primary: calendar.primary === true,
+      accessRole: calendar.accessRole,
+    }));
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+      structuredContent: results,
+    };
+  }
+
+  private async listEvents(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { calendarId, timeMin, timeMax, query, maxResults } = parseToolArgs(calendarTools.listEvents.input, args);
+
+    const events = await this.fetchEvents(calendarId, {
+      timeMin: timeMin || new Date().toISOString(),
+      timeMax,
+      query,
+      maxResults,
+    });
+    const results = events.map((event) => this.transformEvent(event));
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+      structuredContent: results,
+    };
+  }
+
+  private async getEvent(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { eventId, calendarId } = parseToolArgs(calendarTools.getEvent.input, args);
+
+    const event = await this.calendarRequest<CalendarEvent>(this.eventPath(calendarId, eventId));
+    const result = this.transformEvent(event);
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+    };
+  }
+
+  private async checkFreeBusy(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { timeMin, timeMax, calendars } = parseToolArgs(calendarTools.checkFreeBusy.input, args);
+
+    const busy = await this.fetchBusy(timeMin, timeMax, calendars);
+    const result: Record<string, BusyInterval[]> = {};
+    for (const calendar of calendars) {
+      result[calendar] = busy.filter((interval) => interval.calendar === calendar);
+    }
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: { calendars: result },
+    };
+  }
+
+  private async findConflicts(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { start, end, attendees, ignoreEventId } = parseToolArgs(calendarTools.findConflicts.input, args);
+    const timeError = eventTimeError(start, end);
+    if (timeError) {
+      throw new Error(timeError);
+    }
+
+    const conflicts = await this.conflictsFor(start, end, attendees, ignoreEventId);
+
+    return {
+      content: [{
+        type: 'text',
+        text: conflicts.length > 0 ? JSON.stringify(conflicts, null, 2) : 'No conflicts',
+      }],
+      structuredContent: { conflicts },
+    };
+  }
+
+  private async createEvent(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const input = parseToolArgs(calendarTools.createEvent.input, args);
+    const timeError = eventTimeError(input.start, input.end);
+    if (timeError) {
+      throw new Error(timeError);
+    }
+
+    const body: Record<string, unknown> = {
+      summary: input.title,
+      start: toEventTime(input.start, input.timeZone),
+      end: toEventTime(input.end, input.timeZone),
+      ...(input.description && { description: input.description }),
+      ...(input.location && { location: input.location }),
+      ...(input.attendees && { attendees: input.attendees.map((email) => ({ email })) }),
+    };
+    if (input.addVideoCall) {
+      body.conferenceData = {
+        createRequest: { requestId: crypto.randomUUID(), conferenceSolutionKey: { type: 'hangoutsMeet' } },
+      };
+    }
+
+    const params = new URLSearchParams({ sendUpdates: input.sendUpdates });
+    if (input.addVideoCall) params.set('conferenceDataVersion', '1');
+
+    const event = await this.calendarRequest<CalendarEvent>(
+      `/calendars/${encodeURIComponent(input.calendarId)}/events?${params.toString()}`,
+      { method: 'POST', body: JSON.stringify(body) }
+    );
+
+    return this.eventResult(event, 'Event created');
+  }
+
+  private async updateEvent(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const input = parseToolArgs(calendarTools.updateEvent.input, args);
+
+    const patch: Record<string, unknown> = {};
+    if (input.title) patch.summary = input.title;
+    if (input.description !== undefined) patch.description = input.description;
+    if (input.location !== undefined) patch.location = input.location;
+    if (input.attendees) patch.attendees = input.attendees.map((email) => ({ email }));
+
+    if (input.start || input.end) {
+      // Moving one end keeps the other where it was
+      const current = await this.calendarRequest<CalendarEvent>(this.eventPath(input.calendarId, input.eventId));
+      const start = input.start || fromEventTime(current.start);
+      const end = input.end || fromEventTime(current.end);
+      const timeError = eventTimeError(start, end);
+      if (timeError) {
+        throw new Error(timeError);
+      }
+      patch.start = toEventTime(start, input.timeZone || current.start?.timeZone);
+      patch.end = toEventTime(end, input.timeZone || current.end?.timeZone);
+    }
+
+    if (Object.keys(patch).length === 0) {
+      throw new Error('Nothing to update - pass at least one field to change');
+    }
+
+    const event = await this.calendarRequest<CalendarEvent>(
+      `${this.eventPath(input.calendarId, input.eventId)}?sendUpdates=${input.sendUpdates}`,
+      { method: 'PATCH', body: JSON.stringify(patch) }
+    );
+
+    return this.eventResult(event, 'Event updated');
+  }
+
+  private async respondToEvent(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { eventId, calendarId, response, comment } = parseToolArgs(calendarTools.respondToEvent.input, args);
+
+    const event = await this.calendarRequest<CalendarEvent>(this.eventPath(calendarId, eventId));
+    const attendees = event.attendees || [];
+    if (!attendees.some((a) => a.self)) {
+      throw new Error('You are not on the guest list of this event, so there is no invitation to respond to');
+    }
+
+    const updated = await this.calendarRequest<CalendarEvent>(
+      `${this.eventPath(calendarId, eventId)}?sendUpdates=all`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({
+          attendees: attendees.map((a) =>
+            a.self ? { ...a, responseStatus: response, ...(comment && { comment }) } : a
+          ),
+        }),
+      }
+    );
+
+    const result = this.transformEvent(updated);
+    return {
+      content: [{ type: 'text', text: `Responded "${response}" to ${result.title}` }],
+      structuredContent: result,
+    };
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private async calendarRequest<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${CALENDAR_API_BASE}${path}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Calendar API error: ${response.status} - ${error}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  private eventPath(calendarId: string, eventId: string): string {
+    return `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`;
+  }
+
+  private async fetchEvents(
+    calendarId: string,
+    options: { timeMin?: string; timeMax?: string; query?: string; maxResults: number }
+  ): Promise<CalendarEvent[]> {
+    const params = new URLSearchParams({
+      singleEvents: 'true',
+      orderBy: 'startTime',
+      maxResults: String(options.maxResults),
+    });
+    if (options.timeMin) params.set('timeMin', options.timeMin);
+    if (options.timeMax) params.set('timeMax', options.timeMax);
+    if (options.query) params.set('q', options.query);
+
+    const data = await this.calendarRequest<{ items?: CalendarEvent[] }>(
+      `/calendars/${encodeURIComponent(calendarId)}/events?${params.toString()}`
+    );
+    return data.items || [];
+  }
+
+  private async fetchBusy(timeMin: string, timeMax: string, calendars: string[]): Promise<BusyInterval[]> {
+    const data = await this.calendarRequest<FreeBusyResponse>('/freeBusy', {
+      method: 'POST',
+      body: JSON.stringify({ timeMin, timeMax, items: calendars.map((id) => ({ id })) }),
+    });
+
+    return Object.entries(data.calendars).flatMap(([calendar, info]) =>
+      (info.busy || []).map((interval) => ({ ...interval, calendar }))
+    );
+  }
+
+  /**
+   * Conflicts on the user's own calendar come with event titles; attendees'
+   * calendars only expose busy blocks.
+   */
+  private async conflictsFor(
+    start: string,
+    end: string,
+    attendees: string[] | undefined,
+    ignoreEventId?: string
+  ): Promise<BusyInterval[]> {
+    const timeMin = new Date(start).toISOString();
+    const timeMax = new Date(end).toISOString();
+
+    const [ownEvents, othersBusy] = await Promise.all([
+      this.fetchEvents('primary', { timeMin, timeMax, maxResults: 50 }),
+      attendees?.length ? this.fetchBusy(timeMin, timeMax, attendees) : Promise.resolve([]),
+    ]);
+
+    const own = ownEvents
+      .filter((event) => event.transparency !== 'transparent' && event.status !== 'cancelled')
+      .filter((event) => event.attendees?.find((a) => a.self)?.responseStatus !== 'declined')
+      .map((event) => ({
+        eventId: event.id,
+        start: fromEventTime(event.start),
+        end: fromEventTime(event.end),
+        calendar: 'primary',
+        title: event.summary || '(no title)',
+      }));
+
+    return findConflicts({ start, end }, [...own, ...othersBusy], ignoreEventId);
+  }
+
+  private transformEvent(event: CalendarEvent) {
+    return {
+      id: event.id,
+      title: event.summary || '(no title)',
+      start: fromEventTime(event.start),
+      end: fromEventTime(event.end),
+      location: event.location,
+      description: event.description,
+      organizer: event.organizer?.email,
+      attendees: event.attendees?.map((a) => ({ email: a.email, responseStatus: a.responseStatus })),
+      status: event.status,
+      url: event.htmlLink,
+      videoLink: event.hangoutLink,
+    };
+  }
+
+  private eventResult(event: CalendarEvent, message: string): MCPToolCallResult {
+    const result = this.transformEvent(event);
+    return {
+      content: [{ type: 'text', text: `${message}: ${result.title}\nURL: ${result.url}` }],
+      // url + title make the event an artifact of the run
+      structuredContent: result,
+    };
+  }
+}
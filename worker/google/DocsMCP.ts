@@ -8,12 +8,29 @@
  * - appendToDocument: Append content to a document
  * - searchDocuments: Search for documents
  * - replaceDocumentContent: Replace document content
+ * - replaceText: Find and replace text
+ * - insertAfterHeading: Insert content at the top of a section
+ * - updateSection: Replace the body of a section
+ * - addComment: Comment on quoted text
+ * - suggestEdit: Propose a replacement as a comment
+ * - listComments: List comments and replies
  */
 
 import { HostedMCPServer, type MCPToolSchema, type MCPToolCallResult } from '../mcp/MCPClient';
 import { toolsToMCPSchemas, parseToolArgs } from '../utils/zodTools';
 import { docsTools } from './docsTools';
 import { markdownToDocsRequests } from './markdownToDocs';
+import {
+  containsText,
+  docParagraphs,
+  documentEndIndex,
+  documentText,
+  findSections,
+  paragraphInsertion,
+  resolveSection,
+  sectionDeleteRange,
+  type DocBodyElement,
+} from './docsStructure';
 
 const DOCS_API_BASE = 'https://docs.googleapis.com/v1';
 const DRIVE_API_BASE = 'https://www.googleapis.com/drive/v3';
@@ -23,18 +40,20 @@ export interface GoogleDoc {
   documentId: string;
   title: string;
   body?: {
-    content: Array<{
-      paragraph?: {
-        elements: Array<{
-          textRun?: {
-            content: string;
-          };
-        }>;
-      };
-    }>;
+    content: DocBodyElement[];
   };
 }
 
+interface DriveComment {
+  id: string;
+  content: string;
+  resolved?: boolean;
+  createdTime?: string;
+  author?: { displayName?: string };
+  quotedFileContent?: { value?: string };
+  replies?: Array<{ content: string; author?: { displayName?: string } }>;
+}
+
 export interface DriveFile {
   id: string;
   name: string;
@@ -73,6 +92,18 @@ export class DocsMCPServer extends HostedMCPServer {
           return await this.searchDocuments(args);
         case 'replaceDocumentContent':
           return await this.replaceDocumentContent(args);
+        case 'replaceText':
+          return await this.replaceText(args);
+        case 'insertAfterHeading':
+          return await this.insertAfterHeading(args);
+        case 'updateSection':
+          return await this.updateSection(args);
+        case 'addComment':
+          return await this.addComment(args);
+        case 'suggestEdit':
+          return await this.suggestEdit(args);
+        case 'listComments':
+          return await this.listComments(args);
         default:
           return this.errorContent(`Unknown tool: ${name}`);
       }
@@ -99,8 +130,8 @@ export class DocsMCPServer extends HostedMCPServer {
 
     const doc = await response.json() as GoogleDoc;
 
-    // Extract plain text from document structure
-    const textContent = this.extractTextFromDoc(doc);
+    // Extract text from document structure, with headings marked as in Markdown
+    const textContent = documentText(docParagraphs(doc.body?.content));
 
     const result = {
       documentId: doc.documentId,
@@ -309,6 +340,264 @@ export class DocsMCPServer extends HostedMCPServer {
     };
   }
 
+  private async replaceText(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { documentId, find, replaceWith, matchCase } = parseToolArgs(docsTools.replaceText.input, args);
+
+    const doc = await this.fetchDocument(documentId);
+    const replies = await this.batchUpdate(documentId, [{
+      replaceAllText: {
+        containsText: { text: find, matchCase },
+        replaceText: replaceWith,
+      },
+    }]) as Array<{ replaceAllText?: { occurrencesChanged?: number } }>;
+
+    const occurrencesChanged = replies[0]?.replaceAllText?.occurrencesChanged || 0;
+    if (occurrencesChanged === 0) {
+      throw new Error(`"${find}" was not found in "${doc.title}" - nothing was changed`);
+    }
+
+    const result = {
+      success: true,
+      documentId,
+      title: doc.title,
+      url: `https://docs.google.com/document/d/${documentId}/edit`,
+      occurrencesChanged,
+    };
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Replaced ${occurrencesChanged} occurrence${occurrencesChanged === 1 ? '' : 's'} in "${doc.title}": ${result.url}`,
+      }],
+      structuredContent: result,
+    };
+  }
+
+  private async insertAfterHeading(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { documentId, heading, content } = parseToolArgs(docsTools.insertAfterHeading.input, args);
+
+    const doc = await this.fetchDocument(documentId);
+    const documentEnd = documentEndIndex(doc.body?.content);
+    const section = resolveSection(findSections(docParagraphs(doc.body?.content), documentEnd), heading);
+    if ('error' in section) {
+      throw new Error(section.error);
+    }
+
+    await this.batchUpdate(
+      documentId,
+      this.insertParagraphsRequests(content, paragraphInsertion(section.bodyStartIndex, documentEnd))
+    );
+
+    return this.rangeEditResult(documentId, doc.title, `Content inserted under "${section.heading}" in "${doc.title}"`);
+  }
+
+  private async updateSection(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { documentId, heading, content } = parseToolArgs(docsTools.updateSection.input, args);
+
+    const doc = await this.fetchDocument(documentId);
+    const documentEnd = documentEndIndex(doc.body?.content);
+    const section = resolveSection(findSections(docParagraphs(doc.body?.content), documentEnd), heading);
+    if ('error' in section) {
+      throw new Error(section.error);
+    }
+
+    // Clear the old body and write the new one in a single batch
+    const range = sectionDeleteRange(section, documentEnd);
+    const requests: unknown[] = range ? [{ deleteContentRange: { range } }] : [];
+    const remainingEnd = range ? documentEnd - (range.endIndex - range.startIndex) : documentEnd;
+    // Clearing the last section leaves its final (empty) paragraph to write into
+    const reuseLastParagraph = range !== null && section.bodyEndIndex >= documentEnd;
+    requests.push(...this.insertParagraphsRequests(
+      content,
+      paragraphInsertion(section.bodyStartIndex, remainingEnd, reuseLastParagraph)
+    ));
+    await this.batchUpdate(documentId, requests);
+
+    return this.rangeEditResult(documentId, doc.title, `Section "${section.heading}" updated in "${doc.title}"`);
+  }
+
+  private async addComment(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { documentId, quote, comment } = parseToolArgs(docsTools.addComment.input, args);
+
+    const doc = await this.fetchDocument(documentId);
+    if (!containsText(docParagraphs(doc.body?.content), quote)) {
+      throw new Error(`"${quote}" was not found in "${doc.title}" - quote the document text exactly`);
+    }
+
+    return this.postComment(documentId, quote, comment, `Comment added to "${doc.title}"`);
+  }
+
+  private async suggestEdit(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { documentId, find, replaceWith, reason } = parseToolArgs(docsTools.suggestEdit.input, args);
+
+    const doc = await this.fetchDocument(documentId);
+    if (!containsText(docParagraphs(doc.body?.content), find)) {
+      throw new Error(`"${find}" was not found in "${doc.title}" - quote the document text exactly`);
+    }
+
+    // The Docs API cannot create tracked suggestions, so the proposal is a comment on the text
+    const suggestion = replaceWith
+      ? `Suggested edit: replace with "${replaceWith}"`
+      : 'Suggested edit: delete this text';
+    return this.postComment(
+      documentId,
+      find,
+      reason ? `${suggestion}\n\n${reason}` : suggestion,
+      `Suggestion added to "${doc.title}"`
+    );
+  }
+
+  private async listComments(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { documentId, includeResolved } = parseToolArgs(docsTools.listComments.input, args);
+
+    const params = new URLSearchParams({
+      pageSize: '100',
+      fields: 'comments(id,content,resolved,createdTime,author/displayName,quotedFileContent/value,replies(content,author/displayName))',
+    });
+    const response = await fetch(`${DRIVE_API_BASE}/files/${documentId}/comments?${params.toString()}`, {
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Google Drive API error: ${response.status} - ${error}`);
+    }
+
+    const data = await response.json() as { comments?: DriveComment[] };
+    const results = (data.comments || [])
+      .filter((c) => includeResolved || !c.resolved)
+      .map((c) => ({
+        commentId: c.id,
+        author: c.author?.displayName,
+        content: c.content,
+        quote: c.quotedFileContent?.value,
+        resolved: c.resolved,
+        createdTime: c.createdTime,
+        replies: c.replies?.map((r) => ({ author: r.author?.displayName, content: r.content })),
+      }));
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+      structuredContent: results,
+    };
+  }
+
+  private async fetchDocument(documentId: string): Promise<GoogleDoc> {
+    const response = await fetch(
+      `${DOCS_API_BASE}/documents/${documentId}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Google Docs API error: ${response.status}`);
+    }
+
+    return response.json() as Promise<GoogleDoc>;
+  }
+
+  private async batchUpdate(documentId: string, requests: unknown[]): Promise<unknown[]> {
+    const response = await fetch(
+      `${DOCS_API_BASE}/documents/${documentId}:batchUpdate`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ requests }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Google Docs API error: ${response.status} - ${error}`);
+    }
+
+    const data = await response.json() as { replies?: unknown[] };
+    return data.replies || [];
+  }
+
+  /**
+   * Requests that write markdown as new paragraphs. The text goes into an
+   * empty body-text paragraph so it never picks up a neighbouring heading
+   * or list style.
+   */
+  private insertParagraphsRequests(
+    markdown: string,
+    insertion: { newlineIndex?: number; contentIndex: number }
+  ): unknown[] {
+    const { newlineIndex, contentIndex } = insertion;
+    const emptyParagraph = { startIndex: contentIndex, endIndex: contentIndex + 1 };
+    return [
+      ...(newlineIndex !== undefined ? [{ insertText: { location: { index: newlineIndex }, text: '\n' } }] : []),
+      {
+        updateParagraphStyle: {
+          range: emptyParagraph,
+          paragraphStyle: { namedStyleType: 'NORMAL_TEXT' },
+          fields: 'namedStyleType',
+        },
+      },
+      { deleteParagraphBullets: { range: emptyParagraph } },
+      ...markdownToDocsRequests(markdown, contentIndex),
+    ];
+  }
+
+  private async postComment(
+    documentId: string,
+    quote: string,
+    content: string,
+    message: string
+  ): Promise<MCPToolCallResult> {
+    const response = await fetch(`${DRIVE_API_BASE}/files/${documentId}/comments?fields=id`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        content,
+        quotedFileContent: { mimeType: 'text/plain', value: quote },
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Google Drive API error: ${response.status} - ${error}`);
+    }
+
+    const comment = await response.json() as { id: string };
+    const result = {
+      commentId: comment.id,
+      documentId,
+      url: `https://docs.google.com/document/d/${documentId}/edit?disco=${comment.id}`,
+    };
+
+    return {
+      content: [{ type: 'text', text: `${message}: ${result.url}` }],
+      structuredContent: result,
+    };
+  }
+
+  private rangeEditResult(documentId: string, title: string, message: string): MCPToolCallResult {
+    const result = {
+      success: true,
+      documentId,
+      title,
+      url: `https://docs.google.com/document/d/${documentId}/edit`,
+    };
+
+    return {
+      content: [{ type: 'text', text: `${message}: ${result.url}` }],
+      structuredContent: result,
+    };
+  }
+
   /**
    * Insert text with markdown formatting converted to Google Docs styles
    */
@@ -337,21 +626,4 @@ export class DocsMCPServer extends HostedMCPServer {
     }
   }
 
-  private extractTextFromDoc(doc: GoogleDoc): string {
-    if (!doc.body?.content) return '';
-
-    const textParts: string[] = [];
-
-    for (const element of doc.body.content) {
-      if (element.paragraph?.elements) {
-        for (const elem of element.paragraph.elements) {
-          if (elem.textRun?.content) {
-            textParts.push(elem.textRun.content);
-          }
-        }
-      }
-    }
-
-    return textParts.join('');
-  }
 }
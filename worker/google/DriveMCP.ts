@@ -0,0 +1,441 @@
+/**
+ * DriveMCP - Hosted MCP wrapper for Google Drive API
+ *
+ * Provides MCP-compatible tools for Google Drive operations:
+ * - searchFiles: Search files of every type
+ * - getFile: Get file metadata
+ * - readFile: Read file content as text (including PDFs)
+ * - listPermissions: List who has access to a file
+ * - createFolder: Create a folder
+ * - moveFile: Move a file into another folder
+ * - shareFile: Give people access to a file
+ * - unshareFile: Take access away
+ * - exportFile: Export a Doc/Sheet/Slides file and save it to Drive
+ */
+
+import { HostedMCPServer, type MCPToolSchema, type MCPToolCallResult } from '../mcp/MCPClient';
+import { toolsToMCPSchemas, parseToolArgs } from '../utils/zodTools';
+import { driveTools } from './driveTools';
+import {
+  FOLDER_MIME_TYPE,
+  GOOGLE_DOC_MIME_TYPE,
+  buildSearchQuery,
+  exportFilename,
+  isTextMimeType,
+  permissionsToRemove,
+  planSharing,
+  resolveExport,
+  textExportMimeType,
+  truncateText,
+  type DrivePermission,
+} from './driveFiles';
+
+const DRIVE_API_BASE = 'https://www.googleapis.com/drive/v3';
+const DRIVE_UPLOAD_BASE = 'https://www.googleapis.com/upload/drive/v3';
+const FILE_FIELDS = 'id,name,mimeType,modifiedTime,size,parents,webViewLink,owners(emailAddress)';
+
+export interface DriveFileMetadata {
+  id: string;
+  name: string;
+  mimeType: string;
+  modifiedTime?: string;
+  size?: string;
+  parents?: string[];
+  webViewLink?: string;
+  owners?: Array<{ emailAddress?: string }>;
+}
+
+export class DriveMCPServer extends HostedMCPServer {
+  readonly name = 'Google Drive';
+  readonly description = 'Google Drive API for finding, reading, organising, sharing and exporting files';
+
+  private accessToken: string;
+
+  constructor(accessToken: string) {
+    super();
+    this.accessToken = accessToken;
+  }
+
+  getTools(): MCPToolSchema[] {
+    return toolsToMCPSchemas(driveTools);
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    try {
+      switch (name) {
+        case 'searchFiles':
+          return await this.searchFiles(args);
+        case 'getFile':
+          return await this.getFile(args);
+        case 'readFile':
+          return await this.readFile(args);
+        case 'listPermissions':
+          return await this.listPermissions(args);
+        case 'createFolder':
+          return await this.createFolder(args);
+        case 'moveFile':
+          return await this.moveFile(args);
+        case 'shareFile':
+          return await this.shareFile(args);
+        case 'unshareFile':
+          return await this.unshareFile(args);
+        case 'exportFile':
+          return await this.exportFile(args);
+        default:
+          return this.errorContent(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      return this.errorContent(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async searchFiles(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { query, kind, folderId, maxResults } = parseToolArgs(driveTools.searchFiles.input, args);
+
+    const params = new URLSearchParams({
+      q: buildSearchQuery({ query, kind, folderId }),
+      pageSize: String(maxResults),
+      fields: `files(${FILE_FIELDS})`,
+      supportsAllDrives: 'true',
+      includeItemsFromAllDrives: 'true',
+    });
+    // Drive cannot order full-text matches, so only plain listings are sorted
+    if (!query) params.set('orderBy', 'modifiedTime desc');
+
+    const data = await this.driveRequest<{ files: DriveFileMetadata[] }>(`/files?${params.toString()}`);
+    const results = data.files.map((file) => this.transformFile(file));
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+      structuredContent: results,
+    };
+  }
+
+  private async getFile(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { fileId } = parseToolArgs(driveTools.getFile.input, args);
+
+    const result = this.transformFile(await this.fetchMetadata(fileId));
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+    };
+  }
+
+  private async readFile(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { fileId, maxChars } = parseToolArgs(driveTools.readFile.input, args);
+
+    const file = await this.fetchMetadata(fileId);
+    const text = await this.fileText(file);
+    const { content, truncated } = truncateText(text, maxChars);
+    const result = { id: file.id, name: file.name, mimeType: file.mimeType, content, truncated };
+
+    return {
+      content: [{
+        type: 'text',
+        text: `# ${file.name}\n\n${content}${truncated ? `\n\n[Truncated at ${maxChars} characters]` : ''}`,
+      }],
+      structuredContent: result,
+    };
+  }
+
+  private async listPermissions(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { fileId } = parseToolArgs(driveTools.listPermissions.input, args);
+
+    const permissions = await this.fetchPermissions(fileId);
+    const results = permissions.map((p) => ({
+      id: p.id,
+      type: p.type,
+      role: p.role,
+      email: p.emailAddress,
+      domain: p.domain,
+      name: p.displayName,
+    }));
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+      structuredContent: results,
+    };
+  }
+
+  private async createFolder(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { name, parentId } = parseToolArgs(driveTools.createFolder.input, args);
+
+    const folder = await this.driveRequest<DriveFileMetadata>(
+      `/files?fields=${FILE_FIELDS}&supportsAllDrives=true`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          name,
+          mimeType: FOLDER_MIME_TYPE,
+          ...(parentId && { parents: [parentId] }),
+        }),
+      }
+    );
+
+    return this.fileResult(folder, 'Folder created');
+  }
+
+  private async moveFile(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { fileId, folderId } = parseToolArgs(driveTools.moveFile.input, args);
+
+    const [file, destination] = await Promise.all([this.fetchMetadata(fileId), this.fetchMetadata(folderId)]);
+    if (destination.mimeType !== FOLDER_MIME_TYPE) {
+      throw new Error(`${destination.name} is not a folder`);
+    }
+
+    const params = new URLSearchParams({
+      addParents: folderId,
+      fields: FILE_FIELDS,
+      supportsAllDrives: 'true',
+    });
+    const previous = (file.parents || []).filter((id) => id !== folderId);
+    if (previous.length > 0) params.set('removeParents', previous.join(','));
+
+    const moved = await this.driveRequest<DriveFileMetadata>(`/files/${encodeURIComponent(fileId)}?${params.toString()}`, {
+      method: 'PATCH',
+      body: JSON.stringify({}),
+    });
+
+    return this.fileResult(moved, `Moved to ${destination.name}`);
+  }
+
+  private async shareFile(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { fileId, emails = [], role, anyoneWithLink, notify, message } = parseToolArgs(
+      driveTools.shareFile.input,
+      args
+    );
+    if (emails.length === 0 && !anyoneWithLink) {
+      throw new Error('Pass at least one email address, or anyoneWithLink: true');
+    }
+
+    const [file, permissions] = await Promise.all([this.fetchMetadata(fileId), this.fetchPermissions(fileId)]);
+    const plan = planSharing(permissions, emails, role);
+    const path = `/files/${encodeURIComponent(fileId)}/permissions`;
+
+    for (const { email } of plan.add) {
+      const params = new URLSearchParams({ sendNotificationEmail: String(notify), supportsAllDrives: 'true' });
+      if (notify && message) params.set('emailMessage', message);
+      await this.driveRequest(`${path}?${params.toString()}`, {
+        method: 'POST',
+        body: JSON.stringify({ type: 'user', role, emailAddress: email }),
+      });
+    }
+    for (const { permissionId } of plan.upgrade) {
+      await this.driveRequest(`${path}/${permissionId}?supportsAllDrives=true`, {
+        method: 'PATCH',
+        body: JSON.stringify({ role }),
+      });
+    }
+    if (anyoneWithLink) {
+      await this.driveRequest(`${path}?supportsAllDrives=true`, {
+        method: 'POST',
+        body: JSON.stringify({ type: 'anyone', role, allowFileDiscovery: false }),
+      });
+    }
+
+    const result = {
+      added: plan.add.map((a) => a.email),
+      upgraded: plan.upgrade.map((u) => u.email),
+      unchanged: plan.unchanged,
+      anyoneWithLink,
+    };
+    const summary = [
+      result.added.length > 0 && `added ${result.added.join(', ')}`,
+      result.upgraded.length > 0 && `raised access for ${result.upgraded.join(', ')}`,
+      anyoneWithLink && 'anyone with the link can open it',
+      result.unchanged.length > 0 && `${result.unchanged.join(', ')} already had access`,
+    ].filter(Boolean).join('; ');
+
+    return {
+      content: [{ type: 'text', text: `Shared ${file.name} as ${role}: ${summary}` }],
+      structuredContent: result,
+    };
+  }
+
+  private async unshareFile(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { fileId, emails = [], anyoneWithLink } = parseToolArgs(driveTools.unshareFile.input, args);
+    if (emails.length === 0 && !anyoneWithLink) {
+      throw new Error('Pass at least one email address, or anyoneWithLink: true');
+    }
+
+    const [file, permissions] = await Promise.all([this.fetchMetadata(fileId), this.fetchPermissions(fileId)]);
+    const { remove, notShared, owners } = permissionsToRemove(permissions, emails, anyoneWithLink);
+    if (owners.length > 0) {
+      throw new Error(`Cannot remove the owner of ${file.name} (${owners.join(', ')})`);
+    }
+
+    for (const permission of remove) {
+      await this.driveRequest(
+        `/files/${encodeURIComponent(fileId)}/permissions/${permission.id}?supportsAllDrives=true`,
+        { method: 'DELETE' }
+      );
+    }
+
+    const result = {
+      removed: remove.map((p) => (p.type === 'anyone' ? 'anyone with the link' : p.emailAddress || p.id)),
+      notShared,
+    };
+
+    return {
+      content: [{
+        type: 'text',
+        text: result.removed.length > 0
+          ? `Removed access to ${file.name} for ${result.removed.join(', ')}`
+          : `Nothing to remove - ${file.name} was not shared with ${notShared.join(', ')}`,
+      }],
+      structuredContent: result,
+    };
+  }
+
+  private async exportFile(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { fileId, format, folderId, name } = parseToolArgs(driveTools.exportFile.input, args);
+
+    const file = await this.fetchMetadata(fileId);
+    const target = resolveExport(file.mimeType, format);
+    if ('error' in target) {
+      throw new Error(target.error);
+    }
+
+    const exported = await this.driveFetch(
+      `${DRIVE_API_BASE}/files/${encodeURIComponent(fileId)}/export?mimeType=${encodeURIComponent(target.mimeType)}`
+    );
+    const saved = await this.uploadFile(
+      {
+        name: name || exportFilename(file.name, target.extension),
+        mimeType: target.mimeType,
+        parents: folderId ? [folderId] : file.parents,
+      },
+      await exported.arrayBuffer()
+    );
+
+    return this.fileResult(saved, `Exported ${file.name} as ${format}`);
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private async driveFetch(url: string, init?: RequestInit): Promise<Response> {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+        ...(init?.body && typeof init.body === 'string' && { 'Content-Type': 'application/json' }),
+        ...init?.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Drive API error: ${response.status} - ${error}`);
+    }
+
+    return response;
+  }
+
+  private async driveRequest<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await this.driveFetch(`${DRIVE_API_BASE}${path}`, init);
+    // DELETE returns an empty body
+    const text = await response.text();
+    return (text ? JSON.parse(text) : {}) as T;
+  }
+
+  private async fetchMetadata(fileId: string): Promise<DriveFileMetadata> {
+    return this.driveRequest<DriveFileMetadata>(
+      `/files/${encodeURIComponent(fileId)}?fields=${FILE_FIELDS}&supportsAllDrives=true`
+    );
+  }
+
+  private async fetchPermissions(fileId: string): Promise<DrivePermission[]> {
+    const data = await this.driveRequest<{ permissions?: DrivePermission[] }>(
+      `/files/${encodeURIComponent(fileId)}/permissions?fields=permissions(id,type,role,emailAddress,domain,displayName)&supportsAllDrives=true`
+    );
+    return data.permissions || [];
+  }
+
+  /**
+   * A file's content as text. Google-native files are exported; PDFs are
+   * converted to a temporary Google Doc (Drive runs OCR on the way) which is
+   * exported and then deleted.
+   */
+  private async fileText(file: DriveFileMetadata): Promise<string> {
+    const id = encodeURIComponent(file.id);
+
+    const exportType = textExportMimeType(file.mimeType);
+    if (exportType) {
+      const response = await this.driveFetch(
+        `${DRIVE_API_BASE}/files/${id}/export?mimeType=${encodeURIComponent(exportType)}`
+      );
+      return response.text();
+    }
+
+    if (file.mimeType === 'application/pdf') {
+      const copy = await this.driveRequest<{ id: string }>(`/files/${id}/copy?supportsAllDrives=true`, {
+        method: 'POST',
+        body: JSON.stringify({ name: `${file.name} (text)`, mimeType: GOOGLE_DOC_MIME_TYPE }),
+      });
+      try {
+        const response = await this.driveFetch(
+          `${DRIVE_API_BASE}/files/${copy.id}/export?mimeType=${encodeURIComponent('text/plain')}`
+        );
+        return await response.text();
+      } finally {
+        await this.driveRequest(`/files/${copy.id}`, { method: 'DELETE' }).catch(() => undefined);
+      }
+    }
+
+    if (isTextMimeType(file.mimeType)) {
+      const response = await this.driveFetch(`${DRIVE_API_BASE}/files/${id}?alt=media&supportsAllDrives=true`);
+      return response.text();
+    }
+
+    throw new Error(`Cannot read ${file.name} as text (${file.mimeType}) - only documents, spreadsheets, slides, PDFs and text files can be read`);
+  }
+
+  /** Upload a new file with a multipart request (metadata + content) */
+  private async uploadFile(
+    metadata: { name: string; mimeType: string; parents?: string[] },
+    content: ArrayBuffer
+  ): Promise<DriveFileMetadata> {
+    const boundary = `drive-${crypto.randomUUID()}`;
+    const body = new Blob([
+      `--${boundary}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n${JSON.stringify(metadata)}\r\n`,
+      `--${boundary}\r\nContent-Type: ${metadata.mimeType}\r\n\r\n`,
+      content,
+      `\r\n--${boundary}--`,
+    ]);
+
+    const response = await this.driveFetch(
+      `${DRIVE_UPLOAD_BASE}/files?uploadType=multipart&fields=${FILE_FIELDS}&supportsAllDrives=true`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': `multipart/related; boundary=${boundary}` },
+        body,
+      }
+    );
+    return response.json() as Promise<DriveFileMetadata>;
+  }
+
+  private transformFile(file: DriveFileMetadata) {
+    return {
+      id: file.id,
+      name: file.name,
+      mimeType: file.mimeType,
+      modifiedTime: file.modifiedTime,
+      owner: file.owners?.[0]?.emailAddress,
+      size: file.size,
+      parents: file.parents,
+      url: file.webViewLink,
+    };
+  }
+
+  private fileResult(file: DriveFileMetadata, message: string): MCPToolCallResult {
+    const result = this.transformFile(file);
+    return {
+      content: [{ type: 'text', text: `${message}: ${result.name}\nURL: ${result.url}` }],
+      // url + title make the file an artifact of the run
+      structuredContent: { ...result, title: result.name },
+    };
+  }
+}
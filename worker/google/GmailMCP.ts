@@ -4,35 +4,114 @@
  * Provides MCP-compatible tools for Gmail operations:
  * - listMessages: List recent emails
  * - getMessage: Get full email content
- * - sendEmail: Send an email
+ * - sendEmail: Send an email (plain text or HTML, with attachments)
+ * - replyToMessage / replyAllToMessage: Reply in the original thread
+ * - forwardMessage: Forward a message with its attachments
+ * - createDraft / updateDraft / listDrafts: Manage drafts
+ * - listLabels / createLabel / modifyLabels: Manage labels
+ * - archiveMessages / markAsRead / starMessages: Bulk inbox triage
+ * - listFilters / createFilter: Sort future incoming mail
  * - searchMessages: Search emails with query
  * - getThread: Get full email thread
  * - getAuthenticatedUser: Get authenticated user info
+ *
+ * Attachments come from sandbox files (needs the SANDBOX binding) or Drive
+ * links (fetched with the same Google token).
  */
 
+import type { Sandbox } from '@cloudflare/sandbox';
 import { HostedMCPServer, type MCPToolSchema, type MCPToolCallResult } from '../mcp/MCPClient';
+import { readSandboxFile, type SandboxSessionStore } from '../sandbox/SandboxMCP';
 import { toolsToMCPSchemas, parseToolArgs } from '../utils/zodTools';
 import { gmailTools } from './gmailTools';
+import {
+  BATCH_MODIFY_LIMIT,
+  buildFilter,
+  bulkTargetError,
+  chunk,
+  describeTargets,
+  filterError,
+  resolveLabelIds,
+  type GmailLabel,
+  type LabelChange,
+} from './gmailLabels';
+import {
+  base64ByteLength,
+  buildMimeMessage,
+  bytesToBase64,
+  driveExportFormat,
+  forwardBody,
+  forwardBodyHtml,
+  forwardSubject,
+  invalidAddresses,
+  mimeTypeForFilename,
+  parseDriveFileId,
+  quoteReply,
+  quoteReplyHtml,
+  replyRecipients,
+  replySubject,
+  threadReferences,
+  toBase64Url,
+  utf8ToBase64,
+  type MimeAttachment,
+  type OriginalMessage,
+} from './mimeMessage';
 
 const GMAIL_API_BASE = 'https://gmail.googleapis.com/gmail/v1';
+const DRIVE_API_BASE = 'https://www.googleapis.com/drive/v3';
 const DEFAULT_MAX_RESULTS = 10;
+// Gmail rejects messages over 25 MB; leave room for base64 and the body
+const MAX_ATTACHMENT_BYTES = 18 * 1024 * 1024;
+
+export interface GmailMessagePart {
+  mimeType: string;
+  filename?: string;
+  headers?: Array<{ name: string; value: string }>;
+  body?: { data?: string; attachmentId?: string; size?: number };
+  parts?: GmailMessagePart[];
+}
 
 export interface GmailMessage {
   id: string;
   threadId: string;
   snippet: string;
-  payload?: {
-    headers: Array<{ name: string; value: string }>;
-    body?: { data?: string };
-    parts?: Array<{
-      mimeType: string;
-      body?: { data?: string };
-    }>;
-  };
+  payload?: GmailMessagePart;
   labelIds?: string[];
   internalDate?: string;
 }
 
+interface GmailDraft {
+  id: string;
+  message: GmailMessage;
+}
+
+type AttachmentSource = {
+  sessionId?: string;
+  path?: string;
+  driveUrl?: string;
+  filename?: string;
+};
+
+/** An existing message loaded for a reply or forward */
+interface LoadedMessage {
+  id: string;
+  threadId: string;
+  headers: OriginalMessage;
+  body: string;
+  attachmentParts: GmailMessagePart[];
+}
+
+/** What a sent message or saved draft contained, for the inline artifact */
+interface ComposedEmail {
+  title: string;
+  to?: string;
+  cc?: string;
+  bcc?: string;
+  subject: string;
+  body: string;
+  attachments: MimeAttachment[];
+}
+
 export interface GmailThread {
   id: string;
   snippet: string;
@@ -41,13 +120,21 @@ export interface GmailThread {
 
 export class GmailMCPServer extends HostedMCPServer {
   readonly name = 'Gmail';
-  readonly description = 'Gmail API for reading, sending, and searching emails';
+  readonly description = 'Gmail API for reading, sending, replying to, forwarding, and drafting emails';
 
   private accessToken: string;
-
-  constructor(accessToken: string) {
+  private sandboxBinding?: DurableObjectNamespace<Sandbox>;
+  private sandboxSessions?: SandboxSessionStore;
+
+  constructor(
+    accessToken: string,
+    sandboxBinding?: DurableObjectNamespace<Sandbox>,
+    sandboxSessions?: SandboxSessionStore
+  ) {
     super();
     this.accessToken = accessToken;
+    this.sandboxBinding = sandboxBinding;
+    this.sandboxSessions = sandboxSessions;
   }
 
   getTools(): MCPToolSchema[] {
@@ -63,6 +150,34 @@ export class GmailMCPServer extends HostedMCPServer {
           return await this.getMessage(args);
         case 'sendEmail':
           return await this.sendEmail(args);
+        case 'replyToMessage':
+          return await this.reply(args, false);
+        case 'replyAllToMessage':
+          return await this.reply(args, true);
+        case 'forwardMessage':
+          return await this.forwardMessage(args);
+        case 'createDraft':
+          return await this.createDraft(args);
+        case 'updateDraft':
+          return await this.updateDraft(args);
+        case 'listDrafts':
+          return await this.listDrafts(args);
+        case 'listLabels':
+          return await this.listLabels();
+        case 'createLabel':
+          return await this.createLabel(args);
+        case 'modifyLabels':
+          return await this.modifyLabels(args);
+        case 'archiveMessages':
+          return await this.archiveMessages(args);
+        case 'markAsRead':
+          return await this.markAsRead(args);
+        case 'starMessages':
+          return await this.starMessages(args);
+        case 'listFilters':
+          return await this.listFilters();
+        case 'createFilter':
+          return await this.createFilter(args);
         case 'searchMessages':
           return await this.searchMessages(args);
         case 'getThread':
@@ -160,18 +275,7 @@ export class GmailMCPServer extends HostedMCPServer {
     const message = await response.json() as GmailMessage;
     const headers = message.payload?.headers || [];
 
-    // Extract body content
-    let body = '';
-    if (message.payload?.body?.data) {
-      body = this.decodeBase64Url(message.payload.body.data);
-    } else if (message.payload?.parts) {
-      const textPart = message.payload.parts.find(
-        (p) => p.mimeType === 'text/plain'
-      );
-      if (textPart?.body?.data) {
-        body = this.decodeBase64Url(textPart.body.data);
-      }
-    }
+    const body = this.extractBody(message.payload);
 
     const result = {
       id: message.id,
@@ -191,57 +295,317 @@ export class GmailMCPServer extends HostedMCPServer {
   }
 
   private async sendEmail(args: Record<string, unknown>): Promise<MCPToolCallResult> {
-    const { to, subject, body, cc, bcc } = parseToolArgs(gmailTools.sendEmail.input, args);
+    const { to, subject, body, html, cc, bcc, attachments } = parseToolArgs(gmailTools.sendEmail.input, args);
+    this.checkRecipients(to, cc, bcc);
 
-    // Build RFC 2822 formatted email
-    const lines = [
-      `To: ${to}`,
-      `Subject: ${subject}`,
-      'Content-Type: text/plain; charset=utf-8',
-    ];
-    if (cc) lines.push(`Cc: ${cc}`);
-    if (bcc) lines.push(`Bcc: ${bcc}`);
-    lines.push('', body);
+    const loaded = await this.loadAttachments(attachments);
+    const raw = buildMimeMessage({ to, cc, bcc, subject, text: body, html, attachments: loaded });
+    const result = await this.sendRaw(raw);
 
-    const rawMessage = lines.join('\r\n');
-    const encodedMessage = this.encodeBase64Url(rawMessage);
+    return this.sentResult(result, {
+      title: `Email to ${to}`,
+      to, cc, bcc, subject, body,
+      attachments: loaded,
+    });
+  }
 
-    const response = await fetch(
-      `${GMAIL_API_BASE}/users/me/messages/send`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ raw: encodedMessage }),
-      }
+  private async reply(args: Record<string, unknown>, replyAll: boolean): Promise<MCPToolCallResult> {
+    const { messageId, body, html, cc, bcc, attachments } = parseToolArgs(
+      replyAll ? gmailTools.replyAllToMessage.input : gmailTools.replyToMessage.input,
+      args
     );
+    this.checkRecipients(undefined, cc, bcc);
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Gmail API error: ${response.status} - ${error}`);
+    const original = await this.loadMessage(messageId);
+    const recipients = replyRecipients(original.headers, await this.getSelfAddress(), replyAll);
+    if (!recipients.to) {
+      throw new Error(`Could not determine who to reply to for message ${messageId}`);
     }
+    const allCc = [recipients.cc, cc].filter(Boolean).join(', ') || undefined;
+    const subject = replySubject(original.headers.subject);
+
+    const loaded = await this.loadAttachments(attachments);
+    const raw = buildMimeMessage({
+      to: recipients.to,
+      cc: allCc,
+      bcc,
+      subject,
+      text: quoteReply(body, original.headers, original.body),
+      html: html && quoteReplyHtml(html, original.headers, original.body),
+      inReplyTo: original.headers.messageId,
+      references: threadReferences(original.headers),
+      attachments: loaded,
+    });
+    const result = await this.sendRaw(raw, original.threadId);
 
-    const result = await response.json() as { id: string; threadId: string };
+    return this.sentResult(result, {
+      title: `Reply to ${recipients.to}`,
+      to: recipients.to, cc: allCc, bcc, subject, body,
+      attachments: loaded,
+    });
+  }
+
+  private async forwardMessage(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { messageId, to, body, html, cc, bcc, includeAttachments, attachments } = parseToolArgs(
+      gmailTools.forwardMessage.input,
+      args
+    );
+    this.checkRecipients(to, cc, bcc);
+
+    const original = await this.loadMessage(messageId);
+    const forwarded = includeAttachments ? await this.loadMessageAttachments(original) : [];
+    const loaded = [...forwarded, ...await this.loadAttachments(attachments)];
+    this.checkAttachmentSize(loaded);
+
+    const subject = forwardSubject(original.headers.subject);
+    const raw = buildMimeMessage({
+      to,
+      cc,
+      bcc,
+      subject,
+      text: forwardBody(body, original.headers, original.body),
+      html: html && forwardBodyHtml(html, original.headers, original.body),
+      inReplyTo: original.headers.messageId,
+      references: threadReferences(original.headers),
+      attachments: loaded,
+    });
+    const result = await this.sendRaw(raw, original.threadId);
+
+    return this.sentResult(result, {
+      title: `Fwd to ${to}`,
+      to, cc, bcc, subject, body,
+      attachments: loaded,
+    });
+  }
+
+  private async createDraft(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { to, subject, body, html, cc, bcc, attachments, replyToMessageId } = parseToolArgs(
+      gmailTools.createDraft.input,
+      args
+    );
+    this.checkRecipients(to, cc, bcc);
+
+    const original = replyToMessageId ? await this.loadMessage(replyToMessageId) : null;
+    const loaded = await this.loadAttachments(attachments);
+    const raw = buildMimeMessage({
+      to,
+      cc,
+      bcc,
+      subject,
+      text: original ? quoteReply(body, original.headers, original.body) : body,
+      html: html && original ? quoteReplyHtml(html, original.headers, original.body) : html,
+      inReplyTo: original?.headers.messageId,
+      references: original ? threadReferences(original.headers) : undefined,
+      attachments: loaded,
+    });
+
+    const draft = await this.gmailRequest<GmailDraft>('/users/me/drafts', {
+      method: 'POST',
+      body: JSON.stringify({ message: { raw: toBase64Url(raw), threadId: original?.threadId } }),
+    });
+
+    return this.draftResult(draft, { title: `Draft: ${subject}`, to, cc, bcc, subject, body, attachments: loaded });
+  }
+
+  private async updateDraft(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { draftId, to, subject, body, html, cc, bcc, attachments } = parseToolArgs(
+      gmailTools.updateDraft.input,
+      args
+    );
+    this.checkRecipients(to, cc, bcc);
+
+    // Keep the draft in its thread - a reply draft stays a reply
+    const existing = await this.gmailRequest<GmailDraft>(`/users/me/drafts/${draftId}?format=metadata`);
+    const existingHeaders = existing.message.payload?.headers || [];
+
+    const loaded = await this.loadAttachments(attachments);
+    const raw = buildMimeMessage({
+      to,
+      cc,
+      bcc,
+      subject,
+      text: body,
+      html,
+      inReplyTo: this.header(existingHeaders, 'In-Reply-To'),
+      references: this.header(existingHeaders, 'References'),
+      attachments: loaded,
+    });
+
+    const draft = await this.gmailRequest<GmailDraft>(`/users/me/drafts/${draftId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ message: { raw: toBase64Url(raw), threadId: existing.message.threadId } }),
+    });
+
+    return this.draftResult(draft, { title: `Draft: ${subject}`, to, cc, bcc, subject, body, attachments: loaded });
+  }
+
+  private async listDrafts(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { maxResults } = parseToolArgs(gmailTools.listDrafts.input, args);
+
+    const data = await this.gmailRequest<{ drafts?: Array<{ id: string }> }>(
+      `/users/me/drafts?maxResults=${maxResults}`
+    );
+
+    const drafts = await Promise.all(
+      (data.drafts || []).map((d) =>
+        this.gmailRequest<GmailDraft>(`/users/me/drafts/${d.id}?format=metadata`)
+      )
+    );
+
+    const results = drafts.map((draft) => {
+      const headers = draft.message.payload?.headers || [];
+      return {
+        draftId: draft.id,
+        messageId: draft.message.id,
+        threadId: draft.message.threadId,
+        to: this.header(headers, 'To') || '',
+        subject: this.header(headers, 'Subject') || '(no subject)',
+        snippet: draft.message.snippet,
+      };
+    });
 
     return {
-      content: [{ type: 'text', text: `Email sent successfully. Message ID: ${result.id}` }],
-      structuredContent: {
-        success: true,
-        messageId: result.id,
-        threadId: result.threadId,
-        title: `Email to ${to}`,
-        // Inline artifact content (no external URL needed)
-        content: {
-          to,
-          cc,
-          bcc,
-          subject,
-          body,
-          sentAt: new Date().toISOString(),
-        },
+      content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+      structuredContent: results,
+    };
+  }
+
+  // ==========================================================================
+  // Mailbox Management
+  // ==========================================================================
+
+  private async listLabels(): Promise<MCPToolCallResult> {
+    const labels = await this.fetchLabels();
+
+    // The list endpoint omits counts, so fetch each label for them
+    const detailed = await Promise.all(
+      labels.map((label) => this.gmailRequest<GmailLabel>(`/users/me/labels/${encodeURIComponent(label.id)}`))
+    );
+
+    const results = detailed.map((label) => ({
+      id: label.id,
+      name: label.name,
+      type: label.type,
+      messagesTotal: label.messagesTotal,
+      messagesUnread: label.messagesUnread,
+    }));
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+      structuredContent: results,
+    };
+  }
+
+  private async createLabel(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { name, showInLabelList } = parseToolArgs(gmailTools.createLabel.input, args);
+
+    const label = await this.gmailRequest<GmailLabel>('/users/me/labels', {
+      method: 'POST',
+      body: JSON.stringify({
+        name,
+        labelListVisibility: showInLabelList ? 'labelShow' : 'labelHide',
+        messageListVisibility: 'show',
+      }),
+    });
+
+    return {
+      content: [{ type: 'text', text: `Label created: ${label.name} (${label.id})` }],
+      structuredContent: { id: label.id, name: label.name, type: label.type },
+    };
+  }
+
+  private async modifyLabels(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { messageIds, threadIds, addLabels, removeLabels } = parseToolArgs(
+      gmailTools.modifyLabels.input,
+      args
+    );
+
+    const labels = await this.fetchLabels();
+    const add = resolveLabelIds(labels, addLabels);
+    const remove = resolveLabelIds(labels, removeLabels);
+    const unknown = [...add.unknown, ...remove.unknown];
+    if (unknown.length > 0) {
+      throw new Error(`Unknown label: ${unknown.join(', ')}. Create it with createLabel first.`);
+    }
+    if (add.ids.length === 0 && remove.ids.length === 0) {
+      throw new Error('Pass at least one label to add or remove');
+    }
+
+    return this.applyLabelChange(
+      messageIds,
+      threadIds,
+      { addLabelIds: add.ids, removeLabelIds: remove.ids },
+      (targets) => `Updated labels on ${targets}`
+    );
+  }
+
+  private async archiveMessages(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { messageIds, threadIds } = parseToolArgs(gmailTools.archiveMessages.input, args);
+    const change = { addLabelIds: [], removeLabelIds: ['INBOX'] };
+    return this.applyLabelChange(messageIds, threadIds, change, (targets) => `Archived ${targets}`);
+  }
+
+  private async markAsRead(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { messageIds, threadIds, read } = parseToolArgs(gmailTools.markAsRead.input, args);
+    const change = read
+      ? { addLabelIds: [], removeLabelIds: ['UNREAD'] }
+      : { addLabelIds: ['UNREAD'], removeLabelIds: [] };
+    return this.applyLabelChange(messageIds, threadIds, change, (targets) => `Marked ${targets} as ${read ? 'read' : 'unread'}`);
+  }
+
+  private async starMessages(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { messageIds, threadIds, starred } = parseToolArgs(gmailTools.starMessages.input, args);
+    const change = starred
+      ? { addLabelIds: ['STARRED'], removeLabelIds: [] }
+      : { addLabelIds: [], removeLabelIds: ['STARRED'] };
+    return this.applyLabelChange(messageIds, threadIds, change, (targets) => `${starred ? 'Starred' : 'Unstarred'} ${targets}`);
+  }
+
+  private async listFilters(): Promise<MCPToolCallResult> {
+    const data = await this.gmailRequest<{ filter?: Array<{ id: string; criteria: object; action: object }> }>(
+      '/users/me/settings/filters'
+    );
+    const results = data.filter || [];
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+      structuredContent: results,
+    };
+  }
+
+  private async createFilter(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const input = parseToolArgs(gmailTools.createFilter.input, args);
+
+    const add = resolveLabelIds(await this.fetchLabels(), input.addLabels);
+    if (add.unknown.length > 0) {
+      throw new Error(`Unknown label: ${add.unknown.join(', ')}. Create it with createLabel first.`);
+    }
+    const error = filterError(input, add.ids);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const response = await fetch(`${GMAIL_API_BASE}/users/me/settings/filters`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/json',
       },
+      body: JSON.stringify(buildFilter(input, add.ids)),
+    });
+
+    if (response.status === 403) {
+      throw new Error('Creating filters needs the Gmail settings permission - reconnect your Google account to grant it');
+    }
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Gmail API error: ${response.status} - ${text}`);
+    }
+
+    const filter = await response.json() as { id: string; criteria: object; action: object };
+    return {
+      content: [{ type: 'text', text: `Filter created. Filter ID: ${filter.id}` }],
+      structuredContent: filter,
     };
   }
 
@@ -273,15 +637,7 @@ export class GmailMCPServer extends HostedMCPServer {
 
     const messages = thread.messages.map((msg) => {
       const headers = msg.payload?.headers || [];
-      let body = '';
-      if (msg.payload?.body?.data) {
-        body = this.decodeBase64Url(msg.payload.body.data);
-      } else if (msg.payload?.parts) {
-        const textPart = msg.payload.parts.find((p) => p.mimeType === 'text/plain');
-        if (textPart?.body?.data) {
-          body = this.decodeBase64Url(textPart.body.data);
-        }
-      }
+      const body = this.extractBody(msg.payload);
 
       return {
         id: msg.id,
@@ -322,6 +678,277 @@ export class GmailMCPServer extends HostedMCPServer {
     };
   }
 
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private async gmailRequest<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${GMAIL_API_BASE}${path}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Gmail API error: ${response.status} - ${error}`);
+    }
+
+    // Some endpoints (batchModify) answer with an empty body
+    const text = await response.text();
+    return (text ? JSON.parse(text) : {}) as T;
+  }
+
+  private async fetchLabels(): Promise<GmailLabel[]> {
+    const data = await this.gmailRequest<{ labels?: GmailLabel[] }>('/users/me/labels');
+    return data.labels || [];
+  }
+
+  /**
+   * Apply one label change to every message and thread. Messages go through
+   * batchModify (1000 per request); threads have no batch endpoint.
+   */
+  private async applyLabelChange(
+    messageIds: string[] | undefined,
+    threadIds: string[] | undefined,
+    change: LabelChange,
+    summarize: (targets: string) => string
+  ): Promise<MCPToolCallResult> {
+    const error = bulkTargetError(messageIds, threadIds);
+    if (error) {
+      throw new Error(error);
+    }
+
+    for (const ids of chunk(messageIds || [], BATCH_MODIFY_LIMIT)) {
+      await this.gmailRequest('/users/me/messages/batchModify', {
+        method: 'POST',
+        body: JSON.stringify({ ids, ...change }),
+      });
+    }
+    await Promise.all((threadIds || []).map((threadId) =>
+      this.gmailRequest(`/users/me/threads/${threadId}/modify`, {
+        method: 'POST',
+        body: JSON.stringify(change),
+      })
+    ));
+
+    const messagesModified = messageIds?.length || 0;
+    const threadsModified = threadIds?.length || 0;
+    return {
+      content: [{ type: 'text', text: summarize(describeTargets(messagesModified, threadsModified)) }],
+      structuredContent: { success: true, messagesModified, threadsModified },
+    };
+  }
+
+  private async sendRaw(raw: string, threadId?: string): Promise<{ id: string; threadId: string }> {
+    return this.gmailRequest('/users/me/messages/send', {
+      method: 'POST',
+      body: JSON.stringify({ raw: toBase64Url(raw), threadId }),
+    });
+  }
+
+  private async getSelfAddress(): Promise<string> {
+    const profile = await this.gmailRequest<{ emailAddress: string }>('/users/me/profile');
+    return profile.emailAddress;
+  }
+
+  private header(headers: Array<{ name: string; value: string }>, name: string): string | undefined {
+    const lower = name.toLowerCase();
+    return headers.find((h) => h.name.toLowerCase() === lower)?.value;
+  }
+
+  /** Load a message with the headers, body and attachment parts replies and forwards need */
+  private async loadMessage(messageId: string): Promise<LoadedMessage> {
+    const message = await this.gmailRequest<GmailMessage>(`/users/me/messages/${messageId}?format=full`);
+    const headers = message.payload?.headers || [];
+
+    const attachmentParts: GmailMessagePart[] = [];
+    const collect = (part: GmailMessagePart | undefined) => {
+      if (!part) return;
+      if (part.filename && part.body?.attachmentId) attachmentParts.push(part);
+      part.parts?.forEach(collect);
+    };
+    collect(message.payload);
+
+    return {
+      id: message.id,
+      threadId: message.threadId,
+      headers: {
+        messageId: this.header(headers, 'Message-ID'),
+        references: this.header(headers, 'References'),
+        from: this.header(headers, 'From') || '',
+        replyTo: this.header(headers, 'Reply-To'),
+        to: this.header(headers, 'To'),
+        cc: this.header(headers, 'Cc'),
+        subject: this.header(headers, 'Subject') || '',
+        date: this.header(headers, 'Date'),
+      },
+      body: this.extractBody(message.payload),
+      attachmentParts,
+    };
+  }
+
+  /** Plain text of a message, searching nested multiparts; falls back to the HTML part */
+  private extractBody(payload: GmailMessagePart | undefined): string {
+    const find = (part: GmailMessagePart | undefined, mimeType: string): string | undefined => {
+      if (!part) return undefined;
+      if (part.mimeType === mimeType && part.body?.data && !part.filename) return part.body.data;
+      for (const child of part.parts || []) {
+        const found = find(child, mimeType);
+        if (found) return found;
+      }
+      return undefined;
+    };
+
+    if (payload?.body?.data && !payload.parts) {
+      return this.decodeBase64Url(payload.body.data);
+    }
+    const text = find(payload, 'text/plain');
+    if (text) return this.decodeBase64Url(text);
+    const html = find(payload, 'text/html');
+    return html ? this.decodeBase64Url(html).replace(/<[^>]+>/g, '') : '';
+  }
+
+  private async loadMessageAttachments(message: LoadedMessage): Promise<MimeAttachment[]> {
+    return Promise.all(message.attachmentParts.map(async (part) => {
+      const attachment = await this.gmailRequest<{ data: string }>(
+        `/users/me/messages/${message.id}/attachments/${part.body!.attachmentId}`
+      );
+      return {
+        filename: part.filename!,
+        mimeType: part.mimeType,
+        data: this.base64UrlToBase64(attachment.data),
+      };
+    }));
+  }
+
+  private async loadAttachments(sources: AttachmentSource[] | undefined): Promise<MimeAttachment[]> {
+    if (!sources?.length) return [];
+
+    const attachments = await Promise.all(sources.map((source) => {
+      if (source.driveUrl) return this.loadDriveFile(source.driveUrl, source.filename);
+      if (source.sessionId && source.path) return this.loadSandboxFile(source.sessionId, source.path, source.filename);
+      throw new Error('Each attachment needs either a driveUrl, or a sessionId and path');
+    }));
+
+    this.checkAttachmentSize(attachments);
+    return attachments;
+  }
+
+  private async loadSandboxFile(sessionId: string, path: string, filename?: string): Promise<MimeAttachment> {
+    if (!this.sandboxBinding) {
+      throw new Error('Sandbox attachments are not available - the SANDBOX binding is not configured');
+    }
+
+    const file = await readSandboxFile(this.sandboxBinding, this.sandboxSessions, sessionId, path);
+    const name = filename || path.split('/').pop() || 'attachment';
+    return {
+      filename: name,
+      mimeType: file.mimeType || mimeTypeForFilename(name),
+      data: file.encoding === 'base64' ? file.content : utf8ToBase64(file.content),
+    };
+  }
+
+  private async loadDriveFile(link: string, filename?: string): Promise<MimeAttachment> {
+    const fileId = parseDriveFileId(link);
+    if (!fileId) {
+      throw new Error(`Not a Google Drive link or file ID: ${link}`);
+    }
+
+    const driveFetch = async (url: string): Promise<Response> => {
+      const response = await fetch(url, {
+        headers: { 'Authorization': `Bearer ${this.accessToken}` },
+      });
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Drive API error: ${response.status} - ${error}`);
+      }
+      return response;
+    };
+
+    const metadata = await (await driveFetch(
+      `${DRIVE_API_BASE}/files/${fileId}?fields=name,mimeType&supportsAllDrives=true`
+    )).json() as { name: string; mimeType: string };
+
+    // Google Docs, Sheets and Slides have no file content - export them instead
+    const exportFormat = driveExportFormat(metadata.mimeType);
+    const content = exportFormat
+      ? await driveFetch(`${DRIVE_API_BASE}/files/${fileId}/export?mimeType=${encodeURIComponent(exportFormat.mimeType)}`)
+      : await driveFetch(`${DRIVE_API_BASE}/files/${fileId}?alt=media&supportsAllDrives=true`);
+
+    const name = filename || (exportFormat ? `${metadata.name}.${exportFormat.extension}` : metadata.name);
+    return {
+      filename: name,
+      mimeType: exportFormat?.mimeType || metadata.mimeType || mimeTypeForFilename(name),
+      data: bytesToBase64(new Uint8Array(await content.arrayBuffer())),
+    };
+  }
+
+  private checkAttachmentSize(attachments: MimeAttachment[]): void {
+    const total = attachments.reduce((sum, a) => sum + base64ByteLength(a.data), 0);
+    if (total > MAX_ATTACHMENT_BYTES) {
+      throw new Error(
+        `Attachments total ${(total / 1024 / 1024).toFixed(1)} MB - Gmail allows at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB. Share a Drive link instead.`
+      );
+    }
+  }
+
+  private checkRecipients(...headers: Array<string | undefined>): void {
+    const invalid = headers.flatMap((header) => invalidAddresses(header));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid email address: ${invalid.join(', ')}`);
+    }
+  }
+
+  private sentResult(result: { id: string; threadId: string }, email: ComposedEmail): MCPToolCallResult {
+    return {
+      content: [{ type: 'text', text: `Email sent successfully. Message ID: ${result.id}` }],
+      structuredContent: {
+        success: true,
+        messageId: result.id,
+        threadId: result.threadId,
+        title: email.title,
+        // Inline artifact content (no external URL needed)
+        content: {
+          ...this.artifactContent(email),
+          sentAt: new Date().toISOString(),
+        },
+      },
+    };
+  }
+
+  private draftResult(draft: GmailDraft, email: ComposedEmail): MCPToolCallResult {
+    return {
+      content: [{ type: 'text', text: `Draft saved. Draft ID: ${draft.id}` }],
+      structuredContent: {
+        success: true,
+        draftId: draft.id,
+        messageId: draft.message.id,
+        threadId: draft.message.threadId,
+        title: email.title,
+        content: this.artifactContent(email),
+      },
+    };
+  }
+
+  private artifactContent(email: ComposedEmail) {
+    return {
+      to: email.to,
+      cc: email.cc,
+      bcc: email.bcc,
+      subject: email.subject,
+      body: email.body,
+      ...(email.attachments.length > 0 && { attachments: email.attachments.map((a) => a.filename) }),
+    };
+  }
+
+  private base64UrlToBase64(data: string): string {
+    const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+    return base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  }
+
   private decodeBase64Url(data: string): string {
     const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
     const binary = atob(base64);
@@ -331,11 +958,4 @@ export class GmailMCPServer extends HostedMCPServer {
     }
     return new TextDecoder().decode(bytes);
   }
-
-  private encodeBase64Url(str: string): string {
-    const bytes = new TextEncoder().encode(str);
-    const binary = String.fromCharCode(...bytes);
-    const base64 = btoa(binary);
-    return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
-  }
 }
@@ -10,11 +10,18 @@
  * - appendRows: Append rows to a sheet
  * - updateCells: Update specific cell range
  * - replaceSheetContent: Replace all content in a sheet
+ * - writeFormulas: Write formulas into cells
+ * - addSheet / renameSheet / deleteSheet: Manage sheets (tabs)
+ * - formatCells: Format a range
+ * - freezeRows: Freeze header rows and columns
+ * - addChart: Add a chart
+ * - addPivotTable: Add a pivot table on a new sheet
  */
 
 import { HostedMCPServer, type MCPToolSchema, type MCPToolCallResult } from '../mcp/MCPClient';
 import { toolsToMCPSchemas, parseToolArgs } from '../utils/zodTools';
 import { sheetsTools } from './sheetsTools';
+import { cellFormat, chartSpec, parseA1Range, pivotTableSpec, toGridRange, type GridRange } from './sheetsRanges';
 
 const SHEETS_API_BASE = 'https://sheets.googleapis.com/v4/spreadsheets';
 const DRIVE_API_BASE = 'https://www.googleapis.com/drive/v3';
@@ -35,18 +42,27 @@ export interface SpreadsheetMetadata {
       gridProperties?: {
         rowCount: number;
         columnCount: number;
+        frozenRowCount?: number;
       };
     };
   }>;
   spreadsheetUrl: string;
 }
 
+type CellValue = string | number | boolean;
+
 export interface SheetValues {
   range: string;
   majorDimension: string;
-  values?: string[][];
+  values?: CellValue[][];
 }
 
+const VALUE_RENDER_OPTIONS = {
+  formatted: 'FORMATTED_VALUE',
+  typed: 'UNFORMATTED_VALUE',
+  formulas: 'FORMULA',
+} as const;
+
 export interface DriveFile {
   id: string;
   name: string;
@@ -89,6 +105,22 @@ export class SheetsMCPServer extends HostedMCPServer {
           return await this.updateCells(args);
         case 'replaceSheetContent':
           return await this.replaceSheetContent(args);
+        case 'writeFormulas':
+          return await this.writeFormulas(args);
+        case 'addSheet':
+          return await this.addSheet(args);
+        case 'renameSheet':
+          return await this.renameSheet(args);
+        case 'deleteSheet':
+          return await this.deleteSheet(args);
+        case 'formatCells':
+          return await this.formatCells(args);
+        case 'freezeRows':
+          return await this.freezeRows(args);
+        case 'addChart':
+          return await this.addChart(args);
+        case 'addPivotTable':
+          return await this.addPivotTable(args);
         default:
           return this.errorContent(`Unknown tool: ${name}`);
       }
@@ -124,6 +156,7 @@ export class SheetsMCPServer extends HostedMCPServer {
         title: sheet.properties.title,
         rowCount: sheet.properties.gridProperties?.rowCount,
         columnCount: sheet.properties.gridProperties?.columnCount,
+        frozenRows: sheet.properties.gridProperties?.frozenRowCount,
       })),
     };
 
@@ -134,10 +167,14 @@ export class SheetsMCPServer extends HostedMCPServer {
   }
 
   private async getSheetData(args: Record<string, unknown>): Promise<MCPToolCallResult> {
-    const { spreadsheetId, range } = parseToolArgs(sheetsTools.getSheetData.input, args);
+    const { spreadsheetId, range, render } = parseToolArgs(sheetsTools.getSheetData.input, args);
 
+    const params = new URLSearchParams({
+      valueRenderOption: VALUE_RENDER_OPTIONS[render],
+      dateTimeRenderOption: 'FORMATTED_STRING',
+    });
     const response = await fetch(
-      `${SHEETS_API_BASE}/${spreadsheetId}/values/${encodeURIComponent(range)}`,
+      `${SHEETS_API_BASE}/${spreadsheetId}/values/${encodeURIComponent(range)}?${params.toString()}`,
       {
         headers: {
           'Authorization': `Bearer ${this.accessToken}`,
@@ -258,7 +295,13 @@ export class SheetsMCPServer extends HostedMCPServer {
   }
 
   private async appendRows(args: Record<string, unknown>): Promise<MCPToolCallResult> {
-    const { spreadsheetId, sheetName = 'Sheet1', rows, title: titleArg } = parseToolArgs(sheetsTools.appendRows.input, args);
+    const {
+      spreadsheetId,
+      sheetName = 'Sheet1',
+      rows,
+      title: titleArg,
+      literal,
+    } = parseToolArgs(sheetsTools.appendRows.input, args);
     let title = titleArg;
 
     // Fetch title from spreadsheet metadata if not provided
@@ -278,9 +321,10 @@ export class SheetsMCPServer extends HostedMCPServer {
     }
 
     const range = `${sheetName}!A:A`; // Append to first column, API will extend
+    const valueInputOption = literal ? 'RAW' : 'USER_ENTERED';
 
     const response = await fetch(
-      `${SHEETS_API_BASE}/${spreadsheetId}/values/${encodeURIComponent(range)}:append?valueInputOption=USER_ENTERED&insertDataOption=INSERT_ROWS`,
+      `${SHEETS_API_BASE}/${spreadsheetId}/values/${encodeURIComponent(range)}:append?valueInputOption=${valueInputOption}&insertDataOption=INSERT_ROWS`,
       {
         method: 'POST',
         headers: {
@@ -321,7 +365,7 @@ export class SheetsMCPServer extends HostedMCPServer {
   }
 
   private async updateCells(args: Record<string, unknown>): Promise<MCPToolCallResult> {
-    const { spreadsheetId, range, values, title: titleArg } = parseToolArgs(sheetsTools.updateCells.input, args);
+    const { spreadsheetId, range, values, title: titleArg, literal } = parseToolArgs(sheetsTools.updateCells.input, args);
     let title = titleArg;
 
     // Fetch title from spreadsheet metadata if not provided
@@ -340,8 +384,9 @@ export class SheetsMCPServer extends HostedMCPServer {
       }
     }
 
+    const valueInputOption = literal ? 'RAW' : 'USER_ENTERED';
     const response = await fetch(
-      `${SHEETS_API_BASE}/${spreadsheetId}/values/${encodeURIComponent(range)}?valueInputOption=USER_ENTERED`,
+      `${SHEETS_API_BASE}/${spreadsheetId}/values/${encodeURIComponent(range)}?valueInputOption=${valueInputOption}`,
       {
         method: 'PUT',
         headers: {
@@ -452,7 +497,263 @@ export class SheetsMCPServer extends HostedMCPServer {
     };
   }
 
-  private async writeValues(spreadsheetId: string, sheetName: string, values: string[][]): Promise<void> {
+  private async writeFormulas(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { spreadsheetId, formulas } = parseToolArgs(sheetsTools.writeFormulas.input, args);
+
+    const response = await fetch(
+      `${SHEETS_API_BASE}/${spreadsheetId}/values:batchUpdate`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          valueInputOption: 'USER_ENTERED',
+          data: formulas.map(({ cell, formula }) => ({ range: cell, values: [[formula]] })),
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Google Sheets API error: ${response.status} - ${error}`);
+    }
+
+    const data = await response.json() as { totalUpdatedCells?: number };
+
+    const url = `https://docs.google.com/spreadsheets/d/${spreadsheetId}/edit`;
+    const result = {
+      success: true,
+      spreadsheetId,
+      url,
+      updatedCells: data.totalUpdatedCells || 0,
+    };
+
+    return {
+      content: [{ type: 'text', text: `Wrote ${result.updatedCells} formulas successfully: ${url}` }],
+      structuredContent: result,
+    };
+  }
+
+  private async addSheet(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { spreadsheetId, sheetName, data } = parseToolArgs(sheetsTools.addSheet.input, args);
+
+    const [reply] = await this.batchUpdate(spreadsheetId, [
+      { addSheet: { properties: { title: sheetName } } },
+    ]) as Array<{ addSheet: { properties: { sheetId: number } } }>;
+
+    if (data && data.length > 0) {
+      await this.writeValues(spreadsheetId, sheetName, data);
+    }
+
+    return this.sheetChangeResult(spreadsheetId, reply.addSheet.properties.sheetId, `Sheet "${sheetName}" added`);
+  }
+
+  private async renameSheet(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { spreadsheetId, sheetName, newName } = parseToolArgs(sheetsTools.renameSheet.input, args);
+
+    const sheetId = this.findSheetId(await this.getMetadata(spreadsheetId), sheetName);
+    await this.batchUpdate(spreadsheetId, [{
+      updateSheetProperties: {
+        properties: { sheetId, title: newName },
+        fields: 'title',
+      },
+    }]);
+
+    return this.sheetChangeResult(spreadsheetId, sheetId, `Sheet "${sheetName}" renamed to "${newName}"`);
+  }
+
+  private async deleteSheet(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { spreadsheetId, sheetName } = parseToolArgs(sheetsTools.deleteSheet.input, args);
+
+    const sheetId = this.findSheetId(await this.getMetadata(spreadsheetId), sheetName);
+    await this.batchUpdate(spreadsheetId, [{ deleteSheet: { sheetId } }]);
+
+    return this.sheetChangeResult(spreadsheetId, sheetId, `Sheet "${sheetName}" deleted`);
+  }
+
+  private async formatCells(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { spreadsheetId, range, ...format } = parseToolArgs(sheetsTools.formatCells.input, args);
+
+    const { userEnteredFormat, fields } = cellFormat(format);
+    if (fields.length === 0) {
+      throw new Error('No formatting given - set at least one option such as bold or numberFormat');
+    }
+
+    const gridRange = this.resolveRange(await this.getMetadata(spreadsheetId), range);
+    await this.batchUpdate(spreadsheetId, [{
+      repeatCell: {
+        range: gridRange,
+        cell: { userEnteredFormat },
+        fields: fields.join(','),
+      },
+    }]);
+
+    return this.sheetChangeResult(spreadsheetId, gridRange.sheetId, `Formatted ${range}`);
+  }
+
+  private async freezeRows(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { spreadsheetId, sheetName, rows, columns } = parseToolArgs(sheetsTools.freezeRows.input, args);
+
+    const sheetId = this.findSheetId(await this.getMetadata(spreadsheetId), sheetName);
+    const fields = ['gridProperties.frozenRowCount'];
+    if (columns !== undefined) fields.push('gridProperties.frozenColumnCount');
+
+    await this.batchUpdate(spreadsheetId, [{
+      updateSheetProperties: {
+        properties: {
+          sheetId,
+          gridProperties: { frozenRowCount: rows, ...(columns !== undefined && { frozenColumnCount: columns }) },
+        },
+        fields: fields.join(','),
+      },
+    }]);
+
+    return this.sheetChangeResult(spreadsheetId, sheetId, `Froze ${rows} row${rows === 1 ? '' : 's'} on "${sheetName}"`);
+  }
+
+  private async addChart(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const { spreadsheetId, chartType, dataRange, chartTitle, anchorCell } = parseToolArgs(sheetsTools.addChart.input, args);
+
+    const metadata = await this.getMetadata(spreadsheetId);
+    const source = this.resolveRange(metadata, dataRange);
+    const anchor = anchorCell ? this.resolveRange(metadata, anchorCell) : null;
+    const position = anchor
+      ? {
+        overlayPosition: {
+          anchorCell: {
+            sheetId: anchor.sheetId,
+            rowIndex: anchor.startRowIndex ?? 0,
+            columnIndex: anchor.startColumnIndex ?? 0,
+          },
+        },
+      }
+      : { newSheet: true };
+
+    const [reply] = await this.batchUpdate(spreadsheetId, [{
+      addChart: { chart: { spec: chartSpec(chartType, source, chartTitle), position } },
+    }]) as Array<{ addChart: { chart: { chartId: number; position?: { sheetId?: number } } } }>;
+
+    const chart = reply.addChart.chart;
+    return this.sheetChangeResult(
+      spreadsheetId,
+      chart.position?.sheetId ?? anchor?.sheetId ?? source.sheetId,
+      `Added ${chartType} chart`,
+      { chartId: chart.chartId }
+    );
+  }
+
+  private async addPivotTable(args: Record<string, unknown>): Promise<MCPToolCallResult> {
+    const {
+      spreadsheetId,
+      sourceRange,
+      rows,
+      values,
+      sheetName = 'Pivot table',
+    } = parseToolArgs(sheetsTools.addPivotTable.input, args);
+
+    // Build the spec first so a bad column fails before the new sheet exists
+    const spec = pivotTableSpec(this.resolveRange(await this.getMetadata(spreadsheetId), sourceRange), rows, values);
+
+    const [reply] = await this.batchUpdate(spreadsheetId, [
+      { addSheet: { properties: { title: sheetName } } },
+    ]) as Array<{ addSheet: { properties: { sheetId: number } } }>;
+    const sheetId = reply.addSheet.properties.sheetId;
+
+    await this.batchUpdate(spreadsheetId, [{
+      updateCells: {
+        start: { sheetId, rowIndex: 0, columnIndex: 0 },
+        rows: [{ values: [{ pivotTable: spec }] }],
+        fields: 'pivotTable',
+      },
+    }]);
+
+    return this.sheetChangeResult(spreadsheetId, sheetId, `Pivot table added on "${sheetName}"`);
+  }
+
+  private async getMetadata(spreadsheetId: string): Promise<SpreadsheetMetadata> {
+    const response = await fetch(
+      `${SHEETS_API_BASE}/${spreadsheetId}?fields=spreadsheetId,properties.title,sheets.properties,spreadsheetUrl`,
+      {
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Google Sheets API error: ${response.status}`);
+    }
+
+    return response.json() as Promise<SpreadsheetMetadata>;
+  }
+
+  private findSheetId(metadata: SpreadsheetMetadata, sheetName: string): number {
+    const sheet = metadata.sheets.find((s) => s.properties.title === sheetName);
+    if (!sheet) {
+      const names = metadata.sheets.map((s) => `"${s.properties.title}"`).join(', ');
+      throw new Error(`Sheet "${sheetName}" not found. Sheets in this spreadsheet: ${names}`);
+    }
+    return sheet.properties.sheetId;
+  }
+
+  /** A1 range to GridRange; ranges without a sheet name are on the first sheet */
+  private resolveRange(metadata: SpreadsheetMetadata, range: string): GridRange {
+    const parsed = parseA1Range(range);
+    if (!parsed) {
+      throw new Error(`"${range}" is not an A1 range - use e.g. "Sheet1!A1:D10"`);
+    }
+    const sheetId = parsed.sheetName !== undefined
+      ? this.findSheetId(metadata, parsed.sheetName)
+      : metadata.sheets[0].properties.sheetId;
+    return toGridRange(parsed, sheetId);
+  }
+
+  private async batchUpdate(spreadsheetId: string, requests: unknown[]): Promise<unknown[]> {
+    const response = await fetch(
+      `${SHEETS_API_BASE}/${spreadsheetId}:batchUpdate`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ requests }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Google Sheets API error: ${response.status} - ${error}`);
+    }
+
+    const data = await response.json() as { replies?: unknown[] };
+    return data.replies || [];
+  }
+
+  private sheetChangeResult(
+    spreadsheetId: string,
+    sheetId: number,
+    message: string,
+    extra: Record<string, unknown> = {}
+  ): MCPToolCallResult {
+    const url = `https://docs.google.com/spreadsheets/d/${spreadsheetId}/edit#gid=${sheetId}`;
+    const result = {
+      success: true,
+      spreadsheetId,
+      url,
+      sheetId,
+      ...extra,
+    };
+
+    return {
+      content: [{ type: 'text', text: `${message}: ${url}` }],
+      structuredContent: result,
+    };
+  }
+
+  private async writeValues(spreadsheetId: string, sheetName: string, values: CellValue[][]): Promise<void> {
     const response = await fetch(
       `${SHEETS_API_BASE}/${spreadsheetId}/values/${encodeURIComponent(sheetName)}?valueInputOption=USER_ENTERED`,
       {
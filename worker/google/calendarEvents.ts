@@ -0,0 +1,110 @@
+/**
+ * Google Calendar event rules
+ *
+ * Time parsing, conflict detection and event-link decoding for the Calendar
+ * MCP. Agents pass times as ISO 8601 strings - a date alone means an all-day
+ * event - and the approval view shows which existing events a proposed time
+ * would collide with.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+/** An event start or end in the Calendar API's shape */
+export interface EventTime {
+  date?: string;
+  dateTime?: string;
+  timeZone?: string;
+}
+
+/** A block of time that is already taken */
+export interface BusyInterval {
+  start: string;
+  end: string;
+  /** Calendar or attendee the block belongs to */
+  calendar?: string;
+  /** Event title, when the calendar is readable */
+  title?: string;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isAllDay(value: string): boolean {
+  return DATE_ONLY.test(value);
+}
+
+/** Convert an ISO date or date-time into the API's start/end shape */
+export function toEventTime(value: string, timeZone?: string): EventTime {
+  if (isAllDay(value)) return { date: value };
+  return timeZone ? { dateTime: value, timeZone } : { dateTime: value };
+}
+
+/** The ISO string of an API start/end, whichever form it uses */
+export function fromEventTime(time: EventTime | undefined): string {
+  return time?.dateTime || time?.date || '';
+}
+
+/** Error for an unusable start/end pair, or null */
+export function eventTimeError(start: string, end: string): string | null {
+  const startMs = Date.parse(start);
+  const endMs = Date.parse(end);
+  if (Number.isNaN(startMs)) return `Invalid start time: ${start}`;
+  if (Number.isNaN(endMs)) return `Invalid end time: ${end}`;
+  if (isAllDay(start) !== isAllDay(end)) return 'Start and end must both be dates (all-day) or both be date-times';
+  if (endMs <= startMs) return 'End time must be after start time';
+  return null;
+}
+
+/** Whether two half-open intervals [start, end) overlap */
+export function overlaps(a: { start: string; end: string }, b: { start: string; end: string }): boolean {
+  return Date.parse(a.start) < Date.parse(b.end) && Date.parse(b.start) < Date.parse(a.end);
+}
+
+/**
+ * Busy intervals that collide with the proposed time. The event being
+ * updated is skipped so moving an event never conflicts with itself.
+ */
+export function findConflicts(
+  proposed: { start: string; end: string },
+  busy: Array<BusyInterval & { eventId?: string }>,
+  ignoreEventId?: string
+): BusyInterval[] {
+  return busy
+    .filter((interval) => !ignoreEventId || interval.eventId !== ignoreEventId)
+    .filter((interval) => overlaps(proposed, interval))
+    .map(({ start, end, calendar, title }) => ({
+      start,
+      end,
+      ...(calendar && { calendar }),
+      ...(title && { title }),
+    }));
+}
+
+// Calendar links abbreviate well-known calendar domains
+const CALENDAR_DOMAIN_SUFFIXES: Record<string, string> = {
+  '@m': '@gmail.com',
+  '@g': '@group.calendar.google.com',
+  '@v': '@group.v.calendar.google.com',
+};
+
+/**
+ * Decode the `eid` of a calendar event link. It is base64url of
+ * "<eventId> <calendarId>", with common calendar domains abbreviated.
+ */
+export function decodeEventLinkId(eid: string): { eventId: string; calendarId: string } | null {
+  let decoded: string;
+  try {
+    const base64 = eid.replace(/-/g, '+').replace(/_/g, '/');
+    decoded = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  } catch {
+    return null;
+  }
+
+  const [eventId, calendar] = decoded.split(' ');
+  if (!eventId || !calendar) return null;
+
+  const suffix = Object.keys(CALENDAR_DOMAIN_SUFFIXES).find((s) => calendar.endsWith(s));
+  const calendarId = suffix
+    ? calendar.slice(0, -suffix.length) + CALENDAR_DOMAIN_SUFFIXES[suffix]
+    : calendar;
+  return { eventId, calendarId };
+}
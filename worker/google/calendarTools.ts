@@ -0,0 +1,177 @@
+/**
+ * Google Calendar MCP Tool Definitions
+ *
+ * Single source of truth for Calendar tool schemas using Zod.
+ * Used for both JSON Schema generation (getTools) and runtime validation (callTool).
+ */
+
+import { z } from 'zod';
+import { defineTools } from '../utils/zodTools';
+
+// ============================================================================
+// Calendar-specific Schema Components
+// ============================================================================
+
+const calendarId = z.string().min(1).max(500).default('primary')
+  .describe('Calendar ID (default "primary", the user\'s main calendar)');
+
+const eventId = z.string().min(1).max(1024).describe('Event ID');
+
+const isoTime = z.string().min(10).max(40);
+
+const attendees = z.array(z.string().email()).max(100)
+  .describe('Attendee email addresses');
+
+const sendUpdates = z.enum(['all', 'externalOnly', 'none']).default('all')
+  .describe('Who gets an email about the change (default "all")');
+
+// ============================================================================
+// Output Schemas
+// ============================================================================
+
+const eventOutput = z.object({
+  id: z.string().describe('Event ID'),
+  title: z.string().describe('Event title'),
+  start: z.string().describe('Start (ISO date-time, or date for all-day events)'),
+  end: z.string().describe('End (ISO date-time, or date for all-day events)'),
+  location: z.string().optional().describe('Location'),
+  description: z.string().optional().describe('Description'),
+  organizer: z.string().optional().describe('Organizer email'),
+  attendees: z.array(z.object({
+    email: z.string(),
+    responseStatus: z.string().optional(),
+  })).optional().describe('Attendees and their responses'),
+  status: z.string().optional().describe('confirmed, tentative or cancelled'),
+  url: z.string().optional().describe('Link to the event in Google Calendar'),
+  videoLink: z.string().optional().describe('Google Meet link'),
+});
+
+const busyOutput = z.object({
+  start: z.string().describe('Busy from'),
+  end: z.string().describe('Busy until'),
+  calendar: z.string().optional().describe('Calendar or attendee that is busy'),
+  title: z.string().optional().describe('Title of the conflicting event, when visible'),
+});
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export const calendarTools = defineTools({
+  listCalendars: {
+    description: 'List the calendars the user can see, with their IDs',
+    input: z.object({}),
+    output: z.array(z.object({
+      id: z.string().describe('Calendar ID'),
+      title: z.string().describe('Calendar name'),
+      primary: z.boolean().describe('Whether this is the user\'s main calendar'),
+      accessRole: z.string().describe('owner, writer, reader or freeBusyReader'),
+    })).describe('Array of calendars'),
+    readOnly: true,
+  },
+
+  listEvents: {
+    description: 'List events in a time range, ordered by start time',
+    input: z.object({
+      calendarId,
+      timeMin: isoTime.optional().describe('Start of the range (ISO 8601, default now)'),
+      timeMax: isoTime.optional().describe('End of the range (ISO 8601)'),
+      query: z.string().max(500).optional().describe('Free-text search in titles, descriptions and attendees'),
+      maxResults: z.coerce.number().int().min(1).max(250).default(25)
+        .describe('Maximum number of events to return (default 25)'),
+    }),
+    output: z.array(eventOutput).describe('Array of events'),
+    readOnly: true,
+  },
+
+  getEvent: {
+    description: 'Get the details of a calendar event',
+    input: z.object({
+      eventId,
+      calendarId,
+    }),
+    output: eventOutput,
+    readOnly: true,
+  },
+
+  checkFreeBusy: {
+    description: 'Get busy times for the user and other people in a time range',
+    input: z.object({
+      timeMin: isoTime.describe('Start of the range (ISO 8601)'),
+      timeMax: isoTime.describe('End of the range (ISO 8601)'),
+      calendars: z.array(z.string().min(1).max(500)).max(50).default(['primary'])
+        .describe('Calendar IDs or email addresses to check (default the user\'s primary calendar)'),
+    }),
+    output: z.object({
+      calendars: z.record(z.string(), z.array(busyOutput)).describe('Busy intervals per calendar'),
+    }),
+    readOnly: true,
+  },
+
+  findConflicts: {
+    description: 'Find existing events that overlap a proposed time, on the user\'s calendar and the attendees\'',
+    input: z.object({
+      start: isoTime.describe('Proposed start (ISO 8601 date-time, or date for all-day)'),
+      end: isoTime.describe('Proposed end (ISO 8601 date-time, or date for all-day)'),
+      attendees: attendees.optional(),
+      ignoreEventId: eventId.optional().describe('Event being moved, which should not conflict with itself'),
+    }),
+    output: z.object({
+      conflicts: z.array(busyOutput).describe('Overlapping busy intervals'),
+    }),
+    readOnly: true,
+  },
+
+  createEvent: {
+    description: 'Create a calendar event and invite attendees',
+    input: z.object({
+      title: z.string().min(1).max(1000).describe('Event title'),
+      start: isoTime.describe('Start (ISO 8601 date-time with offset, or YYYY-MM-DD for all-day)'),
+      end: isoTime.describe('End (ISO 8601 date-time with offset, or YYYY-MM-DD for all-day, exclusive)'),
+      timeZone: z.string().max(100).optional().describe('IANA time zone (e.g., "Europe/Berlin")'),
+      description: z.string().max(8000).optional().describe('Event description'),
+      location: z.string().max(1000).optional().describe('Location or address'),
+      attendees: attendees.optional(),
+      addVideoCall: z.boolean().default(false).describe('Attach a Google Meet link'),
+      calendarId,
+      sendUpdates,
+    }),
+    output: eventOutput,
+    approvalRequiredFields: ['title', 'start', 'end', 'attendees'],
+    mutating: true,
+  },
+
+  updateEvent: {
+    description: 'Change an existing event. Only the fields given are changed; attendees replaces the whole list',
+    input: z.object({
+      eventId,
+      calendarId,
+      title: z.string().min(1).max(1000).optional().describe('New title'),
+      start: isoTime.optional().describe('New start (ISO 8601 date-time, or date for all-day)'),
+      end: isoTime.optional().describe('New end (ISO 8601 date-time, or date for all-day)'),
+      timeZone: z.string().max(100).optional().describe('IANA time zone'),
+      description: z.string().max(8000).optional().describe('New description'),
+      location: z.string().max(1000).optional().describe('New location'),
+      attendees: attendees.optional(),
+      sendUpdates,
+    }),
+    output: eventOutput,
+    approvalRequiredFields: ['eventId', 'title', 'start', 'end', 'attendees'],
+    mutating: true,
+  },
+
+  respondToEvent: {
+    description: 'Accept, decline or tentatively accept an invitation',
+    input: z.object({
+      eventId,
+      calendarId,
+      response: z.enum(['accepted', 'declined', 'tentative']).describe('Your response'),
+      comment: z.string().max(1000).optional().describe('Note to the organizer'),
+    }),
+    output: eventOutput,
+    approvalRequiredFields: ['eventId', 'response'],
+    mutating: true,
+  },
+});
+
+export type CalendarToolName = keyof typeof calendarTools;
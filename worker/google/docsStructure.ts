@@ -0,0 +1,147 @@
+/**
+ * Google Docs document structure
+ *
+ * Paragraph and section lookup for the range-level Docs tools. A section is
+ * a heading plus everything under it up to the next heading of the same or
+ * a higher level, so "update the Rollout section" also covers its
+ * subsections. Indices are the Docs API's (UTF-16 code units, body starts
+ * at 1), which match JavaScript string offsets within a paragraph.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+/** A structural element of a document body, as returned by documents.get */
+export interface DocBodyElement {
+  startIndex?: number;
+  endIndex: number;
+  paragraph?: {
+    elements: Array<{
+      textRun?: {
+        content: string;
+      };
+    }>;
+    paragraphStyle?: {
+      namedStyleType?: string;
+    };
+  };
+}
+
+export interface DocParagraph {
+  startIndex: number;
+  endIndex: number;
+  /** Text including the trailing newline */
+  text: string;
+  /** Heading level 1-6, or 0 for body text */
+  headingLevel: number;
+}
+
+export interface DocSection {
+  heading: string;
+  level: number;
+  headingStartIndex: number;
+  /** First index after the heading paragraph */
+  bodyStartIndex: number;
+  /** First index of the next section (or the end of the document) */
+  bodyEndIndex: number;
+}
+
+function headingLevel(namedStyleType: string | undefined): number {
+  const match = namedStyleType?.match(/^HEADING_([1-6])$/);
+  return match ? Number(match[1]) : 0;
+}
+
+/** Top-level paragraphs of a document body; tables and section breaks are skipped */
+export function docParagraphs(content: DocBodyElement[] | undefined): DocParagraph[] {
+  return (content || [])
+    .filter((element) => element.paragraph)
+    .map((element) => ({
+      startIndex: element.startIndex ?? 0,
+      endIndex: element.endIndex,
+      text: element.paragraph!.elements.map((e) => e.textRun?.content || '').join(''),
+      headingLevel: headingLevel(element.paragraph!.paragraphStyle?.namedStyleType),
+    }));
+}
+
+/** Document text with headings marked up as Markdown ("## Rollout") */
+export function documentText(paragraphs: DocParagraph[]): string {
+  return paragraphs
+    .map((p) => (p.headingLevel > 0 ? `${'#'.repeat(p.headingLevel)} ${p.text}` : p.text))
+    .join('');
+}
+
+/** The last index of the body (one past its final newline) */
+export function documentEndIndex(content: DocBodyElement[] | undefined): number {
+  return content?.[content.length - 1]?.endIndex || 1;
+}
+
+export function findSections(paragraphs: DocParagraph[], documentEnd: number): DocSection[] {
+  const headings = paragraphs.filter((p) => p.headingLevel > 0);
+  return headings.map((heading, i) => {
+    const next = headings.slice(i + 1).find((h) => h.headingLevel <= heading.headingLevel);
+    return {
+      heading: heading.text.trim(),
+      level: heading.headingLevel,
+      headingStartIndex: heading.startIndex,
+      bodyStartIndex: heading.endIndex,
+      bodyEndIndex: next ? next.startIndex : documentEnd,
+    };
+  });
+}
+
+function normalizeHeading(heading: string): string {
+  return heading.replace(/^#+\s*/, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Find a section by its heading text (case-insensitive, "## " prefix
+ * optional). Missing and ambiguous headings are errors that list what the
+ * document does have.
+ */
+export function resolveSection(sections: DocSection[], heading: string): DocSection | { error: string } {
+  const wanted = normalizeHeading(heading);
+  const matches = sections.filter((s) => normalizeHeading(s.heading) === wanted);
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) {
+    return { error: `${matches.length} sections are headed "${heading}" - rename one or edit with replaceText instead` };
+  }
+  const available = sections.map((s) => `"${s.heading}"`).join(', ');
+  return {
+    error: available
+      ? `No section headed "${heading}". Headings in this document: ${available}`
+      : `No section headed "${heading}" - this document has no headings`,
+  };
+}
+
+/**
+ * Where to insert new paragraphs so they start at `index`.
+ *
+ * New text is typed into an empty paragraph created for it, so it never
+ * inherits a heading style from its neighbour. At the end of the document
+ * the empty paragraph has to come after the final newline, which cannot be
+ * moved. `emptyParagraphAt` says the paragraph at `index` is already empty
+ * (left behind after clearing a section at the end of the document).
+ */
+export function paragraphInsertion(
+  index: number,
+  documentEnd: number,
+  emptyParagraphAt = false
+): { newlineIndex?: number; contentIndex: number } {
+  if (emptyParagraphAt) return { contentIndex: index };
+  if (index >= documentEnd) return { newlineIndex: documentEnd - 1, contentIndex: documentEnd };
+  return { newlineIndex: index, contentIndex: index };
+}
+
+/** Range to delete to clear a section's body; the document's final newline always stays */
+export function sectionDeleteRange(
+  section: DocSection,
+  documentEnd: number
+): { startIndex: number; endIndex: number } | null {
+  const endIndex = Math.min(section.bodyEndIndex, documentEnd - 1);
+  return endIndex > section.bodyStartIndex ? { startIndex: section.bodyStartIndex, endIndex } : null;
+}
+
+/** Whether the text appears within one paragraph of the document */
+export function containsText(paragraphs: DocParagraph[], text: string, matchCase = true): boolean {
+  const needle = matchCase ? text : text.toLowerCase();
+  return paragraphs.some((p) => (matchCase ? p.text : p.text.toLowerCase()).includes(needle));
+}
@@ -37,17 +37,38 @@ const updateDocumentOutput = z.object({
   url: z.string().optional().describe('URL to view/edit document'),
 });
 
+const rangeEditOutput = z.object({
+  success: z.boolean().describe('Whether the edit succeeded'),
+  documentId: z.string().describe('Document ID'),
+  title: z.string().optional().describe('Document title'),
+  url: z.string().optional().describe('URL to view/edit document'),
+  occurrencesChanged: z.number().optional().describe('Number of replacements made (replaceText)'),
+});
+
+const commentOutput = z.object({
+  commentId: z.string().describe('Comment ID'),
+  documentId: z.string().describe('Document ID'),
+  url: z.string().optional().describe('URL to view/edit document'),
+});
+
+const markdownContent = z.string().min(1).max(100000)
+  .describe('Content to write. Supports markdown: # headings, **bold**, *italic*, `code`, [links](url), - bullets, 1. numbered lists');
+
+const heading = z.string().min(1).max(500)
+  .describe('Heading text of the section, as it appears in the document (case-insensitive, "## " prefix optional)');
+
 // ============================================================================
 // Tool Definitions
 // ============================================================================
 
 export const docsTools = defineTools({
   getDocument: {
-    description: 'Get the full content of a Google Doc',
+    description: 'Get the full content of a Google Doc. Headings are marked with # as in Markdown',
     input: z.object({
       documentId: commonSchemas.documentId.describe('The ID of the Google Doc (from the URL)'),
     }),
     output: documentDetailOutput,
+    readOnly: true,
   },
 
   listDocuments: {
@@ -59,6 +80,7 @@ export const docsTools = defineTools({
         .describe('Search query for document names'),
     }),
     output: z.array(documentListItemOutput).describe('Array of document summaries'),
+    readOnly: true,
   },
 
   createDocument: {
@@ -70,6 +92,7 @@ export const docsTools = defineTools({
     }),
     output: createDocumentOutput,
     approvalRequiredFields: ['title', 'content'],
+    mutating: true,
   },
 
   appendToDocument: {
@@ -80,6 +103,7 @@ export const docsTools = defineTools({
     }),
     output: updateDocumentOutput,
     approvalRequiredFields: ['documentId', 'title', 'currentContent', 'newContent'],
+    mutating: true,
   },
 
   searchDocuments: {
@@ -90,6 +114,7 @@ export const docsTools = defineTools({
         .describe('Maximum number of results (default 10)'),
     }),
     output: z.array(documentListItemOutput).describe('Array of matching documents'),
+    readOnly: true,
   },
 
   replaceDocumentContent: {
@@ -101,6 +126,90 @@ export const docsTools = defineTools({
     }),
     output: updateDocumentOutput,
     approvalRequiredFields: ['documentId', 'title', 'currentContent', 'newContent'],
+    mutating: true,
+  },
+
+  replaceText: {
+    description: 'Find and replace text throughout a Google Doc, keeping the formatting and comments around it',
+    input: z.object({
+      documentId: commonSchemas.documentId.describe('The ID of the Google Doc'),
+      find: z.string().min(1).max(5000).describe('Exact text to find (within a single paragraph)'),
+      replaceWith: z.string().max(5000).describe('Replacement text (plain text; empty to delete)'),
+      matchCase: z.boolean().default(true).describe('Match upper/lower case exactly (default true)'),
+    }),
+    output: rangeEditOutput,
+    approvalRequiredFields: ['documentId', 'title', 'currentContent', 'find'],
+    mutating: true,
+  },
+
+  insertAfterHeading: {
+    description: 'Insert content at the start of a section, directly below its heading. The rest of the document is untouched',
+    input: z.object({
+      documentId: commonSchemas.documentId.describe('The ID of the Google Doc'),
+      heading,
+      content: markdownContent,
+    }),
+    output: rangeEditOutput,
+    approvalRequiredFields: ['documentId', 'title', 'currentContent', 'heading', 'content'],
+    mutating: true,
+  },
+
+  updateSection: {
+    description: 'Replace the body of a section (everything under its heading, including subsections) and leave the rest of the document untouched',
+    input: z.object({
+      documentId: commonSchemas.documentId.describe('The ID of the Google Doc'),
+      heading,
+      content: markdownContent.describe('New body for the section, without the heading itself. Supports markdown'),
+    }),
+    output: rangeEditOutput,
+    approvalRequiredFields: ['documentId', 'title', 'currentContent', 'heading', 'content'],
+    mutating: true,
+  },
+
+  addComment: {
+    description: 'Add a comment to a Google Doc about a quoted piece of its text',
+    input: z.object({
+      documentId: commonSchemas.documentId.describe('The ID of the Google Doc'),
+      quote: z.string().min(1).max(2000).describe('Exact text from the document the comment is about'),
+      comment: z.string().min(1).max(5000).describe('Comment text'),
+    }),
+    output: commentOutput,
+    approvalRequiredFields: ['documentId', 'title', 'currentContent', 'quote', 'comment'],
+    mutating: true,
+  },
+
+  suggestEdit: {
+    description: 'Propose a change without making it: posts a comment on the text with the suggested replacement for the document owner to accept. Use instead of replaceText when the user wants to review edits in Docs',
+    input: z.object({
+      documentId: commonSchemas.documentId.describe('The ID of the Google Doc'),
+      find: z.string().min(1).max(2000).describe('Exact text the suggestion is about'),
+      replaceWith: z.string().max(5000).describe('Suggested replacement (empty to suggest deleting it)'),
+      reason: z.string().max(2000).optional().describe('Why the change is suggested'),
+    }),
+    output: commentOutput,
+    approvalRequiredFields: ['documentId', 'title', 'currentContent', 'find'],
+    mutating: true,
+  },
+
+  listComments: {
+    description: 'List the comments on a Google Doc with the text they refer to and their replies',
+    input: z.object({
+      documentId: commonSchemas.documentId.describe('The ID of the Google Doc'),
+      includeResolved: z.boolean().default(false).describe('Include resolved comments (default false)'),
+    }),
+    output: z.array(z.object({
+      commentId: z.string().describe('Comment ID'),
+      author: z.string().optional().describe('Author name'),
+      content: z.string().describe('Comment text'),
+      quote: z.string().optional().describe('Document text the comment refers to'),
+      resolved: z.boolean().optional().describe('Whether the comment is resolved'),
+      createdTime: z.string().optional().describe('When the comment was made'),
+      replies: z.array(z.object({
+        author: z.string().optional(),
+        content: z.string(),
+      })).optional().describe('Replies in order'),
+    })).describe('Array of comments'),
+    readOnly: true,
   },
 });
 
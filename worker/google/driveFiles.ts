@@ -0,0 +1,213 @@
+/**
+ * Google Drive file rules
+ *
+ * Search query building, export formats and sharing plans for the Drive
+ * MCP. Agents search by kind ("pdf", "spreadsheet") rather than MIME type,
+ * Google-native files have no content of their own and must be exported,
+ * and sharing is planned against the current permissions so the approval
+ * shows exactly who gains access.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+export const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+export const GOOGLE_DOC_MIME_TYPE = 'application/vnd.google-apps.document';
+export const GOOGLE_SHEET_MIME_TYPE = 'application/vnd.google-apps.spreadsheet';
+export const GOOGLE_SLIDES_MIME_TYPE = 'application/vnd.google-apps.presentation';
+export const GOOGLE_DRAWING_MIME_TYPE = 'application/vnd.google-apps.drawing';
+
+export type FileKind = 'document' | 'spreadsheet' | 'presentation' | 'pdf' | 'folder' | 'image' | 'video';
+
+export type ExportFormat = 'pdf' | 'docx' | 'xlsx' | 'csv' | 'pptx' | 'txt' | 'html' | 'md';
+
+export type ShareRole = 'reader' | 'commenter' | 'writer';
+
+export interface DrivePermission {
+  id: string;
+  type: 'user' | 'group' | 'domain' | 'anyone';
+  role: string;
+  emailAddress?: string;
+  domain?: string;
+  displayName?: string;
+}
+
+/** What sharing with a set of people would actually change */
+export interface SharingPlan {
+  /** People who have no access yet */
+  add: Array<{ email: string; role: ShareRole }>;
+  /** People whose access goes up (e.g. reader to writer) */
+  upgrade: Array<{ email: string; permissionId: string; from: string; role: ShareRole }>;
+  /** People who already have this access or more */
+  unchanged: string[];
+}
+
+// Drive query clauses for each kind; Office formats count alongside Google's own
+const KIND_QUERIES: Record<FileKind, string> = {
+  document: `(mimeType='${GOOGLE_DOC_MIME_TYPE}' or mimeType='application/vnd.openxmlformats-officedocument.wordprocessingml.document')`,
+  spreadsheet: `(mimeType='${GOOGLE_SHEET_MIME_TYPE}' or mimeType='application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')`,
+  presentation: `(mimeType='${GOOGLE_SLIDES_MIME_TYPE}' or mimeType='application/vnd.openxmlformats-officedocument.presentationml.presentation')`,
+  pdf: "mimeType='application/pdf'",
+  folder: `mimeType='${FOLDER_MIME_TYPE}'`,
+  image: "mimeType contains 'image/'",
+  video: "mimeType contains 'video/'",
+};
+
+const EXPORT_FORMATS: Record<ExportFormat, { mimeType: string; from: string[] }> = {
+  pdf: {
+    mimeType: 'application/pdf',
+    from: [GOOGLE_DOC_MIME_TYPE, GOOGLE_SHEET_MIME_TYPE, GOOGLE_SLIDES_MIME_TYPE, GOOGLE_DRAWING_MIME_TYPE],
+  },
+  docx: {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    from: [GOOGLE_DOC_MIME_TYPE],
+  },
+  xlsx: {
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    from: [GOOGLE_SHEET_MIME_TYPE],
+  },
+  csv: { mimeType: 'text/csv', from: [GOOGLE_SHEET_MIME_TYPE] },
+  pptx: {
+    mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    from: [GOOGLE_SLIDES_MIME_TYPE],
+  },
+  txt: { mimeType: 'text/plain', from: [GOOGLE_DOC_MIME_TYPE, GOOGLE_SLIDES_MIME_TYPE] },
+  html: { mimeType: 'text/html', from: [GOOGLE_DOC_MIME_TYPE] },
+  md: { mimeType: 'text/markdown', from: [GOOGLE_DOC_MIME_TYPE] },
+};
+
+const ROLE_RANK: Record<string, number> = {
+  reader: 1,
+  commenter: 2,
+  writer: 3,
+  fileOrganizer: 4,
+  organizer: 5,
+  owner: 6,
+};
+
+/** Escape a value for a single-quoted Drive query string */
+export function escapeQueryValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+/** Build a Drive `q` parameter; trashed files are always left out */
+export function buildSearchQuery(options: { query?: string; kind?: FileKind; folderId?: string }): string {
+  const clauses = ['trashed = false'];
+  if (options.query) {
+    const value = escapeQueryValue(options.query);
+    clauses.push(`(name contains '${value}' or fullText contains '${value}')`);
+  }
+  if (options.kind) {
+    clauses.push(KIND_QUERIES[options.kind]);
+  }
+  if (options.folderId) {
+    clauses.push(`'${escapeQueryValue(options.folderId)}' in parents`);
+  }
+  return clauses.join(' and ');
+}
+
+/** Whether a file is a Google Doc, Sheet, Slides or Drawing */
+export function isGoogleNative(mimeType: string): boolean {
+  return mimeType.startsWith('application/vnd.google-apps.') && mimeType !== FOLDER_MIME_TYPE;
+}
+
+/**
+ * Resolve an export request. Only Google-native files can be exported, and
+ * each format only applies to some of them (no DOCX from a spreadsheet).
+ */
+export function resolveExport(
+  sourceMimeType: string,
+  format: ExportFormat
+): { mimeType: string; extension: string } | { error: string } {
+  if (!isGoogleNative(sourceMimeType)) {
+    return { error: 'Only Google Docs, Sheets, Slides and Drawings can be exported - other files can be read or shared as they are' };
+  }
+  const target = EXPORT_FORMATS[format];
+  if (!target.from.includes(sourceMimeType)) {
+    const allowed = (Object.keys(EXPORT_FORMATS) as ExportFormat[])
+      .filter((f) => EXPORT_FORMATS[f].from.includes(sourceMimeType));
+    return { error: `Cannot export this file as ${format}. Available formats: ${allowed.join(', ')}` };
+  }
+  return { mimeType: target.mimeType, extension: format };
+}
+
+/** Export MIME type for reading a Google-native file as text, or null */
+export function textExportMimeType(sourceMimeType: string): string | null {
+  switch (sourceMimeType) {
+    case GOOGLE_DOC_MIME_TYPE:
+      return 'text/markdown';
+    case GOOGLE_SHEET_MIME_TYPE:
+      return 'text/csv';
+    case GOOGLE_SLIDES_MIME_TYPE:
+      return 'text/plain';
+    default:
+      return null;
+  }
+}
+
+/** Whether a stored file's bytes are text that can be returned as-is */
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') ||
+    ['application/json', 'application/xml', 'application/javascript', 'application/x-yaml'].includes(mimeType);
+}
+
+/** Cut text to a character budget, saying so when it was cut */
+export function truncateText(text: string, maxChars: number): { content: string; truncated: boolean } {
+  if (text.length <= maxChars) return { content: text, truncated: false };
+  return { content: text.slice(0, maxChars), truncated: true };
+}
+
+/** "Report" + "pdf" -> "Report.pdf", without doubling an existing extension */
+export function exportFilename(name: string, extension: string): string {
+  return name.toLowerCase().endsWith(`.${extension}`) ? name : `${name}.${extension}`;
+}
+
+/**
+ * Plan sharing a file with people at a role. Existing access is never
+ * lowered - someone who can already edit stays an editor.
+ */
+export function planSharing(permissions: DrivePermission[], emails: string[], role: ShareRole): SharingPlan {
+  const plan: SharingPlan = { add: [], upgrade: [], unchanged: [] };
+  const seen = new Set<string>();
+
+  for (const raw of emails) {
+    const email = raw.trim().toLowerCase();
+    if (!email || seen.has(email)) continue;
+    seen.add(email);
+
+    const existing = permissions.find((p) => p.type === 'user' && p.emailAddress?.toLowerCase() === email);
+    if (!existing) {
+      plan.add.push({ email, role });
+    } else if ((ROLE_RANK[existing.role] || 0) < ROLE_RANK[role]) {
+      plan.upgrade.push({ email, permissionId: existing.id, from: existing.role, role });
+    } else {
+      plan.unchanged.push(email);
+    }
+  }
+
+  return plan;
+}
+
+/** Permissions to delete to take access away from people (owners are kept) */
+export function permissionsToRemove(
+  permissions: DrivePermission[],
+  emails: string[],
+  anyoneWithLink: boolean
+): { remove: DrivePermission[]; notShared: string[]; owners: string[] } {
+  const remove: DrivePermission[] = [];
+  const notShared: string[] = [];
+  const owners: string[] = [];
+
+  for (const raw of emails) {
+    const email = raw.trim().toLowerCase();
+    const existing = permissions.find((p) => p.emailAddress?.toLowerCase() === email);
+    if (!existing) notShared.push(email);
+    else if (existing.role === 'owner') owners.push(email);
+    else if (!remove.includes(existing)) remove.push(existing);
+  }
+
+  if (anyoneWithLink) {
+    remove.push(...permissions.filter((p) => p.type === 'anyone'));
+  }
+
+  return { remove, notShared, owners };
+}
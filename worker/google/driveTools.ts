@@ -0,0 +1,173 @@
+/**
+ * Google Drive MCP Tool Definitions
+ *
+ * Single source of truth for Drive tool schemas using Zod.
+ * Used for both JSON Schema generation (getTools) and runtime validation (callTool).
+ */
+
+import { z } from 'zod';
+import { defineTools } from '../utils/zodTools';
+
+// ============================================================================
+// Drive-specific Schema Components
+// ============================================================================
+
+const fileId = z.string().min(1).max(200).describe('Drive file ID (from a Drive URL or search result)');
+
+const folderId = z.string().min(1).max(200).describe('Drive folder ID');
+
+const emails = z.array(z.string().email()).max(50).describe('Email addresses of people');
+
+const role = z.enum(['reader', 'commenter', 'writer']).default('reader')
+  .describe('Access level: reader (view), commenter or writer (edit). Default reader');
+
+// ============================================================================
+// Output Schemas
+// ============================================================================
+
+const fileOutput = z.object({
+  id: z.string().describe('File ID'),
+  name: z.string().describe('File name'),
+  mimeType: z.string().describe('MIME type'),
+  modifiedTime: z.string().optional().describe('Last modified time'),
+  owner: z.string().optional().describe('Owner email'),
+  size: z.string().optional().describe('Size in bytes (not set for Google Docs, Sheets and Slides)'),
+  parents: z.array(z.string()).optional().describe('IDs of the folders containing the file'),
+  url: z.string().optional().describe('Link to the file in Google Drive'),
+});
+
+const permissionOutput = z.object({
+  id: z.string().describe('Permission ID'),
+  type: z.string().describe('user, group, domain or anyone'),
+  role: z.string().describe('owner, writer, commenter or reader'),
+  email: z.string().optional().describe('Email of the user or group'),
+  domain: z.string().optional().describe('Domain, for domain-wide access'),
+  name: z.string().optional().describe('Display name'),
+});
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export const driveTools = defineTools({
+  searchFiles: {
+    description: 'Search files of every type in Google Drive by name or content, most recently modified first',
+    input: z.object({
+      query: z.string().max(500).optional().describe('Text to find in file names or content'),
+      kind: z.enum(['document', 'spreadsheet', 'presentation', 'pdf', 'folder', 'image', 'video']).optional()
+        .describe('Only return files of this kind'),
+      folderId: folderId.optional().describe('Only return files directly inside this folder'),
+      maxResults: z.coerce.number().int().min(1).max(100).default(20)
+        .describe('Maximum number of files to return (default 20)'),
+    }),
+    output: z.array(fileOutput).describe('Array of files'),
+    readOnly: true,
+  },
+
+  getFile: {
+    description: 'Get a file\'s metadata: name, type, owner, size and folders',
+    input: z.object({
+      fileId,
+    }),
+    output: fileOutput,
+    readOnly: true,
+  },
+
+  readFile: {
+    description: 'Read a file\'s content as text. Docs come back as Markdown, Sheets as CSV, and text is extracted from PDFs',
+    input: z.object({
+      fileId,
+      maxChars: z.coerce.number().int().min(100).max(200000).default(50000)
+        .describe('Maximum characters to return (default 50000)'),
+    }),
+    output: z.object({
+      id: z.string().describe('File ID'),
+      name: z.string().describe('File name'),
+      mimeType: z.string().describe('MIME type'),
+      content: z.string().describe('Text content'),
+      truncated: z.boolean().describe('Whether the content was cut at maxChars'),
+    }),
+    readOnly: true,
+  },
+
+  listPermissions: {
+    description: 'List who has access to a file',
+    input: z.object({
+      fileId,
+    }),
+    output: z.array(permissionOutput).describe('Array of permissions'),
+    readOnly: true,
+  },
+
+  createFolder: {
+    description: 'Create a folder',
+    input: z.object({
+      name: z.string().min(1).max(255).describe('Folder name'),
+      parentId: folderId.optional().describe('Folder to create it in (default My Drive)'),
+    }),
+    output: fileOutput,
+    approvalRequiredFields: ['name'],
+    mutating: true,
+  },
+
+  moveFile: {
+    description: 'Move a file or folder into another folder',
+    input: z.object({
+      fileId,
+      folderId: folderId.describe('Destination folder ID'),
+    }),
+    output: fileOutput,
+    approvalRequiredFields: ['fileId', 'folderId'],
+    mutating: true,
+  },
+
+  shareFile: {
+    description: 'Give people access to a file, or let anyone with the link open it. Never lowers existing access',
+    input: z.object({
+      fileId,
+      emails: emails.optional(),
+      role,
+      anyoneWithLink: z.boolean().default(false).describe('Also let anyone with the link open the file at this role'),
+      notify: z.boolean().default(true).describe('Email the people being added (default true)'),
+      message: z.string().max(2000).optional().describe('Message for the notification email'),
+    }),
+    output: z.object({
+      added: z.array(z.string()).describe('People who gained access'),
+      upgraded: z.array(z.string()).describe('People whose access was raised'),
+      unchanged: z.array(z.string()).describe('People who already had this access'),
+      anyoneWithLink: z.boolean().describe('Whether link sharing was turned on'),
+    }),
+    approvalRequiredFields: ['fileId', 'emails', 'role', 'anyoneWithLink'],
+    mutating: true,
+  },
+
+  unshareFile: {
+    description: 'Remove people\'s access to a file, or turn off link sharing',
+    input: z.object({
+      fileId,
+      emails: emails.optional(),
+      anyoneWithLink: z.boolean().default(false).describe('Turn off access for anyone with the link'),
+    }),
+    output: z.object({
+      removed: z.array(z.string()).describe('People or links that lost access'),
+      notShared: z.array(z.string()).describe('People who had no access to begin with'),
+    }),
+    approvalRequiredFields: ['fileId', 'emails', 'anyoneWithLink'],
+    mutating: true,
+  },
+
+  exportFile: {
+    description: 'Export a Google Doc, Sheet or Slides file (e.g. as PDF or DOCX) and save the export to Drive',
+    input: z.object({
+      fileId,
+      format: z.enum(['pdf', 'docx', 'xlsx', 'csv', 'pptx', 'txt', 'html', 'md']).describe('Export format'),
+      folderId: folderId.optional().describe('Folder to save the export in (default next to the original)'),
+      name: z.string().min(1).max(255).optional().describe('Name for the exported file (default original name + extension)'),
+    }),
+    output: fileOutput,
+    approvalRequiredFields: ['fileId', 'format'],
+    mutating: true,
+  },
+});
+
+export type DriveToolName = keyof typeof driveTools;
@@ -0,0 +1,116 @@
+/**
+ * Gmail mailbox rules
+ *
+ * Label resolution and filter building for the mailbox management tools.
+ * Agents refer to labels by name as often as by ID ("Newsletters" rather
+ * than "Label_42"), and archive/read/star are all label changes underneath
+ * (INBOX, UNREAD, STARRED).
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+export interface GmailLabel {
+  id: string;
+  name: string;
+  type: string;
+  messagesTotal?: number;
+  messagesUnread?: number;
+}
+
+/** A label change applied to a set of messages and/or threads */
+export interface LabelChange {
+  addLabelIds: string[];
+  removeLabelIds: string[];
+}
+
+export interface FilterInput {
+  from?: string;
+  to?: string;
+  subject?: string;
+  query?: string;
+  hasAttachment?: boolean;
+  archive?: boolean;
+  markAsRead?: boolean;
+  star?: boolean;
+}
+
+export interface GmailFilter {
+  criteria: Record<string, string | boolean>;
+  action: LabelChange;
+}
+
+/** batchModify accepts at most 1000 IDs per request */
+export const BATCH_MODIFY_LIMIT = 1000;
+
+/**
+ * Resolve label references to IDs. A reference matches a label ID exactly or
+ * a label name case-insensitively ("inbox" finds INBOX).
+ */
+export function resolveLabelIds(
+  labels: GmailLabel[],
+  refs: string[] | undefined
+): { ids: string[]; unknown: string[] } {
+  const ids: string[] = [];
+  const unknown: string[] = [];
+  for (const ref of refs || []) {
+    const label = labels.find((l) => l.id === ref) ??
+      labels.find((l) => l.name.toLowerCase() === ref.trim().toLowerCase());
+    if (!label) unknown.push(ref);
+    else if (!ids.includes(label.id)) ids.push(label.id);
+  }
+  return { ids, unknown };
+}
+
+/** Error for a bulk action with nothing to act on, or null */
+export function bulkTargetError(messageIds: string[] | undefined, threadIds: string[] | undefined): string | null {
+  return (messageIds?.length || 0) + (threadIds?.length || 0) === 0
+    ? 'Pass at least one messageId or threadId'
+    : null;
+}
+
+/** "3 messages and 1 thread" */
+export function describeTargets(messages: number, threads: number): string {
+  const plural = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+  return [
+    ...(messages > 0 ? [plural(messages, 'message')] : []),
+    ...(threads > 0 ? [plural(threads, 'thread')] : []),
+  ].join(' and ') || 'nothing';
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/** Error for a filter that matches nothing or does nothing, or null */
+export function filterError(input: FilterInput, addLabelIds: string[]): string | null {
+  const hasCriteria = Boolean(input.from || input.to || input.subject || input.query || input.hasAttachment);
+  if (!hasCriteria) return 'A filter needs at least one of from, to, subject, query or hasAttachment';
+  const hasAction = addLabelIds.length > 0 || input.archive || input.markAsRead || input.star;
+  if (!hasAction) return 'A filter needs at least one action: addLabels, archive, markAsRead or star';
+  return null;
+}
+
+/** Build the Gmail filter resource; archive, read and star become label changes */
+export function buildFilter(input: FilterInput, addLabelIds: string[]): GmailFilter {
+  const criteria: Record<string, string | boolean> = {};
+  if (input.from) criteria.from = input.from;
+  if (input.to) criteria.to = input.to;
+  if (input.subject) criteria.subject = input.subject;
+  if (input.query) criteria.query = input.query;
+  if (input.hasAttachment) criteria.hasAttachment = true;
+
+  return {
+    criteria,
+    action: {
+      addLabelIds: [...addLabelIds, ...(input.star ? ['STARRED'] : [])],
+      removeLabelIds: [
+        ...(input.archive ? ['INBOX'] : []),
+        ...(input.markAsRead ? ['UNREAD'] : []),
+      ],
+    },
+  };
+}
@@ -15,6 +15,59 @@ import { defineTools, commonSchemas } from '../utils/zodTools';
 const gmailLabelIds = z.array(z.string())
   .describe('Filter by label IDs (e.g., ["INBOX", "UNREAD"])');
 
+const recipients = z.string().max(2000);
+
+const htmlBody = z.string().max(200000)
+  .describe('Optional HTML version of the body. The plain text body is sent alongside it');
+
+const attachmentSource = z.object({
+  sessionId: commonSchemas.sessionId.optional()
+    .describe('Sandbox session ID, to attach a file from the sandbox'),
+  path: commonSchemas.sandboxPath.optional()
+    .describe('Sandbox file path (absolute, or relative to the working directory)'),
+  driveUrl: z.string().max(2000).optional()
+    .describe('Google Drive link or file ID, to attach a Drive file (Google Docs/Slides export as PDF, Sheets as XLSX)'),
+  filename: z.string().max(255).optional()
+    .describe('Attachment file name (defaults to the source file name)'),
+});
+
+const attachments = z.array(attachmentSource).max(10)
+  .describe('Files to attach - each either a sandbox file (sessionId + path) or a Drive file (driveUrl)');
+
+const messageIds = z.array(commonSchemas.messageId).max(1000)
+  .describe('IDs of the messages to change');
+
+const threadIds = z.array(commonSchemas.threadId).max(100)
+  .describe('IDs of whole threads to change');
+
+const labelRefs = z.array(z.string().min(1).max(225)).max(100);
+
+/** Fields shared by the bulk mailbox tools - pass messageIds and/or threadIds */
+const bulkTargetFields = {
+  messageIds: messageIds.optional(),
+  threadIds: threadIds.optional(),
+};
+
+/** Fields shared by every tool that composes a new message */
+const composeFields = {
+  subject: z.string().max(500).describe('Email subject line'),
+  body: z.string().max(50000).describe('Email body content (plain text)'),
+  html: htmlBody.optional(),
+  cc: recipients.optional().describe('CC recipients (comma-separated)'),
+  bcc: recipients.optional().describe('BCC recipients (comma-separated)'),
+  attachments: attachments.optional(),
+};
+
+/** Fields shared by reply and reply-all */
+const replyFields = {
+  messageId: commonSchemas.messageId.describe('ID of the message to reply to'),
+  body: z.string().max(50000).describe('Reply text (plain text). The original message is quoted below it'),
+  html: htmlBody.optional(),
+  cc: recipients.optional().describe('Additional CC recipients (comma-separated)'),
+  bcc: recipients.optional().describe('BCC recipients (comma-separated)'),
+  attachments: attachments.optional(),
+};
+
 // ============================================================================
 // Output Schemas
 // ============================================================================
@@ -45,6 +98,42 @@ const sendEmailOutput = z.object({
   threadId: z.string().describe('Thread ID'),
 });
 
+const draftOutput = z.object({
+  success: z.boolean().describe('Whether the draft was saved'),
+  draftId: z.string().describe('Draft ID'),
+  messageId: z.string().describe('Draft message ID'),
+  threadId: z.string().describe('Thread ID'),
+});
+
+const draftListItemOutput = z.object({
+  draftId: z.string().describe('Draft ID'),
+  messageId: z.string().describe('Draft message ID'),
+  threadId: z.string().describe('Thread ID'),
+  to: z.string().describe('Recipients'),
+  subject: z.string().describe('Email subject'),
+  snippet: z.string().describe('Preview text'),
+});
+
+const labelOutput = z.object({
+  id: z.string().describe('Label ID'),
+  name: z.string().describe('Label name'),
+  type: z.string().describe('"system" or "user"'),
+  messagesTotal: z.number().optional().describe('Number of messages with the label'),
+  messagesUnread: z.number().optional().describe('Number of unread messages with the label'),
+});
+
+const modifyOutput = z.object({
+  success: z.boolean().describe('Whether the change was applied'),
+  messagesModified: z.number().describe('Number of messages changed'),
+  threadsModified: z.number().describe('Number of threads changed'),
+});
+
+const filterOutput = z.object({
+  id: z.string().describe('Filter ID'),
+  criteria: z.record(z.string(), z.unknown()).describe('Which messages the filter matches'),
+  action: z.record(z.string(), z.unknown()).describe('What the filter does to them'),
+});
+
 const threadOutput = z.object({
   threadId: z.string().describe('Thread ID'),
   messages: z.array(z.object({
@@ -79,6 +168,7 @@ export const gmailTools = defineTools({
     }),
     output: z.array(messageListItemOutput)
       .describe('Array of email message summaries'),
+    readOnly: true,
   },
 
   getMessage: {
@@ -87,19 +177,174 @@ export const gmailTools = defineTools({
       messageId: commonSchemas.messageId,
     }),
     output: messageDetailOutput,
+    readOnly: true,
   },
 
   sendEmail: {
-    description: 'Send an email message',
+    description: 'Send an email message, optionally with an HTML body and attachments',
     input: z.object({
-      to: commonSchemas.email.describe('Recipient email address'),
-      subject: z.string().max(500).describe('Email subject line'),
-      body: z.string().max(50000).describe('Email body content (plain text)'),
-      cc: z.string().email().optional().describe('CC recipients (comma-separated)'),
-      bcc: z.string().email().optional().describe('BCC recipients (comma-separated)'),
+      to: recipients.describe('Recipient email addresses (comma-separated)'),
+      ...composeFields,
     }),
     output: sendEmailOutput,
     approvalRequiredFields: ['to', 'subject', 'body'],
+    mutating: true,
+  },
+
+  replyToMessage: {
+    description: 'Reply to the sender of a message, in the same thread, quoting the original',
+    input: z.object(replyFields),
+    output: sendEmailOutput,
+    approvalRequiredFields: ['messageId', 'body'],
+    mutating: true,
+  },
+
+  replyAllToMessage: {
+    description: 'Reply to the sender and all other recipients of a message, in the same thread, quoting the original',
+    input: z.object(replyFields),
+    output: sendEmailOutput,
+    approvalRequiredFields: ['messageId', 'body'],
+    mutating: true,
+  },
+
+  forwardMessage: {
+    description: 'Forward a message, with its attachments, to new recipients',
+    input: z.object({
+      messageId: commonSchemas.messageId.describe('ID of the message to forward'),
+      to: recipients.describe('Recipient email addresses (comma-separated)'),
+      body: z.string().max(50000).default('').describe('Note to add above the forwarded message (plain text)'),
+      html: htmlBody.optional(),
+      cc: recipients.optional().describe('CC recipients (comma-separated)'),
+      bcc: recipients.optional().describe('BCC recipients (comma-separated)'),
+      includeAttachments: z.boolean().default(true)
+        .describe('Include the original message\'s attachments (default true)'),
+      attachments: attachments.optional(),
+    }),
+    output: sendEmailOutput,
+    approvalRequiredFields: ['messageId', 'to'],
+    mutating: true,
+  },
+
+  createDraft: {
+    description: 'Save an email as a draft without sending it. Set replyToMessageId to draft a reply in that thread',
+    input: z.object({
+      to: recipients.optional().describe('Recipient email addresses (comma-separated)'),
+      ...composeFields,
+      replyToMessageId: commonSchemas.messageId.optional()
+        .describe('Message the draft replies to (threads the draft and quotes the original)'),
+    }),
+    output: draftOutput,
+    approvalRequiredFields: ['subject', 'body'],
+    mutating: true,
+  },
+
+  updateDraft: {
+    description: 'Replace the content of an existing draft',
+    input: z.object({
+      draftId: z.string().min(1).max(100).describe('Draft ID'),
+      to: recipients.optional().describe('Recipient email addresses (comma-separated)'),
+      ...composeFields,
+    }),
+    output: draftOutput,
+    approvalRequiredFields: ['draftId', 'subject', 'body'],
+    mutating: true,
+  },
+
+  listDrafts: {
+    description: 'List saved email drafts',
+    input: z.object({
+      maxResults: z.coerce.number().int().min(1).max(50).default(10)
+        .describe('Maximum number of drafts to return (default 10, max 50)'),
+    }),
+    output: z.array(draftListItemOutput).describe('Array of draft summaries'),
+    readOnly: true,
+  },
+
+  listLabels: {
+    description: 'List Gmail labels (system and user-created) with their IDs and message counts',
+    input: z.object({}),
+    output: z.array(labelOutput).describe('Array of labels'),
+    readOnly: true,
+  },
+
+  createLabel: {
+    description: 'Create a new Gmail label. Use "/" in the name to nest it (e.g., "Newsletters/Tech")',
+    input: z.object({
+      name: z.string().min(1).max(225).describe('Label name'),
+      showInLabelList: z.boolean().default(true)
+        .describe('Show the label in the Gmail sidebar (default true)'),
+    }),
+    output: labelOutput,
+    approvalRequiredFields: ['name'],
+    mutating: true,
+  },
+
+  modifyLabels: {
+    description: 'Add and/or remove labels on messages or threads. Labels can be given by ID or name',
+    input: z.object({
+      ...bulkTargetFields,
+      addLabels: labelRefs.optional().describe('Labels to add (IDs or names)'),
+      removeLabels: labelRefs.optional().describe('Labels to remove (IDs or names)'),
+    }),
+    output: modifyOutput,
+    approvalRequiredFields: ['messageIds', 'threadIds', 'addLabels', 'removeLabels'],
+    mutating: true,
+  },
+
+  archiveMessages: {
+    description: 'Archive messages or threads (remove them from the inbox without deleting them)',
+    input: z.object(bulkTargetFields),
+    output: modifyOutput,
+    approvalRequiredFields: ['messageIds', 'threadIds'],
+    mutating: true,
+  },
+
+  markAsRead: {
+    description: 'Mark messages or threads as read, or as unread with read: false',
+    input: z.object({
+      ...bulkTargetFields,
+      read: z.boolean().default(true).describe('true to mark as read, false to mark as unread'),
+    }),
+    output: modifyOutput,
+    approvalRequiredFields: ['messageIds', 'threadIds', 'read'],
+    mutating: true,
+  },
+
+  starMessages: {
+    description: 'Star messages or threads, or unstar them with starred: false',
+    input: z.object({
+      ...bulkTargetFields,
+      starred: z.boolean().default(true).describe('true to star, false to unstar'),
+    }),
+    output: modifyOutput,
+    approvalRequiredFields: ['messageIds', 'threadIds', 'starred'],
+    mutating: true,
+  },
+
+  listFilters: {
+    description: 'List the Gmail filters that sort incoming mail',
+    input: z.object({}),
+    output: z.array(filterOutput).describe('Array of filters'),
+    readOnly: true,
+  },
+
+  createFilter: {
+    description: 'Create a Gmail filter that applies to future incoming mail matching the criteria',
+    input: z.object({
+      from: z.string().max(500).optional().describe('Match the sender'),
+      to: z.string().max(500).optional().describe('Match the recipient'),
+      subject: z.string().max(500).optional().describe('Match words in the subject'),
+      query: z.string().max(1000).optional()
+        .describe('Match a Gmail search query (e.g., "list:news.example.com")'),
+      hasAttachment: z.boolean().optional().describe('Only match messages with attachments'),
+      addLabels: labelRefs.optional().describe('Labels to apply (IDs or names)'),
+      archive: z.boolean().default(false).describe('Skip the inbox'),
+      markAsRead: z.boolean().default(false).describe('Mark matching mail as read'),
+      star: z.boolean().default(false).describe('Star matching mail'),
+    }),
+    output: filterOutput,
+    approvalRequiredFields: ['from', 'to', 'subject', 'query', 'addLabels', 'archive', 'markAsRead'],
+    mutating: true,
   },
 
   searchMessages: {
@@ -111,6 +356,7 @@ export const gmailTools = defineTools({
     }),
     output: z.array(messageListItemOutput)
       .describe('Array of matching email summaries'),
+    readOnly: true,
   },
 
   getThread: {
@@ -119,12 +365,14 @@ export const gmailTools = defineTools({
       threadId: commonSchemas.threadId,
     }),
     output: threadOutput,
+    readOnly: true,
   },
 
   getAuthenticatedUser: {
     description: 'Get the email address and profile of the authenticated Gmail user',
     input: z.object({}),
     output: userInfoOutput,
+    readOnly: true,
   },
 });
 
@@ -0,0 +1,363 @@
+/**
+ * MIME message building for Gmail
+ *
+ * Gmail's send and draft endpoints take a complete RFC 2822 message. This
+ * module builds it - plain text with an optional HTML alternative, optional
+ * attachments, and the threading headers replies need - and holds the rules
+ * for reply/forward subjects, reply-all recipients and quoting.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+export interface MimeAttachment {
+  filename: string;
+  mimeType: string;
+  /** File content, base64 encoded */
+  data: string;
+}
+
+export interface MimeMessageInput {
+  to?: string;
+  cc?: string;
+  bcc?: string;
+  subject: string;
+  /** Plain text body - derived from the HTML when omitted */
+  text?: string;
+  html?: string;
+  /** Message-ID of the message being replied to or forwarded */
+  inReplyTo?: string;
+  references?: string;
+  attachments?: MimeAttachment[];
+}
+
+/** The headers of an existing message that replies and forwards build on */
+export interface OriginalMessage {
+  messageId?: string;
+  references?: string;
+  from: string;
+  replyTo?: string;
+  to?: string;
+  cc?: string;
+  subject: string;
+  date?: string;
+}
+
+const LINE_LENGTH = 76;
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Base64 encode bytes. Works in chunks - spreading a large attachment into
+ * String.fromCharCode() would overflow the stack.
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function utf8ToBase64(text: string): string {
+  return bytesToBase64(new TextEncoder().encode(text));
+}
+
+/** Encode a complete message for the Gmail API's `raw` field */
+export function toBase64Url(message: string): string {
+  return utf8ToBase64(message).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Number of bytes a base64 string decodes to */
+export function base64ByteLength(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+/** Encode a header value as an RFC 2047 encoded word when it is not plain ASCII */
+export function encodeHeaderValue(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${utf8ToBase64(value)}?=`;
+}
+
+function wrapBase64(data: string): string {
+  const lines: string[] = [];
+  for (let i = 0; i < data.length; i += LINE_LENGTH) {
+    lines.push(data.slice(i, i + LINE_LENGTH));
+  }
+  return lines.join('\r\n');
+}
+
+function boundary(): string {
+  return `----=_Part_${crypto.randomUUID().replace(/-/g, '')}`;
+}
+
+// ============================================================================
+// Message Building
+// ============================================================================
+
+function textPart(mimeType: string, content: string): string[] {
+  return [
+    `Content-Type: ${mimeType}; charset="UTF-8"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(utf8ToBase64(content)),
+  ];
+}
+
+function attachmentPart(attachment: MimeAttachment): string[] {
+  const filename = encodeHeaderValue(attachment.filename).replace(/"/g, '');
+  return [
+    `Content-Type: ${attachment.mimeType}; name="${filename}"`,
+    `Content-Disposition: attachment; filename="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(attachment.data),
+  ];
+}
+
+function multipart(subtype: string, parts: string[][]): string[] {
+  const marker = boundary();
+  const lines = [`Content-Type: multipart/${subtype}; boundary="${marker}"`, ''];
+  for (const part of parts) {
+    lines.push(`--${marker}`, ...part);
+  }
+  lines.push(`--${marker}--`);
+  return lines;
+}
+
+/**
+ * Build an RFC 2822 message. Text only is a single part, an HTML body adds a
+ * multipart/alternative, and attachments wrap that in multipart/mixed.
+ */
+export function buildMimeMessage(input: MimeMessageInput): string {
+  const headers = ['MIME-Version: 1.0'];
+  if (input.to) headers.push(`To: ${input.to}`);
+  if (input.cc) headers.push(`Cc: ${input.cc}`);
+  if (input.bcc) headers.push(`Bcc: ${input.bcc}`);
+  headers.push(`Subject: ${encodeHeaderValue(input.subject)}`);
+  if (input.inReplyTo) headers.push(`In-Reply-To: ${input.inReplyTo}`);
+  if (input.references) headers.push(`References: ${input.references}`);
+
+  const text = input.text ?? (input.html ? htmlToText(input.html) : '');
+  let body = input.html
+    ? multipart('alternative', [textPart('text/plain', text), textPart('text/html', input.html)])
+    : textPart('text/plain', text);
+
+  if (input.attachments?.length) {
+    body = multipart('mixed', [body, ...input.attachments.map(attachmentPart)]);
+  }
+
+  return [...headers, ...body].join('\r\n');
+}
+
+/** Reduce an HTML body to readable plain text for the text/plain alternative */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr|blockquote)>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ============================================================================
+// Addresses
+// ============================================================================
+
+/** Split an address header on commas that are not inside quotes or angle brackets */
+export function parseAddressList(header: string | undefined): string[] {
+  if (!header) return [];
+  const entries: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angled = false;
+  for (const char of header) {
+    if (char === '"') quoted = !quoted;
+    else if (char === '<' && !quoted) angled = true;
+    else if (char === '>' && !quoted) angled = false;
+
+    if (char === ',' && !quoted && !angled) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+  return entries.map((e) => e.trim()).filter(Boolean);
+}
+
+/** The bare, lowercased address of a "Name <address>" entry */
+export function addressOf(entry: string): string {
+  const match = entry.match(/<([^>]+)>/);
+  return (match ? match[1] : entry).trim().toLowerCase();
+}
+
+/** Entries in a comma-separated list that are not valid email addresses */
+export function invalidAddresses(header: string | undefined): string[] {
+  return parseAddressList(header).filter((entry) => !/^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(addressOf(entry)));
+}
+
+/**
+ * Who a reply goes to. The reply goes to Reply-To (or the sender); reply-all
+ * copies everyone else on the original except the user. Replying to your own
+ * message goes back to its original recipients.
+ */
+export function replyRecipients(
+  original: OriginalMessage,
+  self: string,
+  replyAll: boolean
+): { to: string; cc: string } {
+  const me = self.toLowerCase();
+  const fromSelf = addressOf(original.from) === me;
+
+  const to = fromSelf
+    ? parseAddressList(original.to)
+    : parseAddressList(original.replyTo || original.from);
+
+  const seen = new Set([me, ...to.map(addressOf)]);
+  const cc: string[] = [];
+  if (replyAll) {
+    const others = [...(fromSelf ? [] : parseAddressList(original.to)), ...parseAddressList(original.cc)];
+    for (const entry of others) {
+      const address = addressOf(entry);
+      if (seen.has(address)) continue;
+      seen.add(address);
+      cc.push(entry);
+    }
+  }
+
+  return { to: to.join(', '), cc: cc.join(', ') };
+}
+
+// ============================================================================
+// Replies and Forwards
+// ============================================================================
+
+export function replySubject(subject: string): string {
+  return /^re:/i.test(subject.trim()) ? subject : `Re: ${subject}`;
+}
+
+export function forwardSubject(subject: string): string {
+  return /^(fwd?|fw):/i.test(subject.trim()) ? subject : `Fwd: ${subject}`;
+}
+
+/** The References header for a message that continues the original's thread */
+export function threadReferences(original: OriginalMessage): string | undefined {
+  const refs = [original.references, original.messageId].filter(Boolean).join(' ').trim();
+  return refs || undefined;
+}
+
+function attribution(original: OriginalMessage): string {
+  return original.date ? `On ${original.date}, ${original.from} wrote:` : `${original.from} wrote:`;
+}
+
+/** Append the original message below a reply, quoted with "> " */
+export function quoteReply(reply: string, original: OriginalMessage, originalBody: string): string {
+  const quoted = originalBody.trimEnd().split('\n').map((line) => `> ${line}`).join('\n');
+  return `${reply}\n\n${attribution(original)}\n${quoted}`;
+}
+
+export function quoteReplyHtml(replyHtml: string, original: OriginalMessage, originalBody: string): string {
+  return `${replyHtml}<br><div class="gmail_quote"><div>${escapeHtml(attribution(original))}</div>` +
+    '<blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">' +
+    `${escapeHtml(originalBody.trimEnd()).replace(/\n/g, '<br>')}</blockquote></div>`;
+}
+
+function forwardHeaderLines(original: OriginalMessage): string[] {
+  return [
+    `From: ${original.from}`,
+    ...(original.date ? [`Date: ${original.date}`] : []),
+    `Subject: ${original.subject}`,
+    ...(original.to ? [`To: ${original.to}`] : []),
+    ...(original.cc ? [`Cc: ${original.cc}`] : []),
+  ];
+}
+
+/** Append the original message below a forwarding note */
+export function forwardBody(note: string, original: OriginalMessage, originalBody: string): string {
+  return [
+    ...(note ? [note, ''] : []),
+    '---------- Forwarded message ---------',
+    ...forwardHeaderLines(original),
+    '',
+    originalBody.trimEnd(),
+  ].join('\n');
+}
+
+export function forwardBodyHtml(noteHtml: string, original: OriginalMessage, originalBody: string): string {
+  const headerLines = forwardHeaderLines(original).map(escapeHtml).join('<br>');
+  return `${noteHtml}<br><div class="gmail_quote">---------- Forwarded message ---------<br>${headerLines}<br><br>` +
+    `${escapeHtml(originalBody.trimEnd()).replace(/\n/g, '<br>')}</div>`;
+}
+
+// ============================================================================
+// Attachment Sources
+// ============================================================================
+
+/** Pull the file ID out of a Google Drive/Docs link, or accept a bare ID */
+export function parseDriveFileId(link: string): string | null {
+  const trimmed = link.trim();
+  const pathMatch = trimmed.match(/\/d\/([a-zA-Z0-9_-]{10,})/);
+  if (pathMatch) return pathMatch[1];
+  const queryMatch = trimmed.match(/[?&]id=([a-zA-Z0-9_-]{10,})/);
+  if (queryMatch) return queryMatch[1];
+  return /^[a-zA-Z0-9_-]{10,}$/.test(trimmed) ? trimmed : null;
+}
+
+/** Export format for Google-native files, which have no binary content of their own */
+export function driveExportFormat(mimeType: string): { mimeType: string; extension: string } | null {
+  switch (mimeType) {
+    case 'application/vnd.google-apps.spreadsheet':
+      return {
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        extension: 'xlsx',
+      };
+    case 'application/vnd.google-apps.document':
+    case 'application/vnd.google-apps.presentation':
+    case 'application/vnd.google-apps.drawing':
+      return { mimeType: 'application/pdf', extension: 'pdf' };
+    default:
+      return null;
+  }
+}
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  html: 'text/html',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  zip: 'application/zip',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/** Guess a MIME type from a file name, falling back to octet-stream */
+export function mimeTypeForFilename(filename: string): string {
+  const extension = filename.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_MIME_TYPES[extension] || 'application/octet-stream';
+}
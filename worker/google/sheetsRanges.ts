@@ -0,0 +1,253 @@
+/**
+ * Google Sheets ranges, formats and charts
+ *
+ * Turns the A1 ranges and plain options the Sheets tools accept into the
+ * GridRange, CellFormat and chart objects spreadsheets.batchUpdate expects.
+ * Grid ranges are zero-based with exclusive ends; an unset bound means the
+ * range is open on that side ("A:C" covers every row).
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+export interface A1Range {
+  /** Sheet name, unquoted; undefined when the range has none */
+  sheetName?: string;
+  startRowIndex?: number;
+  endRowIndex?: number;
+  startColumnIndex?: number;
+  endColumnIndex?: number;
+}
+
+export interface GridRange extends Omit<A1Range, 'sheetName'> {
+  sheetId: number;
+}
+
+export type ChartType = 'column' | 'bar' | 'line' | 'area' | 'scatter' | 'pie';
+
+export type NumberFormat = 'number' | 'currency' | 'percent' | 'date' | 'datetime' | 'text';
+
+export type Summarize = 'sum' | 'count' | 'average' | 'max' | 'min';
+
+export interface CellFormatInput {
+  bold?: boolean;
+  italic?: boolean;
+  fontSize?: number;
+  /** Hex colour, e.g. "#1a73e8" */
+  textColor?: string;
+  backgroundColor?: string;
+  horizontalAlignment?: 'left' | 'center' | 'right';
+  wrap?: boolean;
+  numberFormat?: NumberFormat;
+  /** Custom number pattern, e.g. "#,##0.00" or "yyyy-mm-dd" */
+  numberPattern?: string;
+}
+
+/** At most three column letters, so a sheet named "Sheet1" is not read as a cell */
+const CELL_REF = /^\$?([A-Z]{0,3})\$?(\d*)$/i;
+
+export function columnIndex(letters: string): number {
+  return letters.toUpperCase().split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+export function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/** Quote a sheet name for use in an A1 range when it needs it ("Q1 plan" -> "'Q1 plan'") */
+export function quoteSheetName(name: string): string {
+  return /^[A-Za-z0-9_]+$/.test(name) ? name : `'${name.replace(/'/g, "''")}'`;
+}
+
+function parseCellRef(ref: string): { row?: number; column?: number } | null {
+  const match = ref.match(CELL_REF);
+  if (!match || (!match[1] && !match[2])) return null;
+  return {
+    column: match[1] ? columnIndex(match[1]) : undefined,
+    row: match[2] ? Number(match[2]) - 1 : undefined,
+  };
+}
+
+/**
+ * Parse an A1 range: "Sheet1", "'Q1 plan'!B2:D10", "A:C", "2:5" or "B2".
+ * Returns null when the cell part is not valid A1 notation.
+ */
+export function parseA1Range(range: string): A1Range | null {
+  const bang = range.lastIndexOf('!');
+  let sheetName: string | undefined;
+  let refs = range;
+  if (bang !== -1) {
+    sheetName = range.slice(0, bang).replace(/^'(.*)'$/, '$1').replace(/''/g, "'");
+    refs = range.slice(bang + 1);
+  } else if (!refs.split(':').every((ref) => parseCellRef(ref))) {
+    // No cell part - the whole range is a sheet name
+    return { sheetName: range.replace(/^'(.*)'$/, '$1').replace(/''/g, "'") };
+  }
+
+  const [startRef, endRef = startRef, ...rest] = refs.split(':');
+  const start = parseCellRef(startRef);
+  const end = parseCellRef(endRef);
+  if (!start || !end || rest.length > 0) return null;
+
+  return {
+    ...(sheetName !== undefined && { sheetName }),
+    ...(start.row !== undefined && { startRowIndex: start.row }),
+    ...(end.row !== undefined && { endRowIndex: end.row + 1 }),
+    ...(start.column !== undefined && { startColumnIndex: start.column }),
+    ...(end.column !== undefined && { endColumnIndex: end.column + 1 }),
+  };
+}
+
+export function toGridRange(range: A1Range, sheetId: number): GridRange {
+  return {
+    sheetId,
+    startRowIndex: range.startRowIndex,
+    endRowIndex: range.endRowIndex,
+    startColumnIndex: range.startColumnIndex,
+    endColumnIndex: range.endColumnIndex,
+  };
+}
+
+export function parseColor(hex: string): { red: number; green: number; blue: number } {
+  const value = hex.replace(/^#/, '');
+  const channel = (i: number) => parseInt(value.slice(i, i + 2), 16) / 255;
+  return { red: channel(0), green: channel(2), blue: channel(4) };
+}
+
+const NUMBER_FORMAT_TYPES: Record<NumberFormat, string> = {
+  number: 'NUMBER',
+  currency: 'CURRENCY',
+  percent: 'PERCENT',
+  date: 'DATE',
+  datetime: 'DATE_TIME',
+  text: 'TEXT',
+};
+
+/**
+ * The userEnteredFormat and field mask for a repeatCell request. Only the
+ * options given are in the mask, so other formatting is left alone.
+ */
+export function cellFormat(format: CellFormatInput): { userEnteredFormat: Record<string, unknown>; fields: string[] } {
+  const textFormat: Record<string, unknown> = {};
+  const userEnteredFormat: Record<string, unknown> = {};
+  const fields: string[] = [];
+
+  if (format.bold !== undefined) textFormat.bold = format.bold;
+  if (format.italic !== undefined) textFormat.italic = format.italic;
+  if (format.fontSize !== undefined) textFormat.fontSize = format.fontSize;
+  if (format.textColor) textFormat.foregroundColor = parseColor(format.textColor);
+  for (const key of Object.keys(textFormat)) {
+    fields.push(`userEnteredFormat.textFormat.${key}`);
+  }
+  if (fields.length > 0) userEnteredFormat.textFormat = textFormat;
+
+  if (format.backgroundColor) {
+    userEnteredFormat.backgroundColor = parseColor(format.backgroundColor);
+    fields.push('userEnteredFormat.backgroundColor');
+  }
+  if (format.horizontalAlignment) {
+    userEnteredFormat.horizontalAlignment = format.horizontalAlignment.toUpperCase();
+    fields.push('userEnteredFormat.horizontalAlignment');
+  }
+  if (format.wrap !== undefined) {
+    userEnteredFormat.wrapStrategy = format.wrap ? 'WRAP' : 'OVERFLOW_CELL';
+    fields.push('userEnteredFormat.wrapStrategy');
+  }
+  if (format.numberFormat || format.numberPattern) {
+    userEnteredFormat.numberFormat = {
+      type: NUMBER_FORMAT_TYPES[format.numberFormat || 'number'],
+      ...(format.numberPattern && { pattern: format.numberPattern }),
+    };
+    fields.push('userEnteredFormat.numberFormat');
+  }
+
+  return { userEnteredFormat, fields };
+}
+
+function columnOf(source: GridRange, column: number): GridRange {
+  return { ...source, startColumnIndex: column, endColumnIndex: column + 1 };
+}
+
+/**
+ * Chart spec for a data range whose first column holds the labels and whose
+ * other columns are series. Pie charts use the first series only.
+ */
+export function chartSpec(type: ChartType, source: GridRange, title?: string): Record<string, unknown> {
+  const { startColumnIndex, endColumnIndex } = source;
+  if (startColumnIndex === undefined || endColumnIndex === undefined || endColumnIndex - startColumnIndex < 2) {
+    throw new Error('Chart data needs at least two columns: labels first, then one or more series (e.g. "A1:C20")');
+  }
+
+  const labels = { sourceRange: { sources: [columnOf(source, startColumnIndex)] } };
+  const seriesColumns = Array.from(
+    { length: endColumnIndex - startColumnIndex - 1 },
+    (_, i) => columnOf(source, startColumnIndex + 1 + i)
+  );
+
+  if (type === 'pie') {
+    return {
+      ...(title && { title }),
+      pieChart: {
+        legendPosition: 'RIGHT_LEGEND',
+        domain: labels,
+        series: { sourceRange: { sources: [seriesColumns[0]] } },
+      },
+    };
+  }
+
+  // Bar charts are horizontal, so their values run along the bottom axis
+  const valueAxis = type === 'bar' ? 'BOTTOM_AXIS' : 'LEFT_AXIS';
+  return {
+    ...(title && { title }),
+    basicChart: {
+      chartType: type.toUpperCase(),
+      legendPosition: 'BOTTOM_LEGEND',
+      headerCount: 1,
+      domains: [{ domain: labels }],
+      series: seriesColumns.map((column) => ({
+        series: { sourceRange: { sources: [column] } },
+        targetAxis: valueAxis,
+      })),
+    },
+  };
+}
+
+const SUMMARIZE_FUNCTIONS: Record<Summarize, string> = {
+  sum: 'SUM',
+  count: 'COUNTA',
+  average: 'AVERAGE',
+  max: 'MAX',
+  min: 'MIN',
+};
+
+/**
+ * Pivot table grouping the source rows by the given columns (letters, as
+ * in the sheet) and summarising the value columns.
+ */
+export function pivotTableSpec(
+  source: GridRange,
+  rows: string[],
+  values: Array<{ column: string; summarize: Summarize }>
+): Record<string, unknown> {
+  const start = source.startColumnIndex ?? 0;
+  const offset = (letters: string) => {
+    const index = columnIndex(letters);
+    if (!/^[A-Z]{1,3}$/i.test(letters) || index < start || (source.endColumnIndex !== undefined && index >= source.endColumnIndex)) {
+      throw new Error(`Column ${letters} is not in the source range`);
+    }
+    return index - start;
+  };
+
+  return {
+    source,
+    rows: rows.map((column) => ({ sourceColumnOffset: offset(column), showTotals: true, sortOrder: 'ASCENDING' })),
+    values: values.map((value) => ({
+      sourceColumnOffset: offset(value.column),
+      summarizeFunction: SUMMARIZE_FUNCTIONS[value.summarize],
+    })),
+    valueLayout: 'HORIZONTAL',
+  };
+}
@@ -15,8 +15,17 @@ import { defineTools, commonSchemas } from '../utils/zodTools';
 const sheetRange = z.string().max(200)
   .describe('A1 notation range (e.g., "Sheet1", "Sheet1!A1:D10", "A:D")');
 
-const sheetData = z.array(z.array(z.string()))
-  .describe('Data as 2D array of strings (rows x columns)');
+const cellValue = z.union([z.string(), z.number(), z.boolean()]);
+
+const sheetData = z.array(z.array(cellValue))
+  .describe('Data as 2D array of cell values (rows x columns)');
+
+const sheetName = z.string().min(1).max(100).describe('Name of the sheet (tab)');
+
+const literal = z.boolean().default(false)
+  .describe('Store values exactly as given: text starting with "=" stays text and "007" keeps its zeros. Default false (values are parsed as if typed into the sheet)');
+
+const hexColor = z.string().regex(/^#?[0-9a-f]{6}$/i).describe('Hex colour, e.g. "#1a73e8"');
 
 // ============================================================================
 // Output Schemas
@@ -27,6 +36,7 @@ const sheetInfoOutput = z.object({
   title: z.string().describe('Sheet name'),
   rowCount: z.number().optional().describe('Number of rows'),
   columnCount: z.number().optional().describe('Number of columns'),
+  frozenRows: z.number().optional().describe('Number of frozen header rows'),
 });
 
 const spreadsheetDetailOutput = z.object({
@@ -38,7 +48,8 @@ const spreadsheetDetailOutput = z.object({
 
 const sheetDataOutput = z.object({
   range: z.string().describe('The range that was read'),
-  rows: z.array(z.array(z.string())).describe('The cell values as a 2D array of strings'),
+  rows: z.array(z.array(cellValue))
+    .describe('The cell values as a 2D array (strings unless render is "typed")'),
 });
 
 const spreadsheetListItemOutput = z.object({
@@ -54,6 +65,13 @@ const createSpreadsheetOutput = z.object({
   url: z.string().describe('URL to view/edit spreadsheet'),
 });
 
+const sheetChangeOutput = z.object({
+  success: z.boolean().describe('Whether operation succeeded'),
+  spreadsheetId: z.string().describe('Spreadsheet ID'),
+  url: z.string().describe('URL to view/edit spreadsheet'),
+  sheetId: z.number().optional().describe('ID of the sheet that was changed'),
+});
+
 const updateSpreadsheetOutput = z.object({
   success: z.boolean().describe('Whether operation succeeded'),
   spreadsheetId: z.string().describe('Spreadsheet ID'),
@@ -73,6 +91,7 @@ export const sheetsTools = defineTools({
       spreadsheetId: commonSchemas.spreadsheetId.describe('The ID of the spreadsheet (from the URL)'),
     }),
     output: spreadsheetDetailOutput,
+    readOnly: true,
   },
 
   getSheetData: {
@@ -80,8 +99,11 @@ export const sheetsTools = defineTools({
     input: z.object({
       spreadsheetId: commonSchemas.spreadsheetId.describe('The ID of the spreadsheet'),
       range: sheetRange,
+      render: z.enum(['formatted', 'typed', 'formulas']).default('formatted')
+        .describe('formatted: values as displayed (strings); typed: raw numbers and booleans; formulas: formulas instead of their results. Default formatted'),
     }),
     output: sheetDataOutput,
+    readOnly: true,
   },
 
   listSpreadsheets: {
@@ -93,6 +115,7 @@ export const sheetsTools = defineTools({
         .describe('Search query for spreadsheet names'),
     }),
     output: z.array(spreadsheetListItemOutput).describe('Array of spreadsheet summaries'),
+    readOnly: true,
   },
 
   searchSpreadsheets: {
@@ -103,6 +126,7 @@ export const sheetsTools = defineTools({
         .describe('Maximum number of results (default 10)'),
     }),
     output: z.array(spreadsheetListItemOutput).describe('Array of matching spreadsheets'),
+    readOnly: true,
   },
 
   createSpreadsheet: {
@@ -116,6 +140,7 @@ export const sheetsTools = defineTools({
     }),
     output: createSpreadsheetOutput,
     approvalRequiredFields: ['title', 'rows'],
+    mutating: true,
   },
 
   appendRows: {
@@ -126,11 +151,13 @@ export const sheetsTools = defineTools({
         .describe('Title of the spreadsheet (for display in results)'),
       sheetName: z.string().max(100).default('Sheet1')
         .describe('Name of the sheet to append to (default first sheet)'),
-      rows: z.array(z.array(z.string())).min(1)
-        .describe('Rows to append as 2D array of strings'),
+      rows: z.array(z.array(cellValue)).min(1)
+        .describe('Rows to append as 2D array of cell values'),
+      literal,
     }),
     output: updateSpreadsheetOutput,
     approvalRequiredFields: ['spreadsheetId', 'title', 'currentRows', 'newRows'],
+    mutating: true,
   },
 
   updateCells: {
@@ -140,11 +167,13 @@ export const sheetsTools = defineTools({
       title: commonSchemas.title.optional()
         .describe('Title of the spreadsheet (for display in results)'),
       range: sheetRange.describe('A1 notation range to update (e.g., "Sheet1!A1:B2")'),
-      values: z.array(z.array(z.string()))
-        .describe('New values as 2D array of strings'),
+      values: z.array(z.array(cellValue))
+        .describe('New values as 2D array of cell values'),
+      literal,
     }),
     output: updateSpreadsheetOutput,
     approvalRequiredFields: ['spreadsheetId', 'title', 'currentRows', 'updates'],
+    mutating: true,
   },
 
   replaceSheetContent: {
@@ -153,8 +182,7 @@ export const sheetsTools = defineTools({
       spreadsheetId: commonSchemas.spreadsheetId.describe('The ID of the spreadsheet'),
       sheetName: z.string().max(100).optional()
         .describe('Name of the sheet to replace (default first sheet)'),
-      data: z.array(z.array(z.string()))
-        .describe('New data as 2D array of strings (rows x columns)'),
+      data: sheetData,
     }),
     output: z.object({
       success: z.boolean().describe('Whether replacement succeeded'),
@@ -162,6 +190,125 @@ export const sheetsTools = defineTools({
       url: z.string().describe('URL to view/edit spreadsheet'),
     }),
     approvalRequiredFields: ['spreadsheetId', 'title', 'currentRows', 'newRows'],
+    mutating: true,
+  },
+
+  writeFormulas: {
+    description: 'Write formulas into cells, leaving every other cell as it is. Formulas may refer to other sheets',
+    input: z.object({
+      spreadsheetId: commonSchemas.spreadsheetId.describe('The ID of the spreadsheet'),
+      formulas: z.array(z.object({
+        cell: z.string().max(200).describe('Cell in A1 notation, with the sheet (e.g. "Summary!D2")'),
+        formula: z.string().regex(/^=/, 'Formulas start with "="').max(5000).describe('Formula, e.g. "=SUM(B2:C2)"'),
+      })).min(1).max(500).describe('Formulas to write'),
+    }),
+    output: updateSpreadsheetOutput,
+    approvalRequiredFields: ['spreadsheetId', 'title', 'currentSheets', 'formulas'],
+    mutating: true,
+  },
+
+  addSheet: {
+    description: 'Add a sheet (tab) to a spreadsheet, optionally with data',
+    input: z.object({
+      spreadsheetId: commonSchemas.spreadsheetId.describe('The ID of the spreadsheet'),
+      sheetName,
+      data: sheetData.optional(),
+    }),
+    output: sheetChangeOutput,
+    approvalRequiredFields: ['spreadsheetId', 'title', 'sheetName'],
+    mutating: true,
+  },
+
+  renameSheet: {
+    description: 'Rename a sheet (tab). Formulas referring to it are updated by Sheets',
+    input: z.object({
+      spreadsheetId: commonSchemas.spreadsheetId.describe('The ID of the spreadsheet'),
+      sheetName: sheetName.describe('Current name of the sheet'),
+      newName: sheetName.describe('New name for the sheet'),
+    }),
+    output: sheetChangeOutput,
+    approvalRequiredFields: ['spreadsheetId', 'title', 'sheetName', 'newName'],
+    mutating: true,
+  },
+
+  deleteSheet: {
+    description: 'Delete a sheet (tab) and everything on it',
+    input: z.object({
+      spreadsheetId: commonSchemas.spreadsheetId.describe('The ID of the spreadsheet'),
+      sheetName,
+    }),
+    output: sheetChangeOutput,
+    approvalRequiredFields: ['spreadsheetId', 'title', 'sheetName', 'currentSheets'],
+    mutating: true,
+  },
+
+  formatCells: {
+    description: 'Format a range: bold, italic, font size, colours, alignment, wrapping and number formats (currency, percent, dates). Options left out are not changed',
+    input: z.object({
+      spreadsheetId: commonSchemas.spreadsheetId.describe('The ID of the spreadsheet'),
+      range: sheetRange.describe('A1 notation range to format, with the sheet (e.g. "Sheet1!A1:F1")'),
+      bold: z.boolean().optional(),
+      italic: z.boolean().optional(),
+      fontSize: z.coerce.number().int().min(6).max(72).optional(),
+      textColor: hexColor.optional(),
+      backgroundColor: hexColor.optional(),
+      horizontalAlignment: z.enum(['left', 'center', 'right']).optional(),
+      wrap: z.boolean().optional().describe('Wrap long text onto several lines'),
+      numberFormat: z.enum(['number', 'currency', 'percent', 'date', 'datetime', 'text']).optional(),
+      numberPattern: z.string().max(100).optional()
+        .describe('Custom number pattern, e.g. "#,##0.00" or "yyyy-mm-dd"'),
+    }),
+    output: sheetChangeOutput,
+    approvalRequiredFields: ['spreadsheetId', 'title', 'range'],
+    mutating: true,
+  },
+
+  freezeRows: {
+    description: 'Freeze header rows and/or columns so they stay visible while scrolling (0 unfreezes)',
+    input: z.object({
+      spreadsheetId: commonSchemas.spreadsheetId.describe('The ID of the spreadsheet'),
+      sheetName,
+      rows: z.coerce.number().int().min(0).max(20).default(1).describe('Rows to freeze (default 1)'),
+      columns: z.coerce.number().int().min(0).max(10).optional().describe('Columns to freeze'),
+    }),
+    output: sheetChangeOutput,
+    approvalRequiredFields: ['spreadsheetId', 'title', 'sheetName'],
+    mutating: true,
+  },
+
+  addChart: {
+    description: 'Add a chart. The data range\'s first column holds the labels and each other column is a series, with headers in the first row',
+    input: z.object({
+      spreadsheetId: commonSchemas.spreadsheetId.describe('The ID of the spreadsheet'),
+      chartType: z.enum(['column', 'bar', 'line', 'area', 'scatter', 'pie']).describe('Kind of chart'),
+      dataRange: sheetRange.describe('Data in A1 notation, with the sheet (e.g. "Sales!A1:C13")'),
+      chartTitle: z.string().max(200).optional().describe('Title shown on the chart'),
+      anchorCell: z.string().max(200).optional()
+        .describe('Cell for the chart\'s top-left corner, with the sheet (default a new sheet)'),
+    }),
+    output: sheetChangeOutput.extend({
+      chartId: z.number().describe('ID of the new chart'),
+    }),
+    approvalRequiredFields: ['spreadsheetId', 'title', 'chartType', 'dataRange'],
+    mutating: true,
+  },
+
+  addPivotTable: {
+    description: 'Add a pivot table that groups rows of a data range and summarises columns, on a new sheet',
+    input: z.object({
+      spreadsheetId: commonSchemas.spreadsheetId.describe('The ID of the spreadsheet'),
+      sourceRange: sheetRange.describe('Data with headers, in A1 notation with the sheet (e.g. "Sales!A1:F500")'),
+      rows: z.array(z.string().regex(/^[A-Z]{1,3}$/i)).min(1).max(5)
+        .describe('Column letters to group by, e.g. ["B"]'),
+      values: z.array(z.object({
+        column: z.string().regex(/^[A-Z]{1,3}$/i).describe('Column letter to summarise'),
+        summarize: z.enum(['sum', 'count', 'average', 'max', 'min']).default('sum'),
+      })).min(1).max(10).describe('Columns to summarise'),
+      sheetName: sheetName.optional().describe('Name for the new sheet (default "Pivot table")'),
+    }),
+    output: sheetChangeOutput,
+    approvalRequiredFields: ['spreadsheetId', 'title', 'sourceRange', 'rows', 'values'],
+    mutating: true,
   },
 });
 
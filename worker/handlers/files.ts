@@ -0,0 +1,166 @@
+/**
+ * Sandbox file handlers - browsing and downloading files in a run's live
+ * sandbox session, and downloading files the agent published as artifacts
+ */
+
+import { getSandbox, streamFile } from '@cloudflare/sandbox';
+import { jsonResponse } from '../utils/response';
+import { logger } from '../utils/logger';
+import {
+  attachmentDisposition,
+  publishedFileKey,
+  relativeWorkspacePath,
+  resolveWorkspacePath,
+  sortFileEntries,
+  type SandboxFileListing,
+} from '../workflows/sandboxFiles';
+import type { BoardDO } from '../BoardDO';
+
+type BoardDOStub = DurableObjectStub<BoardDO>;
+
+function noSessionResponse(): Response {
+  return jsonResponse({
+    success: false,
+    error: { code: 'NOT_FOUND', message: 'No live sandbox for this run' },
+  }, 404);
+}
+
+function outsideWorkspaceResponse(): Response {
+  return jsonResponse({
+    success: false,
+    error: { code: 'VALIDATION_ERROR', message: 'Path is outside the workspace' },
+  }, 400);
+}
+
+/**
+ * Handle listing a directory of a run's sandbox (?path=, relative to the
+ * working directory; ?sessionId= picks a session when the run has several)
+ */
+export async function handleListSandboxFiles(
+  request: Request,
+  boardStub: BoardDOStub,
+  env: Env,
+  planId: string
+): Promise<Response> {
+  const url = new URL(request.url);
+  const session = await boardStub.usePlanSandboxSession(planId, url.searchParams.get('sessionId') || undefined);
+  if (!session) return noSessionResponse();
+
+  const dir = resolveWorkspacePath(session.workDir, url.searchParams.get('path') || '');
+  if (!dir) return outsideWorkspaceResponse();
+
+  try {
+    const result = await getSandbox(env.SANDBOX, session.sandboxId).listFiles(dir, { includeHidden: true });
+    const listing: SandboxFileListing = {
+      sessionId: session.id,
+      workDir: session.workDir,
+      path: relativeWorkspacePath(session.workDir, dir),
+      entries: sortFileEntries(result.files.map((file) => ({
+        name: file.name,
+        path: relativeWorkspacePath(session.workDir, file.absolutePath),
+        type: file.type,
+        size: file.size,
+        modifiedAt: file.modifiedAt,
+      }))),
+    };
+    return jsonResponse({ success: true, data: listing });
+  } catch (error) {
+    return jsonResponse({
+      success: false,
+      error: { code: 'FETCH_FAILED', message: error instanceof Error ? error.message : 'Failed to list files' },
+    }, 500);
+  }
+}
+
+/**
+ * Handle downloading a file from a run's sandbox (?path=, ?sessionId=)
+ */
+export async function handleDownloadSandboxFile(
+  request: Request,
+  boardStub: BoardDOStub,
+  env: Env,
+  planId: string
+): Promise<Response> {
+  const url = new URL(request.url);
+  const session = await boardStub.usePlanSandboxSession(planId, url.searchParams.get('sessionId') || undefined);
+  if (!session) return noSessionResponse();
+
+  const path = resolveWorkspacePath(session.workDir, url.searchParams.get('path') || '');
+  if (!path) return outsideWorkspaceResponse();
+
+  let stream: ReadableStream<Uint8Array>;
+  try {
+    stream = await getSandbox(env.SANDBOX, session.sandboxId).readFileStream(path);
+  } catch (error) {
+    return jsonResponse({
+      success: false,
+      error: { code: 'NOT_FOUND', message: error instanceof Error ? error.message : 'File not found' },
+    }, 404);
+  }
+
+  // Text comes back as strings and binary as bytes; send both as bytes
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  const copy = async () => {
+    try {
+      for await (const chunk of streamFile(stream)) {
+        await writer.write(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      }
+      await writer.close();
+    } catch (error) {
+      logger.sandbox.warn('Sandbox file download failed', {
+        path,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await writer.abort(error);
+    }
+  };
+  void copy();
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': attachmentDisposition(path.slice(path.lastIndexOf('/') + 1)),
+    },
+  });
+}
+
+/**
+ * Handle downloading a file the agent published as an artifact
+ */
+export async function handleDownloadPublishedFile(
+  boardStub: BoardDOStub,
+  env: Env,
+  fileId: string
+): Promise<Response> {
+  const published = await boardStub.getPublishedFile(fileId);
+  if (!published) {
+    return jsonResponse({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'File not found' },
+    }, 404);
+  }
+
+  const { file, content } = published;
+  let body: BodyInit | null = content;
+  if (file.storage === 'r2') {
+    const object = await env.ARTIFACTS?.get(publishedFileKey(file.projectId, file.id));
+    body = object?.body ?? null;
+  }
+  if (!body) {
+    return jsonResponse({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'File content is missing' },
+    }, 404);
+  }
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': file.mimeType,
+      'Content-Disposition': attachmentDisposition(file.name),
+      'Content-Length': String(file.size),
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
@@ -0,0 +1,76 @@
+/**
+ * Sandbox preview proxy - reviewers open a dev server running in a sandbox
+ * session through the app, signed in as usual, and the Worker forwards the
+ * request to the container. Ports are never exposed publicly.
+ */
+
+import { getSandbox } from '@cloudflare/sandbox';
+import { jsonResponse } from '../utils/response';
+import { logger } from '../utils/logger';
+import {
+  previewRequestHeaders,
+  previewResponseHeaders,
+  previewTargetPath,
+} from '../workflows/sandboxPreviews';
+import type { BoardDO } from '../BoardDO';
+
+type BoardDOStub = DurableObjectStub<BoardDO>;
+
+/**
+ * Handle a request to a preview (any method, including WebSocket upgrades
+ * for dev servers with live reload)
+ */
+export async function handlePreviewRequest(
+  request: Request,
+  boardStub: BoardDOStub,
+  env: Env,
+  previewId: string
+): Promise<Response> {
+  const preview = await boardStub.useSandboxPreview(previewId);
+  if (!preview) {
+    return jsonResponse({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'This preview has ended' },
+    }, 404);
+  }
+
+  // Relative links in the page resolve against the base path only with the slash
+  const url = new URL(request.url);
+  if (`${url.pathname}/` === preview.url) {
+    return Response.redirect(`${url.origin}${preview.url}${url.search}`, 301);
+  }
+
+  const target = new URL(request.url);
+  target.pathname = previewTargetPath(preview, url.pathname);
+  const headers = previewRequestHeaders(request.headers);
+  const sandbox = getSandbox(env.SANDBOX, preview.sandboxId);
+
+  if (request.headers.get('Upgrade') === 'websocket') {
+    return sandbox.wsConnect(new Request(target, { method: request.method, headers }), preview.port);
+  }
+
+  let response: Response;
+  try {
+    response = await sandbox.containerFetch(new Request(target, {
+      method: request.method,
+      headers,
+      body: request.body,
+      redirect: 'manual',
+    }), preview.port);
+  } catch (error) {
+    logger.sandbox.warn('Preview request failed', {
+      previewId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return jsonResponse({
+      success: false,
+      error: { code: 'PREVIEW_UNAVAILABLE', message: 'The preview server is not responding' },
+    }, 502);
+  }
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: previewResponseHeaders(response.headers, preview),
+  });
+}
@@ -3,10 +3,28 @@
  */
 
 import { jsonResponse } from '../utils/response';
-import { handleGeneratePlan, handleResolveCheckpoint, handleCancelWorkflow } from './workflows';
+import {
+  handleGeneratePlan,
+  handleQueueTaskStart,
+  handleCancelQueuedStart,
+  handleResolveCheckpoint,
+  handleCancelWorkflow,
+  handleBranchWorkflow,
+  handleSendWorkflowMessage,
+  handleDownloadTranscript,
+} from './workflows';
+import { handlePreviewRequest } from './previews';
+import { handleListSandboxFiles, handleDownloadSandboxFile, handleDownloadPublishedFile } from './files';
 import type { BoardDO } from '../BoardDO';
 import type { UserDO } from '../UserDO';
 import type { AuthUser } from '../auth';
+import type { ToolPolicyConstraints, ToolPolicyMode } from '../workflows/toolPolicies';
+import type { AgentBudget } from '../workflows/budgets';
+import type { SandboxTemplate } from '../workflows/sandboxTemplates';
+import type { TaskScheduleInput } from '../workflows/schedules';
+import type { GitHubAuthMode } from '../constants';
+import type { WebhookConfigInput } from '../workflows/webhooks';
+import type { WebhookUpdate } from '../services';
 
 type BoardDOStub = DurableObjectStub<BoardDO>;
 type UserDOStub = DurableObjectStub<UserDO>;
@@ -40,7 +58,7 @@ export async function routeProjectRequest(
 
   // PUT /api/projects/:id - Update project
   if (!subPath && method === 'PUT') {
-    const data = await request.json() as { name?: string };
+    const data = await request.json() as { name?: string; githubAuth?: GitHubAuthMode };
     try {
       const project = await boardStub.updateProject(projectId, data);
       // Also update UserDO's project list if name changed
@@ -204,6 +222,15 @@ export async function routeProjectRequest(
     return handleGeneratePlan(env, boardStub, projectId, generatePlanMatch[1], user.id, body.agentId);
   }
 
+  // POST/DELETE /api/projects/:id/tasks/:taskId/start-when-ready - Queue a blocked task to start when its dependencies complete
+  const startWhenReadyMatch = subPath.match(/^\/tasks\/([^/]+)\/start-when-ready$/);
+  if (startWhenReadyMatch && method === 'POST') {
+    return handleQueueTaskStart(request, env, boardStub, projectId, startWhenReadyMatch[1], user.id);
+  }
+  if (startWhenReadyMatch && method === 'DELETE') {
+    return handleCancelQueuedStart(boardStub, startWhenReadyMatch[1]);
+  }
+
   // GET /api/projects/:id/tasks/:taskId/plan - Get task workflow plan
   const taskPlanMatch = subPath.match(/^\/tasks\/([^/]+)\/plan$/);
   if (taskPlanMatch && method === 'GET') {
@@ -234,6 +261,79 @@ export async function routeProjectRequest(
     }
   }
 
+  // ============================================
+  // SCHEDULE ROUTES
+  // ============================================
+
+  // GET /api/projects/:id/schedules - Get all task schedules (for next-run badges)
+  if (subPath === '/schedules' && method === 'GET') {
+    try {
+      const schedules = await boardStub.getProjectSchedules(projectId);
+      return jsonResponse({ success: true, data: schedules });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'FETCH_FAILED', message: error instanceof Error ? error.message : 'Failed to get schedules' },
+      }, 500);
+    }
+  }
+
+  const taskScheduleMatch = subPath.match(/^\/tasks\/([^/]+)\/schedule$/);
+
+  // GET /api/projects/:id/tasks/:taskId/schedule - Get a task's schedule
+  if (taskScheduleMatch && method === 'GET') {
+    try {
+      const schedule = await boardStub.getTaskSchedule(taskScheduleMatch[1]);
+      return jsonResponse({ success: true, data: schedule });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'FETCH_FAILED', message: error instanceof Error ? error.message : 'Failed to get schedule' },
+      }, 500);
+    }
+  }
+
+  // PUT /api/projects/:id/tasks/:taskId/schedule - Create or replace a task's schedule
+  if (taskScheduleMatch && method === 'PUT') {
+    const data = await request.json() as TaskScheduleInput;
+    try {
+      const schedule = await boardStub.setTaskSchedule(projectId, taskScheduleMatch[1], user.id, data);
+      return jsonResponse({ success: true, data: schedule });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error instanceof Error ? error.message : 'Invalid schedule' },
+      }, 400);
+    }
+  }
+
+  // DELETE /api/projects/:id/tasks/:taskId/schedule - Remove a task's schedule
+  if (taskScheduleMatch && method === 'DELETE') {
+    try {
+      await boardStub.deleteTaskSchedule(taskScheduleMatch[1]);
+      return jsonResponse({ success: true });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'NOT_FOUND', message: error instanceof Error ? error.message : 'Schedule not found' },
+      }, 404);
+    }
+  }
+
+  // GET /api/projects/:id/tasks/:taskId/schedule/runs - Get a task's scheduled run history
+  const scheduleRunsMatch = subPath.match(/^\/tasks\/([^/]+)\/schedule\/runs$/);
+  if (scheduleRunsMatch && method === 'GET') {
+    try {
+      const runs = await boardStub.getScheduleRuns(scheduleRunsMatch[1]);
+      return jsonResponse({ success: true, data: runs });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'FETCH_FAILED', message: error instanceof Error ? error.message : 'Failed to get schedule runs' },
+      }, 500);
+    }
+  }
+
   // ============================================
   // WORKFLOW PLAN ROUTES
   // ============================================
@@ -316,12 +416,25 @@ export async function routeProjectRequest(
     return handleResolveCheckpoint(request, env, boardStub, projectId, checkpointMatch[1]);
   }
 
+  // POST /api/projects/:id/plans/:planId/messages - Send a message to the running agent
+  const messagesMatch = subPath.match(/^\/plans\/([^/]+)\/messages$/);
+  if (messagesMatch && method === 'POST') {
+    return handleSendWorkflowMessage(request, boardStub, projectId, messagesMatch[1]);
+  }
+
   // POST /api/projects/:id/plans/:planId/cancel - Cancel workflow
   const cancelMatch = subPath.match(/^\/plans\/([^/]+)\/cancel$/);
   if (cancelMatch && method === 'POST') {
     return handleCancelWorkflow(env, boardStub, projectId, cancelMatch[1]);
   }
 
+  // POST /api/projects/:id/plans/:planId/retry - Retry a failed run from a turn
+  // POST /api/projects/:id/plans/:planId/fork - Re-run from a turn with edited instructions
+  const branchMatch = subPath.match(/^\/plans\/([^/]+)\/(retry|fork)$/);
+  if (branchMatch && method === 'POST') {
+    return handleBranchWorkflow(request, env, boardStub, projectId, branchMatch[1], user.id, branchMatch[2] as 'retry' | 'fork');
+  }
+
   // GET /api/projects/:id/plans/:planId/logs - Get workflow logs
   const logsMatch = subPath.match(/^\/plans\/([^/]+)\/logs$/);
   if (logsMatch && method === 'GET') {
@@ -340,6 +453,50 @@ export async function routeProjectRequest(
     }
   }
 
+  // GET /api/projects/:id/plans/:planId/output - Get the end of each step's sandbox output
+  const outputMatch = subPath.match(/^\/plans\/([^/]+)\/output$/);
+  if (outputMatch && method === 'GET') {
+    try {
+      const output = await boardStub.getSandboxOutput(outputMatch[1]);
+      return jsonResponse({ success: true, data: output });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'NOT_FOUND', message: error instanceof Error ? error.message : 'Output not found' },
+      }, 404);
+    }
+  }
+
+  // GET /api/projects/:id/plans/:planId/output/:stepId - Download a step's full transcript
+  const transcriptMatch = subPath.match(/^\/plans\/([^/]+)\/output\/([^/]+)$/);
+  if (transcriptMatch && method === 'GET') {
+    return handleDownloadTranscript(boardStub, transcriptMatch[1], transcriptMatch[2]);
+  }
+
+  // GET /api/projects/:id/plans/:planId/files - List a directory of the run's live sandbox
+  const filesMatch = subPath.match(/^\/plans\/([^/]+)\/files$/);
+  if (filesMatch && method === 'GET') {
+    return handleListSandboxFiles(request, boardStub, env, filesMatch[1]);
+  }
+
+  // GET /api/projects/:id/plans/:planId/files/download - Download a file from the run's live sandbox
+  const fileDownloadMatch = subPath.match(/^\/plans\/([^/]+)\/files\/download$/);
+  if (fileDownloadMatch && method === 'GET') {
+    return handleDownloadSandboxFile(request, boardStub, env, fileDownloadMatch[1]);
+  }
+
+  // GET /api/projects/:id/files/:fileId - Download a file the agent published
+  const publishedFileMatch = subPath.match(/^\/files\/([^/]+)$/);
+  if (publishedFileMatch && method === 'GET') {
+    return handleDownloadPublishedFile(boardStub, env, publishedFileMatch[1]);
+  }
+
+  // /api/projects/:id/previews/:previewId/* - Open a dev server running in a sandbox session
+  const previewMatch = subPath.match(/^\/previews\/([^/]+)(\/.*)?$/);
+  if (previewMatch) {
+    return handlePreviewRequest(request, boardStub, env, previewMatch[1]);
+  }
+
   // ============================================
   // CREDENTIAL ROUTES
   // ============================================
@@ -562,6 +719,8 @@ export async function routeProjectRequest(
         description?: string;
         inputSchema: object;
         approvalRequiredFields?: string[];
+        mutating?: boolean;
+        annotations?: Record<string, unknown>;
       }>;
     };
     try {
@@ -644,6 +803,241 @@ export async function routeProjectRequest(
     }
   }
 
+  // ============================================
+  // BUDGET ROUTES
+  // ============================================
+
+  // GET /api/projects/:id/budget - Get the project's run budget
+  if (subPath === '/budget' && method === 'GET') {
+    try {
+      const budget = await boardStub.getBudget(projectId);
+      return jsonResponse({ success: true, data: budget });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'BUDGET_FAILED', message: error instanceof Error ? error.message : 'Failed to get budget' },
+      }, 500);
+    }
+  }
+
+  // PUT /api/projects/:id/budget - Replace the project's run budget (null clears it)
+  if (subPath === '/budget' && method === 'PUT') {
+    const data = await request.json() as { budget: AgentBudget | null };
+    try {
+      const budget = await boardStub.setBudget(projectId, data.budget);
+      return jsonResponse({ success: true, data: budget });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error instanceof Error ? error.message : 'Invalid budget' },
+      }, 400);
+    }
+  }
+
+  // ============================================
+  // SANDBOX TEMPLATE ROUTES
+  // ============================================
+
+  // GET /api/projects/:id/sandbox-template - Get the project's sandbox template
+  if (subPath === '/sandbox-template' && method === 'GET') {
+    try {
+      const template = await boardStub.getSandboxTemplate(projectId);
+      return jsonResponse({ success: true, data: template });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'SANDBOX_TEMPLATE_FAILED', message: error instanceof Error ? error.message : 'Failed to get sandbox template' },
+      }, 500);
+    }
+  }
+
+  // PUT /api/projects/:id/sandbox-template - Replace the project's sandbox template (null clears it)
+  if (subPath === '/sandbox-template' && method === 'PUT') {
+    const data = await request.json() as { template: SandboxTemplate | null };
+    try {
+      const template = await boardStub.setSandboxTemplate(projectId, data.template);
+      return jsonResponse({ success: true, data: template });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error instanceof Error ? error.message : 'Invalid sandbox template' },
+      }, 400);
+    }
+  }
+
+  // ============================================
+  // WEBHOOK ROUTES
+  // ============================================
+
+  // GET /api/projects/:id/webhooks - Get the project's inbound webhooks
+  if (subPath === '/webhooks' && method === 'GET') {
+    try {
+      const webhooks = await boardStub.getWebhooks(projectId);
+      return jsonResponse({ success: true, data: webhooks });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'FETCH_FAILED', message: error instanceof Error ? error.message : 'Failed to get webhooks' },
+      }, 500);
+    }
+  }
+
+  // POST /api/projects/:id/webhooks - Create a webhook; tasks it creates act as the current user
+  if (subPath === '/webhooks' && method === 'POST') {
+    const data = await request.json() as WebhookConfigInput;
+    try {
+      const webhook = await boardStub.createWebhook(projectId, user.id, data);
+      return jsonResponse({ success: true, data: webhook });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error instanceof Error ? error.message : 'Invalid webhook' },
+      }, 400);
+    }
+  }
+
+  const webhookMatch = subPath.match(/^\/webhooks\/([^/]+)$/);
+
+  // PUT /api/projects/:id/webhooks/:webhookId - Update a webhook (or regenerate its secret)
+  if (webhookMatch && method === 'PUT') {
+    const data = await request.json() as WebhookUpdate;
+    try {
+      const webhook = await boardStub.updateWebhook(webhookMatch[1], data);
+      return jsonResponse({ success: true, data: webhook });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error instanceof Error ? error.message : 'Invalid webhook' },
+      }, 400);
+    }
+  }
+
+  // DELETE /api/projects/:id/webhooks/:webhookId - Delete a webhook and its delivery log
+  if (webhookMatch && method === 'DELETE') {
+    try {
+      await boardStub.deleteWebhook(webhookMatch[1]);
+      return jsonResponse({ success: true });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'NOT_FOUND', message: error instanceof Error ? error.message : 'Webhook not found' },
+      }, 404);
+    }
+  }
+
+  // GET /api/projects/:id/webhooks/:webhookId/deliveries - Get a webhook's recent deliveries
+  const webhookDeliveriesMatch = subPath.match(/^\/webhooks\/([^/]+)\/deliveries$/);
+  if (webhookDeliveriesMatch && method === 'GET') {
+    try {
+      const deliveries = await boardStub.getWebhookDeliveries(webhookDeliveriesMatch[1]);
+      return jsonResponse({ success: true, data: deliveries });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'FETCH_FAILED', message: error instanceof Error ? error.message : 'Failed to get webhook deliveries' },
+      }, 500);
+    }
+  }
+
+  // ============================================
+  // SANDBOX ROUTES
+  // ============================================
+
+  // GET /api/projects/:id/sandboxes - Get the project's live sandbox sessions
+  if (subPath === '/sandboxes' && method === 'GET') {
+    try {
+      const sessions = await boardStub.getSandboxSessions(projectId);
+      return jsonResponse({ success: true, data: sessions });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'FETCH_FAILED', message: error instanceof Error ? error.message : 'Failed to get sandboxes' },
+      }, 500);
+    }
+  }
+
+  // DELETE /api/projects/:id/sandboxes/:sessionId - Destroy a sandbox
+  const sandboxMatch = subPath.match(/^\/sandboxes\/([^/]+)$/);
+  if (sandboxMatch && method === 'DELETE') {
+    try {
+      await boardStub.destroySandboxSession(sandboxMatch[1]);
+      return jsonResponse({ success: true });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'NOT_FOUND', message: error instanceof Error ? error.message : 'Sandbox not found' },
+      }, 404);
+    }
+  }
+
+  // ============================================
+  // USAGE ROUTES
+  // ============================================
+
+  // GET /api/projects/:id/usage?since=ISO - Get token usage and cost by agent
+  if (subPath === '/usage' && method === 'GET') {
+    const since = new URL(request.url).searchParams.get('since') || undefined;
+    try {
+      const summary = await boardStub.getUsageSummary(projectId, since);
+      return jsonResponse({ success: true, data: summary });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'USAGE_FAILED', message: error instanceof Error ? error.message : 'Failed to get usage' },
+      }, 500);
+    }
+  }
+
+  // ============================================
+  // TOOL POLICY ROUTES
+  // ============================================
+
+  // GET /api/projects/:id/tool-policies - Get tool permission policies
+  if (subPath === '/tool-policies' && method === 'GET') {
+    try {
+      const policies = await boardStub.getToolPolicies(projectId);
+      return jsonResponse({ success: true, data: policies });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'NOT_FOUND', message: error instanceof Error ? error.message : 'Failed to get tool policies' },
+      }, 500);
+    }
+  }
+
+  // PUT /api/projects/:id/tool-policies - Create or update a tool policy
+  if (subPath === '/tool-policies' && method === 'PUT') {
+    const data = await request.json() as {
+      serverName: string;
+      toolName: string;
+      mode: ToolPolicyMode;
+      constraints?: ToolPolicyConstraints | null;
+    };
+    try {
+      const policy = await boardStub.upsertToolPolicy(projectId, data);
+      return jsonResponse({ success: true, data: policy });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'UPDATE_FAILED', message: error instanceof Error ? error.message : 'Failed to save tool policy' },
+      }, 400);
+    }
+  }
+
+  // DELETE /api/projects/:id/tool-policies/:policyId - Delete a tool policy
+  const toolPolicyMatch = subPath.match(/^\/tool-policies\/([^/]+)$/);
+  if (toolPolicyMatch && method === 'DELETE') {
+    try {
+      await boardStub.deleteToolPolicy(projectId, toolPolicyMatch[1]);
+      return jsonResponse({ success: true });
+    } catch (error) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'DELETE_FAILED', message: error instanceof Error ? error.message : 'Failed to delete tool policy' },
+      }, 500);
+    }
+  }
+
   // ============================================
   // GITHUB ROUTES
   // ============================================
@@ -0,0 +1,331 @@
+/**
+ * Inbound webhook delivery - public endpoint, authenticated per webhook by
+ * signature (or the Gmail push token) instead of a user session
+ */
+
+import { jsonResponse } from '../utils/response';
+import { logger } from '../utils/logger';
+import { CREDENTIAL_TYPES } from '../constants';
+import { handleGeneratePlan } from './workflows';
+import {
+  MAX_WEBHOOK_BODY_BYTES,
+  matchesConditions,
+  parseGmailPush,
+  parseWebhookBody,
+  taskFromEvent,
+  timingSafeEqual,
+  verifyWebhookSignature,
+  type WebhookConfig,
+  type WebhookDelivery,
+  type WebhookEvent,
+} from '../workflows/webhooks';
+import type { BoardDO } from '../BoardDO';
+
+type BoardDOStub = DurableObjectStub<BoardDO>;
+
+const GMAIL_API_BASE = 'https://gmail.googleapis.com/gmail/v1';
+
+/** New messages looked at per Gmail push */
+const MAX_GMAIL_MESSAGES = 5;
+
+/** An event ready to be turned into a task */
+interface IncomingEvent {
+  context: WebhookEvent;
+  /** Source-side id used to drop repeats */
+  dedupeKey: string | null;
+}
+
+/**
+ * Handle POST /api/webhooks/:projectId/:webhookId
+ */
+export async function handleWebhookDelivery(
+  request: Request,
+  env: Env,
+  url: URL,
+  projectId: string,
+  webhookId: string
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return jsonResponse({
+      success: false,
+      error: { code: 'METHOD_NOT_ALLOWED', message: 'Webhooks only accept POST' },
+    }, 405);
+  }
+
+  const declaredLength = Number(request.headers.get('Content-Length') || 0);
+  const body = declaredLength > MAX_WEBHOOK_BODY_BYTES ? null : await request.text();
+  if (body === null || new TextEncoder().encode(body).length > MAX_WEBHOOK_BODY_BYTES) {
+    return jsonResponse({
+      success: false,
+      error: { code: 'PAYLOAD_TOO_LARGE', message: 'Webhook body is too large' },
+    }, 413);
+  }
+
+  const boardStub = env.BOARD_DO.get(env.BOARD_DO.idFromName(projectId)) as BoardDOStub;
+
+  let webhook: WebhookConfig;
+  try {
+    webhook = await boardStub.getWebhook(webhookId);
+  } catch {
+    return jsonResponse({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'Webhook not found' },
+    }, 404);
+  }
+  if (webhook.projectId !== projectId) {
+    return jsonResponse({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'Webhook not found' },
+    }, 404);
+  }
+
+  const event = eventName(webhook, request);
+
+  if (!await verifyDelivery(webhook, request, url, body)) {
+    await boardStub.recordWebhookDelivery(webhook.id, {
+      event,
+      status: 'rejected',
+      message: 'Signature check failed',
+    });
+    return jsonResponse({
+      success: false,
+      error: { code: 'UNAUTHORIZED', message: 'Invalid webhook signature' },
+    }, 401);
+  }
+
+  if (!webhook.enabled) {
+    const delivery = await boardStub.recordWebhookDelivery(webhook.id, {
+      event,
+      status: 'ignored',
+      message: 'Webhook is disabled',
+    });
+    return jsonResponse({ success: true, data: [delivery] });
+  }
+
+  // GitHub sends a ping when the webhook is added
+  if (webhook.source === 'github' && event === 'ping') {
+    const delivery = await boardStub.recordWebhookDelivery(webhook.id, {
+      event,
+      status: 'ignored',
+      message: 'Ping received',
+      payload: body,
+    });
+    return jsonResponse({ success: true, data: [delivery] });
+  }
+
+  let events: IncomingEvent[];
+  if (webhook.source === 'gmail') {
+    try {
+      events = await gmailEvents(env, boardStub, webhook, body);
+    } catch (error) {
+      const delivery = await boardStub.recordWebhookDelivery(webhook.id, {
+        event,
+        status: 'failed',
+        message: error instanceof Error ? error.message : 'Failed to read new Gmail messages',
+        payload: body,
+      });
+      // Still 200 so Pub/Sub does not redeliver a push we cannot act on
+      return jsonResponse({ success: true, data: [delivery] });
+    }
+  } else {
+    events = [{
+      context: { event, payload: parseWebhookBody(body) },
+      dedupeKey: request.headers.get('X-GitHub-Delivery') || request.headers.get('X-Webhook-Delivery'),
+    }];
+  }
+
+  const deliveries: WebhookDelivery[] = [];
+  for (const incoming of events) {
+    deliveries.push(await processEvent(env, boardStub, webhook, incoming));
+  }
+
+  return jsonResponse({ success: true, data: deliveries });
+}
+
+/**
+ * Turn one event into a task (and a run), logging the outcome
+ */
+async function processEvent(
+  env: Env,
+  boardStub: BoardDOStub,
+  webhook: WebhookConfig,
+  incoming: IncomingEvent
+): Promise<WebhookDelivery> {
+  const { context, dedupeKey } = incoming;
+  const base = {
+    event: context.event,
+    dedupeKey,
+    payload: JSON.stringify(context.payload),
+  };
+
+  if (dedupeKey && await boardStub.hasWebhookDelivery(webhook.id, dedupeKey)) {
+    return boardStub.recordWebhookDelivery(webhook.id, { ...base, status: 'ignored', message: 'Already delivered' });
+  }
+
+  if (!matchesConditions(webhook.conditions, context)) {
+    return boardStub.recordWebhookDelivery(webhook.id, { ...base, status: 'ignored', message: 'Conditions not met' });
+  }
+
+  const columnId = await boardStub.getWebhookTargetColumn(webhook);
+  if (!columnId) {
+    return boardStub.recordWebhookDelivery(webhook.id, { ...base, status: 'failed', message: 'Project has no columns' });
+  }
+
+  const { title, description } = taskFromEvent(webhook, context);
+  let taskId: string;
+  try {
+    const task = await boardStub.createTask({
+      columnId,
+      projectId: webhook.projectId,
+      userId: webhook.userId,
+      title,
+      description,
+    });
+    taskId = task.id;
+  } catch (error) {
+    return boardStub.recordWebhookDelivery(webhook.id, {
+      ...base,
+      status: 'failed',
+      message: error instanceof Error ? error.message : 'Failed to create task',
+    });
+  }
+
+  if (!webhook.autoStart) {
+    return boardStub.recordWebhookDelivery(webhook.id, { ...base, status: 'created', taskId });
+  }
+
+  try {
+    const response = await handleGeneratePlan(
+      env,
+      boardStub,
+      webhook.projectId,
+      taskId,
+      webhook.userId,
+      webhook.template.agentId || undefined
+    );
+    const result = await response.json() as { success: boolean; data?: { id: string }; error?: { message: string } };
+    if (result.success && result.data) {
+      return boardStub.recordWebhookDelivery(webhook.id, { ...base, status: 'started', taskId, planId: result.data.id });
+    }
+    return boardStub.recordWebhookDelivery(webhook.id, {
+      ...base,
+      status: 'failed',
+      taskId,
+      message: result.error?.message || 'Failed to start agent',
+    });
+  } catch (error) {
+    logger.worker.error('Webhook failed to start agent', { webhookId: webhook.id, error: error instanceof Error ? error.message : String(error) });
+    return boardStub.recordWebhookDelivery(webhook.id, {
+      ...base,
+      status: 'failed',
+      taskId,
+      message: error instanceof Error ? error.message : 'Failed to start agent',
+    });
+  }
+}
+
+function eventName(webhook: WebhookConfig, request: Request): string {
+  switch (webhook.source) {
+    case 'github':
+      return request.headers.get('X-GitHub-Event') || 'unknown';
+    case 'gmail':
+      return 'gmail';
+    case 'generic':
+      return request.headers.get('X-Webhook-Event') || 'webhook';
+  }
+}
+
+async function verifyDelivery(webhook: WebhookConfig, request: Request, url: URL, body: string): Promise<boolean> {
+  switch (webhook.source) {
+    case 'github':
+      return verifyWebhookSignature(webhook.secret, body, request.headers.get('X-Hub-Signature-256'));
+    case 'generic':
+      return verifyWebhookSignature(webhook.secret, body, request.headers.get('X-Webhook-Signature'));
+    case 'gmail':
+      return timingSafeEqual(url.searchParams.get('token') || '', webhook.secret);
+  }
+}
+
+/**
+ * Gmail pushes only say the mailbox changed, so look up recent messages
+ * matching the webhook's query. Each message is deduped by its id.
+ */
+async function gmailEvents(env: Env, boardStub: BoardDOStub, webhook: WebhookConfig, body: string): Promise<IncomingEvent[]> {
+  const push = parseGmailPush(body);
+  if (!push) {
+    throw new Error('Not a Gmail push notification');
+  }
+
+  let accessToken = await boardStub.getValidAccessToken(webhook.projectId, CREDENTIAL_TYPES.GOOGLE_OAUTH);
+  if (!accessToken) {
+    try {
+      const userTasksStub = env.BOARD_DO.get(env.BOARD_DO.idFromName(`user-tasks-${webhook.userId}`)) as BoardDOStub;
+      accessToken = await userTasksStub.getValidAccessToken('__global__', CREDENTIAL_TYPES.GOOGLE_OAUTH);
+    } catch {
+      // User container may not exist yet, ignore
+    }
+  }
+  if (!accessToken) {
+    throw new Error('Google account is not connected');
+  }
+
+  const params = new URLSearchParams({
+    q: webhook.gmailQuery || 'is:unread',
+    maxResults: String(MAX_GMAIL_MESSAGES),
+  });
+  const list = await gmailFetch(`${GMAIL_API_BASE}/users/me/messages?${params}`, accessToken) as {
+    messages?: Array<{ id: string }>;
+  };
+
+  const events: IncomingEvent[] = [];
+  for (const { id } of list.messages || []) {
+    if (await boardStub.hasWebhookDelivery(webhook.id, id)) continue;
+
+    const metadata = new URLSearchParams({ format: 'metadata' });
+    for (const header of ['From', 'To', 'Subject', 'Date']) {
+      metadata.append('metadataHeaders', header);
+    }
+    const message = await gmailFetch(`${GMAIL_API_BASE}/users/me/messages/${id}?${metadata}`, accessToken) as {
+      id: string;
+      threadId: string;
+      snippet?: string;
+      labelIds?: string[];
+      payload?: { headers?: Array<{ name: string; value: string }> };
+    };
+    const header = (name: string) =>
+      message.payload?.headers?.find((h) => h.name.toLowerCase() === name.toLowerCase())?.value || '';
+
+    events.push({
+      dedupeKey: message.id,
+      context: {
+        event: 'gmail',
+        payload: {
+          emailAddress: push.emailAddress,
+          historyId: push.historyId,
+          message: {
+            id: message.id,
+            threadId: message.threadId,
+            from: header('From'),
+            to: header('To'),
+            subject: header('Subject'),
+            date: header('Date'),
+            snippet: message.snippet || '',
+            labels: message.labelIds || [],
+          },
+        },
+      },
+    });
+  }
+
+  return events;
+}
+
+async function gmailFetch(url: string, accessToken: string): Promise<unknown> {
+  const response = await fetch(url, {
+    headers: { 'Authorization': `Bearer ${accessToken}` },
+  });
+  if (!response.ok) {
+    throw new Error(`Gmail API error: ${response.status}`);
+  }
+  return response.json();
+}
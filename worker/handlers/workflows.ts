@@ -1,15 +1,37 @@
 /**
- * Workflow handlers for plan generation, checkpoints, and cancellation
+ * Workflow handlers for plan generation, dependency queueing, scheduled runs, retries
+ * and forks, checkpoints, user messages, cancellation and transcript downloads
  */
 
 import { type AgentWorkflowParams } from '../workflows/AgentWorkflow';
 import { jsonResponse } from '../utils/response';
 import { logger } from '../utils/logger';
 import { CREDENTIAL_TYPES } from '../constants';
+import { mergeBudgets, type AgentBudget } from '../workflows/budgets';
+import { resolveBranchTurn, type BranchMode } from '../workflows/branching';
+import { OPEN_PLAN_STATUSES, type ScheduleRunStatus, type TaskSchedule } from '../workflows/schedules';
+import { blockingDependencies, buildTaskPrompt, type QueuedStart, type TaskDependency } from '../workflows/dependencies';
 import type { BoardDO } from '../BoardDO';
 
 type BoardDOStub = DurableObjectStub<BoardDO>;
 
+/** Where a retried or forked run picks up */
+interface RunBranch {
+  parentPlanId: string;
+  fromTurn: number;
+  mode: BranchMode;
+}
+
+function blockedResponse(blocking: TaskDependency[]): Response {
+  return jsonResponse({
+    success: false,
+    error: {
+      code: 'BLOCKED_BY_DEPENDENCIES',
+      message: `Waiting on: ${blocking.map((d) => d.title).join(', ')}`,
+    },
+  }, 409);
+}
+
 /**
  * Handle generate-plan request - starts agent workflow for a task
  */
@@ -29,7 +51,7 @@ export async function handleGeneratePlan(
   }
 
   // Get the task details
-  let task: { id: string; projectId?: string | null; title: string; description?: string | null };
+  let task: { id: string; projectId?: string | null; title: string; description?: string | null; context: object | null };
   try {
     task = await boardStub.getTask(taskId);
   } catch {
@@ -39,15 +61,241 @@ export async function handleGeneratePlan(
     }, 404);
   }
 
+  // A task only starts once everything it depends on has completed
+  const dependencies = await boardStub.getTaskDependencies(taskId);
+  const blocking = blockingDependencies(dependencies);
+  if (blocking.length > 0) {
+    return blockedResponse(blocking);
+  }
+
+  return startAgentRun(env, boardStub, boardId, taskId, userId, buildTaskPrompt(task, dependencies), agentId);
+}
+
+/**
+ * Handle start-when-ready request - starts a task now if its dependencies have
+ * completed, otherwise queues it to start when the last one does
+ */
+export async function handleQueueTaskStart(
+  request: Request,
+  env: Env,
+  boardStub: BoardDOStub,
+  boardId: string,
+  taskId: string,
+  userId: string
+): Promise<Response> {
+  const body = await request.json().catch(() => ({})) as { agentId?: string };
+
+  let dependencies: TaskDependency[];
+  try {
+    dependencies = await boardStub.getTaskDependencies(taskId);
+  } catch {
+    return jsonResponse({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'Task not found' },
+    }, 404);
+  }
+
+  if (blockingDependencies(dependencies).length === 0) {
+    return handleGeneratePlan(env, boardStub, boardId, taskId, userId, body.agentId);
+  }
+
+  const task = await boardStub.setQueuedStart(taskId, {
+    boardId,
+    userId,
+    agentId: body.agentId || null,
+    queuedAt: new Date().toISOString(),
+  });
+  return jsonResponse({ success: true, data: task }, 202);
+}
+
+/**
+ * Handle request to stop waiting on dependencies
+ */
+export async function handleCancelQueuedStart(
+  boardStub: BoardDOStub,
+  taskId: string
+): Promise<Response> {
+  try {
+    const task = await boardStub.setQueuedStart(taskId, null);
+    return jsonResponse({ success: true, data: task });
+  } catch {
+    return jsonResponse({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'Task not found' },
+    }, 404);
+  }
+}
+
+/**
+ * Start a queued task if its dependencies have all completed. Tasks that are
+ * still waiting on another dependency stay queued.
+ */
+export async function startQueuedTask(
+  env: Env,
+  boardStub: BoardDOStub,
+  taskId: string,
+  queued: QueuedStart
+): Promise<void> {
+  const dependencies = await boardStub.getTaskDependencies(taskId);
+  if (blockingDependencies(dependencies).length > 0) {
+    return;
+  }
+
+  await boardStub.setQueuedStart(taskId, null);
+  const response = await handleGeneratePlan(
+    env,
+    boardStub,
+    queued.boardId,
+    taskId,
+    queued.userId,
+    queued.agentId || undefined
+  );
+  if (!response.ok) {
+    const result = await response.json() as { error?: { message: string } };
+    logger.workflow.warn('Queued task failed to start', { taskId, error: result.error?.message });
+  }
+}
+
+/**
+ * Start the agent run for a due schedule. Skipped while the task's previous
+ * run is still open, so slow runs don't pile up, or while it waits on dependencies.
+ */
+export async function runScheduledTask(
+  env: Env,
+  boardStub: BoardDOStub,
+  schedule: TaskSchedule
+): Promise<{ status: ScheduleRunStatus; planId?: string; message?: string }> {
+  const previous = await boardStub.getTaskWorkflowPlan(schedule.taskId);
+  if (previous && OPEN_PLAN_STATUSES.includes(previous.status)) {
+    return { status: 'skipped', planId: previous.id, message: 'The previous run is still open' };
+  }
+
+  const blocking = blockingDependencies(await boardStub.getTaskDependencies(schedule.taskId));
+  if (blocking.length > 0) {
+    return { status: 'skipped', message: `Waiting on: ${blocking.map((d) => d.title).join(', ')}` };
+  }
+
+  const response = await handleGeneratePlan(
+    env,
+    boardStub,
+    schedule.projectId,
+    schedule.taskId,
+    schedule.userId,
+    schedule.agentId || undefined
+  );
+  const result = await response.json() as { success: boolean; data?: { id: string }; error?: { message: string } };
+
+  if (result.success && result.data) {
+    return { status: 'started', planId: result.data.id };
+  }
+  return { status: 'failed', message: result.error?.message || 'Failed to start agent' };
+}
+
+/**
+ * Handle retry/fork request - starts a new run seeded with an earlier run's
+ * conversation up to a chosen turn. Forks also replace the instructions.
+ */
+export async function handleBranchWorkflow(
+  request: Request,
+  env: Env,
+  boardStub: BoardDOStub,
+  boardId: string,
+  planId: string,
+  userId: string,
+  mode: BranchMode
+): Promise<Response> {
+  if (!env.AGENT_WORKFLOW) {
+    return jsonResponse({
+      success: false,
+      error: { code: 'NOT_CONFIGURED', message: 'Agent workflow not configured' },
+    }, 500);
+  }
+
+  let parent: { id: string; taskId: string; status: string; agentId: string | null; instructions: string | null };
+  try {
+    parent = await boardStub.getWorkflowPlan(planId);
+  } catch {
+    return jsonResponse({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'Plan not found' },
+    }, 404);
+  }
+
+  if (parent.status !== 'failed') {
+    return jsonResponse({
+      success: false,
+      error: { code: 'INVALID_STATE', message: 'Only failed or cancelled runs can be retried or forked' },
+    }, 400);
+  }
+
+  const body = await request.json().catch(() => ({})) as { fromTurn?: number | null; instructions?: string };
+
+  let instructions = parent.instructions;
+  if (mode === 'fork') {
+    if (!body.instructions?.trim()) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'instructions are required to fork a run' },
+      }, 400);
+    }
+    instructions = body.instructions.trim();
+  }
+
+  const turns = await boardStub.getConversationTurns(planId);
+  const resolved = resolveBranchTurn(turns, body.fromTurn);
+  if ('error' in resolved) {
+    return jsonResponse({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: resolved.error },
+    }, 400);
+  }
+
+  // Runs from before instructions were recorded fall back to the current task text
+  if (!instructions) {
+    try {
+      const task = await boardStub.getTask(parent.taskId);
+      instructions = buildTaskPrompt(task, await boardStub.getTaskDependencies(parent.taskId));
+    } catch {
+      return jsonResponse({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Task not found' },
+      }, 404);
+    }
+  }
+
+  return startAgentRun(env, boardStub, boardId, parent.taskId, userId, instructions, parent.agentId ?? undefined, {
+    parentPlanId: parent.id,
+    fromTurn: resolved.turn,
+    mode,
+  });
+}
+
+/**
+ * Create the plan record and start an AgentWorkflow instance for it
+ */
+async function startAgentRun(
+  env: Env,
+  boardStub: BoardDOStub,
+  boardId: string,
+  taskId: string,
+  userId: string,
+  taskDescription: string,
+  agentId?: string,
+  branch?: RunBranch
+): Promise<Response> {
   // If an agent is specified, look up its system prompt
   let customSystemPrompt: string | undefined;
   let agentModel: string | undefined;
+  let runAgentId: string | undefined;
+  let agentBudget: AgentBudget | null = null;
   if (agentId) {
     try {
       const agent = await boardStub.getAgent(agentId);
       if (agent.enabled) {
         customSystemPrompt = agent.systemPrompt;
         agentModel = agent.model;
+        runAgentId = agent.id;
+        agentBudget = agent.budget;
       }
     } catch {
       // Agent not found, continue with default
@@ -62,8 +310,17 @@ export async function handleGeneratePlan(
     await boardStub.createWorkflowPlan(taskId, {
       id: planId,
       projectId: boardId,
+      // Recorded so usage can be broken down by agent
+      agentId: runAgentId,
+      instructions: taskDescription,
+      parentPlanId: branch?.parentPlanId,
+      parentTurn: branch?.fromTurn,
+      branchMode: branch?.mode,
       // status is set to 'executing' by default
     });
+    if (branch) {
+      await boardStub.copyConversationTurns(branch.parentPlanId, planId, branch.fromTurn);
+    }
   } catch {
     return jsonResponse({
       success: false,
@@ -83,10 +340,16 @@ export async function handleGeneratePlan(
     }, 400);
   }
 
-  // Combine task title and description for agent
-  const taskDescription = task.title && task.description
-    ? `${task.title}\n\n${task.description}`
-    : task.title || task.description || 'No task description provided';
+  // Budgets: user defaults, then project, then agent (most specific wins)
+  const userTasksStub = env.BOARD_DO.get(env.BOARD_DO.idFromName(`user-tasks-${userId}`)) as BoardDOStub;
+  let userBudget: AgentBudget | null = null;
+  try {
+    userBudget = await userTasksStub.getBudget('__global__');
+  } catch {
+    // User container may not exist yet, ignore
+  }
+  const projectBudget = await boardStub.getBudget(boardId);
+  const budget = mergeBudgets(userBudget, projectBudget, agentBudget);
 
   // Start the agent workflow directly
   try {
@@ -99,6 +362,8 @@ export async function handleGeneratePlan(
       anthropicApiKey,
       customSystemPrompt,
       agentModel,
+      budget,
+      startTurn: branch?.fromTurn,
     };
 
     await env.AGENT_WORKFLOW.create({
@@ -156,13 +421,27 @@ export async function handleResolveCheckpoint(
     feedback?: string;
   };
 
-  if (plan.status !== 'checkpoint') {
+  if (plan.status !== 'checkpoint' && plan.status !== 'budget_exceeded') {
     return jsonResponse({
       success: false,
       error: { code: 'INVALID_STATE', message: 'Workflow is not at a checkpoint' },
     }, 400);
   }
 
+  // Stopping a run that hit its budget ends the workflow instance too
+  if (plan.status === 'budget_exceeded' && body.action === 'cancel') {
+    try {
+      const instance = await env.AGENT_WORKFLOW.get(planId);
+      await instance.terminate();
+    } catch (error) {
+      logger.workflow.warn('Workflow terminate error (may be expected)', { planId, error: error instanceof Error ? error.message : String(error) });
+    }
+    await boardStub.updateWorkflowPlan(planId, { status: 'failed', result: { error: 'Stopped by user after reaching its budget' } });
+
+    const updatedPlan = await boardStub.getWorkflowPlan(planId);
+    return jsonResponse({ success: true, data: updatedPlan });
+  }
+
   // If cancelling (or legacy reject), just update the status and don't resume workflow
   if (body.action === 'cancel' || body.action === 'reject') {
     await boardStub.updateWorkflowPlan(planId, { status: 'failed', result: { error: 'Checkpoint cancelled by user' } });
@@ -203,6 +482,42 @@ export async function handleResolveCheckpoint(
   }
 }
 
+/**
+ * Handle a message sent to a running agent - queued until the end of the
+ * agent's current turn. Messages sent while it waits at a checkpoint are
+ * delivered once it resumes.
+ */
+export async function handleSendWorkflowMessage(
+  request: Request,
+  boardStub: BoardDOStub,
+  boardId: string,
+  planId: string
+): Promise<Response> {
+  // Only queue messages for plans of the board named in the route
+  const plan = await boardStub.getWorkflowPlan(planId).catch(() => null);
+  if (!plan || plan.projectId !== boardId) {
+    return jsonResponse({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'Plan not found' },
+    }, 404);
+  }
+
+  const body = await request.json() as { content?: unknown; interrupt?: boolean };
+
+  try {
+    const message = await boardStub.queueUserMessage(planId, {
+      content: body.content,
+      interrupt: body.interrupt,
+    });
+    return jsonResponse({ success: true, data: message });
+  } catch (error) {
+    return jsonResponse({
+      success: false,
+      error: { code: 'MESSAGE_FAILED', message: error instanceof Error ? error.message : 'Failed to send message' },
+    }, 400);
+  }
+}
+
 /**
  * Handle cancel workflow request - terminates running workflow
  */
@@ -231,7 +546,7 @@ export async function handleCancelWorkflow(
   }
 
   // Only allow cancelling running or checkpoint workflows
-  if (plan.status !== 'executing' && plan.status !== 'checkpoint') {
+  if (plan.status !== 'executing' && plan.status !== 'checkpoint' && plan.status !== 'budget_exceeded') {
     return jsonResponse({
       success: false,
       error: { code: 'INVALID_STATUS', message: `Cannot cancel plan with status: ${plan.status}` },
@@ -255,3 +570,27 @@ export async function handleCancelWorkflow(
   const updatedPlan = await boardStub.getWorkflowPlan(planId);
   return jsonResponse({ success: true, data: updatedPlan });
 }
+
+/**
+ * Handle a transcript download - a tool step's full sandbox output as text
+ */
+export async function handleDownloadTranscript(
+  boardStub: BoardDOStub,
+  planId: string,
+  stepId: string
+): Promise<Response> {
+  const transcript = await boardStub.getSandboxTranscript(planId, stepId);
+  if (transcript === null) {
+    return jsonResponse({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'No output for this step' },
+    }, 404);
+  }
+
+  return new Response(transcript, {
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${stepId.replace(/[^\w.-]/g, '_')}.log"`,
+    },
+  });
+}
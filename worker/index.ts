@@ -19,11 +19,27 @@ import {
   handleDeleteGlobalCredential,
 } from './handlers/oauth';
 import { routeProjectRequest } from './handlers/projects';
-import { handleGeneratePlan, handleResolveCheckpoint, handleCancelWorkflow } from './handlers/workflows';
+import { handleWebhookDelivery } from './handlers/webhooks';
+import { handlePreviewRequest } from './handlers/previews';
+import { handleListSandboxFiles, handleDownloadSandboxFile, handleDownloadPublishedFile } from './handlers/files';
+import {
+  handleGeneratePlan,
+  handleQueueTaskStart,
+  handleCancelQueuedStart,
+  handleResolveCheckpoint,
+  handleCancelWorkflow,
+  handleBranchWorkflow,
+  handleSendWorkflowMessage,
+  handleDownloadTranscript,
+} from './handlers/workflows';
 import type { BoardDO } from './BoardDO';
 import type { UserDO } from './UserDO';
 import type { RoadmapDO } from './RoadmapDO';
 import type { BugBoardDO } from './BugBoardDO';
+import type { ToolPolicyConstraints, ToolPolicyMode } from './workflows/toolPolicies';
+import { mergeUsageSummaries } from './workflows/usage';
+import type { AgentBudget } from './workflows/budgets';
+import type { NotificationChannelInput, NotificationEventType, NotificationSettings } from './workflows/notifications';
 
 export { BoardDO } from './BoardDO';
 export { UserDO } from './UserDO';
@@ -76,6 +92,12 @@ export default {
       return handleGoogleOAuthCallback(request, env, url);
     }
 
+    // Inbound webhooks - each webhook checks its own signature
+    const webhookMatch = url.pathname.match(/^\/api\/webhooks\/([^/]+)\/([^/]+)$/);
+    if (webhookMatch) {
+      return handleWebhookDelivery(request, env, url, webhookMatch[1], webhookMatch[2]);
+    }
+
     // ============================================
     // PROTECTED ROUTES (auth required)
     // ============================================
@@ -107,6 +129,7 @@ export default {
             logoutUrl: (env as AuthEnv).AUTH_MODE === 'access' && (env as AuthEnv).ACCESS_TEAM ? getLogoutUrl((env as AuthEnv).ACCESS_TEAM!) : null,
             config: {
               anthropicApiKeyConfigured: !!env.ANTHROPIC_API_KEY,
+              vapidPublicKey: env.VAPID_PUBLIC_KEY || null,
             },
           },
         });
@@ -585,6 +608,18 @@ export default {
         return handleGeneratePlan(env, boardStub, userTasksId, taskId, user.id, body.agentId);
       }
 
+      // POST/DELETE /api/tasks/:taskId/start-when-ready - Queue a blocked standalone task
+      const standaloneStartWhenReadyMatch = url.pathname.match(/^\/api\/tasks\/([^/]+)\/start-when-ready$/);
+      if (standaloneStartWhenReadyMatch && (request.method === 'POST' || request.method === 'DELETE')) {
+        const taskId = standaloneStartWhenReadyMatch[1];
+        const userTasksId = `user-tasks-${user.id}`;
+        const boardDoId = env.BOARD_DO.idFromName(userTasksId);
+        const boardStub = env.BOARD_DO.get(boardDoId) as BoardDOStub;
+        return request.method === 'POST'
+          ? handleQueueTaskStart(request, env, boardStub, userTasksId, taskId, user.id)
+          : handleCancelQueuedStart(boardStub, taskId);
+      }
+
       // GET /api/tasks/:taskId/plan - Get workflow plan for standalone task
       const standaloneTaskPlanMatch = url.pathname.match(/^\/api\/tasks\/([^/]+)\/plan$/);
       if (standaloneTaskPlanMatch && request.method === 'GET') {
@@ -601,6 +636,22 @@ export default {
       }
 
       // Standalone task plan-specific routes: /api/tasks/:taskId/plans/:planId/*
+      // GET /api/tasks/:taskId/files/:fileId - Download a file the agent published
+      const standaloneFileMatch = url.pathname.match(/^\/api\/tasks\/[^/]+\/files\/([^/]+)$/);
+      if (standaloneFileMatch && request.method === 'GET') {
+        const boardDoId = env.BOARD_DO.idFromName(`user-tasks-${user.id}`);
+        const boardStub = env.BOARD_DO.get(boardDoId) as BoardDOStub;
+        return handleDownloadPublishedFile(boardStub, env, standaloneFileMatch[1]);
+      }
+
+      // /api/tasks/:taskId/previews/:previewId/* - Open a dev server running in a sandbox session
+      const standalonePreviewMatch = url.pathname.match(/^\/api\/tasks\/[^/]+\/previews\/([^/]+)(\/.*)?$/);
+      if (standalonePreviewMatch) {
+        const boardDoId = env.BOARD_DO.idFromName(`user-tasks-${user.id}`);
+        const boardStub = env.BOARD_DO.get(boardDoId) as BoardDOStub;
+        return handlePreviewRequest(request, boardStub, env, standalonePreviewMatch[1]);
+      }
+
       const standalonePlanMatch = url.pathname.match(/^\/api\/tasks\/[^/]+\/plans\/([^/]+)(\/.*)?$/);
       if (standalonePlanMatch) {
         const planId = standalonePlanMatch[1];
@@ -614,11 +665,23 @@ export default {
           return handleResolveCheckpoint(request, env, boardStub, userTasksId, planId);
         }
 
+        // POST /api/tasks/:taskId/plans/:planId/messages - Send a message to the running agent
+        if (planAction === '/messages' && request.method === 'POST') {
+          return handleSendWorkflowMessage(request, boardStub, userTasksId, planId);
+        }
+
         // POST /api/tasks/:taskId/plans/:planId/cancel - Cancel workflow
         if (planAction === '/cancel' && request.method === 'POST') {
           return handleCancelWorkflow(env, boardStub, userTasksId, planId);
         }
 
+        // POST /api/tasks/:taskId/plans/:planId/retry - Retry a failed run from a turn
+        // POST /api/tasks/:taskId/plans/:planId/fork - Re-run from a turn with edited instructions
+        if ((planAction === '/retry' || planAction === '/fork') && request.method === 'POST') {
+          const mode = planAction === '/retry' ? 'retry' : 'fork';
+          return handleBranchWorkflow(request, env, boardStub, userTasksId, planId, user.id, mode);
+        }
+
         // GET /api/tasks/:taskId/plans/:planId - Get workflow plan
         if (!planAction && request.method === 'GET') {
           try {
@@ -645,6 +708,35 @@ export default {
           }
         }
 
+        // GET /api/tasks/:taskId/plans/:planId/output - Get the end of each step's sandbox output
+        if (planAction === '/output' && request.method === 'GET') {
+          try {
+            const output = await boardStub.getSandboxOutput(planId);
+            return jsonResponse({ success: true, data: output });
+          } catch {
+            return jsonResponse({
+              success: false,
+              error: { code: 'FETCH_FAILED', message: 'Failed to get output' },
+            }, 500);
+          }
+        }
+
+        // GET /api/tasks/:taskId/plans/:planId/files - List a directory of the run's live sandbox
+        if (planAction === '/files' && request.method === 'GET') {
+          return handleListSandboxFiles(request, boardStub, env, planId);
+        }
+
+        // GET /api/tasks/:taskId/plans/:planId/files/download - Download a file from the run's live sandbox
+        if (planAction === '/files/download' && request.method === 'GET') {
+          return handleDownloadSandboxFile(request, boardStub, env, planId);
+        }
+
+        // GET /api/tasks/:taskId/plans/:planId/output/:stepId - Download a step's full transcript
+        const transcriptMatch = planAction.match(/^\/output\/([^/]+)$/);
+        if (transcriptMatch && request.method === 'GET') {
+          return handleDownloadTranscript(boardStub, planId, transcriptMatch[1]);
+        }
+
         // GET /api/tasks/:taskId/plans/:planId/logs - Get workflow logs
         if (planAction === '/logs' && request.method === 'GET') {
           const limit = parseInt(url.searchParams.get('limit') || '100', 10);
@@ -714,6 +806,7 @@ export default {
           systemPrompt: string;
           model?: string;
           icon?: string;
+          budget?: AgentBudget | null;
         };
 
         let boardStub: BoardDOStub;
@@ -805,14 +898,15 @@ export default {
             model?: string;
             icon?: string;
             enabled?: boolean;
+            budget?: AgentBudget | null;
           };
           try {
             const agent = await boardStub.updateAgent(agentId, body);
             return jsonResponse({ success: true, data: agent });
-          } catch {
+          } catch (error) {
             return jsonResponse({
               success: false,
-              error: { code: 'UPDATE_FAILED', message: 'Failed to update agent' },
+              error: { code: 'UPDATE_FAILED', message: error instanceof Error ? error.message : 'Failed to update agent' },
             }, 500);
           }
         }
@@ -979,6 +1073,8 @@ export default {
               description?: string;
               inputSchema: object;
               approvalRequiredFields?: string[];
+              mutating?: boolean;
+              annotations?: Record<string, unknown>;
             }>;
           };
           try {
@@ -1012,6 +1108,201 @@ export default {
         }
       }
 
+      // ============================================
+      // GLOBAL TOOL POLICY ROUTES (/api/tool-policies)
+      // User-level policies, merged with project policies at run time
+      // ============================================
+
+      if (url.pathname === '/api/tool-policies' || url.pathname.startsWith('/api/tool-policies/')) {
+        const userTasksId = `user-tasks-${user.id}`;
+        const boardDoId = env.BOARD_DO.idFromName(userTasksId);
+        const boardStub = env.BOARD_DO.get(boardDoId) as BoardDOStub;
+
+        // GET /api/tool-policies - List user's global tool policies
+        if (url.pathname === '/api/tool-policies' && request.method === 'GET') {
+          const policies = await boardStub.getToolPolicies('__global__');
+          return jsonResponse({ success: true, data: policies });
+        }
+
+        // PUT /api/tool-policies - Create or update a global tool policy
+        if (url.pathname === '/api/tool-policies' && request.method === 'PUT') {
+          const body = await request.json() as {
+            serverName: string;
+            toolName: string;
+            mode: ToolPolicyMode;
+            constraints?: ToolPolicyConstraints | null;
+          };
+          try {
+            const policy = await boardStub.upsertToolPolicy('__global__', body);
+            return jsonResponse({ success: true, data: policy });
+          } catch (error) {
+            return jsonResponse({
+              success: false,
+              error: { code: 'UPDATE_FAILED', message: error instanceof Error ? error.message : 'Failed to save tool policy' },
+            }, 400);
+          }
+        }
+
+        // DELETE /api/tool-policies/:policyId - Delete a global tool policy
+        const globalPolicyMatch = url.pathname.match(/^\/api\/tool-policies\/([^/]+)$/);
+        if (globalPolicyMatch && request.method === 'DELETE') {
+          try {
+            await boardStub.deleteToolPolicy('__global__', globalPolicyMatch[1]);
+            return jsonResponse({ success: true });
+          } catch {
+            return jsonResponse({
+              success: false,
+              error: { code: 'DELETE_FAILED', message: 'Failed to delete tool policy' },
+            }, 500);
+          }
+        }
+      }
+
+      // ============================================
+      // GLOBAL BUDGET ROUTES
+      // User-level run budget, overridden by project and agent budgets
+      // ============================================
+
+      if (url.pathname === '/api/budget') {
+        const userTasksId = `user-tasks-${user.id}`;
+        const boardDoId = env.BOARD_DO.idFromName(userTasksId);
+        const boardStub = env.BOARD_DO.get(boardDoId) as BoardDOStub;
+
+        // GET /api/budget - Get the user's default run budget
+        if (request.method === 'GET') {
+          const budget = await boardStub.getBudget('__global__');
+          return jsonResponse({ success: true, data: budget });
+        }
+
+        // PUT /api/budget - Replace the user's default run budget (null clears it)
+        if (request.method === 'PUT') {
+          const body = await request.json() as { budget: AgentBudget | null };
+          try {
+            const budget = await boardStub.setBudget('__global__', body.budget);
+            return jsonResponse({ success: true, data: budget });
+          } catch (error) {
+            return jsonResponse({
+              success: false,
+              error: { code: 'VALIDATION_ERROR', message: error instanceof Error ? error.message : 'Invalid budget' },
+            }, 400);
+          }
+        }
+      }
+
+      // ============================================
+      // NOTIFICATION ROUTES
+      // Channels, digest settings and project mutes live in the user's container
+      // ============================================
+
+      if (url.pathname.startsWith('/api/notifications/')) {
+        const userTasksId = `user-tasks-${user.id}`;
+        const boardDoId = env.BOARD_DO.idFromName(userTasksId);
+        const boardStub = env.BOARD_DO.get(boardDoId) as BoardDOStub;
+        const subPath = url.pathname.slice('/api/notifications'.length);
+        const channelMatch = subPath.match(/^\/channels\/([^/]+)(\/test)?$/);
+        const muteMatch = subPath.match(/^\/mutes\/([^/]+)$/);
+
+        try {
+          // GET /api/notifications/channels - List the user's channels
+          if (subPath === '/channels' && request.method === 'GET') {
+            const channels = await boardStub.getNotificationChannels();
+            return jsonResponse({ success: true, data: channels });
+          }
+
+          // POST /api/notifications/channels - Add a channel
+          if (subPath === '/channels' && request.method === 'POST') {
+            const body = await request.json() as NotificationChannelInput;
+            const channel = await boardStub.createNotificationChannel(body, url.origin);
+            return jsonResponse({ success: true, data: channel }, 201);
+          }
+
+          // POST /api/notifications/channels/:id/test - Send a sample notification
+          if (channelMatch && channelMatch[2] && request.method === 'POST') {
+            const result = await boardStub.testNotificationChannel(channelMatch[1]);
+            return jsonResponse({ success: true, data: result });
+          }
+
+          // PUT /api/notifications/channels/:id - Update a channel
+          if (channelMatch && !channelMatch[2] && request.method === 'PUT') {
+            const body = await request.json() as Partial<Omit<NotificationChannelInput, 'type'>>;
+            const channel = await boardStub.updateNotificationChannel(channelMatch[1], body);
+            return jsonResponse({ success: true, data: channel });
+          }
+
+          // DELETE /api/notifications/channels/:id - Remove a channel
+          if (channelMatch && !channelMatch[2] && request.method === 'DELETE') {
+            await boardStub.deleteNotificationChannel(channelMatch[1]);
+            return jsonResponse({ success: true });
+          }
+
+          // GET /api/notifications/settings - Get digest settings
+          if (subPath === '/settings' && request.method === 'GET') {
+            const settings = await boardStub.getNotificationSettings();
+            return jsonResponse({ success: true, data: settings });
+          }
+
+          // PUT /api/notifications/settings - Change digest settings
+          if (subPath === '/settings' && request.method === 'PUT') {
+            const body = await request.json() as Partial<Pick<NotificationSettings, 'digest' | 'digestHour' | 'timezone'>>;
+            const settings = await boardStub.updateNotificationSettings(body);
+            return jsonResponse({ success: true, data: settings });
+          }
+
+          // GET /api/notifications/mutes - List project mutes
+          if (subPath === '/mutes' && request.method === 'GET') {
+            const mutes = await boardStub.getNotificationMutes();
+            return jsonResponse({ success: true, data: mutes });
+          }
+
+          // PUT /api/notifications/mutes/:projectId - Mute events for a project (null unmutes)
+          if (muteMatch && request.method === 'PUT') {
+            const body = await request.json() as { events: NotificationEventType[] | null };
+            const mute = await boardStub.setNotificationMute(decodeURIComponent(muteMatch[1]), body.events ?? null);
+            return jsonResponse({ success: true, data: mute });
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Notification request failed';
+          return jsonResponse({
+            success: false,
+            error: { code: message.includes('not found') ? 'NOT_FOUND' : 'VALIDATION_ERROR', message },
+          }, message.includes('not found') ? 404 : 400);
+        }
+      }
+
+      // ============================================
+      // USAGE ROUTES
+      // Totals across all of the user's projects and standalone tasks
+      // ============================================
+
+      // GET /api/usage?since=ISO - Get token usage and cost by project and agent
+      if (url.pathname === '/api/usage' && request.method === 'GET') {
+        const since = url.searchParams.get('since') || undefined;
+        const userTasksId = `user-tasks-${user.id}`;
+        const projects = await userStub.getProjects();
+        const containers = [
+          ...projects.map((p) => ({ projectId: p.projectId, projectName: p.name })),
+          { projectId: userTasksId, projectName: 'My Tasks' },
+        ];
+
+        const summaries = await Promise.all(containers.map(async (container) => {
+          const stub = env.BOARD_DO.get(env.BOARD_DO.idFromName(container.projectId)) as BoardDOStub;
+          try {
+            return { ...container, summary: await stub.getUsageSummary(container.projectId, since) };
+          } catch (error) {
+            logger.worker.warn('Failed to load project usage', {
+              projectId: container.projectId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            return null;
+          }
+        }));
+
+        const usage = mergeUsageSummaries(
+          summaries.filter((s): s is NonNullable<typeof s> => s !== null && s.summary.totals.runs > 0)
+        );
+        return jsonResponse({ success: true, data: usage });
+      }
+
       // ============================================
       // PROJECT-SPECIFIC ROUTES
       // ============================================
@@ -9,11 +9,14 @@
  * - AgentWorkflow (tool execution and credential management)
  */
 
-import { HostedMCPServer, type MCPToolSchema } from './MCPClient';
+import { HostedMCPServer, isReadOnlyToolSchema, type MCPToolSchema } from './MCPClient';
 import { GmailMCPServer } from '../google/GmailMCP';
 import { DocsMCPServer } from '../google/DocsMCP';
 import { SheetsMCPServer } from '../google/SheetsMCP';
-import { SandboxMCPServer } from '../sandbox/SandboxMCP';
+import { CalendarMCPServer } from '../google/CalendarMCP';
+import { DriveMCPServer } from '../google/DriveMCP';
+import { SandboxMCPServer, type SandboxEnvironmentLoader, type SandboxSessionStore } from '../sandbox/SandboxMCP';
+import type { SandboxOutputSink } from '../workflows/sandboxOutput';
 import { GitHubMCPServer } from '../github/GitHubMCP';
 import { ExaMCPServer } from '../exa/ExaMCP';
 import { AskUserMCPServer } from '../askUser/AskUserMCP';
@@ -29,10 +32,24 @@ import type { Sandbox } from '@cloudflare/sandbox';
 export type CredentialAuthType = 'oauth' | 'api_key' | 'env_binding' | 'none';
 
 /** Artifact types that can be created by MCP tools */
-export type ArtifactType = 'google_doc' | 'google_sheet' | 'gmail_message' | 'github_pr' | 'file' | 'other';
+export type ArtifactType =
+  | 'google_doc'
+  | 'google_sheet'
+  | 'google_calendar_event'
+  | 'gmail_message'
+  | 'github_pr'
+  | 'file'
+  | 'preview'
+  | 'other';
 
 /** URL pattern types for link enrichment */
-export type UrlPatternType = 'google_doc' | 'google_sheet' | 'github_pr' | 'github_issue' | 'github_repo';
+export type UrlPatternType =
+  | 'google_doc'
+  | 'google_sheet'
+  | 'google_calendar_event'
+  | 'github_pr'
+  | 'github_issue'
+  | 'github_repo';
 
 /** URL pattern definition for link pills */
 export interface MCPUrlPattern {
@@ -47,6 +64,12 @@ export interface MCPUrlPattern {
 /** Environment bindings that may be needed by MCP factories */
 export interface MCPEnvBindings {
   Sandbox?: DurableObjectNamespace<Sandbox>;
+  /** Session registry of the board running the workflow */
+  sandboxSessions?: SandboxSessionStore;
+  /** Where sandbox tools stream their output while they run */
+  sandboxOutput?: SandboxOutputSink;
+  /** Loads the project's sandbox template and secrets for new sessions */
+  sandboxEnvironment?: SandboxEnvironmentLoader;
   GOOGLE_CLIENT_ID?: string;
   GOOGLE_CLIENT_SECRET?: string;
   [key: string]: unknown;
@@ -83,6 +106,8 @@ export interface MCPDefinition {
    * - 'inline': Content stored in artifact - artifact has content field
    */
   artifactContentType?: 'url' | 'inline';
+  /** Artifact types of tools that produce something other than artifactType */
+  toolArtifactTypes?: Record<string, ArtifactType>;
   /** URL patterns this MCP can enrich for link pills */
   urlPatterns?: MCPUrlPattern[];
   /**
@@ -103,6 +128,11 @@ export interface AccountDefinition {
   name: string;
   /** The credential type used for this account (e.g., 'google_oauth') */
   credentialType: string;
+  /**
+   * Other credential types that can stand in for credentialType when adding
+   * this account's MCPs (e.g. a GitHub App installation instead of a user's OAuth token)
+   */
+  alternateCredentialTypes?: string[];
   /** How authentication is handled */
   authType: CredentialAuthType;
   /** Icon identifier for the account */
@@ -154,7 +184,7 @@ export interface AccountDefinition {
 // ============================================================================
 
 const GMAIL_GUIDANCE = `## Gmail Workflow
-Always request approval before sending emails.
+Always request approval before sending emails or saving drafts.
 
 **Sending an email:**
 \`\`\`
@@ -168,7 +198,41 @@ request_approval({
   }
 })
 \`\`\`
-After approval, call: \`Gmail__sendEmail({ to: "...", subject: "...", body: "..." })\``;
+Once approved, the email is sent automatically with the approved data - do not call Gmail__sendEmail again.
+
+**Replying or forwarding:**
+Use Gmail__replyToMessage, Gmail__replyAllToMessage or Gmail__forwardMessage with the original messageId - they keep the thread, set the reply headers and quote the original, so don't copy it into the body. Read the thread first with Gmail__getThread and include the messages being replied to as \`quotedThread\` so the user can see what they are answering:
+\`\`\`
+request_approval({
+  tool: "Gmail__replyAllToMessage",
+  action: "Reply All",
+  data: {
+    messageId: "...",
+    body: "Thanks - Thursday works for me.",
+    quotedThread: [{ from: "Ana <ana@example.com>", date: "Mon, 3 Mar 2025 09:12", body: "Can we meet Thursday?" }]
+  }
+})
+\`\`\`
+
+**HTML and attachments:** Pass \`html\` alongside the plain text \`body\` for formatted email. Attach files with \`attachments: [{ sessionId, path }]\` for sandbox files or \`attachments: [{ driveUrl }]\` for Drive files.
+
+**Drafts:** Gmail__createDraft saves without sending (set replyToMessageId to draft a reply); Gmail__updateDraft replaces a draft's content by draftId.
+
+**Inbox triage:** Gmail__archiveMessages, Gmail__markAsRead, Gmail__starMessages and Gmail__modifyLabels take messageIds and/or threadIds. Find the messages first, then make ONE call covering all of them - the user approves the batch at once and can untick individual messages. Include a \`messages\` summary for every ID so the user can see what will change:
+\`\`\`
+request_approval({
+  tool: "Gmail__archiveMessages",
+  action: "Archive 2 newsletters",
+  data: {
+    messageIds: ["18c1...", "18c2..."],
+    messages: [
+      { id: "18c1...", from: "News <news@example.com>", subject: "Weekly digest", date: "Mon, 3 Mar" },
+      { id: "18c2...", from: "Deals <deals@example.com>", subject: "50% off", date: "Tue, 4 Mar" }
+    ]
+  }
+})
+\`\`\`
+Labels can be given by name or ID; create missing labels with Gmail__createLabel first. Use Gmail__createFilter so future mail is sorted the same way.`;
 
 const GOOGLE_DOCS_GUIDANCE = `## Google Docs Workflow
 
@@ -183,7 +247,7 @@ request_approval({
   }
 })
 \`\`\`
-After approval, call: \`Google_Docs__createDocument({ title: "...", content: "..." })\`
+Once approved, the document is created automatically - do not call the tool again.
 
 **Modifying existing documents (append or replace):**
 1. **Get current content first**:
@@ -200,14 +264,37 @@ After approval, call: \`Google_Docs__createDocument({ title: "...", content: "..
        title: "Document Title",
        currentContent: "<content from getDocument>",
        newContent: "<the new content to write>",
+       content: "<the same new content - this is what gets written>",
        action: "replace"  // or "append"
      }
    })
    \`\`\`
-3. **After approval**, call the actual tool:
-   \`\`\`
-   Google_Docs__replaceDocumentContent({ documentId: "...", content: "..." })
-   \`\`\``;
+3. **Once approved**, the workflow writes \`content\` to the document automatically - do not call the tool again.
+
+**Editing part of a document (preferred over replacing it):**
+Headings come back from getDocument marked up as Markdown (\`## Rollout\`). Pass \`title\` and \`currentContent\` from getDocument so the approval shows only the sections that change.
+- \`replaceText\` - find and replace exact text (\`find\`, \`replaceWith\`)
+- \`insertAfterHeading\` - add \`content\` at the top of the section under \`heading\`
+- \`updateSection\` - replace everything under \`heading\` (including its subsections) with \`content\`
+\`\`\`
+request_approval({
+  tool: "Google_Docs__updateSection",
+  action: "Update Rollout Section",
+  data: {
+    documentId: "...",
+    title: "Document Title",
+    currentContent: "<content from getDocument>",
+    heading: "Rollout",
+    content: "<the new body of the section>"
+  }
+})
+\`\`\`
+
+**Comments and suggestions:**
+- \`addComment\` - comment on a passage (\`quote\` must be exact document text)
+- \`suggestEdit\` - when the user wants to review edits in Docs rather than have them applied, propose the replacement as a comment on \`find\`. The Docs API cannot create tracked suggestions, so the owner applies it by hand
+- \`listComments\` - read open comments (no approval needed)
+Both addComment and suggestEdit need approval with \`title\` and \`currentContent\` like the edits above.`;
 
 const GOOGLE_SHEETS_GUIDANCE = `## Google Sheets Workflow
 For creating or modifying spreadsheets, ALWAYS request approval first.
@@ -222,7 +309,8 @@ request_approval({
     rows: [
       ["Column 1", "Column 2", "Column 3"],  // Header row
       ["Value 1", "Value 2", "Value 3"],     // Data rows
-    ]
+    ],
+    data: [...]  // the same rows - this is what gets written
   }
 })
 \`\`\`
@@ -239,7 +327,8 @@ request_approval({
     spreadsheetId: "...",
     title: "ACTUAL spreadsheet title from search",  // REQUIRED - use real title!
     currentRows: [[...], [...], ...],  // REQUIRED - copy the rows array from getSheetData result
-    newRows: [[...], [...], ...]       // the new rows to add
+    newRows: [[...], [...], ...],      // the new rows to add
+    rows: [[...], [...], ...]          // tool argument: same as newRows (appendRows)
   }
 })
 \`\`\`
@@ -248,8 +337,97 @@ IMPORTANT for approval to show diff correctly:
 - \`title\` must be the actual spreadsheet title (not "Spreadsheet Title")
 - \`currentRows\` must contain the actual current data from getSheetData (the \`rows\` array)
 - \`newRows\` contains only the NEW rows being added
+- Also include the tool's own arguments (\`rows\` for appendRows, \`range\`/\`values\` for updateCells, \`data\` for replaceSheetContent)
+
+**Formulas, formatting, sheets and charts:**
+- \`writeFormulas\` - write formulas (\`=SUM(B2:B13)\`) into cells instead of typing computed numbers; other cells are left alone
+- \`updateCells\` / \`appendRows\` take numbers and booleans; set \`literal: true\` to keep text such as "007" or "=x" exactly as given
+- \`addSheet\`, \`renameSheet\`, \`deleteSheet\` - manage tabs
+- \`formatCells\` (bold, colours, currency/percent/date formats), \`freezeRows\` (header rows)
+- \`addChart\` - labels in the first column of \`dataRange\`, one series per other column
+- \`addPivotTable\` - group \`sourceRange\` by column letters and summarise others on a new sheet
+- Read with \`getSheetData({ render: "typed" })\` for real numbers or \`render: "formulas"\` to see formulas
+For these, pass \`currentSheets\` - the current rows of every sheet touched, by name - so the approval shows a cell-level before and after grid:
+\`\`\`
+request_approval({
+  tool: "Google_Sheets__writeFormulas",
+  action: "Add Totals",
+  data: {
+    spreadsheetId: "...",
+    title: "Q1 Budget",
+    currentSheets: { "Summary": [[...], ...] },  // rows from getSheetData
+    formulas: [{ cell: "Summary!D2", formula: "=SUM(Jan!B2:B40)" }]
+  }
+})
+\`\`\`
+
+Once approved, the tool runs automatically with the approved data - do not call it again.`;
+
+const GOOGLE_CALENDAR_GUIDANCE = `## Google Calendar Workflow
+Reading is free: \`listEvents\`, \`getEvent\`, \`checkFreeBusy\` and \`findConflicts\` need no approval.
+Creating, changing or responding to events ALWAYS needs approval first.
+
+**Scheduling or moving an event:**
+1. Check the time: \`Google_Calendar__findConflicts({ start, end, attendees, ignoreEventId })\`
+   (pass \`ignoreEventId\` when moving an existing event)
+2. If there are conflicts, prefer a free slot - use \`checkFreeBusy\` to find one - or ask the user
+3. Request approval with the conflicts so the user sees them:
+\`\`\`
+request_approval({
+  tool: "Google_Calendar__createEvent",  // or updateEvent (with eventId)
+  action: "Schedule Meeting",
+  data: {
+    title: "Design review",
+    start: "2025-03-04T15:00:00+01:00",
+    end: "2025-03-04T16:00:00+01:00",
+    attendees: ["alice@example.com"],
+    location: "Room 2",
+    addVideoCall: true,
+    conflicts: [...]  // REQUIRED - the conflicts array from findConflicts (empty if none)
+  }
+})
+\`\`\`
+
+**Responding to an invitation:**
+\`\`\`
+request_approval({
+  tool: "Google_Calendar__respondToEvent",
+  action: "Decline Invitation",
+  data: { eventId: "...", response: "declined", comment: "Out that week", title: "Event title", start: "...", end: "..." }
+})
+\`\`\`
+
+Times are ISO 8601 with an offset; a date alone (YYYY-MM-DD) means all-day, with an exclusive end date.
+Once approved, the tool runs automatically with the approved data - do not call it again.`;
+
+const GOOGLE_DRIVE_GUIDANCE = `## Google Drive Workflow
+Use Drive to find files of any type (\`searchFiles\` with \`kind\`: document, spreadsheet, presentation, pdf, folder, image, video)
+and to read them: \`readFile\` returns Docs as Markdown, Sheets as CSV and extracts the text of PDFs.
+Use the Docs and Sheets tools to edit those files.
 
-After approval, call the actual tool with the approved data.`;
+Creating folders, moving files and exporting need approval like any other change.
+\`exportFile\` saves the export (PDF, DOCX, XLSX, ...) next to the original unless you pass \`folderId\`.
+
+**Sharing - ALWAYS show who gains access:**
+1. Look up current access: \`Google_Drive__listPermissions({ fileId })\`
+2. Request approval with the file name and the current access:
+\`\`\`
+request_approval({
+  tool: "Google_Drive__shareFile",  // or unshareFile to take access away
+  action: "Share File",
+  data: {
+    fileId: "...",
+    emails: ["alice@example.com"],
+    role: "writer",            // reader, commenter or writer
+    anyoneWithLink: false,     // only when the user asked for a public link
+    message: "Here's the draft",
+    fileName: "Q3 Plan",       // REQUIRED - actual file name
+    currentAccess: [...]       // REQUIRED - the array from listPermissions
+  }
+})
+\`\`\`
+Sharing always waits for the user, even when other Drive tools are allowed to run without approval.
+Once approved, the tool runs automatically with the approved data - do not call it again.`;
 
 const SANDBOX_GUIDANCE = `## Code Change Workflow (Sandbox + GitHub)
 For ANY task requiring code changes, you MUST use Sandbox. Here's the exact flow:
@@ -277,13 +455,28 @@ For ANY task requiring code changes, you MUST use Sandbox. Here's the exact flow
    \`\`\`
    This returns a JSON object with \`structuredContent.diff\` (the unified diff string) and \`structuredContent.stats\` (files, additions, deletions counts).
 
-5. **Request PR approval** - Include the diff from step 4:
+5. **Commit, then request approval to push** - Include the diff from step 4:
+   \`\`\`
+   Sandbox__commit({ sessionId, message: "..." })
+   request_approval({
+     tool: "Sandbox__push",
+     action: "Push Branch",
+     data: {
+       sessionId, branch: "feature/your-branch-name",
+       diff: structuredContent.diff,  // REQUIRED: extract from getDiff result
+       stats: structuredContent.stats  // REQUIRED: extract from getDiff result
+     }
+   })
+   \`\`\`
+   **Once approved, the branch is pushed automatically** - do not call Sandbox__push again.
+
+6. **After the push is approved, request PR approval** - Include the same diff:
    \`\`\`
    request_approval({
      tool: "GitHub__create_pr",
      action: "Create Pull Request",
      data: {
-       owner, repo, baseBranch: "main", headBranch: "feature/your-branch-name",
+       owner, repo, base: "main", head: "feature/your-branch-name",
        title, body,
        diff: structuredContent.diff,  // REQUIRED: extract from getDiff result
        stats: structuredContent.stats  // REQUIRED: extract from getDiff result
@@ -291,14 +484,29 @@ For ANY task requiring code changes, you MUST use Sandbox. Here's the exact flow
    })
    \`\`\`
    IMPORTANT: You MUST extract the diff and stats from the getDiff result's structuredContent field.
+   **Once approved, the PR is created automatically** with the approved title and body - do not call GitHub__create_pr again.
 
-6. **After user approval** - Commit, push, AND create PR (ALL THREE REQUIRED):
-   \`\`\`
-   Sandbox__commit({ sessionId, message: "..." })
-   Sandbox__push({ sessionId, branch: "feature/your-branch-name" })
-   GitHub__create_pr({ owner, repo, title, head: "feature/your-branch-name", base: "main", body })
-   \`\`\`
-   **CRITICAL: You MUST call GitHub__create_pr after pushing. The task is NOT complete until the PR is created.**
+Commands, file writes, previews, runClaude and commits also wait for the user's approval unless the project's tool
+permissions allow them.
+
+**Previews:** If the change affects a web app or docs site, start its dev server before step 5 so the
+reviewer can click through it from the approval screen:
+\`\`\`
+Sandbox__startPreview({ sessionId, command: "npm install && npm run dev -- --host 0.0.0.0 --port 5173", port: 5173, name: "App" })
+\`\`\`
+The server is reached under \`$PREVIEW_BASE_PATH\`; pages with absolute asset paths need that base configured
+(then pass keepBasePath: true). Do not destroy the session until the PR is approved - that ends the preview.
+Preview pages run in a sandboxed origin: they can't use cookies or local storage, and ES module scripts load
+cross-origin, so let the dev server answer any origin (e.g. \`vite --cors\`).
+
+**Files:** When the task produces a file the user should keep (a report, export, build or image), publish it -
+files left in the sandbox are removed with the session:
+\`\`\`
+Sandbox__publishFile({ sessionId, path: "dist/report.pdf" })
+\`\`\`
+
+**Templates:** createSession applies the project's sandbox template - its setup commands have already run
+and its secrets are set as environment variables, so don't reinstall dependencies or ask for those values.
 
 IMPORTANT RULES:
 - createSession requires repoUrl parameter to clone the repo
@@ -309,17 +517,59 @@ IMPORTANT RULES:
   - \`structuredContent.stats\` → put in the \`stats\` field
 - The "diff" and "stats" fields in approval data are REQUIRED
 - Use the SAME branch name in: checkout, push, and create_pr
-- After approval, you MUST: commit → push → create_pr (in that order, all three)`;
+- Only push after the user approves it (step 5), and only request PR approval once the push is done`;
 
 const GITHUB_GUIDANCE = `## GitHub Workflow
-Use GitHub tools to read repository information, issues, and pull requests.
-For creating PRs with code changes, use Sandbox to make the changes first.
+Use GitHub tools to read repositories, issues, pull requests and CI checks, and to comment, manage issues, review PRs and commit single files.
+For changes across several files, use Sandbox to make the changes and open a PR.
 
 **Reading repository info:**
 \`\`\`
 GitHub__get_repository({ owner: "...", repo: "..." })
 GitHub__list_issues({ owner: "...", repo: "...", state: "open" })
 GitHub__get_pull_request({ owner: "...", repo: "...", pull_number: 123 })
+GitHub__list_pr_files({ owner: "...", repo: "...", pull_number: 123 })
+GitHub__get_check_status({ owner: "...", repo: "...", ref: "feature-branch" })
+GitHub__search_code({ query: "useAuth language:ts", owner: "...", repo: "..." })
+\`\`\`
+
+**Issues and comments (require approval):**
+- add_comment works on issues and pull requests
+- For close_issue and add_labels, include the issue's \`title\` and \`currentLabels\` in the approval data for display
+\`\`\`
+request_approval({
+  tool: "GitHub__add_labels",
+  action: "Label issue #42",
+  data: { owner: "...", repo: "...", issue_number: 42, labels: ["bug"], title: "Login fails", currentLabels: ["triage"] }
+})
+\`\`\`
+
+**Reviewing a pull request (requires approval):**
+1. Fetch the diff with get_pr_diff and read it
+2. Inline comments must be on lines in the diff: \`side: "RIGHT"\` with new-file line numbers for added or unchanged lines, \`side: "LEFT"\` with old-file line numbers for removed lines
+3. Include the diff in the approval data so the comments are shown in place
+\`\`\`
+request_approval({
+  tool: "GitHub__create_review",
+  action: "Review PR #123",
+  data: {
+    owner: "...", repo: "...", pull_number: 123,
+    event: "COMMENT",
+    body: "Looks good overall, a couple of questions.",
+    comments: [{ path: "src/app.ts", line: 42, side: "RIGHT", body: "Can this be null?" }],
+    diff: "<output of get_pr_diff>"
+  }
+})
+\`\`\`
+
+**Committing a single file (requires approval):**
+commit_file replaces the whole file. Read it first with read_file and include its contents as \`currentContent\` (omit for a new file) so the user sees a diff. Pass the \`sha\` from read_file to avoid overwriting someone else's change.
+\`\`\`
+request_approval({
+  tool: "GitHub__commit_file",
+  action: "Fix typo in README",
+  data: { owner: "...", repo: "...", path: "README.md", branch: "docs-fix", message: "Fix typo in README", content: "...", sha: "...", currentContent: "..." }
+})
 \`\`\``;
 
 const EXA_GUIDANCE = `## Exa Web Search
@@ -388,14 +638,19 @@ export const ACCOUNT_REGISTRY: AccountDefinition[] = [
     authType: 'oauth',
     icon: 'google',
     refreshToken: refreshAccessToken,
-    envBindingKeys: ['GOOGLE_CLIENT_ID', 'GOOGLE_CLIENT_SECRET'],
+    // SANDBOX lets Gmail attach files from sandbox sessions
+    envBindingKeys: ['GOOGLE_CLIENT_ID', 'GOOGLE_CLIENT_SECRET', 'SANDBOX'],
     mcps: [
       {
         id: 'gmail',
         name: 'Gmail',
         serverName: 'Gmail',
-        description: 'Read, send, and search emails',
-        factory: (creds) => new GmailMCPServer(creds.accessToken || ''),
+        description: 'Read, send, reply to, forward, and draft emails',
+        factory: (creds, env) => new GmailMCPServer(
+          creds.accessToken || '',
+          env?.SANDBOX as DurableObjectNamespace<Sandbox> | undefined,
+          env?.sandboxSessions
+        ),
         artifactType: 'gmail_message',
         artifactContentType: 'inline',
         workflowGuidance: GMAIL_GUIDANCE,
@@ -428,6 +683,30 @@ export const ACCOUNT_REGISTRY: AccountDefinition[] = [
         }],
         workflowGuidance: GOOGLE_SHEETS_GUIDANCE,
       },
+      {
+        id: 'google-calendar',
+        name: 'Google Calendar',
+        serverName: 'Google_Calendar',
+        description: 'Check schedules and manage events',
+        factory: (creds) => new CalendarMCPServer(creds.accessToken || ''),
+        artifactType: 'google_calendar_event',
+        urlPatterns: [{
+          // Event links carry an `eid` - base64 of the event and calendar IDs
+          pattern: '(?:calendar\\.google\\.com/calendar|www\\.google\\.com/calendar)/(?:u/\\d+/)?(?:event\\?(?:[^\\s#]*&)?eid=|r/eventedit/)([a-zA-Z0-9_-]+)',
+          type: 'google_calendar_event',
+          fetchTool: 'getEvent',
+        }],
+        workflowGuidance: GOOGLE_CALENDAR_GUIDANCE,
+      },
+      {
+        id: 'google-drive',
+        name: 'Google Drive',
+        serverName: 'Google_Drive',
+        description: 'Find, read, organise, share and export files',
+        factory: (creds) => new DriveMCPServer(creds.accessToken || ''),
+        artifactType: 'file',
+        workflowGuidance: GOOGLE_DRIVE_GUIDANCE,
+      },
     ],
   },
   {
@@ -436,8 +715,9 @@ export const ACCOUNT_REGISTRY: AccountDefinition[] = [
     credentialType: 'none',
     authType: 'env_binding',
     alwaysEnabled: true,
-    envBindingKeys: ['SANDBOX'],
-    additionalCredentialKeys: ['githubToken', 'anthropicApiKey'],
+    // SANDBOX_CACHE (optional) is the R2 bucket that caches template dependencies
+    envBindingKeys: ['SANDBOX', 'SANDBOX_CACHE'],
+    additionalCredentialKeys: ['githubToken', 'githubBotName', 'githubBotEmail', 'anthropicApiKey'],
     mcps: [
       {
         id: 'sandbox',
@@ -448,9 +728,19 @@ export const ACCOUNT_REGISTRY: AccountDefinition[] = [
           env?.SANDBOX as DurableObjectNamespace<Sandbox>,
           {
             githubToken: creds.githubToken as string | undefined,
+            githubBotName: creds.githubBotName as string | undefined,
+            githubBotEmail: creds.githubBotEmail as string | undefined,
             anthropicApiKey: creds.anthropicApiKey as string | undefined,
-          }
+          },
+          env?.sandboxSessions,
+          env?.sandboxOutput,
+          env?.sandboxEnvironment,
+          env?.SANDBOX_CACHE as R2Bucket | undefined
         ),
+        toolArtifactTypes: {
+          startPreview: 'preview',
+          publishFile: 'file',
+        },
         workflowGuidance: SANDBOX_GUIDANCE,
       },
     ],
@@ -459,16 +749,21 @@ export const ACCOUNT_REGISTRY: AccountDefinition[] = [
     id: 'github',
     name: 'GitHub',
     credentialType: CREDENTIAL_TYPES.GITHUB_OAUTH,
+    alternateCredentialTypes: [CREDENTIAL_TYPES.GITHUB_APP],
     authType: 'oauth',
     icon: 'github',
-    // GitHub tokens don't expire, so no refreshToken needed
+    // GitHub user tokens don't expire, so no refreshToken needed; projects
+    // using the GitHub App get installation tokens minted by the workflow
+    additionalCredentialKeys: ['githubAuth'],
     mcps: [
       {
         id: 'github',
         name: 'GitHub',
         serverName: 'GitHub',
-        description: 'Manage repositories, issues, and pull requests',
-        factory: (creds) => new GitHubMCPServer(creds.accessToken || ''),
+        description: 'Manage repositories, issues, pull requests, reviews and CI checks',
+        factory: (creds) => new GitHubMCPServer(creds.accessToken || '', {
+          installation: creds.githubAuth === 'app',
+        }),
         artifactType: 'github_pr',
         urlPatterns: [
           {
@@ -652,6 +947,27 @@ export function getMCPTools(accountId: string, mcpId: string): MCPToolSchema[] {
   return instance.getTools();
 }
 
+/**
+ * Check whether a hosted MCP tool mutates external state
+ * Reads the live tool definitions so stale cached schemas can't skip approval
+ */
+export function isHostedToolMutating(serverName: string, toolName: string): boolean {
+  const lookup = getMCPByServerName(serverName);
+  if (!lookup) return false;
+  const tool = lookup.mcp.factory({}).getTools().find((t) => t.name === toolName);
+  return tool?.mutating === true;
+}
+
+/**
+ * Check whether a hosted MCP tool only reads, so it may run in parallel
+ */
+export function isHostedToolReadOnly(serverName: string, toolName: string): boolean {
+  const lookup = getMCPByServerName(serverName);
+  if (!lookup) return false;
+  const tool = lookup.mcp.factory({}).getTools().find((t) => t.name === toolName);
+  return tool ? isReadOnlyToolSchema(tool) : false;
+}
+
 /**
  * Get all accounts that are always enabled (system MCPs like Sandbox)
  */
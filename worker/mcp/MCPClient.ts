@@ -16,6 +16,10 @@ export interface MCPToolSchema {
   annotations?: Record<string, unknown>;
   /** Fields required in approval data when using request_approval for this tool */
   approvalRequiredFields?: string[];
+  /** Tool changes external state and must be approved before it runs */
+  mutating?: boolean;
+  /** Tool only reads, so calls to it can run in parallel */
+  readOnly?: boolean;
 }
 
 export interface JSONSchema {
@@ -34,6 +38,29 @@ export interface JSONSchema {
 
 export type JSONSchemaProperty = JSONSchema;
 
+/**
+ * Decide whether a discovered tool mutates external state.
+ * An explicit `mutating` flag wins; otherwise MCP annotations are used, and
+ * per the MCP spec a tool is only read-only when it sets readOnlyHint: true.
+ */
+export function isMutatingToolSchema(tool: Pick<MCPToolSchema, 'mutating' | 'annotations'>): boolean {
+  if (typeof tool.mutating === 'boolean') {
+    return tool.mutating;
+  }
+  return tool.annotations?.readOnlyHint !== true;
+}
+
+/**
+ * Decide whether a tool is safe to run alongside other calls.
+ * An explicit `readOnly` flag wins; otherwise the MCP readOnlyHint is used.
+ */
+export function isReadOnlyToolSchema(tool: Pick<MCPToolSchema, 'readOnly' | 'annotations'>): boolean {
+  if (typeof tool.readOnly === 'boolean') {
+    return tool.readOnly;
+  }
+  return tool.annotations?.readOnlyHint === true;
+}
+
 export interface MCPToolCallResult {
   content: MCPContent[];
   structuredContent?: unknown;
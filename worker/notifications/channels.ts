@@ -0,0 +1,116 @@
+/**
+ * Notification channel delivery - sends one message (a single notification
+ * or a digest) to a web push subscription, an email address or a webhook
+ */
+
+import { buildMimeMessage, toBase64Url } from '../google/mimeMessage';
+import {
+  emailContent,
+  formatDigest,
+  webhookPayload,
+  type Notification,
+  type NotificationChannel,
+} from '../workflows/notifications';
+import { sendWebPush, type VapidKeys } from './webPush';
+
+const GMAIL_API_BASE = 'https://gmail.googleapis.com/gmail/v1';
+
+export interface ChannelDeliveryDeps {
+  /** App VAPID keys; web push is unavailable without them */
+  vapid: VapidKeys | null;
+  /** Access token of the user's connected Google account */
+  getGmailToken: () => Promise<string | null>;
+}
+
+export interface ChannelDeliveryResult {
+  ok: boolean;
+  error?: string;
+  /** The channel can never deliver again (e.g. an expired push subscription) */
+  gone?: boolean;
+}
+
+/**
+ * Send notifications to one channel
+ */
+export async function deliverToChannel(
+  channel: NotificationChannel,
+  notifications: Notification[],
+  deps: ChannelDeliveryDeps
+): Promise<ChannelDeliveryResult> {
+  try {
+    switch (channel.type) {
+      case 'web_push':
+        return await deliverWebPush(channel, notifications, deps);
+      case 'email':
+        return await deliverEmail(channel, notifications, deps);
+      case 'webhook':
+        return await deliverWebhook(channel, notifications);
+    }
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function deliverWebPush(
+  channel: NotificationChannel,
+  notifications: Notification[],
+  deps: ChannelDeliveryDeps
+): Promise<ChannelDeliveryResult> {
+  if (!deps.vapid) {
+    return { ok: false, error: 'Web push is not configured (VAPID keys missing)' };
+  }
+  const message = formatDigest(notifications, channel.appUrl);
+  const payload = JSON.stringify({
+    title: message.title,
+    body: message.body,
+    url: message.url,
+    // Later notifications about the same run replace earlier ones
+    tag: notifications.length === 1 ? notifications[0].planId : 'digest',
+  });
+
+  const result = await sendWebPush(channel.config.subscription!, payload, deps.vapid);
+  if (result.ok) return { ok: true };
+  return {
+    ok: false,
+    gone: result.gone,
+    error: result.gone ? 'Push subscription expired' : `Push service returned ${result.status}`,
+  };
+}
+
+async function deliverEmail(
+  channel: NotificationChannel,
+  notifications: Notification[],
+  deps: ChannelDeliveryDeps
+): Promise<ChannelDeliveryResult> {
+  const token = await deps.getGmailToken();
+  if (!token) {
+    return { ok: false, error: 'Google account is not connected' };
+  }
+
+  const content = emailContent(notifications, channel.appUrl);
+  const raw = buildMimeMessage({ to: channel.config.to, ...content });
+  const response = await fetch(`${GMAIL_API_BASE}/users/me/messages/send`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ raw: toBase64Url(raw) }),
+  });
+  if (!response.ok) {
+    return { ok: false, error: `Gmail API error: ${response.status}` };
+  }
+  return { ok: true };
+}
+
+async function deliverWebhook(channel: NotificationChannel, notifications: Notification[]): Promise<ChannelDeliveryResult> {
+  const response = await fetch(channel.config.url!, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(webhookPayload(channel.config.format || 'json', notifications, channel.appUrl)),
+  });
+  if (!response.ok) {
+    return { ok: false, error: `Webhook returned ${response.status}` };
+  }
+  return { ok: true };
+}
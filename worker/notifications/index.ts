@@ -0,0 +1,11 @@
+/**
+ * Notifications module
+ *
+ * Delivers run notifications to users' channels:
+ * - Web Push with VAPID and encrypted payloads
+ * - Email through the connected Gmail account
+ * - Slack, Discord or plain JSON webhooks
+ */
+
+export * from './webPush';
+export * from './channels';
@@ -0,0 +1,184 @@
+/**
+ * Web Push delivery
+ *
+ * Sends a notification to a browser's push service. The request is
+ * authenticated with VAPID (RFC 8292) - an ES256 JWT signed by the app's
+ * key pair - and the payload is encrypted for the browser's subscription
+ * keys with aes128gcm (RFC 8291), so the push service cannot read it.
+ */
+
+import type { PushSubscriptionConfig } from '../workflows/notifications';
+
+export interface VapidKeys {
+  /** Uncompressed P-256 public key, base64url (the applicationServerKey) */
+  publicKey: string;
+  /** P-256 private scalar, base64url */
+  privateKey: string;
+  /** Contact for the push service, e.g. "mailto:admin@example.com" */
+  subject: string;
+}
+
+export interface WebPushResult {
+  ok: boolean;
+  status: number;
+  /** The subscription no longer exists and should be removed */
+  gone: boolean;
+}
+
+/** How long push services keep an undelivered message */
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+/** VAPID tokens may live at most 24 hours; keep well inside that */
+const VAPID_LIFETIME_SECONDS = 12 * 60 * 60;
+
+/** Record size advertised in the aes128gcm header (one record is sent) */
+const RECORD_SIZE = 4096;
+
+/**
+ * Send an encrypted payload to a push subscription
+ */
+export async function sendWebPush(
+  subscription: PushSubscriptionConfig,
+  payload: string,
+  vapid: VapidKeys,
+  now = Date.now()
+): Promise<WebPushResult> {
+  const audience = new URL(subscription.endpoint).origin;
+  const jwt = await createVapidJwt(audience, vapid, now);
+  const body = await encryptPushPayload(subscription, new TextEncoder().encode(payload));
+
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      'Authorization': `vapid t=${jwt}, k=${vapid.publicKey}`,
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      'TTL': String(PUSH_TTL_SECONDS),
+      'Urgency': 'high',
+    },
+    body,
+  });
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    gone: response.status === 404 || response.status === 410,
+  };
+}
+
+/**
+ * Sign the VAPID JWT for a push service origin (ES256)
+ */
+export async function createVapidJwt(audience: string, vapid: VapidKeys, now = Date.now()): Promise<string> {
+  const header = base64UrlEncode(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const payload = base64UrlEncode(JSON.stringify({
+    aud: audience,
+    exp: Math.floor(now / 1000) + VAPID_LIFETIME_SECONDS,
+    sub: vapid.subject,
+  }));
+
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new Error('VAPID public key must be an uncompressed P-256 point');
+  }
+
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: base64UrlEncode(publicKey.slice(1, 33)),
+      y: base64UrlEncode(publicKey.slice(33, 65)),
+      ext: true,
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+
+  // WebCrypto returns the raw r||s signature JWS expects
+  const signingInput = `${header}.${payload}`;
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    new TextEncoder().encode(signingInput)
+  );
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Encrypt a payload for a subscription as a single aes128gcm record:
+ * salt | record size | key id length | sender public key | ciphertext
+ */
+export async function encryptPushPayload(subscription: PushSubscriptionConfig, plaintext: Uint8Array): Promise<Uint8Array> {
+  const receiverPublic = base64UrlDecode(subscription.keys.p256dh);
+  const authSecret = base64UrlDecode(subscription.keys.auth);
+
+  const senderKeys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const senderPublic = new Uint8Array(await crypto.subtle.exportKey('raw', senderKeys.publicKey) as ArrayBuffer);
+  const receiverKey = await crypto.subtle.importKey('raw', receiverPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  // workers-types names the ECDH field `$public`; the runtime reads `public`
+  const ecdh = { name: 'ECDH', public: receiverKey } as unknown as SubtleCryptoDeriveKeyAlgorithm;
+  const sharedSecret = new Uint8Array(await crypto.subtle.deriveBits(ecdh, senderKeys.privateKey, 256));
+
+  // IKM = HKDF(auth secret, ECDH secret, "WebPush: info" || 0x00 || receiver key || sender key)
+  const keyInfo = concat(new TextEncoder().encode('WebPush: info\0'), receiverPublic, senderPublic);
+  const ikm = await hkdf(authSecret, sharedSecret, keyInfo, 32);
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const contentKey = await hkdf(salt, ikm, new TextEncoder().encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, new TextEncoder().encode('Content-Encoding: nonce\0'), 12);
+
+  // 0x02 marks the last (only) record
+  const padded = concat(plaintext, new Uint8Array([0x02]));
+  const aesKey = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt']);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, padded));
+
+  const header = new Uint8Array(16 + 4 + 1 + senderPublic.length);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = senderPublic.length;
+  header.set(senderPublic, 21);
+
+  return concat(header, ciphertext);
+}
+
+/** HKDF-SHA256 extract-and-expand */
+export async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function base64UrlEncode(data: string | Uint8Array): string {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
@@ -10,9 +10,12 @@
 
 import { Sandbox } from '@cloudflare/sandbox';
 import {
+  collectFile,
   getSandbox,
   parseSSEStream,
+  streamFile,
   type ExecEvent,
+  type LogEvent,
 } from '@cloudflare/sandbox';
 import { logger } from '../utils/logger';
 import {
@@ -22,21 +25,85 @@ import {
 } from '../mcp/MCPClient';
 import { toolsToMCPSchemas, parseToolArgs } from '../utils/zodTools';
 import { sandboxTools } from './sandboxTools';
+import {
+  createLineSplitter,
+  parseClaudeStreamLine,
+  type ClaudeRunResult,
+  type SandboxOutputSink,
+  type SandboxOutputStream,
+} from '../workflows/sandboxOutput';
+import { MAX_PUBLISHED_FILE_BYTES, resolveWorkspacePath } from '../workflows/sandboxFiles';
+import { bytesToBase64 } from '../google/mimeMessage';
+import {
+  CACHE_ARCHIVE_PATH,
+  CACHE_PART_BYTES,
+  cacheKeyCommand,
+  cacheObjectKey,
+  cachePackCommand,
+  cacheUnpackCommand,
+  limitCommand,
+  limitTimeoutSeconds,
+  sessionLimits,
+  type SandboxEnvironment,
+  type SandboxLimits,
+  type SandboxTemplate,
+} from '../workflows/sandboxTemplates';
 
 interface SandboxCredentials {
   githubToken?: string;
+  /** Commit identity when acting as a GitHub App */
+  githubBotName?: string;
+  githubBotEmail?: string;
   anthropicApiKey?: string;
 }
 
-interface SessionInfo {
+export interface SessionInfo {
   sandboxId: string;
   workDir: string;
-  repoUrl?: string;
-  branch?: string;
+  repoUrl?: string | null;
+  branch?: string | null;
+  /** Resource limits from the project's sandbox template */
+  limits?: SandboxLimits | null;
+}
+
+/** Loads the project's sandbox template and secrets for a new session */
+export type SandboxEnvironmentLoader = () => Promise<SandboxEnvironment | null>;
+
+/**
+ * Durable record of sessions. A session is created by one tool call and
+ * used by later ones that may run in another isolate, or in a replay of
+ * the workflow, so it can't live in memory.
+ */
+export interface SandboxSessionStore {
+  /** Find a session and mark it as used */
+  use(sessionId: string): Promise<SessionInfo | null>;
+  register(sessionId: string, session: SessionInfo): Promise<void>;
+  /** Forget a session whose container has been destroyed */
+  forget(sessionId: string): Promise<void>;
+  /** Record a dev server in a session, returning the path reviewers open */
+  openPreview(sessionId: string, preview: PreviewInfo): Promise<{ url: string }>;
+  closePreview(previewId: string): Promise<void>;
+  /** Copy a file out of a session, returning where it is downloaded */
+  publishFile(sessionId: string, file: PublishedFileInfo): Promise<{ id: string; url: string }>;
+}
+
+export interface PublishedFileInfo {
+  name: string;
+  path: string;
+  mimeType: string;
+  content: Uint8Array;
+}
+
+export interface PreviewInfo {
+  id: string;
+  port: number;
+  name: string;
+  command: string;
+  keepBasePath: boolean;
 }
 
-// Session cache - keyed by sessionId
-const sessionCache = new Map<string, SessionInfo>();
+// How long a setup command may run when the template sets no limit
+const SETUP_COMMAND_TIMEOUT_MS = 15 * 60_000;
 
 // Common build artifacts and secrets to exclude from git staging
 const GIT_ADD_EXCLUSIONS = [
@@ -58,20 +125,62 @@ const GIT_ADD_EXCLUSIONS = [
   ':!**/.dev.vars',
 ].join(' ');
 
+/**
+ * Read a file from a session's sandbox for another hosted server (e.g. Gmail
+ * attachments). Only sessions in the board's registry can be read, and only
+ * inside their workspace. Relative paths resolve against the session's
+ * working directory; binary files come back base64 encoded.
+ */
+export async function readSandboxFile(
+  sandboxBinding: DurableObjectNamespace<Sandbox>,
+  sessions: SandboxSessionStore | undefined,
+  sessionId: string,
+  path: string
+): Promise<{ content: string; encoding: 'utf-8' | 'base64'; mimeType?: string }> {
+  const session = await sessions?.use(sessionId);
+  if (!session) {
+    throw new Error(`Session not found: ${sessionId}`);
+  }
+  const fullPath = resolveWorkspacePath(session.workDir, path);
+  if (!fullPath) {
+    throw new Error(`Path is outside the workspace: ${path}`);
+  }
+  const sandbox = getSandbox(sandboxBinding, session.sandboxId);
+
+  const file = await sandbox.readFile(fullPath, { encoding: 'base64' });
+  if (!file.success) {
+    throw new Error(`Failed to read sandbox file: ${fullPath}`);
+  }
+  return { content: file.content, encoding: file.encoding ?? 'base64', mimeType: file.mimeType };
+}
+
 export class SandboxMCPServer extends HostedMCPServer {
   readonly name = 'Sandbox';
   readonly description = 'Execute Claude Code and git operations in an isolated sandbox environment';
 
   private sandboxBinding: DurableObjectNamespace<Sandbox>;
   private credentials: SandboxCredentials;
+  private sessions?: SandboxSessionStore;
+  private output?: SandboxOutputSink;
+  private environment?: SandboxEnvironmentLoader;
+  /** Keeps the dependency caches of sandbox templates; copied through the Worker */
+  private cache?: R2Bucket;
 
   constructor(
     sandboxBinding: DurableObjectNamespace<Sandbox>,
-    credentials: SandboxCredentials
+    credentials: SandboxCredentials,
+    sessions?: SandboxSessionStore,
+    output?: SandboxOutputSink,
+    environment?: SandboxEnvironmentLoader,
+    cache?: R2Bucket
   ) {
     super();
     this.sandboxBinding = sandboxBinding;
     this.credentials = credentials;
+    this.sessions = sessions;
+    this.output = output;
+    this.environment = environment;
+    this.cache = cache;
   }
 
   getTools(): MCPToolSchema[] {
@@ -105,6 +214,12 @@ export class SandboxMCPServer extends HostedMCPServer {
         case 'exec':
           return this.exec(parseToolArgs(sandboxTools.exec.input, args));
 
+        case 'startPreview':
+          return this.startPreview(parseToolArgs(sandboxTools.startPreview.input, args));
+
+        case 'publishFile':
+          return this.publishFile(parseToolArgs(sandboxTools.publishFile.input, args));
+
         case 'destroySession':
           return this.destroySession(parseToolArgs(sandboxTools.destroySession.input, args));
 
@@ -126,6 +241,9 @@ export class SandboxMCPServer extends HostedMCPServer {
     branch: string;
     workDir: string;
   }): Promise<MCPToolCallResult> {
+    // Fail before cloning rather than leave an unrecorded container behind
+    this.sessionStore();
+
     const sessionId = `sandbox-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
     const workDir = `/workspace/${args.workDir}`;
     const branch = args.branch;
@@ -135,12 +253,19 @@ export class SandboxMCPServer extends HostedMCPServer {
     // Create workspace
     await sandbox.mkdir('/workspace', { recursive: true });
 
+    // The project's template decides what the session starts with
+    const environment = await this.environment?.() ?? null;
+    const template = environment?.template ?? {};
+    const limits = sessionLimits(template);
+
+    // Secrets go in before the clone, so every command sees them
+    const envVars: Record<string, string> = { ...environment?.secrets };
+    if (Object.keys(envVars).length > 0) {
+      await sandbox.setEnvVars(envVars);
+    }
+
     if (args.repoUrl) {
-      // Inject GitHub token into URL
-      let cloneUrl = args.repoUrl;
-      if (this.credentials.githubToken && cloneUrl.startsWith('https://')) {
-        cloneUrl = cloneUrl.replace('https://', `https://${this.credentials.githubToken}@`);
-      }
+      const cloneUrl = this.authenticatedUrl(args.repoUrl);
 
       // Clone repository
       const cloneStream = await sandbox.execStream(
@@ -159,11 +284,13 @@ export class SandboxMCPServer extends HostedMCPServer {
         }
       }
 
-      // Configure git
+      // Configure git (commits are attributed to the App's bot when acting as one)
+      const userName = this.credentials.githubBotName || 'Weft Workflow';
+      const userEmail = this.credentials.githubBotEmail || 'weft-workflow@example.com';
       const setupStream = await sandbox.execStream(
         `cd ${workDir} && ` +
-        `git config user.email "weft-workflow@example.com" && ` +
-        `git config user.name "Weft Workflow"`
+        `git config user.email "${userEmail}" && ` +
+        `git config user.name "${userName}"`
       );
 
       for await (const event of parseSSEStream<ExecEvent>(setupStream)) {
@@ -174,20 +301,34 @@ export class SandboxMCPServer extends HostedMCPServer {
       await sandbox.mkdir(workDir, { recursive: true });
     }
 
-    // Store session info
-    sessionCache.set(sessionId, {
+    // Record the session so later calls find it from any isolate (and so it
+    // is cleaned up even if setup fails)
+    await this.sessionStore().register(sessionId, {
       sandboxId: sessionId,
       workDir,
       repoUrl: args.repoUrl,
       branch,
+      limits,
     });
 
+    const setup = await this.prepareWorkspace(sandbox, workDir, environment?.projectId, template, limits);
+    if (setup.error) {
+      return this.errorContent(`Session ${sessionId} was created, but ${setup.error}`);
+    }
+
+    const setupCommands = template.setupCommands?.length ?? 0;
     return {
-      content: [{ type: 'text', text: `Session created: ${sessionId}` }],
+      content: [{
+        type: 'text',
+        text: `Session created: ${sessionId}` +
+          (setupCommands > 0 ? ` (${setupCommands} setup command${setupCommands === 1 ? '' : 's'} ran)` : ''),
+      }],
       structuredContent: {
         sessionId,
         workDir,
         branch,
+        setupCommands,
+        cache: setup.cache,
       },
     };
   }
@@ -199,7 +340,7 @@ export class SandboxMCPServer extends HostedMCPServer {
     systemPrompt?: string;
     timeout: number;
   }): Promise<MCPToolCallResult> {
-    const session = sessionCache.get(args.sessionId);
+    const session = await this.sessionStore().use(args.sessionId);
     if (!session) {
       return this.errorContent(`Session not found: ${args.sessionId}`);
     }
@@ -251,63 +392,82 @@ export class SandboxMCPServer extends HostedMCPServer {
 
     // Run Claude Code using the same approach as ExecutionWorkflow
     // Uses --permission-mode acceptEdits instead of --dangerously-skip-permissions
-    // (the latter doesn't work when running as root in the sandbox)
+    // (the latter doesn't work when running as root in the sandbox).
+    // stream-json prints an event per line as Claude works, so progress can be
+    // shown live instead of after the run.
     const claudeScript = `#!/bin/bash
 cd ${session.workDir}
 export ANTHROPIC_API_KEY="${this.credentials.anthropicApiKey}"
-claude --append-system-prompt "${escapedSystemPrompt}" -p "$(cat /tmp/task.md)" --permission-mode acceptEdits > /tmp/claude-output.txt 2>&1
-echo "---CLAUDE_EXIT_CODE:$?---" >> /tmp/claude-output.txt
+claude --append-system-prompt "${escapedSystemPrompt}" -p "$(cat /tmp/task.md)" --permission-mode acceptEdits --output-format stream-json --verbose
 `;
 
     await sandbox.writeFile('/tmp/run-claude.sh', claudeScript);
 
     logger.sandbox.info('Running Claude', { workDir: session.workDir });
 
-    // Start Claude Code as a background process
-    const claudeProcess = await sandbox.startProcess('bash /tmp/run-claude.sh');
-
-    // Poll for completion (Claude can take several minutes)
-    const timeoutSeconds = args.timeout;
-    let complete = false;
-    let attempts = 0;
-    let output = '';
-    let exitCode = 0;
-
-    while (!complete && attempts < timeoutSeconds) {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      attempts++;
+    // Start Claude Code as a background process and follow its output
+    // (Claude can take several minutes)
+    const claudeProcess = await sandbox.startProcess(limitCommand('bash /tmp/run-claude.sh', session.limits));
+    const timeoutSeconds = limitTimeoutSeconds(args.timeout, session.limits);
+    const signal = AbortSignal.timeout(timeoutSeconds * 1000);
+    const lines = createLineSplitter();
+    let result = null as ClaudeRunResult | null;
+    let transcript = '';
+    let exitCode: number | null = null;
+
+    const handleLine = (line: string) => {
+      const parsed = parseClaudeStreamLine(line);
+      if (parsed.result) result = parsed.result;
+      if (parsed.text) {
+        transcript += parsed.text;
+        this.write('stdout', parsed.text);
+      }
+    };
 
-      try {
-        const outputFile = await sandbox.readFile('/tmp/claude-output.txt');
-        if (outputFile.content.includes('---CLAUDE_EXIT_CODE:')) {
-          complete = true;
-          output = outputFile.content;
-
-          const exitCodeMatch = output.match(/---CLAUDE_EXIT_CODE:(\d+)---/);
-          exitCode = exitCodeMatch ? parseInt(exitCodeMatch[1], 10) : 1;
-          output = output.replace(/---CLAUDE_EXIT_CODE:\d+---/, '').trim();
+    try {
+      const logStream = await sandbox.streamProcessLogs(claudeProcess.id, { signal });
+      for await (const event of parseSSEStream<LogEvent>(logStream, signal)) {
+        if (event.type === 'stdout') {
+          lines.push(event.data || '').forEach(handleLine);
+        }
+        if (event.type === 'stderr') {
+          transcript += event.data || '';
+          this.write('stderr', event.data || '');
+        }
+        if (event.type === 'exit') {
+          exitCode = event.exitCode ?? 1;
+          break;
+        }
+        if (event.type === 'error') {
+          return this.errorContent(`Claude process error: ${event.data}`);
         }
+      }
+      lines.end().forEach(handleLine);
+    } catch (error) {
+      if (!signal.aborted) throw error;
+    } finally {
+      // Kill process if still running
+      try {
+        await sandbox.killProcess(claudeProcess.id);
       } catch {
-        // File doesn't exist yet
+        // Process may have already exited
       }
     }
 
-    // Kill process if still running
-    try {
-      await sandbox.killProcess(claudeProcess.id);
-    } catch {
-      // Process may have already exited
+    if (exitCode === null) {
+      if (signal.aborted) {
+        this.write('system', `\nTimed out after ${timeoutSeconds} seconds\n`);
+        return this.errorContent(`Claude Code timed out after ${timeoutSeconds} seconds`);
+      }
+      return this.errorContent('Claude Code output ended before the process exited');
     }
 
-    logger.sandbox.info('Claude exited', { exitCode, outputLength: output.length });
-    logger.sandbox.debug('Claude output preview', { output: output.slice(0, 500) });
-
-    if (!complete) {
-      return this.errorContent(`Claude Code timed out after ${timeoutSeconds} seconds`);
-    }
+    // The result event carries Claude's final answer; without one, fall back to everything it printed
+    const output = (result?.text || transcript).trim();
+    logger.sandbox.info('Claude exited', { exitCode, outputLength: output.length, turns: result?.turns });
 
     // Check for errors
-    if (exitCode !== 0) {
+    if (exitCode !== 0 || result?.isError) {
       return this.errorContent(`Claude CLI failed with exit code ${exitCode}: ${output.slice(0, 1000)}`);
     }
 
@@ -341,25 +501,21 @@ echo "---CLAUDE_EXIT_CODE:$?---" >> /tmp/claude-output.txt
     sessionId: string;
     staged: boolean;
   }): Promise<MCPToolCallResult> {
-    const session = sessionCache.get(args.sessionId);
+    const session = await this.sessionStore().use(args.sessionId);
     if (!session) {
       return this.errorContent(`Session not found: ${args.sessionId}`);
     }
 
     const sandbox = getSandbox(this.sandboxBinding, session.sandboxId);
 
-    // Stage all changes first to ensure we capture everything (excluding build artifacts)
-    if (!args.staged) {
-      const addStream = await sandbox.execStream(`cd ${session.workDir} && git add -A -- . ${GIT_ADD_EXCLUSIONS}`);
-      for await (const event of parseSSEStream<ExecEvent>(addStream)) {
-        if (event.type === 'complete') break;
-      }
-    }
-
-    // Get diff
+    // For all changes, stage them (excluding build artifacts) in a throwaway
+    // copy of the index, so new files show up but the real index is untouched
     const diffCmd = args.staged
       ? `cd ${session.workDir} && git diff --cached`
-      : `cd ${session.workDir} && git diff HEAD`;
+      : `cd ${session.workDir} && index=$(mktemp -u) && { ` +
+        `cp "$(git rev-parse --git-path index)" "$index" 2>/dev/null; ` +
+        `GIT_INDEX_FILE="$index" git add -A -- . ${GIT_ADD_EXCLUSIONS} && GIT_INDEX_FILE="$index" git diff --cached; ` +
+        `rm -f "$index"; }`;
 
     const diffStream = await sandbox.execStream(diffCmd);
     let diff = '';
@@ -388,7 +544,7 @@ echo "---CLAUDE_EXIT_CODE:$?---" >> /tmp/claude-output.txt
     sessionId: string;
     message: string;
   }): Promise<MCPToolCallResult> {
-    const session = sessionCache.get(args.sessionId);
+    const session = await this.sessionStore().use(args.sessionId);
     if (!session) {
       return this.errorContent(`Session not found: ${args.sessionId}`);
     }
@@ -450,7 +606,7 @@ echo "---CLAUDE_EXIT_CODE:$?---" >> /tmp/claude-output.txt
     branch?: string;
     force: boolean;
   }): Promise<MCPToolCallResult> {
-    const session = sessionCache.get(args.sessionId);
+    const session = await this.sessionStore().use(args.sessionId);
     if (!session) {
       return this.errorContent(`Session not found: ${args.sessionId}`);
     }
@@ -460,8 +616,15 @@ echo "---CLAUDE_EXIT_CODE:$?---" >> /tmp/claude-output.txt
     const branch = args.branch || session.branch || 'main';
     const forceFlag = args.force ? ' --force' : '';
 
+    // The token in the clone URL may have expired (installation tokens last an
+    // hour), so point origin at the current one before pushing
+    let setRemote = '';
+    if (remote === 'origin' && session.repoUrl && this.credentials.githubToken) {
+      setRemote = `git remote set-url origin ${this.authenticatedUrl(session.repoUrl)} && `;
+    }
+
     const pushStream = await sandbox.execStream(
-      `cd ${session.workDir} && git push${forceFlag} ${remote} HEAD:${branch}`
+      `cd ${session.workDir} && ${setRemote}git push${forceFlag} ${remote} HEAD:${branch}`
     );
 
     let pushOutput = '';
@@ -493,7 +656,7 @@ echo "---CLAUDE_EXIT_CODE:$?---" >> /tmp/claude-output.txt
     sessionId: string;
     path: string;
   }): Promise<MCPToolCallResult> {
-    const session = sessionCache.get(args.sessionId);
+    const session = await this.sessionStore().use(args.sessionId);
     if (!session) {
       return this.errorContent(`Session not found: ${args.sessionId}`);
     }
@@ -519,7 +682,7 @@ echo "---CLAUDE_EXIT_CODE:$?---" >> /tmp/claude-output.txt
     path: string;
     content: string;
   }): Promise<MCPToolCallResult> {
-    const session = sessionCache.get(args.sessionId);
+    const session = await this.sessionStore().use(args.sessionId);
     if (!session) {
       return this.errorContent(`Session not found: ${args.sessionId}`);
     }
@@ -547,7 +710,7 @@ echo "---CLAUDE_EXIT_CODE:$?---" >> /tmp/claude-output.txt
     cwd?: string;
     timeout: number;
   }): Promise<MCPToolCallResult> {
-    const session = sessionCache.get(args.sessionId);
+    const session = await this.sessionStore().use(args.sessionId);
     if (!session) {
       return this.errorContent(`Session not found: ${args.sessionId}`);
     }
@@ -557,7 +720,10 @@ echo "---CLAUDE_EXIT_CODE:$?---" >> /tmp/claude-output.txt
       ? (args.cwd.startsWith('/') ? args.cwd : `${session.workDir}/${args.cwd}`)
       : session.workDir;
 
-    const execStream = await sandbox.execStream(`cd ${cwd} && ${args.command}`);
+    this.write('system', `$ ${args.command}\n`);
+    const execStream = await sandbox.execStream(limitCommand(`cd ${cwd} && ${args.command}`, session.limits), {
+      timeout: limitTimeoutSeconds(args.timeout, session.limits) * 1000,
+    });
 
     let stdout = '';
     let stderr = '';
@@ -566,12 +732,15 @@ echo "---CLAUDE_EXIT_CODE:$?---" >> /tmp/claude-output.txt
     for await (const event of parseSSEStream<ExecEvent>(execStream)) {
       if (event.type === 'stdout') {
         stdout += event.data || '';
+        this.write('stdout', event.data || '');
       }
       if (event.type === 'stderr') {
         stderr += event.data || '';
+        this.write('stderr', event.data || '');
       }
       if (event.type === 'complete') {
         exitCode = event.exitCode || 0;
+        if (exitCode !== 0) this.write('system', `Exit code: ${exitCode}\n`);
         break;
       }
       if (event.type === 'error') {
@@ -589,24 +758,337 @@ echo "---CLAUDE_EXIT_CODE:$?---" >> /tmp/claude-output.txt
     };
   }
 
+  private async startPreview(args: {
+    sessionId: string;
+    command: string;
+    port: number;
+    cwd?: string;
+    name?: string;
+    keepBasePath: boolean;
+    timeout: number;
+  }): Promise<MCPToolCallResult> {
+    const session = await this.sessionStore().use(args.sessionId);
+    if (!session) {
+      return this.errorContent(`Session not found: ${args.sessionId}`);
+    }
+
+    const sandbox = getSandbox(this.sandboxBinding, session.sandboxId);
+    const cwd = args.cwd
+      ? (args.cwd.startsWith('/') ? args.cwd : `${session.workDir}/${args.cwd}`)
+      : session.workDir;
+    const previewId = `preview-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const name = args.name || `Preview on port ${args.port}`;
+
+    // Recorded first so the server can be told the path it is served under
+    const { url } = await this.sessionStore().openPreview(args.sessionId, {
+      id: previewId,
+      port: args.port,
+      name,
+      command: args.command,
+      keepBasePath: args.keepBasePath,
+    });
+
+    this.write('system', `$ ${args.command}\n`);
+    try {
+      const server = await sandbox.startProcess(limitCommand(args.command, session.limits), {
+        processId: previewId,
+        cwd,
+        env: { PORT: String(args.port), PREVIEW_BASE_PATH: url },
+      });
+      // Any answer short of a server error means it is up
+      await server.waitForPort(args.port, {
+        path: args.keepBasePath ? url : '/',
+        status: { min: 200, max: 499 },
+        timeout: args.timeout * 1000,
+      });
+    } catch (error) {
+      let logs = '';
+      try {
+        const output = await sandbox.getProcessLogs(previewId);
+        logs = `${output.stdout}${output.stderr}`.slice(-2000);
+      } catch {
+        // The process may never have started, or exited and been cleaned up
+      }
+      await sandbox.killProcess(previewId).catch(() => {});
+      await this.sessionStore().closePreview(previewId);
+      if (logs) this.write('stderr', logs);
+      const message = error instanceof Error ? error.message : String(error);
+      return this.errorContent(`Dev server did not start on port ${args.port}: ${message}${logs ? `\n${logs}` : ''}`);
+    }
+
+    this.write('system', `Preview ready at ${url}\n`);
+    return {
+      content: [{ type: 'text', text: `Preview running at ${url}` }],
+      structuredContent: {
+        previewId,
+        sessionId: args.sessionId,
+        url,
+        title: name,
+        port: args.port,
+      },
+    };
+  }
+
+  private async publishFile(args: {
+    sessionId: string;
+    path: string;
+    name?: string;
+  }): Promise<MCPToolCallResult> {
+    const session = await this.sessionStore().use(args.sessionId);
+    if (!session) {
+      return this.errorContent(`Session not found: ${args.sessionId}`);
+    }
+
+    const fullPath = resolveWorkspacePath(session.workDir, args.path);
+    if (!fullPath) {
+      return this.errorContent(`Path is outside the workspace: ${args.path}`);
+    }
+
+    const sandbox = getSandbox(this.sandboxBinding, session.sandboxId);
+
+    // Check the size before copying the file into memory
+    const slash = fullPath.lastIndexOf('/');
+    const listing = await sandbox.listFiles(fullPath.slice(0, slash) || '/', { includeHidden: true });
+    const entry = listing.files.find((f) => f.absolutePath === fullPath);
+    if (!entry || entry.type !== 'file') {
+      return this.errorContent(`File not found: ${args.path}`);
+    }
+    if (entry.size > MAX_PUBLISHED_FILE_BYTES) {
+      return this.errorContent(`File is too large to publish (${entry.size} bytes)`);
+    }
+
+    const { content, metadata } = await collectFile(await sandbox.readFileStream(fullPath));
+    const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+    const name = args.name || entry.name;
+
+    const published = await this.sessionStore().publishFile(args.sessionId, {
+      name,
+      path: fullPath,
+      mimeType: metadata.mimeType || 'application/octet-stream',
+      content: bytes,
+    });
+
+    return {
+      content: [{ type: 'text', text: `Published ${name} (${bytes.byteLength} bytes)` }],
+      structuredContent: {
+        fileId: published.id,
+        url: published.url,
+        title: name,
+        size: bytes.byteLength,
+        mimeType: metadata.mimeType || 'application/octet-stream',
+      },
+    };
+  }
+
   private async destroySession(args: { sessionId: string }): Promise<MCPToolCallResult> {
-    const session = sessionCache.get(args.sessionId);
+    const session = await this.sessionStore().use(args.sessionId);
     if (!session) {
       return {
         content: [{ type: 'text', text: 'Session not found (may already be destroyed)' }],
-        structuredContent: { success: true },
+        structuredContent: { success: true, sessionId: args.sessionId },
       };
     }
 
-    // Remove from cache
-    sessionCache.delete(args.sessionId);
-
-    // Note: The sandbox will be automatically cleaned up by Cloudflare
-    // after it's no longer referenced
+    try {
+      await getSandbox(this.sandboxBinding, session.sandboxId).destroy();
+    } catch (error) {
+      logger.sandbox.warn('Failed to destroy sandbox', {
+        sessionId: args.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    // Forgetting the session also ends its previews
+    await this.sessionStore().forget(args.sessionId);
 
     return {
       content: [{ type: 'text', text: `Session ${args.sessionId} destroyed` }],
-      structuredContent: { success: true },
+      structuredContent: { success: true, sessionId: args.sessionId },
     };
   }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  /**
+   * Restore cached dependency directories, run the template's setup
+   * commands, then save the cache for later sessions if it missed
+   */
+  private async prepareWorkspace(
+    sandbox: ReturnType<typeof getSandbox>,
+    workDir: string,
+    projectId: string | undefined,
+    template: SandboxTemplate,
+    limits: SandboxLimits | null
+  ): Promise<{ cache: 'hit' | 'miss' | 'off'; error?: string }> {
+    let cache: 'hit' | 'miss' | 'off' = 'off';
+    let objectKey: string | null = null;
+    if (projectId && this.cache && (template.cacheDirectories?.length ?? 0) > 0) {
+      try {
+        const key = await sandbox.exec(cacheKeyCommand(workDir, template));
+        objectKey = cacheObjectKey(projectId, key.stdout.trim());
+        if (objectKey) {
+          cache = await this.restoreCache(sandbox, workDir, objectKey) ? 'hit' : 'miss';
+          this.write('system', cache === 'hit' ? 'Restored cached dependencies\n' : 'No cached dependencies yet\n');
+        }
+      } catch (error) {
+        // A missing cache only makes setup slower
+        cache = 'off';
+        logger.sandbox.warn('Sandbox cache unavailable', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    for (const command of template.setupCommands || []) {
+      this.write('system', `$ ${command}\n`);
+      const exitCode = await this.runSetupCommand(sandbox, `cd ${workDir} && ${command}`, limits);
+      if (exitCode !== 0) {
+        this.write('system', `Exit code: ${exitCode}\n`);
+        return { cache, error: `setup command failed with exit code ${exitCode}: ${command}` };
+      }
+    }
+
+    if (cache === 'miss' && objectKey) {
+      this.write('system', 'Saving dependencies to the cache\n');
+      try {
+        await this.saveCache(sandbox, workDir, template, objectKey);
+      } catch (error) {
+        logger.sandbox.warn('Sandbox cache save failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { cache };
+  }
+
+  /**
+   * Copy a cache archive from the bucket into the container part by part,
+   * then unpack it. Returns false when there is no archive for the key.
+   */
+  private async restoreCache(
+    sandbox: ReturnType<typeof getSandbox>,
+    workDir: string,
+    objectKey: string
+  ): Promise<boolean> {
+    const archive = await this.cache!.head(objectKey);
+    if (!archive) return false;
+
+    const partPath = `${CACHE_ARCHIVE_PATH}.part`;
+    await sandbox.exec(`rm -f ${CACHE_ARCHIVE_PATH}`);
+    for (let offset = 0; offset < archive.size; offset += CACHE_PART_BYTES) {
+      const part = await this.cache!.get(objectKey, {
+        range: { offset, length: Math.min(CACHE_PART_BYTES, archive.size - offset) },
+      });
+      if (!part) return false;
+      await sandbox.writeFile(partPath, bytesToBase64(new Uint8Array(await part.arrayBuffer())));
+      const append = await sandbox.exec(`base64 -d ${partPath} >> ${CACHE_ARCHIVE_PATH} && rm -f ${partPath}`);
+      if (append.exitCode !== 0) {
+        throw new Error(`Failed to copy the cache archive: ${append.stderr.slice(0, 500)}`);
+      }
+    }
+
+    const unpack = await sandbox.exec(cacheUnpackCommand(workDir));
+    if (unpack.exitCode !== 0) {
+      throw new Error(`Failed to unpack the cache archive: ${unpack.stderr.slice(0, 500)}`);
+    }
+    return true;
+  }
+
+  /**
+   * Pack the cached directories and stream the archive to the bucket as a
+   * multipart upload, unless another session saved the same key meanwhile
+   */
+  private async saveCache(
+    sandbox: ReturnType<typeof getSandbox>,
+    workDir: string,
+    template: SandboxTemplate,
+    objectKey: string
+  ): Promise<void> {
+    const pack = await sandbox.exec(cachePackCommand(workDir, template));
+    if (pack.exitCode !== 0) {
+      throw new Error(`Failed to pack the cache archive: ${pack.stderr.slice(0, 500)}`);
+    }
+    if (pack.stdout.includes('cache-empty') || await this.cache!.head(objectKey)) return;
+
+    const upload = await this.cache!.createMultipartUpload(objectKey, {
+      httpMetadata: { contentType: 'application/gzip' },
+    });
+    const parts: R2UploadedPart[] = [];
+    let buffer = new Uint8Array(CACHE_PART_BYTES);
+    let filled = 0;
+    try {
+      for await (const chunk of streamFile(await sandbox.readFileStream(CACHE_ARCHIVE_PATH))) {
+        let bytes = typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk;
+        while (bytes.byteLength > 0) {
+          const taken = Math.min(bytes.byteLength, CACHE_PART_BYTES - filled);
+          buffer.set(bytes.subarray(0, taken), filled);
+          filled += taken;
+          bytes = bytes.subarray(taken);
+          if (filled === CACHE_PART_BYTES) {
+            parts.push(await upload.uploadPart(parts.length + 1, buffer));
+            buffer = new Uint8Array(CACHE_PART_BYTES);
+            filled = 0;
+          }
+        }
+      }
+      if (filled > 0 || parts.length === 0) {
+        parts.push(await upload.uploadPart(parts.length + 1, buffer.subarray(0, filled)));
+      }
+      await upload.complete(parts);
+    } catch (error) {
+      await upload.abort();
+      throw error;
+    } finally {
+      await sandbox.exec(`rm -f ${CACHE_ARCHIVE_PATH}`);
+    }
+  }
+
+  /**
+   * Run a setup command under the session's limits, streaming its output.
+   * Setup commands get the longest command time the template allows.
+   */
+  private async runSetupCommand(
+    sandbox: ReturnType<typeof getSandbox>,
+    command: string,
+    limits: SandboxLimits | null
+  ): Promise<number> {
+    const stream = await sandbox.execStream(limitCommand(command, limits), {
+      timeout: limits?.timeoutMs ?? SETUP_COMMAND_TIMEOUT_MS,
+    });
+    for await (const event of parseSSEStream<ExecEvent>(stream)) {
+      if (event.type === 'stdout') this.write('stdout', event.data || '');
+      if (event.type === 'stderr') this.write('stderr', event.data || '');
+      if (event.type === 'complete') return event.exitCode ?? 0;
+      if (event.type === 'error') {
+        this.write('stderr', `${event.error}\n`);
+        return 1;
+      }
+    }
+    return 1;
+  }
+
+  /** Pass output to the run's terminal pane, when there is one */
+  private write(stream: SandboxOutputStream, text: string): void {
+    if (text) this.output?.({ stream, text });
+  }
+
+  private sessionStore(): SandboxSessionStore {
+    if (!this.sessions) {
+      throw new Error('Sandbox sessions are not available outside a workflow run');
+    }
+    return this.sessions;
+  }
+
+  /**
+   * Repository URL with the GitHub token embedded. The x-access-token user
+   * works for both user OAuth tokens and GitHub App installation tokens.
+   */
+  private authenticatedUrl(repoUrl: string): string {
+    if (!this.credentials.githubToken || !repoUrl.startsWith('https://')) {
+      return repoUrl;
+    }
+    return repoUrl.replace('https://', `https://x-access-token:${this.credentials.githubToken}@`);
+  }
 }
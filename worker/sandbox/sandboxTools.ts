@@ -7,6 +7,7 @@
 
 import { z } from 'zod';
 import { defineTools, commonSchemas } from '../utils/zodTools';
+import { isReservedPreviewPort, SANDBOX_CONTROL_PORT } from '../workflows/sandboxPreviews';
 
 // ============================================================================
 // Output Schemas
@@ -15,11 +16,15 @@ import { defineTools, commonSchemas } from '../utils/zodTools';
 const createSessionOutput = z.object({
   sessionId: z.string().describe('Session identifier for subsequent calls'),
   workDir: z.string().describe('Full working directory path'),
+  setupCommands: z.number().optional()
+    .describe("Setup commands from the project's sandbox template that ran after the clone"),
+  cache: z.enum(['hit', 'miss', 'off']).optional()
+    .describe("Whether cached dependency directories were restored ('off' when the template caches none)"),
 });
 
 const runClaudeOutput = z.object({
   success: z.boolean().describe('Whether Claude completed successfully'),
-  output: z.string().describe("Claude's stdout output"),
+  output: z.string().describe("Claude's final response"),
   filesModified: z.array(z.string())
     .describe('List of files that were modified'),
   exitCode: z.number().describe('Exit code from Claude CLI'),
@@ -61,8 +66,25 @@ const execOutput = z.object({
   exitCode: z.number().describe('Command exit code'),
 });
 
+const startPreviewOutput = z.object({
+  previewId: z.string().describe('Preview identifier'),
+  sessionId: z.string().describe('Session the server runs in'),
+  url: z.string().describe('Path on this app where reviewers open the preview'),
+  title: z.string().describe('Preview name'),
+  port: z.number().describe('Port the server listens on'),
+});
+
+const publishFileOutput = z.object({
+  fileId: z.string().describe('Published file identifier'),
+  url: z.string().describe('Path on this app where the file is downloaded'),
+  title: z.string().describe('File name'),
+  size: z.number().describe('Size in bytes'),
+  mimeType: z.string().describe('MIME type'),
+});
+
 const destroySessionOutput = z.object({
   success: z.boolean().describe('Whether destruction succeeded'),
+  sessionId: z.string().describe('Session that was destroyed'),
 });
 
 // ============================================================================
@@ -71,7 +93,7 @@ const destroySessionOutput = z.object({
 
 export const sandboxTools = defineTools({
   createSession: {
-    description: 'Create a new sandbox session, optionally cloning a git repository. Returns a sessionId to use in subsequent calls.',
+    description: "Create a new sandbox session, optionally cloning a git repository. The project's sandbox template is applied: its secrets are set as environment variables, cached dependencies are restored and its setup commands run. Returns a sessionId to use in subsequent calls.",
     input: z.object({
       repoUrl: z.string().max(500).optional()
         .describe('Git repository URL to clone (e.g., https://github.com/owner/repo.git). GitHub token is auto-injected.'),
@@ -96,6 +118,7 @@ export const sandboxTools = defineTools({
         .describe('Timeout in seconds (default: 600)'),
     }),
     output: runClaudeOutput,
+    mutating: true,
   },
 
   getDiff: {
@@ -106,6 +129,7 @@ export const sandboxTools = defineTools({
         .describe('Get only staged changes (default: false, gets all changes)'),
     }),
     output: getDiffOutput,
+    readOnly: true,
   },
 
   commit: {
@@ -115,6 +139,7 @@ export const sandboxTools = defineTools({
       message: z.string().max(5000).describe('Commit message'),
     }),
     output: commitOutput,
+    mutating: true,
   },
 
   push: {
@@ -129,6 +154,7 @@ export const sandboxTools = defineTools({
         .describe('Force push (default: false)'),
     }),
     output: pushOutput,
+    mutating: true,
   },
 
   readFile: {
@@ -138,6 +164,7 @@ export const sandboxTools = defineTools({
       path: commonSchemas.sandboxPath.describe('File path relative to working directory'),
     }),
     output: readFileOutput,
+    readOnly: true,
   },
 
   writeFile: {
@@ -148,6 +175,7 @@ export const sandboxTools = defineTools({
       content: z.string().max(1000000).describe('Content to write'),
     }),
     output: writeFileOutput,
+    mutating: true,
   },
 
   exec: {
@@ -161,10 +189,47 @@ export const sandboxTools = defineTools({
         .describe('Timeout in seconds (default: 60)'),
     }),
     output: execOutput,
+    mutating: true,
+  },
+
+  startPreview: {
+    description: 'Start a dev server (web app, docs site) in the sandbox and return a preview URL reviewers can open. ' +
+      'The server must listen on 0.0.0.0 at the given port ($PORT). It is served under the path in $PREVIEW_BASE_PATH; ' +
+      'requests reach it from the root unless keepBasePath is set. The preview ends when the session is destroyed.',
+    input: z.object({
+      sessionId: commonSchemas.sessionId,
+      command: z.string().max(10000)
+        .describe('Command that starts the server (e.g., "npm run dev -- --host 0.0.0.0 --port 5173")'),
+      port: z.coerce.number().int().min(1024).max(65535)
+        .refine((port) => !isReservedPreviewPort(port), { message: `Port ${SANDBOX_CONTROL_PORT} is used by the sandbox itself` })
+        .describe(`Port the server listens on (not ${SANDBOX_CONTROL_PORT})`),
+      cwd: z.string().max(500).optional()
+        .describe('Working directory for the server (relative to session workDir)'),
+      name: z.string().max(200).optional()
+        .describe('Name shown to reviewers (e.g., "Docs site")'),
+      keepBasePath: z.boolean().default(false)
+        .describe('Forward request paths with $PREVIEW_BASE_PATH in front, for servers configured with it (e.g., vite --base)'),
+      timeout: z.coerce.number().int().min(5).max(600).default(120)
+        .describe('Seconds to wait for the server to answer (default: 120)'),
+    }),
+    output: startPreviewOutput,
+    mutating: true,
+  },
+
+  publishFile: {
+    description: 'Publish a file from the sandbox (report, build output, screenshot) as a task artifact. ' +
+      'The file is copied out of the container, so the user can still download it after the session is destroyed. Up to 25 MB.',
+    input: z.object({
+      sessionId: commonSchemas.sessionId,
+      path: commonSchemas.sandboxPath.describe('File path relative to working directory'),
+      name: z.string().max(200).optional()
+        .describe("Name to download the file as (default: the file's own name)"),
+    }),
+    output: publishFileOutput,
   },
 
   destroySession: {
-    description: 'Cleanup and destroy a sandbox session',
+    description: 'Cleanup and destroy a sandbox session, ending its previews',
     input: z.object({
       sessionId: commonSchemas.sessionId,
     }),
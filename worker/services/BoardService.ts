@@ -1,9 +1,11 @@
 import { jsonResponse } from '../utils/response';
 import { logger } from '../utils/logger';
-import { CREDENTIAL_TYPES } from '../constants';
+import { CREDENTIAL_TYPES, GITHUB_AUTH_MODES, type GitHubAuthMode } from '../constants';
 import { transformProject, transformColumn, transformTask, transformAgent, toCamelCase } from '../utils/transformations';
 import { getCredentialTypeForUrlPattern, type UrlPatternType } from '../mcp/AccountMCPRegistry';
 import type { CredentialService } from './CredentialService';
+import { validateBudget, type AgentBudget } from '../workflows/budgets';
+import { dependencyIds, parseTaskContext, validateDependencies, type QueuedStart } from '../workflows/dependencies';
 
 interface TaskRow {
   id: string;
@@ -15,6 +17,7 @@ interface TaskRow {
   priority: string;
   position: number;
   context: string | null;
+  queued_start: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -79,18 +82,19 @@ export class BoardService {
    * Get basic project info for access verification
    */
   getProjectInfo(): Response {
-    const project = this.sql.exec('SELECT id, name, owner_id FROM projects').toArray()[0];
+    const project = this.sql.exec('SELECT id, name, owner_id, github_auth FROM projects').toArray()[0];
     if (!project) {
       return jsonResponse({ success: false, error: 'Project not initialized' }, 404);
     }
 
-    const projectRecord = project as { id: string; name: string; owner_id: string };
+    const projectRecord = project as { id: string; name: string; owner_id: string; github_auth: GitHubAuthMode };
     return jsonResponse({
       success: true,
       data: {
         id: projectRecord.id,
         name: projectRecord.name,
         ownerId: projectRecord.owner_id,
+        githubAuth: projectRecord.github_auth,
       },
     });
   }
@@ -137,17 +141,24 @@ export class BoardService {
   /**
    * Update a project
    */
-  updateProject(id: string, data: { name?: string }): Response {
+  updateProject(id: string, data: { name?: string; githubAuth?: GitHubAuthMode }): Response {
+    if (data.githubAuth && !GITHUB_AUTH_MODES.includes(data.githubAuth)) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `githubAuth must be one of: ${GITHUB_AUTH_MODES.join(', ')}` },
+      }, 400);
+    }
+
     const now = new Date().toISOString();
     this.sql.exec(
-      'UPDATE projects SET name = COALESCE(?, name), updated_at = ? WHERE id = ?',
-      data.name ?? null, now, id
+      'UPDATE projects SET name = COALESCE(?, name), github_auth = COALESCE(?, github_auth), updated_at = ? WHERE id = ?',
+      data.name ?? null, data.githubAuth ?? null, now, id
     );
     return this.getProject(id);
   }
 
   // Alias for backward compatibility
-  updateBoard(id: string, data: { name?: string }): Response {
+  updateBoard(id: string, data: { name?: string; githubAuth?: GitHubAuthMode }): Response {
     return this.updateProject(id, data);
   }
 
@@ -264,6 +275,13 @@ export class BoardService {
     const id = this.generateId();
     const now = new Date().toISOString();
 
+    if (data.context) {
+      const error = this.validateTaskDependencies(id, dependencyIds(data.context));
+      if (error) {
+        return jsonResponse({ success: false, error: { code: 'VALIDATION_ERROR', message: error } }, 400);
+      }
+    }
+
     // Calculate position based on column (if provided) or globally
     let position = 0;
     if (data.columnId) {
@@ -336,6 +354,13 @@ export class BoardService {
       return jsonResponse({ error: 'Task not found' }, 404);
     }
 
+    if (data.context) {
+      const error = this.validateTaskDependencies(id, dependencyIds(data.context));
+      if (error) {
+        return jsonResponse({ success: false, error: { code: 'VALIDATION_ERROR', message: error } }, 400);
+      }
+    }
+
     this.sql.exec(
       `UPDATE tasks SET
         title = ?,
@@ -356,6 +381,52 @@ export class BoardService {
     return jsonResponse({ success: true, data: transformTask(updated as Record<string, unknown>) });
   }
 
+  /**
+   * Queue a blocked task to start once its dependencies complete, or
+   * clear the queue entry when data is null
+   */
+  setQueuedStart(id: string, data: QueuedStart | null): Response {
+    const task = this.sql.exec('SELECT id FROM tasks WHERE id = ?', id).toArray()[0];
+    if (!task) {
+      return jsonResponse({ error: 'Task not found' }, 404);
+    }
+
+    this.sql.exec(
+      'UPDATE tasks SET queued_start = ?, updated_at = ? WHERE id = ?',
+      data ? JSON.stringify(data) : null,
+      new Date().toISOString(),
+      id
+    );
+
+    const updated = this.sql.exec('SELECT * FROM tasks WHERE id = ?', id).toArray()[0];
+    return jsonResponse({ success: true, data: transformTask(updated as Record<string, unknown>) });
+  }
+
+  /**
+   * Get queued tasks that depend on a task (internal use)
+   */
+  getQueuedDependents(taskId: string): Array<{ id: string; queuedStart: QueuedStart }> {
+    const rows = this.sql.exec(
+      'SELECT id, context, queued_start FROM tasks WHERE queued_start IS NOT NULL'
+    ).toArray() as unknown as Array<Pick<TaskRow, 'id' | 'context' | 'queued_start'>>;
+
+    return rows
+      .filter((row) => dependencyIds(parseTaskContext(row.context)).includes(taskId))
+      .map((row) => ({ id: row.id, queuedStart: JSON.parse(row.queued_start!) as QueuedStart }));
+  }
+
+  /**
+   * Check a task's dependencies against the other tasks on this board
+   */
+  private validateTaskDependencies(id: string, dependsOn: string[]): string | null {
+    const rows = this.sql.exec('SELECT id, context FROM tasks').toArray() as unknown as Array<Pick<TaskRow, 'id' | 'context'>>;
+    const graph: Record<string, string[]> = {};
+    for (const row of rows) {
+      graph[row.id] = dependencyIds(parseTaskContext(row.context));
+    }
+    return validateDependencies(graph, id, dependsOn);
+  }
+
   /**
    * Delete a task
    */
@@ -547,6 +618,19 @@ export class BoardService {
         }
         break;
       }
+      case 'google_calendar_event': {
+        const { decodeEventLinkId } = await import('../google/calendarEvents');
+        const event = decodeEventLinkId(match[1]);
+        if (!event) break;
+        const { CalendarMCPServer } = await import('../google/CalendarMCP');
+        const mcp = new CalendarMCPServer(accessToken);
+        const result = await mcp.callTool(fetchTool, { eventId: event.eventId, calendarId: event.calendarId });
+        const data = result?.structuredContent as { title?: string } | undefined;
+        if (data?.title) {
+          return { type: 'google_calendar_event', title: data.title, id: event.eventId };
+        }
+        break;
+      }
       case 'github_pr': {
         const [, owner, repo, prNumber] = match;
         const { GitHubMCPServer } = await import('../github/GitHubMCP');
@@ -701,13 +785,19 @@ export class BoardService {
     systemPrompt: string;
     model?: string;
     icon?: string;
+    budget?: AgentBudget | null;
   }): Response {
+    const budgetError = data.budget ? validateBudget(data.budget) : null;
+    if (budgetError) {
+      return jsonResponse({ success: false, error: { code: 'VALIDATION_ERROR', message: budgetError } }, 400);
+    }
+
     const id = this.generateId();
     const now = new Date().toISOString();
 
     this.sql.exec(
-      `INSERT INTO agents (id, project_id, name, description, system_prompt, model, icon, enabled, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?)`,
+      `INSERT INTO agents (id, project_id, name, description, system_prompt, model, icon, budget, enabled, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?)`,
       id,
       data.projectId ?? null,
       data.name,
@@ -715,6 +805,7 @@ export class BoardService {
       data.systemPrompt,
       data.model ?? 'claude-sonnet-4-5-20250929',
       data.icon ?? null,
+      data.budget ? JSON.stringify(data.budget) : null,
       now,
       now
     );
@@ -733,7 +824,14 @@ export class BoardService {
     model?: string;
     icon?: string;
     enabled?: boolean;
+    /** null clears the agent's budget */
+    budget?: AgentBudget | null;
   }): Response {
+    const budgetError = data.budget ? validateBudget(data.budget) : null;
+    if (budgetError) {
+      return jsonResponse({ success: false, error: { code: 'VALIDATION_ERROR', message: budgetError } }, 400);
+    }
+
     const now = new Date().toISOString();
 
     const existing = this.sql.exec('SELECT * FROM agents WHERE id = ?', agentId).toArray()[0] as Record<string, unknown> | undefined;
@@ -748,6 +846,7 @@ export class BoardService {
         system_prompt = ?,
         model = ?,
         icon = ?,
+        budget = ?,
         enabled = ?,
         updated_at = ?
        WHERE id = ?`,
@@ -756,6 +855,7 @@ export class BoardService {
       data.systemPrompt ?? existing.system_prompt,
       data.model ?? existing.model,
       data.icon ?? existing.icon,
+      data.budget !== undefined ? (data.budget ? JSON.stringify(data.budget) : null) : existing.budget,
       data.enabled !== undefined ? (data.enabled ? 1 : 0) : existing.enabled,
       now,
       agentId
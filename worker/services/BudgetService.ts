@@ -0,0 +1,60 @@
+import { jsonResponse } from '../utils/response';
+import { validateBudget, type AgentBudget } from '../workflows/budgets';
+
+export class BudgetService {
+  private sql: SqlStorage;
+
+  constructor(sql: SqlStorage) {
+    this.sql = sql;
+  }
+
+  // ============================================
+  // BUDGET OPERATIONS
+  // ============================================
+
+  /**
+   * Get the run budget for a project (or '__global__' for the user-level budget)
+   */
+  getBudget(projectId: string): Response {
+    const row = this.sql.exec(
+      'SELECT budget FROM budgets WHERE project_id = ?',
+      projectId
+    ).toArray()[0] as { budget: string } | undefined;
+
+    let budget: AgentBudget | null = null;
+    if (row) {
+      try {
+        budget = JSON.parse(row.budget);
+      } catch {
+        // Treat an unreadable budget as unset
+      }
+    }
+
+    return jsonResponse({ success: true, data: budget });
+  }
+
+  /**
+   * Replace the run budget for a project. Null clears it.
+   */
+  setBudget(projectId: string, budget: AgentBudget | null): Response {
+    if (!budget) {
+      this.sql.exec('DELETE FROM budgets WHERE project_id = ?', projectId);
+      return jsonResponse({ success: true, data: null });
+    }
+
+    const error = validateBudget(budget);
+    if (error) {
+      return jsonResponse({ success: false, error: { code: 'VALIDATION_ERROR', message: error } }, 400);
+    }
+
+    this.sql.exec(
+      `INSERT INTO budgets (project_id, budget, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(project_id) DO UPDATE SET budget = excluded.budget, updated_at = excluded.updated_at`,
+      projectId,
+      JSON.stringify(budget),
+      new Date().toISOString()
+    );
+
+    return this.getBudget(projectId);
+  }
+}
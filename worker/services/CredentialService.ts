@@ -3,6 +3,8 @@ import { jsonResponse } from '../utils/response';
 import { toCamelCase } from '../utils/transformations';
 import { logger } from '../utils/logger';
 import { getAccountByCredentialType } from '../mcp/AccountMCPRegistry';
+import { CREDENTIAL_TYPES } from '../constants';
+import { validateSecretName } from '../workflows/sandboxTemplates';
 
 // Buffer time (5 minutes) before expiry to trigger refresh
 const TOKEN_REFRESH_BUFFER_MS = 5 * 60 * 1000;
@@ -66,6 +68,20 @@ export class CredentialService {
     value: string;
     metadata?: object;
   }): Promise<Response> {
+    // Sandbox secrets become environment variables; saving one again replaces it
+    if (data.type === CREDENTIAL_TYPES.SANDBOX_SECRET) {
+      const error = validateSecretName(data.name);
+      if (error) {
+        return jsonResponse({ success: false, error: { code: 'VALIDATION_ERROR', message: error } }, 400);
+      }
+      this.sql.exec(
+        'DELETE FROM project_credentials WHERE project_id = ? AND type = ? AND name = ?',
+        projectId,
+        data.type,
+        data.name
+      );
+    }
+
     const id = this.generateId();
     const now = new Date().toISOString();
     const encryptedValue = await this.encrypt(data.value);
@@ -134,6 +150,22 @@ export class CredentialService {
     return this.decrypt(credential.encrypted_value);
   }
 
+  /**
+   * Get every decrypted credential of a type, by name (e.g. sandbox secrets)
+   */
+  async getCredentialValues(projectId: string, type: string): Promise<Array<{ name: string; value: string }>> {
+    const credentials = this.sql.exec(
+      'SELECT name, encrypted_value FROM project_credentials WHERE project_id = ? AND type = ? ORDER BY name',
+      projectId,
+      type
+    ).toArray() as Array<{ name: string; encrypted_value: string }>;
+
+    return Promise.all(credentials.map(async (credential) => ({
+      name: credential.name,
+      value: await this.decrypt(credential.encrypted_value),
+    })));
+  }
+
   /**
    * Get a valid access token, refreshing if expired.
    * Centralizes all OAuth token refresh logic.
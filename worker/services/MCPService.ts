@@ -1,6 +1,6 @@
 import { GmailMCPServer } from '../google/GmailMCP';
 import { DocsMCPServer } from '../google/DocsMCP';
-import { MCPClient, type MCPServerConfig } from '../mcp/MCPClient';
+import { MCPClient, isMutatingToolSchema, type MCPServerConfig } from '../mcp/MCPClient';
 import { jsonResponse } from '../utils/response';
 import { toCamelCase } from '../utils/transformations';
 import type { CredentialService } from './CredentialService';
@@ -119,7 +119,9 @@ export class MCPService {
       }, 400);
     }
 
-    const credentialId = this.credentialService.findCredentialId(projectId, account.credentialType);
+    const credentialId = [account.credentialType, ...(account.alternateCredentialTypes || [])]
+      .map((type) => this.credentialService.findCredentialId(projectId, type))
+      .find((id) => id !== undefined);
     if (!credentialId) {
       return jsonResponse({
         success: false,
@@ -162,8 +164,8 @@ export class MCPService {
     for (const tool of tools) {
       const toolId = this.generateId();
       this.sql.exec(
-        `INSERT INTO mcp_tool_schemas (id, server_id, name, description, input_schema, output_schema, approval_required_fields, cached_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        `INSERT INTO mcp_tool_schemas (id, server_id, name, description, input_schema, output_schema, approval_required_fields, mutating, cached_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         toolId,
         id,
         tool.name,
@@ -171,6 +173,7 @@ export class MCPService {
         JSON.stringify(tool.inputSchema),
         tool.outputSchema ? JSON.stringify(tool.outputSchema) : null,
         tool.approvalRequiredFields ? JSON.stringify(tool.approvalRequiredFields) : null,
+        tool.mutating ? 1 : 0,
         now
       );
     }
@@ -262,7 +265,7 @@ export class MCPService {
     ).toArray()[0] as { name: string; type: string } | undefined;
 
     if (server?.type === 'hosted') {
-      let hostedTools: Array<{ name: string; description?: string; inputSchema: object; approvalRequiredFields?: string[] }> = [];
+      let hostedTools: Array<{ name: string; description?: string; inputSchema: object; approvalRequiredFields?: string[]; mutating?: boolean }> = [];
 
       if (server.name === 'Gmail') {
         const gmailServer = new GmailMCPServer('');
@@ -278,14 +281,15 @@ export class MCPService {
         for (const tool of hostedTools) {
           const id = this.generateId();
           this.sql.exec(
-            `INSERT INTO mcp_tool_schemas (id, server_id, name, description, input_schema, approval_required_fields, cached_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            `INSERT INTO mcp_tool_schemas (id, server_id, name, description, input_schema, approval_required_fields, mutating, cached_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
             id,
             serverId,
             tool.name,
             tool.description || null,
             JSON.stringify(tool.inputSchema),
             tool.approvalRequiredFields ? JSON.stringify(tool.approvalRequiredFields) : null,
+            tool.mutating ? 1 : 0,
             now
           );
         }
@@ -297,6 +301,19 @@ export class MCPService {
     return jsonResponse({ success: true, data: [] });
   }
 
+  /**
+   * Check whether a remote server has cached tools whose mutating flag is
+   * unknown, so their schemas should be fetched again
+   */
+  hasUnknownToolSchemas(serverId: string): boolean {
+    const row = this.sql.exec(
+      `SELECT 1 FROM mcp_tool_schemas t JOIN mcp_servers s ON s.id = t.server_id
+       WHERE t.server_id = ? AND s.type = 'remote' AND t.mutating IS NULL LIMIT 1`,
+      serverId
+    ).toArray()[0];
+    return row !== undefined;
+  }
+
   /**
    * Cache tools for an MCP server
    */
@@ -306,6 +323,8 @@ export class MCPService {
       description?: string;
       inputSchema: object;
       approvalRequiredFields?: string[];
+      mutating?: boolean;
+      annotations?: Record<string, unknown>;
     }>;
   }): Response {
     const now = new Date().toISOString();
@@ -315,14 +334,15 @@ export class MCPService {
     for (const tool of data.tools) {
       const id = this.generateId();
       this.sql.exec(
-        `INSERT INTO mcp_tool_schemas (id, server_id, name, description, input_schema, approval_required_fields, cached_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        `INSERT INTO mcp_tool_schemas (id, server_id, name, description, input_schema, approval_required_fields, mutating, cached_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
         id,
         serverId,
         tool.name,
         tool.description || null,
         JSON.stringify(tool.inputSchema),
         tool.approvalRequiredFields ? JSON.stringify(tool.approvalRequiredFields) : null,
+        isMutatingToolSchema(tool) ? 1 : 0,
         now
       );
     }
@@ -398,14 +418,15 @@ export class MCPService {
       for (const tool of tools) {
         const id = this.generateId();
         this.sql.exec(
-          `INSERT INTO mcp_tool_schemas (id, server_id, name, description, input_schema, approval_required_fields, cached_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          `INSERT INTO mcp_tool_schemas (id, server_id, name, description, input_schema, approval_required_fields, mutating, cached_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
           id,
           serverId,
           tool.name,
           tool.description || null,
           JSON.stringify(tool.inputSchema),
           tool.approvalRequiredFields ? JSON.stringify(tool.approvalRequiredFields) : null,
+          isMutatingToolSchema(tool) ? 1 : 0,
           now
         );
       }
@@ -506,6 +527,8 @@ export class MCPService {
         // Leave as string
       }
     }
+    // Convert mutating from SQLite integer to boolean (null: not known yet)
+    tool.mutating = tool.mutating == null ? null : tool.mutating === 1;
     return tool;
   }
 }
@@ -0,0 +1,330 @@
+import { jsonResponse } from '../utils/response';
+import { encryptValue, decryptValue } from '../utils/crypto';
+import { nextRunTime } from '../workflows/schedules';
+import {
+  NOTIFICATION_EVENTS,
+  digestCron,
+  validateNotificationChannel,
+  validateNotificationSettings,
+  type Notification,
+  type NotificationChannel,
+  type NotificationChannelInput,
+  type NotificationEventType,
+  type NotificationMute,
+  type NotificationSettings,
+} from '../workflows/notifications';
+
+const DEFAULT_SETTINGS: NotificationSettings = {
+  digest: 'off',
+  digestHour: 9,
+  timezone: 'UTC',
+  nextDigestAt: null,
+};
+
+export class NotificationService {
+  private sql: SqlStorage;
+  private encryptionKey: string;
+  private generateId: () => string;
+
+  constructor(
+    sql: SqlStorage,
+    encryptionKey: string,
+    generateId: () => string
+  ) {
+    this.sql = sql;
+    this.encryptionKey = encryptionKey;
+    this.generateId = generateId;
+  }
+
+  // ============================================
+  // CHANNEL OPERATIONS
+  // ============================================
+
+  /**
+   * Get all channels
+   */
+  async getChannels(): Promise<Response> {
+    return jsonResponse({ success: true, data: await this.listChannels() });
+  }
+
+  /**
+   * Add a channel. appUrl is the app's origin, used for links in messages.
+   */
+  async createChannel(input: NotificationChannelInput, appUrl: string | null): Promise<Response> {
+    const error = validateNotificationChannel(input);
+    if (error) {
+      return jsonResponse({ success: false, error: { code: 'VALIDATION_ERROR', message: error } }, 400);
+    }
+
+    const id = this.generateId();
+    const now = new Date().toISOString();
+
+    this.sql.exec(
+      `INSERT INTO notification_channels
+        (id, type, name, enabled, events, encrypted_config, app_url, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      id,
+      input.type,
+      input.name.trim(),
+      input.enabled === false ? 0 : 1,
+      JSON.stringify(input.events || []),
+      await encryptValue(JSON.stringify(input.config), this.encryptionKey),
+      appUrl,
+      now,
+      now
+    );
+
+    return jsonResponse({ success: true, data: await this.findChannel(id) });
+  }
+
+  /**
+   * Update a channel's name, events, config or enabled state
+   */
+  async updateChannel(channelId: string, update: Partial<Omit<NotificationChannelInput, 'type'>>): Promise<Response> {
+    const existing = await this.findChannel(channelId);
+    if (!existing) {
+      return jsonResponse({ error: 'Channel not found' }, 404);
+    }
+
+    const merged: NotificationChannelInput = {
+      type: existing.type,
+      name: update.name ?? existing.name,
+      enabled: update.enabled ?? existing.enabled,
+      events: update.events ?? existing.events,
+      config: update.config ?? existing.config,
+    };
+
+    const error = validateNotificationChannel(merged);
+    if (error) {
+      return jsonResponse({ success: false, error: { code: 'VALIDATION_ERROR', message: error } }, 400);
+    }
+
+    this.sql.exec(
+      `UPDATE notification_channels SET
+         name = ?, enabled = ?, events = ?, encrypted_config = ?, last_error = ?, updated_at = ?
+       WHERE id = ?`,
+      merged.name.trim(),
+      merged.enabled ? 1 : 0,
+      JSON.stringify(merged.events),
+      await encryptValue(JSON.stringify(merged.config), this.encryptionKey),
+      // Re-enabling or fixing a channel clears its last error
+      update.enabled || update.config ? null : existing.lastError,
+      new Date().toISOString(),
+      channelId
+    );
+
+    return jsonResponse({ success: true, data: await this.findChannel(channelId) });
+  }
+
+  /**
+   * Remove a channel
+   */
+  deleteChannel(channelId: string): Response {
+    const row = this.sql.exec('SELECT id FROM notification_channels WHERE id = ?', channelId).toArray()[0];
+    if (!row) {
+      return jsonResponse({ error: 'Channel not found' }, 404);
+    }
+
+    this.sql.exec('DELETE FROM notification_channels WHERE id = ?', channelId);
+    return jsonResponse({ success: true });
+  }
+
+  // ============================================
+  // SETTINGS AND MUTES
+  // ============================================
+
+  /**
+   * Get digest settings
+   */
+  getSettings(): Response {
+    return jsonResponse({ success: true, data: this.findSettings() });
+  }
+
+  /**
+   * Change digest settings. Anything already queued goes out at the new
+   * schedule's next slot, or on the next alarm when digests are turned off.
+   */
+  updateSettings(input: Partial<Pick<NotificationSettings, 'digest' | 'digestHour' | 'timezone'>>, now: Date): Response {
+    const current = this.findSettings();
+    const merged = {
+      digest: input.digest ?? current.digest,
+      digestHour: input.digestHour ?? current.digestHour,
+      timezone: input.timezone ?? current.timezone,
+    };
+
+    const error = validateNotificationSettings(merged);
+    if (error) {
+      return jsonResponse({ success: false, error: { code: 'VALIDATION_ERROR', message: error } }, 400);
+    }
+
+    const hasPending = this.sql.exec('SELECT id FROM pending_notifications LIMIT 1').toArray().length > 0;
+    const nextDigestAt = !hasPending
+      ? null
+      : merged.digest === 'off'
+        ? now.toISOString()
+        : nextRunTime(digestCron(merged), merged.timezone, now)?.toISOString() ?? now.toISOString();
+
+    this.sql.exec(
+      `INSERT INTO notification_settings (id, digest, digest_hour, timezone, next_digest_at, updated_at)
+       VALUES (1, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         digest = excluded.digest,
+         digest_hour = excluded.digest_hour,
+         timezone = excluded.timezone,
+         next_digest_at = excluded.next_digest_at,
+         updated_at = excluded.updated_at`,
+      merged.digest,
+      merged.digestHour,
+      merged.timezone,
+      nextDigestAt,
+      now.toISOString()
+    );
+
+    return jsonResponse({ success: true, data: this.findSettings() });
+  }
+
+  /**
+   * Get every project mute
+   */
+  getMutes(): Response {
+    const rows = this.sql.exec('SELECT * FROM notification_mutes').toArray();
+    return jsonResponse({
+      success: true,
+      data: rows.map((row) => this.transformMute(row as Record<string, unknown>)),
+    });
+  }
+
+  /**
+   * Mute a project (every event when events is empty), or unmute it with null
+   */
+  setMute(projectId: string, events: NotificationEventType[] | null): Response {
+    if (events === null) {
+      this.sql.exec('DELETE FROM notification_mutes WHERE project_id = ?', projectId);
+      return jsonResponse({ success: true, data: null });
+    }
+
+    const unknown = events.find((event) => !NOTIFICATION_EVENTS.includes(event));
+    if (unknown) {
+      return jsonResponse({ success: false, error: { code: 'VALIDATION_ERROR', message: `Unknown event "${unknown}"` } }, 400);
+    }
+
+    this.sql.exec(
+      `INSERT INTO notification_mutes (project_id, events, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(project_id) DO UPDATE SET events = excluded.events, updated_at = excluded.updated_at`,
+      projectId,
+      JSON.stringify(events),
+      new Date().toISOString()
+    );
+    return jsonResponse({ success: true, data: this.findMute(projectId) });
+  }
+
+  // ============================================
+  // DELIVERY SUPPORT (internal use)
+  // ============================================
+
+  async listChannels(): Promise<NotificationChannel[]> {
+    const rows = this.sql.exec('SELECT * FROM notification_channels ORDER BY created_at ASC').toArray();
+    return Promise.all(rows.map((row) => this.transformChannel(row as Record<string, unknown>)));
+  }
+
+  async findChannel(channelId: string): Promise<NotificationChannel | null> {
+    const row = this.sql.exec('SELECT * FROM notification_channels WHERE id = ?', channelId).toArray()[0];
+    return row ? this.transformChannel(row as Record<string, unknown>) : null;
+  }
+
+  findSettings(): NotificationSettings {
+    const row = this.sql.exec('SELECT * FROM notification_settings WHERE id = 1').toArray()[0];
+    if (!row) return { ...DEFAULT_SETTINGS };
+    return {
+      digest: row.digest as NotificationSettings['digest'],
+      digestHour: row.digest_hour as number,
+      timezone: row.timezone as string,
+      nextDigestAt: (row.next_digest_at as string | null) ?? null,
+    };
+  }
+
+  findMute(projectId: string): NotificationMute | null {
+    const row = this.sql.exec('SELECT * FROM notification_mutes WHERE project_id = ?', projectId).toArray()[0];
+    return row ? this.transformMute(row as Record<string, unknown>) : null;
+  }
+
+  /**
+   * Note the outcome of a send on the channel
+   */
+  recordChannelResult(channelId: string, error: string | null): void {
+    const now = new Date().toISOString();
+    if (error) {
+      this.sql.exec('UPDATE notification_channels SET last_error = ? WHERE id = ?', error, channelId);
+    } else {
+      this.sql.exec('UPDATE notification_channels SET last_sent_at = ?, last_error = NULL WHERE id = ?', now, channelId);
+    }
+  }
+
+  /**
+   * Hold a notification for the next digest, returning when that goes out
+   */
+  queueNotification(notification: Notification, now: Date): string {
+    this.sql.exec(
+      'INSERT INTO pending_notifications (id, notification, created_at) VALUES (?, ?, ?)',
+      notification.id,
+      JSON.stringify(notification),
+      notification.createdAt
+    );
+
+    const settings = this.findSettings();
+    if (settings.nextDigestAt) {
+      return settings.nextDigestAt;
+    }
+
+    const nextDigestAt = nextRunTime(digestCron(settings), settings.timezone, now)?.toISOString() ?? now.toISOString();
+    this.sql.exec(
+      `INSERT INTO notification_settings (id, digest, digest_hour, timezone, next_digest_at, updated_at)
+       VALUES (1, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET next_digest_at = excluded.next_digest_at`,
+      settings.digest,
+      settings.digestHour,
+      settings.timezone,
+      nextDigestAt,
+      now.toISOString()
+    );
+    return nextDigestAt;
+  }
+
+  /**
+   * Remove and return queued notifications, oldest first, if the digest is due
+   */
+  takeDueDigest(now: Date): Notification[] {
+    const settings = this.findSettings();
+    if (!settings.nextDigestAt || settings.nextDigestAt > now.toISOString()) {
+      return [];
+    }
+
+    const rows = this.sql.exec('SELECT notification FROM pending_notifications ORDER BY created_at ASC').toArray();
+    this.sql.exec('DELETE FROM pending_notifications');
+    this.sql.exec('UPDATE notification_settings SET next_digest_at = NULL WHERE id = 1');
+    return rows.map((row) => JSON.parse(row.notification as string) as Notification);
+  }
+
+  private async transformChannel(row: Record<string, unknown>): Promise<NotificationChannel> {
+    return {
+      id: row.id as string,
+      type: row.type as NotificationChannel['type'],
+      name: row.name as string,
+      enabled: row.enabled === 1,
+      events: JSON.parse(row.events as string),
+      config: JSON.parse(await decryptValue(row.encrypted_config as string, this.encryptionKey)),
+      appUrl: (row.app_url as string | null) ?? null,
+      lastSentAt: (row.last_sent_at as string | null) ?? null,
+      lastError: (row.last_error as string | null) ?? null,
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string,
+    };
+  }
+
+  private transformMute(row: Record<string, unknown>): NotificationMute {
+    return {
+      projectId: row.project_id as string,
+      events: JSON.parse(row.events as string),
+    };
+  }
+}
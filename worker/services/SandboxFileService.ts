@@ -0,0 +1,74 @@
+import type { PublishedFile } from '../workflows/sandboxFiles';
+
+export class SandboxFileService {
+  private sql: SqlStorage;
+
+  constructor(sql: SqlStorage) {
+    this.sql = sql;
+  }
+
+  // ============================================
+  // PUBLISHED FILES (internal use)
+  // ============================================
+
+  /**
+   * Record a published file. Content is given for files kept in the
+   * board's storage and omitted for files already put in R2.
+   */
+  saveFile(file: PublishedFile, content: Uint8Array | null): PublishedFile {
+    this.sql.exec(
+      `INSERT INTO sandbox_files
+        (id, project_id, plan_id, task_id, session_id, name, path, mime_type, size, storage, content, url, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      file.id,
+      file.projectId,
+      file.planId,
+      file.taskId,
+      file.sessionId,
+      file.name,
+      file.path,
+      file.mimeType,
+      file.size,
+      file.storage,
+      content,
+      file.url,
+      file.createdAt
+    );
+    return this.findFile(file.id)!;
+  }
+
+  findFile(fileId: string): PublishedFile | null {
+    const row = this.sql.exec(
+      `SELECT id, project_id, plan_id, task_id, session_id, name, path, mime_type, size, storage, url, created_at
+       FROM sandbox_files WHERE id = ?`,
+      fileId
+    ).toArray()[0];
+    return row ? this.transformFile(row as Record<string, unknown>) : null;
+  }
+
+  /**
+   * Content of a file kept in the board's storage (null for R2 files)
+   */
+  getContent(fileId: string): Uint8Array | null {
+    const row = this.sql.exec('SELECT content FROM sandbox_files WHERE id = ?', fileId).toArray()[0];
+    const content = row?.content as ArrayBuffer | null | undefined;
+    return content ? new Uint8Array(content) : null;
+  }
+
+  private transformFile(row: Record<string, unknown>): PublishedFile {
+    return {
+      id: row.id as string,
+      projectId: row.project_id as string,
+      planId: (row.plan_id as string | null) ?? null,
+      taskId: (row.task_id as string | null) ?? null,
+      sessionId: (row.session_id as string | null) ?? null,
+      name: row.name as string,
+      path: row.path as string,
+      mimeType: row.mime_type as string,
+      size: row.size as number,
+      storage: row.storage as PublishedFile['storage'],
+      url: row.url as string,
+      createdAt: row.created_at as string,
+    };
+  }
+}
@@ -0,0 +1,113 @@
+import { jsonResponse } from '../utils/response';
+import {
+  capTranscript,
+  tailChunks,
+  TRUNCATION_MARKER,
+  type SandboxOutputChunk,
+  type SandboxStepOutput,
+} from '../workflows/sandboxOutput';
+
+export class SandboxOutputService {
+  private sql: SqlStorage;
+
+  constructor(sql: SqlStorage) {
+    this.sql = sql;
+  }
+
+  // ============================================
+  // OUTPUT OPERATIONS
+  // ============================================
+
+  /**
+   * Get the sandbox output of a plan's steps, in the order they ran. Only
+   * the end of each transcript is included.
+   */
+  getOutput(planId: string): Response {
+    const plan = this.sql.exec('SELECT id FROM workflow_plans WHERE id = ?', planId).toArray()[0];
+    if (!plan) {
+      return jsonResponse({ error: 'Plan not found' }, 404);
+    }
+
+    const rows = this.sql.exec(
+      'SELECT * FROM sandbox_output WHERE plan_id = ? ORDER BY id ASC',
+      planId
+    ).toArray() as Record<string, unknown>[];
+
+    const steps = new Map<string, Record<string, unknown>[]>();
+    for (const row of rows) {
+      const stepId = row.step_id as string;
+      steps.set(stepId, [...(steps.get(stepId) || []), row]);
+    }
+
+    return jsonResponse({
+      success: true,
+      data: [...steps.values()].map((stepRows) => this.transformStepOutput(stepRows)),
+    });
+  }
+
+  // ============================================
+  // TRANSCRIPTS (internal use)
+  // ============================================
+
+  /**
+   * Add output to a step's transcript, returning the chunks kept once the
+   * transcript limit is applied
+   */
+  appendOutput(
+    planId: string,
+    stepId: string,
+    toolName: string,
+    chunks: SandboxOutputChunk[],
+    now: Date
+  ): SandboxOutputChunk[] {
+    const stored = this.sql.exec(
+      'SELECT COALESCE(SUM(LENGTH(text)), 0) AS size FROM sandbox_output WHERE plan_id = ? AND step_id = ?',
+      planId,
+      stepId
+    ).toArray()[0];
+
+    const kept = capTranscript(chunks, (stored?.size as number) ?? 0);
+    for (const chunk of kept) {
+      this.sql.exec(
+        'INSERT INTO sandbox_output (plan_id, step_id, tool_name, stream, text, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+        planId,
+        stepId,
+        toolName,
+        chunk.stream,
+        chunk.text,
+        now.toISOString()
+      );
+    }
+    return kept;
+  }
+
+  /**
+   * The full transcript of a step as plain text, or null if it has none
+   */
+  getTranscript(planId: string, stepId: string): string | null {
+    const rows = this.sql.exec(
+      'SELECT text FROM sandbox_output WHERE plan_id = ? AND step_id = ? ORDER BY id ASC',
+      planId,
+      stepId
+    ).toArray();
+    if (rows.length === 0) return null;
+    return rows.map((row) => row.text as string).join('');
+  }
+
+  private transformStepOutput(rows: Record<string, unknown>[]): SandboxStepOutput {
+    const chunks = rows.map((row) => ({
+      stream: row.stream as SandboxOutputChunk['stream'],
+      text: row.text as string,
+    }));
+    const last = rows[rows.length - 1];
+    return {
+      planId: last.plan_id as string,
+      stepId: last.step_id as string,
+      toolName: last.tool_name as string,
+      chunks: tailChunks(chunks),
+      size: chunks.reduce((sum, chunk) => sum + chunk.text.length, 0),
+      truncated: chunks.some((chunk) => chunk.stream === 'system' && chunk.text === TRUNCATION_MARKER),
+      updatedAt: last.created_at as string,
+    };
+  }
+}
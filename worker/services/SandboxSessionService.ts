@@ -0,0 +1,224 @@
+import { jsonResponse } from '../utils/response';
+import {
+  isSandboxIdle,
+  nextSandboxExpiry,
+  redactRepoUrl,
+  sandboxActivityAt,
+  type SandboxSession,
+} from '../workflows/sandboxSessions';
+import type { SandboxPreview } from '../workflows/sandboxPreviews';
+import type { SandboxLimits } from '../workflows/sandboxTemplates';
+
+export class SandboxSessionService {
+  private sql: SqlStorage;
+
+  constructor(sql: SqlStorage) {
+    this.sql = sql;
+  }
+
+  // ============================================
+  // SESSION OPERATIONS
+  // ============================================
+
+  /**
+   * Get the live sandbox sessions on a board, most recently used first
+   */
+  getSessions(projectId: string): Response {
+    const rows = this.sql.exec(
+      'SELECT * FROM sandbox_sessions WHERE project_id = ? ORDER BY last_activity_at DESC',
+      projectId
+    ).toArray();
+
+    return jsonResponse({
+      success: true,
+      data: rows.map((row) => this.transformSession(row as Record<string, unknown>)),
+    });
+  }
+
+  // ============================================
+  // REGISTRY (internal use)
+  // ============================================
+
+  findSession(sessionId: string): SandboxSession | null {
+    const row = this.sql.exec('SELECT * FROM sandbox_sessions WHERE id = ?', sessionId).toArray()[0];
+    return row ? this.transformSession(row as Record<string, unknown>) : null;
+  }
+
+  /**
+   * Record a new session (or replace one a replayed step created again)
+   */
+  saveSession(session: SandboxSession): SandboxSession {
+    this.sql.exec(
+      `INSERT OR REPLACE INTO sandbox_sessions
+        (id, sandbox_id, project_id, plan_id, task_id, repo_url, branch, work_dir, limits, created_at, last_activity_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      session.id,
+      session.sandboxId,
+      session.projectId,
+      session.planId,
+      session.taskId,
+      redactRepoUrl(session.repoUrl),
+      session.branch,
+      session.workDir,
+      session.limits ? JSON.stringify(session.limits) : null,
+      session.createdAt,
+      session.lastActivityAt
+    );
+    return this.findSession(session.id)!;
+  }
+
+  /**
+   * Live sessions of a run, most recently used first
+   */
+  getPlanSessions(planId: string): SandboxSession[] {
+    const rows = this.sql.exec(
+      'SELECT * FROM sandbox_sessions WHERE plan_id = ? ORDER BY last_activity_at DESC',
+      planId
+    ).toArray();
+    return rows.map((row) => this.transformSession(row as Record<string, unknown>));
+  }
+
+  /**
+   * Note that a session was just used, returning it (null if unknown)
+   */
+  touchSession(sessionId: string, now: Date): SandboxSession | null {
+    this.sql.exec('UPDATE sandbox_sessions SET last_activity_at = ? WHERE id = ?', now.toISOString(), sessionId);
+    return this.findSession(sessionId);
+  }
+
+  /**
+   * Forget a session, returning the previews that ended with it
+   */
+  deleteSession(sessionId: string): SandboxPreview[] {
+    const previews = this.getPreviews(sessionId);
+    this.sql.exec('DELETE FROM sandbox_previews WHERE session_id = ?', sessionId);
+    this.sql.exec('DELETE FROM sandbox_sessions WHERE id = ?', sessionId);
+    return previews;
+  }
+
+  /**
+   * Sessions unused for longer than the idle timeout whose run is no longer open
+   */
+  getIdleSessions(now: Date): SandboxSession[] {
+    return this.getSessionsWithPlanStatus()
+      .filter(({ session, planStatus }) =>
+        isSandboxIdle({ lastActivityAt: sandboxActivityAt(session, planStatus, now) }, now))
+      .map(({ session }) => session);
+  }
+
+  /**
+   * When the next session becomes idle, for the cleanup alarm. Sessions of
+   * open runs are checked again a timeout from now.
+   */
+  getNextExpiry(now = new Date()): string | null {
+    return nextSandboxExpiry(this.getSessionsWithPlanStatus().map(({ session, planStatus }) => ({
+      lastActivityAt: sandboxActivityAt(session, planStatus, now),
+    })));
+  }
+
+  private getSessionsWithPlanStatus(): Array<{ session: SandboxSession; planStatus: string | null }> {
+    const rows = this.sql.exec(
+      `SELECT s.*, p.status AS plan_status
+       FROM sandbox_sessions s LEFT JOIN workflow_plans p ON p.id = s.plan_id`
+    ).toArray();
+    return rows.map((row) => ({
+      session: this.transformSession(row as Record<string, unknown>),
+      planStatus: (row.plan_status as string | null) ?? null,
+    }));
+  }
+
+  // ============================================
+  // PREVIEWS (internal use)
+  // ============================================
+
+  /**
+   * Record a preview of a session. A preview already on the same port is
+   * replaced, since only one server can listen there.
+   */
+  savePreview(preview: Omit<SandboxPreview, 'sandboxId' | 'projectId' | 'planId' | 'taskId'>): SandboxPreview | null {
+    this.sql.exec('DELETE FROM sandbox_previews WHERE session_id = ? AND port = ?', preview.sessionId, preview.port);
+    this.sql.exec(
+      `INSERT INTO sandbox_previews (id, session_id, port, name, command, keep_base_path, url, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      preview.id,
+      preview.sessionId,
+      preview.port,
+      preview.name,
+      preview.command,
+      preview.keepBasePath ? 1 : 0,
+      preview.url,
+      preview.createdAt
+    );
+    return this.findPreview(preview.id);
+  }
+
+  /**
+   * A preview with its session's details, or null once the session is gone
+   */
+  findPreview(previewId: string): SandboxPreview | null {
+    const row = this.sql.exec(
+      `SELECT p.*, s.sandbox_id, s.project_id, s.plan_id, s.task_id
+       FROM sandbox_previews p JOIN sandbox_sessions s ON s.id = p.session_id
+       WHERE p.id = ?`,
+      previewId
+    ).toArray()[0];
+    return row ? this.transformPreview(row as Record<string, unknown>) : null;
+  }
+
+  getPreviews(sessionId: string): SandboxPreview[] {
+    const rows = this.sql.exec(
+      `SELECT p.*, s.sandbox_id, s.project_id, s.plan_id, s.task_id
+       FROM sandbox_previews p JOIN sandbox_sessions s ON s.id = p.session_id
+       WHERE p.session_id = ? ORDER BY p.created_at ASC`,
+      sessionId
+    ).toArray();
+    return rows.map((row) => this.transformPreview(row as Record<string, unknown>));
+  }
+
+  deletePreview(previewId: string): void {
+    this.sql.exec('DELETE FROM sandbox_previews WHERE id = ?', previewId);
+  }
+
+  private transformPreview(row: Record<string, unknown>): SandboxPreview {
+    return {
+      id: row.id as string,
+      sessionId: row.session_id as string,
+      sandboxId: row.sandbox_id as string,
+      projectId: row.project_id as string,
+      planId: (row.plan_id as string | null) ?? null,
+      taskId: (row.task_id as string | null) ?? null,
+      port: row.port as number,
+      name: row.name as string,
+      command: row.command as string,
+      keepBasePath: Boolean(row.keep_base_path),
+      url: row.url as string,
+      createdAt: row.created_at as string,
+    };
+  }
+
+  private transformSession(row: Record<string, unknown>): SandboxSession {
+    return {
+      id: row.id as string,
+      sandboxId: row.sandbox_id as string,
+      projectId: row.project_id as string,
+      planId: (row.plan_id as string | null) ?? null,
+      taskId: (row.task_id as string | null) ?? null,
+      repoUrl: (row.repo_url as string | null) ?? null,
+      branch: (row.branch as string | null) ?? null,
+      workDir: row.work_dir as string,
+      limits: this.parseLimits(row.limits as string | null),
+      createdAt: row.created_at as string,
+      lastActivityAt: row.last_activity_at as string,
+    };
+  }
+
+  private parseLimits(value: string | null): SandboxLimits | null {
+    if (!value) return null;
+    try {
+      return JSON.parse(value) as SandboxLimits;
+    } catch {
+      // Treat unreadable limits as none
+      return null;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { jsonResponse } from '../utils/response';
+import {
+  normalizeSandboxTemplate,
+  validateSandboxTemplate,
+  type SandboxTemplate,
+} from '../workflows/sandboxTemplates';
+
+export class SandboxTemplateService {
+  private sql: SqlStorage;
+
+  constructor(sql: SqlStorage) {
+    this.sql = sql;
+  }
+
+  // ============================================
+  // TEMPLATE OPERATIONS
+  // ============================================
+
+  /**
+   * Get the sandbox template for a project (null when it has none)
+   */
+  getTemplate(projectId: string): Response {
+    return jsonResponse({ success: true, data: this.findTemplate(projectId) });
+  }
+
+  /**
+   * Replace the sandbox template for a project. Null clears it.
+   */
+  setTemplate(projectId: string, template: SandboxTemplate | null): Response {
+    if (!template) {
+      this.sql.exec('DELETE FROM sandbox_templates WHERE project_id = ?', projectId);
+      return jsonResponse({ success: true, data: null });
+    }
+
+    const normalized = normalizeSandboxTemplate(template);
+    const error = validateSandboxTemplate(normalized);
+    if (error) {
+      return jsonResponse({ success: false, error: { code: 'VALIDATION_ERROR', message: error } }, 400);
+    }
+
+    this.sql.exec(
+      `INSERT INTO sandbox_templates (project_id, template, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(project_id) DO UPDATE SET template = excluded.template, updated_at = excluded.updated_at`,
+      projectId,
+      JSON.stringify(normalized),
+      new Date().toISOString()
+    );
+
+    return this.getTemplate(projectId);
+  }
+
+  // ============================================
+  // INTERNAL
+  // ============================================
+
+  findTemplate(projectId: string): SandboxTemplate | null {
+    const row = this.sql.exec(
+      'SELECT template FROM sandbox_templates WHERE project_id = ?',
+      projectId
+    ).toArray()[0] as { template: string } | undefined;
+    if (!row) return null;
+
+    try {
+      return normalizeSandboxTemplate(JSON.parse(row.template) as SandboxTemplate);
+    } catch {
+      // Treat an unreadable template as unset
+      return null;
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import { jsonResponse } from '../utils/response';
+import {
+  MAX_SCHEDULE_RUNS,
+  nextRunTime,
+  scheduleCron,
+  validateSchedule,
+  type ScheduleRun,
+  type ScheduleRunStatus,
+  type TaskSchedule,
+  type TaskScheduleInput,
+} from '../workflows/schedules';
+
+type BroadcastFn = (projectId: string, type: string, data: Record<string, unknown>) => void;
+
+export class ScheduleService {
+  private sql: SqlStorage;
+  private generateId: () => string;
+  private broadcast: BroadcastFn;
+
+  constructor(
+    sql: SqlStorage,
+    generateId: () => string,
+    broadcast: BroadcastFn
+  ) {
+    this.sql = sql;
+    this.generateId = generateId;
+    this.broadcast = broadcast;
+  }
+
+  // ============================================
+  // SCHEDULE OPERATIONS
+  // ============================================
+
+  /**
+   * Get the schedule of a task, or null if it has none
+   */
+  getTaskSchedule(taskId: string): Response {
+    return jsonResponse({ success: true, data: this.findSchedule(taskId) });
+  }
+
+  /**
+   * Get every schedule on a board
+   */
+  getProjectSchedules(projectId: string): Response {
+    const rows = this.sql.exec(
+      'SELECT * FROM task_schedules WHERE project_id = ? ORDER BY next_run_at ASC',
+      projectId
+    ).toArray();
+
+    return jsonResponse({
+      success: true,
+      data: rows.map((row) => this.transformSchedule(row as Record<string, unknown>)),
+    });
+  }
+
+  /**
+   * Create or replace a task's schedule and work out its next run
+   */
+  setTaskSchedule(projectId: string, taskId: string, userId: string, input: TaskScheduleInput): Response {
+    const task = this.sql.exec('SELECT id FROM tasks WHERE id = ?', taskId).toArray()[0];
+    if (!task) {
+      return jsonResponse({ error: 'Task not found' }, 404);
+    }
+
+    const error = validateSchedule(input);
+    if (error) {
+      return jsonResponse({ success: false, error: { code: 'VALIDATION_ERROR', message: error } }, 400);
+    }
+
+    const cron = scheduleCron(input);
+    const enabled = input.enabled !== false;
+    const nextRunAt = enabled ? nextRunTime(cron, input.timezone, new Date())?.toISOString() ?? null : null;
+    const now = new Date().toISOString();
+
+    this.sql.exec(
+      `INSERT INTO task_schedules
+        (task_id, project_id, user_id, cron, repeat, timezone, agent_id, enabled, next_run_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(task_id) DO UPDATE SET
+         user_id = excluded.user_id,
+         cron = excluded.cron,
+         repeat = excluded.repeat,
+         timezone = excluded.timezone,
+         agent_id = excluded.agent_id,
+         enabled = excluded.enabled,
+         next_run_at = excluded.next_run_at,
+         updated_at = excluded.updated_at`,
+      taskId,
+      projectId,
+      userId,
+      cron,
+      !input.cron && input.repeat ? JSON.stringify(input.repeat) : null,
+      input.timezone,
+      input.agentId || null,
+      enabled ? 1 : 0,
+      nextRunAt,
+      now,
+      now
+    );
+
+    const schedule = this.findSchedule(taskId)!;
+    this.broadcast(projectId, 'task_schedule_update', schedule as unknown as Record<string, unknown>);
+    return jsonResponse({ success: true, data: schedule });
+  }
+
+  /**
+   * Remove a task's schedule. Its run history is kept.
+   */
+  deleteTaskSchedule(taskId: string): Response {
+    const schedule = this.findSchedule(taskId);
+    if (!schedule) {
+      return jsonResponse({ error: 'Schedule not found' }, 404);
+    }
+
+    this.sql.exec('DELETE FROM task_schedules WHERE task_id = ?', taskId);
+    this.broadcast(schedule.projectId, 'task_schedule_removed', { taskId });
+    return jsonResponse({ success: true });
+  }
+
+  /**
+   * Get a task's past scheduled runs, newest first
+   */
+  getScheduleRuns(taskId: string): Response {
+    const rows = this.sql.exec(
+      'SELECT * FROM task_schedule_runs WHERE task_id = ? ORDER BY scheduled_for DESC LIMIT ?',
+      taskId,
+      MAX_SCHEDULE_RUNS
+    ).toArray();
+
+    return jsonResponse({
+      success: true,
+      data: rows.map((row) => this.transformRun(row as Record<string, unknown>)),
+    });
+  }
+
+  // ============================================
+  // ALARM SUPPORT (internal use)
+  // ============================================
+
+  /**
+   * Enabled schedules whose next run is due
+   */
+  getDueSchedules(now: Date): TaskSchedule[] {
+    const rows = this.sql.exec(
+      'SELECT * FROM task_schedules WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ? ORDER BY next_run_at ASC',
+      now.toISOString()
+    ).toArray();
+
+    return rows.map((row) => this.transformSchedule(row as Record<string, unknown>));
+  }
+
+  /**
+   * Earliest upcoming run across all schedules, for the DO alarm
+   */
+  getEarliestRunAt(): string | null {
+    const row = this.sql.exec(
+      'SELECT MIN(next_run_at) as next_run_at FROM task_schedules WHERE enabled = 1 AND next_run_at IS NOT NULL'
+    ).toArray()[0] as { next_run_at: string | null } | undefined;
+
+    return row?.next_run_at ?? null;
+  }
+
+  /**
+   * Record the outcome of a due run and move the schedule to its next run.
+   * Runs missed while nothing was processing are not made up.
+   */
+  completeScheduledRun(
+    schedule: TaskSchedule,
+    outcome: { status: ScheduleRunStatus; planId?: string | null; message?: string | null },
+    now: Date
+  ): ScheduleRun {
+    const run: ScheduleRun = {
+      id: this.generateId(),
+      taskId: schedule.taskId,
+      scheduledFor: schedule.nextRunAt || now.toISOString(),
+      ranAt: now.toISOString(),
+      status: outcome.status,
+      planId: outcome.planId ?? null,
+      message: outcome.message ?? null,
+    };
+
+    this.sql.exec(
+      `INSERT INTO task_schedule_runs (id, task_id, scheduled_for, ran_at, status, plan_id, message)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      run.id,
+      run.taskId,
+      run.scheduledFor,
+      run.ranAt,
+      run.status,
+      run.planId,
+      run.message
+    );
+
+    // Keep the history bounded
+    this.sql.exec(
+      `DELETE FROM task_schedule_runs WHERE task_id = ? AND id NOT IN (
+         SELECT id FROM task_schedule_runs WHERE task_id = ? ORDER BY scheduled_for DESC LIMIT ?
+       )`,
+      schedule.taskId,
+      schedule.taskId,
+      MAX_SCHEDULE_RUNS
+    );
+
+    const nextRunAt = nextRunTime(schedule.cron, schedule.timezone, now)?.toISOString() ?? null;
+    this.sql.exec(
+      'UPDATE task_schedules SET next_run_at = ?, last_run_at = ?, updated_at = ? WHERE task_id = ?',
+      nextRunAt,
+      run.ranAt,
+      run.ranAt,
+      schedule.taskId
+    );
+
+    const updated = this.findSchedule(schedule.taskId);
+    if (updated) {
+      this.broadcast(updated.projectId, 'task_schedule_update', updated as unknown as Record<string, unknown>);
+    }
+
+    return run;
+  }
+
+  private findSchedule(taskId: string): TaskSchedule | null {
+    const row = this.sql.exec('SELECT * FROM task_schedules WHERE task_id = ?', taskId).toArray()[0];
+    return row ? this.transformSchedule(row as Record<string, unknown>) : null;
+  }
+
+  private transformSchedule(row: Record<string, unknown>): TaskSchedule {
+    return {
+      taskId: row.task_id as string,
+      projectId: row.project_id as string,
+      userId: row.user_id as string,
+      cron: row.cron as string,
+      repeat: row.repeat ? JSON.parse(row.repeat as string) : null,
+      timezone: row.timezone as string,
+      agentId: (row.agent_id as string | null) ?? null,
+      enabled: row.enabled === 1,
+      nextRunAt: (row.next_run_at as string | null) ?? null,
+      lastRunAt: (row.last_run_at as string | null) ?? null,
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string,
+    };
+  }
+
+  private transformRun(row: Record<string, unknown>): ScheduleRun {
+    return {
+      id: row.id as string,
+      taskId: row.task_id as string,
+      scheduledFor: row.scheduled_for as string,
+      ranAt: row.ran_at as string,
+      status: row.status as ScheduleRunStatus,
+      planId: (row.plan_id as string | null) ?? null,
+      message: (row.message as string | null) ?? null,
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import { jsonResponse } from '../utils/response';
+import { toCamelCase } from '../utils/transformations';
+import { TOOL_POLICY_MODES, type ToolPolicyConstraints, type ToolPolicyMode } from '../workflows/toolPolicies';
+
+export class ToolPolicyService {
+  private sql: SqlStorage;
+  private generateId: () => string;
+
+  constructor(sql: SqlStorage, generateId: () => string) {
+    this.sql = sql;
+    this.generateId = generateId;
+  }
+
+  // ============================================
+  // TOOL POLICY OPERATIONS
+  // ============================================
+
+  /**
+   * Get all tool policies for a project (or '__global__' for user-level policies)
+   */
+  getToolPolicies(projectId: string): Response {
+    const policies = this.sql.exec(
+      'SELECT * FROM tool_policies WHERE project_id = ? ORDER BY server_name, tool_name',
+      projectId
+    ).toArray();
+
+    return jsonResponse({
+      success: true,
+      data: policies.map(p => this.transformPolicy(p as Record<string, unknown>)),
+    });
+  }
+
+  /**
+   * Create or replace the policy for a server + tool
+   */
+  upsertToolPolicy(projectId: string, data: {
+    serverName: string;
+    toolName: string;
+    mode: ToolPolicyMode;
+    constraints?: ToolPolicyConstraints | null;
+  }): Response {
+    if (!data.serverName?.trim() || !data.toolName?.trim()) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'serverName and toolName are required' },
+      }, 400);
+    }
+
+    if (!TOOL_POLICY_MODES.includes(data.mode)) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `mode must be one of: ${TOOL_POLICY_MODES.join(', ')}` },
+      }, 400);
+    }
+
+    const id = this.generateId();
+    const now = new Date().toISOString();
+    const serverName = data.serverName.trim().replace(/\s+/g, '_');
+    const toolName = data.toolName.trim();
+
+    this.sql.exec(
+      `INSERT INTO tool_policies (id, project_id, server_name, tool_name, mode, constraints, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(project_id, server_name, tool_name) DO UPDATE SET
+         mode = excluded.mode,
+         constraints = excluded.constraints,
+         updated_at = excluded.updated_at`,
+      id,
+      projectId,
+      serverName,
+      toolName,
+      data.mode,
+      data.constraints ? JSON.stringify(data.constraints) : null,
+      now,
+      now
+    );
+
+    const policy = this.sql.exec(
+      'SELECT * FROM tool_policies WHERE project_id = ? AND server_name = ? AND tool_name = ?',
+      projectId,
+      serverName,
+      toolName
+    ).toArray()[0];
+
+    return jsonResponse({ success: true, data: this.transformPolicy(policy as Record<string, unknown>) });
+  }
+
+  /**
+   * Delete a tool policy
+   */
+  deleteToolPolicy(projectId: string, policyId: string): Response {
+    const existing = this.sql.exec(
+      'SELECT id FROM tool_policies WHERE id = ? AND project_id = ?',
+      policyId,
+      projectId
+    ).toArray()[0];
+
+    if (!existing) {
+      return jsonResponse({ success: false, error: { code: 'NOT_FOUND', message: 'Tool policy not found' } }, 404);
+    }
+
+    this.sql.exec('DELETE FROM tool_policies WHERE id = ?', policyId);
+    return jsonResponse({ success: true });
+  }
+
+  private transformPolicy(row: Record<string, unknown>): Record<string, unknown> {
+    const policy = toCamelCase(row);
+    if (typeof policy.constraints === 'string') {
+      try {
+        policy.constraints = JSON.parse(policy.constraints);
+      } catch {
+        policy.constraints = null;
+      }
+    }
+    return policy;
+  }
+}
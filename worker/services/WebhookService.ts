@@ -0,0 +1,308 @@
+import { jsonResponse } from '../utils/response';
+import { encryptValue, decryptValue } from '../utils/crypto';
+import {
+  MAX_LOGGED_PAYLOAD,
+  MAX_WEBHOOK_DELIVERIES,
+  validateWebhookConfig,
+  type WebhookConfig,
+  type WebhookConfigInput,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+} from '../workflows/webhooks';
+
+export interface WebhookUpdate extends Partial<WebhookConfigInput> {
+  /** Replace the secret; senders must be updated afterwards */
+  regenerateSecret?: boolean;
+}
+
+export class WebhookService {
+  private sql: SqlStorage;
+  private encryptionKey: string;
+  private generateId: () => string;
+
+  constructor(
+    sql: SqlStorage,
+    encryptionKey: string,
+    generateId: () => string
+  ) {
+    this.sql = sql;
+    this.encryptionKey = encryptionKey;
+    this.generateId = generateId;
+  }
+
+  // ============================================
+  // WEBHOOK OPERATIONS
+  // ============================================
+
+  /**
+   * Get a project's webhooks, secrets included so senders can be set up
+   */
+  async getWebhooks(projectId: string): Promise<Response> {
+    const rows = this.sql.exec(
+      'SELECT * FROM webhooks WHERE project_id = ? ORDER BY created_at ASC',
+      projectId
+    ).toArray();
+
+    const webhooks = await Promise.all(rows.map((row) => this.transformWebhook(row as Record<string, unknown>)));
+    return jsonResponse({ success: true, data: webhooks });
+  }
+
+  /**
+   * Get one webhook
+   */
+  async getWebhook(webhookId: string): Promise<Response> {
+    const webhook = await this.findWebhook(webhookId);
+    if (!webhook) {
+      return jsonResponse({ error: 'Webhook not found' }, 404);
+    }
+    return jsonResponse({ success: true, data: webhook });
+  }
+
+  /**
+   * Create a webhook with a fresh secret
+   */
+  async createWebhook(projectId: string, userId: string, input: WebhookConfigInput): Promise<Response> {
+    const error = validateWebhookConfig(input);
+    if (error) {
+      return jsonResponse({ success: false, error: { code: 'VALIDATION_ERROR', message: error } }, 400);
+    }
+
+    const id = this.generateId();
+    const now = new Date().toISOString();
+
+    this.sql.exec(
+      `INSERT INTO webhooks
+        (id, project_id, user_id, name, source, encrypted_secret, enabled, conditions, template, column_id, auto_start, gmail_query, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      id,
+      projectId,
+      userId,
+      input.name.trim(),
+      input.source,
+      await encryptValue(generateSecret(), this.encryptionKey),
+      input.enabled === false ? 0 : 1,
+      JSON.stringify(input.conditions || []),
+      JSON.stringify(input.template),
+      input.columnId || null,
+      input.autoStart ? 1 : 0,
+      input.gmailQuery?.trim() || null,
+      now,
+      now
+    );
+
+    return jsonResponse({ success: true, data: await this.findWebhook(id) });
+  }
+
+  /**
+   * Update a webhook's settings, optionally replacing its secret
+   */
+  async updateWebhook(webhookId: string, update: WebhookUpdate): Promise<Response> {
+    const existing = await this.findWebhook(webhookId);
+    if (!existing) {
+      return jsonResponse({ error: 'Webhook not found' }, 404);
+    }
+
+    const merged: WebhookConfigInput = {
+      name: update.name ?? existing.name,
+      source: update.source ?? existing.source,
+      enabled: update.enabled ?? existing.enabled,
+      conditions: update.conditions ?? existing.conditions,
+      template: update.template ?? existing.template,
+      columnId: update.columnId !== undefined ? update.columnId : existing.columnId,
+      autoStart: update.autoStart ?? existing.autoStart,
+      gmailQuery: update.gmailQuery !== undefined ? update.gmailQuery : existing.gmailQuery,
+    };
+
+    const error = validateWebhookConfig(merged);
+    if (error) {
+      return jsonResponse({ success: false, error: { code: 'VALIDATION_ERROR', message: error } }, 400);
+    }
+
+    const secret = update.regenerateSecret ? generateSecret() : existing.secret;
+
+    this.sql.exec(
+      `UPDATE webhooks SET
+         name = ?, source = ?, encrypted_secret = ?, enabled = ?, conditions = ?, template = ?,
+         column_id = ?, auto_start = ?, gmail_query = ?, updated_at = ?
+       WHERE id = ?`,
+      merged.name.trim(),
+      merged.source,
+      await encryptValue(secret, this.encryptionKey),
+      merged.enabled ? 1 : 0,
+      JSON.stringify(merged.conditions),
+      JSON.stringify(merged.template),
+      merged.columnId || null,
+      merged.autoStart ? 1 : 0,
+      merged.gmailQuery?.trim() || null,
+      new Date().toISOString(),
+      webhookId
+    );
+
+    return jsonResponse({ success: true, data: await this.findWebhook(webhookId) });
+  }
+
+  /**
+   * Delete a webhook and its delivery log
+   */
+  deleteWebhook(webhookId: string): Response {
+    const row = this.sql.exec('SELECT id FROM webhooks WHERE id = ?', webhookId).toArray()[0];
+    if (!row) {
+      return jsonResponse({ error: 'Webhook not found' }, 404);
+    }
+
+    this.sql.exec('DELETE FROM webhooks WHERE id = ?', webhookId);
+    return jsonResponse({ success: true });
+  }
+
+  /**
+   * Get a webhook's recent deliveries, newest first
+   */
+  getWebhookDeliveries(webhookId: string): Response {
+    const rows = this.sql.exec(
+      'SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY received_at DESC LIMIT ?',
+      webhookId,
+      MAX_WEBHOOK_DELIVERIES
+    ).toArray();
+
+    return jsonResponse({
+      success: true,
+      data: rows.map((row) => this.transformDelivery(row as Record<string, unknown>)),
+    });
+  }
+
+  // ============================================
+  // DELIVERY SUPPORT (internal use)
+  // ============================================
+
+  /**
+   * Whether an event with this source-side id was already handled
+   */
+  hasDelivery(webhookId: string, dedupeKey: string): boolean {
+    const row = this.sql.exec(
+      "SELECT id FROM webhook_deliveries WHERE webhook_id = ? AND dedupe_key = ? AND status != 'rejected' LIMIT 1",
+      webhookId,
+      dedupeKey
+    ).toArray()[0];
+    return !!row;
+  }
+
+  /**
+   * Column a webhook's tasks go in: its own column if that still exists,
+   * otherwise the project's first column
+   */
+  getTargetColumn(webhook: WebhookConfig): string | null {
+    if (webhook.columnId) {
+      const row = this.sql.exec('SELECT id FROM columns WHERE id = ? AND project_id = ?', webhook.columnId, webhook.projectId).toArray()[0];
+      if (row) return row.id as string;
+    }
+    const first = this.sql.exec(
+      'SELECT id FROM columns WHERE project_id = ? ORDER BY position ASC LIMIT 1',
+      webhook.projectId
+    ).toArray()[0];
+    return (first?.id as string | undefined) ?? null;
+  }
+
+  /**
+   * Log a delivery and keep the log bounded
+   */
+  recordDelivery(
+    webhookId: string,
+    outcome: {
+      event: string;
+      status: WebhookDeliveryStatus;
+      dedupeKey?: string | null;
+      taskId?: string | null;
+      planId?: string | null;
+      message?: string | null;
+      payload?: string | null;
+    }
+  ): WebhookDelivery {
+    const delivery: WebhookDelivery = {
+      id: this.generateId(),
+      webhookId,
+      receivedAt: new Date().toISOString(),
+      event: outcome.event,
+      status: outcome.status,
+      dedupeKey: outcome.dedupeKey ?? null,
+      taskId: outcome.taskId ?? null,
+      planId: outcome.planId ?? null,
+      message: outcome.message ?? null,
+      payload: outcome.payload ? outcome.payload.slice(0, MAX_LOGGED_PAYLOAD) : null,
+    };
+
+    this.sql.exec(
+      `INSERT INTO webhook_deliveries (id, webhook_id, received_at, event, status, dedupe_key, task_id, plan_id, message, payload)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      delivery.id,
+      delivery.webhookId,
+      delivery.receivedAt,
+      delivery.event,
+      delivery.status,
+      delivery.dedupeKey,
+      delivery.taskId,
+      delivery.planId,
+      delivery.message,
+      delivery.payload
+    );
+
+    // Keep the log bounded
+    this.sql.exec(
+      `DELETE FROM webhook_deliveries WHERE webhook_id = ? AND id NOT IN (
+         SELECT id FROM webhook_deliveries WHERE webhook_id = ? ORDER BY received_at DESC LIMIT ?
+       )`,
+      webhookId,
+      webhookId,
+      MAX_WEBHOOK_DELIVERIES
+    );
+
+    this.sql.exec('UPDATE webhooks SET last_delivery_at = ? WHERE id = ?', delivery.receivedAt, webhookId);
+
+    return delivery;
+  }
+
+  private async findWebhook(webhookId: string): Promise<WebhookConfig | null> {
+    const row = this.sql.exec('SELECT * FROM webhooks WHERE id = ?', webhookId).toArray()[0];
+    return row ? this.transformWebhook(row as Record<string, unknown>) : null;
+  }
+
+  private async transformWebhook(row: Record<string, unknown>): Promise<WebhookConfig> {
+    return {
+      id: row.id as string,
+      projectId: row.project_id as string,
+      userId: row.user_id as string,
+      name: row.name as string,
+      source: row.source as WebhookConfig['source'],
+      secret: await decryptValue(row.encrypted_secret as string, this.encryptionKey),
+      enabled: row.enabled === 1,
+      conditions: JSON.parse(row.conditions as string),
+      template: JSON.parse(row.template as string),
+      columnId: (row.column_id as string | null) ?? null,
+      autoStart: row.auto_start === 1,
+      gmailQuery: (row.gmail_query as string | null) ?? null,
+      lastDeliveryAt: (row.last_delivery_at as string | null) ?? null,
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string,
+    };
+  }
+
+  private transformDelivery(row: Record<string, unknown>): WebhookDelivery {
+    return {
+      id: row.id as string,
+      webhookId: row.webhook_id as string,
+      receivedAt: row.received_at as string,
+      event: row.event as string,
+      status: row.status as WebhookDeliveryStatus,
+      dedupeKey: (row.dedupe_key as string | null) ?? null,
+      taskId: (row.task_id as string | null) ?? null,
+      planId: (row.plan_id as string | null) ?? null,
+      message: (row.message as string | null) ?? null,
+      payload: (row.payload as string | null) ?? null,
+    };
+  }
+}
+
+/** 32 random bytes as hex */
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
@@ -1,5 +1,13 @@
 import { jsonResponse } from '../utils/response';
 import { transformWorkflowPlan, transformWorkflowLog } from '../utils/transformations';
+import { sumUsage, upsertTurnUsage, type AgentUsage, type TurnUsage, type UsageSummary } from '../workflows/usage';
+import type { BranchMode, ConversationTurn } from '../workflows/branching';
+import {
+  MESSAGEABLE_PLAN_STATUSES,
+  validateUserMessage,
+  type WorkflowUserMessage,
+} from '../workflows/userMessages';
+import { dependencyIds, parseTaskContext, type TaskDependency } from '../workflows/dependencies';
 
 type BroadcastFn = (projectId: string, type: string, data: Record<string, unknown>) => void;
 
@@ -95,19 +103,30 @@ export class WorkflowService {
     summary?: string;
     generatedCode?: string;
     steps?: object[];
+    agentId?: string;
+    instructions?: string;
+    parentPlanId?: string;
+    parentTurn?: number;
+    branchMode?: BranchMode;
   }): Response {
     const id = data.id || this.generateId();
     const now = new Date().toISOString();
 
     this.sql.exec(
-      `INSERT INTO workflow_plans (id, task_id, project_id, status, summary, generated_code, steps, created_at, updated_at)
-       VALUES (?, ?, ?, 'planning', ?, ?, ?, ?, ?)`,
+      `INSERT INTO workflow_plans (id, task_id, project_id, status, summary, generated_code, steps, agent_id,
+        instructions, parent_plan_id, parent_turn, branch_mode, created_at, updated_at)
+       VALUES (?, ?, ?, 'planning', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       id,
       taskId,
       data.projectId,
       data.summary || null,
       data.generatedCode || null,
       data.steps ? JSON.stringify(data.steps) : null,
+      data.agentId || null,
+      data.instructions ?? null,
+      data.parentPlanId || null,
+      data.parentTurn ?? null,
+      data.branchMode || null,
       now,
       now
     );
@@ -221,6 +240,321 @@ export class WorkflowService {
     return this.getWorkflowPlan(planId);
   }
 
+  // ============================================
+  // USAGE OPERATIONS
+  // ============================================
+
+  /**
+   * Record the token usage of one agent turn and update the plan totals
+   */
+  recordTurnUsage(planId: string, usage: TurnUsage): Response {
+    const plan = this.sql.exec('SELECT usage FROM workflow_plans WHERE id = ?', planId).toArray()[0] as
+      | { usage: string | null }
+      | undefined;
+
+    if (!plan) {
+      return jsonResponse({ error: 'Workflow plan not found' }, 404);
+    }
+
+    let turns: TurnUsage[] = [];
+    if (plan.usage) {
+      try {
+        turns = JSON.parse(plan.usage);
+      } catch {
+        // Corrupt usage is replaced below
+      }
+    }
+    turns = upsertTurnUsage(turns, usage);
+    const totals = sumUsage(turns);
+
+    this.sql.exec(
+      `UPDATE workflow_plans SET
+        usage = ?,
+        input_tokens = ?,
+        output_tokens = ?,
+        cache_creation_tokens = ?,
+        cache_read_tokens = ?,
+        cost_usd = ?,
+        updated_at = ?
+       WHERE id = ?`,
+      JSON.stringify(turns),
+      totals.inputTokens,
+      totals.outputTokens,
+      totals.cacheCreationTokens,
+      totals.cacheReadTokens,
+      totals.costUsd,
+      new Date().toISOString(),
+      planId
+    );
+
+    const updatedPlan = this.sql.exec('SELECT * FROM workflow_plans WHERE id = ?', planId).toArray()[0];
+    if (updatedPlan) {
+      const projectId = (updatedPlan as Record<string, unknown>).project_id as string;
+      this.broadcast(projectId, 'workflow_plan_update', transformWorkflowPlan(updatedPlan as Record<string, unknown>));
+    }
+
+    return this.getWorkflowPlan(planId);
+  }
+
+  /**
+   * Get usage totals for a project, broken down by agent
+   * @param since - Only count runs created at or after this ISO timestamp
+   */
+  getUsageSummary(projectId: string, since?: string): Response {
+    const rows = this.sql.exec(`
+      SELECT
+        wp.agent_id,
+        a.name AS agent_name,
+        COUNT(*) AS runs,
+        COALESCE(SUM(wp.input_tokens), 0) AS input_tokens,
+        COALESCE(SUM(wp.output_tokens), 0) AS output_tokens,
+        COALESCE(SUM(wp.cache_creation_tokens), 0) AS cache_creation_tokens,
+        COALESCE(SUM(wp.cache_read_tokens), 0) AS cache_read_tokens,
+        COALESCE(SUM(wp.cost_usd), 0) AS cost_usd
+      FROM workflow_plans wp
+      LEFT JOIN agents a ON a.id = wp.agent_id
+      WHERE wp.project_id = ? AND wp.created_at >= ?
+      GROUP BY wp.agent_id
+      ORDER BY cost_usd DESC
+    `, projectId, since || '').toArray() as Array<Record<string, unknown>>;
+
+    const byAgent: AgentUsage[] = rows.map((row) => ({
+      agentId: (row.agent_id as string | null) ?? null,
+      agentName: (row.agent_name as string | null) ?? (row.agent_id ? 'Deleted agent' : 'Default agent'),
+      runs: Number(row.runs),
+      inputTokens: Number(row.input_tokens),
+      outputTokens: Number(row.output_tokens),
+      cacheCreationTokens: Number(row.cache_creation_tokens),
+      cacheReadTokens: Number(row.cache_read_tokens),
+      costUsd: Number(row.cost_usd),
+    }));
+
+    const summary: UsageSummary = {
+      totals: {
+        runs: byAgent.reduce((sum, a) => sum + a.runs, 0),
+        ...sumUsage(byAgent),
+      },
+      byAgent,
+    };
+
+    return jsonResponse({ success: true, data: summary });
+  }
+
+  // ============================================
+  // CONVERSATION OPERATIONS
+  // ============================================
+
+  /**
+   * Save the messages an agent turn added to the conversation.
+   * Replaces any earlier record of the turn, so retried steps don't duplicate it.
+   */
+  recordTurnMessages(planId: string, turn: number, messages: object[]): Response {
+    const plan = this.sql.exec('SELECT id FROM workflow_plans WHERE id = ?', planId).toArray()[0];
+    if (!plan) {
+      return jsonResponse({ error: 'Workflow plan not found' }, 404);
+    }
+
+    this.sql.exec(
+      `INSERT OR REPLACE INTO workflow_turns (plan_id, turn, messages, created_at)
+       VALUES (?, ?, ?, ?)`,
+      planId,
+      turn,
+      JSON.stringify(messages),
+      new Date().toISOString()
+    );
+
+    return jsonResponse({ success: true });
+  }
+
+  /**
+   * Get the recorded turns of a plan's conversation, in order
+   */
+  getConversationTurns(planId: string): Response {
+    const rows = this.sql.exec(
+      'SELECT turn, messages FROM workflow_turns WHERE plan_id = ? ORDER BY turn ASC',
+      planId
+    ).toArray() as Array<{ turn: number; messages: string }>;
+
+    const turns: ConversationTurn[] = rows.map((row) => ({
+      turn: Number(row.turn),
+      messages: JSON.parse(row.messages),
+    }));
+
+    return jsonResponse({ success: true, data: turns });
+  }
+
+  /**
+   * Copy the turns before `beforeTurn` from one plan to another, so a
+   * branched run carries the conversation it was seeded with
+   */
+  copyConversationTurns(fromPlanId: string, toPlanId: string, beforeTurn: number): Response {
+    this.sql.exec(
+      `INSERT OR REPLACE INTO workflow_turns (plan_id, turn, messages, created_at)
+       SELECT ?, turn, messages, created_at FROM workflow_turns
+       WHERE plan_id = ? AND turn < ?`,
+      toPlanId,
+      fromPlanId,
+      beforeTurn
+    );
+
+    return jsonResponse({ success: true });
+  }
+
+  // ============================================
+  // USER MESSAGE OPERATIONS
+  // ============================================
+
+  /**
+   * Queue a message for a running agent. It's delivered at the end of the
+   * agent's current turn.
+   */
+  queueUserMessage(planId: string, data: { content: unknown; interrupt?: boolean }): Response {
+    const plan = this.sql.exec('SELECT status FROM workflow_plans WHERE id = ?', planId).toArray()[0] as
+      { status: string } | undefined;
+    if (!plan) {
+      return jsonResponse({ error: 'Workflow plan not found' }, 404);
+    }
+    if (!MESSAGEABLE_PLAN_STATUSES.includes(plan.status)) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'INVALID_STATE', message: 'The agent is no longer running' },
+      }, 400);
+    }
+
+    const validationError = validateUserMessage(data.content);
+    if (validationError) {
+      return jsonResponse({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: validationError },
+      }, 400);
+    }
+
+    const message: WorkflowUserMessage = {
+      id: this.generateId(),
+      planId,
+      content: (data.content as string).trim(),
+      interrupt: data.interrupt === true,
+      createdAt: new Date().toISOString(),
+      deliveredTurn: null,
+    };
+
+    this.sql.exec(
+      `INSERT INTO workflow_messages (id, plan_id, content, interrupt, created_at, delivered_turn)
+       VALUES (?, ?, ?, ?, ?, NULL)`,
+      message.id,
+      planId,
+      message.content,
+      message.interrupt ? 1 : 0,
+      message.createdAt
+    );
+
+    this.addWorkflowLog(
+      planId,
+      'info',
+      `${message.interrupt ? 'User interrupted' : 'User sent a message'}: ${message.content.substring(0, 200)}`,
+      undefined,
+      { messageId: message.id }
+    );
+
+    return jsonResponse({ success: true, data: message });
+  }
+
+  /**
+   * Hand the queued messages to the agent for a turn. Claiming the same turn
+   * again returns the same messages, so a retried workflow step doesn't lose them.
+   */
+  claimUserMessages(planId: string, turn: number): Response {
+    this.sql.exec(
+      'UPDATE workflow_messages SET delivered_turn = ? WHERE plan_id = ? AND delivered_turn IS NULL',
+      turn,
+      planId
+    );
+
+    const rows = this.sql.exec(
+      'SELECT * FROM workflow_messages WHERE plan_id = ? AND delivered_turn = ? ORDER BY created_at ASC',
+      planId,
+      turn
+    ).toArray();
+
+    return jsonResponse({ success: true, data: rows.map((row) => this.transformUserMessage(row as Record<string, unknown>)) });
+  }
+
+  /**
+   * Whether a queued message asks the agent to stop its current tool calls
+   */
+  hasPendingInterrupt(planId: string): Response {
+    const row = this.sql.exec(
+      'SELECT id FROM workflow_messages WHERE plan_id = ? AND delivered_turn IS NULL AND interrupt = 1 LIMIT 1',
+      planId
+    ).toArray()[0];
+
+    return jsonResponse({ success: true, data: !!row });
+  }
+
+  private transformUserMessage(row: Record<string, unknown>): WorkflowUserMessage {
+    return {
+      id: row.id as string,
+      planId: row.plan_id as string,
+      content: row.content as string,
+      interrupt: row.interrupt === 1,
+      createdAt: row.created_at as string,
+      deliveredTurn: row.delivered_turn === null ? null : Number(row.delivered_turn),
+    };
+  }
+
+  // ============================================
+  // DEPENDENCY OPERATIONS
+  // ============================================
+
+  /**
+   * Get the tasks a task depends on, with the outcome of each one's latest run.
+   * Dependencies that were deleted are left out.
+   */
+  getTaskDependencies(taskId: string): Response {
+    const task = this.sql.exec('SELECT context FROM tasks WHERE id = ?', taskId).toArray()[0] as
+      { context: string | null } | undefined;
+    if (!task) {
+      return jsonResponse({ error: 'Task not found' }, 404);
+    }
+
+    const dependencies: TaskDependency[] = [];
+    for (const id of dependencyIds(parseTaskContext(task.context))) {
+      const row = this.sql.exec(
+        `SELECT t.id, t.title, p.status, p.summary, p.result
+         FROM tasks t
+         LEFT JOIN workflow_plans p ON p.id = (
+           SELECT id FROM workflow_plans WHERE task_id = t.id ORDER BY created_at DESC LIMIT 1
+         )
+         WHERE t.id = ?`,
+        id
+      ).toArray()[0] as Record<string, unknown> | undefined;
+      if (row) {
+        dependencies.push(this.transformDependency(row));
+      }
+    }
+
+    return jsonResponse({ success: true, data: dependencies });
+  }
+
+  private transformDependency(row: Record<string, unknown>): TaskDependency {
+    let artifacts: TaskDependency['artifacts'] = [];
+    if (row.result) {
+      try {
+        artifacts = (JSON.parse(row.result as string) as { artifacts?: TaskDependency['artifacts'] }).artifacts || [];
+      } catch {
+        // Unreadable result, pass on the summary only
+      }
+    }
+
+    return {
+      taskId: row.id as string,
+      title: row.title as string,
+      status: (row.status as string | null) ?? null,
+      summary: (row.summary as string | null) ?? null,
+      artifacts,
+    };
+  }
+
   // ============================================
   // WORKFLOW LOG OPERATIONS
   // ============================================
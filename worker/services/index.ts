@@ -3,3 +3,12 @@ export { CredentialService } from './CredentialService';
 export { MCPService } from './MCPService';
 export { MCPOAuthService } from './MCPOAuthService';
 export { WorkflowService } from './WorkflowService';
+export { ToolPolicyService } from './ToolPolicyService';
+export { BudgetService } from './BudgetService';
+export { ScheduleService } from './ScheduleService';
+export { WebhookService, type WebhookUpdate } from './WebhookService';
+export { NotificationService } from './NotificationService';
+export { SandboxSessionService } from './SandboxSessionService';
+export { SandboxOutputService } from './SandboxOutputService';
+export { SandboxFileService } from './SandboxFileService';
+export { SandboxTemplateService } from './SandboxTemplateService';
@@ -38,9 +38,22 @@ export function transformColumn(column: Record<string, unknown>): Record<string,
 
 /**
  * Transform task record for API response
+ * Parses context and queuedStart JSON fields
  */
 export function transformTask(task: Record<string, unknown>): Record<string, unknown> {
-  return toCamelCase(task);
+  const transformed = toCamelCase(task);
+
+  for (const field of ['context', 'queuedStart']) {
+    if (typeof transformed[field] === 'string' && transformed[field]) {
+      try {
+        transformed[field] = JSON.parse(transformed[field] as string);
+      } catch {
+        // Leave as string
+      }
+    }
+  }
+
+  return transformed;
 }
 
 /**
@@ -74,6 +87,14 @@ export function transformWorkflowPlan(plan: Record<string, unknown>): Record<str
     }
   }
 
+  if (typeof transformed.usage === 'string' && transformed.usage) {
+    try {
+      transformed.usage = JSON.parse(transformed.usage);
+    } catch {
+      // Leave as string
+    }
+  }
+
   return transformed;
 }
 
@@ -102,5 +123,12 @@ export function transformAgent(agent: Record<string, unknown>): Record<string, u
   const transformed = toCamelCase(agent);
   // Convert enabled from SQLite integer to boolean
   transformed.enabled = transformed.enabled === 1;
+  if (typeof transformed.budget === 'string' && transformed.budget) {
+    try {
+      transformed.budget = JSON.parse(transformed.budget);
+    } catch {
+      transformed.budget = null;
+    }
+  }
   return transformed;
 }
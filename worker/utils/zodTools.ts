@@ -44,6 +44,10 @@ export interface ToolDefinition<
   output?: TOutput;
   /** Fields that require user approval before execution */
   approvalRequiredFields?: string[];
+  /** Tool changes external state - the workflow blocks it behind a user approval */
+  mutating?: boolean;
+  /** Tool only reads - several calls in one turn may run in parallel */
+  readOnly?: boolean;
 }
 
 /**
@@ -81,6 +85,7 @@ export function toolsToMCPSchemas(tools: ToolDefinitions): MCPToolSchema[] {
       name,
       description: def.description,
       inputSchema: zodSchemaToJsonSchema(def.input),
+      mutating: def.mutating ?? false,
     };
 
     if (def.output) {
@@ -91,6 +96,10 @@ export function toolsToMCPSchemas(tools: ToolDefinitions): MCPToolSchema[] {
       schema.approvalRequiredFields = def.approvalRequiredFields;
     }
 
+    if (def.readOnly) {
+      schema.readOnly = true;
+    }
+
     return schema;
   });
 }
@@ -9,6 +9,12 @@
  * - Dynamic step creation with real-time UI updates
  * - Streaming responses via WebSocket
  * - Agent-initiated approvals via special tool
+ * - Mutating tools are held behind a checkpoint and run only once approved
+ * - Run budgets (turns, tokens, cost, time, tool calls) pause the run when reached
+ * - Read-only tool calls in the same turn run in parallel
+ * - Prompt caching, with old tool results shortened on long runs
+ * - Retried/forked runs resume from an earlier run's conversation
+ * - Users can message a running agent; messages are read at the end of each turn
  */
 
 import { WorkflowEntrypoint } from 'cloudflare:workers';
@@ -21,11 +27,58 @@ import {
   getAlwaysEnabledAccounts,
   getOAuthAccounts,
   getWorkflowGuidance,
+  isHostedToolMutating,
+  isHostedToolReadOnly,
   type MCPCredentials,
   type MCPEnvBindings,
   type AccountDefinition,
 } from '../mcp/AccountMCPRegistry';
 import { MCPClient, type MCPServerConfig } from '../mcp/MCPClient';
+import type { SandboxEnvironmentLoader, SandboxSessionStore } from '../sandbox/SandboxMCP';
+import {
+  cachedRemoteToolFlags,
+  findServerTool,
+  runGatedToolCall,
+  type ApprovalDecision,
+  type ApprovalRequest,
+} from './approvalGate';
+import { calculateCost, toTokenUsage } from './usage';
+import {
+  checkToolBudget,
+  checkTurnBudget,
+  emptyBudgetUsage,
+  mergeBudgets,
+  resolveBudget,
+  withPendingToolCalls,
+  type AgentBudget,
+  type BudgetExceeded,
+} from './budgets';
+import {
+  checkToolPolicy,
+  filterDeniedTools,
+  mergeToolPolicies,
+  requiresApproval,
+  type ToolPolicyRule,
+} from './toolPolicies';
+import { batchToolCalls, canRunInParallel } from './toolBatches';
+import {
+  cachedMessages,
+  cachedSystemPrompt,
+  cachedTools,
+  compactToolResults,
+  estimateTokens,
+} from './contextWindow';
+import { buildSeedConversation } from './branching';
+import { createOutputBatcher } from './sandboxOutput';
+import { destroyedSessionId, removeSessionPreviews } from './sandboxPreviews';
+import { appendUserMessages, skippedToolResult, type WorkflowUserMessage } from './userMessages';
+import {
+  getInstallationToken,
+  installationTokenExpiring,
+  parseAppCredential,
+  type InstallationToken,
+} from '../github/appAuth';
+import { CREDENTIAL_TYPES } from '../constants';
 import { logger } from '../utils/logger';
 import type { BoardDO } from '../BoardDO';
 
@@ -46,6 +99,10 @@ export interface AgentWorkflowParams {
   customSystemPrompt?: string;
   /** Custom model from custom agent */
   agentModel?: string;
+  /** Run budget merged from the user, project and agent settings */
+  budget?: AgentBudget;
+  /** Retried/forked runs: turns before this were copied from the earlier run */
+  startTurn?: number;
 }
 
 // Event sent to resume from checkpoint
@@ -86,10 +143,12 @@ interface AgentStep {
 
 // Artifact created during execution
 interface WorkflowArtifact {
-  type: 'google_doc' | 'google_sheet' | 'gmail_message' | 'github_pr' | 'file' | 'other';
+  type: 'google_doc' | 'google_sheet' | 'google_calendar_event' | 'gmail_message' | 'github_pr' | 'file' | 'preview' | 'other';
   url?: string;
   title?: string;
   description?: string;
+  // Sandbox session a preview runs in; the preview ends with it
+  sessionId?: string;
   // Email content for inline viewing (gmail_message type)
   content?: {
     to?: string;
@@ -97,6 +156,7 @@ interface WorkflowArtifact {
     bcc?: string;
     subject?: string;
     body?: string;
+    attachments?: string[];
     sentAt?: string;
   };
 }
@@ -116,15 +176,40 @@ interface MCPServerInfo {
     description: string;
     inputSchema: Record<string, unknown>;
     approvalRequiredFields?: string[];
+    /** Tool changes external state - runs only after user approval */
+    mutating?: boolean;
+    /** Tool only reads - calls in the same turn may run in parallel */
+    readOnly?: boolean;
   }>;
 }
 
+// Outcome of a durable tool step
+interface ToolStepResult {
+  toolStep: AgentStep;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+// Bindings scoped to this run (and tool step) that hosted MCP servers may use
+type RunEnvBindings = Pick<MCPEnvBindings, 'sandboxSessions' | 'sandboxOutput' | 'sandboxEnvironment'>;
+
+// Tool result block sent back to Claude
+interface ToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
 // Store for all credentials during workflow execution
 interface CredentialStore {
   googleToken?: string;
   googleRefreshToken?: string;
   googleTokenExpiresAt?: string;
   githubToken?: string;
+  /** 'app' when githubToken is a GitHub App installation token */
+  githubAuth?: string;
   anthropicApiKey?: string;
   // Index signature for dynamic credential types
   [key: string]: string | undefined;
@@ -146,10 +231,54 @@ function formatToolName(toolName: string): string {
     .trim();
 }
 
+/**
+ * Credential store entries for a GitHub App installation token
+ */
+function installationCredentials(token: InstallationToken): CredentialStore {
+  return {
+    githubAuth: 'app',
+    githubToken: token.token,
+    githubTokenExpiresAt: token.expiresAt,
+    githubBotName: token.botName,
+    githubBotEmail: token.botEmail,
+  };
+}
+
+/**
+ * Tool result content telling the agent the user asked for changes
+ */
+function changesRequestedContent(feedback?: string): string {
+  return JSON.stringify({
+    approved: false,
+    action: 'request_changes',
+    feedback: feedback || 'User requested changes without specific feedback',
+    message: 'The user has requested changes. Please address the feedback and request approval again.',
+  });
+}
+
+/**
+ * Tool result block for a plain (ungated) tool call
+ */
+function toolStepResultBlock(toolUseId: string, toolResultData: ToolStepResult): ToolResultBlock {
+  if (toolResultData.success) {
+    return {
+      type: 'tool_result',
+      tool_use_id: toolUseId,
+      content: JSON.stringify(toolResultData.result),
+    };
+  }
+  return {
+    type: 'tool_result',
+    tool_use_id: toolUseId,
+    content: `Error: ${toolResultData.error}`,
+    is_error: true,
+  };
+}
+
 export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflowParams> {
   async run(event: WorkflowEvent<AgentWorkflowParams>, step: WorkflowStep) {
     const params = event.payload;
-    const { planId, projectId, userId, taskDescription, anthropicApiKey, customSystemPrompt, agentModel } = params;
+    const { planId, taskId, projectId, userId, taskDescription, anthropicApiKey, customSystemPrompt, agentModel } = params;
 
     const getBoardStub = (): DurableObjectStub<BoardDO> => {
       const doId = this.env.BOARD_DO.idFromName(projectId);
@@ -163,6 +292,50 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
       return this.env.BOARD_DO.get(doId) as DurableObjectStub<BoardDO>;
     };
 
+    // Sandbox sessions are recorded on the board, so tool calls in other
+    // isolates or replays of this run find the ones it created
+    const sandboxSessions: SandboxSessionStore = {
+      use: (sessionId) => getBoardStub().useSandboxSession(sessionId),
+      register: async (sessionId, session) => {
+        const now = new Date().toISOString();
+        await getBoardStub().registerSandboxSession({
+          id: sessionId,
+          sandboxId: session.sandboxId,
+          projectId,
+          planId,
+          taskId,
+          repoUrl: session.repoUrl ?? null,
+          branch: session.branch ?? null,
+          workDir: session.workDir,
+          limits: session.limits ?? null,
+          createdAt: now,
+          lastActivityAt: now,
+        });
+      },
+      forget: (sessionId) => getBoardStub().forgetSandboxSession(sessionId),
+      openPreview: (sessionId, preview) => getBoardStub().openSandboxPreview(sessionId, preview),
+      closePreview: (previewId) => getBoardStub().closeSandboxPreview(previewId),
+      publishFile: (sessionId, file) => getBoardStub().publishSandboxFile(sessionId, file),
+    };
+
+    // New sandbox sessions start from the project's template and secrets
+    const sandboxEnvironment: SandboxEnvironmentLoader = () => getBoardStub().getSandboxEnvironment(projectId);
+
+    // Installation token for projects that act as the GitHub App.
+    // Project credentials first, then the user's global ones.
+    const loadInstallationToken = async (): Promise<InstallationToken | null> => {
+      let credData = await getBoardStub().getCredentialFull(projectId, CREDENTIAL_TYPES.GITHUB_APP);
+      if (!credData) {
+        try {
+          credData = await getUserGlobalStub().getCredentialFull('__global__', CREDENTIAL_TYPES.GITHUB_APP);
+        } catch {
+          // Global container may not exist or have credentials
+        }
+      }
+      if (!credData) return null;
+      return getInstallationToken(parseAppCredential(credData.value, credData.metadata as Record<string, unknown>));
+    };
+
     const updatePlan = async (data: Record<string, unknown>) => {
       const stub = getBoardStub();
       await stub.updateWorkflowPlan(planId, data);
@@ -220,11 +393,19 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
             transportType: server.transportType as 'streamable-http' | 'sse' | undefined,
             credentialId: server.credentialId || undefined,
             accessToken,
-            tools: tools.map((t: { name: string; description?: string | null; inputSchema: object; approvalRequiredFields?: string[] | null }) => ({
+            tools: tools.map((t: { name: string; description?: string | null; inputSchema: object; approvalRequiredFields?: string[] | null; mutating?: boolean | null }) => ({
               name: t.name,
               description: t.description || '',
               inputSchema: t.inputSchema as Record<string, unknown>,
               approvalRequiredFields: t.approvalRequiredFields || undefined,
+              // Hosted tools are checked against the registry; cached rows may predate the flag
+              mutating: server.type === 'hosted'
+                ? isHostedToolMutating(server.name.replace(/\s+/g, '_'), t.name)
+                : cachedRemoteToolFlags(t.mutating).mutating,
+              // Remote tools are cached as non-mutating only when they declare readOnlyHint
+              readOnly: server.type === 'hosted'
+                ? isHostedToolReadOnly(server.name.replace(/\s+/g, '_'), t.name)
+                : cachedRemoteToolFlags(t.mutating).readOnly,
             })),
           });
         }
@@ -250,11 +431,19 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
             transportType: server.transportType as 'streamable-http' | 'sse' | undefined,
             credentialId: server.credentialId || undefined,
             accessToken,
-            tools: tools.map((t: { name: string; description?: string | null; inputSchema: object; approvalRequiredFields?: string[] | null }) => ({
+            tools: tools.map((t: { name: string; description?: string | null; inputSchema: object; approvalRequiredFields?: string[] | null; mutating?: boolean | null }) => ({
               name: t.name,
               description: t.description || '',
               inputSchema: t.inputSchema as Record<string, unknown>,
               approvalRequiredFields: t.approvalRequiredFields || undefined,
+              // Hosted tools are checked against the registry; cached rows may predate the flag
+              mutating: server.type === 'hosted'
+                ? isHostedToolMutating(server.name.replace(/\s+/g, '_'), t.name)
+                : cachedRemoteToolFlags(t.mutating).mutating,
+              // Remote tools are cached as non-mutating only when they declare readOnlyHint
+              readOnly: server.type === 'hosted'
+                ? isHostedToolReadOnly(server.name.replace(/\s+/g, '_'), t.name)
+                : cachedRemoteToolFlags(t.mutating).readOnly,
             })),
           });
         }
@@ -271,6 +460,8 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
                 name: t.name,
                 description: t.description || '',
                 inputSchema: t.inputSchema as unknown as Record<string, unknown>,
+                mutating: t.mutating === true,
+                readOnly: t.readOnly === true,
               })),
             });
           }
@@ -350,43 +541,500 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
           credentials[tokenKey] = accessToken;
         }
 
+        // Projects set to the GitHub App act as its bot, never as the connected user
+        let githubAuth: string | undefined;
+        try {
+          githubAuth = (await stub.getProjectInfo()).githubAuth;
+        } catch {
+          // Project row may not exist (e.g. standalone tasks), keep OAuth
+        }
+        if (githubAuth === 'app') {
+          credentials.githubAuth = 'app';
+          credentials.githubToken = undefined;
+          try {
+            const installationToken = await loadInstallationToken();
+            if (installationToken) {
+              Object.assign(credentials, installationCredentials(installationToken));
+            } else {
+              logger.workflow.warn('Project uses the GitHub App but no App credential is configured', { projectId });
+            }
+          } catch (e) {
+            logger.workflow.error('GitHub App token error', { error: e instanceof Error ? e.message : String(e) });
+          }
+        }
+
+        // Tool permission policies: global (user-level) merged with project
+        let globalPolicies: ToolPolicyRule[] = [];
+        try {
+          globalPolicies = await globalStub.getToolPolicies('__global__');
+        } catch {
+          // User container may not exist yet, ignore
+        }
+        const projectPolicies = await stub.getToolPolicies(projectId);
+        const policies = mergeToolPolicies(globalPolicies, projectPolicies).map((p) => ({
+          serverName: p.serverName,
+          toolName: p.toolName,
+          mode: p.mode,
+          constraints: p.constraints,
+        }));
+
         return JSON.stringify({
           servers,
           credentials,
+          policies,
         });
       });
 
       const mcpConfig = JSON.parse(mcpConfigJson) as {
         servers: MCPServerInfo[];
         credentials: CredentialStore;
+        policies: ToolPolicyRule[];
       };
 
-      const claudeTools = this.buildClaudeTools(mcpConfig.servers);
+      const claudeTools = this.buildClaudeTools(mcpConfig.servers, mcpConfig.policies);
+      // Denied tools are left out of the prompt as well as the tool list
+      const visibleServers = filterDeniedTools(mcpConfig.servers, mcpConfig.policies);
       // Use custom system prompt if provided, otherwise build default
       const systemPrompt = customSystemPrompt
-        ? this.buildSystemPromptWithCustom(customSystemPrompt, mcpConfig.servers)
-        : this.buildSystemPrompt(mcpConfig.servers);
+        ? this.buildSystemPromptWithCustom(customSystemPrompt, visibleServers)
+        : this.buildSystemPrompt(visibleServers);
       // Use custom model if provided, otherwise use default
       const modelToUse = agentModel || DEFAULT_MODEL;
-      const messages: MessageParam[] = [
+      // The system prompt and tool schemas are re-sent on every turn
+      const fixedPromptTokens = estimateTokens(systemPrompt, claudeTools);
+
+      // Retried and forked runs pick up the earlier run's conversation
+      const startTurn = params.startTurn ?? 0;
+      let messages: MessageParam[] = [
         { role: 'user', content: taskDescription },
       ];
+      if (startTurn > 0) {
+        const seedJson = await step.do('load-conversation', async () => {
+          const turns = await getBoardStub().getConversationTurns(planId);
+          const seed = buildSeedConversation(taskDescription, turns, startTurn);
+          // Shortened up front to keep the step result small
+          return JSON.stringify(compactToolResults(seed, fixedPromptTokens).messages);
+        });
+        messages = JSON.parse(seedJson) as MessageParam[];
+      }
 
       const steps: AgentStep[] = [];
       const artifacts: WorkflowArtifact[] = [];
-      let turnIndex = 0;
+      let turnIndex = startTurn;
       let done = false;
+      // The agent's last words become the plan summary, which dependent tasks receive
+      let finalText = '';
+
+      // Budget state is rebuilt from cached step results on replay, so the
+      // same checks pass or pause at the same points
+      let budget = resolveBudget(params.budget);
+      const budgetUsage = emptyBudgetUsage();
+
+      /**
+       * Create a checkpoint for an approval request and wait for the user.
+       * Cancelling fails the workflow.
+       */
+      const awaitApproval = async (stepId: string, request: ApprovalRequest): Promise<ApprovalDecision> => {
+        const approvalStep: AgentStep = {
+          id: stepId,
+          name: request.action || 'Waiting for approval',
+          type: 'approval',
+          status: 'awaiting_approval',
+          startedAt: new Date().toISOString(),
+          toolName: request.tool,
+          approvalData: request.data,
+        };
+        steps.push(approvalStep);
+
+        // Update plan and wait for approval
+        await step.do(`checkpoint-setup-${stepId}`, async () => {
+          await updatePlan({
+            status: 'checkpoint',
+            steps: [...steps],
+            checkpointData: {
+              stepId,
+              tool: request.tool,
+              action: request.action,
+              data: request.data,
+              // Running previews, so the reviewer can try the change first
+              previews: artifacts.filter((a) => a.type === 'preview'),
+            },
+          });
+          await addLog('info', `Requesting approval: ${request.action}`, stepId);
+          return 'checkpoint';
+        });
+
+        // Wait for user approval event
+        const approvalEvent = await step.waitForEvent<CheckpointEvent>(
+          `Wait for approval: ${request.action}`,
+          { type: 'checkpoint-approval', timeout: '7 days' }
+        );
+
+        // Process approval result
+        const approvalAction = approvalEvent.payload.action;
+        const approvalFeedback = approvalEvent.payload.feedback;
+
+        await step.do(`checkpoint-resolve-${stepId}`, async () => {
+          if (approvalAction === 'cancel') {
+            // User cancelled - fail the workflow
+            const stepIndex = steps.findIndex((s) => s.id === stepId);
+            if (stepIndex >= 0) {
+              steps[stepIndex].status = 'failed';
+              steps[stepIndex].error = 'User cancelled';
+              steps[stepIndex].completedAt = new Date().toISOString();
+            }
+            await updatePlan({
+              status: 'failed',
+              steps: [...steps],
+            });
+            throw new Error('User cancelled the workflow');
+          }
+
+          if (approvalAction === 'request_changes') {
+            // User requested changes - update step and continue with feedback
+            const stepIndex = steps.findIndex((s) => s.id === stepId);
+            if (stepIndex >= 0) {
+              steps[stepIndex].status = 'completed';
+              steps[stepIndex].completedAt = new Date().toISOString();
+            }
+            await updatePlan({
+              status: 'executing',
+              steps: [...steps],
+              checkpointData: undefined,
+            });
+            await addLog('info', `User requested changes: ${approvalFeedback?.substring(0, 100) || ''}`, stepId);
+            return 'request_changes';
+          }
+
+          // Update step as approved
+          const stepIndex = steps.findIndex((s) => s.id === stepId);
+          if (stepIndex >= 0) {
+            steps[stepIndex].status = 'completed';
+            steps[stepIndex].completedAt = new Date().toISOString();
+          }
+          await updatePlan({
+            status: 'executing',
+            steps: [...steps],
+            checkpointData: undefined,
+          });
+          await addLog('info', 'User approved', stepId);
+          return 'approved';
+        });
+
+        let userData: Record<string, unknown> | undefined;
+        if (approvalEvent.payload.dataJson) {
+          try {
+            userData = JSON.parse(approvalEvent.payload.dataJson);
+          } catch {
+            // Ignore invalid JSON
+          }
+        }
+
+        return { action: approvalAction, feedback: approvalFeedback, userData };
+      };
+
+      /**
+       * Execute an MCP tool as a durable step. Safe to run several at once;
+       * the result is recorded in the plan separately, in call order.
+       */
+      const executeToolStep = async (
+        stepId: string,
+        toolName: string,
+        args: Record<string, unknown>
+      ): Promise<ToolStepResult> => {
+        const toolResultJson = await step.do(`tool-${stepId}`, async () => {
+          const startTime = Date.now();
+          const toolStepData: AgentStep = {
+            id: stepId,
+            name: formatToolName(toolName),
+            type: 'tool',
+            status: 'running',
+            startedAt: new Date().toISOString(),
+            toolName,
+            toolArgs: args,
+          };
+
+          await addLog(
+            'info',
+            `Calling ${formatToolName(toolName)}`,
+            stepId,
+            { type: 'tool_call', tool: toolName, args }
+          );
+
+          let success = false;
+          let result: unknown;
+          let error: string | undefined;
+
+          // Sandbox tools stream their output to the step's terminal pane
+          const output = createOutputBatcher((chunks) =>
+            getBoardStub().appendSandboxOutput(projectId, planId, stepId, toolName, chunks).catch((e) =>
+              logger.workflow.error('Sandbox output update failed', { error: e instanceof Error ? e.message : String(e) })
+            )
+          );
+
+          try {
+            // Installation tokens last an hour, so long runs mint a fresh one
+            const { credentials } = mcpConfig;
+            if (credentials.githubAuth === 'app' && installationTokenExpiring(credentials.githubTokenExpiresAt)) {
+              const installationToken = await loadInstallationToken();
+              if (installationToken) {
+                Object.assign(credentials, installationCredentials(installationToken));
+              }
+            }
+
+            result = await this.executeMcpTool(
+              toolName,
+              args,
+              mcpConfig.credentials,
+              mcpConfig.servers,
+              mcpConfig.policies,
+              { sandboxSessions, sandboxOutput: output.write, sandboxEnvironment }
+            );
+            const mcpResult = result as { isError?: boolean; content?: Array<{ type: string; text?: string }> };
+            if (mcpResult.isError) {
+              error = mcpResult.content?.find(c => c.type === 'text')?.text || 'Tool returned error';
+            } else {
+              success = true;
+            }
+          } catch (e) {
+            error = e instanceof Error ? e.message : String(e);
+          }
+          await output.flush();
+
+          const durationMs = Date.now() - startTime;
+
+          toolStepData.status = success ? 'completed' : 'failed';
+          toolStepData.completedAt = new Date().toISOString();
+          toolStepData.durationMs = durationMs;
+          toolStepData.result = success ? result : undefined;
+          toolStepData.error = error;
+
+          await addLog(
+            success ? 'info' : 'error',
+            success
+              ? `Tool completed in ${durationMs}ms`
+              : `Tool failed: ${error}`,
+            stepId,
+            { type: 'tool_result', durationMs }
+          );
+
+          return JSON.stringify({
+            toolStep: toolStepData,
+            success,
+            result: success ? result : undefined,
+            error,
+          });
+        });
+
+        return JSON.parse(toolResultJson) as ToolStepResult;
+      };
+
+      /**
+       * Record an executed tool call in the plan, budget and artifacts
+       */
+      const recordToolStep = (toolName: string, toolResultData: ToolStepResult): void => {
+        steps.push(toolResultData.toolStep);
+        budgetUsage.toolCalls[toolName] = (budgetUsage.toolCalls[toolName] || 0) + 1;
+
+        // Fire-and-forget to avoid extra checkpoint
+        updatePlan({ steps: [...steps] }).catch((e) =>
+          logger.workflow.error('Plan update failed', { error: e instanceof Error ? e.message : String(e) })
+        );
+
+        if (toolResultData.success && toolResultData.result) {
+          const artifact = this.extractArtifact(toolName, toolResultData.result);
+          if (artifact) {
+            artifacts.push(artifact);
+          }
+
+          // Previews of a destroyed session can no longer be opened
+          const endedSession = destroyedSessionId(toolName, toolResultData.result);
+          if (endedSession) {
+            const remaining = removeSessionPreviews(artifacts, endedSession);
+            artifacts.splice(0, artifacts.length, ...remaining);
+          }
+        }
+      };
+
+      /**
+       * Execute an MCP tool as a durable step and record it in the plan
+       */
+      const runToolStep = async (
+        stepId: string,
+        toolName: string,
+        args: Record<string, unknown>
+      ): Promise<ToolStepResult> => {
+        const toolResultData = await executeToolStep(stepId, toolName, args);
+        recordToolStep(toolName, toolResultData);
+        budgetUsage.durationMs += toolResultData.toolStep.durationMs || 0;
+        return toolResultData;
+      };
+
+      /**
+       * Execute read-only tool calls concurrently. Each call is still its own
+       * durable step, so a replay reuses the cached results instead of
+       * calling the tools again. Results are recorded in call order.
+       */
+      const runToolStepsInParallel = async (
+        calls: Array<{ stepId: string; toolName: string; args: Record<string, unknown> }>
+      ): Promise<ToolStepResult[]> => {
+        const results = await Promise.all(
+          calls.map((call) => executeToolStep(call.stepId, call.toolName, call.args))
+        );
+        results.forEach((result, i) => recordToolStep(calls[i].toolName, result));
+        // The calls overlapped, so only the slowest counts towards run time
+        budgetUsage.durationMs += Math.max(...results.map((r) => r.toolStep.durationMs || 0));
+        return results;
+      };
+
+      /**
+       * Run a mutating tool behind a checkpoint. The approved payload (with the
+       * user's edits merged in) is executed directly - no model turn in between.
+       */
+      const runGatedTool = async (
+        toolUseId: string,
+        stepId: string,
+        request: ApprovalRequest,
+        tool: MCPServerInfo['tools'][number]
+      ): Promise<ToolResultBlock> => {
+        const outcome = await runGatedToolCall(request, tool, {
+          waitForDecision: (req) => awaitApproval(stepId, req),
+          execute: (args) => runToolStep(`${stepId}-approved`, request.tool, args),
+        });
+
+        if (outcome.decision.action !== 'approve' || !outcome.execution) {
+          return {
+            type: 'tool_result',
+            tool_use_id: toolUseId,
+            content: changesRequestedContent(outcome.decision.feedback),
+          };
+        }
+
+        if (!outcome.execution.success) {
+          return {
+            type: 'tool_result',
+            tool_use_id: toolUseId,
+            content: `Error: Approved, but ${request.tool} failed: ${outcome.execution.error}`,
+            is_error: true,
+          };
+        }
+
+        return {
+          type: 'tool_result',
+          tool_use_id: toolUseId,
+          content: JSON.stringify({
+            approved: true,
+            executed: true,
+            feedback: outcome.decision.feedback,
+            ...(outcome.decision.userData && { userData: outcome.decision.userData }),
+            result: outcome.execution.result,
+          }),
+        };
+      };
 
-      while (!done && turnIndex < 50) {
+      /**
+       * Pause in a 'budget_exceeded' checkpoint until the user raises the
+       * limit (continue) or stops the run (cancel).
+       */
+      const awaitBudgetIncrease = async (pauseId: string, exceeded: BudgetExceeded): Promise<void> => {
+        const stepId = `budget-${pauseId}`;
+        steps.push({
+          id: stepId,
+          name: exceeded.message,
+          type: 'approval',
+          status: 'awaiting_approval',
+          startedAt: new Date().toISOString(),
+        });
+
+        await step.do(`budget-pause-${pauseId}`, async () => {
+          await updatePlan({
+            status: 'budget_exceeded',
+            steps: [...steps],
+            checkpointData: { type: 'budget', stepId, exceeded, budget },
+          });
+          await addLog('warn', exceeded.message, stepId);
+          return 'paused';
+        });
+
+        const budgetEvent = await step.waitForEvent<CheckpointEvent>(
+          `Wait for budget increase: ${pauseId}`,
+          { type: 'checkpoint-approval', timeout: '7 days' }
+        );
+
+        const action = budgetEvent.payload.action;
+        let raised: AgentBudget | undefined;
+        if (budgetEvent.payload.dataJson) {
+          try {
+            raised = (JSON.parse(budgetEvent.payload.dataJson) as { budget?: AgentBudget }).budget;
+          } catch {
+            // Ignore invalid JSON
+          }
+        }
+
+        await step.do(`budget-resolve-${pauseId}`, async () => {
+          const budgetStep = steps.find((s) => s.id === stepId);
+          if (budgetStep) {
+            budgetStep.status = action === 'cancel' ? 'failed' : 'completed';
+            budgetStep.completedAt = new Date().toISOString();
+          }
+
+          if (action === 'cancel') {
+            await updatePlan({
+              status: 'failed',
+              steps: [...steps],
+              result: { success: false, error: `Stopped by user: ${exceeded.message}` },
+            });
+            throw new Error(`Stopped by user: ${exceeded.message}`);
+          }
+
+          await updatePlan({
+            status: 'executing',
+            steps: [...steps],
+            checkpointData: undefined,
+          });
+          await addLog('info', 'Budget raised, continuing', stepId);
+          return 'continued';
+        });
+
+        budget = mergeBudgets(budget, raised);
+      };
+
+      /**
+       * Pause as often as needed until the check passes
+       */
+      const ensureBudget = async (pauseKey: string, check: () => BudgetExceeded | null): Promise<void> => {
+        let exceeded = check();
+        for (let attempt = 0; exceeded; attempt++) {
+          await awaitBudgetIncrease(`${pauseKey}-${attempt}`, exceeded);
+          exceeded = check();
+        }
+      };
+
+      while (!done) {
         const currentTurnIndex = turnIndex;
 
+        await ensureBudget(`turn-${currentTurnIndex}`, () => checkTurnBudget(budget, budgetUsage));
+
+        // Shorten old tool results once the prompt gets large. This runs outside
+        // the step but is deterministic, so replays rebuild the same messages.
+        const compaction = compactToolResults(messages, fixedPromptTokens);
+        if (compaction.compacted > 0) {
+          messages.splice(0, messages.length, ...compaction.messages);
+        }
+
         const turnResultJson = await step.do(`turn-${currentTurnIndex}`, async () => {
-          if (currentTurnIndex === 0) {
+          const turnStartTime = Date.now();
+          if (currentTurnIndex === startTurn) {
             await updatePlan({
               status: 'executing',
               steps: [],
             });
-            await addLog('info', 'Agent started working on task');
+            await addLog('info', startTurn > 0
+              ? `Agent resumed from turn ${startTurn + 1} of an earlier run`
+              : 'Agent started working on task');
+          }
+          if (compaction.compacted > 0) {
+            await addLog('info', `Shortened ${compaction.compacted} older tool result(s) to stay within the context window`);
           }
 
           const client = new Anthropic({ apiKey: mcpConfig.credentials.anthropicApiKey });
@@ -394,9 +1042,9 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
           const stream = client.messages.stream({
             model: modelToUse,
             max_tokens: 8192,
-            system: systemPrompt,
-            messages,
-            tools: claudeTools,
+            system: cachedSystemPrompt(systemPrompt),
+            messages: cachedMessages(messages),
+            tools: cachedTools(claudeTools),
           });
 
           stream.on('text', async (text) => {
@@ -431,6 +1079,7 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
             },
             agentStep,
             textContent,
+            durationMs: Date.now() - turnStartTime,
           });
         });
 
@@ -440,14 +1089,41 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
             role: 'assistant';
             content: ContentBlock[];
             stop_reason: 'end_turn' | 'tool_use' | 'max_tokens' | 'stop_sequence';
-            usage: { input_tokens: number; output_tokens: number };
+            usage: {
+              input_tokens: number;
+              output_tokens: number;
+              cache_creation_input_tokens?: number | null;
+              cache_read_input_tokens?: number | null;
+            };
           };
           agentStep: AgentStep;
           textContent: string;
+          durationMs?: number;
         };
 
         const { response, agentStep, textContent } = turnResult;
         steps.push(agentStep);
+        if (textContent.trim()) {
+          finalText = textContent.trim();
+        }
+
+        // Record token usage per turn (idempotent per turn index, so replays don't double count)
+        const tokenUsage = toTokenUsage(response.usage);
+        const turnCost = calculateCost(modelToUse, tokenUsage);
+        budgetUsage.turns++;
+        budgetUsage.tokens += tokenUsage.inputTokens + tokenUsage.outputTokens +
+          tokenUsage.cacheCreationTokens + tokenUsage.cacheReadTokens;
+        budgetUsage.costUsd += turnCost;
+        budgetUsage.durationMs += turnResult.durationMs || 0;
+
+        getBoardStub().recordTurnUsage(planId, {
+          turn: currentTurnIndex,
+          model: modelToUse,
+          ...tokenUsage,
+          costUsd: turnCost,
+        }).catch((e) =>
+          logger.workflow.error('Usage update failed', { error: e instanceof Error ? e.message : String(e) })
+        );
 
         // Fire-and-forget to avoid extra checkpoint
         updatePlan({ steps: [...steps] }).catch((e) =>
@@ -457,6 +1133,7 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
           addLog('info', textContent.substring(0, 200), agentStep.id).catch(() => {});
         }
 
+        const turnMessagesStart = messages.length;
         messages.push({ role: 'assistant', content: response.content });
 
         const toolUses = response.content.filter(
@@ -464,29 +1141,58 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
         );
 
         if (toolUses.length > 0) {
-          const toolResults: Array<{
-            type: 'tool_result';
-            tool_use_id: string;
-            content: string;
-            is_error?: boolean;
-          }> = [];
-
-          for (const toolUse of toolUses) {
+          const toolResults: ToolResultBlock[] = [];
+
+          // Consecutive read-only calls run together; everything else runs alone, in order
+          const batches = batchToolCalls(toolUses, (toolUse) =>
+            canRunInParallel(mcpConfig.servers, mcpConfig.policies, toolUse.name)
+          );
+
+          let interrupted = false;
+          for (const [batchIndex, batch] of batches.entries()) {
+            // A user interrupt skips every call that hasn't started yet
+            if (batchIndex > 0 && !interrupted) {
+              interrupted = await step.do(`interrupt-check-${currentTurnIndex}-${batchIndex}`, async () => {
+                const pending = await getBoardStub().hasPendingInterrupt(planId);
+                if (pending) {
+                  await addLog('info', 'Stopping the remaining tool calls to read the user\'s message');
+                }
+                return pending;
+              });
+            }
+            if (interrupted) {
+              batch.forEach((toolUse) => toolResults.push(skippedToolResult(toolUse.id)));
+              continue;
+            }
+
+            if (batch.length > 1) {
+              const calls = batch.map((toolUse) => ({
+                toolUseId: toolUse.id,
+                stepId: `tool-${currentTurnIndex}-${toolUse.id}`,
+                toolName: toolUse.name,
+                args: toolUse.input as Record<string, unknown>,
+              }));
+              for (const [i, call] of calls.entries()) {
+                const pending = calls.slice(0, i).map((c) => c.toolName);
+                await ensureBudget(call.stepId, () =>
+                  checkToolBudget(budget, withPendingToolCalls(budgetUsage, pending), call.toolName)
+                );
+              }
+              const results = await runToolStepsInParallel(calls);
+              results.forEach((result, i) => toolResults.push(toolStepResultBlock(calls[i].toolUseId, result)));
+              continue;
+            }
+
+            const toolUse = batch[0];
             const toolStepId = `tool-${currentTurnIndex}-${toolUse.id}`;
 
             if (toolUse.name === 'request_approval') {
               // Handle approval request
-              const approvalArgs = toolUse.input as {
-                tool: string;
-                action: string;
-                data: Record<string, unknown>;
-              };
+              const approvalArgs = toolUse.input as ApprovalRequest;
 
               // Validate required fields from tool metadata
               // Tool name format: "ServerName__methodName"
-              const [serverName, methodName] = approvalArgs.tool.split('__');
-              const matchingServer = mcpConfig.servers.find((s: MCPServerInfo) => s.name.replace(/\s+/g, '_') === serverName);
-              const matchingTool = matchingServer?.tools.find((t: { name: string; approvalRequiredFields?: string[] }) => t.name === methodName);
+              const matchingTool = findServerTool(mcpConfig.servers, approvalArgs.tool);
               const required = matchingTool?.approvalRequiredFields;
 
               if (required && required.length > 0) {
@@ -503,109 +1209,32 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
                 }
               }
 
-              const approvalStep: AgentStep = {
-                id: toolStepId,
-                name: approvalArgs.action || 'Waiting for approval',
-                type: 'approval',
-                status: 'awaiting_approval',
-                startedAt: new Date().toISOString(),
-                toolName: approvalArgs.tool,
-                approvalData: approvalArgs.data,
-              };
-              steps.push(approvalStep);
-
-              // Update plan and wait for approval
-              await step.do(`checkpoint-setup-${toolStepId}`, async () => {
-                await updatePlan({
-                  status: 'checkpoint',
-                  steps: [...steps],
-                  checkpointData: {
-                    stepId: toolStepId,
-                    tool: approvalArgs.tool,
-                    action: approvalArgs.action,
-                    data: approvalArgs.data,
-                  },
-                });
-                await addLog('info', `Requesting approval: ${approvalArgs.action}`, toolStepId);
-                return 'checkpoint';
-              });
-
-              // Wait for user approval event
-              const approvalEvent = await step.waitForEvent<CheckpointEvent>(
-                `Wait for approval: ${approvalArgs.action}`,
-                { type: 'checkpoint-approval', timeout: '7 days' }
-              );
-
-              // Process approval result
-              const approvalAction = approvalEvent.payload.action;
-              const approvalFeedback = approvalEvent.payload.feedback;
-
-              await step.do(`checkpoint-resolve-${toolStepId}`, async () => {
-                if (approvalAction === 'cancel') {
-                  // User cancelled - fail the workflow
-                  const stepIndex = steps.findIndex((s) => s.id === toolStepId);
-                  if (stepIndex >= 0) {
-                    steps[stepIndex].status = 'failed';
-                    steps[stepIndex].error = 'User cancelled';
-                    steps[stepIndex].completedAt = new Date().toISOString();
-                  }
-                  await updatePlan({
-                    status: 'failed',
-                    steps: [...steps],
-                  });
-                  throw new Error('User cancelled the workflow');
-                }
-
-                if (approvalAction === 'request_changes') {
-                  // User requested changes - update step and continue with feedback
-                  const stepIndex = steps.findIndex((s) => s.id === toolStepId);
-                  if (stepIndex >= 0) {
-                    steps[stepIndex].status = 'completed';
-                    steps[stepIndex].completedAt = new Date().toISOString();
-                  }
-                  await updatePlan({
-                    status: 'executing',
-                    steps: [...steps],
-                    checkpointData: undefined,
-                  });
-                  await addLog('info', `User requested changes: ${approvalFeedback?.substring(0, 100) || ''}`, toolStepId);
-                  return 'request_changes';
-                }
-
-                // Update step as approved
-                const stepIndex = steps.findIndex((s) => s.id === toolStepId);
-                if (stepIndex >= 0) {
-                  steps[stepIndex].status = 'completed';
-                  steps[stepIndex].completedAt = new Date().toISOString();
-                }
-                await updatePlan({
-                  status: 'executing',
-                  steps: [...steps],
-                  checkpointData: undefined,
+              // Don't ask the user to approve something the tool policy blocks
+              const policyError = checkToolPolicy(mcpConfig.policies, approvalArgs.tool, approvalArgs.data || {});
+              if (policyError) {
+                toolResults.push({
+                  type: 'tool_result',
+                  tool_use_id: toolUse.id,
+                  content: `Error: ${policyError}`,
+                  is_error: true,
                 });
-                await addLog('info', 'User approved', toolStepId);
-                return 'approved';
-              });
+                continue;
+              }
 
-              let userData: Record<string, unknown> | undefined;
-              if (approvalEvent.payload.dataJson) {
-                try {
-                  userData = JSON.parse(approvalEvent.payload.dataJson);
-                } catch {
-                  // Ignore invalid JSON
-                }
+              // Approving a mutating tool runs it right away with the approved data
+              if (matchingTool?.mutating) {
+                await ensureBudget(toolStepId, () => checkToolBudget(budget, budgetUsage, approvalArgs.tool));
+                toolResults.push(await runGatedTool(toolUse.id, toolStepId, approvalArgs, matchingTool));
+                continue;
               }
 
-              if (approvalAction === 'request_changes') {
+              const decision = await awaitApproval(toolStepId, approvalArgs);
+
+              if (decision.action === 'request_changes') {
                 toolResults.push({
                   type: 'tool_result',
                   tool_use_id: toolUse.id,
-                  content: JSON.stringify({
-                    approved: false,
-                    action: 'request_changes',
-                    feedback: approvalFeedback || 'User requested changes without specific feedback',
-                    message: 'The user has requested changes. Please address the feedback and request approval again.',
-                  }),
+                  content: changesRequestedContent(decision.feedback),
                 });
               } else {
                 toolResults.push({
@@ -613,113 +1242,58 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
                   tool_use_id: toolUse.id,
                   content: JSON.stringify({
                     approved: true,
-                    feedback: approvalFeedback,
-                    ...(userData && { userData }),
+                    feedback: decision.feedback,
+                    ...(decision.userData && { userData: decision.userData }),
                   }),
                 });
               }
-            } else {
-              const toolResultJson = await step.do(`tool-${toolStepId}`, async () => {
-                const startTime = Date.now();
-                const toolStepData: AgentStep = {
-                  id: toolStepId,
-                  name: formatToolName(toolUse.name),
-                  type: 'tool',
-                  status: 'running',
-                  startedAt: new Date().toISOString(),
-                  toolName: toolUse.name,
-                  toolArgs: toolUse.input as Record<string, unknown>,
-                };
-
-                await addLog(
-                  'info',
-                  `Calling ${formatToolName(toolUse.name)}`,
-                  toolStepId,
-                  { type: 'tool_call', tool: toolUse.name, args: toolUse.input }
-                );
-
-                let success = false;
-                let result: unknown;
-                let error: string | undefined;
-
-                try {
-                  result = await this.executeMcpTool(
-                    toolUse.name,
-                    toolUse.input as Record<string, unknown>,
-                    mcpConfig.credentials,
-                    mcpConfig.servers
-                  );
-                  const mcpResult = result as { isError?: boolean; content?: Array<{ type: string; text?: string }> };
-                  if (mcpResult.isError) {
-                    error = mcpResult.content?.find(c => c.type === 'text')?.text || 'Tool returned error';
-                  } else {
-                    success = true;
-                  }
-                } catch (e) {
-                  error = e instanceof Error ? e.message : String(e);
-                }
-
-                const durationMs = Date.now() - startTime;
-
-                toolStepData.status = success ? 'completed' : 'failed';
-                toolStepData.completedAt = new Date().toISOString();
-                toolStepData.durationMs = durationMs;
-                toolStepData.result = success ? result : undefined;
-                toolStepData.error = error;
-
-                await addLog(
-                  success ? 'info' : 'error',
-                  success
-                    ? `Tool completed in ${durationMs}ms`
-                    : `Tool failed: ${error}`,
-                  toolStepId,
-                  { type: 'tool_result', durationMs }
-                );
+              continue;
+            }
 
-                return JSON.stringify({
-                  toolStep: toolStepData,
-                  success,
-                  result: success ? result : undefined,
-                  error,
-                });
+            const toolInput = toolUse.input as Record<string, unknown>;
+            const matchingTool = findServerTool(mcpConfig.servers, toolUse.name);
+
+            // Only tools in the run's tool list can be called. Anything else (a
+            // hosted server with credentials that isn't enabled for the run, a
+            // made-up name) would skip the approval check, so it is refused.
+            if (!matchingTool) {
+              toolResults.push({
+                type: 'tool_result',
+                tool_use_id: toolUse.id,
+                content: `Error: ${toolUse.name} is not available in this run`,
+                is_error: true,
               });
+              continue;
+            }
 
-              const toolResultData = JSON.parse(toolResultJson) as {
-                toolStep: AgentStep;
-                success: boolean;
-                result?: unknown;
-                error?: string;
-              };
-
-              steps.push(toolResultData.toolStep);
-
-              // Fire-and-forget to avoid extra checkpoint
-              updatePlan({ steps: [...steps] }).catch((e) =>
-                logger.workflow.error('Plan update failed', { error: e instanceof Error ? e.message : String(e) })
-              );
-
-              if (toolResultData.success && toolResultData.result) {
-                const artifact = this.extractArtifact(toolUse.name, toolResultData.result);
-                if (artifact) {
-                  artifacts.push(artifact);
-                }
-              }
+            // Every direct call is checked against the policy's constraints
+            const policyError = checkToolPolicy(mcpConfig.policies, toolUse.name, toolInput);
+            if (policyError) {
+              toolResults.push({
+                type: 'tool_result',
+                tool_use_id: toolUse.id,
+                content: `Error: ${policyError}`,
+                is_error: true,
+              });
+              continue;
+            }
 
-              if (toolResultData.success) {
-                toolResults.push({
-                  type: 'tool_result',
-                  tool_use_id: toolUse.id,
-                  content: JSON.stringify(toolResultData.result),
-                });
-              } else {
-                toolResults.push({
-                  type: 'tool_result',
-                  tool_use_id: toolUse.id,
-                  content: `Error: ${toolResultData.error}`,
-                  is_error: true,
-                });
-              }
+            // Mutating tools (and tools the policy marks 'ask', or whose
+            // constraints the arguments can't be checked against) called
+            // directly are held until the user approves them
+            if (requiresApproval(mcpConfig.policies, toolUse.name, matchingTool.mutating === true, toolInput)) {
+              await ensureBudget(toolStepId, () => checkToolBudget(budget, budgetUsage, toolUse.name));
+              toolResults.push(await runGatedTool(toolUse.id, toolStepId, {
+                tool: toolUse.name,
+                action: formatToolName(toolUse.name),
+                data: toolInput,
+              }, matchingTool));
+              continue;
             }
+
+            await ensureBudget(toolStepId, () => checkToolBudget(budget, budgetUsage, toolUse.name));
+            const toolResultData = await runToolStep(toolStepId, toolUse.name, toolInput);
+            toolResults.push(toolStepResultBlock(toolUse.id, toolResultData));
           }
 
           messages.push({ role: 'user', content: toolResults });
@@ -727,6 +1301,27 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
           done = true;
         }
 
+        // Messages the user sent during this turn are read on the next one,
+        // so an agent about to finish keeps going to answer them
+        const userMessagesJson = await step.do(`user-messages-${currentTurnIndex}`, async () => {
+          const userMessages = await getBoardStub().claimUserMessages(planId, currentTurnIndex);
+          if (userMessages.length > 0) {
+            await addLog('info', `Agent received ${userMessages.length} message(s) from the user`);
+          }
+          return JSON.stringify(userMessages);
+        });
+        const userMessages = JSON.parse(userMessagesJson) as WorkflowUserMessage[];
+        if (userMessages.length > 0) {
+          messages.splice(0, messages.length, ...appendUserMessages(messages, userMessages));
+          done = false;
+        }
+
+        // Saved so a later run can retry or fork from the next turn.
+        // Idempotent per turn, so replays just overwrite it.
+        getBoardStub().recordTurnMessages(planId, currentTurnIndex, messages.slice(turnMessagesStart)).catch((e) =>
+          logger.workflow.error('Conversation update failed', { error: e instanceof Error ? e.message : String(e) })
+        );
+
         turnIndex++;
       }
 
@@ -741,6 +1336,7 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
         if (isSuccess) {
           await updatePlan({
             status: 'completed',
+            summary: finalText || undefined,
             steps: [...steps],
             result: {
               success: true,
@@ -794,19 +1390,21 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
 
   /**
    * Build Claude tools from MCP server definitions
+   * Tools denied by a tool policy are hidden from the agent
    */
-  private buildClaudeTools(servers: MCPServerInfo[]): Tool[] {
+  private buildClaudeTools(servers: MCPServerInfo[], policies: ToolPolicyRule[]): Tool[] {
     const tools: Tool[] = [];
 
-    for (const server of servers) {
+    for (const server of filterDeniedTools(servers, policies)) {
       for (const tool of server.tools) {
         const inputSchema = tool.inputSchema as Tool['input_schema'];
         if (!inputSchema.type) {
           inputSchema.type = 'object';
         }
+        const approvalNote = tool.mutating ? ' [Requires approval]' : '';
         tools.push({
           name: `${server.name.replace(/\s+/g, '_')}__${tool.name}`,
-          description: `[${server.name}] ${tool.description}`,
+          description: `[${server.name}] ${tool.description}${approvalNote}`,
           input_schema: inputSchema,
         });
       }
@@ -829,7 +1427,7 @@ export class AgentWorkflow extends WorkflowEntrypoint<WorkflowEnv, AgentWorkflow
           },
           data: {
             type: 'object',
-            description: 'The exact data that will be passed to the tool (e.g., { title: "...", content: "..." } for docs)',
+            description: 'The exact data that will be passed to the tool (e.g., { title: "...", content: "..." } for docs). Tools marked [Requires approval] run with this data as soon as the user approves.',
           },
         },
         required: ['tool', 'action', 'data'],
@@ -898,11 +1496,15 @@ When requesting approval, include:
 - Preview of the content (email body, document content, etc.)
 - Any relevant context the user needs to make a decision
 
-**CRITICAL: Handling user edits in approval responses**
-When the approval result contains a \`userData\` field, the user has edited the data during approval.
-You MUST use the values from \`userData\` to override your original data when calling the actual tool.
+**CRITICAL: Approved actions run automatically**
+Tools that modify external systems are marked [Requires approval]. When you request approval for one of them (or call it directly),
+the workflow pauses for the user and, once approved, runs the tool itself with the approved \`data\` - including any edits the user made.
+The approval result then contains \`executed: true\` and the tool's \`result\`. Do NOT call the tool again afterwards.
+The \`data\` you submit must contain every argument the tool needs; extra display-only fields (diffs, current content) are fine.
 
-This applies to ALL approval types - emails, documents, PRs, etc. Always check for userData and use those values.
+**Handling user edits in approval responses**
+When the approval result contains a \`userData\` field, the user has edited the data during approval.
+For approvals that did not execute a tool (e.g. AskUser), use the values from \`userData\` to override your original data.
 
 ${workflowGuidance}
 
@@ -956,6 +1558,7 @@ ${toolsList}
 
 ## Tool Usage Guidelines
 - Use request_approval before any irreversible actions (sending emails, creating documents, etc.)
+- Approving a tool marked [Requires approval] runs it automatically with the approved data - do not call it again
 - When approval includes \`userData\`, use those values to override your original data
 
 ${workflowGuidance}`;
@@ -1025,19 +1628,26 @@ ${workflowGuidance}`;
     toolName: string,
     args: Record<string, unknown>,
     credentials: CredentialStore,
-    servers: MCPServerInfo[]
+    servers: MCPServerInfo[],
+    policies: ToolPolicyRule[],
+    runBindings: RunEnvBindings
   ): Promise<unknown> {
     const parts = toolName.split('__');
     if (parts.length !== 2) {
       throw new Error(`Invalid tool name format: ${toolName}`);
     }
 
+    const policyError = checkToolPolicy(policies, toolName, args);
+    if (policyError) {
+      throw new Error(policyError);
+    }
+
     const [serverName, method] = parts;
 
     const lookup = getMCPByServerName(serverName);
 
     if (lookup) {
-      return this.executeHostedMcpTool(lookup, method, args, credentials);
+      return this.executeHostedMcpTool(lookup, method, args, credentials, runBindings);
     }
 
     const remoteServer = servers.find(s => {
@@ -1060,7 +1670,8 @@ ${workflowGuidance}`;
     lookup: { account: AccountDefinition; mcp: { factory: (creds: MCPCredentials, env: MCPEnvBindings) => { callTool: (name: string, args: Record<string, unknown>) => Promise<unknown> } } },
     method: string,
     args: Record<string, unknown>,
-    credentials: CredentialStore
+    credentials: CredentialStore,
+    runBindings: RunEnvBindings
   ): Promise<unknown> {
     const { account, mcp } = lookup;
 
@@ -1079,7 +1690,7 @@ ${workflowGuidance}`;
       }
     }
 
-    const envBindings: MCPEnvBindings = {};
+    const envBindings: MCPEnvBindings = { ...runBindings };
     if (account.envBindingKeys) {
       for (const key of account.envBindingKeys) {
         const value = (this.env as Record<string, unknown>)[key];
@@ -1141,17 +1752,23 @@ ${workflowGuidance}`;
     const title = structured.title as string | undefined;
     const content = structured.content as WorkflowArtifact['content'] | undefined;
 
-    const [serverName] = toolName.split('__');
+    const [serverName, method] = toolName.split('__');
     const lookup = getMCPByServerName(serverName);
+    const artifactType = lookup?.mcp.toolArtifactTypes?.[method] ?? lookup?.mcp.artifactType;
 
-    if (!lookup?.mcp.artifactType) {
+    if (!lookup || !artifactType) {
       return url ? { type: 'other', url, title } : null;
     }
 
     if (lookup.mcp.artifactContentType === 'inline') {
-      return content ? { type: lookup.mcp.artifactType, title, content } : null;
+      return content ? { type: artifactType, title, content } : null;
+    }
+
+    if (artifactType === 'preview') {
+      const sessionId = structured.sessionId as string | undefined;
+      return url ? { type: 'preview', url, title, sessionId } : null;
     }
 
-    return url ? { type: lookup.mcp.artifactType, url, title } : null;
+    return url ? { type: artifactType, url, title } : null;
   }
 }
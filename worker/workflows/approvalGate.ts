@@ -0,0 +1,126 @@
+/**
+ * Approval gate for mutating tools
+ *
+ * Tools that change external state (sending email, writing documents,
+ * opening PRs) never run on the agent's say-so alone. AgentWorkflow routes
+ * them through runGatedToolCall(), which waits for the user's decision and
+ * only then executes the approved payload - the model gets no chance to
+ * alter it between approval and execution.
+ *
+ * Kept free of Workflow/DO imports so the gate can be unit tested.
+ */
+
+export interface GatedTool {
+  name: string;
+  inputSchema: Record<string, unknown>;
+  mutating?: boolean;
+}
+
+export interface GatedServer<T extends GatedTool = GatedTool> {
+  name: string;
+  tools: T[];
+}
+
+/** What the user is asked to approve */
+export interface ApprovalRequest {
+  tool: string;
+  action: string;
+  data: Record<string, unknown>;
+}
+
+/** The user's answer to an approval request */
+export interface ApprovalDecision {
+  action: 'approve' | 'request_changes' | 'cancel';
+  feedback?: string;
+  /** Values the user edited in the approval view */
+  userData?: Record<string, unknown>;
+}
+
+export interface GatedToolCallDeps<TResult> {
+  /** Create the checkpoint and wait for the user's decision */
+  waitForDecision: (request: ApprovalRequest) => Promise<ApprovalDecision>;
+  /** Execute the tool - only ever called after an approval */
+  execute: (args: Record<string, unknown>) => Promise<TResult>;
+}
+
+export interface GatedToolCallOutcome<TResult> {
+  decision: ApprovalDecision;
+  /** Arguments the tool was executed with (set only when approved) */
+  args?: Record<string, unknown>;
+  execution?: TResult;
+}
+
+/**
+ * Find a tool by its Claude tool name ("Server_Name__method")
+ */
+export function findServerTool<T extends GatedTool>(
+  servers: GatedServer<T>[],
+  toolName: string
+): T | undefined {
+  const [serverName, method] = toolName.split('__');
+  const server = servers.find((s) =>
+    s.name.replace(/\s+/g, '_') === serverName ||
+    s.name.replace(/[^a-zA-Z0-9]/g, '_') === serverName
+  );
+  return server?.tools.find((t) => t.name === method);
+}
+
+/**
+ * Check whether a tool call must go through the approval gate
+ */
+export function isMutatingToolCall(servers: GatedServer[], toolName: string): boolean {
+  return findServerTool(servers, toolName)?.mutating === true;
+}
+
+/**
+ * Flags of a remote tool from its cached schema. Tools cached before the
+ * mutating flag was recorded (null) must not skip approval or run in
+ * parallel, so unknown counts as mutating and not read-only.
+ */
+export function cachedRemoteToolFlags(mutating: boolean | null | undefined): { mutating: boolean; readOnly: boolean } {
+  return { mutating: mutating !== false, readOnly: mutating === false };
+}
+
+/**
+ * Build the arguments to execute from the approved data and the user's edits.
+ * Approval data may carry display-only fields (diffs, current content), so
+ * when the tool declares its properties only those are passed through.
+ */
+export function buildApprovedArgs(
+  data: Record<string, unknown>,
+  userData: Record<string, unknown> | undefined,
+  inputSchema: Record<string, unknown>
+): Record<string, unknown> {
+  const merged = { ...data, ...userData };
+  const properties = inputSchema.properties as Record<string, unknown> | undefined;
+  if (!properties) {
+    return merged;
+  }
+
+  const args: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(merged)) {
+    if (key in properties) {
+      args[key] = value;
+    }
+  }
+  return args;
+}
+
+/**
+ * Run a mutating tool call behind an approval.
+ * The tool executes exactly once, and only when the user approves.
+ */
+export async function runGatedToolCall<TResult>(
+  request: ApprovalRequest,
+  tool: GatedTool,
+  deps: GatedToolCallDeps<TResult>
+): Promise<GatedToolCallOutcome<TResult>> {
+  const decision = await deps.waitForDecision(request);
+  if (decision.action !== 'approve') {
+    return { decision };
+  }
+
+  const args = buildApprovedArgs(request.data, decision.userData, tool.inputSchema);
+  const execution = await deps.execute(args);
+  return { decision, args, execution };
+}
@@ -0,0 +1,80 @@
+/**
+ * Retrying and forking runs
+ *
+ * AgentWorkflow records the messages each turn added to the conversation
+ * (the assistant response plus the tool results sent back). A failed or
+ * cancelled run can then be retried from any turn, or forked with edited
+ * instructions: the new run is seeded with the earlier turns and picks up
+ * at the chosen one.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+import type { MessageParam } from '@anthropic-ai/sdk/resources/messages';
+
+/** Messages one turn added to the conversation, as stored in workflow_turns */
+export interface ConversationTurn {
+  turn: number;
+  messages: MessageParam[];
+}
+
+export type BranchMode = 'retry' | 'fork';
+
+/**
+ * Turn a step belongs to, from its id ("turn-3", "tool-3-toolu_...",
+ * "budget-turn-3-0"). Returns null for steps outside the turn loop.
+ */
+export function turnFromStepId(stepId: string): number | null {
+  const match = stepId.match(/^(?:budget-)?(?:turn|tool)-(\d+)(?:-|$)/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * The turn a branch starts at. Defaults to the turn after the last one that
+ * completed, i.e. where the earlier run stopped.
+ */
+export function resolveBranchTurn(
+  turns: ConversationTurn[],
+  requested?: number | null
+): { turn: number } | { error: string } {
+  const completed = completedTurnCount(turns);
+  if (requested === undefined || requested === null) {
+    return { turn: completed };
+  }
+  if (!Number.isInteger(requested) || requested < 0) {
+    return { error: 'fromTurn must be a non-negative integer' };
+  }
+  if (requested > completed) {
+    return { error: `The earlier run only completed ${completed} turn(s)` };
+  }
+  return { turn: requested };
+}
+
+/**
+ * Number of leading turns with recorded messages. A gap means that turn
+ * never finished, so later turns can't be replayed on top of it.
+ */
+export function completedTurnCount(turns: ConversationTurn[]): number {
+  const recorded = new Set(turns.map((t) => t.turn));
+  let count = 0;
+  while (recorded.has(count)) count++;
+  return count;
+}
+
+/**
+ * Rebuild the conversation a branch starts from: the (possibly edited)
+ * instructions followed by every recorded turn before `fromTurn`.
+ */
+export function buildSeedConversation(
+  instructions: string,
+  turns: ConversationTurn[],
+  fromTurn: number
+): MessageParam[] {
+  return [
+    { role: 'user', content: instructions },
+    ...turns
+      .filter((t) => t.turn < fromTurn)
+      .sort((a, b) => a.turn - b.turn)
+      .flatMap((t) => t.messages),
+  ];
+}
@@ -0,0 +1,172 @@
+/**
+ * Run budgets
+ *
+ * Budgets cap how much an agent run may consume: turns, tokens, dollars,
+ * active run time and calls per tool. They can be set for the user
+ * (the '__global__' container), the project and the agent; more specific
+ * layers override less specific ones field by field.
+ *
+ * When a limit is reached AgentWorkflow pauses in a 'budget_exceeded'
+ * checkpoint instead of failing, so the user can raise it and continue.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+export interface AgentBudget {
+  maxTurns?: number | null;
+  /** Input, output and cache tokens combined */
+  maxTokens?: number | null;
+  maxCostUsd?: number | null;
+  /** Active run time - time spent waiting for the user is not counted */
+  maxDurationMinutes?: number | null;
+  /** Keyed by Claude tool name ("Server__method"); '*' caps all tool calls */
+  maxToolCalls?: Record<string, number> | null;
+}
+
+export type BudgetLimit = 'maxTurns' | 'maxTokens' | 'maxCostUsd' | 'maxDurationMinutes' | 'maxToolCalls';
+
+/** What a run has consumed so far */
+export interface BudgetUsage {
+  turns: number;
+  tokens: number;
+  costUsd: number;
+  durationMs: number;
+  toolCalls: Record<string, number>;
+}
+
+export interface BudgetExceeded {
+  limit: BudgetLimit;
+  /** Key in maxToolCalls, for tool call limits */
+  toolName?: string;
+  used: number;
+  max: number;
+  message: string;
+}
+
+/** Applied when no layer sets maxTurns (the old hard-coded loop limit) */
+export const DEFAULT_MAX_TURNS = 50;
+
+export const ANY_TOOL_CALL = '*';
+
+const SCALAR_LIMITS: Array<Exclude<BudgetLimit, 'maxToolCalls'>> = [
+  'maxTurns',
+  'maxTokens',
+  'maxCostUsd',
+  'maxDurationMinutes',
+];
+
+export function emptyBudgetUsage(): BudgetUsage {
+  return { turns: 0, tokens: 0, costUsd: 0, durationMs: 0, toolCalls: {} };
+}
+
+/**
+ * Merge budget layers from least to most specific (user, project, agent).
+ * Unset fields fall through; tool call limits merge per tool.
+ */
+export function mergeBudgets(...layers: Array<AgentBudget | null | undefined>): AgentBudget {
+  const merged: AgentBudget = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const key of SCALAR_LIMITS) {
+      const value = layer[key];
+      if (typeof value === 'number') {
+        merged[key] = value;
+      }
+    }
+    if (layer.maxToolCalls) {
+      merged.maxToolCalls = { ...merged.maxToolCalls, ...layer.maxToolCalls };
+    }
+  }
+  return merged;
+}
+
+/**
+ * The budget a run actually uses: the merged layers plus the default turn limit
+ */
+export function resolveBudget(budget: AgentBudget | null | undefined): AgentBudget {
+  return mergeBudgets({ maxTurns: DEFAULT_MAX_TURNS }, budget);
+}
+
+/**
+ * Validate a budget from user input. Returns an error message or null.
+ */
+export function validateBudget(budget: AgentBudget): string | null {
+  for (const key of SCALAR_LIMITS) {
+    const value = budget[key];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      return `${key} must be a positive number`;
+    }
+  }
+  for (const [tool, value] of Object.entries(budget.maxToolCalls || {})) {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+      return `maxToolCalls.${tool} must be a positive integer`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check the run-wide limits before starting another turn
+ */
+export function checkTurnBudget(budget: AgentBudget, usage: BudgetUsage): BudgetExceeded | null {
+  const checks: Array<{ limit: Exclude<BudgetLimit, 'maxToolCalls'>; used: number; label: (max: number) => string }> = [
+    { limit: 'maxTurns', used: usage.turns, label: (max) => `${max} turns` },
+    { limit: 'maxTokens', used: usage.tokens, label: (max) => `${max.toLocaleString('en-US')} tokens` },
+    { limit: 'maxCostUsd', used: usage.costUsd, label: (max) => `$${max.toFixed(2)}` },
+    { limit: 'maxDurationMinutes', used: usage.durationMs / 60_000, label: (max) => `${max} minutes` },
+  ];
+
+  for (const { limit, used, label } of checks) {
+    const max = budget[limit];
+    if (typeof max === 'number' && used >= max) {
+      return { limit, used, max, message: `Budget reached: ${label(max)}` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check the tool call limits before calling a tool
+ */
+export function checkToolBudget(budget: AgentBudget, usage: BudgetUsage, toolName: string): BudgetExceeded | null {
+  const limits = budget.maxToolCalls || {};
+
+  const toolMax = limits[toolName];
+  const toolUsed = usage.toolCalls[toolName] || 0;
+  if (typeof toolMax === 'number' && toolUsed >= toolMax) {
+    return {
+      limit: 'maxToolCalls',
+      toolName,
+      used: toolUsed,
+      max: toolMax,
+      message: `Budget reached: ${toolMax} calls to ${toolName}`,
+    };
+  }
+
+  const anyMax = limits[ANY_TOOL_CALL];
+  const anyUsed = Object.values(usage.toolCalls).reduce((sum, n) => sum + n, 0);
+  if (typeof anyMax === 'number' && anyUsed >= anyMax) {
+    return {
+      limit: 'maxToolCalls',
+      toolName: ANY_TOOL_CALL,
+      used: anyUsed,
+      max: anyMax,
+      message: `Budget reached: ${anyMax} tool calls`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Usage as it will be once calls that are about to start in parallel have
+ * run, so a batch can't overshoot a tool call limit
+ */
+export function withPendingToolCalls(usage: BudgetUsage, toolNames: string[]): BudgetUsage {
+  const toolCalls = { ...usage.toolCalls };
+  for (const name of toolNames) {
+    toolCalls[name] = (toolCalls[name] || 0) + 1;
+  }
+  return { ...usage, toolCalls };
+}
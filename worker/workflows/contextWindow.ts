@@ -0,0 +1,148 @@
+/**
+ * Prompt caching and context window management
+ *
+ * Every turn re-sends the system prompt, the tool schemas and the whole
+ * conversation. Cache breakpoints let the API reuse that prefix instead of
+ * billing it again in full, and compactToolResults() keeps long runs inside
+ * the context window by shortening old tool results. The full results stay
+ * on the plan's tool steps.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+import type {
+  ContentBlockParam,
+  MessageParam,
+  TextBlockParam,
+  Tool,
+} from '@anthropic-ai/sdk/resources/messages';
+
+export interface ContextWindowOptions {
+  /** Start shortening old tool results above this many (estimated) tokens */
+  maxContextTokens: number;
+  /** The most recent tool result messages are always sent in full */
+  keepRecentToolResults: number;
+  /** Characters of each shortened result kept as a preview */
+  previewChars: number;
+}
+
+export const DEFAULT_CONTEXT_WINDOW_OPTIONS: ContextWindowOptions = {
+  maxContextTokens: 100_000,
+  keepRecentToolResults: 2,
+  previewChars: 1_000,
+};
+
+/** Rough characters-per-token ratio; close enough for a compaction threshold */
+const CHARS_PER_TOKEN = 4;
+
+const CACHE_CONTROL = { type: 'ephemeral' } as const;
+
+const TRUNCATION_MARKER = '[Result shortened';
+
+export interface CompactionResult {
+  messages: MessageParam[];
+  /** Number of tool results shortened by this call */
+  compacted: number;
+}
+
+/**
+ * Estimate the token count of a prompt from its serialized size
+ */
+export function estimateTokens(...parts: unknown[]): number {
+  const chars = parts.reduce<number>(
+    (sum, part) => sum + (typeof part === 'string' ? part.length : JSON.stringify(part).length),
+    0
+  );
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+function shortenToolResult(content: string, previewChars: number): string {
+  return `${content.slice(0, previewChars)}\n\n${TRUNCATION_MARKER}: showing ${previewChars} of ${content.length} characters to save context. Call the tool again if you need the full output.]`;
+}
+
+/**
+ * Shorten tool results from older turns, oldest first, until the prompt fits
+ * under the threshold. Results already shortened stay shortened, so the
+ * conversation prefix stays stable for prompt caching.
+ *
+ * @param fixedTokens - tokens taken by the system prompt and tool schemas
+ */
+export function compactToolResults(
+  messages: MessageParam[],
+  fixedTokens: number,
+  options: ContextWindowOptions = DEFAULT_CONTEXT_WINDOW_OPTIONS
+): CompactionResult {
+  let total = fixedTokens + estimateTokens(messages);
+  if (total <= options.maxContextTokens) {
+    return { messages, compacted: 0 };
+  }
+
+  const toolResultIndexes = messages
+    .map((message, index) => ({ message, index }))
+    .filter(({ message }) => Array.isArray(message.content) &&
+      message.content.some((block) => block.type === 'tool_result'))
+    .map(({ index }) => index);
+  const eligible = toolResultIndexes.slice(0, Math.max(0, toolResultIndexes.length - options.keepRecentToolResults));
+
+  const result = [...messages];
+  let compacted = 0;
+
+  for (const index of eligible) {
+    if (total <= options.maxContextTokens) break;
+
+    const content = (result[index].content as ContentBlockParam[]).map((block) => {
+      if (
+        block.type !== 'tool_result' ||
+        typeof block.content !== 'string' ||
+        block.content.length <= options.previewChars ||
+        block.content.includes(TRUNCATION_MARKER)
+      ) {
+        return block;
+      }
+      const shortened = shortenToolResult(block.content, options.previewChars);
+      total -= estimateTokens(block.content) - estimateTokens(shortened);
+      compacted++;
+      return { ...block, content: shortened };
+    });
+    result[index] = { ...result[index], content };
+  }
+
+  return { messages: result, compacted };
+}
+
+/**
+ * Cache the system prompt (which also covers the tool schemas ahead of it)
+ */
+export function cachedSystemPrompt(systemPrompt: string): TextBlockParam[] {
+  return [{ type: 'text', text: systemPrompt, cache_control: CACHE_CONTROL }];
+}
+
+/**
+ * Put a cache breakpoint on the last tool schema
+ */
+export function cachedTools(tools: Tool[]): Tool[] {
+  if (tools.length === 0) return tools;
+  return [...tools.slice(0, -1), { ...tools[tools.length - 1], cache_control: CACHE_CONTROL }];
+}
+
+/**
+ * Put a cache breakpoint at the end of the conversation so the next turn
+ * reads everything up to here from the cache. Returns copies; the stored
+ * conversation is left untouched.
+ */
+export function cachedMessages(messages: MessageParam[]): MessageParam[] {
+  if (messages.length === 0) return messages;
+
+  const last = messages[messages.length - 1];
+  const blocks: ContentBlockParam[] = typeof last.content === 'string'
+    ? [{ type: 'text', text: last.content }]
+    : [...last.content];
+  if (blocks.length === 0) return messages;
+
+  const lastBlock = blocks[blocks.length - 1];
+  // Thinking blocks can't carry cache_control
+  if (lastBlock.type === 'thinking' || lastBlock.type === 'redacted_thinking') return messages;
+  blocks[blocks.length - 1] = { ...lastBlock, cache_control: CACHE_CONTROL };
+
+  return [...messages.slice(0, -1), { ...last, content: blocks }];
+}
@@ -0,0 +1,162 @@
+/**
+ * Task dependencies
+ *
+ * A task's context.dependsOn lists tasks that must complete before its agent
+ * runs. Blocked tasks can be queued to start automatically once the last
+ * dependency completes. The agent's first message carries the task context
+ * plus the final summary and artifacts of each dependency.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+/** Mirrors TaskContext on the client */
+export interface TaskContext {
+  instructions?: string;
+  references?: string[];
+  expectedOutputs?: string[];
+  constraints?: string[];
+  dependsOn?: string[];
+}
+
+/** A blocked task waiting to start once its dependencies complete */
+export interface QueuedStart {
+  /** Board the task lives on (a project id or a user's task container) */
+  boardId: string;
+  userId: string;
+  agentId: string | null;
+  queuedAt: string;
+}
+
+export interface DependencyArtifact {
+  type: string;
+  url?: string;
+  title?: string;
+  description?: string;
+}
+
+/** A dependency of a task, with the outcome of its latest run */
+export interface TaskDependency {
+  taskId: string;
+  title: string;
+  /** Status of the dependency's latest plan, or null if it never ran */
+  status: string | null;
+  summary: string | null;
+  artifacts: DependencyArtifact[];
+}
+
+/** Longest summary passed on from a dependency */
+const MAX_DEPENDENCY_SUMMARY_CHARS = 4_000;
+
+export function parseTaskContext(raw: unknown): TaskContext {
+  if (!raw) return {};
+  if (typeof raw === 'string') {
+    try {
+      return JSON.parse(raw) as TaskContext;
+    } catch {
+      return {};
+    }
+  }
+  return raw as TaskContext;
+}
+
+export function dependencyIds(context: TaskContext | null | undefined): string[] {
+  return Array.isArray(context?.dependsOn) ? [...new Set(context.dependsOn)] : [];
+}
+
+/**
+ * Dependencies that haven't completed yet
+ */
+export function blockingDependencies(dependencies: TaskDependency[]): TaskDependency[] {
+  return dependencies.filter((d) => d.status !== 'completed');
+}
+
+/**
+ * Check a task's new dependency list against the rest of the board.
+ * Returns an error message, or null.
+ *
+ * @param graph - every task on the board mapped to the ids it depends on
+ */
+export function validateDependencies(
+  graph: Record<string, string[]>,
+  taskId: string,
+  dependsOn: string[]
+): string | null {
+  if (dependsOn.includes(taskId)) {
+    return 'A task cannot depend on itself';
+  }
+  const unknown = dependsOn.filter((id) => !(id in graph));
+  if (unknown.length > 0) {
+    return `Unknown task(s): ${unknown.join(', ')}`;
+  }
+
+  // Adding taskId -> dependsOn creates a cycle if any of them already reaches taskId
+  const updated = { ...graph, [taskId]: dependsOn };
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const reachesTask = (id: string): boolean => {
+    if (id === taskId) return true;
+    if (done.has(id) || visiting.has(id)) return false;
+    visiting.add(id);
+    const found = (updated[id] || []).some(reachesTask);
+    visiting.delete(id);
+    done.add(id);
+    return found;
+  };
+
+  if (dependsOn.some(reachesTask)) {
+    return 'These dependencies would create a cycle';
+  }
+  return null;
+}
+
+function bulletList(heading: string, items: string[] | undefined): string | null {
+  const filled = (items || []).filter((item) => item.trim());
+  return filled.length > 0 ? `${heading}\n${filled.map((item) => `- ${item}`).join('\n')}` : null;
+}
+
+function describeDependency(dependency: TaskDependency): string {
+  const lines = [`### ${dependency.title}`];
+  if (dependency.summary) {
+    const summary = dependency.summary.length > MAX_DEPENDENCY_SUMMARY_CHARS
+      ? `${dependency.summary.slice(0, MAX_DEPENDENCY_SUMMARY_CHARS)}...`
+      : dependency.summary;
+    lines.push(summary);
+  }
+  for (const artifact of dependency.artifacts) {
+    const label = artifact.title || artifact.description || artifact.type;
+    lines.push(artifact.url ? `- ${label}: ${artifact.url}` : `- ${label}`);
+  }
+  if (lines.length === 1) {
+    lines.push('Completed without a summary.');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Build the agent's first message from the task, its context, and the
+ * results of the tasks it depends on
+ */
+export function buildTaskPrompt(
+  task: { title: string; description?: string | null; context?: unknown },
+  dependencies: TaskDependency[] = []
+): string {
+  const context = parseTaskContext(task.context);
+  const sections = [
+    task.title && task.description
+      ? `${task.title}\n\n${task.description}`
+      : task.title || task.description || 'No task description provided',
+    context.instructions?.trim() ? `Instructions:\n${context.instructions.trim()}` : null,
+    bulletList('References:', context.references),
+    bulletList('Expected outputs:', context.expectedOutputs),
+    bulletList('Constraints:', context.constraints),
+  ];
+
+  const completed = dependencies.filter((d) => d.status === 'completed');
+  if (completed.length > 0) {
+    sections.push(
+      `This task builds on earlier tasks. Their results:\n\n${completed.map(describeDependency).join('\n\n')}`
+    );
+  }
+
+  return sections.filter((s): s is string => !!s).join('\n\n');
+}
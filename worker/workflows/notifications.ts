@@ -0,0 +1,339 @@
+/**
+ * Outbound notifications for run events
+ *
+ * When a run asks for approval, finishes, fails or hits its budget, the
+ * project's BoardDO builds a notification and hands it to the user's
+ * container, which holds their channels, per-project mutes and digest
+ * setting. Channels are:
+ * - web_push: a browser push subscription (one per browser)
+ * - email: sent from the user's connected Gmail account
+ * - webhook: a JSON POST, shaped for Slack, Discord or plain JSON
+ *
+ * With digest mode on, notifications are queued and sent together on the
+ * hour (hourly) or at a set local hour (daily) instead of one by one.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+import { escapeHtml } from '../google/mimeMessage';
+
+export type NotificationEventType = 'checkpoint' | 'completed' | 'failed' | 'budget_exceeded';
+
+export const NOTIFICATION_EVENTS: NotificationEventType[] = ['checkpoint', 'completed', 'failed', 'budget_exceeded'];
+
+export type NotificationChannelType = 'web_push' | 'email' | 'webhook';
+
+export const NOTIFICATION_CHANNEL_TYPES: NotificationChannelType[] = ['web_push', 'email', 'webhook'];
+
+export type WebhookFormat = 'slack' | 'discord' | 'json';
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ['slack', 'discord', 'json'];
+
+/** A browser's PushSubscription, as returned by `subscription.toJSON()` */
+export interface PushSubscriptionConfig {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface NotificationChannelConfig {
+  /** web_push */
+  subscription?: PushSubscriptionConfig;
+  /** email: recipient address */
+  to?: string;
+  /** webhook */
+  url?: string;
+  format?: WebhookFormat;
+}
+
+export interface NotificationChannelInput {
+  type: NotificationChannelType;
+  name: string;
+  enabled?: boolean;
+  /** Events to send; every event when empty */
+  events?: NotificationEventType[];
+  config: NotificationChannelConfig;
+}
+
+export interface NotificationChannel {
+  id: string;
+  type: NotificationChannelType;
+  name: string;
+  enabled: boolean;
+  events: NotificationEventType[];
+  config: NotificationChannelConfig;
+  /** Origin of the app, for links back to the task */
+  appUrl: string | null;
+  lastSentAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DigestMode = 'off' | 'hourly' | 'daily';
+
+export const DIGEST_MODES: DigestMode[] = ['off', 'hourly', 'daily'];
+
+export interface NotificationSettings {
+  digest: DigestMode;
+  /** Local hour (0-23) daily digests go out */
+  digestHour: number;
+  timezone: string;
+  /** When queued notifications are next sent, if any are queued */
+  nextDigestAt: string | null;
+}
+
+/** A user's mute for one project */
+export interface NotificationMute {
+  projectId: string;
+  /** Muted events; every event when empty */
+  events: NotificationEventType[];
+}
+
+export interface Notification {
+  id: string;
+  event: NotificationEventType;
+  projectId: string;
+  projectName: string;
+  taskId: string;
+  taskTitle: string;
+  planId: string;
+  /** Error, summary or checkpoint question, when there is one */
+  detail: string | null;
+  createdAt: string;
+}
+
+/** A notification rendered for a channel */
+export interface NotificationMessage {
+  title: string;
+  body: string;
+  /** Link to the task, when the app's URL is known */
+  url: string | null;
+}
+
+const EVENT_LABELS: Record<NotificationEventType, string> = {
+  checkpoint: 'needs approval',
+  completed: 'completed',
+  failed: 'failed',
+  budget_exceeded: 'reached its budget',
+};
+
+/** Longest detail text carried in a notification */
+const MAX_DETAIL_LENGTH = 500;
+
+/**
+ * The event a plan status change should notify about, if any. Failures
+ * only count when the run was working - not when the user cancelled or
+ * rejected it from a checkpoint.
+ */
+export function notificationEventFor(previousStatus: string | null, status: string): NotificationEventType | null {
+  if (previousStatus === status) return null;
+  switch (status) {
+    case 'checkpoint':
+    case 'completed':
+    case 'budget_exceeded':
+      return status;
+    case 'failed':
+      return previousStatus === 'executing' ? 'failed' : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check a channel, returning an error message or null
+ */
+export function validateNotificationChannel(input: NotificationChannelInput): string | null {
+  if (!NOTIFICATION_CHANNEL_TYPES.includes(input.type)) {
+    return `type must be one of: ${NOTIFICATION_CHANNEL_TYPES.join(', ')}`;
+  }
+  if (!input.name?.trim()) {
+    return 'name is required';
+  }
+  for (const event of input.events || []) {
+    if (!NOTIFICATION_EVENTS.includes(event)) {
+      return `Unknown event "${event}"`;
+    }
+  }
+
+  const config = input.config || {};
+  switch (input.type) {
+    case 'web_push':
+      if (!config.subscription?.endpoint?.startsWith('https://') || !config.subscription.keys?.p256dh || !config.subscription.keys?.auth) {
+        return 'A push subscription with an https endpoint and keys is required';
+      }
+      break;
+    case 'email':
+      if (!config.to || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(config.to.trim())) {
+        return 'A valid email address is required';
+      }
+      break;
+    case 'webhook':
+      if (!config.url?.startsWith('https://')) {
+        return 'Webhook URL must start with https://';
+      }
+      if (config.format && !WEBHOOK_FORMATS.includes(config.format)) {
+        return `format must be one of: ${WEBHOOK_FORMATS.join(', ')}`;
+      }
+      break;
+  }
+  return null;
+}
+
+/**
+ * Check digest settings, returning an error message or null
+ */
+export function validateNotificationSettings(settings: Pick<NotificationSettings, 'digest' | 'digestHour' | 'timezone'>): string | null {
+  if (!DIGEST_MODES.includes(settings.digest)) {
+    return `digest must be one of: ${DIGEST_MODES.join(', ')}`;
+  }
+  if (!Number.isInteger(settings.digestHour) || settings.digestHour < 0 || settings.digestHour > 23) {
+    return 'digestHour must be a whole hour from 0 to 23';
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: settings.timezone });
+  } catch {
+    return `Unknown timezone "${settings.timezone}"`;
+  }
+  return null;
+}
+
+/**
+ * Cron expression for when digests go out
+ */
+export function digestCron(settings: Pick<NotificationSettings, 'digest' | 'digestHour'>): string {
+  return settings.digest === 'daily' ? `0 ${settings.digestHour} * * *` : '0 * * * *';
+}
+
+/**
+ * Whether a channel should send an event
+ */
+export function channelWants(channel: Pick<NotificationChannel, 'enabled' | 'events'>, event: NotificationEventType): boolean {
+  return channel.enabled && (channel.events.length === 0 || channel.events.includes(event));
+}
+
+/**
+ * Whether a project mute silences an event
+ */
+export function isMuted(mute: NotificationMute | null, event: NotificationEventType): boolean {
+  if (!mute) return false;
+  return mute.events.length === 0 || mute.events.includes(event);
+}
+
+/**
+ * Shorten free text (errors, summaries) for a notification
+ */
+export function notificationDetail(text: string | null | undefined): string | null {
+  const trimmed = text?.replace(/\s+/g, ' ').trim();
+  if (!trimmed) return null;
+  return trimmed.length > MAX_DETAIL_LENGTH ? `${trimmed.slice(0, MAX_DETAIL_LENGTH - 1)}…` : trimmed;
+}
+
+/**
+ * The part of a plan worth showing with its notification: the approval
+ * asked for, the budget limit hit, the run's summary or its error
+ */
+export function planDetail(
+  event: NotificationEventType,
+  plan: { summary: string | null; checkpointData: object | null; result: object | null }
+): string | null {
+  const checkpoint = plan.checkpointData as { action?: string; exceeded?: { message?: string } } | null;
+  const result = plan.result as { error?: string } | null;
+  switch (event) {
+    case 'checkpoint':
+      return notificationDetail(checkpoint?.action);
+    case 'budget_exceeded':
+      return notificationDetail(checkpoint?.exceeded?.message);
+    case 'completed':
+      return notificationDetail(plan.summary);
+    case 'failed':
+      return notificationDetail(result?.error);
+  }
+}
+
+/**
+ * Link to a task. Standalone tasks live in the user's container.
+ */
+export function taskUrl(appUrl: string | null, notification: Pick<Notification, 'projectId' | 'taskId'>): string | null {
+  if (!appUrl) return null;
+  const base = appUrl.replace(/\/+$/, '');
+  const task = encodeURIComponent(notification.taskId);
+  return notification.projectId.startsWith('user-tasks-')
+    ? `${base}/tasks?task=${task}`
+    : `${base}/project/${encodeURIComponent(notification.projectId)}?task=${task}`;
+}
+
+/**
+ * Title, body and link for a single notification
+ */
+export function formatNotification(notification: Notification, appUrl: string | null): NotificationMessage {
+  return {
+    title: `"${notification.taskTitle}" ${EVENT_LABELS[notification.event]}`,
+    body: [notification.projectName, notification.detail].filter(Boolean).join(' - '),
+    url: taskUrl(appUrl, notification),
+  };
+}
+
+/**
+ * Title and body for several notifications sent together
+ */
+export function formatDigest(notifications: Notification[], appUrl: string | null): NotificationMessage {
+  if (notifications.length === 1) {
+    return formatNotification(notifications[0], appUrl);
+  }
+
+  const lines = notifications.map((n) => {
+    const message = formatNotification(n, appUrl);
+    return `- ${message.title} (${n.projectName})${message.url ? ` ${message.url}` : ''}`;
+  });
+  return {
+    title: `${notifications.length} agent updates`,
+    body: lines.join('\n'),
+    url: appUrl ? appUrl.replace(/\/+$/, '') : null,
+  };
+}
+
+/**
+ * JSON body for a webhook channel. Slack reads `text`, Discord reads
+ * `content`; plain JSON carries the notifications themselves.
+ */
+export function webhookPayload(format: WebhookFormat, notifications: Notification[], appUrl: string | null): Record<string, unknown> {
+  const message = formatDigest(notifications, appUrl);
+
+  switch (format) {
+    case 'slack': {
+      const link = message.url ? `<${message.url}|${message.title}>` : message.title;
+      return { text: notifications.length === 1 ? [link, message.body].filter(Boolean).join('\n') : `${message.title}\n${message.body}` };
+    }
+    case 'discord': {
+      const title = message.url && notifications.length === 1 ? `[${message.title}](${message.url})` : message.title;
+      return { content: [`**${title}**`, message.body].filter(Boolean).join('\n').slice(0, 2000) };
+    }
+    case 'json':
+      return {
+        text: `${message.title}${message.body ? `\n${message.body}` : ''}`,
+        notifications: notifications.map((n) => ({ ...n, url: taskUrl(appUrl, n) })),
+      };
+  }
+}
+
+/**
+ * Subject and bodies for an email channel
+ */
+export function emailContent(notifications: Notification[], appUrl: string | null): { subject: string; text: string; html: string } {
+  const items = notifications.map((n) => formatNotification(n, appUrl));
+  const subject = notifications.length === 1 ? items[0].title : `${notifications.length} agent updates`;
+
+  const text = items
+    .map((item) => [item.title, item.body, item.url].filter(Boolean).join('\n'))
+    .join('\n\n');
+  const html = items
+    .map((item) => {
+      const title = item.url
+        ? `<a href="${escapeHtml(item.url)}">${escapeHtml(item.title)}</a>`
+        : escapeHtml(item.title);
+      return `<p><strong>${title}</strong>${item.body ? `<br>${escapeHtml(item.body)}` : ''}</p>`;
+    })
+    .join('\n');
+
+  return { subject, text, html };
+}
@@ -0,0 +1,145 @@
+/**
+ * Sandbox file rules
+ *
+ * Reviewers browse and download files from a run's live sandbox session,
+ * and agents publish sandbox files as `file` artifacts. A published file is
+ * copied out of the container so it outlives the session: small files are
+ * kept in the board's storage, larger ones in the R2 bucket.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+export type SandboxFileType = 'file' | 'directory' | 'symlink' | 'other';
+
+export interface SandboxFileEntry {
+  name: string;
+  /** Path relative to the session's working directory */
+  path: string;
+  type: SandboxFileType;
+  size: number;
+  modifiedAt: string;
+}
+
+export interface SandboxFileListing {
+  sessionId: string;
+  workDir: string;
+  /** Directory listed, relative to the working directory ('' for the root) */
+  path: string;
+  entries: SandboxFileEntry[];
+}
+
+export type PublishedFileStorage = 'inline' | 'r2';
+
+export interface PublishedFile {
+  id: string;
+  projectId: string;
+  planId: string | null;
+  taskId: string | null;
+  sessionId: string | null;
+  name: string;
+  /** Where the file was in the sandbox */
+  path: string;
+  mimeType: string;
+  size: number;
+  storage: PublishedFileStorage;
+  /** Path of the download route on the app */
+  url: string;
+  createdAt: string;
+}
+
+/** Everything under here belongs to sandbox sessions */
+export const WORKSPACE_ROOT = '/workspace';
+
+/** Files up to this size are kept in the board's storage */
+export const INLINE_FILE_MAX_BYTES = 1024 * 1024;
+
+/** Largest file that can be published (it is copied through the Worker) */
+export const MAX_PUBLISHED_FILE_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Absolute path of a file in a session, or null if it would leave the
+ * workspace. Relative paths resolve against the working directory.
+ */
+export function resolveWorkspacePath(workDir: string, path: string): string | null {
+  const joined = path.startsWith('/') ? path : `${workDir}/${path}`;
+  const parts: string[] = [];
+  for (const part of joined.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  const resolved = `/${parts.join('/')}`;
+  return resolved === WORKSPACE_ROOT || resolved.startsWith(`${WORKSPACE_ROOT}/`) ? resolved : null;
+}
+
+/**
+ * A path as shown to the user: relative to the working directory when
+ * inside it, absolute otherwise
+ */
+export function relativeWorkspacePath(workDir: string, absolutePath: string): string {
+  if (absolutePath === workDir) return '';
+  return absolutePath.startsWith(`${workDir}/`) ? absolutePath.slice(workDir.length + 1) : absolutePath;
+}
+
+/**
+ * Directories first, then by name
+ */
+export function sortFileEntries(entries: SandboxFileEntry[]): SandboxFileEntry[] {
+  return [...entries].sort((a, b) => {
+    if ((a.type === 'directory') !== (b.type === 'directory')) return a.type === 'directory' ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Where a published file of this size is kept, or why it can't be published
+ */
+export function choosePublishedFileStorage(
+  size: number,
+  hasBucket: boolean
+): { storage: PublishedFileStorage } | { error: string } {
+  if (size > MAX_PUBLISHED_FILE_BYTES) {
+    return { error: `File is too large to publish (${formatBytes(size)}, limit ${formatBytes(MAX_PUBLISHED_FILE_BYTES)})` };
+  }
+  if (size <= INLINE_FILE_MAX_BYTES) return { storage: 'inline' };
+  if (!hasBucket) {
+    return { error: `Files over ${formatBytes(INLINE_FILE_MAX_BYTES)} need an R2 bucket bound as ARTIFACTS` };
+  }
+  return { storage: 'r2' };
+}
+
+/**
+ * Key of a published file in the R2 bucket
+ */
+export function publishedFileKey(projectId: string, fileId: string): string {
+  return `sandbox-files/${projectId}/${fileId}`;
+}
+
+/**
+ * Path of a published file's download route. Standalone tasks live in the
+ * user's container, so their files hang off the task routes.
+ */
+export function publishedFileUrl(projectId: string, taskId: string | null, fileId: string): string {
+  const file = encodeURIComponent(fileId);
+  if (projectId.startsWith('user-tasks-') && taskId) {
+    return `/api/tasks/${encodeURIComponent(taskId)}/files/${file}`;
+  }
+  return `/api/projects/${encodeURIComponent(projectId)}/files/${file}`;
+}
+
+/**
+ * Content-Disposition for downloading a file under its own name
+ */
+export function attachmentDisposition(name: string): string {
+  const fallback = name.replace(/[^\w.-]/g, '_') || 'download';
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
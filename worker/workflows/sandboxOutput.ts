@@ -0,0 +1,297 @@
+/**
+ * Live sandbox output
+ *
+ * Sandbox tools (exec, runClaude) write their stdout and stderr to a sink
+ * as it is produced. The workflow batches the chunks and sends them to the
+ * board's BoardDO, which stores them as the step's transcript and
+ * broadcasts them so the run's terminal pane updates live. Claude Code is
+ * run with `--output-format stream-json`; its events are rendered as
+ * readable lines here before they reach the transcript.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+export type SandboxOutputStream = 'stdout' | 'stderr' | 'system';
+
+export interface SandboxOutputChunk {
+  /** system: lines added by the tool itself (the command, exit code) */
+  stream: SandboxOutputStream;
+  text: string;
+}
+
+/** Receives output from a sandbox tool as it runs */
+export type SandboxOutputSink = (chunk: SandboxOutputChunk) => void;
+
+/** Stored transcript of one tool step, as sent to the UI */
+export interface SandboxStepOutput {
+  planId: string;
+  stepId: string;
+  toolName: string;
+  /** The end of the transcript; the full text is downloaded separately */
+  chunks: SandboxOutputChunk[];
+  /** Total characters stored for the step */
+  size: number;
+  truncated: boolean;
+  updatedAt: string;
+}
+
+/** Longest transcript kept for one step */
+export const MAX_TRANSCRIPT_CHARS = 1_000_000;
+
+/** How much of a transcript is sent when the UI loads a run */
+export const OUTPUT_TAIL_CHARS = 20_000;
+
+/** Batches are sent at least this often while a tool is writing */
+export const OUTPUT_FLUSH_INTERVAL_MS = 250;
+
+/** A batch is sent early once it holds this many characters */
+export const OUTPUT_FLUSH_CHARS = 4_000;
+
+export const TRUNCATION_MARKER = '\n[Output truncated: the transcript limit was reached]\n';
+
+/** Final outcome of a Claude Code run, from its `result` event */
+export interface ClaudeRunResult {
+  text: string;
+  isError: boolean;
+  turns: number | null;
+  costUsd: number | null;
+}
+
+export interface ClaudeStreamLine {
+  /** Readable text for the transcript, if the line shows anything */
+  text: string | null;
+  result?: ClaudeRunResult;
+}
+
+/** Tool input fields that best describe a Claude Code tool call */
+const TOOL_SUMMARY_FIELDS = ['command', 'file_path', 'path', 'pattern', 'url', 'query', 'description'];
+
+const MAX_SUMMARY_LENGTH = 120;
+
+/**
+ * Render one line of Claude Code's stream-json output. Lines that aren't
+ * JSON (warnings printed before the stream starts) pass through as they are.
+ */
+export function parseClaudeStreamLine(line: string): ClaudeStreamLine {
+  if (!line.trim()) return { text: null };
+
+  let event: Record<string, unknown>;
+  try {
+    event = JSON.parse(line);
+  } catch {
+    return { text: `${line}\n` };
+  }
+  if (!event || typeof event !== 'object') {
+    return { text: `${line}\n` };
+  }
+
+  switch (event.type) {
+    case 'system':
+      return event.subtype === 'init'
+        ? { text: `Claude Code started${event.model ? ` (${event.model})` : ''}\n` }
+        : { text: null };
+
+    case 'assistant': {
+      const lines = contentBlocks(event).flatMap((block) => {
+        if (block.type === 'text' && typeof block.text === 'string' && block.text.trim()) {
+          return [block.text.trimEnd()];
+        }
+        if (block.type === 'tool_use' && typeof block.name === 'string') {
+          const summary = summarizeToolInput(block.input);
+          return [`→ ${block.name}${summary ? ` ${summary}` : ''}`];
+        }
+        return [];
+      });
+      return { text: lines.length ? `${lines.join('\n')}\n` : null };
+    }
+
+    case 'user': {
+      // Successful tool results are noise in a terminal; failures are worth seeing
+      const lines = contentBlocks(event)
+        .filter((block) => block.type === 'tool_result' && block.is_error)
+        .map((block) => `  ✗ ${firstLine(toolResultText(block.content))}`);
+      return { text: lines.length ? `${lines.join('\n')}\n` : null };
+    }
+
+    case 'result': {
+      const result: ClaudeRunResult = {
+        text: typeof event.result === 'string' ? event.result : '',
+        isError: event.is_error === true || (typeof event.subtype === 'string' && event.subtype !== 'success'),
+        turns: typeof event.num_turns === 'number' ? event.num_turns : null,
+        costUsd: typeof event.total_cost_usd === 'number' ? event.total_cost_usd : null,
+      };
+      const details = [
+        result.turns !== null ? `${result.turns} turn${result.turns === 1 ? '' : 's'}` : null,
+        result.costUsd !== null ? `$${result.costUsd.toFixed(2)}` : null,
+      ].filter(Boolean).join(', ');
+      return {
+        text: `${result.isError ? 'Claude Code failed' : 'Claude Code finished'}${details ? ` (${details})` : ''}\n`,
+        result,
+      };
+    }
+
+    default:
+      return { text: null };
+  }
+}
+
+function contentBlocks(event: Record<string, unknown>): Array<Record<string, unknown>> {
+  const message = event.message as { content?: unknown } | undefined;
+  return Array.isArray(message?.content) ? message.content as Array<Record<string, unknown>> : [];
+}
+
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (part && typeof part.text === 'string' ? part.text : ''))
+      .filter(Boolean)
+      .join('\n');
+  }
+  return '';
+}
+
+function firstLine(text: string): string {
+  return truncate(text.trim().split('\n')[0] || 'Tool failed');
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_SUMMARY_LENGTH ? `${text.slice(0, MAX_SUMMARY_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Short description of a tool call's input, e.g. the command or file path
+ */
+export function summarizeToolInput(input: unknown): string {
+  if (!input || typeof input !== 'object') return '';
+  const fields = input as Record<string, unknown>;
+  for (const key of TOOL_SUMMARY_FIELDS) {
+    if (typeof fields[key] === 'string' && fields[key]) {
+      return truncate((fields[key] as string).replace(/\s+/g, ' ').trim());
+    }
+  }
+  const json = JSON.stringify(input);
+  return json === '{}' ? '' : truncate(json);
+}
+
+/**
+ * Splits streamed text into complete lines, holding back a partial last line
+ * until the rest of it arrives
+ */
+export function createLineSplitter(): { push: (data: string) => string[]; end: () => string[] } {
+  let partial = '';
+  return {
+    push(data) {
+      const lines = (partial + data).split('\n');
+      partial = lines.pop() ?? '';
+      return lines.map((line) => line.replace(/\r$/, ''));
+    },
+    end() {
+      const rest = partial.replace(/\r$/, '');
+      partial = '';
+      return rest ? [rest] : [];
+    },
+  };
+}
+
+export interface OutputBatcher {
+  write: SandboxOutputSink;
+  /** Send whatever is waiting and wait for every send to finish */
+  flush: () => Promise<void>;
+}
+
+/**
+ * Collect output chunks and send them in batches, so a chatty command costs
+ * a few RPCs a second rather than one per line. Adjacent chunks from the
+ * same stream are merged, and batches are sent one after another so they
+ * arrive in order. `send` is expected to report its own failures.
+ */
+export function createOutputBatcher(
+  send: (chunks: SandboxOutputChunk[]) => Promise<void>,
+  options: { intervalMs?: number; maxChars?: number } = {}
+): OutputBatcher {
+  const intervalMs = options.intervalMs ?? OUTPUT_FLUSH_INTERVAL_MS;
+  const maxChars = options.maxChars ?? OUTPUT_FLUSH_CHARS;
+
+  let pending: SandboxOutputChunk[] = [];
+  let pendingChars = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let sending: Promise<void> = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (pending.length > 0) {
+      const chunks = pending;
+      pending = [];
+      pendingChars = 0;
+      sending = sending.then(() => send(chunks)).catch(() => undefined);
+    }
+    return sending;
+  };
+
+  const write: SandboxOutputSink = (chunk) => {
+    if (!chunk.text) return;
+    const last = pending[pending.length - 1];
+    if (last && last.stream === chunk.stream) {
+      last.text += chunk.text;
+    } else {
+      pending.push({ ...chunk });
+    }
+    pendingChars += chunk.text.length;
+
+    if (pendingChars >= maxChars) {
+      void flush();
+    } else if (!timer) {
+      timer = setTimeout(() => void flush(), intervalMs);
+    }
+  };
+
+  return { write, flush };
+}
+
+/**
+ * The part of a batch that fits in a transcript already holding `storedChars`.
+ * The batch that reaches the limit is cut short and ends with a marker;
+ * anything after it is dropped.
+ */
+export function capTranscript(
+  chunks: SandboxOutputChunk[],
+  storedChars: number,
+  maxChars = MAX_TRANSCRIPT_CHARS
+): SandboxOutputChunk[] {
+  if (storedChars >= maxChars) return [];
+
+  let remaining = maxChars - storedChars;
+  const kept: SandboxOutputChunk[] = [];
+  for (const chunk of chunks) {
+    if (chunk.text.length > remaining) {
+      if (remaining > 0) kept.push({ stream: chunk.stream, text: chunk.text.slice(0, remaining) });
+      kept.push({ stream: 'system', text: TRUNCATION_MARKER });
+      return kept;
+    }
+    kept.push(chunk);
+    remaining -= chunk.text.length;
+  }
+  return kept;
+}
+
+/**
+ * The last `maxChars` characters of a transcript, as chunks
+ */
+export function tailChunks(chunks: SandboxOutputChunk[], maxChars = OUTPUT_TAIL_CHARS): SandboxOutputChunk[] {
+  const tail: SandboxOutputChunk[] = [];
+  let remaining = maxChars;
+  for (let i = chunks.length - 1; i >= 0 && remaining > 0; i--) {
+    const chunk = chunks[i];
+    if (chunk.text.length > remaining) {
+      tail.unshift({ stream: chunk.stream, text: chunk.text.slice(chunk.text.length - remaining) });
+      break;
+    }
+    tail.unshift(chunk);
+    remaining -= chunk.text.length;
+  }
+  return tail;
+}
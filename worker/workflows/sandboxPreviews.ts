@@ -0,0 +1,131 @@
+/**
+ * Sandbox preview rules
+ *
+ * A preview is a dev server started in a sandbox session so a reviewer can
+ * click through the app or docs before approving a PR. The server's port is
+ * never exposed publicly: reviewers reach it through an authenticated Worker
+ * route that proxies to the container. Previews are recorded with their
+ * session on the board and end when the session is destroyed.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+export interface SandboxPreview {
+  id: string;
+  sessionId: string;
+  sandboxId: string;
+  /** Board the session belongs to (a project id or a user's task container) */
+  projectId: string;
+  planId: string | null;
+  taskId: string | null;
+  port: number;
+  name: string;
+  command: string;
+  /** Forward request paths with the base path still in front */
+  keepBasePath: boolean;
+  /** Path of the proxy route on the app, ending in a slash */
+  url: string;
+  createdAt: string;
+}
+
+/** Port the Sandbox SDK's control server listens on inside the container */
+export const SANDBOX_CONTROL_PORT = 3000;
+
+/** Tool whose success ends a session and its previews */
+export const DESTROY_SESSION_TOOL = 'Sandbox__destroySession';
+
+/**
+ * Whether a dev server can't be previewed on this port
+ */
+export function isReservedPreviewPort(port: number): boolean {
+  return port === SANDBOX_CONTROL_PORT;
+}
+
+/**
+ * Path of a preview's proxy route. Standalone tasks live in the user's
+ * container, so their previews hang off the task routes.
+ */
+export function previewBasePath(projectId: string, taskId: string | null, previewId: string): string {
+  const preview = encodeURIComponent(previewId);
+  if (projectId.startsWith('user-tasks-') && taskId) {
+    return `/api/tasks/${encodeURIComponent(taskId)}/previews/${preview}/`;
+  }
+  return `/api/projects/${encodeURIComponent(projectId)}/previews/${preview}/`;
+}
+
+/**
+ * Path to request from the dev server. Servers configured with the base
+ * path (e.g. vite --base) get it as is; others see paths from the root.
+ */
+export function previewTargetPath(
+  preview: Pick<SandboxPreview, 'url' | 'keepBasePath'>,
+  pathname: string
+): string {
+  if (preview.keepBasePath) return pathname;
+  const base = preview.url.slice(0, -1);
+  return pathname.startsWith(base) ? pathname.slice(base.length) || '/' : pathname;
+}
+
+/** Request headers that carry the reviewer's credentials for the app */
+const CREDENTIAL_HEADERS = ['cookie', 'authorization', 'cf-access-jwt-assertion', 'cf-access-client-id', 'cf-access-client-secret'];
+
+/** Response headers that would let a preview reach beyond its own path */
+const SCOPE_HEADERS = ['set-cookie', 'service-worker-allowed', 'clear-site-data'];
+
+/**
+ * Headers to send to the dev server: everything but the reviewer's
+ * credentials, which the sandboxed code must never see
+ */
+export function previewRequestHeaders(headers: Headers): Headers {
+  const forwarded = new Headers(headers);
+  for (const name of CREDENTIAL_HEADERS) forwarded.delete(name);
+  return forwarded;
+}
+
+/**
+ * Sandboxes every preview page into an opaque origin. Without
+ * allow-same-origin, scripts the agent wrote can't call the app's API with
+ * the reviewer's session or read the app's storage.
+ */
+export const PREVIEW_CONTENT_SECURITY_POLICY = 'sandbox allow-scripts allow-forms allow-popups';
+
+/**
+ * Headers to return to the reviewer. A preview is served from the app's own
+ * origin, so it runs in a CSP sandbox, may not set cookies (which could
+ * replace the app's session) and may not widen a service worker's scope
+ * past its path. Redirects to root paths are kept inside the preview.
+ */
+export function previewResponseHeaders(
+  headers: Headers,
+  preview: Pick<SandboxPreview, 'url' | 'keepBasePath'>
+): Headers {
+  const returned = new Headers(headers);
+  for (const name of SCOPE_HEADERS) returned.delete(name);
+  // Added alongside any policy the dev server sets; browsers enforce both
+  returned.append('content-security-policy', PREVIEW_CONTENT_SECURITY_POLICY);
+
+  const location = returned.get('location');
+  if (location?.startsWith('/') && !location.startsWith('//') && !preview.keepBasePath) {
+    returned.set('location', preview.url + location.slice(1));
+  }
+  return returned;
+}
+
+/**
+ * The session a tool call destroyed, if it was a successful destroySession
+ */
+export function destroyedSessionId(toolName: string, result: unknown): string | null {
+  if (toolName !== DESTROY_SESSION_TOOL) return null;
+  const structured = (result as { structuredContent?: Record<string, unknown> })?.structuredContent;
+  return typeof structured?.sessionId === 'string' ? structured.sessionId : null;
+}
+
+/**
+ * Drop the preview artifacts of a session that has ended
+ */
+export function removeSessionPreviews<T extends { type: string; sessionId?: string }>(
+  artifacts: T[],
+  sessionId: string
+): T[] {
+  return artifacts.filter((artifact) => artifact.type !== 'preview' || artifact.sessionId !== sessionId);
+}
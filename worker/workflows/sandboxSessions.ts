@@ -0,0 +1,97 @@
+/**
+ * Sandbox session registry rules
+ *
+ * A sandbox session (a cloned repo in a Sandbox container) is created by one
+ * tool call and used by later ones, which may run in another isolate or in
+ * a replay of the workflow. Sessions are therefore recorded in the board's
+ * BoardDO, with the plan that owns them and when they were last used. The
+ * BoardDO alarm destroys sessions left idle for longer than the timeout,
+ * except those of runs still open: a run paused for approval or budget can
+ * wait days and resume against its session.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+import { OPEN_PLAN_STATUSES } from './schedules';
+import type { SandboxLimits } from './sandboxTemplates';
+
+export interface SandboxSession {
+  /** Session ID handed to the agent; also the Sandbox DO name */
+  id: string;
+  sandboxId: string;
+  /** Board the session belongs to (a project id or a user's task container) */
+  projectId: string;
+  planId: string | null;
+  taskId: string | null;
+  /** Repository URL without credentials */
+  repoUrl: string | null;
+  branch: string | null;
+  workDir: string;
+  /** Resource limits from the project's sandbox template when the session was created */
+  limits: SandboxLimits | null;
+  createdAt: string;
+  lastActivityAt: string;
+}
+
+/** Sessions unused for this long are destroyed */
+export const SANDBOX_IDLE_TIMEOUT_MINUTES = 60;
+
+/**
+ * When a session was last used, counting it as in use while its run is
+ * still open (planStatus is the owning plan's status, null without one)
+ */
+export function sandboxActivityAt(
+  session: Pick<SandboxSession, 'lastActivityAt'>,
+  planStatus: string | null,
+  now: Date
+): string {
+  return planStatus && OPEN_PLAN_STATUSES.includes(planStatus) ? now.toISOString() : session.lastActivityAt;
+}
+
+/**
+ * When a session becomes idle
+ */
+export function sandboxExpiresAt(
+  session: Pick<SandboxSession, 'lastActivityAt'>,
+  timeoutMinutes = SANDBOX_IDLE_TIMEOUT_MINUTES
+): string {
+  return new Date(new Date(session.lastActivityAt).getTime() + timeoutMinutes * 60_000).toISOString();
+}
+
+/**
+ * Whether a session has been unused for longer than the timeout
+ */
+export function isSandboxIdle(
+  session: Pick<SandboxSession, 'lastActivityAt'>,
+  now: Date,
+  timeoutMinutes = SANDBOX_IDLE_TIMEOUT_MINUTES
+): boolean {
+  return sandboxExpiresAt(session, timeoutMinutes) <= now.toISOString();
+}
+
+/**
+ * The earliest time any session becomes idle, for the cleanup alarm
+ */
+export function nextSandboxExpiry(
+  sessions: Pick<SandboxSession, 'lastActivityAt'>[],
+  timeoutMinutes = SANDBOX_IDLE_TIMEOUT_MINUTES
+): string | null {
+  if (sessions.length === 0) return null;
+  return sessions.map((s) => sandboxExpiresAt(s, timeoutMinutes)).sort()[0];
+}
+
+/**
+ * Drop any credentials from a repository URL before it is stored or shown
+ */
+export function redactRepoUrl(repoUrl: string | null | undefined): string | null {
+  if (!repoUrl) return null;
+  try {
+    const url = new URL(repoUrl);
+    url.username = '';
+    url.password = '';
+    return url.toString();
+  } catch {
+    // scp-style remotes (git@github.com:owner/repo.git) carry no secrets
+    return repoUrl;
+  }
+}
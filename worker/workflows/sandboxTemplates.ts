@@ -0,0 +1,217 @@
+/**
+ * Sandbox template rules
+ *
+ * A project's sandbox template prepares every session the agent creates:
+ * setup commands run after the clone, dependency directories are restored
+ * from (and saved to) a cache keyed by the project's lockfiles, the
+ * project's sandbox secrets are set as environment variables, and commands
+ * run under resource limits.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+export interface SandboxLimits {
+  /** Data memory of each command the agent runs (Node's heap is capped below it) */
+  memoryLimitMb?: number | null;
+  /** Longest any one command may run; tool timeouts above it are lowered */
+  timeoutMs?: number | null;
+}
+
+export interface SandboxTemplate extends SandboxLimits {
+  /** Run in the working directory, in order, after the repository is cloned */
+  setupCommands?: string[] | null;
+  /** Directories (relative to the working directory) kept between sessions, e.g. node_modules */
+  cacheDirectories?: string[] | null;
+  /** Files whose contents key the cache, e.g. lockfiles; a change starts a new cache */
+  cacheKeyFiles?: string[] | null;
+}
+
+/** A template with the project's secrets, as applied to a new session */
+export interface SandboxEnvironment {
+  /** Project the template belongs to (its cache is kept per project) */
+  projectId: string;
+  template: SandboxTemplate;
+  /** Environment variables from the project's sandbox secrets */
+  secrets: Record<string, string>;
+}
+
+/** Claude Code itself needs about 768 MB of data memory to run a task */
+export const MIN_MEMORY_LIMIT_MB = 1024;
+export const MIN_COMMAND_TIMEOUT_MS = 10_000;
+export const MAX_COMMAND_TIMEOUT_MS = 60 * 60_000;
+export const MAX_SETUP_COMMANDS = 20;
+
+/** Where a cache archive is kept in the container while it is copied in or out */
+export const CACHE_ARCHIVE_PATH = '/tmp/sandbox-cache.tar.gz';
+
+/**
+ * Cache archives are copied through the Worker in parts of this size. R2
+ * needs every multipart part but the last to be the same size, and at
+ * least 5 MB.
+ */
+export const CACHE_PART_BYTES = 8 * 1024 * 1024;
+
+/** Set by the sandbox itself; secrets may not replace them */
+export const RESERVED_ENV_NAMES = [
+  'ANTHROPIC_API_KEY',
+  'PORT',
+  'PREVIEW_BASE_PATH',
+];
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Why a sandbox secret can't use this name, or null if it can
+ */
+export function validateSecretName(name: string): string | null {
+  if (!ENV_NAME_PATTERN.test(name)) {
+    return 'Secret names must be environment variable names (letters, digits and _, not starting with a digit)';
+  }
+  if (RESERVED_ENV_NAMES.includes(name)) {
+    return `${name} is set by the sandbox and can't be a secret`;
+  }
+  return null;
+}
+
+/**
+ * Check a template before it is saved. Returns an error message or null.
+ */
+export function validateSandboxTemplate(template: SandboxTemplate): string | null {
+  const { memoryLimitMb, timeoutMs } = template;
+  if (memoryLimitMb != null && (!Number.isInteger(memoryLimitMb) || memoryLimitMb < MIN_MEMORY_LIMIT_MB)) {
+    return `memoryLimitMb must be a whole number of at least ${MIN_MEMORY_LIMIT_MB}`;
+  }
+  if (timeoutMs != null && (!Number.isInteger(timeoutMs) || timeoutMs < MIN_COMMAND_TIMEOUT_MS || timeoutMs > MAX_COMMAND_TIMEOUT_MS)) {
+    return `timeoutMs must be between ${MIN_COMMAND_TIMEOUT_MS} and ${MAX_COMMAND_TIMEOUT_MS}`;
+  }
+
+  const setupCommands = template.setupCommands || [];
+  if (setupCommands.length > MAX_SETUP_COMMANDS) {
+    return `At most ${MAX_SETUP_COMMANDS} setup commands`;
+  }
+  if (setupCommands.some((command) => typeof command !== 'string' || !command.trim())) {
+    return 'Setup commands can not be empty';
+  }
+
+  for (const path of [...(template.cacheDirectories || []), ...(template.cacheKeyFiles || [])]) {
+    if (!isWorkspaceRelative(path)) {
+      return `Cached paths must be inside the working directory: ${path}`;
+    }
+  }
+  if ((template.cacheKeyFiles || []).length > 0 && (template.cacheDirectories || []).length === 0) {
+    return 'Cache key files need at least one cached directory';
+  }
+
+  return null;
+}
+
+/**
+ * Drop empty entries, surrounding space and unknown settings, so the
+ * stored template is what the settings form shows
+ */
+export function normalizeSandboxTemplate(template: SandboxTemplate): SandboxTemplate {
+  const list = (values: unknown) => (Array.isArray(values) ? values : [])
+    .filter((value): value is string => typeof value === 'string')
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return {
+    setupCommands: list(template.setupCommands),
+    cacheDirectories: list(template.cacheDirectories).map((path) => path.replace(/\/+$/, '')),
+    cacheKeyFiles: list(template.cacheKeyFiles),
+    memoryLimitMb: template.memoryLimitMb ?? null,
+    timeoutMs: template.timeoutMs ?? null,
+  };
+}
+
+function isWorkspaceRelative(path: string): boolean {
+  return typeof path === 'string' &&
+    path.trim() !== '' &&
+    !path.startsWith('/') &&
+    !path.split('/').some((part) => part === '..');
+}
+
+// ============================================
+// LIMITS
+// ============================================
+
+/**
+ * The limits a session keeps for its lifetime, or null when there are none
+ */
+export function sessionLimits(template: SandboxTemplate | null | undefined): SandboxLimits | null {
+  if (!template?.memoryLimitMb && !template?.timeoutMs) return null;
+  return { memoryLimitMb: template.memoryLimitMb ?? null, timeoutMs: template.timeoutMs ?? null };
+}
+
+/**
+ * A command run under the session's memory limit. The limit is on data
+ * memory (ulimit -d), not address space: V8 and Bun reserve gigabytes of
+ * address space up front and fail to start under ulimit -v. Node's heap is
+ * capped at three quarters of the limit so it runs out with a JavaScript
+ * heap error instead of crashing when an allocation is refused.
+ */
+export function limitCommand(command: string, limits: SandboxLimits | null | undefined): string {
+  if (!limits?.memoryLimitMb) return command;
+  const heapMb = Math.floor(limits.memoryLimitMb * 0.75);
+  return `ulimit -d ${limits.memoryLimitMb * 1024} && ` +
+    `export NODE_OPTIONS="\${NODE_OPTIONS:+$NODE_OPTIONS }--max-old-space-size=${heapMb}" && ${command}`;
+}
+
+/**
+ * A tool's timeout, lowered to the session's command limit
+ */
+export function limitTimeoutSeconds(requestedSeconds: number, limits: SandboxLimits | null | undefined): number {
+  if (!limits?.timeoutMs) return requestedSeconds;
+  return Math.min(requestedSeconds, Math.floor(limits.timeoutMs / 1000));
+}
+
+// ============================================
+// DEPENDENCY CACHE
+// ============================================
+
+/**
+ * Quote a value for a POSIX shell
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Command that prints the cache key of the session's dependencies. The key
+ * covers the cached directories and the contents of the key files, so
+ * changing either starts a new archive.
+ */
+export function cacheKeyCommand(workDir: string, template: SandboxTemplate): string {
+  const directories = (template.cacheDirectories || []).map(shellQuote).join(' ');
+  const keyFiles = (template.cacheKeyFiles || []).map(shellQuote).join(' ');
+  return `cd ${shellQuote(workDir)} && ` +
+    `{ printf '%s\\n' ${directories}; ${keyFiles ? `cat ${keyFiles} 2>/dev/null; ` : ''}} | sha256sum | cut -c1-16`;
+}
+
+/**
+ * Where a project's cache archive is kept in the cache bucket, or null if
+ * the key isn't one cacheKeyCommand prints. Archives are stored per project
+ * by the Worker; sessions never see the bucket.
+ */
+export function cacheObjectKey(projectId: string, key: string): string | null {
+  if (!/^[0-9a-f]{16}$/.test(key)) return null;
+  return `${projectId.replace(/[^\w-]/g, '_')}/${key}.tar.gz`;
+}
+
+/**
+ * Command that unpacks a cache archive into the working directory, then
+ * removes it
+ */
+export function cacheUnpackCommand(workDir: string): string {
+  return `cd ${shellQuote(workDir)} && tar -xzf ${CACHE_ARCHIVE_PATH}; status=$?; rm -f ${CACHE_ARCHIVE_PATH}; exit $status`;
+}
+
+/**
+ * Command that packs the cached directories that exist into an archive. It
+ * prints "cache-empty" when none of them do.
+ */
+export function cachePackCommand(workDir: string, template: SandboxTemplate): string {
+  const directories = (template.cacheDirectories || []).map(shellQuote).join(' ');
+  return `cd ${shellQuote(workDir)} && rm -f ${CACHE_ARCHIVE_PATH} && ` +
+    `dirs=$(for d in ${directories}; do [ -e "$d" ] && printf '%s\\n' "$d"; done); ` +
+    `if [ -z "$dirs" ]; then echo cache-empty; else echo "$dirs" | tar -czf ${CACHE_ARCHIVE_PATH} -T -; fi`;
+}
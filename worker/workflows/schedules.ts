@@ -0,0 +1,315 @@
+/**
+ * Scheduled and recurring agent runs
+ *
+ * A task can carry a schedule: either a 5-field cron expression or a simple
+ * repeat rule (which is turned into cron), evaluated in an IANA timezone.
+ * BoardDO keeps one Durable Object alarm set for the earliest due schedule
+ * and starts an agent run for each task that is due.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+export type RepeatFrequency = 'hourly' | 'daily' | 'weekdays' | 'weekly' | 'monthly';
+
+/** A simple repeat rule, for users who don't want to write cron */
+export interface RepeatRule {
+  frequency: RepeatFrequency;
+  /** Local time as "HH:MM"; hourly rules only use the minutes */
+  time: string;
+  /** 0 (Sunday) to 6 (Saturday), for weekly rules */
+  daysOfWeek?: number[];
+  /** 1 to 31, for monthly rules. Months without that day are skipped. */
+  dayOfMonth?: number;
+}
+
+export interface TaskScheduleInput {
+  /** Cron expression; takes precedence over `repeat` */
+  cron?: string | null;
+  repeat?: RepeatRule | null;
+  timezone: string;
+  agentId?: string | null;
+  enabled?: boolean;
+}
+
+export interface TaskSchedule {
+  taskId: string;
+  /** Board the task lives on (a project id or a user's task container) */
+  projectId: string;
+  /** User the scheduled runs act as */
+  userId: string;
+  cron: string;
+  repeat: RepeatRule | null;
+  timezone: string;
+  agentId: string | null;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScheduleRunStatus = 'started' | 'skipped' | 'failed';
+
+export interface ScheduleRun {
+  id: string;
+  taskId: string;
+  /** When the run was due */
+  scheduledFor: string;
+  /** When the schedule was processed */
+  ranAt: string;
+  status: ScheduleRunStatus;
+  /** Plan that was started, or the open plan that caused a skip */
+  planId: string | null;
+  message: string | null;
+}
+
+/** Plan statuses that count as "still open" and make a scheduled run skip */
+export const OPEN_PLAN_STATUSES = ['planning', 'draft', 'approved', 'executing', 'checkpoint', 'budget_exceeded'];
+
+/** Run history kept per task */
+export const MAX_SCHEDULE_RUNS = 50;
+
+/** How far ahead to look for the next match (covers Feb 29 schedules) */
+const MAX_LOOKAHEAD_DAYS = 366 * 8;
+
+interface CronField {
+  values: number[];
+  /** The field was "*", which matters for the day-of-month/day-of-week rule */
+  any: boolean;
+}
+
+export interface CronSchedule {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 7 is accepted as Sunday
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+function parseCronField(field: string, range: { name: string; min: number; max: number }): CronField | string {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      return `Invalid ${range.name} field "${field}"`;
+    }
+
+    const [, all, startText, endText, stepText] = match;
+    let start = range.min;
+    let end = range.max;
+    if (all !== '*') {
+      start = Number(startText);
+      // "5/15" means every 15 starting at 5
+      end = endText !== undefined ? Number(endText) : stepText !== undefined ? range.max : start;
+    }
+    const step = stepText !== undefined ? Number(stepText) : 1;
+
+    if (start < range.min || end > range.max || start > end) {
+      return `The ${range.name} field must be between ${range.min} and ${range.max}`;
+    }
+    if (step < 1) {
+      return `Invalid step in ${range.name} field "${field}"`;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return {
+    values: [...values].sort((a, b) => a - b),
+    any: field === '*',
+  };
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week).
+ * Supports "*", lists, ranges and steps. Returns an error message when invalid.
+ */
+export function parseCron(expression: string): CronSchedule | string {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return 'Cron expressions need 5 fields: minute hour day-of-month month day-of-week';
+  }
+
+  const parsed: CronField[] = [];
+  for (const [i, field] of fields.entries()) {
+    const result = parseCronField(field, FIELD_RANGES[i]);
+    if (typeof result === 'string') return result;
+    parsed.push(result);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed;
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: {
+      values: [...new Set(daysOfWeek.values.map((d) => d % 7))].sort((a, b) => a - b),
+      any: daysOfWeek.any,
+    },
+  };
+}
+
+function parseTime(time: string): { hour: number; minute: number } | null {
+  const match = time.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+  return match ? { hour: Number(match[1]), minute: Number(match[2]) } : null;
+}
+
+/**
+ * Check a repeat rule. Returns an error message, or null.
+ */
+export function validateRepeatRule(rule: RepeatRule): string | null {
+  if (!['hourly', 'daily', 'weekdays', 'weekly', 'monthly'].includes(rule.frequency)) {
+    return `Unknown repeat frequency "${rule.frequency}"`;
+  }
+  if (typeof rule.time !== 'string' || !parseTime(rule.time)) {
+    return 'Repeat time must be in HH:MM format';
+  }
+  if (rule.frequency === 'weekly') {
+    const days = rule.daysOfWeek || [];
+    if (days.length === 0 || days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      return 'Weekly schedules need at least one day of the week (0-6)';
+    }
+  }
+  if (rule.frequency === 'monthly') {
+    const day = rule.dayOfMonth;
+    if (!Number.isInteger(day) || day! < 1 || day! > 31) {
+      return 'Monthly schedules need a day of the month (1-31)';
+    }
+  }
+  return null;
+}
+
+/**
+ * Turn a (valid) repeat rule into the equivalent cron expression
+ */
+export function repeatRuleToCron(rule: RepeatRule): string {
+  const { hour, minute } = parseTime(rule.time)!;
+  switch (rule.frequency) {
+    case 'hourly':
+      return `${minute} * * * *`;
+    case 'daily':
+      return `${minute} ${hour} * * *`;
+    case 'weekdays':
+      return `${minute} ${hour} * * 1-5`;
+    case 'weekly':
+      return `${minute} ${hour} * * ${[...new Set(rule.daysOfWeek)].sort((a, b) => a - b).join(',')}`;
+    case 'monthly':
+      return `${minute} ${hour} ${rule.dayOfMonth} * *`;
+  }
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a schedule before it's saved. Returns an error message, or null.
+ */
+export function validateSchedule(input: TaskScheduleInput): string | null {
+  if (!input.timezone || !isValidTimezone(input.timezone)) {
+    return `Unknown timezone "${input.timezone}"`;
+  }
+  if (input.cron) {
+    const parsed = parseCron(input.cron);
+    return typeof parsed === 'string' ? parsed : null;
+  }
+  if (input.repeat) {
+    return validateRepeatRule(input.repeat);
+  }
+  return 'A schedule needs a cron expression or a repeat rule';
+}
+
+/**
+ * The cron expression a (valid) schedule runs on
+ */
+export function scheduleCron(input: TaskScheduleInput): string {
+  return input.cron ? input.cron.trim().replace(/\s+/g, ' ') : repeatRuleToCron(input.repeat!);
+}
+
+/** Wall-clock parts of an instant in a timezone */
+function zonedParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') };
+}
+
+/** Milliseconds the timezone is ahead of UTC at an instant */
+function timezoneOffset(date: Date, timezone: string): number {
+  const p = zonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return asUtc - Math.floor(date.getTime() / 60_000) * 60_000;
+}
+
+/**
+ * The instant a wall-clock time in a timezone refers to. Times skipped by a
+ * DST change resolve to the instant just after the gap.
+ */
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timezone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const firstOffset = timezoneOffset(new Date(guess), timezone);
+  const secondOffset = timezoneOffset(new Date(guess - firstOffset), timezone);
+  return new Date(guess - secondOffset);
+}
+
+function dayMatches(cron: CronSchedule, dayOfMonth: number, dayOfWeek: number): boolean {
+  const domMatch = cron.daysOfMonth.values.includes(dayOfMonth);
+  const dowMatch = cron.daysOfWeek.values.includes(dayOfWeek);
+  // Standard cron: when both day fields are restricted, either one matching is enough
+  if (!cron.daysOfMonth.any && !cron.daysOfWeek.any) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
+
+/**
+ * The first time after `after` that a cron expression matches in a timezone,
+ * or null if it never does (e.g. "0 0 31 2 *").
+ */
+export function nextRunTime(expression: string, timezone: string, after: Date): Date | null {
+  const cron = parseCron(expression);
+  if (typeof cron === 'string') return null;
+
+  const start = zonedParts(after, timezone);
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    // Date.UTC normalizes day overflow, so this walks the local calendar
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+
+    if (!cron.months.values.includes(month) || !dayMatches(cron, day, date.getUTCDay())) continue;
+
+    for (const hour of cron.hours.values) {
+      for (const minute of cron.minutes.values) {
+        const candidate = zonedTimeToUtc(year, month, day, hour, minute, timezone);
+        if (candidate.getTime() > after.getTime()) return candidate;
+      }
+    }
+  }
+
+  return null;
+}
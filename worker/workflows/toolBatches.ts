@@ -0,0 +1,67 @@
+/**
+ * Parallel tool calls
+ *
+ * When a model turn contains several tool_use blocks, consecutive read-only
+ * calls run concurrently. Writes, approvals and tools not known to be
+ * read-only act as barriers: they run on their own, in order, once every
+ * call before them has finished. Results always keep the original order.
+ *
+ * Kept free of Workflow/DO imports so the batching can be unit tested.
+ */
+
+import { findServerTool, type GatedServer, type GatedTool } from './approvalGate';
+import { hasArgumentConstraints, requiresApproval, type ToolPolicyRule } from './toolPolicies';
+
+/** Upper bound on concurrent calls so one turn can't flood an upstream API */
+export const MAX_PARALLEL_TOOL_CALLS = 5;
+
+export interface ParallelTool extends GatedTool {
+  readOnly?: boolean;
+}
+
+/**
+ * Whether a tool call may run alongside other calls in the same turn
+ */
+export function canRunInParallel(
+  servers: GatedServer<ParallelTool>[],
+  policies: ToolPolicyRule[],
+  toolName: string
+): boolean {
+  if (toolName === 'request_approval') return false;
+  const tool = findServerTool(servers, toolName);
+  if (!tool?.readOnly || tool.mutating) return false;
+  // Calls whose arguments the policy constrains are checked one at a time
+  if (hasArgumentConstraints(policies, toolName)) return false;
+  // A policy can still hold a read-only tool for approval
+  return !requiresApproval(policies, toolName, false);
+}
+
+/**
+ * Split calls into batches that run one after another. Each batch is either
+ * a single sequential call or up to maxBatchSize parallel-safe calls.
+ */
+export function batchToolCalls<T>(
+  calls: T[],
+  isParallelSafe: (call: T) => boolean,
+  maxBatchSize = MAX_PARALLEL_TOOL_CALLS
+): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+
+  for (const call of calls) {
+    if (!isParallelSafe(call)) {
+      if (current.length > 0) batches.push(current);
+      batches.push([call]);
+      current = [];
+      continue;
+    }
+    if (current.length >= maxBatchSize) {
+      batches.push(current);
+      current = [];
+    }
+    current.push(call);
+  }
+
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
@@ -0,0 +1,216 @@
+/**
+ * Tool permission policies
+ *
+ * Projects (and users, via the '__global__' container) can allow, ask for
+ * approval on, or deny any MCP tool, optionally constraining its arguments.
+ * Policies are keyed by server name + tool name; '*' matches every tool on
+ * a server. Project rules replace global rules for the same key, and an
+ * exact tool name beats the server wildcard.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+export type ToolPolicyMode = 'allow' | 'ask' | 'deny';
+
+export const TOOL_POLICY_MODES: readonly ToolPolicyMode[] = ['allow', 'ask', 'deny'];
+
+/** Matches every tool on a server */
+export const ANY_TOOL = '*';
+
+export interface ToolPolicyConstraints {
+  /** Email recipients (to, cc, bcc) must belong to one of these domains */
+  recipientDomains?: string[];
+  /** GitHub repository owner must be one of these users or organizations */
+  repoOwners?: string[];
+}
+
+export interface ToolPolicyRule {
+  serverName: string;
+  toolName: string;
+  mode: ToolPolicyMode;
+  constraints?: ToolPolicyConstraints | null;
+}
+
+const RECIPIENT_FIELDS = ['to', 'cc', 'bcc'];
+
+/**
+ * Tools that send to recipients taken from the thread they answer, which
+ * the arguments don't show
+ */
+const THREAD_RECIPIENT_TOOLS: readonly string[] = ['Gmail__replyToMessage', 'Gmail__replyAllToMessage'];
+
+/**
+ * Tools that hand out access to the user's files. They always wait for
+ * approval - an 'allow' policy does not apply to them.
+ */
+export const ALWAYS_ASK_TOOLS: readonly string[] = ['Google_Drive__shareFile'];
+
+function normalizeServerName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
+}
+
+function policyKey(rule: Pick<ToolPolicyRule, 'serverName' | 'toolName'>): string {
+  return `${normalizeServerName(rule.serverName)}__${rule.toolName}`;
+}
+
+/**
+ * Merge global and project policies; project rules replace global rules
+ * for the same server + tool.
+ */
+export function mergeToolPolicies<T extends ToolPolicyRule>(globalRules: T[], projectRules: T[]): T[] {
+  const merged = new Map<string, T>();
+  for (const rule of globalRules) {
+    merged.set(policyKey(rule), rule);
+  }
+  for (const rule of projectRules) {
+    merged.set(policyKey(rule), rule);
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Find the rule that applies to a Claude tool name ("Server_Name__method")
+ */
+export function resolveToolPolicy<T extends ToolPolicyRule>(rules: T[], toolName: string): T | undefined {
+  const [serverName, method] = toolName.split('__');
+  const server = normalizeServerName(serverName);
+  const forServer = rules.filter((r) => normalizeServerName(r.serverName) === server);
+  return forServer.find((r) => r.toolName === method) ?? forServer.find((r) => r.toolName === ANY_TOOL);
+}
+
+/**
+ * Check whether a tool is hidden from the agent entirely
+ */
+export function isToolDenied(rules: ToolPolicyRule[], toolName: string): boolean {
+  return resolveToolPolicy(rules, toolName)?.mode === 'deny';
+}
+
+/**
+ * Decide whether a direct tool call must wait for user approval.
+ * 'ask' always gates, 'allow' never does (except for ALWAYS_ASK_TOOLS),
+ * otherwise the tool's own mutating flag decides.
+ */
+export function requiresApproval(
+  rules: ToolPolicyRule[],
+  toolName: string,
+  mutating: boolean,
+  args?: Record<string, unknown>
+): boolean {
+  if (ALWAYS_ASK_TOOLS.includes(toolName)) return true;
+  const mode = resolveToolPolicy(rules, toolName)?.mode;
+  if (mode === 'ask') return true;
+  // A person checks what the policy can't
+  if (args && hasUncheckedConstraints(rules, toolName, args)) return true;
+  if (mode === 'allow') return false;
+  return mutating;
+}
+
+/**
+ * Check whether a tool's policy constrains its arguments at all
+ */
+export function hasArgumentConstraints(rules: ToolPolicyRule[], toolName: string): boolean {
+  const constraints = resolveToolPolicy(rules, toolName)?.constraints;
+  return (constraints?.recipientDomains?.length ?? 0) > 0 || (constraints?.repoOwners?.length ?? 0) > 0;
+}
+
+/**
+ * Check whether a call has a constraint its arguments can't be checked
+ * against: recipients taken from a thread, or no repository owner to
+ * compare (e.g. pushing a sandbox branch, searching code)
+ */
+export function hasUncheckedConstraints(
+  rules: ToolPolicyRule[],
+  toolName: string,
+  args: Record<string, unknown>
+): boolean {
+  const constraints = resolveToolPolicy(rules, toolName)?.constraints;
+  if ((constraints?.recipientDomains?.length ?? 0) > 0) {
+    const repliesToThread = THREAD_RECIPIENT_TOOLS.includes(toolName) ||
+      (typeof args.replyToMessageId === 'string' && collectRecipients(args).length === 0);
+    if (repliesToThread) return true;
+  }
+  if ((constraints?.repoOwners?.length ?? 0) > 0 && !extractRepoOwner(args)) {
+    return true;
+  }
+  return false;
+}
+
+function collectRecipients(args: Record<string, unknown>): string[] {
+  const recipients: string[] = [];
+  for (const field of RECIPIENT_FIELDS) {
+    const value = args[field];
+    const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    for (const entry of entries) {
+      if (typeof entry !== 'string') continue;
+      // Accept "Name <user@example.com>" as well as bare addresses
+      const address = entry.match(/<([^>]+)>/)?.[1] ?? entry;
+      if (address.trim()) {
+        recipients.push(address.trim().toLowerCase());
+      }
+    }
+  }
+  return recipients;
+}
+
+function extractRepoOwner(args: Record<string, unknown>): string | undefined {
+  if (typeof args.owner === 'string' && args.owner) {
+    return args.owner;
+  }
+  if (typeof args.repoUrl === 'string') {
+    return args.repoUrl.match(/github\.com[/:]([^/]+)\//)?.[1];
+  }
+  return undefined;
+}
+
+/**
+ * Check a tool call against the policies.
+ * Returns an error message for the agent, or null when the call is allowed.
+ */
+export function checkToolPolicy(
+  rules: ToolPolicyRule[],
+  toolName: string,
+  args: Record<string, unknown>
+): string | null {
+  const rule = resolveToolPolicy(rules, toolName);
+  if (!rule) return null;
+
+  if (rule.mode === 'deny') {
+    return `Tool policy denies ${toolName} in this project. Do not retry; continue without it or explain to the user.`;
+  }
+
+  const domains = rule.constraints?.recipientDomains?.map((d) => d.replace(/^@/, '').toLowerCase());
+  if (domains && domains.length > 0) {
+    const blocked = collectRecipients(args).filter(
+      (address) => !domains.includes(address.split('@')[1] ?? '')
+    );
+    if (blocked.length > 0) {
+      return `Tool policy for ${toolName} only allows recipients at ${domains.join(', ')}. Blocked: ${blocked.join(', ')}.`;
+    }
+  }
+
+  const owners = rule.constraints?.repoOwners?.map((o) => o.toLowerCase());
+  if (owners && owners.length > 0) {
+    const owner = extractRepoOwner(args);
+    if (owner && !owners.includes(owner.toLowerCase())) {
+      return `Tool policy for ${toolName} only allows repositories owned by ${owners.join(', ')}. Blocked: ${owner}.`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Drop denied tools from each server so the agent never sees them
+ */
+export function filterDeniedTools<S extends { name: string; tools: Array<{ name: string }> }>(
+  servers: S[],
+  rules: ToolPolicyRule[]
+): S[] {
+  if (rules.length === 0) return servers;
+  return servers.map((server) => ({
+    ...server,
+    tools: server.tools.filter(
+      (tool) => !isToolDenied(rules, `${server.name.replace(/\s+/g, '_')}__${tool.name}`)
+    ),
+  }));
+}
@@ -0,0 +1,190 @@
+/**
+ * Token usage and cost accounting
+ *
+ * AgentWorkflow records the token usage of every model turn on the
+ * workflow plan. Costs are computed here from a per-model price table so
+ * that plans, projects and users can be totalled without calling the API.
+ *
+ * Kept free of Workflow/DO imports so the accounting can be unit tested.
+ */
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
+
+/** Usage of a single model turn, as stored on workflow_plans.usage */
+export interface TurnUsage extends TokenUsage {
+  turn: number;
+  model: string;
+  costUsd: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  costUsd: number;
+}
+
+/** Dollars per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+/**
+ * Published prices, keyed by model family. Dated model ids
+ * (e.g. claude-sonnet-4-5-20250929) match by prefix.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4-5': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'claude-opus-4-1': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4-5': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+/** Used for models missing from the table so spend is never reported as zero */
+const FALLBACK_PRICING = MODEL_PRICING['claude-sonnet-4-5'];
+
+export const EMPTY_USAGE: UsageTotals = {
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheCreationTokens: 0,
+  cacheReadTokens: 0,
+  costUsd: 0,
+};
+
+/**
+ * Look up the price of a model, preferring the longest matching prefix
+ */
+export function getModelPricing(model: string): ModelPricing {
+  const match = Object.keys(MODEL_PRICING)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICING[match] : FALLBACK_PRICING;
+}
+
+/**
+ * Convert the Anthropic API usage block to our token counts
+ */
+export function toTokenUsage(usage: {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}): TokenUsage {
+  return {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+    cacheReadTokens: usage.cache_read_input_tokens || 0,
+  };
+}
+
+/**
+ * Dollar cost of a set of tokens on a given model
+ */
+export function calculateCost(model: string, usage: TokenUsage): number {
+  const price = getModelPricing(model);
+  const cost = (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    usage.cacheCreationTokens * price.cacheWrite +
+    usage.cacheReadTokens * price.cacheRead
+  ) / 1_000_000;
+  // Round to a millionth of a dollar to keep stored totals stable
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Sum per-turn (or per-plan) usage into totals
+ */
+export function sumUsage(entries: Array<TokenUsage & { costUsd: number }>): UsageTotals {
+  const totals = { ...EMPTY_USAGE };
+  for (const entry of entries) {
+    totals.inputTokens += entry.inputTokens;
+    totals.outputTokens += entry.outputTokens;
+    totals.cacheCreationTokens += entry.cacheCreationTokens;
+    totals.cacheReadTokens += entry.cacheReadTokens;
+    totals.costUsd += entry.costUsd;
+  }
+  totals.costUsd = Math.round(totals.costUsd * 1_000_000) / 1_000_000;
+  return totals;
+}
+
+/**
+ * Add or replace a turn's usage. Replacing keeps recording idempotent
+ * when a workflow step is retried.
+ */
+export function upsertTurnUsage(turns: TurnUsage[], usage: TurnUsage): TurnUsage[] {
+  return [...turns.filter((t) => t.turn !== usage.turn), usage].sort((a, b) => a.turn - b.turn);
+}
+
+export interface RunUsage extends UsageTotals {
+  runs: number;
+}
+
+export interface AgentUsage extends RunUsage {
+  /** null for runs with the default agent */
+  agentId: string | null;
+  agentName: string;
+}
+
+export interface ProjectUsage extends RunUsage {
+  projectId: string;
+  projectName: string;
+}
+
+/** Usage totals for one project (or the user's standalone tasks) */
+export interface UsageSummary {
+  totals: RunUsage;
+  byAgent: AgentUsage[];
+}
+
+/** Usage totals across all of a user's projects */
+export interface UserUsageSummary extends UsageSummary {
+  byProject: ProjectUsage[];
+}
+
+function addRunUsage<T extends RunUsage>(target: T, source: RunUsage): T {
+  return {
+    ...target,
+    runs: target.runs + source.runs,
+    ...sumUsage([target, source]),
+  };
+}
+
+/**
+ * Combine per-project summaries into a user-level summary.
+ * Agents with the same id (global agents used in several projects) are merged.
+ */
+export function mergeUsageSummaries(
+  projects: Array<{ projectId: string; projectName: string; summary: UsageSummary }>
+): UserUsageSummary {
+  let totals: RunUsage = { ...EMPTY_USAGE, runs: 0 };
+  const byAgent = new Map<string, AgentUsage>();
+  const byProject: ProjectUsage[] = [];
+
+  for (const { projectId, projectName, summary } of projects) {
+    totals = addRunUsage(totals, summary.totals);
+    byProject.push({ projectId, projectName, ...summary.totals });
+
+    for (const agent of summary.byAgent) {
+      const key = agent.agentId ?? '';
+      const existing = byAgent.get(key);
+      byAgent.set(key, existing ? addRunUsage(existing, agent) : { ...agent });
+    }
+  }
+
+  return {
+    totals,
+    byProject: byProject.sort((a, b) => b.costUsd - a.costUsd),
+    byAgent: [...byAgent.values()].sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
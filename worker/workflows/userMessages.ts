@@ -0,0 +1,90 @@
+/**
+ * Messages sent to a running agent
+ *
+ * Users can message an agent while it works ("also CC Sari", "stop
+ * searching and draft now"). Messages are queued on the plan in BoardDO and
+ * AgentWorkflow picks them up at the end of each turn, so the model reads
+ * them on its next call. A message marked as an interrupt also skips the
+ * tool calls the current turn hasn't started yet.
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+import type { ContentBlockParam, MessageParam } from '@anthropic-ai/sdk/resources/messages';
+
+export const MAX_USER_MESSAGE_LENGTH = 4_000;
+
+/** Plan statuses that still have a workflow to deliver messages to */
+export const MESSAGEABLE_PLAN_STATUSES = ['executing', 'checkpoint', 'budget_exceeded'];
+
+export interface WorkflowUserMessage {
+  id: string;
+  planId: string;
+  content: string;
+  /** Skip the remaining tool calls of the current turn */
+  interrupt: boolean;
+  createdAt: string;
+  /** Turn the message was handed to the agent in; null while queued */
+  deliveredTurn: number | null;
+}
+
+/**
+ * Check a message before it's queued. Returns an error message, or null.
+ */
+export function validateUserMessage(content: unknown): string | null {
+  if (typeof content !== 'string' || !content.trim()) {
+    return 'Message content is required';
+  }
+  if (content.length > MAX_USER_MESSAGE_LENGTH) {
+    return `Messages are limited to ${MAX_USER_MESSAGE_LENGTH} characters`;
+  }
+  return null;
+}
+
+function formatUserMessages(userMessages: WorkflowUserMessage[]): string {
+  const lines = userMessages.map((m) => m.content.trim());
+  const heading = userMessages.length === 1
+    ? 'The user sent you a message while you were working:'
+    : 'The user sent you messages while you were working:';
+  return `${heading}\n\n${lines.join('\n\n')}\n\nTake this into account before continuing.`;
+}
+
+/**
+ * Add queued user messages to the conversation. They join the trailing user
+ * message (usually the tool results) so user and assistant turns keep
+ * alternating. Returns a new array; the input is left untouched.
+ */
+export function appendUserMessages(
+  messages: MessageParam[],
+  userMessages: WorkflowUserMessage[]
+): MessageParam[] {
+  if (userMessages.length === 0) return messages;
+
+  const text: ContentBlockParam = { type: 'text', text: formatUserMessages(userMessages) };
+  const last = messages[messages.length - 1];
+  if (!last || last.role !== 'user') {
+    return [...messages, { role: 'user', content: [text] }];
+  }
+
+  const content: ContentBlockParam[] = typeof last.content === 'string'
+    ? [{ type: 'text', text: last.content }, text]
+    : [...last.content, text];
+  return [...messages.slice(0, -1), { ...last, content }];
+}
+
+/**
+ * Result for a tool call that was skipped because the user interrupted
+ */
+export function skippedToolResult(toolUseId: string): {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error: boolean;
+} {
+  return {
+    type: 'tool_result',
+    tool_use_id: toolUseId,
+    content: 'Skipped: the user interrupted before this call ran. Read their message and decide whether it is still needed.',
+    is_error: true,
+  };
+}
@@ -0,0 +1,268 @@
+/**
+ * Inbound webhooks that create (and optionally start) tasks
+ *
+ * Each project can have webhook configs. An incoming event is checked
+ * against the config's signature scheme and filter conditions, then the
+ * config's templates turn the payload into a task title and description.
+ * Every delivery, matched or not, is written to a bounded log.
+ *
+ * Sources:
+ * - github: `X-Hub-Signature-256` HMAC; the event name is `X-GitHub-Event`
+ * - generic: `X-Webhook-Signature` HMAC in the same `sha256=<hex>` form;
+ *   the event name is `X-Webhook-Event` when sent
+ * - gmail: Pub/Sub push cannot sign requests, so the push endpoint carries
+ *   the secret as a `token` query parameter; each new message matching the
+ *   config's Gmail query becomes one event
+ *
+ * Kept free of Workflow/DO imports so the rules can be unit tested.
+ */
+
+export type WebhookSource = 'github' | 'gmail' | 'generic';
+
+export const WEBHOOK_SOURCES: WebhookSource[] = ['github', 'gmail', 'generic'];
+
+export type WebhookConditionOp = 'equals' | 'contains' | 'exists';
+
+/** A filter on the event. All conditions must hold for a task to be created. */
+export interface WebhookCondition {
+  /** Dotted path into `{ event, payload }`, e.g. "payload.issue.labels.name" */
+  path: string;
+  op: WebhookConditionOp;
+  value?: string;
+}
+
+/** How an event becomes a task. Fields use {{path}} placeholders. */
+export interface WebhookTemplate {
+  title: string;
+  description: string;
+  /** Agent to run when auto-starting; the default agent when null */
+  agentId: string | null;
+}
+
+export interface WebhookConfigInput {
+  name: string;
+  source: WebhookSource;
+  enabled?: boolean;
+  conditions?: WebhookCondition[];
+  template: WebhookTemplate;
+  /** Column new tasks go in; the first column when null */
+  columnId?: string | null;
+  /** Start an agent run on the new task straight away */
+  autoStart?: boolean;
+  /** Gmail search query for new messages (gmail source only) */
+  gmailQuery?: string | null;
+}
+
+export interface WebhookConfig {
+  id: string;
+  projectId: string;
+  /** User the created tasks and runs act as */
+  userId: string;
+  name: string;
+  source: WebhookSource;
+  /** Shared secret for signatures (or the Gmail push token) */
+  secret: string;
+  enabled: boolean;
+  conditions: WebhookCondition[];
+  template: WebhookTemplate;
+  columnId: string | null;
+  autoStart: boolean;
+  gmailQuery: string | null;
+  lastDeliveryAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookDeliveryStatus = 'started' | 'created' | 'ignored' | 'rejected' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  receivedAt: string;
+  /** Event name, e.g. "issues" or "gmail" */
+  event: string;
+  status: WebhookDeliveryStatus;
+  /** Source-side id used to drop repeats (GitHub delivery id, Gmail message id) */
+  dedupeKey: string | null;
+  taskId: string | null;
+  planId: string | null;
+  message: string | null;
+  /** Start of the payload, for checking templates against real events */
+  payload: string | null;
+}
+
+/** The data conditions and templates are evaluated against */
+export interface WebhookEvent {
+  event: string;
+  payload: unknown;
+}
+
+/** Delivery log kept per webhook */
+export const MAX_WEBHOOK_DELIVERIES = 50;
+
+/** Largest request body accepted */
+export const MAX_WEBHOOK_BODY_BYTES = 1024 * 1024;
+
+/** Payload characters kept in the delivery log */
+export const MAX_LOGGED_PAYLOAD = 10000;
+
+const MAX_TITLE_LENGTH = 200;
+
+/**
+ * Check a webhook config, returning an error message or null
+ */
+export function validateWebhookConfig(input: WebhookConfigInput): string | null {
+  if (!input.name?.trim()) {
+    return 'name is required';
+  }
+  if (!WEBHOOK_SOURCES.includes(input.source)) {
+    return `source must be one of: ${WEBHOOK_SOURCES.join(', ')}`;
+  }
+  if (!input.template?.title?.trim()) {
+    return 'template.title is required';
+  }
+  for (const condition of input.conditions || []) {
+    if (!condition.path?.trim()) {
+      return 'Every condition needs a path';
+    }
+    if (!['equals', 'contains', 'exists'].includes(condition.op)) {
+      return `Unknown condition operator "${condition.op}"`;
+    }
+    if (condition.op !== 'exists' && condition.value === undefined) {
+      return `Condition on "${condition.path}" needs a value`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Values at a dotted path. Arrays along the way are flattened, so
+ * "payload.issue.labels.name" gives every label name.
+ */
+export function resolvePath(context: unknown, path: string): unknown[] {
+  let values: unknown[] = [context];
+  for (const key of path.split('.').filter(Boolean)) {
+    const next: unknown[] = [];
+    for (const value of values) {
+      const items = Array.isArray(value) ? value : [value];
+      for (const item of items) {
+        if (item !== null && typeof item === 'object' && key in item) {
+          next.push((item as Record<string, unknown>)[key]);
+        }
+      }
+    }
+    values = next;
+  }
+  return values.flatMap((value) => (Array.isArray(value) ? value : [value])).filter((v) => v !== undefined && v !== null);
+}
+
+/**
+ * Whether an event passes every condition. Comparisons ignore case.
+ */
+export function matchesConditions(conditions: WebhookCondition[], context: WebhookEvent): boolean {
+  return conditions.every((condition) => {
+    const values = resolvePath(context, condition.path).map((v) => stringify(v).toLowerCase());
+    const expected = (condition.value ?? '').toLowerCase();
+    switch (condition.op) {
+      case 'exists':
+        return values.length > 0;
+      case 'equals':
+        return values.some((v) => v === expected);
+      case 'contains':
+        return values.some((v) => v.includes(expected));
+    }
+  });
+}
+
+/**
+ * Fill {{path}} placeholders. Missing values become empty; several values
+ * (from arrays) are joined with commas.
+ */
+export function renderTemplate(template: string, context: WebhookEvent): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, path: string) =>
+    resolvePath(context, path).map(stringify).join(', ')
+  );
+}
+
+/**
+ * Task title and description for an event
+ */
+export function taskFromEvent(config: Pick<WebhookConfig, 'name' | 'template'>, context: WebhookEvent): { title: string; description: string } {
+  const title = renderTemplate(config.template.title, context).replace(/\s+/g, ' ').trim() || `${config.name}: ${context.event}`;
+  return {
+    title: title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title,
+    description: renderTemplate(config.template.description, context).trim(),
+  };
+}
+
+/**
+ * HMAC-SHA256 of a body as `sha256=<hex>`, the form GitHub sends
+ */
+export async function webhookSignature(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(body)));
+  return `sha256=${Array.from(signature, (b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Check a `sha256=<hex>` signature header against the body
+ */
+export async function verifyWebhookSignature(secret: string, body: string, header: string | null): Promise<boolean> {
+  if (!header) return false;
+  return timingSafeEqual(header.trim().toLowerCase(), await webhookSignature(secret, body));
+}
+
+/**
+ * Timing-safe string comparison, also used for Gmail push tokens
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+/**
+ * Read a Gmail Pub/Sub push body: the message data is base64 JSON with the
+ * mailbox address and its latest history id
+ */
+export function parseGmailPush(body: string): { emailAddress: string; historyId: string } | null {
+  try {
+    const push = JSON.parse(body) as { message?: { data?: string } };
+    if (!push.message?.data) return null;
+    const data = JSON.parse(atob(push.message.data.replace(/-/g, '+').replace(/_/g, '/'))) as {
+      emailAddress?: string;
+      historyId?: string | number;
+    };
+    if (!data.emailAddress || data.historyId === undefined) return null;
+    return { emailAddress: data.emailAddress, historyId: String(data.historyId) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a request body as JSON, falling back to `{ body: text }`
+ */
+export function parseWebhookBody(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return { body };
+  }
+}
+
+function stringify(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}